@@ -0,0 +1,109 @@
+// Service worker: keeps the app usable on flaky connections.
+// - The app shell (index.html and the built /assets it references) is precached on install.
+//   Labs and interview questions are bundled into those assets, so they come along with the shell.
+// - Courses and modules are loaded from Supabase, not cached here: the app keeps the last
+//   catalog it saw in localStorage (see courseRepository). Module media in Supabase Storage
+//   is on another origin and only opens offline if the browser's HTTP cache still has it.
+// - Navigations are network-first and fall back to the cached shell.
+// - Hashed /assets files are cache-first; /docs (the tutor's reference documents) is
+//   stale-while-revalidate.
+// - API and Supabase requests are never cached; offline writes are queued by the app itself.
+
+const VERSION = 'v1';
+const SHELL_CACHE = `shell-${VERSION}`;
+const ASSET_CACHE = `assets-${VERSION}`;
+const DOCS_CACHE = `docs-${VERSION}`;
+const CURRENT_CACHES = [SHELL_CACHE, ASSET_CACHE, DOCS_CACHE];
+
+const SHELL_URLS = ['/', '/manifest.webmanifest', '/icon.svg'];
+
+async function precacheShell() {
+  const cache = await caches.open(SHELL_CACHE);
+  await cache.addAll(SHELL_URLS);
+
+  // Pull in the entry scripts and styles the shell points at
+  const html = await (await cache.match('/')).text();
+  const assets = [...html.matchAll(/(?:src|href)="(\/assets\/[^"]+)"/g)].map(match => match[1]);
+  const assetCache = await caches.open(ASSET_CACHE);
+  await assetCache.addAll(assets);
+}
+
+// Missing documents are skipped rather than failing the install
+async function precacheDocs() {
+  const cache = await caches.open(DOCS_CACHE);
+  const response = await fetch('/docs/index.json');
+  if (!response.ok) return;
+  await cache.put('/docs/index.json', response.clone());
+  const names = await response.json();
+  await Promise.allSettled(names.map(name => cache.add(`/docs/${encodeURIComponent(name)}`)));
+}
+
+self.addEventListener('install', event => {
+  event.waitUntil(
+    Promise.all([precacheShell(), precacheDocs().catch(() => undefined)]).then(() => self.skipWaiting())
+  );
+});
+
+self.addEventListener('activate', event => {
+  event.waitUntil(
+    caches
+      .keys()
+      .then(keys => Promise.all(keys.filter(key => !CURRENT_CACHES.includes(key)).map(key => caches.delete(key))))
+      .then(() => self.clients.claim())
+  );
+});
+
+async function networkFirstShell(request) {
+  const cache = await caches.open(SHELL_CACHE);
+  try {
+    const response = await fetch(request);
+    if (response.ok) await cache.put('/', response.clone());
+    return response;
+  } catch {
+    return (await cache.match('/')) || Response.error();
+  }
+}
+
+async function cacheFirst(request, cacheName) {
+  const cached = await caches.match(request);
+  if (cached) return cached;
+  const response = await fetch(request);
+  if (response.ok) {
+    const cache = await caches.open(cacheName);
+    await cache.put(request, response.clone());
+  }
+  return response;
+}
+
+async function staleWhileRevalidate(event, cacheName) {
+  const cache = await caches.open(cacheName);
+  const cached = await cache.match(event.request);
+  const refresh = fetch(event.request)
+    .then(response => {
+      if (response.ok) return cache.put(event.request, response.clone()).then(() => response);
+      return response;
+    });
+  if (cached) {
+    event.waitUntil(refresh.catch(() => undefined));
+    return cached;
+  }
+  return refresh;
+}
+
+self.addEventListener('fetch', event => {
+  const { request } = event;
+  if (request.method !== 'GET') return;
+
+  const url = new URL(request.url);
+  if (url.origin !== self.location.origin || url.pathname.startsWith('/api/')) return;
+
+  if (request.mode === 'navigate') {
+    event.respondWith(networkFirstShell(request));
+  } else if (url.pathname.startsWith('/assets/')) {
+    event.respondWith(cacheFirst(request, ASSET_CACHE));
+  } else if (url.pathname.startsWith('/docs/')) {
+    event.respondWith(staleWhileRevalidate(event, DOCS_CACHE));
+  } else if (SHELL_URLS.includes(url.pathname)) {
+    event.respondWith(cacheFirst(request, SHELL_CACHE));
+  }
+});
@@ -1,5 +1,16 @@
+import 'dotenv/config';
 import express from 'express';
 import cors from 'cors';
+import authRoutes from './server/routes/auth.mjs';
+import accountRoutes from './server/routes/account.mjs';
+import inviteRoutes from './server/routes/invites.mjs';
+import mfaRoutes from './server/routes/mfa.mjs';
+import authEventRoutes from './server/routes/authEvents.mjs';
+import ssoRoutes from './server/routes/sso.mjs';
+import privacyRoutes from './server/routes/privacy.mjs';
+import xapiRoutes from './server/routes/xapi.mjs';
+import { processDueDeletions } from './server/personalData.mjs';
+import { deliverXapiEvents } from './server/xapi.mjs';
 
 const app = express();
 const PORT = process.env.PORT || 5174;
@@ -12,7 +23,22 @@ const ALLOWLIST = [
   'badssl.com'
 ];
 
+// Behind a reverse proxy, set TRUST_PROXY (e.g. 1) so req.ip is the client address used for login throttling
+if (process.env.TRUST_PROXY) {
+  app.set('trust proxy', Number(process.env.TRUST_PROXY) || process.env.TRUST_PROXY);
+}
+
 app.use(cors());
+app.use(express.json());
+
+app.use('/api/auth', authRoutes);
+app.use('/api/auth', accountRoutes);
+app.use('/api/auth/mfa', mfaRoutes);
+app.use('/api/auth/sso', ssoRoutes);
+app.use('/api/account', privacyRoutes);
+app.use('/api/invites', inviteRoutes);
+app.use('/api/auth-events', authEventRoutes);
+app.use('/api/xapi', xapiRoutes);
 
 app.get('/proxy', async (req, res) => {
   try {
@@ -47,6 +73,20 @@ app.get('/proxy', async (req, res) => {
   }
 });
 
+// Erase accounts whose deletion grace period has passed
+const DELETION_SWEEP_INTERVAL_MS = 60 * 60 * 1000;
+setInterval(() => {
+  processDueDeletions()
+    .then(count => count && console.log(`Erased ${count} account(s) at their owners' request`))
+    .catch(err => console.error('Account deletion sweep failed:', err));
+}, DELETION_SWEEP_INTERVAL_MS).unref();
+
+// Retry xAPI statements the LRS has not accepted yet
+const XAPI_DELIVERY_INTERVAL_MS = 60 * 1000;
+setInterval(() => {
+  deliverXapiEvents().catch(err => console.error('xAPI delivery failed:', err));
+}, XAPI_DELIVERY_INTERVAL_MS).unref();
+
 app.listen(PORT, () => {
-  console.log(`Proxy running on http://localhost:${PORT}`);
+  console.log(`API and proxy running on http://localhost:${PORT}`);
 });
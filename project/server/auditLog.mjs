@@ -0,0 +1,27 @@
+import { getSupabaseAdmin } from './supabase.mjs';
+
+// Records an administrative action taken through the API server in the append-only audit_events table.
+// Changes made from the browser are recorded by database triggers instead (see the audit_events migration).
+// Like the sign-in log, a failure to write is reported but does not undo the action.
+// req is null for actions the server takes on its own (e.g. scheduled account erasure); the actor is then the system.
+export async function logAuditEvent(req, { action, targetType, targetId = null, targetLabel = null, organizationId = null, before = null, after = null }) {
+  try {
+    const { error } = await getSupabaseAdmin()
+      .from('audit_events')
+      .insert([{
+        organization_id: organizationId,
+        actor_id: req?.auth?.userId ?? null,
+        actor_email: req?.auth?.email ?? null,
+        action,
+        target_type: targetType,
+        target_id: targetId,
+        target_label: targetLabel,
+        before,
+        after
+      }]);
+
+    if (error) console.error('Audit log error:', error);
+  } catch (err) {
+    console.error('Audit log error:', err);
+  }
+}
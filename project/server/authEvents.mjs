@@ -0,0 +1,23 @@
+import { getSupabaseAdmin } from './supabase.mjs';
+import { normalizeEmail } from './invites.mjs';
+
+// Append-only log of sign-in activity, shown to admins in the dashboard.
+// Logging failures are reported but never block the sign-in flow itself.
+export async function logAuthEvent(req, { type, email, userId = null, reason = null }) {
+  try {
+    const { error } = await getSupabaseAdmin()
+      .from('auth_events')
+      .insert([{
+        event_type: type,
+        user_id: userId,
+        email: email ? normalizeEmail(email) : null,
+        ip_address: req.ip || '',
+        user_agent: req.get('user-agent') || '',
+        reason
+      }]);
+
+    if (error) console.error('Auth event log error:', error);
+  } catch (err) {
+    console.error('Auth event log error:', err);
+  }
+}
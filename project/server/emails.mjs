@@ -0,0 +1,76 @@
+import { sendMail, appLink } from './mail.mjs';
+
+function escapeHtml(value) {
+  return String(value).replace(/[&<>"']/g, ch => ({ '&': '&amp;', '<': '&lt;', '>': '&gt;', '"': '&quot;', "'": '&#39;' })[ch]);
+}
+
+function layout(heading, body, actionLabel, actionUrl) {
+  return `<div style="font-family:Arial,sans-serif;max-width:520px;margin:0 auto;padding:24px;color:#0f172a">
+  <h2 style="color:#ea580c">${heading}</h2>
+  <p>${body}</p>
+  <p style="margin:32px 0"><a href="${actionUrl}" style="background:#ea580c;color:#fff;padding:12px 24px;border-radius:8px;text-decoration:none">${actionLabel}</a></p>
+  <p style="font-size:12px;color:#64748b">If the button does not work, paste this link into your browser:<br>${actionUrl}</p>
+</div>`;
+}
+
+export async function sendVerificationEmail(user, token) {
+  const url = appLink({ verify_email: token });
+  await sendMail({
+    to: user.email,
+    subject: 'Confirm your Career Connect email',
+    text: `Hi ${user.name},\n\nConfirm your email address to unlock courses and progress tracking:\n${url}\n\nThis link expires in 3 days.`,
+    html: layout(`Welcome, ${escapeHtml(user.name)}`, 'Confirm your email address to unlock courses and progress tracking. This link expires in 3 days.', 'Confirm email', url)
+  });
+}
+
+export async function sendPasswordResetEmail(user, token) {
+  const url = appLink({ reset_password: token });
+  await sendMail({
+    to: user.email,
+    subject: 'Reset your Career Connect password',
+    text: `Hi ${user.name},\n\nSomeone asked to reset the password for this account. Use this link within the next hour:\n${url}\n\nIf this was not you, you can ignore this email.`,
+    html: layout('Reset your password', 'Someone asked to reset the password for this account. The link is valid for one hour. If this was not you, you can ignore this email.', 'Choose a new password', url)
+  });
+}
+
+export async function sendEmailChangeEmail(user, newEmail, token) {
+  const url = appLink({ confirm_email: token });
+  await sendMail({
+    to: newEmail,
+    subject: 'Confirm your new Career Connect email',
+    text: `Hi ${user.name},\n\nYou asked to change the email address of your Career Connect account to this one. Confirm the change within 3 days:\n${url}\n\nIf this was not you, you can ignore this email.`,
+    html: layout('Confirm your new email', 'You asked to change the email address of your Career Connect account to this one. The link expires in 3 days. If this was not you, you can ignore this email.', 'Confirm new email', url)
+  });
+}
+
+// Sent to the old address so its owner notices if someone else changed it
+export async function sendEmailChangedEmail(user, newEmail) {
+  const url = appLink();
+  await sendMail({
+    to: user.email,
+    subject: 'Your Career Connect email was changed',
+    text: `Hi ${user.name},\n\nThe email address of your Career Connect account was changed to ${newEmail}.\n\nIf this was not you, reset your password from the sign-in page and contact your administrator:\n${url}`,
+    html: layout('Your email was changed', `The email address of your Career Connect account was changed to ${escapeHtml(newEmail)}. If this was not you, reset your password from the sign-in page and contact your administrator.`, 'Open Career Connect', url)
+  });
+}
+
+export async function sendPasswordChangedEmail(user) {
+  const url = appLink();
+  await sendMail({
+    to: user.email,
+    subject: 'Your Career Connect password was changed',
+    text: `Hi ${user.name},\n\nThe password for your Career Connect account was just changed and your other devices were signed out.\n\nIf this was not you, reset your password from the sign-in page now:\n${url}`,
+    html: layout('Your password was changed', 'The password for your Career Connect account was just changed and your other devices were signed out. If this was not you, reset your password from the sign-in page now.', 'Open Career Connect', url)
+  });
+}
+
+export async function sendAccountDeletionScheduledEmail(user, scheduledFor) {
+  const url = appLink();
+  const date = new Date(scheduledFor).toUTCString();
+  await sendMail({
+    to: user.email,
+    subject: 'Your Career Connect account will be deleted',
+    text: `Hi ${user.name},\n\nYou asked us to delete your account. It and all of your data will be erased on ${date}.\n\nChanged your mind? Sign in before then and cancel the request from your profile:\n${url}`,
+    html: layout('Your account will be deleted', `You asked us to delete your account. It and all of your data will be erased on ${escapeHtml(date)}. Changed your mind? Sign in before then and cancel the request from your profile.`, 'Open Career Connect', url)
+  });
+}
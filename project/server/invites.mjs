@@ -0,0 +1,67 @@
+import crypto from 'node:crypto';
+import { getSupabaseAdmin } from './supabase.mjs';
+
+export const INVITE_ROLES = ['teacher', 'admin'];
+
+export function normalizeEmail(email) {
+  return String(email || '').trim().toLowerCase();
+}
+
+export function hashInviteCode(code) {
+  return crypto.createHash('sha256').update(code.trim().toUpperCase()).digest('hex');
+}
+
+// 12 characters from an alphabet without look-alikes, grouped for readability: ABCD-EFGH-JKLM
+export function generateInviteCode() {
+  const alphabet = 'ABCDEFGHJKLMNPQRSTUVWXYZ23456789';
+  const chars = Array.from(crypto.randomBytes(12), byte => alphabet[byte % alphabet.length]);
+  return [0, 4, 8].map(i => chars.slice(i, i + 4).join('')).join('-');
+}
+
+export function inviteStatus(invite) {
+  if (invite.revoked_at) return 'revoked';
+  if (invite.used_at) return 'used';
+  if (new Date(invite.expires_at) < new Date()) return 'expired';
+  return 'pending';
+}
+
+// Atomically marks a matching invite as used. Returns the invite, or null if the code is
+// unknown, already used, revoked, expired, or issued for a different email or role.
+export async function claimInvite(code, email, role) {
+  if (typeof code !== 'string' || !code.trim()) return null;
+
+  const supabase = getSupabaseAdmin();
+  const { data: invite, error } = await supabase
+    .from('user_invites')
+    .update({ used_at: new Date().toISOString() })
+    .eq('code_hash', hashInviteCode(code))
+    .eq('email', normalizeEmail(email))
+    .eq('role', role)
+    .is('used_at', null)
+    .is('revoked_at', null)
+    .gt('expires_at', new Date().toISOString())
+    .select()
+    .maybeSingle();
+
+  if (error) throw new Error(`Failed to redeem invite: ${error.message}`);
+  return invite;
+}
+
+export async function completeInvite(inviteId, userId) {
+  const { error } = await getSupabaseAdmin()
+    .from('user_invites')
+    .update({ used_by: userId })
+    .eq('id', inviteId);
+
+  if (error) throw new Error(`Failed to complete invite: ${error.message}`);
+}
+
+// Puts a claimed invite back when registration fails after the claim
+export async function releaseInvite(inviteId) {
+  const { error } = await getSupabaseAdmin()
+    .from('user_invites')
+    .update({ used_at: null })
+    .eq('id', inviteId);
+
+  if (error) console.error('Failed to release invite:', error);
+}
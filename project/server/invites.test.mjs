@@ -0,0 +1,89 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { claimInvite, generateInviteCode, hashInviteCode, inviteStatus, normalizeEmail } from './invites.mjs';
+
+// Filters applied to the claim query, and the invite the database hands back
+const db = vi.hoisted(() => ({ calls: [], invite: null }));
+
+vi.mock('./supabase.mjs', () => ({
+  getSupabaseAdmin: () => {
+    const query = {};
+    for (const method of ['from', 'update', 'eq', 'is', 'gt', 'select']) {
+      query[method] = (...args) => {
+        db.calls.push([method, ...args]);
+        return query;
+      };
+    }
+    query.maybeSingle = async () => ({ data: db.invite, error: null });
+    return query;
+  }
+}));
+
+describe('invite codes', () => {
+  it('are three groups of four characters without look-alikes', () => {
+    for (let i = 0; i < 50; i++) {
+      expect(generateInviteCode()).toMatch(/^[A-HJ-NP-Z2-9]{4}-[A-HJ-NP-Z2-9]{4}-[A-HJ-NP-Z2-9]{4}$/);
+    }
+  });
+
+  it('hash the same however they are typed', () => {
+    expect(hashInviteCode(' abcd-efgh-jkmn ')).toBe(hashInviteCode('ABCD-EFGH-JKMN'));
+    expect(hashInviteCode('ABCD-EFGH-JKMN')).not.toBe(hashInviteCode('ABCD-EFGH-JKMP'));
+  });
+
+  it('normalize emails for matching', () => {
+    expect(normalizeEmail('  Ada@Example.COM ')).toBe('ada@example.com');
+    expect(normalizeEmail(undefined)).toBe('');
+  });
+});
+
+describe('inviteStatus', () => {
+  beforeEach(() => {
+    vi.useFakeTimers({ now: new Date('2026-10-19T12:00:00Z') });
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  const invite = { expires_at: '2026-10-20T12:00:00Z', used_at: null, revoked_at: null };
+
+  it('reports revoked before used before expired', () => {
+    expect(inviteStatus(invite)).toBe('pending');
+    expect(inviteStatus({ ...invite, expires_at: '2026-10-19T11:59:59Z' })).toBe('expired');
+    expect(inviteStatus({ ...invite, expires_at: '2026-10-19T11:59:59Z', used_at: '2026-10-19T10:00:00Z' })).toBe('used');
+    expect(inviteStatus({ ...invite, used_at: '2026-10-19T10:00:00Z', revoked_at: '2026-10-19T11:00:00Z' })).toBe('revoked');
+  });
+});
+
+describe('claimInvite', () => {
+  beforeEach(() => {
+    db.calls = [];
+    db.invite = null;
+  });
+
+  it('does not query for a missing code', async () => {
+    expect(await claimInvite('  ', 'ada@example.com', 'teacher')).toBeNull();
+    expect(await claimInvite(undefined, 'ada@example.com', 'teacher')).toBeNull();
+    expect(db.calls).toEqual([]);
+  });
+
+  it('only claims an unused, unrevoked, unexpired invite for the same email and role', async () => {
+    db.invite = { id: 'invite-1', role: 'teacher' };
+
+    expect(await claimInvite('abcd-efgh-jkmn', ' Ada@Example.com', 'teacher')).toEqual(db.invite);
+    expect(db.calls).toEqual(expect.arrayContaining([
+      ['from', 'user_invites'],
+      ['eq', 'code_hash', hashInviteCode('ABCD-EFGH-JKMN')],
+      ['eq', 'email', 'ada@example.com'],
+      ['eq', 'role', 'teacher'],
+      ['is', 'used_at', null],
+      ['is', 'revoked_at', null],
+      ['gt', 'expires_at', expect.any(String)]
+    ]));
+    expect(db.calls.find(([method]) => method === 'update')[1]).toEqual({ used_at: expect.any(String) });
+  });
+
+  it('returns null when no invite matches', async () => {
+    expect(await claimInvite('ABCD-EFGH-JKMN', 'ada@example.com', 'admin')).toBeNull();
+  });
+});
@@ -0,0 +1,123 @@
+import { getSupabaseAdmin } from './supabase.mjs';
+import { normalizeEmail } from './invites.mjs';
+import { logAuthEvent } from './authEvents.mjs';
+
+// Failed sign-ins are counted per account and per client IP. Past `freeAttempts` each failure
+// doubles the wait before the next attempt; past `lockoutAfter` the key is locked out outright.
+// Supabase Auth only holds a keyed hash of each password (see supabasePassword), so these checks
+// cannot be sidestepped by signing in there directly with the anon key.
+const POLICIES = {
+  account: { freeAttempts: 3, lockoutAfter: 10 },
+  ip: { freeAttempts: 10, lockoutAfter: 50 }
+};
+const BASE_BACKOFF_SECONDS = 2;
+const MAX_BACKOFF_SECONDS = 5 * 60;
+const LOCKOUT_SECONDS = 30 * 60;
+// Failures older than this no longer count
+const FAILURE_WINDOW_SECONDS = 60 * 60;
+
+function throttleKeys(email, ip) {
+  return [
+    { kind: 'account', key: `account:${normalizeEmail(email)}` },
+    { kind: 'ip', key: `ip:${ip || 'unknown'}` }
+  ];
+}
+
+async function loadThrottles(keys) {
+  const { data, error } = await getSupabaseAdmin()
+    .from('login_throttles')
+    .select('*')
+    .in('key', keys.map(k => k.key));
+
+  if (error) throw new Error(`Failed to load login throttles: ${error.message}`);
+  return new Map(data.map(row => [row.key, row]));
+}
+
+// Returns the number of seconds the caller must wait before trying again, or 0.
+export async function getLoginRetryAfter(email, ip) {
+  const keys = throttleKeys(email, ip);
+  const rows = await loadThrottles(keys);
+  const now = Date.now();
+
+  return keys.reduce((wait, { key }) => {
+    const blockedUntil = rows.get(key)?.blocked_until;
+    const remaining = blockedUntil ? Math.ceil((new Date(blockedUntil).getTime() - now) / 1000) : 0;
+    return Math.max(wait, remaining);
+  }, 0);
+}
+
+function blockSeconds(kind, failureCount) {
+  const { freeAttempts, lockoutAfter } = POLICIES[kind];
+  if (failureCount >= lockoutAfter) return LOCKOUT_SECONDS;
+  if (failureCount > freeAttempts) {
+    return Math.min(BASE_BACKOFF_SECONDS * 2 ** (failureCount - freeAttempts - 1), MAX_BACKOFF_SECONDS);
+  }
+  return 0;
+}
+
+// Counts a failed attempt against both keys. Returns whether the account has just been locked out.
+// The database does the increment, so every parallel failure counts and only one sees the lockout.
+export async function recordLoginFailure(email, ip) {
+  const supabase = getSupabaseAdmin();
+  let accountLocked = false;
+
+  for (const { kind, key } of throttleKeys(email, ip)) {
+    const { data: failureCount, error } = await supabase.rpc('record_login_failure', {
+      throttle_key: key,
+      window_seconds: FAILURE_WINDOW_SECONDS
+    });
+    if (error) throw new Error(`Failed to record login failure: ${error.message}`);
+
+    if (kind === 'account' && failureCount === POLICIES.account.lockoutAfter) accountLocked = true;
+    const seconds = blockSeconds(kind, failureCount);
+    if (!seconds) continue;
+
+    // Only ever extends the block, whichever parallel failure writes last
+    const blockedUntil = new Date(Date.now() + seconds * 1000).toISOString();
+    const { error: blockError } = await supabase
+      .from('login_throttles')
+      .update({ blocked_until: blockedUntil })
+      .eq('key', key)
+      .or(`blocked_until.is.null,blocked_until.lt."${blockedUntil}"`);
+    if (blockError) throw new Error(`Failed to record login failure: ${blockError.message}`);
+  }
+
+  return { accountLocked };
+}
+
+// A successful sign-in clears the account's counter. The IP counter is left to expire.
+export async function clearAccountThrottle(email) {
+  const { error } = await getSupabaseAdmin()
+    .from('login_throttles')
+    .delete()
+    .eq('key', `account:${normalizeEmail(email)}`);
+
+  if (error) throw new Error(`Failed to clear login throttle: ${error.message}`);
+}
+
+export function formatRetryAfter(seconds) {
+  if (seconds < 60) return `${seconds} second${seconds === 1 ? '' : 's'}`;
+  const minutes = Math.ceil(seconds / 60);
+  return `${minutes} minute${minutes === 1 ? '' : 's'}`;
+}
+
+// Sends a 429 and returns true when the account or IP is still backing off.
+export async function rejectIfThrottled(req, res, email) {
+  const retryAfter = await getLoginRetryAfter(email, req.ip);
+  if (!retryAfter) return false;
+
+  await logAuthEvent(req, { type: 'login_blocked', email, reason: `Retry allowed in ${retryAfter}s` });
+  res.set('Retry-After', String(retryAfter));
+  res.status(429).json({ error: `Too many failed sign-in attempts. Please try again in ${formatRetryAfter(retryAfter)}.` });
+  return true;
+}
+
+// Records a failed attempt (password or second factor) and sends `status` (401 unless given) with `message`.
+export async function rejectFailedLogin(req, res, { email, userId = null, type = 'login_failed', reason, message, status = 401 }) {
+  const { accountLocked } = await recordLoginFailure(email, req.ip);
+  await logAuthEvent(req, { type, email, userId, reason });
+  if (accountLocked) {
+    await logAuthEvent(req, { type: 'account_locked', email, userId, reason: 'Too many failed attempts' });
+  }
+  res.status(status).json({ error: message });
+}
@@ -0,0 +1,183 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import {
+  clearAccountThrottle,
+  formatRetryAfter,
+  getLoginRetryAfter,
+  recordLoginFailure,
+  rejectFailedLogin,
+  rejectIfThrottled
+} from './loginThrottle.mjs';
+import { logAuthEvent } from './authEvents.mjs';
+
+// login_throttles rows by key; record_login_failure increments the count like the database function
+const db = vi.hoisted(() => ({ rows: new Map() }));
+
+vi.mock('./supabase.mjs', () => ({
+  getSupabaseAdmin: () => ({
+    rpc: async (name, { throttle_key: key }) => {
+      const row = db.rows.get(key) ?? { key, failure_count: 0, blocked_until: null };
+      row.failure_count++;
+      db.rows.set(key, row);
+      return { data: row.failure_count, error: null };
+    },
+    from: () => ({
+      select: () => ({
+        in: async (column, keys) => ({ data: keys.map(key => db.rows.get(key)).filter(Boolean), error: null })
+      }),
+      // Mirrors the `or` filter: a block is only ever extended
+      update: values => ({
+        eq: (column, key) => ({
+          or: async () => {
+            const row = db.rows.get(key);
+            if (row && (!row.blocked_until || row.blocked_until < values.blocked_until)) Object.assign(row, values);
+            return { error: null };
+          }
+        })
+      }),
+      delete: () => ({
+        eq: async (column, key) => {
+          db.rows.delete(key);
+          return { error: null };
+        }
+      })
+    })
+  })
+}));
+
+vi.mock('./authEvents.mjs', () => ({ logAuthEvent: vi.fn(async () => {}) }));
+
+const IP = '203.0.113.7';
+
+const fail = async (times, email = 'ada@example.com', ip = IP) => {
+  let result;
+  for (let i = 0; i < times; i++) result = await recordLoginFailure(email, ip);
+  return result;
+};
+
+const fakeResponse = () => {
+  const res = { headers: {} };
+  res.set = (name, value) => ((res.headers[name] = value), res);
+  res.status = code => ((res.statusCode = code), res);
+  res.json = body => ((res.body = body), res);
+  return res;
+};
+
+beforeEach(() => {
+  vi.useFakeTimers({ now: new Date('2026-10-19T12:00:00Z') });
+  db.rows.clear();
+  vi.mocked(logAuthEvent).mockClear();
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+describe('recordLoginFailure', () => {
+  it('allows three free attempts per account, then doubles the wait', async () => {
+    await fail(3);
+    expect(await getLoginRetryAfter('ada@example.com', IP)).toBe(0);
+
+    await fail(1);
+    expect(await getLoginRetryAfter('ada@example.com', IP)).toBe(2);
+    await fail(1);
+    expect(await getLoginRetryAfter('ada@example.com', IP)).toBe(4);
+    await fail(1);
+    expect(await getLoginRetryAfter('ada@example.com', IP)).toBe(8);
+  });
+
+  it('locks the account out for 30 minutes on the tenth failure and reports it once', async () => {
+    expect(await fail(9)).toEqual({ accountLocked: false });
+    expect(await fail(1)).toEqual({ accountLocked: true });
+    expect(await getLoginRetryAfter('ada@example.com', IP)).toBe(30 * 60);
+    expect(await fail(1)).toEqual({ accountLocked: false });
+  });
+
+  it('counts the account whatever case the email is typed in', async () => {
+    await fail(2, 'Ada@Example.com');
+    await fail(2, ' ada@example.COM ');
+
+    expect(await getLoginRetryAfter('ada@example.com', '198.51.100.1')).toBe(2);
+  });
+
+  it('backs off an IP that tries many accounts', async () => {
+    for (let i = 0; i < 10; i++) await fail(1, `user${i}@example.com`);
+    expect(await getLoginRetryAfter('new@example.com', IP)).toBe(0);
+
+    await fail(1, 'user10@example.com');
+    expect(await getLoginRetryAfter('new@example.com', IP)).toBe(2);
+    expect(await getLoginRetryAfter('new@example.com', '198.51.100.1')).toBe(0);
+  });
+
+  it('lets the wait run out', async () => {
+    await fail(4);
+    vi.advanceTimersByTime(2000);
+
+    expect(await getLoginRetryAfter('ada@example.com', IP)).toBe(0);
+  });
+});
+
+describe('clearAccountThrottle', () => {
+  it('resets the account but leaves the IP counting', async () => {
+    await fail(3);
+    await clearAccountThrottle('ADA@example.com');
+    await fail(1);
+
+    expect(db.rows.get('account:ada@example.com').failure_count).toBe(1);
+    expect(db.rows.get(`ip:${IP}`).failure_count).toBe(4);
+  });
+});
+
+describe('rejectIfThrottled', () => {
+  it('lets the attempt through when nothing is blocked', async () => {
+    const res = fakeResponse();
+
+    expect(await rejectIfThrottled({ ip: IP }, res, 'ada@example.com')).toBe(false);
+    expect(res.statusCode).toBeUndefined();
+  });
+
+  it('answers 429 with Retry-After and logs the blocked attempt', async () => {
+    await fail(5);
+    const req = { ip: IP };
+    const res = fakeResponse();
+
+    expect(await rejectIfThrottled(req, res, 'ada@example.com')).toBe(true);
+    expect(res.statusCode).toBe(429);
+    expect(res.headers['Retry-After']).toBe('4');
+    expect(res.body.error).toBe('Too many failed sign-in attempts. Please try again in 4 seconds.');
+    expect(logAuthEvent).toHaveBeenCalledWith(req, expect.objectContaining({ type: 'login_blocked', email: 'ada@example.com' }));
+  });
+});
+
+describe('rejectFailedLogin', () => {
+  it('counts the failure, logs it and answers with the given status', async () => {
+    const req = { ip: IP };
+    const res = fakeResponse();
+
+    await rejectFailedLogin(req, res, { email: 'ada@example.com', userId: 'user-1', type: 'mfa_failed', reason: 'Invalid code', message: 'Invalid code', status: 400 });
+
+    expect(res.statusCode).toBe(400);
+    expect(res.body).toEqual({ error: 'Invalid code' });
+    expect(db.rows.get('account:ada@example.com').failure_count).toBe(1);
+    expect(logAuthEvent).toHaveBeenCalledWith(req, { type: 'mfa_failed', email: 'ada@example.com', userId: 'user-1', reason: 'Invalid code' });
+  });
+
+  it('logs the lockout when the failure locks the account', async () => {
+    await fail(9);
+    const req = { ip: IP };
+    const res = fakeResponse();
+
+    await rejectFailedLogin(req, res, { email: 'ada@example.com', reason: 'Wrong password', message: 'Invalid email or password' });
+
+    expect(res.statusCode).toBe(401);
+    expect(logAuthEvent).toHaveBeenCalledWith(req, expect.objectContaining({ type: 'account_locked', email: 'ada@example.com' }));
+  });
+});
+
+describe('formatRetryAfter', () => {
+  it('rounds up to minutes past one minute', () => {
+    expect(formatRetryAfter(1)).toBe('1 second');
+    expect(formatRetryAfter(59)).toBe('59 seconds');
+    expect(formatRetryAfter(61)).toBe('2 minutes');
+    expect(formatRetryAfter(1800)).toBe('30 minutes');
+  });
+});
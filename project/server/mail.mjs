@@ -0,0 +1,54 @@
+import nodemailer from 'nodemailer';
+
+// Pluggable outgoing mail. Pick a transport with MAIL_TRANSPORT:
+//   smtp    - any SMTP server. In development point it at a local catcher such as
+//             Mailpit or MailHog (SMTP_HOST=localhost, SMTP_PORT=1025).
+//   console - prints messages to the server log instead of sending them.
+// Other transports can be added with registerMailTransport(name, factory).
+
+const transportFactories = {
+  console: () => ({
+    async send(message) {
+      console.log(`[mail] To: ${message.to}\n[mail] Subject: ${message.subject}\n${message.text}`);
+    }
+  }),
+  smtp: () => {
+    const port = Number(process.env.SMTP_PORT || 1025);
+    const transporter = nodemailer.createTransport({
+      host: process.env.SMTP_HOST || 'localhost',
+      port,
+      secure: port === 465,
+      auth: process.env.SMTP_USER ? { user: process.env.SMTP_USER, pass: process.env.SMTP_PASS } : undefined
+    });
+    return { send: message => transporter.sendMail(message) };
+  }
+};
+
+let transport = null;
+
+export function registerMailTransport(name, factory) {
+  transportFactories[name] = factory;
+  transport = null;
+}
+
+function getTransport() {
+  if (!transport) {
+    const name = process.env.MAIL_TRANSPORT || (process.env.SMTP_HOST ? 'smtp' : 'console');
+    const factory = transportFactories[name];
+    if (!factory) throw new Error(`Unknown MAIL_TRANSPORT "${name}"`);
+    transport = factory();
+  }
+  return transport;
+}
+
+export async function sendMail({ to, subject, text, html }) {
+  const from = process.env.MAIL_FROM || 'Career Connect <no-reply@localhost>';
+  await getTransport().send({ from, to, subject, text, html });
+}
+
+// Links in emails open the SPA, which reads the token from the query string
+export function appLink(params = {}, path = '/') {
+  const base = (process.env.APP_URL || 'http://localhost:5173').replace(/\/$/, '');
+  const query = new URLSearchParams(params).toString();
+  return query ? `${base}${path}?${query}` : `${base}${path}`;
+}
@@ -0,0 +1,159 @@
+import crypto from 'node:crypto';
+import QRCode from 'qrcode';
+import { getSupabaseAdmin, supabaseSessionId } from './supabase.mjs';
+import { signToken, verifyToken } from './tokens.mjs';
+import { generateTotpSecret, verifyTotp, otpauthUrl } from './totp.mjs';
+import { encryptSecret, decryptSecret } from './secrets.mjs';
+
+export const MFA_REQUIRED_ROLES = ['teacher', 'admin'];
+const ISSUER = 'Career Connect';
+const RECOVERY_CODE_COUNT = 10;
+// Lifetime of the token that stands in for a session between the password and second-factor steps
+const MFA_TOKEN_TTL_SECONDS = 60 * 10;
+
+export function isMfaRequired(role) {
+  return MFA_REQUIRED_ROLES.includes(role);
+}
+
+// purpose is 'mfa_challenge' (enrolled, must enter a code) or 'mfa_enrollment' (must enrol before signing in)
+export function issueMfaToken(userId, purpose) {
+  return signToken({ sub: userId, purpose }, MFA_TOKEN_TTL_SECONDS);
+}
+
+export function readMfaToken(token, purpose) {
+  const claims = verifyToken(token);
+  if (!claims || claims.purpose !== purpose) return null;
+  return claims.sub;
+}
+
+function hashRecoveryCode(code) {
+  return crypto.createHash('sha256').update(code.replace(/[\s-]/g, '').toLowerCase()).digest('hex');
+}
+
+export async function getMfaRecord(userId) {
+  const { data, error } = await getSupabaseAdmin()
+    .from('user_mfa')
+    .select('*')
+    .eq('user_id', userId)
+    .maybeSingle();
+
+  if (error) throw new Error(`Failed to load 2FA settings: ${error.message}`);
+  return data;
+}
+
+export async function isMfaEnabled(userId) {
+  const record = await getMfaRecord(userId);
+  return Boolean(record?.enabled_at);
+}
+
+// Starts (or restarts) enrolment with a fresh secret. Replaces any unconfirmed secret.
+export async function beginEnrollment(user) {
+  const secret = generateTotpSecret();
+  const { error } = await getSupabaseAdmin()
+    .from('user_mfa')
+    .upsert([{ user_id: user.id, secret_encrypted: encryptSecret(secret), enabled_at: null, last_used_step: 0 }]);
+
+  if (error) throw new Error(`Failed to start 2FA enrolment: ${error.message}`);
+
+  const url = otpauthUrl(secret, user.email, ISSUER);
+  return { secret, otpauthUrl: url, qrCode: await QRCode.toDataURL(url) };
+}
+
+// Checks a TOTP code against the stored secret and records its step so it can't be reused.
+export async function verifyMfaCode(userId, code) {
+  const record = await getMfaRecord(userId);
+  if (!record) return false;
+
+  const step = verifyTotp(decryptSecret(record.secret_encrypted), code);
+  if (step === null || step <= Number(record.last_used_step || 0)) return false;
+
+  const { data, error } = await getSupabaseAdmin()
+    .from('user_mfa')
+    .update({ last_used_step: step })
+    .eq('user_id', userId)
+    .lt('last_used_step', step)
+    .select('user_id')
+    .maybeSingle();
+
+  if (error) throw new Error(`Failed to record 2FA code: ${error.message}`);
+  return Boolean(data);
+}
+
+export async function confirmEnrollment(userId, code) {
+  const record = await getMfaRecord(userId);
+  if (!record || record.enabled_at) return null;
+  if (!(await verifyMfaCode(userId, code))) return null;
+
+  const { error } = await getSupabaseAdmin()
+    .from('user_mfa')
+    .update({ enabled_at: new Date().toISOString() })
+    .eq('user_id', userId);
+
+  if (error) throw new Error(`Failed to enable 2FA: ${error.message}`);
+  return regenerateRecoveryCodes(userId);
+}
+
+// Replaces all recovery codes. The plain codes are only returned here.
+export async function regenerateRecoveryCodes(userId) {
+  const supabase = getSupabaseAdmin();
+  const codes = Array.from({ length: RECOVERY_CODE_COUNT }, () => {
+    const raw = crypto.randomBytes(5).toString('hex');
+    return `${raw.slice(0, 5)}-${raw.slice(5)}`;
+  });
+
+  const { error: deleteError } = await supabase.from('mfa_recovery_codes').delete().eq('user_id', userId);
+  if (deleteError) throw new Error(`Failed to replace recovery codes: ${deleteError.message}`);
+
+  const { error } = await supabase
+    .from('mfa_recovery_codes')
+    .insert(codes.map(code => ({ user_id: userId, code_hash: hashRecoveryCode(code) })));
+
+  if (error) throw new Error(`Failed to save recovery codes: ${error.message}`);
+  return codes;
+}
+
+export async function useRecoveryCode(userId, code) {
+  if (typeof code !== 'string' || !code.trim()) return false;
+
+  const { data, error } = await getSupabaseAdmin()
+    .from('mfa_recovery_codes')
+    .update({ used_at: new Date().toISOString() })
+    .eq('user_id', userId)
+    .eq('code_hash', hashRecoveryCode(code))
+    .is('used_at', null)
+    .select('id')
+    .maybeSingle();
+
+  if (error) throw new Error(`Failed to redeem recovery code: ${error.message}`);
+  return Boolean(data);
+}
+
+export async function countRecoveryCodes(userId) {
+  const { count, error } = await getSupabaseAdmin()
+    .from('mfa_recovery_codes')
+    .select('id', { count: 'exact', head: true })
+    .eq('user_id', userId)
+    .is('used_at', null);
+
+  if (error) throw new Error(`Failed to count recovery codes: ${error.message}`);
+  return count ?? 0;
+}
+
+// Records a Supabase session the server opened after the second step. Teacher and admin rights
+// in RLS only apply inside these sessions (see 20261019000600_user_mfa.sql).
+export async function markSupabaseSessionVerified(userId, supabaseSession) {
+  const sessionId = supabaseSessionId(supabaseSession);
+  const { error } = await getSupabaseAdmin()
+    .from('mfa_verified_sessions')
+    .upsert([{ session_id: sessionId, user_id: userId }], { onConflict: 'session_id' });
+  if (error) throw new Error(`Failed to record verified session: ${error.message}`);
+}
+
+export async function removeMfa(userId) {
+  const supabase = getSupabaseAdmin();
+  const { error } = await supabase.from('user_mfa').delete().eq('user_id', userId);
+  if (error) throw new Error(`Failed to remove 2FA: ${error.message}`);
+
+  const { error: codesError } = await supabase.from('mfa_recovery_codes').delete().eq('user_id', userId);
+  if (codesError) throw new Error(`Failed to remove recovery codes: ${codesError.message}`);
+}
@@ -0,0 +1,127 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { issueMfaToken, readMfaToken, regenerateRecoveryCodes, useRecoveryCode, verifyMfaCode } from './mfa.mjs';
+import { encryptSecret } from './secrets.mjs';
+import { currentStep, generateTotp, generateTotpSecret } from './totp.mjs';
+
+// Every query builder call in order, and the rows handed back by maybeSingle() one at a time
+const db = vi.hoisted(() => ({ calls: [], results: [] }));
+
+vi.mock('./supabase.mjs', () => ({
+  supabaseSessionId: () => 'supabase-session-1',
+  getSupabaseAdmin: () => {
+    const query = {};
+    for (const method of ['from', 'select', 'update', 'eq', 'lt', 'is']) {
+      query[method] = (...args) => {
+        db.calls.push([method, ...args]);
+        return query;
+      };
+    }
+    query.delete = () => {
+      db.calls.push(['delete']);
+      return { eq: async (...args) => (db.calls.push(['eq', ...args]), { error: null }) };
+    };
+    query.insert = async rows => (db.calls.push(['insert', rows]), { error: null });
+    query.maybeSingle = async () => ({ data: db.results.shift() ?? null, error: null });
+    return query;
+  }
+}));
+
+const calls = method => db.calls.filter(([name]) => name === method);
+
+beforeEach(() => {
+  vi.stubEnv('JWT_SECRET', 'test-secret');
+  db.calls = [];
+  db.results = [];
+});
+
+afterEach(() => {
+  vi.unstubAllEnvs();
+  vi.useRealTimers();
+});
+
+describe('2FA tokens', () => {
+  it('only read back for the purpose they were issued for', () => {
+    const token = issueMfaToken('user-1', 'mfa_challenge');
+
+    expect(readMfaToken(token, 'mfa_challenge')).toBe('user-1');
+    expect(readMfaToken(token, 'mfa_enrollment')).toBeNull();
+    expect(readMfaToken(`${token}x`, 'mfa_challenge')).toBeNull();
+  });
+});
+
+describe('verifyMfaCode', () => {
+  const secret = generateTotpSecret();
+
+  beforeEach(() => {
+    vi.useFakeTimers({ now: new Date('2026-10-19T12:00:00Z') });
+  });
+
+  it('accepts a current code once and records its step', async () => {
+    const step = currentStep();
+    db.results = [{ secret_encrypted: encryptSecret(secret), last_used_step: step - 1 }, { user_id: 'user-1' }];
+
+    expect(await verifyMfaCode('user-1', generateTotp(secret, step))).toBe(true);
+    expect(calls('update')).toEqual([['update', { last_used_step: step }]]);
+    // Only moves forward, so two requests racing with the same code cannot both win
+    expect(calls('lt')).toEqual([['lt', 'last_used_step', step]]);
+  });
+
+  it('rejects a code whose step was already used', async () => {
+    const step = currentStep();
+    db.results = [{ secret_encrypted: encryptSecret(secret), last_used_step: step }];
+
+    expect(await verifyMfaCode('user-1', generateTotp(secret, step))).toBe(false);
+    expect(calls('update')).toEqual([]);
+  });
+
+  it('rejects a code that lost the race to record its step', async () => {
+    const step = currentStep();
+    db.results = [{ secret_encrypted: encryptSecret(secret), last_used_step: 0 }, null];
+
+    expect(await verifyMfaCode('user-1', generateTotp(secret, step))).toBe(false);
+  });
+
+  it('rejects wrong codes and users without 2FA', async () => {
+    db.results = [{ secret_encrypted: encryptSecret(secret), last_used_step: 0 }];
+    const wrong = String((Number(generateTotp(secret)) + 1) % 1000000).padStart(6, '0');
+
+    expect(await verifyMfaCode('user-1', wrong)).toBe(false);
+    expect(await verifyMfaCode('user-2', generateTotp(secret))).toBe(false);
+  });
+});
+
+describe('recovery codes', () => {
+  it('are replaced as a set and stored only as hashes', async () => {
+    const codes = await regenerateRecoveryCodes('user-1');
+
+    expect(codes).toHaveLength(10);
+    expect(new Set(codes).size).toBe(10);
+    codes.forEach(code => expect(code).toMatch(/^[0-9a-f]{5}-[0-9a-f]{5}$/));
+    expect(db.calls.indexOf(calls('delete')[0])).toBeLessThan(db.calls.indexOf(calls('insert')[0]));
+
+    const [, rows] = calls('insert')[0];
+    expect(rows).toHaveLength(10);
+    rows.forEach(row => {
+      expect(row.user_id).toBe('user-1');
+      expect(row.code_hash).toMatch(/^[0-9a-f]{64}$/);
+      expect(codes).not.toContain(row.code_hash);
+    });
+  });
+
+  it('redeem an unused code however it is typed', async () => {
+    db.results = [{ id: 'code-1' }, { id: 'code-1' }];
+
+    expect(await useRecoveryCode('user-1', 'abcde-12345')).toBe(true);
+    expect(await useRecoveryCode('user-1', ' ABCDE 12345')).toBe(true);
+
+    const [first, second] = calls('eq').filter(([, column]) => column === 'code_hash');
+    expect(first[2]).toBe(second[2]);
+    expect(calls('is')).toEqual([['is', 'used_at', null], ['is', 'used_at', null]]);
+  });
+
+  it('refuse used, unknown and empty codes', async () => {
+    expect(await useRecoveryCode('user-1', 'abcde-12345')).toBe(false);
+    expect(await useRecoveryCode('user-1', '   ')).toBe(false);
+    expect(await useRecoveryCode('user-1', undefined)).toBe(false);
+  });
+});
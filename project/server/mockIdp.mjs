@@ -0,0 +1,211 @@
+import 'dotenv/config';
+import crypto from 'node:crypto';
+import express from 'express';
+
+// Local OpenID Connect provider for trying out and testing SSO without a real IdP (npm run mock-idp).
+// The sign-in page lets you type any email, name and groups; nothing is persisted.
+//
+// The API server needs SSO_ALLOW_PRIVATE_ISSUERS=true to talk to it on localhost.
+// Point an organization's SSO settings at it with:
+//   Issuer URL     http://localhost:5180
+//   Client ID      career-connect
+//   Client secret  mock-idp-secret
+
+const PORT = Number(process.env.MOCK_IDP_PORT) || 5180;
+const ISSUER = `http://localhost:${PORT}`;
+const CLIENT_ID = process.env.MOCK_IDP_CLIENT_ID || 'career-connect';
+const CLIENT_SECRET = process.env.MOCK_IDP_CLIENT_SECRET || 'mock-idp-secret';
+const REDIRECT_URI = `${(process.env.VITE_API_URL || 'http://localhost:5174').trim().replace(/\/$/, '')}/api/auth/sso/callback`;
+const CODE_TTL_MS = 60 * 1000;
+const TOKEN_TTL_SECONDS = 60 * 60;
+
+// Presets for the sign-in page; the groups match the examples in the admin SSO settings
+const PRESETS = [
+  { label: 'Student', email: 'sso.student@example.com', name: 'Sam Student', groups: 'learners' },
+  { label: 'Teacher', email: 'sso.teacher@example.com', name: 'Tina Trainer', groups: 'learners, trainers' },
+  { label: 'Admin', email: 'sso.admin@example.com', name: 'Alex Admin', groups: 'lms-admins' }
+];
+
+const { publicKey, privateKey } = crypto.generateKeyPairSync('rsa', { modulusLength: 2048 });
+const KEY_ID = crypto.randomBytes(8).toString('hex');
+const jwk = { ...publicKey.export({ format: 'jwk' }), kid: KEY_ID, use: 'sig', alg: 'RS256' };
+
+const authorizationCodes = new Map();
+const accessTokens = new Map();
+
+function base64url(value) {
+  return Buffer.from(JSON.stringify(value)).toString('base64url');
+}
+
+function signIdToken(claims) {
+  const now = Math.floor(Date.now() / 1000);
+  const header = base64url({ alg: 'RS256', typ: 'JWT', kid: KEY_ID });
+  const body = base64url({ ...claims, iss: ISSUER, aud: CLIENT_ID, iat: now, exp: now + TOKEN_TTL_SECONDS });
+  const signature = crypto.sign('RSA-SHA256', Buffer.from(`${header}.${body}`), privateKey).toString('base64url');
+  return `${header}.${body}.${signature}`;
+}
+
+function escapeHtml(value) {
+  return String(value ?? '').replace(/[&<>"']/g, char => `&#${char.charCodeAt(0)};`);
+}
+
+// The client authenticates with client_secret_basic or client_secret_post
+function readClientCredentials(req) {
+  const header = req.headers.authorization || '';
+  if (header.startsWith('Basic ')) {
+    const [id, secret] = Buffer.from(header.slice(6), 'base64').toString('utf8').split(':').map(decodeURIComponent);
+    return { id, secret };
+  }
+  return { id: req.body.client_id, secret: req.body.client_secret };
+}
+
+function tokenError(res, error, description, status = 400) {
+  res.status(status).json({ error, error_description: description });
+}
+
+function renderSignInPage(params) {
+  const hidden = Object.entries(params)
+    .map(([name, value]) => `<input type="hidden" name="${escapeHtml(name)}" value="${escapeHtml(value)}">`)
+    .join('');
+  const presets = PRESETS.map(
+    preset => `<button type="button" data-email="${escapeHtml(preset.email)}" data-name="${escapeHtml(preset.name)}" data-groups="${escapeHtml(preset.groups)}">${escapeHtml(preset.label)}</button>`
+  ).join(' ');
+
+  return `<!doctype html>
+<html>
+<head>
+  <meta charset="utf-8">
+  <title>Mock Identity Provider</title>
+  <style>
+    body { font-family: system-ui, sans-serif; background: #0f172a; color: #e2e8f0; display: flex; justify-content: center; padding: 48px; }
+    form { background: #1e293b; padding: 32px; border-radius: 16px; width: 360px; }
+    label { display: block; margin: 16px 0 4px; font-size: 14px; }
+    input[type=text], input[type=email] { width: 100%; padding: 8px; border-radius: 8px; border: 1px solid #475569; background: #0f172a; color: #fff; box-sizing: border-box; }
+    button { padding: 8px 12px; border-radius: 8px; border: 0; cursor: pointer; }
+    button[type=submit] { margin-top: 24px; width: 100%; background: #ea580c; color: #fff; font-weight: 600; }
+    small { color: #94a3b8; }
+  </style>
+</head>
+<body>
+  <form method="post" action="/authorize">
+    <h2>Mock Identity Provider</h2>
+    <small>Signing in to ${escapeHtml(params.client_id)}. Pick a preset or enter any identity.</small>
+    <p>${presets}</p>
+    ${hidden}
+    <label for="email">Email</label>
+    <input id="email" type="email" name="email" required value="${escapeHtml(PRESETS[0].email)}">
+    <label for="name">Name</label>
+    <input id="name" type="text" name="name" value="${escapeHtml(PRESETS[0].name)}">
+    <label for="groups">Groups (comma-separated)</label>
+    <input id="groups" type="text" name="groups" value="${escapeHtml(PRESETS[0].groups)}">
+    <label><input type="checkbox" name="omit_groups"> Leave the groups claim out</label>
+    <button type="submit">Sign in</button>
+  </form>
+  <script>
+    document.querySelectorAll('button[data-email]').forEach(button => button.addEventListener('click', () => {
+      for (const field of ['email', 'name', 'groups']) document.getElementById(field).value = button.dataset[field];
+    }));
+  </script>
+</body>
+</html>`;
+}
+
+const app = express();
+app.use(express.urlencoded({ extended: false }));
+
+app.get('/.well-known/openid-configuration', (req, res) => {
+  res.json({
+    issuer: ISSUER,
+    authorization_endpoint: `${ISSUER}/authorize`,
+    token_endpoint: `${ISSUER}/token`,
+    userinfo_endpoint: `${ISSUER}/userinfo`,
+    jwks_uri: `${ISSUER}/jwks`,
+    response_types_supported: ['code'],
+    subject_types_supported: ['public'],
+    id_token_signing_alg_values_supported: ['RS256'],
+    code_challenge_methods_supported: ['S256'],
+    token_endpoint_auth_methods_supported: ['client_secret_basic', 'client_secret_post'],
+    scopes_supported: ['openid', 'email', 'profile', 'groups'],
+    claims_supported: ['sub', 'email', 'email_verified', 'name', 'groups']
+  });
+});
+
+app.get('/jwks', (req, res) => {
+  res.json({ keys: [jwk] });
+});
+
+app.get('/authorize', (req, res) => {
+  const { client_id, redirect_uri, response_type, state = '', nonce = '', code_challenge, code_challenge_method } = req.query;
+  if (client_id !== CLIENT_ID || redirect_uri !== REDIRECT_URI) {
+    return res.status(400).send(`Unknown client or redirect_uri. Expected ${CLIENT_ID} and ${REDIRECT_URI}.`);
+  }
+  if (response_type !== 'code' || !code_challenge || code_challenge_method !== 'S256') {
+    return res.status(400).send('Only the authorization code flow with S256 PKCE is supported.');
+  }
+  res.send(renderSignInPage({ client_id, redirect_uri, state, nonce, code_challenge }));
+});
+
+app.post('/authorize', (req, res) => {
+  const { client_id, redirect_uri, state, nonce, code_challenge, email, name, groups, omit_groups } = req.body;
+  if (client_id !== CLIENT_ID || redirect_uri !== REDIRECT_URI) {
+    return res.status(400).send('Unknown client or redirect_uri.');
+  }
+
+  const normalizedEmail = String(email || '').trim().toLowerCase();
+  const claims = {
+    // Stable per email, like a real directory's user id
+    sub: crypto.createHash('sha256').update(normalizedEmail).digest('hex').slice(0, 24),
+    email: normalizedEmail,
+    email_verified: true,
+    name: String(name || '').trim() || undefined,
+    ...(omit_groups ? {} : { groups: String(groups || '').split(',').map(group => group.trim()).filter(Boolean) })
+  };
+
+  const code = crypto.randomBytes(24).toString('base64url');
+  authorizationCodes.set(code, { claims, nonce, redirectUri: redirect_uri, codeChallenge: code_challenge, expiresAt: Date.now() + CODE_TTL_MS });
+
+  const target = new URL(redirect_uri);
+  target.searchParams.set('code', code);
+  if (state) target.searchParams.set('state', state);
+  res.redirect(target.toString());
+});
+
+app.post('/token', (req, res) => {
+  const client = readClientCredentials(req);
+  if (client.id !== CLIENT_ID || client.secret !== CLIENT_SECRET) {
+    return tokenError(res, 'invalid_client', 'Client authentication failed', 401);
+  }
+  if (req.body.grant_type !== 'authorization_code') {
+    return tokenError(res, 'unsupported_grant_type', 'Only authorization_code is supported');
+  }
+
+  const grant = authorizationCodes.get(req.body.code);
+  authorizationCodes.delete(req.body.code);
+  if (!grant || grant.expiresAt < Date.now() || grant.redirectUri !== req.body.redirect_uri) {
+    return tokenError(res, 'invalid_grant', 'Authorization code is invalid or expired');
+  }
+  const challenge = crypto.createHash('sha256').update(String(req.body.code_verifier || '')).digest('base64url');
+  if (challenge !== grant.codeChallenge) {
+    return tokenError(res, 'invalid_grant', 'PKCE verification failed');
+  }
+
+  const accessToken = crypto.randomBytes(24).toString('base64url');
+  accessTokens.set(accessToken, grant.claims);
+  res.json({
+    access_token: accessToken,
+    token_type: 'Bearer',
+    expires_in: TOKEN_TTL_SECONDS,
+    id_token: signIdToken({ ...grant.claims, nonce: grant.nonce || undefined })
+  });
+});
+
+app.get('/userinfo', (req, res) => {
+  const header = req.headers.authorization || '';
+  const claims = header.startsWith('Bearer ') ? accessTokens.get(header.slice(7)) : null;
+  if (!claims) return res.status(401).json({ error: 'invalid_token' });
+  res.json(claims);
+});
+
+app.listen(PORT, () => {
+  console.log(`Mock OIDC provider running on ${ISSUER} (client ${CLIENT_ID}, redirect ${REDIRECT_URI})`);
+});
@@ -0,0 +1,163 @@
+import 'dotenv/config';
+import crypto from 'node:crypto';
+import { isDeepStrictEqual } from 'node:util';
+import express from 'express';
+
+// Local Learning Record Store for trying out and testing xAPI delivery without a real LRS
+// (npm run mock-lrs). Statements are kept in memory and listed at http://localhost:5190/.
+//
+// Point the API server at it with:
+//   XAPI_LRS_ENDPOINT  http://localhost:5190/xapi
+//   XAPI_LRS_USERNAME  mock-lrs
+//   XAPI_LRS_PASSWORD  mock-lrs-secret
+//
+// Set MOCK_LRS_FAIL_RATE (0 to 1) to answer that share of writes with 503, to watch the retry queue work.
+
+const PORT = Number(process.env.MOCK_LRS_PORT) || 5190;
+const USERNAME = process.env.MOCK_LRS_USERNAME || 'mock-lrs';
+const PASSWORD = process.env.MOCK_LRS_PASSWORD || 'mock-lrs-secret';
+const FAIL_RATE = Math.min(Math.max(Number(process.env.MOCK_LRS_FAIL_RATE) || 0, 0), 1);
+const MAX_STATEMENTS = 10000;
+const PAGE_SIZE = 100;
+
+// Statement id -> statement as the LRS stores it, in arrival order
+const statements = new Map();
+
+function escapeHtml(value) {
+  return String(value ?? '').replace(/[&<>"']/g, char => `&#${char.charCodeAt(0)};`);
+}
+
+function xapiError(res, status, message) {
+  res.status(status).json({ error: message });
+}
+
+function authenticate(req, res, next) {
+  const header = req.headers.authorization || '';
+  const [user, pass] = header.startsWith('Basic ') ? Buffer.from(header.slice(6), 'base64').toString('utf8').split(':') : [];
+  if (user !== USERNAME || pass !== PASSWORD) {
+    res.set('WWW-Authenticate', 'Basic realm="mock-lrs"');
+    return xapiError(res, 401, 'Invalid LRS credentials');
+  }
+  if (!String(req.get('x-experience-api-version') || '').startsWith('1.0')) {
+    return xapiError(res, 400, 'X-Experience-API-Version header must be 1.0.x');
+  }
+  next();
+}
+
+function simulatedFailure(res) {
+  if (Math.random() >= FAIL_RATE) return false;
+  xapiError(res, 503, 'Simulated outage (MOCK_LRS_FAIL_RATE)');
+  return true;
+}
+
+// The checks a real LRS applies that our statements could plausibly get wrong
+function validateStatement(statement) {
+  if (!statement || typeof statement !== 'object') return 'Statement must be an object';
+  if (!statement.actor?.account?.name && !statement.actor?.mbox) return 'Statement needs an actor';
+  if (typeof statement.verb?.id !== 'string') return 'Statement needs a verb id';
+  if (typeof statement.object?.id !== 'string') return 'Statement needs an object id';
+  return null;
+}
+
+// Stores a statement, or explains why it was refused: a different statement with the same id is a conflict
+function storeStatement(statement) {
+  const problem = validateStatement(statement);
+  if (problem) return { status: 400, message: problem };
+
+  const existing = statements.get(statement.id);
+  if (existing) {
+    const { stored: _stored, authority: _authority, ...original } = existing;
+    return isDeepStrictEqual(original, statement) ? { status: 204 } : { status: 409, message: `Statement ${statement.id} already exists with different content` };
+  }
+
+  if (statements.size >= MAX_STATEMENTS) statements.delete(statements.keys().next().value);
+  statements.set(statement.id, { ...statement, stored: new Date().toISOString(), authority: { objectType: 'Agent', account: { homePage: `http://localhost:${PORT}`, name: USERNAME } } });
+  return { status: 204 };
+}
+
+function renderStatementsPage() {
+  const rows = [...statements.values()]
+    .reverse()
+    .slice(0, PAGE_SIZE)
+    .map(s => `<tr>
+      <td>${escapeHtml(s.timestamp || s.stored)}</td>
+      <td>${escapeHtml(s.actor?.account?.name || s.actor?.mbox)}</td>
+      <td>${escapeHtml(s.verb?.display?.['en-US'] || s.verb?.id)}</td>
+      <td title="${escapeHtml(s.object?.id)}">${escapeHtml(s.object?.definition?.name?.['en-US'] || s.object?.id)}</td>
+      <td>${s.result ? escapeHtml(JSON.stringify(s.result)) : ''}</td>
+    </tr>`)
+    .join('');
+
+  return `<!doctype html>
+<html>
+<head>
+  <meta charset="utf-8">
+  <meta http-equiv="refresh" content="5">
+  <title>Mock LRS</title>
+  <style>
+    body { font-family: system-ui, sans-serif; background: #0f172a; color: #e2e8f0; padding: 32px; }
+    table { border-collapse: collapse; width: 100%; font-size: 14px; }
+    th, td { text-align: left; padding: 8px; border-bottom: 1px solid #334155; vertical-align: top; }
+    th { color: #94a3b8; }
+    small { color: #94a3b8; }
+  </style>
+</head>
+<body>
+  <h2>Mock Learning Record Store</h2>
+  <small>${statements.size} statement(s) received${FAIL_RATE ? `, failing ${Math.round(FAIL_RATE * 100)}% of writes` : ''}. Newest first; refreshes every 5 seconds.</small>
+  <table>
+    <thead><tr><th>When</th><th>Actor</th><th>Verb</th><th>Object</th><th>Result</th></tr></thead>
+    <tbody>${rows || '<tr><td colspan="5">No statements yet</td></tr>'}</tbody>
+  </table>
+</body>
+</html>`;
+}
+
+const app = express();
+app.use(express.json({ limit: '1mb' }));
+
+app.get('/', (req, res) => {
+  res.send(renderStatementsPage());
+});
+
+app.get('/xapi/about', (req, res) => {
+  res.json({ version: ['1.0.3'] });
+});
+
+app.put('/xapi/statements', authenticate, (req, res) => {
+  if (simulatedFailure(res)) return;
+  const { statementId } = req.query;
+  if (typeof statementId !== 'string' || !statementId) return xapiError(res, 400, 'statementId is required');
+  if (req.body?.id && req.body.id !== statementId) return xapiError(res, 400, 'statementId does not match the statement id');
+
+  const result = storeStatement({ ...req.body, id: statementId });
+  if (result.status !== 204) return xapiError(res, result.status, result.message);
+  res.status(204).end();
+});
+
+app.post('/xapi/statements', authenticate, (req, res) => {
+  if (simulatedFailure(res)) return;
+  const batch = (Array.isArray(req.body) ? req.body : [req.body]).map(s => ({ ...s, id: s?.id || crypto.randomUUID() }));
+
+  for (const statement of batch) {
+    const result = storeStatement(statement);
+    if (result.status !== 204) return xapiError(res, result.status, result.message);
+  }
+  res.json(batch.map(s => s.id));
+});
+
+app.get('/xapi/statements', authenticate, (req, res) => {
+  const { statementId, verb } = req.query;
+  if (typeof statementId === 'string') {
+    const statement = statements.get(statementId);
+    return statement ? res.json(statement) : xapiError(res, 404, 'Statement not found');
+  }
+
+  const limit = Math.min(Number(req.query.limit) || PAGE_SIZE, PAGE_SIZE);
+  const matching = [...statements.values()].reverse().filter(s => !verb || s.verb?.id === verb);
+  res.json({ statements: matching.slice(0, limit), more: '' });
+});
+
+app.listen(PORT, () => {
+  console.log(`Mock LRS running on http://localhost:${PORT}/xapi (user ${USERNAME}${FAIL_RATE ? `, failing ${FAIL_RATE * 100}% of writes` : ''})`);
+});
@@ -0,0 +1,185 @@
+import crypto from 'node:crypto';
+import dns from 'node:dns/promises';
+import net from 'node:net';
+
+// Minimal OpenID Connect relying party (authorization code flow with PKCE) so we don't need another dependency.
+// `provider` is { issuer, clientId, clientSecret, scopes }.
+
+const DISCOVERY_TTL_MS = 60 * 60 * 1000;
+// Allowed clock difference between us and the identity provider when checking token times
+const CLOCK_SKEW_SECONDS = 60;
+
+const discoveryCache = new Map();
+
+// Issuers are typed in by organization admins, so every URL we fetch for one must be a public
+// https endpoint; otherwise the server could be pointed at itself or the internal network.
+// SSO_ALLOW_PRIVATE_ISSUERS=true lifts this for local testing (e.g. the mock IdP on localhost).
+const allowPrivateIssuers = () => process.env.SSO_ALLOW_PRIVATE_ISSUERS === 'true';
+
+const privateAddresses = new net.BlockList();
+for (const [address, prefix] of [
+  ['0.0.0.0', 8], ['10.0.0.0', 8], ['100.64.0.0', 10], ['127.0.0.0', 8], ['169.254.0.0', 16],
+  ['172.16.0.0', 12], ['192.0.0.0', 24], ['192.168.0.0', 16], ['198.18.0.0', 15], ['224.0.0.0', 3]
+]) {
+  privateAddresses.addSubnet(address, prefix, 'ipv4');
+}
+// IPv4-mapped IPv6 addresses (::ffff:10.0.0.1) are checked against the IPv4 ranges by BlockList itself
+for (const [address, prefix] of [['::', 127], ['fc00::', 7], ['fe80::', 10], ['ff00::', 8]]) {
+  privateAddresses.addSubnet(address, prefix, 'ipv6');
+}
+
+async function assertPublicUrl(value) {
+  let url;
+  try {
+    url = new URL(value);
+  } catch {
+    throw new Error(`${value} is not a valid URL`);
+  }
+  if (allowPrivateIssuers()) return;
+
+  if (url.protocol !== 'https:') throw new Error(`${url.origin} must use https`);
+  const host = url.hostname.replace(/^\[|\]$/g, '');
+  const addresses = net.isIP(host) ? [{ address: host, family: net.isIP(host) }] : await dns.lookup(host, { all: true });
+  if (addresses.some(({ address, family }) => privateAddresses.check(address, family === 6 ? 'ipv6' : 'ipv4'))) {
+    throw new Error(`${url.hostname} resolves to a private or loopback address`);
+  }
+}
+
+function normalizeIssuer(issuer) {
+  return String(issuer || '').trim().replace(/\/$/, '');
+}
+
+// Redirects are refused so a public endpoint can't bounce the request to a private one
+async function fetchJson(url, options) {
+  await assertPublicUrl(url);
+  const resp = await fetch(url, { ...options, redirect: 'error' });
+  const data = await resp.json().catch(() => null);
+  if (!resp.ok || !data) {
+    const detail = data?.error_description || data?.error;
+    throw new Error(`${url} responded with ${resp.status}${detail ? `: ${detail}` : ''}`);
+  }
+  return data;
+}
+
+// Loads the provider metadata and signing keys, cached per issuer. refresh forces a reload (key rotation).
+export async function discover(issuer, { refresh = false } = {}) {
+  const key = normalizeIssuer(issuer);
+  const cached = discoveryCache.get(key);
+  if (cached && !refresh && Date.now() - cached.fetchedAt < DISCOVERY_TTL_MS) return cached;
+
+  const metadata = await fetchJson(`${key}/.well-known/openid-configuration`);
+  if (normalizeIssuer(metadata.issuer) !== key) {
+    throw new Error(`Identity provider reports issuer ${metadata.issuer}, expected ${key}`);
+  }
+  const { keys } = await fetchJson(metadata.jwks_uri);
+
+  const entry = { metadata, keys: keys ?? [], fetchedAt: Date.now() };
+  discoveryCache.set(key, entry);
+  return entry;
+}
+
+export function randomValue() {
+  return crypto.randomBytes(24).toString('base64url');
+}
+
+export function codeChallenge(codeVerifier) {
+  return crypto.createHash('sha256').update(codeVerifier).digest('base64url');
+}
+
+export async function buildAuthorizationUrl(provider, { redirectUri, state, nonce, codeVerifier }) {
+  const { metadata } = await discover(provider.issuer);
+  const url = new URL(metadata.authorization_endpoint);
+  url.search = new URLSearchParams({
+    response_type: 'code',
+    client_id: provider.clientId,
+    redirect_uri: redirectUri,
+    scope: provider.scopes,
+    state,
+    nonce,
+    code_challenge: codeChallenge(codeVerifier),
+    code_challenge_method: 'S256'
+  }).toString();
+  return url.toString();
+}
+
+async function exchangeCode(provider, metadata, { code, redirectUri, codeVerifier }) {
+  const headers = { 'Content-Type': 'application/x-www-form-urlencoded', Accept: 'application/json' };
+  const body = new URLSearchParams({
+    grant_type: 'authorization_code',
+    code,
+    redirect_uri: redirectUri,
+    code_verifier: codeVerifier,
+    client_id: provider.clientId
+  });
+
+  // Confidential clients authenticate with client_secret_basic, the method every provider must support
+  if (provider.clientSecret) {
+    const credentials = `${encodeURIComponent(provider.clientId)}:${encodeURIComponent(provider.clientSecret)}`;
+    headers.Authorization = `Basic ${Buffer.from(credentials).toString('base64')}`;
+  }
+
+  return fetchJson(metadata.token_endpoint, { method: 'POST', headers, body });
+}
+
+function decodeSegment(segment) {
+  return JSON.parse(Buffer.from(segment, 'base64url').toString('utf8'));
+}
+
+async function findSigningKey(issuer, kid) {
+  const pick = keys => keys.find(k => k.kty === 'RSA' && (!kid || k.kid === kid) && (!k.use || k.use === 'sig'));
+  const found = pick((await discover(issuer)).keys);
+  if (found) return found;
+  // An unknown kid usually means the provider rotated its keys since we cached them
+  return pick((await discover(issuer, { refresh: true })).keys);
+}
+
+// Checks the ID token's RS256 signature and standard claims, and returns its payload
+async function verifyIdToken(provider, metadata, idToken, nonce) {
+  const parts = typeof idToken === 'string' ? idToken.split('.') : [];
+  if (parts.length !== 3) throw new Error('Identity provider returned a malformed ID token');
+
+  const [headerPart, payloadPart, signaturePart] = parts;
+  const header = decodeSegment(headerPart);
+  if (header.alg !== 'RS256') throw new Error(`Unsupported ID token algorithm: ${header.alg}`);
+
+  const jwk = await findSigningKey(provider.issuer, header.kid);
+  if (!jwk) throw new Error('No matching signing key for the ID token');
+
+  const valid = crypto.verify(
+    'RSA-SHA256',
+    Buffer.from(`${headerPart}.${payloadPart}`),
+    crypto.createPublicKey({ key: jwk, format: 'jwk' }),
+    Buffer.from(signaturePart, 'base64url')
+  );
+  if (!valid) throw new Error('ID token signature is invalid');
+
+  const claims = decodeSegment(payloadPart);
+  const now = Math.floor(Date.now() / 1000);
+  const audiences = Array.isArray(claims.aud) ? claims.aud : [claims.aud];
+
+  if (normalizeIssuer(claims.iss) !== normalizeIssuer(metadata.issuer)) throw new Error('ID token issuer does not match');
+  if (!audiences.includes(provider.clientId)) throw new Error('ID token was not issued for this client');
+  if (audiences.length > 1 && claims.azp !== provider.clientId) throw new Error('ID token authorized party does not match');
+  if (typeof claims.exp !== 'number' || claims.exp + CLOCK_SKEW_SECONDS < now) throw new Error('ID token has expired');
+  if (typeof claims.iat === 'number' && claims.iat - CLOCK_SKEW_SECONDS > now) throw new Error('ID token was issued in the future');
+  if (claims.nonce !== nonce) throw new Error('ID token nonce does not match');
+  if (!claims.sub) throw new Error('ID token has no subject');
+
+  return claims;
+}
+
+// Redeems the authorization code and returns the verified identity claims,
+// merged with the UserInfo response when the provider has one (ID token claims win).
+export async function authenticate(provider, { code, redirectUri, codeVerifier, nonce }) {
+  const { metadata } = await discover(provider.issuer);
+  const tokens = await exchangeCode(provider, metadata, { code, redirectUri, codeVerifier });
+  const claims = await verifyIdToken(provider, metadata, tokens.id_token, nonce);
+
+  if (!metadata.userinfo_endpoint || !tokens.access_token) return claims;
+
+  const userInfo = await fetchJson(metadata.userinfo_endpoint, {
+    headers: { Authorization: `Bearer ${tokens.access_token}`, Accept: 'application/json' }
+  });
+  // UserInfo for a different subject must be ignored (OIDC Core 5.3.2)
+  return userInfo.sub === claims.sub ? { ...userInfo, ...claims } : claims;
+}
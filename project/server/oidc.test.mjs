@@ -0,0 +1,181 @@
+import crypto from 'node:crypto';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { authenticate, buildAuthorizationUrl, codeChallenge, discover } from './oidc.mjs';
+
+// Host names resolve through this table instead of real DNS
+const hosts = vi.hoisted(() => new Map());
+
+vi.mock('node:dns/promises', () => ({
+  default: {
+    lookup: async host => {
+      if (!hosts.has(host)) throw new Error(`getaddrinfo ENOTFOUND ${host}`);
+      return [{ address: hosts.get(host), family: hosts.get(host).includes(':') ? 6 : 4 }];
+    }
+  }
+}));
+
+const { privateKey, publicKey } = crypto.generateKeyPairSync('rsa', { modulusLength: 2048 });
+const { privateKey: otherKey } = crypto.generateKeyPairSync('rsa', { modulusLength: 2048 });
+const jwk = { ...publicKey.export({ format: 'jwk' }), kid: 'key-1', use: 'sig' };
+
+const encode = value => Buffer.from(JSON.stringify(value)).toString('base64url');
+const signIdToken = (claims, { key = privateKey, header = { alg: 'RS256', kid: 'key-1' } } = {}) => {
+  const unsigned = `${encode(header)}.${encode(claims)}`;
+  return `${unsigned}.${crypto.sign('RSA-SHA256', Buffer.from(unsigned), key).toString('base64url')}`;
+};
+
+const provider = { clientId: 'career-connect', clientSecret: 's3cret:/', scopes: 'openid email profile' };
+const login = { code: 'auth-code', redirectUri: 'https://learn.example.com/api/sso/callback', codeVerifier: 'verifier-123', nonce: 'nonce-123' };
+
+const fetchMock = vi.fn();
+// Each test gets its own issuer so the discovery cache never carries over
+let issuer;
+let idp;
+
+function startIdp(host) {
+  issuer = `https://${host}`;
+  idp = {
+    userInfo: null,
+    idToken: null,
+    metadata: {
+      issuer,
+      authorization_endpoint: `${issuer}/authorize`,
+      token_endpoint: `${issuer}/token`,
+      jwks_uri: `${issuer}/jwks`
+    }
+  };
+  fetchMock.mockImplementation(async url => {
+    const routes = {
+      [`${issuer}/.well-known/openid-configuration`]: idp.metadata,
+      [`${issuer}/jwks`]: { keys: [jwk] },
+      [`${issuer}/token`]: { access_token: 'access-123', id_token: idp.idToken },
+      [`${issuer}/userinfo`]: idp.userInfo
+    };
+    return routes[url] ? Response.json(routes[url]) : new Response('{}', { status: 404 });
+  });
+}
+
+const now = () => Math.floor(Date.now() / 1000);
+const claims = overrides => ({ iss: issuer, aud: provider.clientId, sub: 'idp-user-1', email: 'ada@example.com', nonce: login.nonce, iat: now(), exp: now() + 300, ...overrides });
+
+let hostCount = 0;
+
+beforeEach(() => {
+  vi.stubGlobal('fetch', fetchMock);
+  const host = `idp${++hostCount}.example.com`;
+  hosts.set(host, '93.184.216.34');
+  startIdp(host);
+});
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+  vi.unstubAllEnvs();
+  fetchMock.mockReset();
+});
+
+describe('buildAuthorizationUrl', () => {
+  it('sends an S256 PKCE challenge, state and nonce', async () => {
+    const url = new URL(await buildAuthorizationUrl({ ...provider, issuer }, { redirectUri: login.redirectUri, state: 'state-1', nonce: login.nonce, codeVerifier: login.codeVerifier }));
+
+    expect(url.origin + url.pathname).toBe(`${issuer}/authorize`);
+    expect(Object.fromEntries(url.searchParams)).toEqual({
+      response_type: 'code',
+      client_id: provider.clientId,
+      redirect_uri: login.redirectUri,
+      scope: provider.scopes,
+      state: 'state-1',
+      nonce: login.nonce,
+      code_challenge: codeChallenge(login.codeVerifier),
+      code_challenge_method: 'S256'
+    });
+  });
+});
+
+describe('authenticate', () => {
+  it('redeems the code with the PKCE verifier and client credentials', async () => {
+    idp.idToken = signIdToken(claims());
+
+    expect(await authenticate({ ...provider, issuer }, login)).toMatchObject({ sub: 'idp-user-1', email: 'ada@example.com' });
+
+    const [, tokenRequest] = fetchMock.mock.calls.find(([url]) => url === `${issuer}/token`);
+    expect(Object.fromEntries(tokenRequest.body)).toMatchObject({ grant_type: 'authorization_code', code: 'auth-code', code_verifier: 'verifier-123' });
+    expect(tokenRequest.headers.Authorization).toBe(`Basic ${Buffer.from('career-connect:s3cret%3A%2F').toString('base64')}`);
+    expect(tokenRequest.redirect).toBe('error');
+  });
+
+  it('merges UserInfo for the same subject only, with ID token claims winning', async () => {
+    idp.metadata.userinfo_endpoint = `${issuer}/userinfo`;
+    idp.idToken = signIdToken(claims());
+    idp.userInfo = { sub: 'idp-user-1', name: 'Ada Lovelace', email: 'other@example.com' };
+
+    expect(await authenticate({ ...provider, issuer }, login)).toMatchObject({ name: 'Ada Lovelace', email: 'ada@example.com' });
+
+    idp.userInfo = { sub: 'idp-user-2', name: 'Someone Else' };
+    expect(await authenticate({ ...provider, issuer }, login)).not.toHaveProperty('name');
+  });
+
+  it.each([
+    ['a different nonce', () => signIdToken(claims({ nonce: 'replayed' })), /nonce does not match/],
+    ['another audience', () => signIdToken(claims({ aud: 'other-app' })), /not issued for this client/],
+    ['several audiences without azp', () => signIdToken(claims({ aud: [provider.clientId, 'other-app'] })), /authorized party/],
+    ['another issuer', () => signIdToken(claims({ iss: 'https://evil.example.com' })), /issuer does not match/],
+    ['an expired token', () => signIdToken(claims({ exp: now() - 120 })), /expired/],
+    ['a token from the future', () => signIdToken(claims({ iat: now() + 600 })), /future/],
+    ['no subject', () => signIdToken(claims({ sub: '' })), /no subject/],
+    ['a signature by another key', () => signIdToken(claims(), { key: otherKey }), /signature is invalid/],
+    ['an unsigned token', () => `${encode({ alg: 'none' })}.${encode(claims())}.`, /Unsupported ID token algorithm/],
+    ['a malformed token', () => 'not-a-jwt', /malformed/]
+  ])('rejects %s', async (label, idToken, message) => {
+    idp.idToken = idToken();
+
+    await expect(authenticate({ ...provider, issuer }, login)).rejects.toThrow(message);
+  });
+
+  it('reloads the signing keys once for an unknown key id', async () => {
+    idp.idToken = signIdToken(claims(), { header: { alg: 'RS256', kid: 'rotated' } });
+
+    await expect(authenticate({ ...provider, issuer }, login)).rejects.toThrow(/No matching signing key/);
+    expect(fetchMock.mock.calls.filter(([url]) => url === `${issuer}/jwks`)).toHaveLength(2);
+  });
+});
+
+describe('discover', () => {
+  it('refuses metadata that names a different issuer', async () => {
+    idp.metadata.issuer = 'https://evil.example.com';
+
+    await expect(discover(issuer)).rejects.toThrow(/reports issuer https:\/\/evil.example.com/);
+  });
+
+  it('refuses issuers that are not https', async () => {
+    await expect(discover(issuer.replace('https:', 'http:'))).rejects.toThrow(/must use https/);
+    expect(fetchMock).not.toHaveBeenCalled();
+  });
+
+  it.each([
+    ['a private address', '10.0.0.5'],
+    ['loopback', '127.0.0.1'],
+    ['link-local metadata', '169.254.169.254'],
+    ['IPv6 loopback', '::1'],
+    ['an IPv4-mapped private address', '::ffff:192.168.1.1']
+  ])('refuses hosts resolving to %s', async (label, address) => {
+    hosts.set('internal.example.com', address);
+
+    await expect(discover('https://internal.example.com')).rejects.toThrow(/private or loopback/);
+    expect(fetchMock).not.toHaveBeenCalled();
+  });
+
+  it('refuses private IP literals and endpoints the metadata points inward', async () => {
+    await expect(discover('https://127.0.0.1')).rejects.toThrow(/private or loopback/);
+
+    idp.metadata.jwks_uri = 'https://10.0.0.1/jwks';
+    await expect(discover(issuer)).rejects.toThrow(/private or loopback/);
+  });
+
+  it('allows private issuers when SSO_ALLOW_PRIVATE_ISSUERS is set', async () => {
+    vi.stubEnv('SSO_ALLOW_PRIVATE_ISSUERS', 'true');
+    hosts.set('internal.example.com', '10.0.0.5');
+    startIdp('internal.example.com');
+
+    await expect(discover(issuer)).resolves.toMatchObject({ keys: [jwk] });
+  });
+});
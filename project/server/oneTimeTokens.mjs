@@ -0,0 +1,64 @@
+import { getSupabaseAdmin } from './supabase.mjs';
+import { signToken, verifyToken } from './tokens.mjs';
+
+export const TOKEN_TTL_SECONDS = {
+  password_reset: 60 * 60,
+  email_verification: 60 * 60 * 24 * 3,
+  email_change: 60 * 60 * 24 * 3,
+  // Hands a finished SSO sign-in from the API server's callback to the web app
+  sso_login: 60,
+  // Starts linking an identity provider from a signed-in session
+  sso_link: 60 * 5
+};
+
+// Issues a signed token for a one-time link (emailed, or the SSO hand-off). Any earlier unused token for the same purpose is invalidated.
+export async function createOneTimeToken(userId, purpose) {
+  const supabase = getSupabaseAdmin();
+  const ttlSeconds = TOKEN_TTL_SECONDS[purpose];
+
+  await invalidateOneTimeTokens(userId, purpose);
+
+  const { data, error } = await supabase
+    .from('auth_tokens')
+    .insert([{
+      user_id: userId,
+      purpose,
+      expires_at: new Date(Date.now() + ttlSeconds * 1000).toISOString()
+    }])
+    .select('id')
+    .single();
+
+  if (error) throw new Error(`Failed to create ${purpose} token: ${error.message}`);
+  return signToken({ sub: userId, jti: data.id, purpose }, ttlSeconds);
+}
+
+// Verifies the signature and purpose, then marks the token used. Returns the user id, or null.
+export async function consumeOneTimeToken(token, purpose) {
+  const claims = verifyToken(token);
+  if (!claims || claims.purpose !== purpose || !claims.jti) return null;
+
+  const { data, error } = await getSupabaseAdmin()
+    .from('auth_tokens')
+    .update({ used_at: new Date().toISOString() })
+    .eq('id', claims.jti)
+    .eq('user_id', claims.sub)
+    .eq('purpose', purpose)
+    .is('used_at', null)
+    .gt('expires_at', new Date().toISOString())
+    .select('user_id')
+    .maybeSingle();
+
+  if (error) throw new Error(`Failed to redeem ${purpose} token: ${error.message}`);
+  return data?.user_id ?? null;
+}
+
+export async function invalidateOneTimeTokens(userId, purpose) {
+  const { error } = await getSupabaseAdmin()
+    .from('auth_tokens')
+    .update({ used_at: new Date().toISOString() })
+    .eq('user_id', userId)
+    .eq('purpose', purpose)
+    .is('used_at', null);
+
+  if (error) throw new Error(`Failed to invalidate ${purpose} tokens: ${error.message}`);
+}
@@ -0,0 +1,203 @@
+import { getSupabaseAdmin } from './supabase.mjs';
+import { normalizeEmail } from './invites.mjs';
+import { logAuditEvent } from './auditLog.mjs';
+
+// Self-service export and erasure of everything the platform stores about a user.
+
+export const DELETION_GRACE_DAYS = Number(process.env.ACCOUNT_DELETION_GRACE_DAYS) || 14;
+
+// learnerMemoryService stores the AI tutor's memory in `notes`, as "[kind] ..." rows owned by the learner
+const TUTOR_MEMORY_PATTERN = /^\[(strength|gap|preference|note)\] /;
+
+async function selectRows(table, column, userId, columns = '*') {
+  const { data, error } = await getSupabaseAdmin().from(table).select(columns).eq(column, userId);
+  if (error) throw new Error(`Failed to read ${table}: ${error.message}`);
+  return data;
+}
+
+// Everything linked to the user, grouped by what it is. Secrets (password and token hashes,
+// TOTP seeds, recovery codes) are left out; the fact that they exist is included.
+export async function collectPersonalData(userId) {
+  const [account] = await selectRows('users', 'id', userId);
+  if (!account) return null;
+
+  const { password_hash, ...profile } = account;
+  const [
+    enrollments,
+    progress,
+    assessmentResponses,
+    labSessions,
+    notes,
+    signInActivity,
+    sessions,
+    identities,
+    mfa,
+    deletionRequests,
+    notifications,
+    notificationPreferences,
+    certificates,
+    accessibilitySettings,
+    learningEvents
+  ] = await Promise.all([
+    selectRows('course_enrollments', 'user_id', userId),
+    selectRows('user_progress', 'user_id', userId),
+    selectRows('assessment_responses', 'user_id', userId),
+    selectRows('lab_sessions', 'user_id', userId),
+    selectRows('notes', 'admin_id', userId),
+    selectRows('auth_events', 'user_id', userId, 'event_type, ip_address, user_agent, reason, created_at'),
+    selectRows('user_sessions', 'user_id', userId, 'user_agent, ip_address, created_at, last_used_at, expires_at, revoked_at'),
+    selectRows('user_identities', 'user_id', userId, 'issuer, subject, created_at, last_login_at'),
+    selectRows('user_mfa', 'user_id', userId, 'enabled_at, created_at'),
+    selectRows('account_deletion_requests', 'user_id', userId, 'requested_at, scheduled_for, cancelled_at, completed_at'),
+    selectRows('notifications', 'user_id', userId, 'type, title, body, link, read_at, created_at'),
+    selectRows('notification_preferences', 'user_id', userId, 'type, in_app, updated_at'),
+    selectRows('user_certificates', 'user_id', userId, 'certificate_id, title, earned_at'),
+    selectRows('accessibility_settings', 'user_id', userId, 'extra_time_percent, reduced_motion, updated_at'),
+    selectRows('xapi_events', 'user_id', userId, 'event_type, payload, occurred_at, status, sent_at')
+  ]);
+
+  return {
+    exported_at: new Date().toISOString(),
+    account: { ...profile, has_legacy_password: Boolean(password_hash) },
+    course_enrollments: enrollments,
+    user_progress: progress,
+    assessment_responses: assessmentResponses,
+    lab_sessions: labSessions,
+    tutor_memory: notes.filter(note => TUTOR_MEMORY_PATTERN.test(note.content)),
+    notes: notes.filter(note => !TUTOR_MEMORY_PATTERN.test(note.content)),
+    sign_in_activity: signInActivity,
+    sessions,
+    sso_identities: identities,
+    two_factor: { enabled: Boolean(mfa[0]?.enabled_at), enabled_at: mfa[0]?.enabled_at ?? null },
+    deletion_requests: deletionRequests,
+    certificates,
+    notifications,
+    notification_preferences: notificationPreferences,
+    accessibility_settings: accessibilitySettings[0] ?? null,
+    learning_events: learningEvents
+  };
+}
+
+export async function getOpenDeletionRequest(userId) {
+  const { data, error } = await getSupabaseAdmin()
+    .from('account_deletion_requests')
+    .select('*')
+    .eq('user_id', userId)
+    .is('cancelled_at', null)
+    .is('completed_at', null)
+    .maybeSingle();
+
+  if (error) throw new Error(`Failed to load deletion request: ${error.message}`);
+  return data;
+}
+
+// Schedules the account for erasure after the grace period. Asking again keeps the original date.
+export async function requestAccountDeletion(userId) {
+  const existing = await getOpenDeletionRequest(userId);
+  if (existing) return existing;
+
+  const { data, error } = await getSupabaseAdmin()
+    .from('account_deletion_requests')
+    .insert([{
+      user_id: userId,
+      scheduled_for: new Date(Date.now() + DELETION_GRACE_DAYS * 24 * 60 * 60 * 1000).toISOString()
+    }])
+    .select()
+    .single();
+
+  if (error) throw new Error(`Failed to request deletion: ${error.message}`);
+  return data;
+}
+
+export async function cancelAccountDeletion(userId) {
+  const { data, error } = await getSupabaseAdmin()
+    .from('account_deletion_requests')
+    .update({ cancelled_at: new Date().toISOString() })
+    .eq('user_id', userId)
+    .is('cancelled_at', null)
+    .is('completed_at', null)
+    .select('id');
+
+  if (error) throw new Error(`Failed to cancel deletion: ${error.message}`);
+  return data.length > 0;
+}
+
+async function run(description, query) {
+  const { error } = await query;
+  if (error) throw new Error(`Failed to ${description}: ${error.message}`);
+}
+
+async function removeAvatars(userId) {
+  const folder = `avatars/${userId}`;
+  const storage = getSupabaseAdmin().storage.from('uploads');
+  const { data: files, error } = await storage.list(folder);
+  if (error) throw new Error(`Failed to list avatars: ${error.message}`);
+  if (files.length) {
+    const { error: removeError } = await storage.remove(files.map(file => `${folder}/${file.name}`));
+    if (removeError) throw new Error(`Failed to delete avatars: ${removeError.message}`);
+  }
+}
+
+// Erases a user. Records that belong to other people (courses they taught, notes they shared,
+// invites they issued) are kept but unlinked by the foreign keys; everything about the user
+// themself cascades from the users row. The audit log is append-only and keeps its entries.
+// Every step is safe to repeat, so a sweep that fails halfway is finished by the next one.
+export async function eraseAccount(userId) {
+  const supabase = getSupabaseAdmin();
+  const { data: user, error } = await supabase.from('users').select('id, email, organization_id').eq('id', userId).maybeSingle();
+  if (error) throw new Error(`Failed to load user: ${error.message}`);
+
+  if (user) {
+    const email = normalizeEmail(user.email);
+    const notes = await selectRows('notes', 'admin_id', userId, 'id, content');
+    const memoryIds = notes.filter(note => TUTOR_MEMORY_PATTERN.test(note.content)).map(note => note.id);
+
+    if (memoryIds.length) await run('delete tutor memory', supabase.from('notes').delete().in('id', memoryIds));
+    await run('anonymize sign-in activity', supabase.from('auth_events').update({ email: null }).eq('user_id', userId));
+    await run('anonymize sign-in activity', supabase.from('auth_events').update({ email: null }).eq('email', email));
+    await run('clear login throttle', supabase.from('login_throttles').delete().eq('key', `account:${email}`));
+    await run('delete invites', supabase.from('user_invites').delete().eq('email', email));
+    await removeAvatars(userId);
+    await run('delete user', supabase.from('users').delete().eq('id', userId));
+
+    await logAuditEvent(null, {
+      action: 'user.deleted',
+      targetType: 'user',
+      targetId: userId,
+      targetLabel: 'Erased at the user\'s request',
+      organizationId: user.organization_id
+    });
+  }
+
+  const { error: authError } = await supabase.auth.admin.deleteUser(userId);
+  if (authError && authError.status !== 404) {
+    throw new Error(`Failed to delete auth user: ${authError.message}`);
+  }
+}
+
+// Erases every account whose grace period has passed. Returns how many were erased.
+export async function processDueDeletions() {
+  const { data: due, error } = await getSupabaseAdmin()
+    .from('account_deletion_requests')
+    .select('id, user_id')
+    .is('cancelled_at', null)
+    .is('completed_at', null)
+    .lte('scheduled_for', new Date().toISOString());
+
+  if (error) throw new Error(`Failed to load due deletions: ${error.message}`);
+
+  let erased = 0;
+  for (const request of due) {
+    try {
+      await eraseAccount(request.user_id);
+      await run(
+        'complete deletion request',
+        getSupabaseAdmin().from('account_deletion_requests').update({ completed_at: new Date().toISOString() }).eq('id', request.id)
+      );
+      erased++;
+    } catch (err) {
+      console.error(`Account deletion ${request.id} failed:`, err);
+    }
+  }
+  return erased;
+}
@@ -0,0 +1,52 @@
+import 'dotenv/config';
+import { getSupabaseAdmin } from './supabase.mjs';
+import { normalizeEmail } from './invites.mjs';
+import { logAuditEvent } from './auditLog.mjs';
+
+// Makes an existing admin a super-admin (platform operator across all organizations):
+//   npm run promote-super-admin -- ops@example.com
+// The migrations promote nobody, so operators are granted this explicitly, once their admin
+// account exists. Run it again for each further operator.
+
+const email = normalizeEmail(process.argv[2] || '');
+if (!email) {
+  console.error('Usage: npm run promote-super-admin -- <admin email>');
+  process.exit(1);
+}
+
+const supabase = getSupabaseAdmin();
+const { data: user, error } = await supabase
+  .from('users')
+  .select('id, email, role, organization_id, is_super_admin')
+  .eq('email', email)
+  .maybeSingle();
+
+if (error) {
+  console.error(`Failed to load user: ${error.message}`);
+  process.exit(1);
+}
+if (!user || user.role !== 'admin') {
+  console.error(`No admin account with the email ${email}. Invite and register the admin first.`);
+  process.exit(1);
+}
+if (user.is_super_admin) {
+  console.log(`${user.email} is already a super-admin.`);
+  process.exit(0);
+}
+
+const { error: updateError } = await supabase.from('users').update({ is_super_admin: true }).eq('id', user.id);
+if (updateError) {
+  console.error(`Failed to promote ${user.email}: ${updateError.message}`);
+  process.exit(1);
+}
+
+await logAuditEvent(null, {
+  action: 'user.super_admin_changed',
+  targetType: 'user',
+  targetId: user.id,
+  targetLabel: user.email,
+  organizationId: user.organization_id,
+  before: { is_super_admin: false },
+  after: { is_super_admin: true }
+});
+console.log(`${user.email} is now a super-admin. They get the new rights the next time they sign in.`);
@@ -0,0 +1,353 @@
+import { Router } from 'express';
+import { getSupabaseAdmin, migrateLegacyUser, signInWithSupabase, supabasePassword, discardSupabaseSession } from '../supabase.mjs';
+import { requireSession, revokeUserSessions } from '../sessions.mjs';
+import { createOneTimeToken, consumeOneTimeToken, invalidateOneTimeTokens } from '../oneTimeTokens.mjs';
+import {
+  sendPasswordResetEmail,
+  sendVerificationEmail,
+  sendEmailChangeEmail,
+  sendEmailChangedEmail,
+  sendPasswordChangedEmail
+} from '../emails.mjs';
+import { normalizeEmail } from '../invites.mjs';
+import { rejectIfThrottled, recordLoginFailure } from '../loginThrottle.mjs';
+import { logAuthEvent } from '../authEvents.mjs';
+
+// Email-driven account flows (password reset, email verification) and the signed-in
+// user's own email and password changes.
+const MIN_PASSWORD_LENGTH = 8;
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+// Re-checks the signed-in user's password before a sensitive change. Wrong guesses count
+// towards the same lockout as sign-in. Sends the error response and returns null on failure.
+async function verifyCurrentPassword(req, res, password) {
+  if (typeof password !== 'string' || !password) {
+    res.status(400).json({ error: 'Enter your current password' });
+    return null;
+  }
+
+  const supabase = getSupabaseAdmin();
+  const { data: user, error } = await supabase
+    .from('users')
+    .select('id, email, name, role, password_hash')
+    .eq('id', req.auth.userId)
+    .single();
+
+  if (error) throw new Error(`Failed to load account: ${error.message}`);
+  if (await rejectIfThrottled(req, res, user.email)) return null;
+
+  if (user.password_hash) {
+    await migrateLegacyUser(user);
+  }
+
+  const supabaseSession = await signInWithSupabase(user.email, password);
+  if (!supabaseSession) {
+    await recordLoginFailure(user.email, req.ip);
+    await logAuthEvent(req, { type: 'login_failed', email: user.email, userId: user.id, reason: 'Incorrect current password' });
+
+    // Accounts created by single sign-on have no password of their own
+    const { count } = await supabase
+      .from('user_identities')
+      .select('id', { count: 'exact', head: true })
+      .eq('user_id', user.id);
+    const hint = count ? ' If you sign in through your organization, change your email or password with your identity provider.' : '';
+
+    // Not a 401: the session itself is fine and the client would retry with a refreshed token
+    res.status(400).json({ error: `Your current password is incorrect.${hint}` });
+    return null;
+  }
+
+  await discardSupabaseSession(supabaseSession);
+  return user;
+}
+
+async function isEmailTaken(email, exceptUserId) {
+  const { data, error } = await getSupabaseAdmin()
+    .from('users')
+    .select('id')
+    .eq('email', email)
+    .neq('id', exceptUserId)
+    .maybeSingle();
+
+  if (error) throw new Error(`Failed to check email: ${error.message}`);
+  return Boolean(data);
+}
+
+const router = Router();
+
+router.post('/forgot-password', async (req, res) => {
+  // Same answer whether or not the account exists, so this can't be used to probe for emails
+  const genericResponse = { message: 'If an account exists for that email, a reset link is on its way.' };
+  try {
+    const email = normalizeEmail(req.body?.email);
+    if (!email) {
+      return res.status(400).json({ error: 'Email is required' });
+    }
+
+    const { data: user, error } = await getSupabaseAdmin()
+      .from('users')
+      .select('id, email, name')
+      .eq('email', email)
+      .maybeSingle();
+
+    if (error) {
+      console.error('Forgot password lookup error:', error);
+      return res.json(genericResponse);
+    }
+
+    if (user) {
+      await sendPasswordResetEmail(user, await createOneTimeToken(user.id, 'password_reset'));
+    }
+
+    res.json(genericResponse);
+  } catch (err) {
+    console.error(err);
+    res.json(genericResponse);
+  }
+});
+
+router.post('/reset-password', async (req, res) => {
+  try {
+    const { token, password } = req.body ?? {};
+    if (typeof password !== 'string' || password.length < MIN_PASSWORD_LENGTH) {
+      return res.status(400).json({ error: `Password must be at least ${MIN_PASSWORD_LENGTH} characters` });
+    }
+
+    const userId = await consumeOneTimeToken(token, 'password_reset');
+    if (!userId) {
+      return res.status(400).json({ error: 'This reset link is invalid or has expired. Please request a new one.' });
+    }
+
+    const supabase = getSupabaseAdmin();
+    const { data: user, error: userError } = await supabase
+      .from('users')
+      .select('id, email, name, role, password_hash')
+      .eq('id', userId)
+      .single();
+
+    if (userError) {
+      console.error('Reset password lookup error:', userError);
+      return res.status(500).json({ error: `Failed to load account: ${userError.message}` });
+    }
+
+    // Accounts that have not signed in since the move to Supabase Auth have no auth user yet
+    if (user.password_hash) {
+      await migrateLegacyUser(user);
+    }
+
+    const { error } = await supabase.auth.admin.updateUserById(userId, { password: supabasePassword(password) });
+    if (error) {
+      console.error('Password update error:', error);
+      return res.status(500).json({ error: `Failed to update password: ${error.message}` });
+    }
+
+    // A reset proves control of the inbox, and every existing session may belong to whoever knew the old password.
+    // That includes the Supabase Auth sessions behind RLS queries, along with any 2FA verification they carried.
+    await supabase.from('users').update({ email_verified: true }).eq('id', userId);
+    await revokeUserSessions(userId);
+
+    res.json({ message: 'Your password has been reset. You can now sign in.' });
+  } catch (err) {
+    console.error(err);
+    res.status(500).json({ error: 'Failed to reset password' });
+  }
+});
+
+router.post('/verify-email', async (req, res) => {
+  try {
+    const userId = await consumeOneTimeToken(req.body?.token, 'email_verification');
+    if (!userId) {
+      return res.status(400).json({ error: 'This verification link is invalid or has expired.' });
+    }
+
+    const { error } = await getSupabaseAdmin()
+      .from('users')
+      .update({ email_verified: true })
+      .eq('id', userId);
+
+    if (error) {
+      console.error('Verify email error:', error);
+      return res.status(500).json({ error: `Failed to verify email: ${error.message}` });
+    }
+
+    res.json({ message: 'Your email address is confirmed.' });
+  } catch (err) {
+    console.error(err);
+    res.status(500).json({ error: 'Failed to verify email' });
+  }
+});
+
+router.post('/resend-verification', requireSession, async (req, res) => {
+  try {
+    const { data: user, error } = await getSupabaseAdmin()
+      .from('users')
+      .select('id, email, name, email_verified')
+      .eq('id', req.auth.userId)
+      .single();
+
+    if (error) {
+      console.error('Resend verification lookup error:', error);
+      return res.status(500).json({ error: `Failed to load account: ${error.message}` });
+    }
+
+    if (user.email_verified) {
+      await invalidateOneTimeTokens(user.id, 'email_verification');
+      return res.json({ message: 'Your email address is already confirmed.' });
+    }
+
+    await sendVerificationEmail(user, await createOneTimeToken(user.id, 'email_verification'));
+    res.json({ message: `We sent a new confirmation link to ${user.email}.` });
+  } catch (err) {
+    console.error(err);
+    res.status(500).json({ error: 'Failed to send verification email' });
+  }
+});
+
+// The new address only takes effect once its owner follows the link sent to it
+router.post('/change-email', requireSession, async (req, res) => {
+  try {
+    const { newEmail, currentPassword } = req.body ?? {};
+    const email = normalizeEmail(newEmail);
+    if (!EMAIL_PATTERN.test(email)) {
+      return res.status(400).json({ error: 'Enter a valid email address' });
+    }
+    if (email === normalizeEmail(req.auth.email)) {
+      return res.status(400).json({ error: 'That is already your email address' });
+    }
+
+    const user = await verifyCurrentPassword(req, res, currentPassword);
+    if (!user) return;
+
+    if (await isEmailTaken(email, user.id)) {
+      return res.status(409).json({ error: 'That email address is already in use' });
+    }
+
+    const { error } = await getSupabaseAdmin()
+      .from('users')
+      .update({ pending_email: email })
+      .eq('id', user.id);
+
+    if (error) {
+      console.error('Change email error:', error);
+      return res.status(500).json({ error: `Failed to change email: ${error.message}` });
+    }
+
+    await sendEmailChangeEmail(user, email, await createOneTimeToken(user.id, 'email_change'));
+    res.json({ pendingEmail: email, message: `We sent a confirmation link to ${email}. Your email changes once you follow it.` });
+  } catch (err) {
+    console.error(err);
+    res.status(500).json({ error: 'Failed to change email' });
+  }
+});
+
+router.delete('/change-email', requireSession, async (req, res) => {
+  try {
+    await invalidateOneTimeTokens(req.auth.userId, 'email_change');
+    const { error } = await getSupabaseAdmin()
+      .from('users')
+      .update({ pending_email: null })
+      .eq('id', req.auth.userId);
+
+    if (error) {
+      console.error('Cancel email change error:', error);
+      return res.status(500).json({ error: `Failed to cancel email change: ${error.message}` });
+    }
+
+    res.json({ message: 'Your email change was cancelled.' });
+  } catch (err) {
+    console.error(err);
+    res.status(500).json({ error: 'Failed to cancel email change' });
+  }
+});
+
+router.post('/confirm-email-change', async (req, res) => {
+  try {
+    const userId = await consumeOneTimeToken(req.body?.token, 'email_change');
+    if (!userId) {
+      return res.status(400).json({ error: 'This confirmation link is invalid or has expired.' });
+    }
+
+    const supabase = getSupabaseAdmin();
+    const { data: user, error: userError } = await supabase
+      .from('users')
+      .select('id, email, name, pending_email')
+      .eq('id', userId)
+      .single();
+
+    if (userError) {
+      console.error('Confirm email change lookup error:', userError);
+      return res.status(500).json({ error: `Failed to load account: ${userError.message}` });
+    }
+    if (!user.pending_email) {
+      return res.status(400).json({ error: 'This email change was cancelled.' });
+    }
+
+    const email = user.pending_email;
+    if (await isEmailTaken(email, user.id)) {
+      return res.status(409).json({ error: 'That email address is already in use' });
+    }
+
+    // Supabase Auth signs the user in by email, so both records have to move together
+    const { error: authError } = await supabase.auth.admin.updateUserById(userId, { email, email_confirm: true });
+    if (authError) {
+      console.error('Auth email update error:', authError);
+      return res.status(500).json({ error: `Failed to change email: ${authError.message}` });
+    }
+
+    const { error } = await supabase
+      .from('users')
+      .update({ email, email_verified: true, pending_email: null })
+      .eq('id', userId);
+
+    if (error) {
+      console.error('Confirm email change error:', error);
+      return res.status(500).json({ error: `Failed to change email: ${error.message}` });
+    }
+
+    try {
+      await sendEmailChangedEmail(user, email);
+    } catch (mailError) {
+      console.error('Failed to send email change notice:', mailError);
+    }
+
+    res.json({ message: `Your email address is now ${email}.` });
+  } catch (err) {
+    console.error(err);
+    res.status(500).json({ error: 'Failed to change email' });
+  }
+});
+
+router.post('/change-password', requireSession, async (req, res) => {
+  try {
+    const { currentPassword, newPassword } = req.body ?? {};
+    if (typeof newPassword !== 'string' || newPassword.length < MIN_PASSWORD_LENGTH) {
+      return res.status(400).json({ error: `Password must be at least ${MIN_PASSWORD_LENGTH} characters` });
+    }
+
+    const user = await verifyCurrentPassword(req, res, currentPassword);
+    if (!user) return;
+
+    const { error } = await getSupabaseAdmin().auth.admin.updateUserById(user.id, { password: supabasePassword(newPassword) });
+    if (error) {
+      console.error('Password update error:', error);
+      return res.status(500).json({ error: `Failed to update password: ${error.message}` });
+    }
+
+    // Whoever knew the old password is signed out, Supabase Auth sessions and their 2FA verification
+    // included; this device stays signed in
+    await revokeUserSessions(user.id, { exceptSessionId: req.auth.sessionId });
+
+    try {
+      await sendPasswordChangedEmail(user);
+    } catch (mailError) {
+      console.error('Failed to send password change notice:', mailError);
+    }
+
+    res.json({ message: 'Your password has been changed. Other devices have been signed out.' });
+  } catch (err) {
+    console.error(err);
+    res.status(500).json({ error: 'Failed to change password' });
+  }
+});
+
+export default router;
@@ -0,0 +1,234 @@
+import { Router } from 'express';
+import { getSupabaseAdmin, signInWithSupabase, supabasePassword, migrateLegacyUser, discardSupabaseSession } from '../supabase.mjs';
+import {
+  createSession,
+  refreshSession,
+  revokeSession,
+  requireSession,
+  toPublicUser
+} from '../sessions.mjs';
+import { claimInvite, completeInvite, releaseInvite, normalizeEmail } from '../invites.mjs';
+import { createOneTimeToken } from '../oneTimeTokens.mjs';
+import { sendVerificationEmail } from '../emails.mjs';
+import { isMfaEnabled, isMfaRequired, issueMfaToken } from '../mfa.mjs';
+import { rejectIfThrottled, rejectFailedLogin, clearAccountThrottle } from '../loginThrottle.mjs';
+import { logAuthEvent } from '../authEvents.mjs';
+import { getDefaultOrganizationId } from '../tenants.mjs';
+
+const ROLES = ['student', 'teacher', 'admin'];
+// Same message for an unknown email, wrong role or wrong password, so logins can't probe for accounts
+const INVALID_CREDENTIALS = 'Invalid email, password or role. Please try again.';
+
+const router = Router();
+
+router.post('/login', async (req, res) => {
+  try {
+    const { password, role = 'student' } = req.body ?? {};
+    // Supabase Auth keeps emails in lowercase; lookups and throttle keys follow it
+    const email = normalizeEmail(req.body?.email);
+    if (!email || !password) {
+      return res.status(400).json({ error: 'Email and password are required' });
+    }
+
+    if (await rejectIfThrottled(req, res, email)) return;
+
+    const supabase = getSupabaseAdmin();
+    const { data: user, error } = await supabase
+      .from('users')
+      .select('*')
+      .eq('email', email)
+      .eq('role', role)
+      .maybeSingle();
+
+    if (error) {
+      console.error('Login query error:', error);
+      return res.status(500).json({ error: `Database error during login: ${error.message}` });
+    }
+
+    if (!user) {
+      return rejectFailedLogin(req, res, { email, reason: `No ${role} account`, message: INVALID_CREDENTIALS });
+    }
+
+    if (user.password_hash) {
+      await migrateLegacyUser(user);
+    }
+
+    const supabaseSession = await signInWithSupabase(email, password);
+    if (!supabaseSession) {
+      return rejectFailedLogin(req, res, { email, userId: user.id, reason: 'Incorrect password', message: INVALID_CREDENTIALS });
+    }
+
+    // With 2FA the password alone only earns a short-lived token for the second step
+    if (await isMfaEnabled(user.id)) {
+      await discardSupabaseSession(supabaseSession);
+      return res.json({ mfaRequired: true, mfaToken: issueMfaToken(user.id, 'mfa_challenge') });
+    }
+    if (isMfaRequired(user.role)) {
+      await discardSupabaseSession(supabaseSession);
+      return res.json({ mfaSetupRequired: true, mfaToken: issueMfaToken(user.id, 'mfa_enrollment') });
+    }
+
+    // Only a completed sign-in resets the counter, so the password step can't be used to reset 2FA guesses
+    await clearAccountThrottle(email);
+    await logAuthEvent(req, { type: 'login_succeeded', email, userId: user.id });
+    res.json(await createSession(user, req, supabaseSession));
+  } catch (err) {
+    console.error(err);
+    res.status(500).json({ error: 'Login failed' });
+  }
+});
+
+router.post('/register', async (req, res) => {
+  try {
+    const { password, name, role = 'student', bio, specialization, inviteCode } = req.body ?? {};
+    const email = normalizeEmail(req.body?.email);
+    if (!email || !password || !name) {
+      return res.status(400).json({ error: 'Name, email and password are required' });
+    }
+    if (!ROLES.includes(role)) {
+      return res.status(400).json({ error: 'Invalid role' });
+    }
+
+    const supabase = getSupabaseAdmin();
+    const { data: existingUser, error: checkError } = await supabase
+      .from('users')
+      .select('id')
+      .eq('email', email)
+      .maybeSingle();
+
+    if (checkError) {
+      console.error('Error checking existing user:', checkError);
+      return res.status(500).json({ error: `Failed to check existing user: ${checkError.message}` });
+    }
+
+    if (existingUser) {
+      return res.status(409).json({ error: 'User already exists with this email' });
+    }
+
+    // Open registration is for students only; staff accounts need an invite issued to this email
+    let invite = null;
+    if (role !== 'student') {
+      invite = await claimInvite(inviteCode, email, role);
+      if (!invite) {
+        return res.status(403).json({ error: `A valid invite code for this email is required to register as a ${role}` });
+      }
+    }
+
+    // Staff join the organization they were invited into; open sign-ups join the default one
+    const organizationId = invite ? invite.organization_id : await getDefaultOrganizationId();
+
+    // The Supabase Auth user owns the password; the users row shares its id so auth.uid() matches
+    const { data: authData, error: authError } = await supabase.auth.admin.createUser({
+      email,
+      password: supabasePassword(password),
+      email_confirm: true,
+      user_metadata: { name, role }
+    });
+
+    if (authError) {
+      console.error('Auth user creation error:', authError);
+      if (invite) await releaseInvite(invite.id);
+      return res.status(400).json({ error: `Failed to create user: ${authError.message}` });
+    }
+
+    const { data: newUser, error } = await supabase
+      .from('users')
+      .insert([
+        {
+          id: authData.user.id,
+          organization_id: organizationId,
+          email,
+          name,
+          role,
+          level: 'beginner',
+          completed_assessment: false,
+          // An invite is bound to this email, so redeeming it proves ownership
+          email_verified: Boolean(invite),
+          bio: bio || '',
+          specialization: specialization || '',
+          experience_years: role === 'student' ? null : '0-1'
+        }
+      ])
+      .select()
+      .single();
+
+    if (error) {
+      console.error('Registration error:', error);
+      await supabase.auth.admin.deleteUser(authData.user.id);
+      if (invite) await releaseInvite(invite.id);
+      return res.status(500).json({ error: `Failed to create user: ${error.message}` });
+    }
+
+    if (invite) {
+      await completeInvite(invite.id, newUser.id);
+    } else {
+      // The account works without it; the user can ask for another email from the app
+      try {
+        await sendVerificationEmail(newUser, await createOneTimeToken(newUser.id, 'email_verification'));
+      } catch (mailError) {
+        console.error('Failed to send verification email:', mailError);
+      }
+    }
+
+    // Staff set up 2FA before their first session, exactly as at login
+    if (isMfaRequired(newUser.role)) {
+      return res.status(201).json({ mfaSetupRequired: true, mfaToken: issueMfaToken(newUser.id, 'mfa_enrollment') });
+    }
+
+    const supabaseSession = await signInWithSupabase(email, password);
+    res.status(201).json(await createSession(newUser, req, supabaseSession));
+  } catch (err) {
+    console.error(err);
+    res.status(500).json({ error: 'Registration failed' });
+  }
+});
+
+router.post('/refresh', async (req, res) => {
+  try {
+    const session = await refreshSession(req.body?.refreshToken);
+    if (!session) {
+      return res.status(401).json({ error: 'Session expired. Please sign in again.' });
+    }
+    res.json(session);
+  } catch (err) {
+    console.error(err);
+    res.status(500).json({ error: 'Failed to refresh session' });
+  }
+});
+
+router.post('/logout', requireSession, async (req, res) => {
+  try {
+    await revokeSession(req.auth.sessionId);
+    res.json({ success: true });
+  } catch (err) {
+    console.error(err);
+    res.status(500).json({ error: 'Failed to sign out' });
+  }
+});
+
+router.get('/me', requireSession, async (req, res) => {
+  try {
+    const supabase = getSupabaseAdmin();
+    const { data: user, error } = await supabase
+      .from('users')
+      .select('*')
+      .eq('id', req.auth.userId)
+      .maybeSingle();
+
+    if (error) {
+      console.error('Session lookup error:', error);
+      return res.status(500).json({ error: `Failed to load session: ${error.message}` });
+    }
+
+    if (!user) {
+      return res.status(401).json({ error: 'Session expired. Please sign in again.' });
+    }
+
+    res.json({ user: toPublicUser(user) });
+  } catch (err) {
+    console.error(err);
+    res.status(500).json({ error: 'Failed to load session' });
+  }
+});
+
+export default router;
@@ -0,0 +1,46 @@
+import { Router } from 'express';
+import { getSupabaseAdmin } from '../supabase.mjs';
+import { requireSession, requireRole } from '../sessions.mjs';
+import { normalizeEmail } from '../invites.mjs';
+
+const DEFAULT_LIMIT = 100;
+const MAX_LIMIT = 500;
+
+const router = Router();
+
+router.use(requireSession, requireRole('admin'));
+
+// GET /api/auth-events?type=login_failed&email=someone@example.com&limit=100[&organizationId=<super-admins only>]
+router.get('/', async (req, res) => {
+  try {
+    const { type, email } = req.query;
+    const limit = Math.min(Number(req.query.limit) || DEFAULT_LIMIT, MAX_LIMIT);
+
+    // Org admins only see events for their own users; attempts on unknown emails are visible to super-admins
+    const organizationId = req.auth.superAdmin ? req.query.organizationId : req.auth.organizationId;
+    const scoped = typeof organizationId === 'string' && Boolean(organizationId);
+
+    let query = getSupabaseAdmin()
+      .from('auth_events')
+      .select(scoped ? '*, users!inner(organization_id)' : '*')
+      .order('created_at', { ascending: false })
+      .limit(limit);
+
+    if (scoped) query = query.eq('users.organization_id', organizationId);
+    if (typeof type === 'string' && type) query = query.eq('event_type', type);
+    if (typeof email === 'string' && email) query = query.eq('email', normalizeEmail(email));
+
+    const { data, error } = await query;
+    if (error) {
+      console.error('List auth events error:', error);
+      return res.status(500).json({ error: `Failed to fetch auth events: ${error.message}` });
+    }
+
+    res.json({ events: data.map(({ users, ...event }) => event) });
+  } catch (err) {
+    console.error(err);
+    res.status(500).json({ error: 'Failed to fetch auth events' });
+  }
+});
+
+export default router;
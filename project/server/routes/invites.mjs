@@ -0,0 +1,137 @@
+import { Router } from 'express';
+import { getSupabaseAdmin } from '../supabase.mjs';
+import { requireSession, requireRole } from '../sessions.mjs';
+import { INVITE_ROLES, generateInviteCode, hashInviteCode, inviteStatus, normalizeEmail } from '../invites.mjs';
+import { canAccessOrganization } from '../tenants.mjs';
+import { logAuditEvent } from '../auditLog.mjs';
+
+const DEFAULT_EXPIRY_DAYS = 7;
+const MAX_EXPIRY_DAYS = 30;
+
+const router = Router();
+
+router.use(requireSession, requireRole('admin'));
+
+function toPublicInvite(invite) {
+  const { code_hash, ...publicInvite } = invite;
+  return { ...publicInvite, status: inviteStatus(invite) };
+}
+
+router.get('/', async (req, res) => {
+  try {
+    // Org admins see their own organization's invites; super-admins see all (or one, with ?organizationId=)
+    let query = getSupabaseAdmin()
+      .from('user_invites')
+      .select('*')
+      .order('created_at', { ascending: false });
+
+    const organizationId = req.auth.superAdmin ? req.query.organizationId : req.auth.organizationId;
+    if (typeof organizationId === 'string' && organizationId) query = query.eq('organization_id', organizationId);
+
+    const { data, error } = await query;
+
+    if (error) {
+      console.error('List invites error:', error);
+      return res.status(500).json({ error: `Failed to fetch invites: ${error.message}` });
+    }
+
+    res.json({ invites: data.map(toPublicInvite) });
+  } catch (err) {
+    console.error(err);
+    res.status(500).json({ error: 'Failed to fetch invites' });
+  }
+});
+
+router.post('/', async (req, res) => {
+  try {
+    const { email, role, expiresInDays = DEFAULT_EXPIRY_DAYS, organizationId = req.auth.organizationId } = req.body ?? {};
+    const normalizedEmail = normalizeEmail(email);
+    if (!normalizedEmail || !normalizedEmail.includes('@')) {
+      return res.status(400).json({ error: 'A valid email is required' });
+    }
+    if (!INVITE_ROLES.includes(role)) {
+      return res.status(400).json({ error: 'Invites can only be issued for teacher or admin accounts' });
+    }
+    const days = Number(expiresInDays);
+    if (!Number.isFinite(days) || days <= 0 || days > MAX_EXPIRY_DAYS) {
+      return res.status(400).json({ error: `Expiry must be between 1 and ${MAX_EXPIRY_DAYS} days` });
+    }
+    if (!canAccessOrganization(req.auth, organizationId)) {
+      return res.status(403).json({ error: 'You can only invite staff into your own organization' });
+    }
+
+    const code = generateInviteCode();
+    const { data, error } = await getSupabaseAdmin()
+      .from('user_invites')
+      .insert([{
+        email: normalizedEmail,
+        role,
+        organization_id: organizationId,
+        code_hash: hashInviteCode(code),
+        created_by: req.auth.userId,
+        expires_at: new Date(Date.now() + days * 24 * 60 * 60 * 1000).toISOString()
+      }])
+      .select()
+      .single();
+
+    if (error) {
+      console.error('Create invite error:', error);
+      return res.status(500).json({ error: `Failed to create invite: ${error.message}` });
+    }
+
+    await logAuditEvent(req, {
+      action: 'invite.created',
+      targetType: 'invite',
+      targetId: data.id,
+      targetLabel: data.email,
+      organizationId: data.organization_id,
+      after: toPublicInvite(data)
+    });
+
+    // The plain code is only ever returned here
+    res.status(201).json({ invite: toPublicInvite(data), code });
+  } catch (err) {
+    console.error(err);
+    res.status(500).json({ error: 'Failed to create invite' });
+  }
+});
+
+router.post('/:id/revoke', async (req, res) => {
+  try {
+    let query = getSupabaseAdmin()
+      .from('user_invites')
+      .update({ revoked_at: new Date().toISOString() })
+      .eq('id', req.params.id)
+      .is('used_at', null)
+      .is('revoked_at', null);
+
+    if (!req.auth.superAdmin) query = query.eq('organization_id', req.auth.organizationId);
+
+    const { data, error } = await query.select().maybeSingle();
+
+    if (error) {
+      console.error('Revoke invite error:', error);
+      return res.status(500).json({ error: `Failed to revoke invite: ${error.message}` });
+    }
+
+    if (!data) {
+      return res.status(409).json({ error: 'Invite was already used or revoked, or belongs to another organization' });
+    }
+
+    await logAuditEvent(req, {
+      action: 'invite.revoked',
+      targetType: 'invite',
+      targetId: data.id,
+      targetLabel: data.email,
+      organizationId: data.organization_id,
+      after: toPublicInvite(data)
+    });
+
+    res.json({ invite: toPublicInvite(data) });
+  } catch (err) {
+    console.error(err);
+    res.status(500).json({ error: 'Failed to revoke invite' });
+  }
+});
+
+export default router;
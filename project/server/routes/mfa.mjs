@@ -0,0 +1,231 @@
+import { Router } from 'express';
+import { getSupabaseAdmin, createSupabaseSessionForUser } from '../supabase.mjs';
+import { createSession, requireSession, requireRole, revokeUserSessions } from '../sessions.mjs';
+import {
+  isMfaRequired,
+  getMfaRecord,
+  readMfaToken,
+  beginEnrollment,
+  confirmEnrollment,
+  verifyMfaCode,
+  markSupabaseSessionVerified,
+  useRecoveryCode,
+  regenerateRecoveryCodes,
+  countRecoveryCodes,
+  removeMfa
+} from '../mfa.mjs';
+import { rejectIfThrottled, rejectFailedLogin, clearAccountThrottle } from '../loginThrottle.mjs';
+import { logAuthEvent } from '../authEvents.mjs';
+import { canManageUser, outranksUser } from '../tenants.mjs';
+import { logAuditEvent } from '../auditLog.mjs';
+
+// TOTP two-factor authentication: enrolment, the sign-in challenge and recovery.
+const router = Router();
+
+async function loadUser(userId) {
+  const { data, error } = await getSupabaseAdmin()
+    .from('users')
+    .select('*')
+    .eq('id', userId)
+    .maybeSingle();
+
+  if (error) throw new Error(`Failed to load user: ${error.message}`);
+  return data;
+}
+
+// Checks the authenticator code a signed-in user sends to change their 2FA. Wrong codes count towards
+// the same lockout as sign-in. Sends the error response and returns false on failure.
+async function verifyCodeForChange(req, res) {
+  const user = await loadUser(req.auth.userId);
+  if (!user) {
+    res.status(401).json({ error: 'Session expired. Please sign in again.' });
+    return false;
+  }
+  if (await rejectIfThrottled(req, res, user.email)) return false;
+  if (await verifyMfaCode(user.id, req.body?.code)) return true;
+
+  // Not a 401: the session itself is fine and the client would retry with a refreshed token
+  await rejectFailedLogin(req, res, {
+    email: user.email,
+    userId: user.id,
+    type: 'mfa_failed',
+    reason: 'Invalid authentication code',
+    message: 'That code is not valid. Please try again.',
+    status: 400
+  });
+  return false;
+}
+
+// Enrolment is reachable with a signed-in session, or with the enrolment token handed out at
+// login to staff who have not set up 2FA yet (they get no session until they finish).
+function requireSessionOrEnrollmentToken(req, res, next) {
+  const { mfaToken } = req.body ?? {};
+  if (!mfaToken) return requireSession(req, res, next);
+
+  const userId = readMfaToken(mfaToken, 'mfa_enrollment');
+  if (!userId) {
+    return res.status(401).json({ error: 'Your sign-in attempt has expired. Please sign in again.' });
+  }
+  req.auth = { userId, enrolling: true };
+  next();
+}
+
+async function signIn(user, req) {
+  await clearAccountThrottle(user.email);
+  await logAuthEvent(req, { type: 'login_succeeded', email: user.email, userId: user.id });
+  const supabaseSession = await createSupabaseSessionForUser(user.email);
+  await markSupabaseSessionVerified(user.id, supabaseSession);
+  return createSession(user, req, supabaseSession);
+}
+
+router.get('/status', requireSession, async (req, res) => {
+  try {
+    const record = await getMfaRecord(req.auth.userId);
+    const enabled = Boolean(record?.enabled_at);
+    res.json({
+      enabled,
+      required: isMfaRequired(req.auth.role),
+      recoveryCodesRemaining: enabled ? await countRecoveryCodes(req.auth.userId) : 0
+    });
+  } catch (err) {
+    console.error(err);
+    res.status(500).json({ error: 'Failed to load 2FA status' });
+  }
+});
+
+router.post('/setup', requireSessionOrEnrollmentToken, async (req, res) => {
+  try {
+    const record = await getMfaRecord(req.auth.userId);
+    if (record?.enabled_at) {
+      return res.status(409).json({ error: 'Two-factor authentication is already enabled' });
+    }
+
+    const user = await loadUser(req.auth.userId);
+    if (!user) {
+      return res.status(401).json({ error: 'Session expired. Please sign in again.' });
+    }
+
+    res.json(await beginEnrollment(user));
+  } catch (err) {
+    console.error(err);
+    res.status(500).json({ error: 'Failed to start 2FA setup' });
+  }
+});
+
+router.post('/enable', requireSessionOrEnrollmentToken, async (req, res) => {
+  try {
+    const recoveryCodes = await confirmEnrollment(req.auth.userId, req.body?.code);
+    if (!recoveryCodes) {
+      return res.status(400).json({ error: 'That code is not valid. Check your authenticator app and try again.' });
+    }
+
+    if (!req.auth.enrolling) {
+      return res.json({ recoveryCodes });
+    }
+
+    const user = await loadUser(req.auth.userId);
+    res.json({ recoveryCodes, ...(await signIn(user, req)) });
+  } catch (err) {
+    console.error(err);
+    res.status(500).json({ error: 'Failed to enable 2FA' });
+  }
+});
+
+// Second step of login: trades the challenge token plus a TOTP or recovery code for a session.
+router.post('/verify', async (req, res) => {
+  try {
+    const { mfaToken, code, recoveryCode } = req.body ?? {};
+    const userId = readMfaToken(mfaToken, 'mfa_challenge');
+    if (!userId) {
+      return res.status(401).json({ error: 'Your sign-in attempt has expired. Please sign in again.' });
+    }
+
+    const user = await loadUser(userId);
+    if (!user) {
+      return res.status(401).json({ error: 'Your sign-in attempt has expired. Please sign in again.' });
+    }
+
+    // Code guesses count towards the same lockout as password guesses
+    if (await rejectIfThrottled(req, res, user.email)) return;
+
+    const verified = recoveryCode
+      ? await useRecoveryCode(userId, recoveryCode)
+      : await verifyMfaCode(userId, code);
+
+    if (!verified) {
+      return rejectFailedLogin(req, res, {
+        email: user.email,
+        userId,
+        type: 'mfa_failed',
+        reason: recoveryCode ? 'Invalid recovery code' : 'Invalid authentication code',
+        message: 'That code is not valid. Please try again.'
+      });
+    }
+
+    res.json(await signIn(user, req));
+  } catch (err) {
+    console.error(err);
+    res.status(500).json({ error: 'Failed to verify code' });
+  }
+});
+
+router.post('/recovery-codes', requireSession, async (req, res) => {
+  try {
+    if (!(await verifyCodeForChange(req, res))) return;
+    res.json({ recoveryCodes: await regenerateRecoveryCodes(req.auth.userId) });
+  } catch (err) {
+    console.error(err);
+    res.status(500).json({ error: 'Failed to regenerate recovery codes' });
+  }
+});
+
+router.post('/disable', requireSession, async (req, res) => {
+  try {
+    if (isMfaRequired(req.auth.role)) {
+      return res.status(403).json({ error: 'Two-factor authentication is required for your role' });
+    }
+    if (!(await verifyCodeForChange(req, res))) return;
+
+    await removeMfa(req.auth.userId);
+    res.json({ success: true });
+  } catch (err) {
+    console.error(err);
+    res.status(500).json({ error: 'Failed to disable 2FA' });
+  }
+});
+
+// For users who lost both their device and recovery codes. They re-enrol on next sign-in.
+router.post('/reset/:userId', requireSession, requireRole('admin'), async (req, res) => {
+  try {
+    if (!(await canManageUser(req.auth, req.params.userId))) {
+      return res.status(403).json({ error: 'You can only manage users in your own organization' });
+    }
+
+    const { data: target, error } = await getSupabaseAdmin()
+      .from('users')
+      .select('id, email, role, is_super_admin, organization_id')
+      .eq('id', req.params.userId)
+      .maybeSingle();
+    if (error) throw new Error(`Failed to load user: ${error.message}`);
+    if (!outranksUser(req.auth, target)) {
+      return res.status(403).json({ error: 'You can only reset 2FA for users with less access than you' });
+    }
+
+    await removeMfa(req.params.userId);
+    // Sessions opened with the old second factor must not keep their staff rights in RLS
+    await revokeUserSessions(req.params.userId);
+    await logAuditEvent(req, {
+      action: 'user.mfa_reset',
+      targetType: 'user',
+      targetId: req.params.userId,
+      targetLabel: target?.email,
+      organizationId: target?.organization_id
+    });
+    res.json({ success: true });
+  } catch (err) {
+    console.error(err);
+    res.status(500).json({ error: 'Failed to reset 2FA' });
+  }
+});
+
+export default router;
@@ -0,0 +1,96 @@
+import { Router } from 'express';
+import { getSupabaseAdmin } from '../supabase.mjs';
+import { requireSession } from '../sessions.mjs';
+import { normalizeEmail } from '../invites.mjs';
+import { createZip } from '../zip.mjs';
+import { sendAccountDeletionScheduledEmail } from '../emails.mjs';
+import {
+  DELETION_GRACE_DAYS,
+  collectPersonalData,
+  getOpenDeletionRequest,
+  requestAccountDeletion,
+  cancelAccountDeletion
+} from '../personalData.mjs';
+
+// Self-service access to the signed-in user's own data: export and account deletion.
+const router = Router();
+
+router.use(requireSession);
+
+// GET /api/account/export?format=json|zip
+router.get('/export', async (req, res) => {
+  try {
+    const data = await collectPersonalData(req.auth.userId);
+    if (!data) {
+      return res.status(404).json({ error: 'Account not found' });
+    }
+
+    const stamp = data.exported_at.slice(0, 10);
+    if (req.query.format === 'zip') {
+      // One file per kind of record, plus everything in one file
+      const entries = Object.entries(data)
+        .filter(([key]) => key !== 'exported_at')
+        .map(([key, value]) => ({ name: `${key}.json`, data: JSON.stringify(value, null, 2) }));
+      entries.unshift({ name: 'all-data.json', data: JSON.stringify(data, null, 2) });
+
+      res.setHeader('Content-Type', 'application/zip');
+      res.setHeader('Content-Disposition', `attachment; filename="career-connect-data-${stamp}.zip"`);
+      return res.send(createZip(entries));
+    }
+
+    res.setHeader('Content-Disposition', `attachment; filename="career-connect-data-${stamp}.json"`);
+    res.json(data);
+  } catch (err) {
+    console.error(err);
+    res.status(500).json({ error: 'Failed to export your data' });
+  }
+});
+
+router.get('/deletion', async (req, res) => {
+  try {
+    res.json({ request: await getOpenDeletionRequest(req.auth.userId), graceDays: DELETION_GRACE_DAYS });
+  } catch (err) {
+    console.error(err);
+    res.status(500).json({ error: 'Failed to load deletion request' });
+  }
+});
+
+router.post('/deletion', async (req, res) => {
+  try {
+    // Typing the account email confirms this is deliberate
+    if (normalizeEmail(req.body?.confirmEmail) !== normalizeEmail(req.auth.email)) {
+      return res.status(400).json({ error: 'Type your account email to confirm' });
+    }
+
+    const existing = await getOpenDeletionRequest(req.auth.userId);
+    const request = existing ?? (await requestAccountDeletion(req.auth.userId));
+
+    if (!existing) {
+      try {
+        const { data: user } = await getSupabaseAdmin().from('users').select('email, name').eq('id', req.auth.userId).single();
+        await sendAccountDeletionScheduledEmail(user, request.scheduled_for);
+      } catch (mailError) {
+        console.error('Failed to send deletion email:', mailError);
+      }
+    }
+
+    res.status(existing ? 200 : 201).json({ request });
+  } catch (err) {
+    console.error(err);
+    res.status(500).json({ error: 'Failed to request account deletion' });
+  }
+});
+
+router.delete('/deletion', async (req, res) => {
+  try {
+    if (!(await cancelAccountDeletion(req.auth.userId))) {
+      return res.status(404).json({ error: 'There is no pending deletion request' });
+    }
+    res.json({ success: true });
+  } catch (err) {
+    console.error(err);
+    res.status(500).json({ error: 'Failed to cancel account deletion' });
+  }
+});
+
+export default router;
@@ -0,0 +1,272 @@
+import { Router } from 'express';
+import { getSupabaseAdmin, createSupabaseSessionForUser } from '../supabase.mjs';
+import { createSession, requireSession, requireRole } from '../sessions.mjs';
+import { isMfaEnabled, isMfaRequired, issueMfaToken } from '../mfa.mjs';
+import { signToken, verifyToken } from '../tokens.mjs';
+import { createOneTimeToken, consumeOneTimeToken } from '../oneTimeTokens.mjs';
+import { appLink } from '../mail.mjs';
+import { logAuthEvent } from '../authEvents.mjs';
+import { canAccessOrganization } from '../tenants.mjs';
+import { logAuditEvent } from '../auditLog.mjs';
+import { discover, randomValue, buildAuthorizationUrl, authenticate } from '../oidc.mjs';
+import {
+  SSO_ROLES,
+  SsoError,
+  getSsoConfig,
+  getSsoConfigBySlug,
+  toPublicSsoConfig,
+  toProvider,
+  saveSsoConfig,
+  provisionSsoUser,
+  linkSsoIdentity
+} from '../sso.mjs';
+
+// The browser round-trip to the identity provider must finish within this time
+const FLOW_TTL_SECONDS = 60 * 10;
+const FLOW_COOKIE = 'sso_flow';
+const FLOW_COOKIE_PATH = '/api/auth/sso';
+
+const router = Router();
+
+function apiBase() {
+  return (process.env.VITE_API_URL || `http://localhost:${process.env.PORT || 5174}`).trim().replace(/\/$/, '');
+}
+
+// The identity provider sends the browser back here; register this URL with the provider
+function callbackUrl() {
+  return `${apiBase()}/api/auth/sso/callback`;
+}
+
+function readCookie(req, name) {
+  for (const part of (req.headers.cookie || '').split(';')) {
+    const [key, ...value] = part.trim().split('=');
+    if (key === name) return decodeURIComponent(value.join('='));
+  }
+  return null;
+}
+
+function flowCookieOptions(req) {
+  return { httpOnly: true, sameSite: 'lax', secure: req.secure, path: FLOW_COOKIE_PATH };
+}
+
+// Sign-ins return to the login screen; links started from the profile return there
+function redirectWithError(res, message, linking = false) {
+  res.redirect(linking ? appLink({ sso_link_error: message }, '/profile') : appLink({ sso_error: message }));
+}
+
+// Enabled SSO configuration for a one-time link token from POST /link, or null
+async function getSsoConfigForLink(linkToken) {
+  const userId = await consumeOneTimeToken(linkToken, 'sso_link');
+  if (!userId) return null;
+
+  const { data: user, error } = await getSupabaseAdmin()
+    .from('users')
+    .select('organization_id')
+    .eq('id', userId)
+    .maybeSingle();
+  if (error) throw new Error(`Failed to load user: ${error.message}`);
+
+  const config = user ? await getSsoConfig(user.organization_id) : null;
+  return config?.enabled ? { config, userId } : null;
+}
+
+// Starts sign-in with an organization's identity provider: GET /api/auth/sso/start?organization=<slug>,
+// or links the provider to a signed-in account: GET /api/auth/sso/start?link=<token from POST /link>
+router.get('/start', async (req, res) => {
+  const linking = typeof req.query.link === 'string';
+  try {
+    const link = linking ? await getSsoConfigForLink(req.query.link) : null;
+    const config = linking ? link?.config : await getSsoConfigBySlug(req.query.organization);
+    if (!config) {
+      return linking
+        ? redirectWithError(res, 'Your request to link single sign-on expired. Please try again.', true)
+        : redirectWithError(res, 'Single sign-on is not set up for that organization.');
+    }
+
+    // State, nonce and the PKCE verifier stay in a signed, HTTP-only cookie on this browser
+    const flow = {
+      org: config.organization_id,
+      state: randomValue(),
+      nonce: randomValue(),
+      verifier: randomValue(),
+      ...(link ? { link: link.userId } : {})
+    };
+    const authorizationUrl = await buildAuthorizationUrl(toProvider(config), {
+      redirectUri: callbackUrl(),
+      state: flow.state,
+      nonce: flow.nonce,
+      codeVerifier: flow.verifier
+    });
+
+    res.cookie(FLOW_COOKIE, signToken({ ...flow, purpose: 'sso_flow' }, FLOW_TTL_SECONDS), {
+      ...flowCookieOptions(req),
+      maxAge: FLOW_TTL_SECONDS * 1000
+    });
+    res.redirect(authorizationUrl);
+  } catch (err) {
+    console.error('SSO start error:', err);
+    redirectWithError(res, 'Could not reach your identity provider. Please try again later.', linking);
+  }
+});
+
+router.get('/callback', async (req, res) => {
+  const flow = verifyToken(readCookie(req, FLOW_COOKIE));
+  res.clearCookie(FLOW_COOKIE, flowCookieOptions(req));
+
+  const { code, state, error: idpError, error_description: idpErrorDescription } = req.query;
+  const linking = Boolean(flow?.link);
+  if (idpError) {
+    return redirectWithError(res, `Your identity provider declined the sign-in: ${idpErrorDescription || idpError}`, linking);
+  }
+  if (!flow || flow.purpose !== 'sso_flow' || typeof state !== 'string' || state !== flow.state || typeof code !== 'string') {
+    return redirectWithError(res, 'Your single sign-on attempt expired. Please try again.', linking);
+  }
+
+  let email = null;
+  try {
+    const config = await getSsoConfig(flow.org);
+    if (!config?.enabled) {
+      return redirectWithError(res, 'Single sign-on is not set up for that organization.', linking);
+    }
+
+    const claims = await authenticate(toProvider(config), {
+      code,
+      redirectUri: callbackUrl(),
+      codeVerifier: flow.verifier,
+      nonce: flow.nonce
+    });
+    email = claims.email ?? null;
+
+    if (linking) {
+      await linkSsoIdentity(config, claims, flow.link);
+      return res.redirect(appLink({ sso_link: 'linked' }, '/profile'));
+    }
+
+    const user = await provisionSsoUser(config, claims);
+    await logAuthEvent(req, { type: 'login_succeeded', email: user.email, userId: user.id, reason: 'Single sign-on' });
+    res.redirect(appLink({ sso_login: await createOneTimeToken(user.id, 'sso_login') }));
+  } catch (err) {
+    console.error('SSO callback error:', err);
+    const message = err instanceof SsoError ? err.message : 'Single sign-on failed. Please try again.';
+    if (!linking) await logAuthEvent(req, { type: 'login_failed', email, reason: `Single sign-on: ${err.message}` });
+    redirectWithError(res, message, linking);
+  }
+});
+
+// A signed-in user links their organization's identity provider to their account. The browser
+// then opens the returned URL, which runs the usual sign-in round-trip and returns to the profile.
+router.post('/link', requireSession, async (req, res) => {
+  try {
+    if (req.auth.superAdmin) {
+      return res.status(403).json({ error: 'Super-admin accounts cannot use single sign-on' });
+    }
+    const config = await getSsoConfig(req.auth.organizationId);
+    if (!config?.enabled) {
+      return res.status(400).json({ error: 'Single sign-on is not set up for your organization' });
+    }
+
+    const token = await createOneTimeToken(req.auth.userId, 'sso_link');
+    res.json({ url: `${apiBase()}/api/auth/sso/start?link=${encodeURIComponent(token)}` });
+  } catch (err) {
+    console.error(err);
+    res.status(500).json({ error: 'Failed to start linking single sign-on' });
+  }
+});
+
+// The web app trades the one-time token from the callback redirect for a session
+router.post('/exchange', async (req, res) => {
+  try {
+    const userId = await consumeOneTimeToken(req.body?.token, 'sso_login');
+    if (!userId) {
+      return res.status(401).json({ error: 'Your single sign-on link has expired. Please sign in again.' });
+    }
+
+    const { data: user, error } = await getSupabaseAdmin()
+      .from('users')
+      .select('*')
+      .eq('id', userId)
+      .maybeSingle();
+
+    if (error) {
+      console.error('SSO exchange query error:', error);
+      return res.status(500).json({ error: `Failed to load account: ${error.message}` });
+    }
+    if (!user) {
+      return res.status(401).json({ error: 'Your single sign-on link has expired. Please sign in again.' });
+    }
+    if (user.is_super_admin) {
+      return res.status(403).json({ error: 'Super-admin accounts cannot use single sign-on' });
+    }
+
+    // The identity provider stands in for the password only; staff still complete our own 2FA
+    if (await isMfaEnabled(user.id)) {
+      return res.json({ mfaRequired: true, mfaToken: issueMfaToken(user.id, 'mfa_challenge') });
+    }
+    if (isMfaRequired(user.role)) {
+      return res.json({ mfaSetupRequired: true, mfaToken: issueMfaToken(user.id, 'mfa_enrollment') });
+    }
+
+    const supabaseSession = await createSupabaseSessionForUser(user.email);
+    res.json(await createSession(user, req, supabaseSession));
+  } catch (err) {
+    console.error(err);
+    res.status(500).json({ error: 'Single sign-on failed' });
+  }
+});
+
+// Admin configuration of the organization's identity provider
+router.get('/config', requireSession, requireRole('admin'), async (req, res) => {
+  try {
+    const organizationId = (req.auth.superAdmin && req.query.organizationId) || req.auth.organizationId;
+    if (!canAccessOrganization(req.auth, organizationId)) {
+      return res.status(403).json({ error: 'You can only manage single sign-on for your own organization' });
+    }
+
+    res.json({ config: toPublicSsoConfig(await getSsoConfig(organizationId)), callbackUrl: callbackUrl() });
+  } catch (err) {
+    console.error(err);
+    res.status(500).json({ error: 'Failed to load SSO configuration' });
+  }
+});
+
+router.put('/config', requireSession, requireRole('admin'), async (req, res) => {
+  try {
+    const { organizationId = req.auth.organizationId, ...input } = req.body ?? {};
+    if (!canAccessOrganization(req.auth, organizationId)) {
+      return res.status(403).json({ error: 'You can only manage single sign-on for your own organization' });
+    }
+    if (!input.issuer || !input.clientId) {
+      return res.status(400).json({ error: 'Issuer URL and client ID are required' });
+    }
+    if (!SSO_ROLES.includes(input.defaultRole)) {
+      return res.status(400).json({ error: 'Invalid default role' });
+    }
+
+    // Catch a mistyped issuer now rather than at the next sign-in
+    if (input.enabled) {
+      try {
+        await discover(input.issuer, { refresh: true });
+      } catch (discoveryError) {
+        return res.status(400).json({ error: `Could not load the identity provider's configuration: ${discoveryError.message}` });
+      }
+    }
+
+    const before = toPublicSsoConfig(await getSsoConfig(organizationId));
+    const config = toPublicSsoConfig(await saveSsoConfig(organizationId, input));
+    await logAuditEvent(req, {
+      action: 'sso.updated',
+      targetType: 'organization',
+      targetId: organizationId,
+      organizationId,
+      before,
+      after: config
+    });
+
+    res.json({ config });
+  } catch (err) {
+    console.error(err);
+    res.status(500).json({ error: 'Failed to save SSO configuration' });
+  }
+});
+
+export default router;
@@ -0,0 +1,29 @@
+import { Router } from 'express';
+import { requireSession } from '../sessions.mjs';
+import { parseClientEvent, resolveClientEvent, queueXapiEvent, deliverXapiEvents } from '../xapi.mjs';
+
+const router = Router();
+
+router.use(requireSession);
+
+// POST /api/xapi/events { type, ...fields }
+// Queues a learning event for the signed-in user and starts delivering it to the LRS
+router.post('/events', async (req, res) => {
+  try {
+    const event = parseClientEvent(req.body);
+    const payload = event && (await resolveClientEvent(req.auth, event));
+    if (!payload) {
+      return res.status(400).json({ error: 'Invalid learning event' });
+    }
+
+    const id = await queueXapiEvent(req.auth.userId, event.type, payload);
+    deliverXapiEvents().catch(err => console.error('xAPI delivery failed:', err));
+
+    res.status(202).json({ id });
+  } catch (err) {
+    console.error(err);
+    res.status(500).json({ error: 'Failed to record learning event' });
+  }
+});
+
+export default router;
@@ -0,0 +1,23 @@
+import crypto from 'node:crypto';
+
+// Encryption at rest (AES-256-GCM) for secrets the server has to read back, such as TOTP seeds and
+// SSO client secrets. Set MFA_ENCRYPTION_KEY to rotate it independently of JWT_SECRET.
+function encryptionKey() {
+  const source = process.env.MFA_ENCRYPTION_KEY || process.env.JWT_SECRET;
+  if (!source) throw new Error('MFA_ENCRYPTION_KEY or JWT_SECRET must be configured');
+  return crypto.createHash('sha256').update(`mfa:${source}`).digest();
+}
+
+export function encryptSecret(secret) {
+  const iv = crypto.randomBytes(12);
+  const cipher = crypto.createCipheriv('aes-256-gcm', encryptionKey(), iv);
+  const encrypted = Buffer.concat([cipher.update(secret, 'utf8'), cipher.final()]);
+  return [iv, cipher.getAuthTag(), encrypted].map(part => part.toString('base64url')).join('.');
+}
+
+export function decryptSecret(payload) {
+  const [iv, tag, encrypted] = payload.split('.').map(part => Buffer.from(part, 'base64url'));
+  const decipher = crypto.createDecipheriv('aes-256-gcm', encryptionKey(), iv);
+  decipher.setAuthTag(tag);
+  return Buffer.concat([decipher.update(encrypted), decipher.final()]).toString('utf8');
+}
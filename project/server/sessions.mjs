@@ -0,0 +1,202 @@
+import crypto from 'node:crypto';
+import { getSupabaseAdmin, supabaseSessionId, endSupabaseSessions } from './supabase.mjs';
+import { signToken, verifyToken, getBearerToken } from './tokens.mjs';
+
+// Short-lived signed access tokens, backed by rotating refresh tokens stored (hashed) in user_sessions.
+export const ACCESS_TOKEN_TTL_SECONDS = 60 * 15;
+const REFRESH_TOKEN_TTL_SECONDS = 60 * 60 * 24 * 7;
+
+function hashToken(token) {
+  return crypto.createHash('sha256').update(token).digest('hex');
+}
+
+function newRefreshToken() {
+  return crypto.randomBytes(32).toString('base64url');
+}
+
+function refreshExpiry() {
+  return new Date(Date.now() + REFRESH_TOKEN_TTL_SECONDS * 1000).toISOString();
+}
+
+export function toPublicUser(user) {
+  const { password_hash, ...publicUser } = user;
+  return { ...publicUser, completedAssessment: Boolean(user.completed_assessment) };
+}
+
+function issueTokens(user, sessionId, refreshToken) {
+  return {
+    accessToken: signToken(
+      {
+        sub: user.id,
+        sid: sessionId,
+        email: user.email,
+        role: user.role,
+        org: user.organization_id,
+        sa: Boolean(user.is_super_admin)
+      },
+      ACCESS_TOKEN_TTL_SECONDS
+    ),
+    refreshToken,
+    expiresIn: ACCESS_TOKEN_TTL_SECONDS,
+    user: toPublicUser(user)
+  };
+}
+
+// Opens a session together with the Supabase Auth session the browser gets for RLS-scoped queries.
+// Revoking the session ends that Supabase session too.
+export async function createSession(user, req, supabaseSession) {
+  const supabase = getSupabaseAdmin();
+  const refreshToken = newRefreshToken();
+  const { data, error } = await supabase
+    .from('user_sessions')
+    .insert([{
+      user_id: user.id,
+      refresh_token_hash: hashToken(refreshToken),
+      user_agent: req.get('user-agent') || '',
+      ip_address: req.ip || '',
+      expires_at: refreshExpiry(),
+      supabase_session_id: supabaseSessionId(supabaseSession)
+    }])
+    .select('id')
+    .single();
+
+  if (error) throw new Error(`Failed to create session: ${error.message}`);
+  return { ...issueTokens(user, data.id, refreshToken), supabaseSession };
+}
+
+// Exchanges a refresh token for a new token pair. The old refresh token stops working (rotation).
+// Returns null when the token is unknown, expired or revoked.
+export async function refreshSession(refreshToken) {
+  if (typeof refreshToken !== 'string' || !refreshToken) return null;
+
+  const supabase = getSupabaseAdmin();
+  const { data: session, error } = await supabase
+    .from('user_sessions')
+    .select('id, user_id, expires_at, revoked_at')
+    .eq('refresh_token_hash', hashToken(refreshToken))
+    .maybeSingle();
+
+  if (error) throw new Error(`Failed to load session: ${error.message}`);
+  if (!session || session.revoked_at || new Date(session.expires_at) < new Date()) return null;
+
+  const { data: user, error: userError } = await supabase
+    .from('users')
+    .select('*')
+    .eq('id', session.user_id)
+    .maybeSingle();
+
+  if (userError) throw new Error(`Failed to load user: ${userError.message}`);
+  if (!user) return null;
+
+  // Compare-and-swap on the old hash: of two refreshes racing with the same token only one rotates it,
+  // the other finds no row and fails like any reused token
+  const nextRefreshToken = newRefreshToken();
+  const { data: rotated, error: rotateError } = await supabase
+    .from('user_sessions')
+    .update({
+      refresh_token_hash: hashToken(nextRefreshToken),
+      last_used_at: new Date().toISOString(),
+      expires_at: refreshExpiry()
+    })
+    .eq('id', session.id)
+    .eq('refresh_token_hash', hashToken(refreshToken))
+    .is('revoked_at', null)
+    .select('id');
+
+  if (rotateError) throw new Error(`Failed to rotate session: ${rotateError.message}`);
+  if (!rotated?.length) return null;
+  return issueTokens(user, session.id, nextRefreshToken);
+}
+
+export async function revokeSession(sessionId) {
+  const { data, error } = await getSupabaseAdmin()
+    .from('user_sessions')
+    .update({ revoked_at: new Date().toISOString() })
+    .eq('id', sessionId)
+    .is('revoked_at', null)
+    .select('user_id, supabase_session_id');
+
+  if (error) throw new Error(`Failed to revoke session: ${error.message}`);
+  for (const session of data) {
+    if (session.supabase_session_id) await endSupabaseSessions(session.user_id, { sessionId: session.supabase_session_id });
+  }
+}
+
+// Signs the user out everywhere, or everywhere but `exceptSessionId` (the device making the change).
+// Every other Supabase Auth session of the user ends as well, including ones opened outside the app.
+export async function revokeUserSessions(userId, { exceptSessionId } = {}) {
+  const supabase = getSupabaseAdmin();
+  let query = supabase
+    .from('user_sessions')
+    .update({ revoked_at: new Date().toISOString() })
+    .eq('user_id', userId)
+    .is('revoked_at', null);
+  if (exceptSessionId) query = query.neq('id', exceptSessionId);
+
+  const { error } = await query;
+  if (error) throw new Error(`Failed to revoke sessions: ${error.message}`);
+
+  let keepSessionId = null;
+  if (exceptSessionId) {
+    const { data: kept, error: keptError } = await supabase
+      .from('user_sessions')
+      .select('supabase_session_id')
+      .eq('id', exceptSessionId)
+      .maybeSingle();
+    if (keptError) throw new Error(`Failed to load session: ${keptError.message}`);
+    keepSessionId = kept?.supabase_session_id ?? null;
+  }
+  await endSupabaseSessions(userId, { keepSessionId });
+}
+
+// Express middleware: verifies the access token and that its session has not been revoked.
+// Populates req.auth with { userId, sessionId, email, role, organizationId, superAdmin }.
+export async function requireSession(req, res, next) {
+  const claims = verifyToken(getBearerToken(req));
+  // Tokens issued before tenants existed carry no organization; a refresh replaces them
+  if (!claims?.sid || !claims.org) {
+    return res.status(401).json({ error: 'Session expired. Please sign in again.' });
+  }
+
+  try {
+    const { data: session, error } = await getSupabaseAdmin()
+      .from('user_sessions')
+      .select('id, revoked_at')
+      .eq('id', claims.sid)
+      .maybeSingle();
+
+    if (error) throw new Error(`Failed to verify session: ${error.message}`);
+    if (!session || session.revoked_at) {
+      return res.status(401).json({ error: 'Session has been signed out. Please sign in again.' });
+    }
+
+    req.auth = {
+      userId: claims.sub,
+      sessionId: claims.sid,
+      email: claims.email,
+      role: claims.role,
+      organizationId: claims.org,
+      superAdmin: Boolean(claims.sa)
+    };
+    next();
+  } catch (err) {
+    console.error(err);
+    res.status(500).json({ error: 'Failed to verify session' });
+  }
+}
+
+export function requireRole(...roles) {
+  return (req, res, next) => {
+    if (!roles.includes(req.auth?.role)) {
+      return res.status(403).json({ error: 'You do not have permission to perform this action' });
+    }
+    next();
+  };
+}
+
+export function requireSuperAdmin(req, res, next) {
+  if (!req.auth?.superAdmin) {
+    return res.status(403).json({ error: 'You do not have permission to perform this action' });
+  }
+  next();
+}
@@ -0,0 +1,267 @@
+import { getSupabaseAdmin } from './supabase.mjs';
+import { encryptSecret, decryptSecret } from './secrets.mjs';
+import { normalizeEmail } from './invites.mjs';
+import { logAuditEvent } from './auditLog.mjs';
+
+// Ordered from least to most access
+export const SSO_ROLES = ['student', 'teacher', 'admin'];
+// When a user is in groups for several roles, the most privileged one wins
+const ROLE_PRECEDENCE = ['admin', 'teacher', 'student'];
+
+// A sign-in problem the user can act on; its message is shown on the login screen
+export class SsoError extends Error {
+  constructor(message) {
+    super(message);
+    this.name = 'SsoError';
+  }
+}
+
+export async function getSsoConfig(organizationId) {
+  const { data, error } = await getSupabaseAdmin()
+    .from('organization_sso')
+    .select('*')
+    .eq('organization_id', organizationId)
+    .maybeSingle();
+
+  if (error) throw new Error(`Failed to load SSO configuration: ${error.message}`);
+  return data;
+}
+
+// Enabled SSO configuration for the organization with the given slug, or null
+export async function getSsoConfigBySlug(slug) {
+  const { data, error } = await getSupabaseAdmin()
+    .from('organizations')
+    .select('id, name, organization_sso(*)')
+    .eq('slug', String(slug || '').trim().toLowerCase())
+    .maybeSingle();
+
+  if (error) throw new Error(`Failed to load SSO configuration: ${error.message}`);
+  const config = Array.isArray(data?.organization_sso) ? data.organization_sso[0] : data?.organization_sso;
+  return config?.enabled ? config : null;
+}
+
+// Settings as shown to admins. The client secret never leaves the server.
+export function toPublicSsoConfig(config) {
+  if (!config) return null;
+  const { client_secret_encrypted, ...publicConfig } = config;
+  return { ...publicConfig, has_client_secret: Boolean(client_secret_encrypted) };
+}
+
+// Connection details for the OIDC client in oidc.mjs
+export function toProvider(config) {
+  return {
+    issuer: config.issuer,
+    clientId: config.client_id,
+    clientSecret: config.client_secret_encrypted ? decryptSecret(config.client_secret_encrypted) : null,
+    scopes: config.scopes
+  };
+}
+
+function normalizeRoleMappings(roleMappings) {
+  const mappings = {};
+  for (const role of SSO_ROLES) {
+    const groups = Array.isArray(roleMappings?.[role]) ? roleMappings[role] : [];
+    mappings[role] = [...new Set(groups.map(group => String(group).trim()).filter(Boolean))];
+  }
+  return mappings;
+}
+
+// Creates or updates an organization's provider. A blank clientSecret keeps the stored one;
+// clearSecret removes it (public clients that rely on PKCE alone).
+export async function saveSsoConfig(organizationId, input) {
+  const existing = await getSsoConfig(organizationId);
+  const row = {
+    organization_id: organizationId,
+    enabled: Boolean(input.enabled),
+    issuer: String(input.issuer || '').trim().replace(/\/$/, ''),
+    client_id: String(input.clientId || '').trim(),
+    scopes: String(input.scopes || '').trim() || 'openid email profile',
+    groups_claim: String(input.groupsClaim || '').trim() || 'groups',
+    default_role: input.defaultRole,
+    role_mappings: normalizeRoleMappings(input.roleMappings),
+    client_secret_encrypted: input.clearSecret
+      ? null
+      : input.clientSecret
+        ? encryptSecret(String(input.clientSecret))
+        : existing?.client_secret_encrypted ?? null,
+    updated_at: new Date().toISOString()
+  };
+
+  const { data, error } = await getSupabaseAdmin()
+    .from('organization_sso')
+    .upsert([row])
+    .select()
+    .single();
+
+  if (error) throw new Error(`Failed to save SSO configuration: ${error.message}`);
+  return data;
+}
+
+// Group claims come as an array, or as a single (sometimes space-separated) string
+function readGroups(claims, groupsClaim) {
+  const value = claims[groupsClaim];
+  if (value === undefined || value === null) return null;
+  return (Array.isArray(value) ? value : String(value).split(/[\s,]+/)).map(String).filter(Boolean);
+}
+
+// Role for the given IdP groups. null when the IdP sent no groups claim at all.
+export function resolveRole(config, groups) {
+  if (!groups) return null;
+  const mappings = normalizeRoleMappings(config.role_mappings);
+  return ROLE_PRECEDENCE.find(role => mappings[role].some(group => groups.includes(group))) ?? config.default_role;
+}
+
+function displayName(claims, email) {
+  const fullName = [claims.given_name, claims.family_name].filter(Boolean).join(' ');
+  return claims.name || fullName || claims.preferred_username || email.split('@')[0];
+}
+
+async function createSsoUser(config, { email, name, role }) {
+  const supabase = getSupabaseAdmin();
+  // No password: the identity provider is the only way in
+  const { data: authData, error: authError } = await supabase.auth.admin.createUser({
+    email,
+    email_confirm: true,
+    user_metadata: { name, role }
+  });
+  if (authError) throw new Error(`Failed to create user: ${authError.message}`);
+
+  const { data: user, error } = await supabase
+    .from('users')
+    .insert([
+      {
+        id: authData.user.id,
+        organization_id: config.organization_id,
+        email,
+        name,
+        role,
+        level: 'beginner',
+        completed_assessment: false,
+        email_verified: true,
+        bio: '',
+        specialization: '',
+        experience_years: role === 'student' ? null : '0-1'
+      }
+    ])
+    .select()
+    .single();
+
+  if (error) {
+    await supabase.auth.admin.deleteUser(authData.user.id);
+    throw new Error(`Failed to create user: ${error.message}`);
+  }
+  return user;
+}
+
+async function findIdentity(config, claims) {
+  const { data, error } = await getSupabaseAdmin()
+    .from('user_identities')
+    .select('id, user_id')
+    .eq('issuer', config.issuer)
+    .eq('subject', String(claims.sub))
+    .maybeSingle();
+  if (error) throw new Error(`Failed to load identity: ${error.message}`);
+  return data;
+}
+
+async function loadUser(userId) {
+  const { data, error } = await getSupabaseAdmin().from('users').select('*').eq('id', userId).maybeSingle();
+  if (error) throw new Error(`Failed to load user: ${error.message}`);
+  return data;
+}
+
+// Super-admins manage every tenant, so one organization's identity provider must never vouch for them
+function assertSsoAllowed(config, user) {
+  if (!user || user.organization_id !== config.organization_id) {
+    throw new SsoError('Your account is not part of this organization.');
+  }
+  if (user.is_super_admin) {
+    throw new SsoError('Super-admin accounts cannot use single sign-on. Sign in with your password instead.');
+  }
+}
+
+async function saveIdentity(config, claims, userId) {
+  const { error } = await getSupabaseAdmin()
+    .from('user_identities')
+    .upsert(
+      [{
+        user_id: userId,
+        organization_id: config.organization_id,
+        issuer: config.issuer,
+        subject: String(claims.sub),
+        last_login_at: new Date().toISOString()
+      }],
+      { onConflict: 'issuer,subject' }
+    );
+  if (error) throw new Error(`Failed to link identity: ${error.message}`);
+}
+
+// Finds the user behind verified IdP claims, creating the account on first sign-in.
+// Accounts that already exist are only reached through an identity linked from a signed-in
+// session (linkSsoIdentity), never by matching the email. On every sign-in the IdP's groups
+// may lower the user's role, but never raise it.
+export async function provisionSsoUser(config, claims) {
+  const supabase = getSupabaseAdmin();
+  const mappedRole = resolveRole(config, readGroups(claims, config.groups_claim));
+  const identity = await findIdentity(config, claims);
+
+  let user;
+  if (identity) {
+    user = await loadUser(identity.user_id);
+  } else {
+    const email = normalizeEmail(claims.email);
+    if (!email) throw new SsoError('Your identity provider did not share an email address.');
+    // The new account takes the IdP's email as verified, so the IdP must have verified it
+    if (claims.email_verified !== true) {
+      throw new SsoError('Your identity provider has not verified this email address.');
+    }
+
+    const { data: existing, error } = await supabase.from('users').select('id').eq('email', email).maybeSingle();
+    if (error) throw new Error(`Failed to load user: ${error.message}`);
+    if (existing) {
+      throw new SsoError('An account with this email already exists. Sign in with your password, then link single sign-on from your profile.');
+    }
+
+    user = await createSsoUser(config, { email, name: displayName(claims, email), role: mappedRole ?? config.default_role });
+  }
+
+  assertSsoAllowed(config, user);
+
+  if (mappedRole && SSO_ROLES.indexOf(mappedRole) < SSO_ROLES.indexOf(user.role)) {
+    const { data, error } = await supabase
+      .from('users')
+      .update({ role: mappedRole })
+      .eq('id', user.id)
+      .select()
+      .single();
+    if (error) throw new Error(`Failed to update user: ${error.message}`);
+
+    // Made with the service role, so the users audit trigger doesn't see it; the IdP is the actor
+    await logAuditEvent(null, {
+      action: 'user.role_changed',
+      targetType: 'user',
+      targetId: user.id,
+      targetLabel: user.email,
+      organizationId: user.organization_id,
+      before: { role: user.role, source: 'sso' },
+      after: { role: data.role, source: 'sso' }
+    });
+    user = data;
+  }
+
+  await saveIdentity(config, claims, user.id);
+  return user;
+}
+
+// Links an IdP identity to the signed-in user who started the link from their profile
+export async function linkSsoIdentity(config, claims, userId) {
+  const identity = await findIdentity(config, claims);
+  if (identity && identity.user_id !== userId) {
+    throw new SsoError('This identity is already linked to another account.');
+  }
+
+  const user = await loadUser(userId);
+  assertSsoAllowed(config, user);
+  await saveIdentity(config, claims, user.id);
+  return user;
+}
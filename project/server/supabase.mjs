@@ -0,0 +1,118 @@
+import crypto from 'node:crypto';
+import { createClient } from '@supabase/supabase-js';
+
+// Service-role client for server-side queries. Never expose this key to the browser.
+const supabaseUrl = (process.env.SUPABASE_URL || process.env.VITE_SUPABASE_URL || '').trim();
+const serviceRoleKey = (process.env.SUPABASE_SERVICE_ROLE_KEY || '').trim();
+const anonKey = (process.env.SUPABASE_ANON_KEY || process.env.VITE_SUPABASE_ANON_KEY || '').trim();
+
+const serverAuthOptions = { auth: { persistSession: false, autoRefreshToken: false } };
+
+let client = null;
+
+export function getSupabaseAdmin() {
+  if (!supabaseUrl || !serviceRoleKey) {
+    throw new Error('Supabase is not configured on the server. Set VITE_SUPABASE_URL and SUPABASE_SERVICE_ROLE_KEY in .env');
+  }
+  if (!client) {
+    client = createClient(supabaseUrl, serviceRoleKey, serverAuthOptions);
+  }
+  return client;
+}
+
+// The password Supabase Auth stores for a user: a keyed hash of the real one. The anon key ships to
+// browsers, so with the real password anyone could sign in against Supabase Auth directly and skip the
+// API server's throttling and sign-in log. Set AUTH_PASSWORD_SECRET to keep it independent of JWT_SECRET;
+// changing whichever is in use makes every password stop working.
+export function supabasePassword(password) {
+  const source = process.env.AUTH_PASSWORD_SECRET || process.env.JWT_SECRET;
+  if (!source) throw new Error('AUTH_PASSWORD_SECRET or JWT_SECRET must be configured');
+  return crypto.createHmac('sha256', `auth-password:${source}`).update(password).digest('base64url');
+}
+
+const sessionTokens = session => ({ access_token: session.access_token, refresh_token: session.refresh_token });
+
+// Signs in to Supabase Auth and returns the tokens the browser needs for RLS-scoped queries,
+// or null on bad credentials. Uses a throwaway anon client so the shared admin client keeps its service role.
+export async function signInWithSupabase(email, password) {
+  if (!supabaseUrl || !anonKey) {
+    throw new Error('Supabase is not configured on the server. Set VITE_SUPABASE_URL and VITE_SUPABASE_ANON_KEY in .env');
+  }
+  const authClient = createClient(supabaseUrl, anonKey, serverAuthOptions);
+  const { data, error } = await authClient.auth.signInWithPassword({ email, password: supabasePassword(password) });
+  if (!error) return sessionTokens(data.session);
+  if (error.status !== 400) throw new Error(`Supabase sign-in failed: ${error.message}`);
+
+  // Accounts from before passwords were hashed for Supabase Auth still hold the real one; it is replaced on first use
+  const { data: legacy, error: legacyError } = await authClient.auth.signInWithPassword({ email, password });
+  if (legacyError) {
+    if (legacyError.status === 400) return null;
+    throw new Error(`Supabase sign-in failed: ${legacyError.message}`);
+  }
+  const { error: updateError } = await getSupabaseAdmin().auth.admin.updateUserById(legacy.user.id, { password: supabasePassword(password) });
+  if (updateError) throw new Error(`Failed to update Supabase password: ${updateError.message}`);
+  return sessionTokens(legacy.session);
+}
+
+// Moves a pre-Supabase-Auth account into auth.users under the same id, reusing its bcrypt hash.
+export async function migrateLegacyUser(user) {
+  const supabase = getSupabaseAdmin();
+  const { error } = await supabase.auth.admin.createUser({
+    id: user.id,
+    email: user.email,
+    password_hash: user.password_hash,
+    email_confirm: true,
+    user_metadata: { name: user.name, role: user.role }
+  });
+
+  // "already registered" means a previous attempt created the auth user but did not clear the hash
+  if (error && !/already/i.test(error.message)) {
+    throw new Error(`Failed to migrate user to Supabase Auth: ${error.message}`);
+  }
+
+  const { error: clearError } = await supabase
+    .from('users')
+    .update({ password_hash: null })
+    .eq('id', user.id);
+
+  if (clearError) throw new Error(`Failed to clear legacy password hash: ${clearError.message}`);
+}
+
+// Issues Supabase Auth tokens for a user whose identity the server has already established
+// (e.g. after a second factor), by minting a magic link and redeeming it server-side.
+export async function createSupabaseSessionForUser(email) {
+  if (!supabaseUrl || !anonKey) {
+    throw new Error('Supabase is not configured on the server. Set VITE_SUPABASE_URL and VITE_SUPABASE_ANON_KEY in .env');
+  }
+  const { data: link, error: linkError } = await getSupabaseAdmin().auth.admin.generateLink({ type: 'magiclink', email });
+  if (linkError) throw new Error(`Failed to create Supabase sign-in link: ${linkError.message}`);
+
+  const authClient = createClient(supabaseUrl, anonKey, serverAuthOptions);
+  const { data, error } = await authClient.auth.verifyOtp({ token_hash: link.properties.hashed_token, type: 'magiclink' });
+  if (error) throw new Error(`Supabase sign-in failed: ${error.message}`);
+  return sessionTokens(data.session);
+}
+
+// The auth.sessions id a Supabase access token belongs to
+export function supabaseSessionId(session) {
+  const [, payload = ''] = session.access_token.split('.');
+  const { session_id: sessionId } = JSON.parse(Buffer.from(payload, 'base64url').toString('utf8'));
+  if (!sessionId) throw new Error('Supabase access token has no session id');
+  return sessionId;
+}
+
+// Ends Supabase Auth sessions on the server: `sessionId` alone, or every session of the user but `keepSessionId`
+export async function endSupabaseSessions(userId, { sessionId = null, keepSessionId = null } = {}) {
+  const { error } = await getSupabaseAdmin().rpc('end_auth_sessions', {
+    target_user_id: userId,
+    only_session_id: sessionId,
+    keep_session_id: keepSessionId
+  });
+  if (error) throw new Error(`Failed to end Supabase sessions: ${error.message}`);
+}
+
+// Revokes the refresh token behind a Supabase access token, e.g. one obtained only to check a password.
+export async function discardSupabaseSession(session) {
+  const { error } = await getSupabaseAdmin().auth.admin.signOut(session.access_token, 'local');
+  if (error) console.error('Failed to discard Supabase session:', error);
+}
@@ -0,0 +1,86 @@
+import { afterAll, beforeAll, beforeEach, describe, expect, it, vi } from 'vitest';
+
+// Supabase Auth users by email, with the password it holds for each
+const auth = vi.hoisted(() => ({ users: new Map() }));
+
+vi.mock('@supabase/supabase-js', () => ({
+  createClient: () => ({
+    auth: {
+      signInWithPassword: async ({ email, password }) => {
+        const user = auth.users.get(email);
+        if (!user || user.password !== password) return { data: null, error: { status: 400, message: 'Invalid login credentials' } };
+        return { data: { user: { id: user.id }, session: { access_token: `access-${user.id}`, refresh_token: `refresh-${user.id}` } }, error: null };
+      },
+      admin: {
+        updateUserById: async (id, { password }) => {
+          const user = [...auth.users.values()].find(u => u.id === id);
+          user.password = password;
+          return { data: { user }, error: null };
+        }
+      }
+    }
+  })
+}));
+
+let supabase;
+
+beforeAll(async () => {
+  vi.stubEnv('VITE_SUPABASE_URL', 'https://project.supabase.co');
+  vi.stubEnv('SUPABASE_SERVICE_ROLE_KEY', 'service-role');
+  vi.stubEnv('VITE_SUPABASE_ANON_KEY', 'anon');
+  vi.stubEnv('JWT_SECRET', 'test-secret');
+  // The URL and keys are read when the module loads
+  supabase = await import('./supabase.mjs');
+});
+
+afterAll(() => {
+  vi.unstubAllEnvs();
+});
+
+beforeEach(() => {
+  auth.users.clear();
+});
+
+describe('supabasePassword', () => {
+  it('is a keyed hash, never the password itself', () => {
+    const stored = supabase.supabasePassword('correct horse');
+
+    expect(stored).not.toContain('correct horse');
+    expect(stored).toBe(supabase.supabasePassword('correct horse'));
+    expect(stored).not.toBe(supabase.supabasePassword('correct horse!'));
+  });
+
+  it('prefers AUTH_PASSWORD_SECRET over JWT_SECRET', () => {
+    const withJwtSecret = supabase.supabasePassword('correct horse');
+    vi.stubEnv('AUTH_PASSWORD_SECRET', 'other-secret');
+
+    expect(supabase.supabasePassword('correct horse')).not.toBe(withJwtSecret);
+    vi.stubEnv('AUTH_PASSWORD_SECRET', '');
+  });
+});
+
+describe('signInWithSupabase', () => {
+  it('signs in with the hashed password', async () => {
+    auth.users.set('ada@example.com', { id: 'user-1', password: supabase.supabasePassword('correct horse') });
+
+    expect(await supabase.signInWithSupabase('ada@example.com', 'correct horse')).toEqual({
+      access_token: 'access-user-1',
+      refresh_token: 'refresh-user-1'
+    });
+  });
+
+  it('replaces a password stored before hashing on first use', async () => {
+    auth.users.set('ada@example.com', { id: 'user-1', password: 'correct horse' });
+
+    expect(await supabase.signInWithSupabase('ada@example.com', 'correct horse')).toMatchObject({ access_token: 'access-user-1' });
+    // The real password no longer works against Supabase Auth directly
+    expect(auth.users.get('ada@example.com').password).toBe(supabase.supabasePassword('correct horse'));
+  });
+
+  it('returns null for wrong credentials', async () => {
+    auth.users.set('ada@example.com', { id: 'user-1', password: supabase.supabasePassword('correct horse') });
+
+    expect(await supabase.signInWithSupabase('ada@example.com', 'wrong')).toBeNull();
+    expect(await supabase.signInWithSupabase('nobody@example.com', 'correct horse')).toBeNull();
+  });
+});
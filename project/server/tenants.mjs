@@ -0,0 +1,47 @@
+import { getSupabaseAdmin } from './supabase.mjs';
+
+// Open (uninvited) student sign-ups join this organization
+const DEFAULT_ORGANIZATION_SLUG = process.env.DEFAULT_ORGANIZATION_SLUG || 'default';
+
+let defaultOrganizationId = null;
+
+export async function getDefaultOrganizationId() {
+  if (defaultOrganizationId) return defaultOrganizationId;
+
+  const { data, error } = await getSupabaseAdmin()
+    .from('organizations')
+    .select('id')
+    .eq('slug', DEFAULT_ORGANIZATION_SLUG)
+    .maybeSingle();
+
+  if (error) throw new Error(`Failed to load default organization: ${error.message}`);
+  if (!data) throw new Error(`Default organization "${DEFAULT_ORGANIZATION_SLUG}" does not exist`);
+  defaultOrganizationId = data.id;
+  return defaultOrganizationId;
+}
+
+// Whether the signed-in admin (req.auth) may act on records of the given organization
+export function canAccessOrganization(auth, organizationId) {
+  return Boolean(auth?.superAdmin) || (Boolean(organizationId) && auth?.organizationId === organizationId);
+}
+
+// Whether the signed-in admin may manage the given user (same tenant, or super-admin)
+export async function canManageUser(auth, userId) {
+  if (auth?.superAdmin) return true;
+
+  const { data, error } = await getSupabaseAdmin()
+    .from('users')
+    .select('organization_id')
+    .eq('id', userId)
+    .maybeSingle();
+
+  if (error) throw new Error(`Failed to load user: ${error.message}`);
+  return Boolean(data) && canAccessOrganization(auth, data.organization_id);
+}
+
+// Whether the signed-in admin ranks strictly above the target: super-admins over everyone else,
+// organization admins over teachers and students. Nobody outranks themselves.
+export function outranksUser(auth, target) {
+  if (!target || target.id === auth?.userId || target.is_super_admin) return false;
+  return auth?.superAdmin || target.role !== 'admin';
+}
@@ -0,0 +1,78 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { canAccessOrganization, canManageUser, outranksUser } from './tenants.mjs';
+
+// users rows by id, for canManageUser's lookup
+const db = vi.hoisted(() => ({ users: new Map() }));
+
+vi.mock('./supabase.mjs', () => ({
+  getSupabaseAdmin: () => ({
+    from: () => ({
+      select: () => ({
+        eq: (column, id) => ({
+          maybeSingle: async () => ({ data: db.users.get(id) ?? null, error: null })
+        })
+      })
+    })
+  })
+}));
+
+const ORG_A = '11111111-1111-4111-8111-111111111111';
+const ORG_B = '22222222-2222-4222-8222-222222222222';
+
+const admin = { userId: 'admin-a', role: 'admin', organizationId: ORG_A, superAdmin: false };
+const superAdmin = { userId: 'root', role: 'admin', organizationId: ORG_A, superAdmin: true };
+
+describe('canAccessOrganization', () => {
+  it('limits admins to their own organization', () => {
+    expect(canAccessOrganization(admin, ORG_A)).toBe(true);
+    expect(canAccessOrganization(admin, ORG_B)).toBe(false);
+  });
+
+  it('never matches a missing organization', () => {
+    expect(canAccessOrganization(admin, null)).toBe(false);
+    expect(canAccessOrganization({ ...admin, organizationId: null }, null)).toBe(false);
+    expect(canAccessOrganization(undefined, ORG_A)).toBe(false);
+  });
+
+  it('lets super-admins into every organization', () => {
+    expect(canAccessOrganization(superAdmin, ORG_B)).toBe(true);
+  });
+});
+
+describe('canManageUser', () => {
+  beforeEach(() => {
+    db.users.clear();
+    db.users.set('student-a', { organization_id: ORG_A });
+    db.users.set('student-b', { organization_id: ORG_B });
+  });
+
+  it('only allows users of the admin organization', async () => {
+    expect(await canManageUser(admin, 'student-a')).toBe(true);
+    expect(await canManageUser(admin, 'student-b')).toBe(false);
+    expect(await canManageUser(admin, 'missing')).toBe(false);
+  });
+
+  it('allows super-admins to manage anyone', async () => {
+    expect(await canManageUser(superAdmin, 'student-b')).toBe(true);
+  });
+});
+
+describe('outranksUser', () => {
+  it('puts organization admins above teachers and students only', () => {
+    expect(outranksUser(admin, { id: 'teacher-a', role: 'teacher' })).toBe(true);
+    expect(outranksUser(admin, { id: 'student-a', role: 'student' })).toBe(true);
+    expect(outranksUser(admin, { id: 'admin-a2', role: 'admin' })).toBe(false);
+  });
+
+  it('puts super-admins above other admins but not other super-admins', () => {
+    expect(outranksUser(superAdmin, { id: 'admin-a', role: 'admin' })).toBe(true);
+    expect(outranksUser(superAdmin, { id: 'root-2', role: 'admin', is_super_admin: true })).toBe(false);
+    expect(outranksUser(admin, { id: 'root', role: 'admin', is_super_admin: true })).toBe(false);
+  });
+
+  it('never lets anyone act on themselves or a missing user', () => {
+    expect(outranksUser(admin, { id: 'admin-a', role: 'admin' })).toBe(false);
+    expect(outranksUser(superAdmin, { id: 'root', role: 'admin', is_super_admin: true })).toBe(false);
+    expect(outranksUser(admin, null)).toBe(false);
+  });
+});
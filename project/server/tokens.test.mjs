@@ -0,0 +1,63 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { getBearerToken, signToken, verifyToken } from './tokens.mjs';
+
+const decode = part => JSON.parse(Buffer.from(part, 'base64url').toString('utf8'));
+
+describe('tokens', () => {
+  beforeEach(() => {
+    vi.stubEnv('JWT_SECRET', 'test-secret');
+  });
+
+  afterEach(() => {
+    vi.unstubAllEnvs();
+    vi.useRealTimers();
+  });
+
+  it('round-trips a payload with issue and expiry times', () => {
+    vi.useFakeTimers({ now: new Date('2026-10-19T12:00:00Z') });
+    const payload = verifyToken(signToken({ sub: 'user-1', purpose: 'mfa_challenge' }, 60));
+
+    expect(payload).toEqual({ sub: 'user-1', purpose: 'mfa_challenge', iat: 1792411200, exp: 1792411260 });
+  });
+
+  it('rejects expired tokens', () => {
+    vi.useFakeTimers({ now: new Date('2026-10-19T12:00:00Z') });
+    const token = signToken({ sub: 'user-1' }, 60);
+
+    vi.setSystemTime(new Date('2026-10-19T12:01:01Z'));
+    expect(verifyToken(token)).toBeNull();
+  });
+
+  it('rejects a token whose payload was changed', () => {
+    const [header, body, signature] = signToken({ sub: 'user-1', role: 'student' }, 60).split('.');
+    const forged = Buffer.from(JSON.stringify({ ...decode(body), role: 'admin' })).toString('base64url');
+
+    expect(verifyToken(`${header}.${forged}.${signature}`)).toBeNull();
+  });
+
+  it('rejects a token signed with another secret', () => {
+    vi.stubEnv('JWT_SECRET', 'other-secret');
+    const token = signToken({ sub: 'user-1' }, 60);
+
+    vi.stubEnv('JWT_SECRET', 'test-secret');
+    expect(verifyToken(token)).toBeNull();
+  });
+
+  it('rejects malformed input', () => {
+    expect(verifyToken(undefined)).toBeNull();
+    expect(verifyToken('')).toBeNull();
+    expect(verifyToken('a.b')).toBeNull();
+    expect(verifyToken('a.b.c.d')).toBeNull();
+  });
+
+  it('refuses to sign without a secret', () => {
+    vi.stubEnv('JWT_SECRET', '');
+    expect(() => signToken({ sub: 'user-1' }, 60)).toThrow(/JWT_SECRET/);
+  });
+
+  it('reads bearer tokens from the Authorization header', () => {
+    expect(getBearerToken({ headers: { authorization: 'Bearer abc.def.ghi' } })).toBe('abc.def.ghi');
+    expect(getBearerToken({ headers: { authorization: 'Basic abc' } })).toBeNull();
+    expect(getBearerToken({ headers: {} })).toBeNull();
+  });
+});
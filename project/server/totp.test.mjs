@@ -0,0 +1,73 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { base32Decode, base32Encode, currentStep, generateTotp, generateTotpSecret, otpauthUrl, verifyTotp } from './totp.mjs';
+
+// The SHA-1 key from the RFC 6238 test vectors
+const RFC_SECRET = base32Encode(Buffer.from('12345678901234567890'));
+
+describe('base32', () => {
+  it('round-trips bytes', () => {
+    const bytes = Buffer.from([0, 1, 2, 250, 251, 252, 253, 254, 255]);
+    expect(base32Decode(base32Encode(bytes))).toEqual(bytes);
+  });
+
+  it('reads secrets the way people type them', () => {
+    expect(RFC_SECRET).toBe('GEZDGNBVGY3TQOJQGEZDGNBVGY3TQOJQ');
+    expect(base32Decode('gezd gnbv gy3t qojq gezd gnbv gy3t qojq')).toEqual(base32Decode(RFC_SECRET));
+    expect(() => base32Decode('GEZD1')).toThrow(/Invalid base32/);
+  });
+
+  it('generates 160-bit secrets', () => {
+    expect(base32Decode(generateTotpSecret())).toHaveLength(20);
+  });
+});
+
+describe('generateTotp', () => {
+  it('matches the RFC 6238 test vectors, truncated to six digits', () => {
+    expect(generateTotp(RFC_SECRET, currentStep(59 * 1000))).toBe('287082');
+    expect(generateTotp(RFC_SECRET, currentStep(1111111109 * 1000))).toBe('081804');
+    expect(generateTotp(RFC_SECRET, currentStep(1234567890 * 1000))).toBe('005924');
+  });
+});
+
+describe('verifyTotp', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('accepts codes from one step either side of now and returns their step', () => {
+    vi.useFakeTimers({ now: 1111111109 * 1000 });
+    const step = currentStep();
+
+    expect(verifyTotp(RFC_SECRET, generateTotp(RFC_SECRET, step))).toBe(step);
+    expect(verifyTotp(RFC_SECRET, generateTotp(RFC_SECRET, step - 1))).toBe(step - 1);
+    expect(verifyTotp(RFC_SECRET, generateTotp(RFC_SECRET, step + 1))).toBe(step + 1);
+    expect(verifyTotp(RFC_SECRET, generateTotp(RFC_SECRET, step - 2))).toBeNull();
+  });
+
+  it('ignores spaces and rejects anything but six digits', () => {
+    vi.useFakeTimers({ now: 1111111109 * 1000 });
+
+    expect(verifyTotp(RFC_SECRET, '081 804')).toBe(currentStep());
+    expect(verifyTotp(RFC_SECRET, '81804')).toBeNull();
+    expect(verifyTotp(RFC_SECRET, '0818045')).toBeNull();
+    expect(verifyTotp(RFC_SECRET, 'abcdef')).toBeNull();
+    expect(verifyTotp(RFC_SECRET, undefined)).toBeNull();
+  });
+});
+
+describe('otpauthUrl', () => {
+  it('labels the account with the issuer', () => {
+    const url = new URL(otpauthUrl(RFC_SECRET, 'ada@example.com', 'Career Connect'));
+
+    expect(url.protocol).toBe('otpauth:');
+    expect(url.host).toBe('totp');
+    expect(decodeURIComponent(url.pathname)).toBe('/Career Connect:ada@example.com');
+    expect(Object.fromEntries(url.searchParams)).toEqual({
+      secret: RFC_SECRET,
+      issuer: 'Career Connect',
+      algorithm: 'SHA1',
+      digits: '6',
+      period: '30'
+    });
+  });
+});
@@ -0,0 +1,310 @@
+import { getSupabaseAdmin } from './supabase.mjs';
+
+// Learning events as xAPI statements, sent to the Learning Record Store set by
+// XAPI_LRS_ENDPOINT (with XAPI_LRS_USERNAME / XAPI_LRS_PASSWORD for Basic auth).
+// Events are queued in xapi_events first and delivered by deliverXapiEvents, which
+// the API server also runs on a timer so failed deliveries are retried with backoff.
+// Without an endpoint events still queue, and go out once one is configured.
+//
+// Learners are identified by their account id on this platform, never by email.
+
+export const XAPI_EVENT_TYPES = [
+  'module_started',
+  'module_completed',
+  'quiz_answered',
+  'lab_objective_achieved',
+  'video_watched',
+  'certificate_earned'
+];
+
+// Certificates are queued by the database when one is issued, not reported by the browser
+export const CLIENT_XAPI_EVENT_TYPES = XAPI_EVENT_TYPES.filter(type => type !== 'certificate_earned');
+
+const XAPI_VERSION = '1.0.3';
+const BATCH_SIZE = 50;
+const MAX_ATTEMPTS = 10;
+const BASE_RETRY_DELAY_MS = 60 * 1000;
+const MAX_RETRY_DELAY_MS = 6 * 60 * 60 * 1000;
+const REQUEST_TIMEOUT_MS = 10 * 1000;
+const MAX_TEXT_LENGTH = 500;
+
+const VERBS = {
+  attempted: { id: 'http://adlnet.gov/expapi/verbs/attempted', display: { 'en-US': 'attempted' } },
+  completed: { id: 'http://adlnet.gov/expapi/verbs/completed', display: { 'en-US': 'completed' } },
+  answered: { id: 'http://adlnet.gov/expapi/verbs/answered', display: { 'en-US': 'answered' } },
+  achieved: { id: 'https://w3id.org/xapi/dod-isd/verbs/achieved', display: { 'en-US': 'achieved' } },
+  watched: { id: 'http://activitystrea.ms/schema/1.0/watch', display: { 'en-US': 'watched' } },
+  earned: { id: 'http://id.tincanapi.com/verb/earned', display: { 'en-US': 'earned' } }
+};
+
+const ACTIVITY_TYPES = {
+  course: 'http://adlnet.gov/expapi/activities/course',
+  module: 'http://adlnet.gov/expapi/activities/module',
+  question: 'http://adlnet.gov/expapi/activities/cmi.interaction',
+  lab: 'http://adlnet.gov/expapi/activities/simulation',
+  objective: 'http://adlnet.gov/expapi/activities/objective',
+  video: 'https://w3id.org/xapi/video/activity-type/video'
+};
+
+function appUrl() {
+  return (process.env.APP_URL || 'http://localhost:5173').replace(/\/$/, '');
+}
+
+function lrsConfig() {
+  const endpoint = (process.env.XAPI_LRS_ENDPOINT || '').trim();
+  if (!endpoint) return null;
+  return {
+    // Statements live at <endpoint>/statements, whether or not the endpoint ends in a slash
+    statementsUrl: `${endpoint.replace(/\/$/, '')}/statements`,
+    username: process.env.XAPI_LRS_USERNAME || '',
+    password: process.env.XAPI_LRS_PASSWORD || ''
+  };
+}
+
+export function isXapiConfigured() {
+  return Boolean(lrsConfig());
+}
+
+const text = value => typeof value === 'string' && value.trim() !== '' && value.length <= MAX_TEXT_LENGTH;
+const uuid = value => typeof value === 'string' && /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i.test(value);
+
+// Checks an event reported by the browser and keeps only the fields statements use.
+// Course and module titles and completion scores are not taken from the browser;
+// resolveClientEvent adds them. Returns null when something is missing or malformed.
+export function parseClientEvent(body) {
+  if (!body || typeof body !== 'object' || !CLIENT_XAPI_EVENT_TYPES.includes(body.type)) return null;
+  const { type } = body;
+
+  if (type === 'lab_objective_achieved') {
+    const { labId, labTitle, objectiveId, objective } = body;
+    return [labId, labTitle, objectiveId, objective].every(text) ? { type, payload: { labId, labTitle, objectiveId, objective } } : null;
+  }
+
+  const { courseId, moduleId } = body;
+  if (![courseId, moduleId].every(uuid)) return null;
+  const module = { courseId, moduleId };
+
+  switch (type) {
+    case 'module_started':
+    case 'module_completed':
+      return { type, payload: module };
+    case 'quiz_answered': {
+      const { questionIndex, question, response, correct } = body;
+      return Number.isInteger(questionIndex) && questionIndex >= 0 && text(question) && text(response) && typeof correct === 'boolean'
+        ? { type, payload: { ...module, questionIndex, question, response, correct } }
+        : null;
+    }
+    case 'video_watched':
+      return text(body.videoUrl) ? { type, payload: { ...module, videoUrl: body.videoUrl } } : null;
+    default:
+      return null;
+  }
+}
+
+// The payload to queue for a parsed browser event: module events get their titles from the
+// database, and a completed module the best score saved with the learner's progress.
+// Returns null for modules outside the learner's organization and modules they have not completed.
+export async function resolveClientEvent(auth, event) {
+  if (event.type === 'lab_objective_achieved') return event.payload;
+  const { courseId, moduleId } = event.payload;
+
+  const { data: module, error } = await getSupabaseAdmin()
+    .from('course_modules')
+    .select('title, course:courses!inner(title, organization_id)')
+    .eq('id', moduleId)
+    .eq('course_id', courseId)
+    .maybeSingle();
+
+  if (error) throw new Error(`Failed to load module: ${error.message}`);
+  if (!module || (!auth.superAdmin && module.course.organization_id !== auth.organizationId)) return null;
+
+  const payload = { ...event.payload, courseTitle: module.course.title, moduleTitle: module.title };
+  if (event.type !== 'module_completed') return payload;
+
+  const { data: progress, error: progressError } = await getSupabaseAdmin()
+    .from('user_progress')
+    .select('quiz_score')
+    .eq('user_id', auth.userId)
+    .eq('module_id', moduleId)
+    .eq('completed', true)
+    .order('quiz_score', { ascending: false })
+    .limit(1);
+
+  if (progressError) throw new Error(`Failed to load progress: ${progressError.message}`);
+  return progress.length ? { ...payload, score: progress[0].quiz_score ?? 0 } : null;
+}
+
+export async function queueXapiEvent(userId, type, payload) {
+  const { data, error } = await getSupabaseAdmin()
+    .from('xapi_events')
+    .insert([{ user_id: userId, event_type: type, payload }])
+    .select('id')
+    .single();
+
+  if (error) throw new Error(`Failed to queue xAPI event: ${error.message}`);
+  return data.id;
+}
+
+function activity(id, type, name) {
+  return { objectType: 'Activity', id, definition: { type, name: { 'en-US': name } } };
+}
+
+function courseActivities(payload) {
+  const base = `${appUrl()}/courses/${encodeURIComponent(payload.courseId)}`;
+  return {
+    course: activity(base, ACTIVITY_TYPES.course, payload.courseTitle),
+    module: activity(`${base}/modules/${encodeURIComponent(payload.moduleId)}`, ACTIVITY_TYPES.module, payload.moduleTitle)
+  };
+}
+
+// The xAPI statement for a queued event
+export function buildStatement(event) {
+  const { payload } = event;
+  const statement = {
+    id: event.id,
+    actor: { objectType: 'Agent', account: { homePage: appUrl(), name: event.user_id } },
+    timestamp: event.occurred_at,
+    context: { platform: 'Career Connect', language: 'en-US' }
+  };
+
+  switch (event.event_type) {
+    case 'module_started':
+    case 'module_completed': {
+      const { course, module } = courseActivities(payload);
+      const completed = event.event_type === 'module_completed';
+      return {
+        ...statement,
+        verb: completed ? VERBS.completed : VERBS.attempted,
+        object: module,
+        // Modules only complete once their test is passed
+        result: completed
+          ? { completion: true, success: true, score: { raw: payload.score, min: 0, max: 100, scaled: payload.score / 100 } }
+          : undefined,
+        context: { ...statement.context, contextActivities: { parent: [course] } }
+      };
+    }
+    case 'quiz_answered': {
+      const { course, module } = courseActivities(payload);
+      const question = activity(`${module.id}/test/questions/${payload.questionIndex + 1}`, ACTIVITY_TYPES.question, payload.question);
+      question.definition.interactionType = 'choice';
+      return {
+        ...statement,
+        verb: VERBS.answered,
+        object: question,
+        result: { success: payload.correct, response: payload.response },
+        context: { ...statement.context, contextActivities: { parent: [module], grouping: [course] } }
+      };
+    }
+    case 'lab_objective_achieved': {
+      const lab = activity(`${appUrl()}/labs/${encodeURIComponent(payload.labId)}`, ACTIVITY_TYPES.lab, payload.labTitle);
+      return {
+        ...statement,
+        verb: VERBS.achieved,
+        object: activity(`${lab.id}/objectives/${encodeURIComponent(payload.objectiveId)}`, ACTIVITY_TYPES.objective, payload.objective),
+        result: { success: true },
+        context: { ...statement.context, contextActivities: { parent: [lab] } }
+      };
+    }
+    case 'video_watched': {
+      const { course, module } = courseActivities(payload);
+      return {
+        ...statement,
+        verb: VERBS.watched,
+        object: activity(payload.videoUrl, ACTIVITY_TYPES.video, `${payload.moduleTitle} - Video Lecture`),
+        result: { completion: true },
+        context: { ...statement.context, contextActivities: { parent: [module], grouping: [course] } }
+      };
+    }
+    case 'certificate_earned':
+      return {
+        ...statement,
+        verb: VERBS.earned,
+        object: activity(
+          `${appUrl()}/certificates/${encodeURIComponent(payload.certificateId)}`,
+          `${appUrl()}/xapi/activity-types/certificate`,
+          payload.title
+        ),
+        // Course certificates are earned by completing the course
+        context: payload.courseId
+          ? { ...statement.context, contextActivities: { parent: [activity(`${appUrl()}/courses/${encodeURIComponent(payload.courseId)}`, ACTIVITY_TYPES.course, payload.title)] } }
+          : statement.context
+      };
+    default:
+      throw new Error(`Unknown xAPI event type "${event.event_type}"`);
+  }
+}
+
+// PUT with the statement id, so a statement the LRS already has is accepted again rather than duplicated
+async function sendStatement(config, statement) {
+  const response = await fetch(`${config.statementsUrl}?statementId=${encodeURIComponent(statement.id)}`, {
+    method: 'PUT',
+    headers: {
+      'Content-Type': 'application/json',
+      'X-Experience-API-Version': XAPI_VERSION,
+      ...(config.username ? { Authorization: `Basic ${Buffer.from(`${config.username}:${config.password}`).toString('base64')}` } : {})
+    },
+    body: JSON.stringify(statement),
+    signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS)
+  });
+
+  if (response.ok) return;
+  const detail = (await response.text().catch(() => '')).slice(0, MAX_TEXT_LENGTH);
+  const error = new Error(`LRS responded ${response.status}${detail ? `: ${detail}` : ''}`);
+  // Other 4xx answers mean the statement itself was refused; sending it again will not help
+  error.permanent = response.status >= 400 && response.status < 500 && ![401, 403, 408, 429].includes(response.status);
+  throw error;
+}
+
+const retryDelay = attempts => Math.min(BASE_RETRY_DELAY_MS * 2 ** (attempts - 1), MAX_RETRY_DELAY_MS);
+
+let delivering = null;
+
+// Sends the queued events that are due and returns how many the LRS accepted.
+// Overlapping calls share one run, so the timer and new events never send twice at once.
+export function deliverXapiEvents() {
+  if (!delivering) {
+    delivering = deliverDueEvents().finally(() => {
+      delivering = null;
+    });
+  }
+  return delivering;
+}
+
+async function deliverDueEvents() {
+  const config = lrsConfig();
+  if (!config) return 0;
+
+  const { data: due, error } = await getSupabaseAdmin()
+    .from('xapi_events')
+    .select('id, user_id, event_type, payload, occurred_at, attempts')
+    .eq('status', 'pending')
+    .lte('next_attempt_at', new Date().toISOString())
+    .order('next_attempt_at', { ascending: true })
+    .limit(BATCH_SIZE);
+
+  if (error) throw new Error(`Failed to load queued xAPI events: ${error.message}`);
+
+  let sent = 0;
+  for (const event of due) {
+    let update;
+    try {
+      await sendStatement(config, buildStatement(event));
+      update = { status: 'sent', sent_at: new Date().toISOString(), attempts: event.attempts + 1, last_error: null };
+      sent++;
+    } catch (err) {
+      const attempts = event.attempts + 1;
+      const giveUp = err.permanent || attempts >= MAX_ATTEMPTS;
+      update = {
+        status: giveUp ? 'failed' : 'pending',
+        attempts,
+        next_attempt_at: new Date(Date.now() + retryDelay(attempts)).toISOString(),
+        last_error: err.message
+      };
+      console.error(`xAPI event ${event.id} ${giveUp ? 'failed' : 'will be retried'}:`, err.message);
+    }
+
+    const { error: updateError } = await getSupabaseAdmin().from('xapi_events').update(update).eq('id', event.id);
+    if (updateError) console.error(`Failed to update xAPI event ${event.id}:`, updateError);
+  }
+  return sent;
+}
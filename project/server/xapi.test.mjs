@@ -0,0 +1,210 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { buildStatement, deliverXapiEvents, parseClientEvent } from './xapi.mjs';
+
+// The queued rows and the updates written back, standing in for the xapi_events table
+const table = vi.hoisted(() => ({ due: [], updates: [] }));
+
+vi.mock('./supabase.mjs', () => ({
+  getSupabaseAdmin: () => ({
+    from: () => ({
+      select: () => {
+        const query = {
+          eq: () => query,
+          lte: () => query,
+          order: () => query,
+          limit: async () => ({ data: table.due, error: null })
+        };
+        return query;
+      },
+      update: update => ({
+        eq: async (column, id) => {
+          table.updates.push({ id, ...update });
+          return { error: null };
+        }
+      })
+    })
+  })
+}));
+
+const courseId = '6f1c2a9e-3b0d-4c8e-9a51-2d7f4e8b1c30';
+const moduleId = 'a4e2d7c1-5f3b-4e09-8d6a-9c1b2e3f4a50';
+
+describe('parseClientEvent', () => {
+  it('keeps only the ids of module events', () => {
+    expect(parseClientEvent({ type: 'module_started', courseId, moduleId, courseTitle: 'Forged', extra: true })).toEqual({
+      type: 'module_started',
+      payload: { courseId, moduleId }
+    });
+  });
+
+  it('ignores a score sent with a completed module', () => {
+    expect(parseClientEvent({ type: 'module_completed', courseId, moduleId, score: 100 })).toEqual({
+      type: 'module_completed',
+      payload: { courseId, moduleId }
+    });
+  });
+
+  it('parses answered questions', () => {
+    const body = { type: 'quiz_answered', courseId, moduleId, questionIndex: 2, question: 'What is XSS?', response: 'Script injection', correct: true };
+    expect(parseClientEvent(body)).toEqual({
+      type: 'quiz_answered',
+      payload: { courseId, moduleId, questionIndex: 2, question: 'What is XSS?', response: 'Script injection', correct: true }
+    });
+    expect(parseClientEvent({ ...body, questionIndex: -1 })).toBeNull();
+    expect(parseClientEvent({ ...body, correct: 'yes' })).toBeNull();
+  });
+
+  it('parses lab objectives', () => {
+    const body = { type: 'lab_objective_achieved', labId: 'sql-injection', labTitle: 'SQL Injection', objectiveId: 'bypass-login', objective: 'Bypass the login' };
+    expect(parseClientEvent(body)).toEqual({
+      type: 'lab_objective_achieved',
+      payload: { labId: 'sql-injection', labTitle: 'SQL Injection', objectiveId: 'bypass-login', objective: 'Bypass the login' }
+    });
+    expect(parseClientEvent({ ...body, objective: 'x'.repeat(501) })).toBeNull();
+  });
+
+  it('rejects unknown types, certificates and malformed ids', () => {
+    expect(parseClientEvent(null)).toBeNull();
+    expect(parseClientEvent({ type: 'course_deleted', courseId, moduleId })).toBeNull();
+    expect(parseClientEvent({ type: 'certificate_earned', certificateId: 'c1', title: 'OWASP' })).toBeNull();
+    expect(parseClientEvent({ type: 'module_started', courseId: 'owasp-top-10', moduleId })).toBeNull();
+    expect(parseClientEvent({ type: 'video_watched', courseId, moduleId })).toBeNull();
+  });
+});
+
+describe('buildStatement', () => {
+  const base = { id: 'e0b7c1d2-0000-4000-8000-000000000001', user_id: 'user-1', occurred_at: '2026-10-19T12:00:00.000Z' };
+  const module = { courseId, courseTitle: 'OWASP Top 10', moduleId, moduleTitle: 'Injection' };
+  const courseUrl = `https://learn.example.com/courses/${courseId}`;
+  const moduleUrl = `${courseUrl}/modules/${moduleId}`;
+
+  beforeEach(() => {
+    vi.stubEnv('APP_URL', 'https://learn.example.com/');
+  });
+
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+
+  it('identifies learners by account id and uses the event id as statement id', () => {
+    const statement = buildStatement({ ...base, event_type: 'module_started', payload: module });
+
+    expect(statement).toMatchObject({
+      id: base.id,
+      actor: { objectType: 'Agent', account: { homePage: 'https://learn.example.com', name: 'user-1' } },
+      timestamp: base.occurred_at,
+      verb: { id: 'http://adlnet.gov/expapi/verbs/attempted' },
+      object: { id: moduleUrl, definition: { name: { 'en-US': 'Injection' } } },
+      context: { contextActivities: { parent: [{ id: courseUrl }] } }
+    });
+    expect(statement.result).toBeUndefined();
+  });
+
+  it('reports the score of a completed module', () => {
+    const statement = buildStatement({ ...base, event_type: 'module_completed', payload: { ...module, score: 85 } });
+
+    expect(statement.verb.id).toBe('http://adlnet.gov/expapi/verbs/completed');
+    expect(statement.result).toEqual({ completion: true, success: true, score: { raw: 85, min: 0, max: 100, scaled: 0.85 } });
+  });
+
+  it('reports answered questions as choice interactions', () => {
+    const statement = buildStatement({
+      ...base,
+      event_type: 'quiz_answered',
+      payload: { ...module, questionIndex: 0, question: 'What is XSS?', response: 'Script injection', correct: false }
+    });
+
+    expect(statement.object).toMatchObject({ id: `${moduleUrl}/test/questions/1`, definition: { interactionType: 'choice' } });
+    expect(statement.result).toEqual({ success: false, response: 'Script injection' });
+    expect(statement.context.contextActivities).toMatchObject({ parent: [{ id: moduleUrl }], grouping: [{ id: courseUrl }] });
+  });
+
+  it('links lab objectives to their lab', () => {
+    const statement = buildStatement({
+      ...base,
+      event_type: 'lab_objective_achieved',
+      payload: { labId: 'sql injection', labTitle: 'SQL Injection', objectiveId: 'bypass-login', objective: 'Bypass the login' }
+    });
+
+    expect(statement.object.id).toBe('https://learn.example.com/labs/sql%20injection/objectives/bypass-login');
+    expect(statement.context.contextActivities.parent[0].id).toBe('https://learn.example.com/labs/sql%20injection');
+  });
+
+  it('reports certificates', () => {
+    const statement = buildStatement({ ...base, event_type: 'certificate_earned', payload: { certificateId: 'CERT-1', title: 'OWASP Top 10' } });
+
+    expect(statement.verb.id).toBe('http://id.tincanapi.com/verb/earned');
+    expect(statement.object.id).toBe('https://learn.example.com/certificates/CERT-1');
+    expect(statement.context.contextActivities).toBeUndefined();
+  });
+
+  it('links course certificates to their course', () => {
+    const statement = buildStatement({
+      ...base,
+      event_type: 'certificate_earned',
+      payload: { certificateId: courseId, title: 'OWASP Top 10', courseId }
+    });
+
+    expect(statement.object.id).toBe(`https://learn.example.com/certificates/${courseId}`);
+    expect(statement.context.contextActivities.parent).toMatchObject([{ id: courseUrl }]);
+  });
+
+  it('refuses unknown event types', () => {
+    expect(() => buildStatement({ ...base, event_type: 'module_deleted', payload: {} })).toThrow(/Unknown xAPI event type/);
+  });
+});
+
+describe('deliverXapiEvents', () => {
+  const fetchMock = vi.fn();
+
+  beforeEach(() => {
+    vi.stubEnv('APP_URL', 'https://learn.example.com');
+    vi.stubEnv('XAPI_LRS_ENDPOINT', 'https://lrs.example.com/xapi/');
+    vi.stubGlobal('fetch', fetchMock);
+    table.due = [];
+    table.updates = [];
+  });
+
+  afterEach(() => {
+    vi.unstubAllEnvs();
+    vi.unstubAllGlobals();
+    vi.restoreAllMocks();
+    fetchMock.mockReset();
+  });
+
+  it('sends the statement queued when a course certificate is awarded', async () => {
+    // The row queue_certificate_xapi_event inserts for a user_certificates row
+    table.due = [{
+      id: 'e0b7c1d2-0000-4000-8000-000000000002',
+      user_id: 'user-1',
+      event_type: 'certificate_earned',
+      payload: { certificateId: courseId, title: 'OWASP Top 10', courseId },
+      occurred_at: '2026-10-19T12:00:00.000Z',
+      attempts: 0
+    }];
+    fetchMock.mockResolvedValue(new Response(null, { status: 204 }));
+
+    await expect(deliverXapiEvents()).resolves.toBe(1);
+
+    expect(fetchMock).toHaveBeenCalledOnce();
+    const [url, init] = fetchMock.mock.calls[0];
+    expect(url).toBe('https://lrs.example.com/xapi/statements?statementId=e0b7c1d2-0000-4000-8000-000000000002');
+    expect(init.method).toBe('PUT');
+    expect(JSON.parse(init.body)).toMatchObject({
+      id: 'e0b7c1d2-0000-4000-8000-000000000002',
+      verb: { id: 'http://id.tincanapi.com/verb/earned' },
+      object: { id: `https://learn.example.com/certificates/${courseId}` },
+      context: { contextActivities: { parent: [{ id: `https://learn.example.com/courses/${courseId}` }] } }
+    });
+    expect(table.updates).toMatchObject([{ id: 'e0b7c1d2-0000-4000-8000-000000000002', status: 'sent', attempts: 1 }]);
+  });
+
+  it('keeps the event queued when the LRS is unavailable', async () => {
+    table.due = [{ id: 'e3', user_id: 'user-1', event_type: 'certificate_earned', payload: { certificateId: courseId, title: 'OWASP Top 10' }, occurred_at: '2026-10-19T12:00:00.000Z', attempts: 0 }];
+    fetchMock.mockResolvedValue(new Response('down', { status: 503 }));
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+
+    await expect(deliverXapiEvents()).resolves.toBe(0);
+    expect(table.updates).toMatchObject([{ id: 'e3', status: 'pending', attempts: 1, last_error: 'LRS responded 503: down' }]);
+  });
+});
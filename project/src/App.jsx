@@ -1,112 +1,138 @@
-import React, { useState } from 'react';
+import React, { useState, useEffect } from 'react';
+import { BrowserRouter } from 'react-router-dom';
 import { AuthProvider, useAuth } from './context/AuthContext.jsx';
 import { ThemeProvider } from './context/ThemeContext.jsx';
+import { I18nProvider } from './context/I18nContext';
 import { Header } from './components/Layout/Header';
 import { Sidebar } from './components/Layout/Sidebar';
+import { AppRoutes } from './components/Layout/AppRoutes';
+import { CommandPalette } from './components/Layout/CommandPalette';
+import { OfflineIndicator } from './components/Layout/OfflineIndicator';
 import { LoginForm } from './components/Auth/LoginForm';
 import { RegisterForm } from './components/Auth/RegisterForm';
-import { Dashboard } from './components/Dashboard/Dashboard';
-import { AdminDashboard } from './components/Admin/AdminDashboard';
-import { TeacherDashboard } from './components/Teacher/TeacherDashboard';
-import { AssessmentTest } from './components/Assessment/AssessmentTest';
-import { CourseList } from './components/Courses/CourseList';
-import { CourseDetail } from './components/Courses/CourseDetail';
-import { AssessmentAnalytics } from './components/Admin/AssessmentAnalytics';
-import { LabsList } from './components/Labs/LabsList';
-import { LabViewer } from './components/Labs/LabViewer';
-import { Certificates } from './components/Certificates/Certificates';
-import { Profile } from './components/Profile/Profile';
+import { ForgotPasswordForm } from './components/Auth/ForgotPasswordForm';
+import { ResetPasswordForm } from './components/Auth/ResetPasswordForm';
+import { EmailVerificationNotice } from './components/Auth/EmailVerificationNotice';
 import { Chatbot } from './components/Chatbot/Chatbot';
-import { VideoLibrary } from './components/Video/VideoLibrary';
-import { TechnicalQuestions } from './components/TechnicalInterview/TechnicalQuestions';
-import { NotesTab } from './components/Notes/NotesTab';
+import { authService } from './services/authService';
 
 const AppContent = () => {
-  const { user, isAdmin, isTeacher } = useAuth();
-  const [activeTab, setActiveTab] = useState('dashboard');
-  const [selectedCourseId, setSelectedCourseId] = useState(null);
-  const [selectedLabId, setSelectedLabId] = useState(null);
+  const { user, loading } = useAuth();
   const [isChatOpen, setIsChatOpen] = useState(false);
-  const [isLoginMode, setIsLoginMode] = useState(true);
+  const [isPaletteOpen, setIsPaletteOpen] = useState(false);
+  const [authView, setAuthView] = useState('login');
+  const [resetToken, setResetToken] = useState('');
+  const [authNotice, setAuthNotice] = useState('');
+  const [ssoError, setSsoError] = useState('');
+  // Second factor still owed after single sign-on; LoginForm asks for it
+  const [ssoMfaStep, setSsoMfaStep] = useState(null);
 
-  if (!user) {
-    return isLoginMode ? (
-      <LoginForm onToggleMode={() => setIsLoginMode(false)} />
-    ) : (
-      <RegisterForm onToggleMode={() => setIsLoginMode(true)} />
-    );
-  }
+  // Handle links from password reset, verification and email change emails, and returns from single sign-on
+  useEffect(() => {
+    const params = new URLSearchParams(window.location.search);
+    const resetPasswordToken = params.get('reset_password');
+    const verifyEmailToken = params.get('verify_email');
+    const confirmEmailToken = params.get('confirm_email');
+    const ssoLoginToken = params.get('sso_login');
+    const ssoLoginError = params.get('sso_error');
+    if (!resetPasswordToken && !verifyEmailToken && !confirmEmailToken && !ssoLoginToken && !ssoLoginError) return;
 
-  const renderContent = () => {
-    if (activeTab === 'courses' && selectedCourseId) {
-      return (
-        <CourseDetail
-          courseId={selectedCourseId}
-          onBack={() => setSelectedCourseId(null)}
-        />
-      );
+    window.history.replaceState(null, '', window.location.pathname);
+    if (resetPasswordToken) {
+      setResetToken(resetPasswordToken);
+      setAuthView('reset');
     }
-
-    if (activeTab === 'labs' && selectedLabId) {
-      return (
-        <LabViewer
-          labId={selectedLabId}
-          onBack={() => setSelectedLabId(null)}
-        />
-      );
+    if (verifyEmailToken) {
+      authService
+        .verifyEmail(verifyEmailToken)
+        .then(setAuthNotice)
+        .catch(error => setAuthNotice(error instanceof Error ? error.message : 'Email verification failed'));
     }
+    if (confirmEmailToken) {
+      authService
+        .confirmEmailChange(confirmEmailToken)
+        .then(setAuthNotice)
+        .catch(error => setAuthNotice(error instanceof Error ? error.message : 'Email change failed'));
+    }
+    if (ssoLoginError) {
+      setSsoError(ssoLoginError);
+    }
+    if (ssoLoginToken) {
+      // The session listener in AuthProvider picks up the signed-in user
+      authService
+        .completeSsoLogin(ssoLoginToken)
+        .then(result => {
+          if (result.status !== 'authenticated') setSsoMfaStep(result);
+        })
+        .catch(error => setSsoError(error instanceof Error ? error.message : 'Single sign-on failed'));
+    }
+  }, []);
 
-    switch (activeTab) {
-      case 'analytics':
-        return isAdmin() ? <AssessmentAnalytics /> : <Dashboard />;
-      case 'my-courses':
-      case 'create-course':
-      case 'students':
-        return isTeacher() ? <TeacherDashboard /> : <Dashboard />;
-      case 'dashboard':
-        return <Dashboard />;
-      case 'assessment':
-        return isAdmin() ? <AssessmentAnalytics /> : <AssessmentTest />;
-      case 'courses':
-        return <CourseList onCourseSelect={setSelectedCourseId} />;
-      case 'videos':
-        return <VideoLibrary />;
-      case 'labs':
-        return <LabsList onLabSelect={setSelectedLabId} />;
-      case 'technical':
-        return <TechnicalQuestions />;
-      case 'certificates':
-        return <Certificates />;
-      case 'notes':
-        return <NotesTab />;
-      case 'profile':
-        return <Profile />;
-      default:
-        return <Dashboard />;
+  if (loading) {
+    return (
+      <div className="min-h-screen bg-gradient-to-br from-slate-900 via-purple-900 to-slate-900 flex items-center justify-center">
+        <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-orange-500"></div>
+      </div>
+    );
+  }
+
+  if (authView === 'reset' && resetToken) {
+    return (
+      <ResetPasswordForm
+        token={resetToken}
+        onDone={() => {
+          setResetToken('');
+          setAuthView('login');
+        }}
+      />
+    );
+  }
+
+  if (!user) {
+    if (authView === 'forgot') {
+      return <ForgotPasswordForm onBack={() => setAuthView('login')} />;
     }
-  };
+    return authView === 'register' ? (
+      <RegisterForm onToggleMode={() => setAuthView('login')} />
+    ) : (
+      <LoginForm
+        onToggleMode={() => setAuthView('register')}
+        onForgotPassword={() => setAuthView('forgot')}
+        notice={authNotice}
+        ssoError={ssoError}
+        pendingMfaStep={ssoMfaStep}
+      />
+    );
+  }
 
   return (
     <div className="min-h-screen bg-gradient-to-br from-slate-900 via-purple-900 to-slate-900">
-      <Header onChatToggle={() => setIsChatOpen(!isChatOpen)} />
+      <Header onChatToggle={() => setIsChatOpen(!isChatOpen)} onSearchOpen={() => setIsPaletteOpen(true)} />
       <div className="flex">
-        <Sidebar activeTab={activeTab} onTabChange={setActiveTab} />
+        <Sidebar />
         <main className="flex-1">
-          {renderContent()}
+          <OfflineIndicator />
+          {user.email_verified === false && <EmailVerificationNotice email={user.email} />}
+          <AppRoutes />
         </main>
       </div>
       <Chatbot isOpen={isChatOpen} onClose={() => setIsChatOpen(false)} />
+      <CommandPalette isOpen={isPaletteOpen} onOpenChange={setIsPaletteOpen} onOpenChat={() => setIsChatOpen(true)} />
     </div>
   );
 };
 
 function App() {
   return (
-    <ThemeProvider>
-      <AuthProvider>
-        <AppContent />
-      </AuthProvider>
-    </ThemeProvider>
+    <BrowserRouter>
+      <ThemeProvider>
+        <I18nProvider>
+          <AuthProvider>
+            <AppContent />
+          </AuthProvider>
+        </I18nProvider>
+      </ThemeProvider>
+    </BrowserRouter>
   );
 }
 
@@ -1,11 +1,21 @@
 import React, { useState, useEffect } from 'react';
-import { Users, BookOpen, BarChart3, Eye, Crown, GraduationCap, TrendingUp } from 'lucide-react';
+import { Users, BookOpen, BarChart3, Eye, Crown, GraduationCap, TrendingUp, Mail, KeyRound, ShieldAlert, Building, LogIn, ScrollText } from 'lucide-react';
 import { adminService } from '../../services/adminService';
+import { accessibilityService, EXTRA_TIME_OPTIONS } from '../../services/accessibilityService';
 import { supabase } from '../../lib/supabase';
-import type { User } from '../../types';
+import { InviteManager } from './InviteManager';
+import { AuthEventLog } from './AuthEventLog';
+import { AuditLog } from './AuditLog';
+import { OrganizationManager } from './OrganizationManager';
+import { SsoSettings } from './SsoSettings';
+import { CoursePackageImport } from './CoursePackageImport';
+import { RequirePermission } from '../Auth/RequirePermission';
+import { useAuth } from '../../context/AuthContext';
+import { usePermission } from '../../hooks/usePermission';
+import type { User, Organization, Cohort, ExtraTimePercent } from '../../types';
 
 type Role = 'student' | 'teacher' | 'admin';
-type View = 'overview' | 'users' | 'courses' | 'analytics';
+type View = 'overview' | 'users' | 'courses' | 'analytics' | 'invites' | 'security' | 'organizations' | 'sso' | 'audit';
 
 interface DashboardStats {
   users: { teachers: number; students: number; total: number };
@@ -29,10 +39,22 @@ export const AdminDashboard = () => {
   const [courses, setCourses] = useState<CourseItem[]>([]);
   const [stats, setStats] = useState<DashboardStats | null>(null);
   const [loading, setLoading] = useState(true);
+  const [organizations, setOrganizations] = useState<Organization[]>([]);
+  const [cohorts, setCohorts] = useState<Cohort[]>([]);
+  // Extended quiz time per user id; users without an accommodation are missing
+  const [extraTime, setExtraTime] = useState<Record<string, ExtraTimePercent>>({});
+  // Super-admins can narrow the dashboard to one organization ('' = all of them)
+  const [selectedOrganizationId, setSelectedOrganizationId] = useState('');
+  const { user: currentUser } = useAuth();
+  const can = usePermission();
+  const isSuperAdmin = can('organizations:manage');
+  // Org admins are always scoped to their own organization
+  const organizationScope = isSuperAdmin ? selectedOrganizationId || undefined : currentUser?.organization_id;
 
   useEffect(() => {
     loadDashboardData();
-  }, []);
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [organizationScope]);
 
   useEffect(() => {
     // Realtime updates for users, courses, and enrollments
@@ -52,21 +74,31 @@ export const AdminDashboard = () => {
     return () => {
       supabase.removeChannel(channel);
     };
-  }, []);
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [organizationScope]);
 
   const loadDashboardData = async (): Promise<void> => {
     try {
       setLoading(true);
-      const [usersData, coursesData, statsData] = await Promise.all<[
+      const [usersData, coursesData, statsData, organizationsData, cohortsData, extraTimeData] = await Promise.all<[
         ReturnType<typeof adminService.getAllUsers>,
         ReturnType<typeof adminService.getAllCourses>,
-        ReturnType<typeof adminService.getDashboardStats>
+        ReturnType<typeof adminService.getDashboardStats>,
+        ReturnType<typeof adminService.getOrganizations>,
+        ReturnType<typeof adminService.getCohorts>,
+        ReturnType<typeof accessibilityService.getExtraTimeByUser>
       ]>([
-        adminService.getAllUsers(),
-        adminService.getAllCourses(),
-        adminService.getDashboardStats()
+        adminService.getAllUsers(organizationScope),
+        adminService.getAllCourses(organizationScope),
+        adminService.getDashboardStats(organizationScope),
+        adminService.getOrganizations(),
+        adminService.getCohorts(organizationScope),
+        accessibilityService.getExtraTimeByUser()
       ]);
       
+      setOrganizations(organizationsData);
+      setCohorts(cohortsData);
+      setExtraTime(extraTimeData);
       setUsers(usersData as unknown as (User & { role?: Role; created_at?: string | Date; level?: 'beginner' | 'intermediate' | 'advanced' })[]);
       setCourses(coursesData as unknown as CourseItem[]);
       setStats(statsData as unknown as DashboardStats);
@@ -86,6 +118,42 @@ export const AdminDashboard = () => {
     }
   };
 
+  const handleCohortChange = async (userId: string, cohortId: string) => {
+    try {
+      await adminService.assignUserCohort(userId, cohortId || null);
+      setUsers(users.map(u => (u.id === userId ? { ...u, cohort_id: cohortId || null } : u)));
+    } catch (error) {
+      console.error('Failed to assign cohort:', error);
+    }
+  };
+
+  const handleExtraTimeChange = async (userId: string, percent: ExtraTimePercent) => {
+    try {
+      await accessibilityService.setExtraTime(userId, percent);
+      setExtraTime(current => ({ ...current, [userId]: percent }));
+    } catch (error) {
+      console.error('Failed to update extra time:', error);
+    }
+  };
+
+  const handleOrganizationChange = async (userId: string, organizationId: string) => {
+    try {
+      await adminService.moveUserToOrganization(userId, organizationId);
+      setUsers(users.map(u => (u.id === userId ? { ...u, organization_id: organizationId, cohort_id: null } : u)));
+    } catch (error) {
+      console.error('Failed to move user:', error);
+    }
+  };
+
+  const handleResetMfa = async (userId: string, name: string) => {
+    if (!window.confirm(`Reset two-factor authentication for ${name}? They will be signed out and asked to set it up again.`)) return;
+    try {
+      await adminService.resetUserMfa(userId);
+    } catch (error) {
+      console.error('Failed to reset 2FA:', error);
+    }
+  };
+
   const handleCourseStatusToggle = async (courseId: string, isPublished: boolean) => {
     try {
       await adminService.updateCourseStatus(courseId, isPublished);
@@ -112,15 +180,36 @@ export const AdminDashboard = () => {
             Admin Dashboard
           </h1>
           <p className="text-slate-300">Manage users, courses, and platform analytics</p>
+          {isSuperAdmin && (
+            <div className="mt-4 flex items-center space-x-3">
+              <Building className="h-5 w-5 text-slate-400" />
+              <select
+                aria-label="Organization"
+                value={selectedOrganizationId}
+                onChange={(e) => setSelectedOrganizationId(e.target.value)}
+                className="bg-slate-700 text-white rounded-lg px-3 py-2 text-sm border border-slate-600"
+              >
+                <option value="">All organizations</option>
+                {organizations.map(organization => (
+                  <option key={organization.id} value={organization.id}>{organization.name}</option>
+                ))}
+              </select>
+            </div>
+          )}
         </div>
 
         {/* Navigation Tabs */}
-        <div className="flex space-x-1 mb-8 bg-slate-800/50 p-1 rounded-2xl backdrop-blur-sm border border-slate-700">
+        <div className="flex space-x-1 mb-8 bg-slate-800/50 p-1 rounded-2xl backdrop-blur-sm border border-slate-700 overflow-x-auto">
           {([
             { id: 'overview', label: 'Overview', icon: BarChart3 },
             { id: 'users', label: 'Users', icon: Users },
             { id: 'courses', label: 'Courses', icon: BookOpen },
-            { id: 'analytics', label: 'Analytics', icon: TrendingUp }
+            { id: 'analytics', label: 'Analytics', icon: TrendingUp },
+            { id: 'invites', label: 'Invites', icon: Mail },
+            { id: 'security', label: 'Sign-in Activity', icon: ShieldAlert },
+            { id: 'organizations', label: isSuperAdmin ? 'Organizations' : 'Cohorts', icon: Building },
+            { id: 'sso', label: 'Single Sign-On', icon: LogIn },
+            { id: 'audit', label: 'Audit Log', icon: ScrollText }
           ] as { id: View; label: string; icon: React.ComponentType<{ className?: string }> }[]).map((tab) => {
             const Icon = tab.icon;
             return (
@@ -225,6 +314,9 @@ export const AdminDashboard = () => {
                   <tr className="border-b border-slate-700">
                     <th className="text-left py-3 px-4 text-slate-300 font-medium">User</th>
                     <th className="text-left py-3 px-4 text-slate-300 font-medium">Role</th>
+                    {isSuperAdmin && <th className="text-left py-3 px-4 text-slate-300 font-medium">Organization</th>}
+                    <th className="text-left py-3 px-4 text-slate-300 font-medium">Cohort</th>
+                    <th className="text-left py-3 px-4 text-slate-300 font-medium">Extra time</th>
                     <th className="text-left py-3 px-4 text-slate-300 font-medium">Level</th>
                     <th className="text-left py-3 px-4 text-slate-300 font-medium">Joined</th>
                     <th className="text-left py-3 px-4 text-slate-300 font-medium">Actions</th>
@@ -259,6 +351,45 @@ export const AdminDashboard = () => {
                           <option value="admin">Admin</option>
                         </select>
                       </td>
+                      {isSuperAdmin && (
+                        <td className="py-4 px-4">
+                          <select
+                            aria-label={`Organization for ${user.name}`}
+                            value={user.organization_id}
+                            onChange={(e) => handleOrganizationChange(user.id, e.target.value)}
+                            className="bg-slate-700 text-white rounded-lg px-3 py-1 text-sm border border-slate-600"
+                          >
+                            {organizations.map(organization => (
+                              <option key={organization.id} value={organization.id}>{organization.name}</option>
+                            ))}
+                          </select>
+                        </td>
+                      )}
+                      <td className="py-4 px-4">
+                        <select
+                          aria-label={`Cohort for ${user.name}`}
+                          value={user.cohort_id ?? ''}
+                          onChange={(e) => handleCohortChange(user.id, e.target.value)}
+                          className="bg-slate-700 text-white rounded-lg px-3 py-1 text-sm border border-slate-600"
+                        >
+                          <option value="">No cohort</option>
+                          {cohorts.filter(c => c.organization_id === user.organization_id).map(cohort => (
+                            <option key={cohort.id} value={cohort.id}>{cohort.name}</option>
+                          ))}
+                        </select>
+                      </td>
+                      <td className="py-4 px-4">
+                        <select
+                          aria-label={`Extra quiz time for ${user.name}`}
+                          value={extraTime[user.id] ?? 0}
+                          onChange={(e) => handleExtraTimeChange(user.id, Number(e.target.value) as ExtraTimePercent)}
+                          className="bg-slate-700 text-white rounded-lg px-3 py-1 text-sm border border-slate-600"
+                        >
+                          {EXTRA_TIME_OPTIONS.map(percent => (
+                            <option key={percent} value={percent}>{percent === 0 ? 'None' : `+${percent}%`}</option>
+                          ))}
+                        </select>
+                      </td>
                       <td className="py-4 px-4">
                         <span className={`px-2 py-1 rounded-full text-xs font-medium ${
                           user.level === 'advanced' ? 'bg-red-500/20 text-red-400' :
@@ -272,9 +403,19 @@ export const AdminDashboard = () => {
                         {new Date(user.created_at ?? Date.now()).toLocaleDateString()}
                       </td>
                       <td className="py-4 px-4">
-                        <button className="text-blue-400 hover:text-blue-300 transition-colors">
-                          <Eye className="h-4 w-4" />
-                        </button>
+                        <div className="flex items-center space-x-3">
+                          <button className="text-blue-400 hover:text-blue-300 transition-colors">
+                            <Eye className="h-4 w-4" />
+                          </button>
+                          <button
+                            onClick={() => handleResetMfa(user.id, user.name)}
+                            title="Reset 2FA"
+                            aria-label={`Reset 2FA for ${user.name}`}
+                            className="text-orange-400 hover:text-orange-300 transition-colors"
+                          >
+                            <KeyRound className="h-4 w-4" />
+                          </button>
+                        </div>
                       </td>
                     </tr>
                   ))}
@@ -286,6 +427,8 @@ export const AdminDashboard = () => {
 
         {/* Courses Management */}
         {activeView === 'courses' && (
+          <>
+          <CoursePackageImport organizationId={organizationScope} onImported={() => loadDashboardData()} />
           <div className="bg-slate-800/50 backdrop-blur-sm border border-slate-700 rounded-2xl p-6">
             <h2 className="text-2xl font-bold text-white mb-6">Course Management</h2>
             <div className="grid gap-6">
@@ -312,24 +455,46 @@ export const AdminDashboard = () => {
                       </div>
                     </div>
                     <div className="flex items-center space-x-3">
-                      <button
-                        onClick={() => handleCourseStatusToggle(course.id, !course.is_published)}
-                        className={`px-4 py-2 rounded-lg text-sm font-medium transition-colors ${
-                          course.is_published
-                            ? 'bg-green-500/20 text-green-400 hover:bg-green-500/30'
-                            : 'bg-yellow-500/20 text-yellow-400 hover:bg-yellow-500/30'
-                        }`}
-                      >
-                        {course.is_published ? 'Published' : 'Draft'}
-                      </button>
+                      <RequirePermission permission="course:publish" fallback={null}>
+                        <button
+                          onClick={() => handleCourseStatusToggle(course.id, !course.is_published)}
+                          className={`px-4 py-2 rounded-lg text-sm font-medium transition-colors ${
+                            course.is_published
+                              ? 'bg-green-500/20 text-green-400 hover:bg-green-500/30'
+                              : 'bg-yellow-500/20 text-yellow-400 hover:bg-yellow-500/30'
+                          }`}
+                        >
+                          {course.is_published ? 'Published' : 'Draft'}
+                        </button>
+                      </RequirePermission>
                     </div>
                   </div>
                 </div>
               ))}
             </div>
           </div>
+          </>
         )}
 
+        {/* Staff Invites */}
+        {activeView === 'invites' && <InviteManager organizationId={organizationScope} />}
+
+        {activeView === 'security' && <AuthEventLog organizationId={organizationScope} />}
+
+        {activeView === 'audit' && <AuditLog organizationId={organizationScope} />}
+
+        {activeView === 'organizations' && (
+          <OrganizationManager
+            organizations={organizations}
+            cohorts={cohorts}
+            organizationId={organizationScope}
+            onOrganizationsChange={setOrganizations}
+            onCohortsChange={setCohorts}
+          />
+        )}
+
+        {activeView === 'sso' && <SsoSettings organizations={organizations} organizationId={organizationScope} />}
+
         {/* Analytics */}
         {activeView === 'analytics' && (
           <div className="space-y-8">
@@ -0,0 +1,225 @@
+import React, { useState, useEffect } from 'react';
+import { ScrollText, RefreshCw, Search, Download } from 'lucide-react';
+import { adminService } from '../../services/adminService';
+import { toCsv, downloadCsv, type CsvColumn } from '../../lib/csv';
+import type { AuditAction, AuditEvent } from '../../types';
+
+const actionLabels: Record<AuditAction, string> = {
+  'user.role_changed': 'Role changed',
+  'user.organization_changed': 'Moved organization',
+  'user.cohort_changed': 'Cohort changed',
+  'user.super_admin_changed': 'Super-admin changed',
+  'user.deleted': 'User deleted',
+  'user.mfa_reset': '2FA reset',
+  'course.created': 'Course created',
+  'course.published': 'Course published',
+  'course.unpublished': 'Course unpublished',
+  'course.deleted': 'Course deleted',
+  'organization.created': 'Organization created',
+  'organization.deleted': 'Organization deleted',
+  'cohort.created': 'Cohort created',
+  'cohort.deleted': 'Cohort deleted',
+  'invite.created': 'Invite created',
+  'invite.revoked': 'Invite revoked',
+  'sso.updated': 'SSO settings changed'
+};
+
+const actionStyle = (action: AuditAction) =>
+  action.endsWith('deleted') || action.endsWith('revoked') || action === 'user.mfa_reset'
+    ? 'bg-red-500/20 text-red-400'
+    : action.endsWith('created') || action === 'course.published'
+      ? 'bg-green-500/20 text-green-400'
+      : 'bg-blue-500/20 text-blue-400';
+
+const formatValue = (value: unknown) =>
+  value === null || value === undefined ? '—' : typeof value === 'object' ? JSON.stringify(value) : String(value);
+
+// "role: student → teacher" for each field that changed; deletions and creations keep a full snapshot
+const describeChanges = (event: AuditEvent) => {
+  if (!event.before) return event.after ? 'Snapshot of new record' : '';
+  if (!event.after) return 'Snapshot of deleted record';
+  return Object.keys({ ...event.before, ...event.after })
+    .filter(key => JSON.stringify(event.before?.[key]) !== JSON.stringify(event.after?.[key]))
+    .map(key => `${key}: ${formatValue(event.before?.[key])} → ${formatValue(event.after?.[key])}`)
+    .join('; ');
+};
+
+const csvColumns: CsvColumn<AuditEvent>[] = [
+  { header: 'Time', value: event => event.created_at },
+  { header: 'Actor', value: event => event.actor_email ?? event.actor_id ?? 'system' },
+  { header: 'Action', value: event => event.action },
+  { header: 'Target type', value: event => event.target_type },
+  { header: 'Target ID', value: event => event.target_id },
+  { header: 'Target', value: event => event.target_label },
+  { header: 'Before', value: event => event.before },
+  { header: 'After', value: event => event.after }
+];
+
+interface AuditLogProps {
+  organizationId?: string;
+}
+
+export const AuditLog: React.FC<AuditLogProps> = ({ organizationId }) => {
+  const [events, setEvents] = useState<AuditEvent[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [action, setAction] = useState<AuditAction | ''>('');
+  const [search, setSearch] = useState('');
+  const [from, setFrom] = useState('');
+  const [to, setTo] = useState('');
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    loadEvents();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [action, from, to, organizationId]);
+
+  const loadEvents = async () => {
+    try {
+      setLoading(true);
+      setError('');
+      setEvents(
+        await adminService.getAuditEvents({
+          action: action || undefined,
+          search: search.trim() || undefined,
+          from: from || undefined,
+          to: to || undefined,
+          organizationId
+        })
+      );
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load audit log');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleSearch = (e: React.FormEvent) => {
+    e.preventDefault();
+    loadEvents();
+  };
+
+  const handleExport = () => {
+    downloadCsv(`audit-log-${new Date().toISOString().slice(0, 10)}.csv`, toCsv(events, csvColumns));
+  };
+
+  return (
+    <div className="bg-slate-800/50 backdrop-blur-sm border border-slate-700 rounded-2xl p-6">
+      <div className="flex flex-col xl:flex-row xl:items-center xl:justify-between gap-4 mb-6">
+        <div>
+          <h2 className="text-2xl font-bold text-white">Audit Log</h2>
+          <p className="text-slate-400 text-sm">Every change made by administrators, with before and after values</p>
+        </div>
+        <form onSubmit={handleSearch} className="flex flex-wrap items-center gap-3">
+          <select
+            aria-label="Action"
+            value={action}
+            onChange={(e) => setAction(e.target.value as AuditAction | '')}
+            className="bg-slate-700 text-white rounded-lg px-3 py-2 text-sm border border-slate-600"
+          >
+            <option value="">All actions</option>
+            {(Object.keys(actionLabels) as AuditAction[]).map(actionType => (
+              <option key={actionType} value={actionType}>{actionLabels[actionType]}</option>
+            ))}
+          </select>
+          <input
+            type="date"
+            aria-label="From date"
+            value={from}
+            onChange={(e) => setFrom(e.target.value)}
+            className="bg-slate-700 text-white rounded-lg px-3 py-2 text-sm border border-slate-600"
+          />
+          <input
+            type="date"
+            aria-label="To date"
+            value={to}
+            onChange={(e) => setTo(e.target.value)}
+            className="bg-slate-700 text-white rounded-lg px-3 py-2 text-sm border border-slate-600"
+          />
+          <div className="relative">
+            <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-slate-400" />
+            <input
+              type="search"
+              aria-label="Search actor or target"
+              value={search}
+              onChange={(e) => setSearch(e.target.value)}
+              placeholder="Actor or target"
+              className="pl-9 pr-3 py-2 bg-slate-700 border border-slate-600 rounded-lg text-white text-sm placeholder-slate-400"
+            />
+          </div>
+          <button
+            type="submit"
+            aria-label="Refresh"
+            className="p-2 bg-slate-700 hover:bg-slate-600 text-white rounded-lg transition-colors"
+          >
+            <RefreshCw className="h-4 w-4" />
+          </button>
+          <button
+            type="button"
+            onClick={handleExport}
+            disabled={events.length === 0}
+            className="flex items-center space-x-2 px-3 py-2 bg-gradient-to-r from-orange-500 to-red-500 hover:from-orange-600 hover:to-red-600 text-white text-sm font-medium rounded-lg transition-all duration-200 disabled:opacity-50"
+          >
+            <Download className="h-4 w-4" />
+            <span>Export CSV</span>
+          </button>
+        </form>
+      </div>
+
+      {error && (
+        <div className="bg-red-500/20 border border-red-500/50 rounded-xl p-4 mb-6">
+          <p className="text-red-200 text-sm">{error}</p>
+        </div>
+      )}
+
+      {loading ? (
+        <div className="flex justify-center py-8">
+          <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-orange-500"></div>
+        </div>
+      ) : events.length === 0 ? (
+        <div className="text-center py-8 text-slate-400">
+          <ScrollText className="h-10 w-10 mx-auto mb-3 opacity-50" />
+          <p>No audit events match these filters</p>
+        </div>
+      ) : (
+        <div className="overflow-x-auto">
+          <table className="w-full">
+            <thead>
+              <tr className="border-b border-slate-700">
+                <th className="text-left py-3 px-4 text-slate-300 font-medium">Time</th>
+                <th className="text-left py-3 px-4 text-slate-300 font-medium">Actor</th>
+                <th className="text-left py-3 px-4 text-slate-300 font-medium">Action</th>
+                <th className="text-left py-3 px-4 text-slate-300 font-medium">Target</th>
+                <th className="text-left py-3 px-4 text-slate-300 font-medium">Changes</th>
+              </tr>
+            </thead>
+            <tbody>
+              {events.map((event) => (
+                <tr key={event.id} className="border-b border-slate-700/50 hover:bg-slate-700/20 align-top">
+                  <td className="py-3 px-4 text-slate-300 text-sm whitespace-nowrap">
+                    {new Date(event.created_at).toLocaleString()}
+                  </td>
+                  <td className="py-3 px-4 text-white text-sm">{event.actor_email ?? 'System'}</td>
+                  <td className="py-3 px-4">
+                    <span className={`px-2 py-1 rounded-full text-xs font-medium whitespace-nowrap ${actionStyle(event.action)}`}>
+                      {actionLabels[event.action] ?? event.action}
+                    </span>
+                  </td>
+                  <td className="py-3 px-4 text-sm">
+                    <div className="text-white">{event.target_label ?? event.target_id ?? '—'}</div>
+                    <div className="text-slate-500 text-xs">{event.target_type}</div>
+                  </td>
+                  <td
+                    className="py-3 px-4 text-slate-400 text-sm max-w-md break-words"
+                    title={JSON.stringify({ before: event.before, after: event.after }, null, 2)}
+                  >
+                    {describeChanges(event)}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,144 @@
+import React, { useState, useEffect } from 'react';
+import { ShieldAlert, RefreshCw, Search } from 'lucide-react';
+import { adminService } from '../../services/adminService';
+import type { AuthEvent } from '../../types';
+
+const eventLabels: Record<AuthEvent['event_type'], string> = {
+  login_succeeded: 'Signed in',
+  login_failed: 'Failed sign-in',
+  login_blocked: 'Blocked (backoff)',
+  account_locked: 'Account locked',
+  mfa_failed: 'Failed 2FA code'
+};
+
+const eventStyles: Record<AuthEvent['event_type'], string> = {
+  login_succeeded: 'bg-green-500/20 text-green-400',
+  login_failed: 'bg-yellow-500/20 text-yellow-400',
+  login_blocked: 'bg-orange-500/20 text-orange-400',
+  account_locked: 'bg-red-500/20 text-red-400',
+  mfa_failed: 'bg-yellow-500/20 text-yellow-400'
+};
+
+interface AuthEventLogProps {
+  organizationId?: string;
+}
+
+export const AuthEventLog: React.FC<AuthEventLogProps> = ({ organizationId }) => {
+  const [events, setEvents] = useState<AuthEvent[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [type, setType] = useState<AuthEvent['event_type'] | ''>('');
+  const [email, setEmail] = useState('');
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    loadEvents();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [type, organizationId]);
+
+  const loadEvents = async () => {
+    try {
+      setLoading(true);
+      setError('');
+      setEvents(await adminService.getAuthEvents({ type: type || undefined, email: email.trim() || undefined, organizationId }));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load sign-in activity');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleSearch = (e: React.FormEvent) => {
+    e.preventDefault();
+    loadEvents();
+  };
+
+  return (
+    <div className="bg-slate-800/50 backdrop-blur-sm border border-slate-700 rounded-2xl p-6">
+      <div className="flex flex-col md:flex-row md:items-center md:justify-between gap-4 mb-6">
+        <div>
+          <h2 className="text-2xl font-bold text-white">Sign-in Activity</h2>
+          <p className="text-slate-400 text-sm">Failed sign-ins, lockouts and successful logins</p>
+        </div>
+        <form onSubmit={handleSearch} className="flex items-center gap-3">
+          <select
+            aria-label="Event type"
+            value={type}
+            onChange={(e) => setType(e.target.value as AuthEvent['event_type'] | '')}
+            className="bg-slate-700 text-white rounded-lg px-3 py-2 text-sm border border-slate-600"
+          >
+            <option value="">All events</option>
+            {(Object.keys(eventLabels) as AuthEvent['event_type'][]).map(eventType => (
+              <option key={eventType} value={eventType}>{eventLabels[eventType]}</option>
+            ))}
+          </select>
+          <div className="relative">
+            <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-slate-400" />
+            <input
+              type="email"
+              aria-label="Filter by email"
+              value={email}
+              onChange={(e) => setEmail(e.target.value)}
+              placeholder="Filter by email"
+              className="pl-9 pr-3 py-2 bg-slate-700 border border-slate-600 rounded-lg text-white text-sm placeholder-slate-400"
+            />
+          </div>
+          <button
+            type="submit"
+            aria-label="Refresh"
+            className="p-2 bg-slate-700 hover:bg-slate-600 text-white rounded-lg transition-colors"
+          >
+            <RefreshCw className="h-4 w-4" />
+          </button>
+        </form>
+      </div>
+
+      {error && (
+        <div className="bg-red-500/20 border border-red-500/50 rounded-xl p-4 mb-6">
+          <p className="text-red-200 text-sm">{error}</p>
+        </div>
+      )}
+
+      {loading ? (
+        <div className="flex justify-center py-8">
+          <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-orange-500"></div>
+        </div>
+      ) : events.length === 0 ? (
+        <div className="text-center py-8 text-slate-400">
+          <ShieldAlert className="h-10 w-10 mx-auto mb-3 opacity-50" />
+          <p>No sign-in activity recorded</p>
+        </div>
+      ) : (
+        <div className="overflow-x-auto">
+          <table className="w-full">
+            <thead>
+              <tr className="border-b border-slate-700">
+                <th className="text-left py-3 px-4 text-slate-300 font-medium">Time</th>
+                <th className="text-left py-3 px-4 text-slate-300 font-medium">Event</th>
+                <th className="text-left py-3 px-4 text-slate-300 font-medium">Email</th>
+                <th className="text-left py-3 px-4 text-slate-300 font-medium">IP Address</th>
+                <th className="text-left py-3 px-4 text-slate-300 font-medium">Details</th>
+              </tr>
+            </thead>
+            <tbody>
+              {events.map((event) => (
+                <tr key={event.id} className="border-b border-slate-700/50 hover:bg-slate-700/20">
+                  <td className="py-3 px-4 text-slate-300 text-sm whitespace-nowrap">
+                    {new Date(event.created_at).toLocaleString()}
+                  </td>
+                  <td className="py-3 px-4">
+                    <span className={`px-2 py-1 rounded-full text-xs font-medium whitespace-nowrap ${eventStyles[event.event_type]}`}>
+                      {eventLabels[event.event_type]}
+                    </span>
+                  </td>
+                  <td className="py-3 px-4 text-white text-sm">{event.email ?? '—'}</td>
+                  <td className="py-3 px-4 text-slate-300 text-sm font-mono">{event.ip_address || '—'}</td>
+                  <td className="py-3 px-4 text-slate-400 text-sm" title={event.user_agent}>{event.reason ?? ''}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,140 @@
+import React, { useState } from 'react';
+import { Upload, FileArchive, AlertTriangle, CheckCircle } from 'lucide-react';
+import { coursePackageService, type CoursePackage } from '../../services/coursePackageService';
+import { useAuth } from '../../context/AuthContext';
+
+interface CoursePackageImportProps {
+  // Organization the course is created in; defaults to the admin's own
+  organizationId?: string;
+  onImported: (courseId: string) => void;
+}
+
+export const CoursePackageImport: React.FC<CoursePackageImportProps> = ({ organizationId, onImported }) => {
+  const { user } = useAuth();
+  const [fileName, setFileName] = useState('');
+  const [pkg, setPkg] = useState<CoursePackage | null>(null);
+  const [reading, setReading] = useState(false);
+  const [importing, setImporting] = useState(false);
+  const [error, setError] = useState('');
+  const [imported, setImported] = useState('');
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    setFileName(file.name);
+    setPkg(null);
+    setError('');
+    setImported('');
+    try {
+      setReading(true);
+      setPkg(await coursePackageService.readPackage(file));
+    } finally {
+      setReading(false);
+    }
+  };
+
+  const handleImport = async () => {
+    if (!pkg?.manifest || !user) return;
+    try {
+      setImporting(true);
+      setError('');
+      const { courseId } = await coursePackageService.importPackage(pkg, { teacherId: user.id, organizationId });
+      setImported(pkg.manifest.course.title);
+      setPkg(null);
+      onImported(courseId);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to import course');
+    } finally {
+      setImporting(false);
+    }
+  };
+
+  const manifest = pkg?.manifest;
+  const quizCount = manifest?.modules.filter(m => m.quizFile).length ?? 0;
+
+  return (
+    <div className="bg-slate-800/50 backdrop-blur-sm border border-slate-700 rounded-2xl p-6 mb-6">
+      <h2 className="text-2xl font-bold text-white mb-2">Import Course</h2>
+      <p className="text-slate-400 mb-6">
+        Upload a course package (.zip) exported from this or another instance. The course is created as a draft.
+      </p>
+
+      <label className="inline-flex items-center space-x-2 px-6 py-3 bg-slate-700 hover:bg-slate-600 text-white rounded-xl cursor-pointer transition-colors">
+        <Upload className="h-4 w-4" />
+        <span>{reading ? 'Reading package...' : 'Choose package'}</span>
+        <input type="file" accept=".zip,application/zip" onChange={handleFileChange} className="sr-only" disabled={reading || importing} />
+      </label>
+
+      {error && (
+        <div className="mt-6 bg-red-500/20 border border-red-500/50 rounded-xl p-4">
+          <p className="text-red-200 text-sm">{error}</p>
+        </div>
+      )}
+
+      {imported && (
+        <div className="mt-6 flex items-center space-x-2 bg-green-500/10 border border-green-500/30 rounded-xl p-4 text-green-300 text-sm">
+          <CheckCircle className="h-4 w-4" />
+          <span>Imported "{imported}" as a draft course.</span>
+        </div>
+      )}
+
+      {pkg && (
+        <div className="mt-6 space-y-4">
+          <div className="flex items-center space-x-2 text-slate-300">
+            <FileArchive className="h-4 w-4" />
+            <span className="font-medium">{fileName}</span>
+          </div>
+
+          {pkg.errors.length > 0 && (
+            <div className="bg-red-500/20 border border-red-500/50 rounded-xl p-4">
+              <p className="text-red-200 font-medium mb-2">This package cannot be imported:</p>
+              <ul className="list-disc pl-5 text-red-200 text-sm space-y-1">
+                {pkg.errors.map((message, index) => <li key={index}>{message}</li>)}
+              </ul>
+            </div>
+          )}
+
+          {manifest && (
+            <div className="bg-slate-700/30 rounded-xl p-4 border border-slate-600/30">
+              <h3 className="text-lg font-bold text-white">{manifest.course.title}</h3>
+              <p className="text-slate-300 text-sm mb-3">{manifest.course.description}</p>
+              <div className="flex flex-wrap gap-4 text-sm text-slate-400">
+                <span>{manifest.modules.length} modules</span>
+                <span>{quizCount} quizzes</span>
+                <span>{manifest.labs.length} labs</span>
+                <span>{manifest.media.length} media files</span>
+                <span>Package v{manifest.version}, exported {new Date(manifest.exportedAt).toLocaleDateString()}</span>
+              </div>
+            </div>
+          )}
+
+          {pkg.warnings.length > 0 && (
+            <div className="bg-yellow-500/10 border border-yellow-500/30 rounded-xl p-4">
+              <ul className="space-y-1 text-yellow-300 text-sm">
+                {pkg.warnings.map((message, index) => (
+                  <li key={index} className="flex items-start space-x-2">
+                    <AlertTriangle className="h-4 w-4 flex-shrink-0 mt-0.5" />
+                    <span>{message}</span>
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+
+          {manifest && pkg.errors.length === 0 && (
+            <button
+              onClick={handleImport}
+              disabled={importing}
+              className="flex items-center space-x-2 px-6 py-3 bg-gradient-to-r from-orange-500 to-red-500 hover:from-orange-600 hover:to-red-600 text-white font-medium rounded-xl transition-all duration-200 disabled:opacity-50"
+            >
+              <Upload className="h-4 w-4" />
+              <span>{importing ? 'Importing...' : 'Import course'}</span>
+            </button>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,216 @@
+import React, { useState, useEffect } from 'react';
+import { Mail, Copy, Check, Ban, Send } from 'lucide-react';
+import { adminService } from '../../services/adminService';
+import type { UserInvite } from '../../types';
+
+const statusStyles: Record<UserInvite['status'], string> = {
+  pending: 'bg-yellow-500/20 text-yellow-400',
+  used: 'bg-green-500/20 text-green-400',
+  expired: 'bg-slate-500/20 text-slate-400',
+  revoked: 'bg-red-500/20 text-red-400'
+};
+
+interface InviteManagerProps {
+  // Organization to list and issue invites for; defaults to the admin's own
+  organizationId?: string;
+}
+
+export const InviteManager: React.FC<InviteManagerProps> = ({ organizationId }) => {
+  const [invites, setInvites] = useState<UserInvite[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [email, setEmail] = useState('');
+  const [role, setRole] = useState<UserInvite['role']>('teacher');
+  const [expiresInDays, setExpiresInDays] = useState(7);
+  const [submitting, setSubmitting] = useState(false);
+  const [error, setError] = useState('');
+  const [issued, setIssued] = useState<{ email: string; code: string } | null>(null);
+  const [copied, setCopied] = useState(false);
+
+  useEffect(() => {
+    loadInvites();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [organizationId]);
+
+  const loadInvites = async () => {
+    try {
+      setLoading(true);
+      setInvites(await adminService.getInvites(organizationId));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load invites');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError('');
+    setSubmitting(true);
+    try {
+      const { invite, code } = await adminService.createInvite(email, role, expiresInDays, organizationId);
+      setInvites([invite, ...invites]);
+      setIssued({ email: invite.email, code });
+      setCopied(false);
+      setEmail('');
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to create invite');
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const handleRevoke = async (inviteId: string) => {
+    try {
+      const revoked = await adminService.revokeInvite(inviteId);
+      setInvites(invites.map(i => (i.id === inviteId ? revoked : i)));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to revoke invite');
+    }
+  };
+
+  const handleCopy = async () => {
+    if (!issued) return;
+    await navigator.clipboard.writeText(issued.code);
+    setCopied(true);
+  };
+
+  return (
+    <div className="space-y-8">
+      <div className="bg-slate-800/50 backdrop-blur-sm border border-slate-700 rounded-2xl p-6">
+        <h2 className="text-2xl font-bold text-white mb-2">Invite Staff</h2>
+        <p className="text-slate-400 mb-6">
+          Teacher and admin accounts can only be created with an invite code bound to the recipient's email.
+        </p>
+
+        {error && (
+          <div className="bg-red-500/20 border border-red-500/50 rounded-xl p-4 mb-6">
+            <p className="text-red-200 text-sm">{error}</p>
+          </div>
+        )}
+
+        <form onSubmit={handleCreate} className="grid grid-cols-1 md:grid-cols-4 gap-4 items-end">
+          <div className="md:col-span-2">
+            <label htmlFor="invite-email" className="block text-sm font-medium text-slate-300 mb-2">Email</label>
+            <input
+              id="invite-email"
+              type="email"
+              required
+              value={email}
+              onChange={(e) => setEmail(e.target.value)}
+              className="w-full px-4 py-3 bg-slate-700 border border-slate-600 rounded-xl text-white placeholder-slate-400 focus:outline-none focus:ring-2 focus:ring-orange-500"
+              placeholder="teacher@example.com"
+            />
+          </div>
+          <div>
+            <label htmlFor="invite-role" className="block text-sm font-medium text-slate-300 mb-2">Role</label>
+            <select
+              id="invite-role"
+              value={role}
+              onChange={(e) => setRole(e.target.value as UserInvite['role'])}
+              className="w-full px-4 py-3 bg-slate-700 border border-slate-600 rounded-xl text-white"
+            >
+              <option value="teacher">Teacher</option>
+              <option value="admin">Admin</option>
+            </select>
+          </div>
+          <div>
+            <label htmlFor="invite-expiry" className="block text-sm font-medium text-slate-300 mb-2">Expires in</label>
+            <select
+              id="invite-expiry"
+              value={expiresInDays}
+              onChange={(e) => setExpiresInDays(Number(e.target.value))}
+              className="w-full px-4 py-3 bg-slate-700 border border-slate-600 rounded-xl text-white"
+            >
+              <option value={1}>1 day</option>
+              <option value={7}>7 days</option>
+              <option value={30}>30 days</option>
+            </select>
+          </div>
+          <button
+            type="submit"
+            disabled={submitting}
+            className="md:col-span-4 flex items-center justify-center space-x-2 px-6 py-3 bg-gradient-to-r from-orange-500 to-red-500 hover:from-orange-600 hover:to-red-600 text-white font-medium rounded-xl transition-all duration-200 disabled:opacity-50"
+          >
+            <Send className="h-4 w-4" />
+            <span>{submitting ? 'Creating invite...' : 'Create Invite'}</span>
+          </button>
+        </form>
+
+        {issued && (
+          <div className="mt-6 bg-green-500/10 border border-green-500/30 rounded-xl p-4">
+            <p className="text-green-300 text-sm mb-3">
+              Invite created for <span className="font-medium">{issued.email}</span>. Copy the code now; it will not be shown again.
+            </p>
+            <div className="flex items-center space-x-3">
+              <code className="flex-1 px-4 py-3 bg-slate-900/60 rounded-lg text-white font-mono text-lg tracking-widest">
+                {issued.code}
+              </code>
+              <button
+                onClick={handleCopy}
+                className="flex items-center space-x-2 px-4 py-3 bg-slate-700 hover:bg-slate-600 text-white rounded-lg transition-colors"
+              >
+                {copied ? <Check className="h-4 w-4 text-green-400" /> : <Copy className="h-4 w-4" />}
+                <span>{copied ? 'Copied' : 'Copy'}</span>
+              </button>
+            </div>
+          </div>
+        )}
+      </div>
+
+      <div className="bg-slate-800/50 backdrop-blur-sm border border-slate-700 rounded-2xl p-6">
+        <h2 className="text-2xl font-bold text-white mb-6">Invites</h2>
+        {loading ? (
+          <div className="flex justify-center py-8">
+            <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-orange-500"></div>
+          </div>
+        ) : invites.length === 0 ? (
+          <div className="text-center py-8 text-slate-400">
+            <Mail className="h-10 w-10 mx-auto mb-3 opacity-50" />
+            <p>No invites issued yet</p>
+          </div>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="w-full">
+              <thead>
+                <tr className="border-b border-slate-700">
+                  <th className="text-left py-3 px-4 text-slate-300 font-medium">Email</th>
+                  <th className="text-left py-3 px-4 text-slate-300 font-medium">Role</th>
+                  <th className="text-left py-3 px-4 text-slate-300 font-medium">Status</th>
+                  <th className="text-left py-3 px-4 text-slate-300 font-medium">Expires</th>
+                  <th className="text-left py-3 px-4 text-slate-300 font-medium">Actions</th>
+                </tr>
+              </thead>
+              <tbody>
+                {invites.map((invite) => (
+                  <tr key={invite.id} className="border-b border-slate-700/50 hover:bg-slate-700/20">
+                    <td className="py-4 px-4 text-white">{invite.email}</td>
+                    <td className="py-4 px-4 text-slate-300 capitalize">{invite.role}</td>
+                    <td className="py-4 px-4">
+                      <span className={`px-2 py-1 rounded-full text-xs font-medium capitalize ${statusStyles[invite.status]}`}>
+                        {invite.status}
+                      </span>
+                    </td>
+                    <td className="py-4 px-4 text-slate-300 text-sm">
+                      {new Date(invite.expires_at).toLocaleDateString()}
+                    </td>
+                    <td className="py-4 px-4">
+                      {invite.status === 'pending' && (
+                        <button
+                          onClick={() => handleRevoke(invite.id)}
+                          className="flex items-center space-x-1 text-red-400 hover:text-red-300 text-sm transition-colors"
+                        >
+                          <Ban className="h-4 w-4" />
+                          <span>Revoke</span>
+                        </button>
+                      )}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
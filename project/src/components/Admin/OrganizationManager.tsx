@@ -0,0 +1,209 @@
+import React, { useState } from 'react';
+import { Building, Plus, Trash2, UsersRound } from 'lucide-react';
+import { adminService } from '../../services/adminService';
+import { usePermission } from '../../hooks/usePermission';
+import type { Organization, Cohort } from '../../types';
+
+interface OrganizationManagerProps {
+  organizations: Organization[];
+  cohorts: Cohort[];
+  // Organization new cohorts are created in (the admin's own, or the one a super-admin selected)
+  organizationId?: string;
+  onOrganizationsChange: (organizations: Organization[]) => void;
+  onCohortsChange: (cohorts: Cohort[]) => void;
+}
+
+const toSlug = (name: string) =>
+  name.toLowerCase().trim().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '');
+
+export const OrganizationManager: React.FC<OrganizationManagerProps> = ({
+  organizations,
+  cohorts,
+  organizationId,
+  onOrganizationsChange,
+  onCohortsChange
+}) => {
+  const can = usePermission();
+  const [orgName, setOrgName] = useState('');
+  const [cohortName, setCohortName] = useState('');
+  const [startsOn, setStartsOn] = useState('');
+  const [endsOn, setEndsOn] = useState('');
+  const [error, setError] = useState('');
+
+  const organizationName = (id: string) => organizations.find(o => o.id === id)?.name ?? 'Unknown organization';
+
+  const handleCreateOrganization = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError('');
+    try {
+      const organization = await adminService.createOrganization(orgName.trim(), toSlug(orgName));
+      onOrganizationsChange([...organizations, organization].sort((a, b) => a.name.localeCompare(b.name)));
+      setOrgName('');
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to create organization');
+    }
+  };
+
+  const handleCreateCohort = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!organizationId) return;
+    setError('');
+    try {
+      const cohort = await adminService.createCohort({
+        organization_id: organizationId,
+        name: cohortName.trim(),
+        starts_on: startsOn || null,
+        ends_on: endsOn || null
+      });
+      onCohortsChange([cohort, ...cohorts]);
+      setCohortName('');
+      setStartsOn('');
+      setEndsOn('');
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to create cohort');
+    }
+  };
+
+  const handleDeleteCohort = async (cohort: Cohort) => {
+    if (!window.confirm(`Delete the cohort "${cohort.name}"? Its members stay in the organization.`)) return;
+    try {
+      await adminService.deleteCohort(cohort.id);
+      onCohortsChange(cohorts.filter(c => c.id !== cohort.id));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to delete cohort');
+    }
+  };
+
+  return (
+    <div className="space-y-8">
+      {error && (
+        <div className="bg-red-500/20 border border-red-500/50 rounded-xl p-4">
+          <p className="text-red-200 text-sm">{error}</p>
+        </div>
+      )}
+
+      {can('organizations:manage') && (
+        <div className="bg-slate-800/50 backdrop-blur-sm border border-slate-700 rounded-2xl p-6">
+          <h2 className="text-2xl font-bold text-white mb-2">Organizations</h2>
+          <p className="text-slate-400 mb-6">Each client organization sees only its own users, courses and notes.</p>
+
+          <form onSubmit={handleCreateOrganization} className="flex gap-4 mb-6">
+            <input
+              type="text"
+              required
+              aria-label="Organization name"
+              value={orgName}
+              onChange={(e) => setOrgName(e.target.value)}
+              className="flex-1 px-4 py-3 bg-slate-700 border border-slate-600 rounded-xl text-white placeholder-slate-400 focus:outline-none focus:ring-2 focus:ring-orange-500"
+              placeholder="Acme Corp"
+            />
+            <button
+              type="submit"
+              disabled={!toSlug(orgName)}
+              className="flex items-center space-x-2 px-6 py-3 bg-gradient-to-r from-orange-500 to-red-500 hover:from-orange-600 hover:to-red-600 text-white font-medium rounded-xl transition-all duration-200 disabled:opacity-50"
+            >
+              <Plus className="h-4 w-4" />
+              <span>Add Organization</span>
+            </button>
+          </form>
+
+          <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
+            {organizations.map(organization => (
+              <div key={organization.id} className="flex items-center space-x-3 p-4 bg-slate-700/30 rounded-xl border border-slate-600/30">
+                <Building className="h-5 w-5 text-orange-400" />
+                <div>
+                  <p className="text-white font-medium">{organization.name}</p>
+                  <p className="text-slate-400 text-sm">
+                    {cohorts.filter(c => c.organization_id === organization.id).length} cohorts
+                  </p>
+                </div>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+
+      <div className="bg-slate-800/50 backdrop-blur-sm border border-slate-700 rounded-2xl p-6">
+        <h2 className="text-2xl font-bold text-white mb-2">Cohorts</h2>
+        <p className="text-slate-400 mb-6">Group learners who train together. Assign members from the Users tab.</p>
+
+        {organizationId ? (
+          <form onSubmit={handleCreateCohort} className="grid grid-cols-1 md:grid-cols-4 gap-4 items-end mb-6">
+            <div className="md:col-span-2">
+              <label htmlFor="cohort-name" className="block text-sm font-medium text-slate-300 mb-2">
+                New cohort in {organizationName(organizationId)}
+              </label>
+              <input
+                id="cohort-name"
+                type="text"
+                required
+                value={cohortName}
+                onChange={(e) => setCohortName(e.target.value)}
+                className="w-full px-4 py-3 bg-slate-700 border border-slate-600 rounded-xl text-white placeholder-slate-400 focus:outline-none focus:ring-2 focus:ring-orange-500"
+                placeholder="Spring 2026 intake"
+              />
+            </div>
+            <div>
+              <label htmlFor="cohort-start" className="block text-sm font-medium text-slate-300 mb-2">Starts</label>
+              <input
+                id="cohort-start"
+                type="date"
+                value={startsOn}
+                onChange={(e) => setStartsOn(e.target.value)}
+                className="w-full px-4 py-3 bg-slate-700 border border-slate-600 rounded-xl text-white"
+              />
+            </div>
+            <div>
+              <label htmlFor="cohort-end" className="block text-sm font-medium text-slate-300 mb-2">Ends</label>
+              <input
+                id="cohort-end"
+                type="date"
+                value={endsOn}
+                onChange={(e) => setEndsOn(e.target.value)}
+                className="w-full px-4 py-3 bg-slate-700 border border-slate-600 rounded-xl text-white"
+              />
+            </div>
+            <button
+              type="submit"
+              className="md:col-span-4 flex items-center justify-center space-x-2 px-6 py-3 bg-gradient-to-r from-orange-500 to-red-500 hover:from-orange-600 hover:to-red-600 text-white font-medium rounded-xl transition-all duration-200"
+            >
+              <Plus className="h-4 w-4" />
+              <span>Create Cohort</span>
+            </button>
+          </form>
+        ) : (
+          <p className="text-slate-400 text-sm mb-6">Select an organization above to add cohorts to it.</p>
+        )}
+
+        {cohorts.length === 0 ? (
+          <div className="text-center py-8 text-slate-400">
+            <UsersRound className="h-10 w-10 mx-auto mb-3 opacity-50" />
+            <p>No cohorts yet</p>
+          </div>
+        ) : (
+          <div className="space-y-3">
+            {cohorts.map(cohort => (
+              <div key={cohort.id} className="flex items-center justify-between p-4 bg-slate-700/30 rounded-xl border border-slate-600/30">
+                <div>
+                  <p className="text-white font-medium">{cohort.name}</p>
+                  <p className="text-slate-400 text-sm">
+                    {can('organizations:manage') && `${organizationName(cohort.organization_id)} · `}
+                    {cohort.starts_on ? new Date(cohort.starts_on).toLocaleDateString() : 'No start date'}
+                    {cohort.ends_on && ` – ${new Date(cohort.ends_on).toLocaleDateString()}`}
+                  </p>
+                </div>
+                <button
+                  onClick={() => handleDeleteCohort(cohort)}
+                  aria-label={`Delete ${cohort.name}`}
+                  className="text-red-400 hover:text-red-300 transition-colors"
+                >
+                  <Trash2 className="h-4 w-4" />
+                </button>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,298 @@
+import React, { useState, useEffect } from 'react';
+import { Save } from 'lucide-react';
+import { adminService } from '../../services/adminService';
+import type { Organization, SsoConfig, SsoConfigInput } from '../../types';
+
+type Role = SsoConfig['default_role'];
+
+const ROLES: Role[] = ['admin', 'teacher', 'student'];
+
+const emptyForm: SsoConfigInput = {
+  enabled: false,
+  issuer: '',
+  clientId: '',
+  clientSecret: '',
+  clearSecret: false,
+  scopes: 'openid email profile',
+  groupsClaim: 'groups',
+  defaultRole: 'student',
+  roleMappings: { admin: [], teacher: [], student: [] }
+};
+
+const toForm = (config: SsoConfig): SsoConfigInput => ({
+  enabled: config.enabled,
+  issuer: config.issuer,
+  clientId: config.client_id,
+  clientSecret: '',
+  clearSecret: false,
+  scopes: config.scopes,
+  groupsClaim: config.groups_claim,
+  defaultRole: config.default_role,
+  roleMappings: {
+    admin: config.role_mappings.admin ?? [],
+    teacher: config.role_mappings.teacher ?? [],
+    student: config.role_mappings.student ?? []
+  }
+});
+
+const parseGroups = (value: string) => value.split(',').map(group => group.trim()).filter(Boolean);
+
+interface SsoSettingsProps {
+  organizations: Organization[];
+  // The admin's own organization, or the one a super-admin selected
+  organizationId?: string;
+}
+
+export const SsoSettings: React.FC<SsoSettingsProps> = ({ organizations, organizationId }) => {
+  const [form, setForm] = useState<SsoConfigInput>(emptyForm);
+  // Group lists are edited as comma-separated text and parsed on save
+  const [groupText, setGroupText] = useState<Record<Role, string>>({ admin: '', teacher: '', student: '' });
+  const [hasClientSecret, setHasClientSecret] = useState(false);
+  const [callbackUrl, setCallbackUrl] = useState('');
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState('');
+  const [message, setMessage] = useState('');
+
+  const organization = organizations.find(o => o.id === organizationId);
+
+  useEffect(() => {
+    if (!organizationId) return;
+    loadConfig();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [organizationId]);
+
+  const applyConfig = (config: SsoConfig | null) => {
+    const next = config ? toForm(config) : emptyForm;
+    setForm(next);
+    setGroupText({
+      admin: next.roleMappings.admin.join(', '),
+      teacher: next.roleMappings.teacher.join(', '),
+      student: next.roleMappings.student.join(', ')
+    });
+    setHasClientSecret(Boolean(config?.has_client_secret));
+  };
+
+  const loadConfig = async () => {
+    try {
+      setLoading(true);
+      setError('');
+      setMessage('');
+      const { config, callbackUrl } = await adminService.getSsoConfig(organizationId);
+      applyConfig(config);
+      setCallbackUrl(callbackUrl);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load SSO settings');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError('');
+    setMessage('');
+    setSaving(true);
+    try {
+      const config = await adminService.saveSsoConfig(
+        {
+          ...form,
+          roleMappings: {
+            admin: parseGroups(groupText.admin),
+            teacher: parseGroups(groupText.teacher),
+            student: parseGroups(groupText.student)
+          }
+        },
+        organizationId
+      );
+      applyConfig(config);
+      setMessage('Single sign-on settings saved');
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to save SSO settings');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const inputClass =
+    'w-full px-4 py-3 bg-slate-700 border border-slate-600 rounded-xl text-white placeholder-slate-400 focus:outline-none focus:ring-2 focus:ring-orange-500';
+
+  if (!organizationId) {
+    return (
+      <div className="bg-slate-800/50 backdrop-blur-sm border border-slate-700 rounded-2xl p-6">
+        <h2 className="text-2xl font-bold text-white mb-2">Single Sign-On</h2>
+        <p className="text-slate-400">Select an organization above to configure its identity provider.</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="bg-slate-800/50 backdrop-blur-sm border border-slate-700 rounded-2xl p-6">
+      <h2 className="text-2xl font-bold text-white mb-2">Single Sign-On</h2>
+      <p className="text-slate-400 mb-6">
+        Let {organization?.name ?? 'this organization'}'s members sign in with their company identity provider
+        (OpenID Connect). Accounts are created on first sign-in.
+      </p>
+
+      {error && (
+        <div className="bg-red-500/20 border border-red-500/50 rounded-xl p-4 mb-6">
+          <p className="text-red-200 text-sm">{error}</p>
+        </div>
+      )}
+      {message && (
+        <div className="bg-green-500/20 border border-green-500/50 rounded-xl p-4 mb-6">
+          <p className="text-green-200 text-sm">{message}</p>
+        </div>
+      )}
+
+      {loading ? (
+        <div className="flex justify-center py-8">
+          <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-orange-500"></div>
+        </div>
+      ) : (
+        <form onSubmit={handleSave} className="space-y-6">
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4 p-4 bg-slate-700/30 rounded-xl border border-slate-600/30 text-sm">
+            <div>
+              <p className="text-slate-400 mb-1">Redirect URI to register with your provider</p>
+              <code className="text-white break-all">{callbackUrl}</code>
+            </div>
+            <div>
+              <p className="text-slate-400 mb-1">Organization ID members enter at sign-in</p>
+              <code className="text-white">{organization?.slug ?? '—'}</code>
+            </div>
+          </div>
+
+          <label className="flex items-center space-x-3 text-white">
+            <input
+              type="checkbox"
+              checked={form.enabled}
+              onChange={(e) => setForm({ ...form, enabled: e.target.checked })}
+              className="h-4 w-4 accent-orange-500"
+            />
+            <span>Enable sign-in with this provider</span>
+          </label>
+
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div className="md:col-span-2">
+              <label htmlFor="sso-issuer" className="block text-sm font-medium text-slate-300 mb-2">Issuer URL</label>
+              <input
+                id="sso-issuer"
+                type="url"
+                required
+                value={form.issuer}
+                onChange={(e) => setForm({ ...form, issuer: e.target.value })}
+                className={inputClass}
+                placeholder="https://login.example.com/realms/acme"
+              />
+            </div>
+            <div>
+              <label htmlFor="sso-client-id" className="block text-sm font-medium text-slate-300 mb-2">Client ID</label>
+              <input
+                id="sso-client-id"
+                type="text"
+                required
+                value={form.clientId}
+                onChange={(e) => setForm({ ...form, clientId: e.target.value })}
+                className={inputClass}
+              />
+            </div>
+            <div>
+              <label htmlFor="sso-client-secret" className="block text-sm font-medium text-slate-300 mb-2">Client secret</label>
+              <input
+                id="sso-client-secret"
+                type="password"
+                autoComplete="new-password"
+                value={form.clientSecret}
+                disabled={form.clearSecret}
+                onChange={(e) => setForm({ ...form, clientSecret: e.target.value })}
+                className={`${inputClass} disabled:opacity-50`}
+                placeholder={hasClientSecret ? 'Stored — leave blank to keep it' : 'None (public client)'}
+              />
+              {hasClientSecret && (
+                <label className="flex items-center space-x-2 mt-2 text-sm text-slate-400">
+                  <input
+                    type="checkbox"
+                    checked={Boolean(form.clearSecret)}
+                    onChange={(e) => setForm({ ...form, clearSecret: e.target.checked, clientSecret: '' })}
+                    className="accent-orange-500"
+                  />
+                  <span>Remove the stored secret</span>
+                </label>
+              )}
+            </div>
+            <div>
+              <label htmlFor="sso-scopes" className="block text-sm font-medium text-slate-300 mb-2">Scopes</label>
+              <input
+                id="sso-scopes"
+                type="text"
+                value={form.scopes}
+                onChange={(e) => setForm({ ...form, scopes: e.target.value })}
+                className={inputClass}
+              />
+            </div>
+            <div>
+              <label htmlFor="sso-groups-claim" className="block text-sm font-medium text-slate-300 mb-2">Groups claim</label>
+              <input
+                id="sso-groups-claim"
+                type="text"
+                value={form.groupsClaim}
+                onChange={(e) => setForm({ ...form, groupsClaim: e.target.value })}
+                className={inputClass}
+              />
+            </div>
+          </div>
+
+          <div>
+            <h3 className="text-lg font-bold text-white mb-1">Role mapping</h3>
+            <p className="text-slate-400 text-sm mb-4">
+              New accounts get the role of their IdP groups, the most privileged match winning; everyone else gets the
+              default role. Later sign-ins can lower a role to match the groups but never raise it; promote users here
+              instead. Existing accounts join single sign-on by linking it from their profile.
+            </p>
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              {ROLES.map(role => (
+                <div key={role}>
+                  <label htmlFor={`sso-groups-${role}`} className="block text-sm font-medium text-slate-300 mb-2 capitalize">
+                    {role} groups
+                  </label>
+                  <input
+                    id={`sso-groups-${role}`}
+                    type="text"
+                    value={groupText[role]}
+                    onChange={(e) => setGroupText({ ...groupText, [role]: e.target.value })}
+                    className={inputClass}
+                    placeholder={role === 'admin' ? 'lms-admins' : role === 'teacher' ? 'trainers' : 'learners'}
+                  />
+                </div>
+              ))}
+              <div>
+                <label htmlFor="sso-default-role" className="block text-sm font-medium text-slate-300 mb-2">Default role</label>
+                <select
+                  id="sso-default-role"
+                  value={form.defaultRole}
+                  onChange={(e) => setForm({ ...form, defaultRole: e.target.value as Role })}
+                  className={inputClass}
+                >
+                  {ROLES.map(role => (
+                    <option key={role} value={role} className="capitalize">{role}</option>
+                  ))}
+                </select>
+              </div>
+            </div>
+          </div>
+
+          <div className="flex justify-end">
+            <button
+              type="submit"
+              disabled={saving}
+              className="flex items-center space-x-2 px-6 py-3 bg-gradient-to-r from-orange-500 to-red-500 hover:from-orange-600 hover:to-red-600 text-white font-medium rounded-xl transition-all duration-200 disabled:opacity-50"
+            >
+              <Save className="h-4 w-4" />
+              <span>{saving ? 'Saving...' : 'Save'}</span>
+            </button>
+          </div>
+        </form>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,90 @@
+import React, { useRef } from 'react';
+
+interface AnswerOptionsProps {
+  options: string[];
+  selected: number | null;
+  onSelect: (index: number) => void;
+  // id of the element holding the question text
+  labelledBy: string;
+  reducedMotion?: boolean;
+}
+
+// A single-choice radio group: Tab enters it, arrow keys move and select, Space selects
+export const AnswerOptions: React.FC<AnswerOptionsProps> = ({ options, selected, onSelect, labelledBy, reducedMotion = false }) => {
+  const optionRefs = useRef<(HTMLDivElement | null)[]>([]);
+  const tabStop = selected ?? 0;
+
+  const choose = (index: number) => {
+    onSelect(index);
+    optionRefs.current[index]?.focus();
+  };
+
+  const handleKeyDown = (event: React.KeyboardEvent, index: number) => {
+    const last = options.length - 1;
+    switch (event.key) {
+      case 'ArrowDown':
+      case 'ArrowRight':
+        event.preventDefault();
+        choose(index === last ? 0 : index + 1);
+        break;
+      case 'ArrowUp':
+      case 'ArrowLeft':
+        event.preventDefault();
+        choose(index === 0 ? last : index - 1);
+        break;
+      case 'Home':
+        event.preventDefault();
+        choose(0);
+        break;
+      case 'End':
+        event.preventDefault();
+        choose(last);
+        break;
+      case ' ':
+        event.preventDefault();
+        onSelect(index);
+        break;
+    }
+  };
+
+  return (
+    <div role="radiogroup" aria-labelledby={labelledBy} className="space-y-3 mb-8">
+      {options.map((option, index) => {
+        const checked = selected === index;
+        return (
+          <div
+            key={index}
+            ref={element => {
+              optionRefs.current[index] = element;
+            }}
+            role="radio"
+            aria-checked={checked}
+            tabIndex={index === tabStop ? 0 : -1}
+            onClick={() => choose(index)}
+            onKeyDown={event => handleKeyDown(event, index)}
+            className={`w-full text-left p-4 rounded-lg border-2 cursor-pointer focus:outline-none focus-visible:ring-2 focus-visible:ring-cyan-500 focus-visible:ring-offset-2 ${
+              reducedMotion ? '' : 'transition-all'
+            } ${
+              checked
+                ? 'border-cyan-500 bg-cyan-50 text-cyan-900'
+                : 'border-gray-200 hover:border-gray-300 bg-white'
+            }`}
+          >
+            <div className="flex items-center space-x-3">
+              <div aria-hidden="true" className={`w-4 h-4 rounded-full border-2 ${
+                checked
+                  ? 'border-cyan-500 bg-cyan-500'
+                  : 'border-gray-300'
+              }`}>
+                {checked && (
+                  <div className="w-full h-full rounded-full bg-white scale-50"></div>
+                )}
+              </div>
+              <span className="text-gray-900">{option}</span>
+            </div>
+          </div>
+        );
+      })}
+    </div>
+  );
+};
@@ -1,18 +1,22 @@
 import React, { useState, useEffect, useRef } from 'react';
-import { Clock, CheckCircle, XCircle, AlertCircle, TrendingUp, Camera, Mic, Video } from 'lucide-react';
+import { CheckCircle, XCircle, AlertCircle, TrendingUp, Camera, Mic, Video } from 'lucide-react';
 import { assessmentQuestions } from '../../data/assessmentQuestions';
 import { useAuth } from '../../context/AuthContext';
+import { useI18n } from '../../context/I18nContext';
 import { Question } from '../../types';
-import { supabase } from '../../lib/supabase';
 import { assessmentService } from '../../services/assessmentService';
+import { offlineSyncService } from '../../services/offlineSyncService';
 import { ragService } from '../../services/ragService';
 import { learningPathService } from '../../services/learningPathService';
+import { courseRepository, OWASP_COURSE_SLUG } from '../../services/courseRepository';
+import { useQuizTimer } from '../../hooks/useQuizTimer';
+import { AnswerOptions } from './AnswerOptions';
+import { QuizTimer } from './QuizTimer';
 
 export const AssessmentTest: React.FC = () => {
   const [currentQuestionIndex, setCurrentQuestionIndex] = useState(0);
   const [answers, setAnswers] = useState<number[]>([]);
   const [showResults, setShowResults] = useState(false);
-  const [timeLeft, setTimeLeft] = useState(30 * 60); // 30 minutes
   const [selectedAnswer, setSelectedAnswer] = useState<number | null>(null);
   const [confidenceLevel, setConfidenceLevel] = useState<number>(3);
   const [questionStartTime, setQuestionStartTime] = useState<Date>(new Date());
@@ -24,18 +28,24 @@ export const AssessmentTest: React.FC = () => {
   const [submitting, setSubmitting] = useState(false);
   const [submitError, setSubmitError] = useState<string>('');
   const videoRef = useRef<HTMLVideoElement>(null);
+  const questionHeadingRef = useRef<HTMLHeadingElement>(null);
   const { user, updateUser } = useAuth();
+  const { t, localize } = useI18n();
 
-  const currentQuestion = assessmentQuestions[currentQuestionIndex];
+  // Only display text is localized; scoring still reads the canonical questions
+  const questions = assessmentQuestions.map(question => localize(question));
+  const currentQuestion = questions[currentQuestionIndex];
 
+  // 30 minutes, plus any extra time the learner is granted
+  const { timeLeft, totalSeconds, extraTimePercent, reducedMotion } = useQuizTimer(30 * 60, {
+    running: permissionGranted && !showResults,
+    onExpire: () => handleSubmitTest()
+  });
+
+  // Move focus to each new question so screen readers read it out
   useEffect(() => {
-    if (timeLeft > 0 && !showResults && permissionGranted) {
-      const timer = setTimeout(() => setTimeLeft(timeLeft - 1), 1000);
-      return () => clearTimeout(timer);
-    } else if (timeLeft === 0 && permissionGranted) {
-      handleSubmitTest();
-    }
-  }, [timeLeft, showResults, permissionGranted]);
+    questionHeadingRef.current?.focus();
+  }, [currentQuestionIndex, permissionGranted]);
 
   useEffect(() => {
     if (videoRef.current && mediaStream) {
@@ -75,18 +85,18 @@ export const AssessmentTest: React.FC = () => {
           setAttemptId(attempt.id);
         } catch (e: any) {
           console.error(e);
-          setPermissionError('Could not start assessment attempt. Please retry.');
+          setPermissionError(t('assessment.errorAttempt'));
         }
       }
     } catch (error) {
       setIsRequestingPermission(false);
       if (error instanceof Error) {
         if (error.name === 'NotAllowedError') {
-          setPermissionError('Camera and microphone access denied. Please allow access to continue with the assessment.');
+          setPermissionError(t('assessment.errorDenied'));
         } else if (error.name === 'NotFoundError') {
-          setPermissionError('No camera or microphone found. Please ensure your devices are connected.');
+          setPermissionError(t('assessment.errorNotFound'));
         } else {
-          setPermissionError('Failed to access camera and microphone. Please check your device settings.');
+          setPermissionError(t('assessment.errorMedia'));
         }
       }
     }
@@ -142,16 +152,17 @@ export const AssessmentTest: React.FC = () => {
       const score = calculateScore(finalAnswers);
       const level = determineLevel(score);
 
-      // Read responses for this attempt and run analysis
+      // Read responses for this attempt and run analysis. Offline the result is still recorded
+      // and synced later, just without the personalised path.
       let analysis;
-      if (attemptId) {
+      if (attemptId && navigator.onLine) {
         const results = await assessmentService.getAttemptResults(attemptId);
         analysis = await ragService.analyzeAssessment(results);
       }
 
       // Persist user level + completion
       if (user?.id) {
-        await supabase.from('users').update({ level, completed_assessment: true }).eq('id', user.id);
+        await offlineSyncService.saveAssessmentResult({ user_id: user.id, level });
         updateUser({ completedAssessment: true, level });
       } else {
         updateUser({ completedAssessment: true, level });
@@ -159,13 +170,16 @@ export const AssessmentTest: React.FC = () => {
 
       // Allocate initial path if possible
       if (user?.id && analysis) {
-        await learningPathService.allocateInitialPath(user.id, owaspCourses[0].id, analysis);
+        const course = await courseRepository.findBySlug(user.id, OWASP_COURSE_SLUG);
+        if (course) {
+          await learningPathService.allocateInitialPath(user.id, course.id, analysis);
+        }
       }
 
       setShowResults(true);
     } catch (e: any) {
       console.error('Submit test failed:', e);
-      setSubmitError(e?.message || 'Submission failed.');
+      setSubmitError(e?.message || t('assessment.submitFailed'));
       setShowResults(true);
     } finally {
       setSubmitting(false);
@@ -189,7 +203,7 @@ export const AssessmentTest: React.FC = () => {
   };
 
   const getConfidenceLabel = (level: number) => {
-    const labels = ['Very Low', 'Low', 'Medium', 'High', 'Very High'];
+    const labels = [t('assessment.confidence1'), t('assessment.confidence2'), t('assessment.confidence3'), t('assessment.confidence4'), t('assessment.confidence5')];
     return labels[level - 1];
   };
 
@@ -205,7 +219,8 @@ export const AssessmentTest: React.FC = () => {
       const timeTaken = Math.floor((new Date().getTime() - questionStartTime.getTime()) / 1000);
       const isCorrect = selectedAnswer === currentQuestion.correctAnswer;
       
-      await supabase.from('assessment_responses').insert({
+      await offlineSyncService.saveAssessmentResponse({
+        id: crypto.randomUUID(),
         attempt_id: attemptId ?? undefined,
         user_id: user.id,
         question_id: currentQuestion.id,
@@ -220,12 +235,6 @@ export const AssessmentTest: React.FC = () => {
     }
   };
 
-  const formatTime = (seconds: number) => {
-    const minutes = Math.floor(seconds / 60);
-    const remainingSeconds = seconds % 60;
-    return `${minutes}:${remainingSeconds.toString().padStart(2, '0')}`;
-  };
-
   if (!permissionGranted) {
     return (
       <div className="p-6">
@@ -233,10 +242,9 @@ export const AssessmentTest: React.FC = () => {
           <div className="bg-white rounded-lg shadow-md p-8 text-center">
             <div className="mb-6">
               <Video className="h-16 w-16 text-cyan-600 mx-auto mb-4" />
-              <h2 className="text-2xl font-bold text-gray-900 mb-4">Camera and Microphone Access Required</h2>
+              <h2 className="text-2xl font-bold text-gray-900 mb-4">{t('assessment.permissionTitle')}</h2>
               <p className="text-gray-600 mb-6">
-                To ensure the integrity of the assessment, we require access to your camera and microphone during the test.
-                This helps us maintain a secure testing environment.
+                {t('assessment.permissionIntro')}
               </p>
             </div>
 
@@ -247,23 +255,22 @@ export const AssessmentTest: React.FC = () => {
             )}
 
             <div className="bg-cyan-50 border border-cyan-200 rounded-lg p-6 mb-6 text-left">
-              <h3 className="font-bold text-cyan-900 mb-3">What we monitor:</h3>
+              <h3 className="font-bold text-cyan-900 mb-3">{t('assessment.monitorTitle')}</h3>
               <div className="space-y-2 text-cyan-800">
                 <div className="flex items-start space-x-3">
                   <Camera className="h-5 w-5 mt-0.5 flex-shrink-0" />
-                  <span>Your video feed to ensure you remain present during the assessment</span>
+                  <span>{t('assessment.monitorVideo')}</span>
                 </div>
                 <div className="flex items-start space-x-3">
                   <Mic className="h-5 w-5 mt-0.5 flex-shrink-0" />
-                  <span>Audio monitoring to maintain test security</span>
+                  <span>{t('assessment.monitorAudio')}</span>
                 </div>
               </div>
             </div>
 
             <div className="bg-blue-50 border border-blue-200 rounded-lg p-4 mb-6">
               <p className="text-blue-800 text-sm">
-                <strong>Privacy Notice:</strong> Your video and audio are monitored in real-time but are not recorded or stored.
-                This monitoring is solely for maintaining assessment integrity.
+                <strong>{t('assessment.privacyLabel')}</strong> {t('assessment.privacyNotice')}
               </p>
             </div>
 
@@ -272,7 +279,7 @@ export const AssessmentTest: React.FC = () => {
               disabled={isRequestingPermission}
               className="bg-cyan-600 text-white px-8 py-3 rounded-lg hover:bg-cyan-700 transition-colors text-lg font-medium disabled:opacity-50 disabled:cursor-not-allowed"
             >
-              {isRequestingPermission ? 'Requesting Access...' : 'Grant Camera & Microphone Access'}
+              {isRequestingPermission ? t('assessment.requestingAccess') : t('assessment.grantAccess')}
             </button>
           </div>
         </div>
@@ -285,15 +292,15 @@ export const AssessmentTest: React.FC = () => {
       <div className="p-6">
         <div className="max-w-2xl mx-auto text-center">
           <CheckCircle className="h-16 w-16 text-green-500 mx-auto mb-4" />
-          <h2 className="text-2xl font-bold text-gray-900 mb-4">Assessment Already Completed</h2>
+          <h2 className="text-2xl font-bold text-gray-900 mb-4">{t('assessment.alreadyCompleted')}</h2>
           <p className="text-gray-600 mb-6">
-            You have already completed the assessment test. Your current level is: <span className="font-bold text-cyan-600">{user.level}</span>
+            {t('assessment.alreadyCompletedBody')} <span className="font-bold text-cyan-600">{t(`level.${user.level}`)}</span>
           </p>
           <button
             onClick={() => setShowResults(true)}
             className="bg-cyan-600 text-white px-6 py-2 rounded-lg hover:bg-cyan-700 transition-colors"
           >
-            View Results
+            {t('assessment.viewResults')}
           </button>
         </div>
       </div>
@@ -318,32 +325,31 @@ export const AssessmentTest: React.FC = () => {
               )}
             </div>
             
-            <h2 className="text-3xl font-bold text-gray-900 mb-4">Assessment Complete!</h2>
+            <h2 className="text-3xl font-bold text-gray-900 mb-4">{t('assessment.complete')}</h2>
             <div className="text-6xl font-bold text-cyan-600 mb-2">{score}%</div>
             <p className="text-xl text-gray-600 mb-6">
-              Your cybersecurity level: <span className="font-bold capitalize text-cyan-600">{level}</span>
+              {t('assessment.yourLevel')} <span className="font-bold text-cyan-600">{t(`level.${level}`)}</span>
             </p>
             
             <div className="grid grid-cols-1 md:grid-cols-3 gap-4 mb-8">
               <div className="bg-gray-50 p-4 rounded-lg">
                 <div className="text-2xl font-bold text-gray-900">{answers.filter((answer, index) => answer === assessmentQuestions[index].correctAnswer).length}</div>
-                <div className="text-gray-600">Correct Answers</div>
+                <div className="text-gray-600">{t('assessment.correctAnswers')}</div>
               </div>
               <div className="bg-gray-50 p-4 rounded-lg">
                 <div className="text-2xl font-bold text-gray-900">{assessmentQuestions.length - answers.filter((answer, index) => answer === assessmentQuestions[index].correctAnswer).length}</div>
-                <div className="text-gray-600">Incorrect Answers</div>
+                <div className="text-gray-600">{t('assessment.incorrectAnswers')}</div>
               </div>
               <div className="bg-gray-50 p-4 rounded-lg">
                 <div className="text-2xl font-bold text-gray-900">{assessmentQuestions.length}</div>
-                <div className="text-gray-600">Total Questions</div>
+                <div className="text-gray-600">{t('assessment.totalQuestions')}</div>
               </div>
             </div>
 
             <div className="bg-cyan-50 border border-cyan-200 rounded-lg p-4 mb-6">
-              <h3 className="font-bold text-cyan-800 mb-2">What's Next?</h3>
+              <h3 className="font-bold text-cyan-800 mb-2">{t('assessment.nextTitle')}</h3>
               <p className="text-cyan-700">
-                Based on your performance, we've unlocked the appropriate OWASP Top 10 course for your level. 
-                Start learning with hands-on labs and practical exercises!
+                {t('assessment.nextBody')}
               </p>
             </div>
 
@@ -356,15 +362,15 @@ export const AssessmentTest: React.FC = () => {
               disabled={submitting}
               className="bg-cyan-600 text-white px-8 py-3 rounded-lg hover:bg-cyan-700 transition-colors text-lg font-medium disabled:opacity-50"
             >
-              {submitting ? 'Finalizing…' : 'Continue to Dashboard'}
+              {submitting ? t('assessment.finalizing') : t('assessment.continueToDashboard')}
             </button>
           </div>
 
           {/* Detailed Results */}
           <div className="bg-white rounded-lg shadow-md p-6">
-            <h3 className="text-xl font-bold text-gray-900 mb-6">Detailed Results</h3>
+            <h3 className="text-xl font-bold text-gray-900 mb-6">{t('assessment.detailedResults')}</h3>
             <div className="space-y-4">
-              {assessmentQuestions.map((question, index) => {
+              {questions.map((question, index) => {
                 const userAnswer = answers[index];
                 const isCorrect = userAnswer === question.correctAnswer;
                 
@@ -379,11 +385,11 @@ export const AssessmentTest: React.FC = () => {
                       <div className="flex-1">
                         <p className="font-medium text-gray-900 mb-2">{question.question}</p>
                         <p className="text-sm text-gray-600 mb-2">
-                          <span className="font-medium">Your answer:</span> {question.options[userAnswer]}
+                          <span className="font-medium">{t('assessment.yourAnswer')}</span> {question.options[userAnswer]}
                         </p>
                         {!isCorrect && (
                           <p className="text-sm text-gray-600 mb-2">
-                            <span className="font-medium">Correct answer:</span> {question.options[question.correctAnswer]}
+                            <span className="font-medium">{t('assessment.correctAnswer')}</span> {question.options[question.correctAnswer]}
                           </p>
                         )}
                         <p className="text-sm text-gray-700">{question.explanation}</p>
@@ -407,10 +413,10 @@ export const AssessmentTest: React.FC = () => {
           <div className="lg:col-span-1">
             <div className="bg-white rounded-lg shadow-md p-4 sticky top-6">
               <div className="flex items-center justify-between mb-3">
-                <h3 className="text-sm font-semibold text-gray-900">Video Monitoring</h3>
+                <h3 className="text-sm font-semibold text-gray-900">{t('assessment.videoMonitoring')}</h3>
                 <div className="flex items-center space-x-1">
-                  <div className="w-2 h-2 bg-red-500 rounded-full animate-pulse"></div>
-                  <span className="text-xs text-red-600 font-medium">LIVE</span>
+                  <div className={`w-2 h-2 bg-red-500 rounded-full ${reducedMotion ? '' : 'animate-pulse'}`} aria-hidden="true"></div>
+                  <span className="text-xs text-red-600 font-medium">{t('assessment.live')}</span>
                 </div>
               </div>
 
@@ -434,7 +440,7 @@ export const AssessmentTest: React.FC = () => {
 
               <div className="bg-blue-50 border border-blue-200 rounded-lg p-3">
                 <p className="text-xs text-blue-800">
-                  Your camera and microphone are active for proctoring purposes. Please remain visible throughout the assessment.
+                  {t('assessment.proctoringNotice')}
                 </p>
               </div>
             </div>
@@ -446,22 +452,25 @@ export const AssessmentTest: React.FC = () => {
             <div className="bg-white rounded-lg shadow-md p-6 mb-6">
               <div className="flex justify-between items-center">
                 <div>
-                  <h1 className="text-2xl font-bold text-gray-900">Cybersecurity Assessment</h1>
-                  <p className="text-gray-600">Question {currentQuestionIndex + 1} of {assessmentQuestions.length}</p>
-                </div>
-                <div className="flex items-center space-x-2 text-lg font-medium">
-                  <Clock className="h-5 w-5 text-gray-500" />
-                  <span className={timeLeft < 300 ? 'text-red-600' : 'text-gray-900'}>
-                    {formatTime(timeLeft)}
-                  </span>
+                  <h1 className="text-2xl font-bold text-gray-900">{t('assessment.title')}</h1>
+                  <p className="text-gray-600">{t('assessment.questionProgress', { current: currentQuestionIndex + 1, count: assessmentQuestions.length })}</p>
                 </div>
+                <QuizTimer timeLeft={timeLeft} totalSeconds={totalSeconds} warnBelow={300} extraTimePercent={extraTimePercent} />
               </div>
 
               {/* Progress Bar */}
               <div className="mt-4">
-                <div className="w-full bg-gray-200 rounded-full h-2">
+                <div
+                  className="w-full bg-gray-200 rounded-full h-2"
+                  role="progressbar"
+                  aria-label={t('quiz.progress')}
+                  aria-valuemin={1}
+                  aria-valuemax={assessmentQuestions.length}
+                  aria-valuenow={currentQuestionIndex + 1}
+                  aria-valuetext={t('assessment.questionProgress', { current: currentQuestionIndex + 1, count: assessmentQuestions.length })}
+                >
                   <div
-                    className="bg-cyan-600 h-2 rounded-full transition-all duration-300"
+                    className={`bg-cyan-600 h-2 rounded-full ${reducedMotion ? '' : 'transition-all duration-300'}`}
                     style={{ width: `${((currentQuestionIndex + 1) / assessmentQuestions.length) * 100}%` }}
                   ></div>
                 </div>
@@ -476,55 +485,36 @@ export const AssessmentTest: React.FC = () => {
                 currentQuestion.difficulty === 'easy' ? 'bg-green-100 text-green-800' :
                 currentQuestion.difficulty === 'medium' ? 'bg-yellow-100 text-yellow-800' :
                 'bg-red-100 text-red-800'
-              }`}>
-                {currentQuestion.difficulty.toUpperCase()}
+              } uppercase`}>
+                {t(`difficulty.${currentQuestion.difficulty}`)}
               </span>
             </div>
-            <h2 className="text-xl font-bold text-gray-900 mb-6">{currentQuestion.question}</h2>
+            <h2 id="assessment-question" ref={questionHeadingRef} tabIndex={-1} className="text-xl font-bold text-gray-900 mb-6 focus:outline-none">{currentQuestion.question}</h2>
           </div>
 
-          <div className="space-y-3 mb-8">
-            {currentQuestion.options.map((option, index) => (
-              <button
-                key={index}
-                onClick={() => handleAnswerSelect(index)}
-                className={`w-full text-left p-4 rounded-lg border-2 transition-all ${
-                  selectedAnswer === index
-                    ? 'border-cyan-500 bg-cyan-50 text-cyan-900'
-                    : 'border-gray-200 hover:border-gray-300 bg-white'
-                }`}
-              >
-                <div className="flex items-center space-x-3">
-                  <div className={`w-4 h-4 rounded-full border-2 ${
-                    selectedAnswer === index
-                      ? 'border-cyan-500 bg-cyan-500'
-                      : 'border-gray-300'
-                  }`}>
-                    {selectedAnswer === index && (
-                      <div className="w-full h-full rounded-full bg-white scale-50"></div>
-                    )}
-                  </div>
-                  <span className="text-gray-900">{option}</span>
-                </div>
-              </button>
-            ))}
-          </div>
+          <AnswerOptions
+            options={currentQuestion.options}
+            selected={selectedAnswer}
+            onSelect={handleAnswerSelect}
+            labelledBy="assessment-question"
+            reducedMotion={reducedMotion}
+          />
 
           {/* Confidence Slider */}
           {selectedAnswer !== null && (
             <div className="mb-8 p-6 bg-blue-50 border border-blue-200 rounded-lg">
-              <h3 className="text-lg font-medium text-blue-900 mb-4 flex items-center">
-                <TrendingUp className="h-5 w-5 mr-2" />
-                How confident are you about this answer?
+              <h3 id="confidence-label" className="text-lg font-medium text-blue-900 mb-4 flex items-center">
+                <TrendingUp className="h-5 w-5 mr-2" aria-hidden="true" />
+                {t('assessment.confidenceQuestion')}
               </h3>
               
               <div className="space-y-4">
-                <div className="flex items-center justify-between text-sm text-blue-700">
-                  <span>Not Confident</span>
+                <div className="flex items-center justify-between text-sm text-blue-700" aria-hidden="true">
+                  <span>{t('assessment.notConfident')}</span>
                   <span className={`font-medium ${getConfidenceColor(confidenceLevel)}`}>
                     {getConfidenceLabel(confidenceLevel)}
                   </span>
-                  <span>Very Confident</span>
+                  <span>{t('assessment.veryConfident')}</span>
                 </div>
                 
                 <input
@@ -533,6 +523,8 @@ export const AssessmentTest: React.FC = () => {
                   max="5"
                   value={confidenceLevel}
                   onChange={(e) => setConfidenceLevel(parseInt(e.target.value))}
+                  aria-labelledby="confidence-label"
+                  aria-valuetext={getConfidenceLabel(confidenceLevel)}
                   className="w-full h-2 bg-blue-200 rounded-lg appearance-none cursor-pointer slider"
                 />
               </div>
@@ -546,7 +538,7 @@ export const AssessmentTest: React.FC = () => {
               disabled={currentQuestionIndex === 0}
               className="px-6 py-2 border border-gray-300 rounded-lg text-gray-700 hover:bg-gray-50 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
             >
-              Previous
+              {t('common.previous')}
             </button>
 
             <button
@@ -554,7 +546,7 @@ export const AssessmentTest: React.FC = () => {
               disabled={selectedAnswer === null}
               className="px-6 py-2 bg-cyan-600 text-white rounded-lg hover:bg-cyan-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
             >
-              {currentQuestionIndex === assessmentQuestions.length - 1 ? 'Submit Test' : 'Next Question'}
+              {currentQuestionIndex === assessmentQuestions.length - 1 ? t('assessment.submit') : t('assessment.nextQuestion')}
             </button>
           </div>
             </div>
@@ -0,0 +1,52 @@
+import React, { useEffect, useState } from 'react';
+import { Clock } from 'lucide-react';
+import { useI18n } from '../../context/I18nContext';
+
+// Seconds left at which screen readers are told how much time remains
+const WARNINGS = [300, 60, 30];
+
+interface QuizTimerProps {
+  timeLeft: number;
+  totalSeconds: number;
+  // Below this many seconds the clock turns red
+  warnBelow: number;
+  extraTimePercent?: number;
+}
+
+const formatClock = (seconds: number) => {
+  const minutes = Math.floor(seconds / 60);
+  const remainingSeconds = seconds % 60;
+  return `${minutes}:${remainingSeconds.toString().padStart(2, '0')}`;
+};
+
+export const QuizTimer: React.FC<QuizTimerProps> = ({ timeLeft, totalSeconds, warnBelow, extraTimePercent = 0 }) => {
+  const { t, formatNumber } = useI18n();
+  const [announcement, setAnnouncement] = useState('');
+
+  useEffect(() => {
+    if (timeLeft === 0) {
+      setAnnouncement(t('quiz.timeUp'));
+    } else if (WARNINGS.includes(timeLeft) && totalSeconds > timeLeft) {
+      setAnnouncement(timeLeft >= 60
+        ? t('quiz.minutesLeft', { count: timeLeft / 60 })
+        : t('quiz.secondsLeft', { count: timeLeft }));
+    }
+  }, [timeLeft, totalSeconds, t]);
+
+  const clock = formatClock(timeLeft);
+
+  return (
+    <div className="flex items-center space-x-2 text-lg font-medium">
+      <Clock className="h-5 w-5 text-gray-500" aria-hidden="true" />
+      <span role="timer" aria-label={t('quiz.timeRemaining', { time: clock })} className={timeLeft < warnBelow ? 'text-red-600' : 'text-gray-900'}>
+        {clock}
+      </span>
+      {extraTimePercent > 0 && (
+        <span className="text-xs font-medium bg-cyan-100 text-cyan-800 px-2 py-0.5 rounded">
+          {t('quiz.extraTime', { percent: formatNumber(extraTimePercent / 100, { style: 'percent' }) })}
+        </span>
+      )}
+      <span className="sr-only" aria-live="assertive" aria-atomic="true">{announcement}</span>
+    </div>
+  );
+};
@@ -0,0 +1,22 @@
+import React from 'react';
+import { ShieldOff } from 'lucide-react';
+import { useAuth } from '../../context/AuthContext';
+
+export const AccessDenied: React.FC = () => {
+  const { user } = useAuth();
+
+  return (
+    <div className="min-h-[60vh] flex items-center justify-center p-6">
+      <div className="max-w-md w-full text-center bg-slate-800/50 backdrop-blur-sm border border-slate-700 rounded-2xl p-8">
+        <div className="w-16 h-16 mx-auto mb-6 rounded-full bg-red-500/20 flex items-center justify-center">
+          <ShieldOff className="h-8 w-8 text-red-400" />
+        </div>
+        <h2 className="text-2xl font-bold text-white mb-3">Access denied</h2>
+        <p className="text-slate-300">
+          Your {user?.role ?? 'current'} account doesn't have permission to view this page. If you think this is a
+          mistake, contact an administrator.
+        </p>
+      </div>
+    </div>
+  );
+};
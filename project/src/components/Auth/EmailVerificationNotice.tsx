@@ -0,0 +1,62 @@
+import React, { useState } from 'react';
+import { MailWarning } from 'lucide-react';
+import { authService } from '../../services/authService';
+
+interface EmailVerificationNoticeProps {
+  email: string;
+  // Full-page variant shown in place of features that need a confirmed email
+  blocking?: boolean;
+}
+
+export const EmailVerificationNotice: React.FC<EmailVerificationNoticeProps> = ({ email, blocking = false }) => {
+  const [sending, setSending] = useState(false);
+  const [message, setMessage] = useState('');
+
+  const handleResend = async () => {
+    setSending(true);
+    try {
+      setMessage(await authService.resendVerificationEmail());
+    } catch (error) {
+      setMessage(error instanceof Error ? error.message : 'Could not send the email');
+    } finally {
+      setSending(false);
+    }
+  };
+
+  const resendButton = (
+    <button
+      onClick={handleResend}
+      disabled={sending}
+      className="px-4 py-2 rounded-xl bg-gradient-to-r from-orange-500 to-red-500 hover:from-orange-600 hover:to-red-600 text-white text-sm font-medium transition-all duration-200 disabled:opacity-50"
+    >
+      {sending ? 'Sending...' : 'Resend email'}
+    </button>
+  );
+
+  if (blocking) {
+    return (
+      <div className="p-6">
+        <div className="max-w-xl mx-auto mt-12 bg-slate-800/50 backdrop-blur-sm border border-yellow-500/30 rounded-2xl p-8 text-center space-y-4">
+          <MailWarning className="h-12 w-12 text-yellow-400 mx-auto" />
+          <h2 className="text-2xl font-bold text-white">Confirm your email to continue</h2>
+          <p className="text-slate-300">
+            Courses, labs and assessments unlock once you confirm <span className="font-medium text-white">{email}</span>.
+            Check your inbox for the link we sent when you signed up.
+          </p>
+          {resendButton}
+          {message && <p className="text-sm text-slate-400">{message}</p>}
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="bg-yellow-500/10 border-b border-yellow-500/30 px-6 py-3 flex items-center justify-between gap-4">
+      <div className="flex items-center space-x-3 text-yellow-200 text-sm">
+        <MailWarning className="h-5 w-5 flex-shrink-0" />
+        <span>{message || `Please confirm ${email} to unlock all features.`}</span>
+      </div>
+      {resendButton}
+    </div>
+  );
+};
@@ -0,0 +1,96 @@
+import React, { useState } from 'react';
+import { KeyRound, ArrowLeft, MailCheck } from 'lucide-react';
+import { authService } from '../../services/authService';
+
+interface ForgotPasswordFormProps {
+  onBack: () => void;
+}
+
+export const ForgotPasswordForm: React.FC<ForgotPasswordFormProps> = ({ onBack }) => {
+  const [email, setEmail] = useState('');
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState('');
+  const [message, setMessage] = useState('');
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError('');
+    setIsLoading(true);
+
+    try {
+      setMessage(await authService.requestPasswordReset(email));
+    } catch (error) {
+      setError(error instanceof Error ? error.message : 'Could not send reset link');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-slate-900 via-purple-900 to-slate-900 flex items-center justify-center p-4">
+      <div className="max-w-lg w-full space-y-8 animate-fade-in">
+        <div className="text-center">
+          <div className="flex justify-center mb-6">
+            <KeyRound className="h-20 w-20 text-orange-500" />
+          </div>
+          <h2 className="text-4xl font-bold bg-gradient-to-r from-orange-400 to-red-400 bg-clip-text text-transparent mb-3">
+            Forgot your password?
+          </h2>
+          <p className="text-xl text-slate-300">We'll email you a link to choose a new one</p>
+        </div>
+
+        <div className="bg-white/10 backdrop-blur-lg rounded-3xl shadow-2xl p-8 space-y-6 border border-white/20">
+          {error && (
+            <div className="bg-red-500/20 border border-red-500/50 rounded-xl p-4 animate-scale-in">
+              <p className="text-red-200 text-sm text-center">{error}</p>
+            </div>
+          )}
+
+          {message ? (
+            <div className="text-center space-y-4">
+              <MailCheck className="h-12 w-12 text-green-400 mx-auto" />
+              <p className="text-slate-200">{message}</p>
+              <p className="text-slate-400 text-sm">The link is valid for one hour.</p>
+            </div>
+          ) : (
+            <form onSubmit={handleSubmit} className="space-y-6">
+              <div>
+                <label htmlFor="email" className="block text-sm font-medium text-slate-200 mb-2">
+                  Email Address
+                </label>
+                <input
+                  id="email"
+                  type="email"
+                  required
+                  value={email}
+                  onChange={(e) => setEmail(e.target.value)}
+                  className="w-full px-4 py-4 bg-slate-800/50 border border-slate-600 rounded-2xl text-white placeholder-slate-400 focus:outline-none focus:ring-2 focus:ring-orange-500 focus:border-transparent transition-all duration-300"
+                  placeholder="Enter your account email"
+                />
+              </div>
+
+              <button
+                type="submit"
+                disabled={isLoading}
+                className="w-full py-4 px-6 bg-gradient-to-r from-orange-600 to-red-600 hover:from-orange-700 hover:to-red-700 text-white font-medium rounded-2xl shadow-lg hover:shadow-xl transform hover:scale-[1.02] transition-all duration-300 disabled:opacity-50 disabled:cursor-not-allowed disabled:transform-none"
+              >
+                {isLoading ? 'Sending link...' : 'Send Reset Link'}
+              </button>
+            </form>
+          )}
+
+          <div className="text-center">
+            <button
+              type="button"
+              onClick={onBack}
+              className="inline-flex items-center space-x-2 text-orange-400 hover:text-orange-300 text-sm font-medium transition-colors duration-300 hover:underline"
+            >
+              <ArrowLeft className="h-4 w-4" />
+              <span>Back to sign in</span>
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
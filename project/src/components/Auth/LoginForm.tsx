@@ -1,19 +1,42 @@
-import React, { useState } from 'react';
-import { Shield, Eye, EyeOff, GraduationCap, Users, Settings } from 'lucide-react';
+import React, { useState, useEffect } from 'react';
+import { Shield, Eye, EyeOff, GraduationCap, Users, Settings, KeyRound, Building2 } from 'lucide-react';
 import { useAuth } from '../../context/AuthContext';
+import { TwoFactorSetup } from './TwoFactorSetup';
+import { authService } from '../../services/authService';
+
+// Remembers the organization last used for single sign-on on this browser
+const SSO_ORGANIZATION_KEY = 'cyberSecSsoOrganization';
 
 interface LoginFormProps {
   onToggleMode: () => void;
+  onForgotPassword: () => void;
+  notice?: string;
+  // Error from a single sign-on attempt that returned to the app
+  ssoError?: string;
+  // Second factor still needed after a single sign-on
+  pendingMfaStep?: MfaStep | null;
 }
 
-export const LoginForm: React.FC<LoginFormProps> = ({ onToggleMode }) => {
+type MfaStep = { status: 'mfa_required' | 'mfa_setup_required'; mfaToken: string };
+
+export const LoginForm: React.FC<LoginFormProps> = ({ onToggleMode, onForgotPassword, notice, ssoError, pendingMfaStep }) => {
   const [email, setEmail] = useState('');
   const [password, setPassword] = useState('');
   const [role, setRole] = useState<'admin' | 'teacher' | 'student'>('student');
   const [showPassword, setShowPassword] = useState(false);
   const [isLoading, setIsLoading] = useState(false);
   const [error, setError] = useState('');
-  const { login } = useAuth();
+  // Set when the password was accepted but a second factor (or 2FA enrolment) is still needed
+  const [mfaStep, setMfaStep] = useState<MfaStep | null>(null);
+  const [mfaCode, setMfaCode] = useState('');
+  const [useRecoveryCode, setUseRecoveryCode] = useState(false);
+  const [showSso, setShowSso] = useState(false);
+  const [organizationSlug, setOrganizationSlug] = useState(() => localStorage.getItem(SSO_ORGANIZATION_KEY) ?? '');
+  const { login, verifyMfa, completeMfaEnrollment } = useAuth();
+
+  useEffect(() => {
+    if (pendingMfaStep) setMfaStep(pendingMfaStep);
+  }, [pendingMfaStep]);
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
@@ -21,7 +44,11 @@ export const LoginForm: React.FC<LoginFormProps> = ({ onToggleMode }) => {
     setIsLoading(true);
     
     try {
-      await (login as (email: string, password: string, role: 'admin' | 'teacher' | 'student') => Promise<boolean>)(email, password, role);
+      const result = await login(email, password, role);
+      if (result.status !== 'authenticated') {
+        setMfaStep(result);
+        setPassword('');
+      }
     } catch (error) {
       setError(error instanceof Error ? error.message : 'Login failed');
     } finally {
@@ -29,6 +56,37 @@ export const LoginForm: React.FC<LoginFormProps> = ({ onToggleMode }) => {
     }
   };
 
+  const handleVerifyMfa = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!mfaStep) return;
+    setError('');
+    setIsLoading(true);
+
+    try {
+      const code = mfaCode.trim();
+      await verifyMfa(mfaStep.mfaToken, useRecoveryCode ? { recoveryCode: code } : { code });
+    } catch (error) {
+      setError(error instanceof Error ? error.message : 'Verification failed');
+      setMfaCode('');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleSsoLogin = (e: React.FormEvent) => {
+    e.preventDefault();
+    const slug = organizationSlug.trim().toLowerCase();
+    localStorage.setItem(SSO_ORGANIZATION_KEY, slug);
+    authService.startSsoLogin(slug);
+  };
+
+  const handleBackToLogin = () => {
+    setMfaStep(null);
+    setMfaCode('');
+    setUseRecoveryCode(false);
+    setError('');
+  };
+
   return (
     <div className="min-h-screen bg-gradient-to-br from-slate-900 via-purple-900 to-slate-900 flex items-center justify-center p-4">
       <div className="max-w-lg w-full space-y-8 animate-fade-in">
@@ -48,115 +106,251 @@ export const LoginForm: React.FC<LoginFormProps> = ({ onToggleMode }) => {
         </div>
 
         <div className="bg-white/10 backdrop-blur-lg rounded-3xl shadow-2xl p-8 space-y-6 border border-white/20">
-          {error && (
+          {notice && !error && !ssoError && (
+            <div className="bg-green-500/20 border border-green-500/50 rounded-xl p-4 animate-scale-in">
+              <p className="text-green-200 text-sm text-center">{notice}</p>
+            </div>
+          )}
+
+          {(error || ssoError) && (
             <div className="bg-red-500/20 border border-red-500/50 rounded-xl p-4 animate-scale-in">
-              <p className="text-red-200 text-sm text-center">{error}</p>
+              <p className="text-red-200 text-sm text-center">{error || ssoError}</p>
             </div>
           )}
 
-          <form onSubmit={handleSubmit} className="space-y-6">
-            <div>
-              <label htmlFor="role" className="block text-sm font-medium text-slate-200 mb-3">
-                Select Your Role
-              </label>
-              <div className="grid grid-cols-3 gap-3">
-                <button
-                  type="button"
-                  onClick={() => setRole('student')}
-                  className={`group p-4 rounded-2xl border-2 transition-all duration-300 transform hover:scale-105 ${
-                    role === 'student' 
-                      ? 'border-blue-400 bg-blue-500/20 text-blue-300 shadow-lg shadow-blue-500/25' 
-                      : 'border-slate-600 hover:border-slate-500 text-slate-400 hover:text-slate-300'
-                  }`}
-                >
-                  <GraduationCap className="h-8 w-8 mx-auto mb-2 group-hover:animate-bounce" />
-                  <div className="text-sm font-medium">Student</div>
-                </button>
+          {mfaStep?.status === 'mfa_setup_required' ? (
+            <>
+              <p className="text-slate-300 text-sm">
+                Two-factor authentication is required for teacher and admin accounts. Set it up to finish signing in.
+              </p>
+              <TwoFactorSetup
+                mfaToken={mfaStep.mfaToken}
+                onComplete={completeMfaEnrollment}
+                onCancel={handleBackToLogin}
+              />
+            </>
+          ) : mfaStep ? (
+            <form onSubmit={handleVerifyMfa} className="space-y-6">
+              <div className="text-center">
+                <KeyRound className="h-10 w-10 text-orange-400 mx-auto mb-3" />
+                <h3 className="text-xl font-semibold text-white">Two-factor authentication</h3>
+                <p className="text-slate-300 text-sm mt-2">
+                  {useRecoveryCode
+                    ? 'Enter one of your recovery codes.'
+                    : 'Enter the 6-digit code from your authenticator app.'}
+                </p>
+              </div>
+
+              <input
+                id="mfa-code"
+                type="text"
+                inputMode={useRecoveryCode ? 'text' : 'numeric'}
+                autoComplete="one-time-code"
+                aria-label={useRecoveryCode ? 'Recovery code' : 'Authentication code'}
+                required
+                autoFocus
+                value={mfaCode}
+                onChange={(e) => setMfaCode(useRecoveryCode ? e.target.value : e.target.value.replace(/\D/g, '').slice(0, 6))}
+                className="w-full px-4 py-4 bg-slate-800/50 border border-slate-600 rounded-2xl text-white text-center text-2xl tracking-[0.3em] placeholder-slate-500 focus:outline-none focus:ring-2 focus:ring-orange-500 focus:border-transparent transition-all duration-300"
+                placeholder={useRecoveryCode ? 'xxxxx-xxxxx' : '000000'}
+              />
+
+              <button
+                type="submit"
+                disabled={isLoading}
+                className="w-full py-4 px-6 bg-gradient-to-r from-orange-600 to-red-600 hover:from-orange-700 hover:to-red-700 text-white font-medium rounded-2xl shadow-lg hover:shadow-xl transition-all duration-300 disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                {isLoading ? 'Verifying...' : 'Verify'}
+              </button>
+
+              <div className="flex justify-between text-sm">
                 <button
                   type="button"
-                  onClick={() => setRole('teacher')}
-                  className={`group p-4 rounded-2xl border-2 transition-all duration-300 transform hover:scale-105 ${
-                    role === 'teacher' 
-                      ? 'border-green-400 bg-green-500/20 text-green-300 shadow-lg shadow-green-500/25' 
-                      : 'border-slate-600 hover:border-slate-500 text-slate-400 hover:text-slate-300'
-                  }`}
+                  onClick={handleBackToLogin}
+                  className="text-slate-400 hover:text-slate-300 transition-colors duration-300 hover:underline"
                 >
-                  <Users className="h-8 w-8 mx-auto mb-2 group-hover:animate-bounce" />
-                  <div className="text-sm font-medium">Teacher</div>
+                  Back to sign in
                 </button>
                 <button
                   type="button"
-                  onClick={() => setRole('admin')}
-                  className={`group p-4 rounded-2xl border-2 transition-all duration-300 transform hover:scale-105 ${
-                    role === 'admin' 
-                      ? 'border-purple-400 bg-purple-500/20 text-purple-300 shadow-lg shadow-purple-500/25' 
-                      : 'border-slate-600 hover:border-slate-500 text-slate-400 hover:text-slate-300'
-                  }`}
+                  onClick={() => {
+                    setUseRecoveryCode(!useRecoveryCode);
+                    setMfaCode('');
+                  }}
+                  className="text-orange-400 hover:text-orange-300 transition-colors duration-300 hover:underline"
                 >
-                  <Settings className="h-8 w-8 mx-auto mb-2 group-hover:animate-bounce" />
-                  <div className="text-sm font-medium">Admin</div>
+                  {useRecoveryCode ? 'Use authenticator app' : 'Use a recovery code'}
                 </button>
               </div>
-            </div>
+            </form>
+          ) : showSso ? (
+            <form onSubmit={handleSsoLogin} className="space-y-6">
+              <div className="text-center">
+                <Building2 className="h-10 w-10 text-orange-400 mx-auto mb-3" />
+                <h3 className="text-xl font-semibold text-white">Sign in with your organization</h3>
+                <p className="text-slate-300 text-sm mt-2">
+                  You'll continue to your company's sign-in page and come back here afterwards.
+                </p>
+              </div>
 
-            <div>
-              <label htmlFor="email" className="block text-sm font-medium text-slate-200 mb-2">
-                Email Address
-              </label>
-              <input
-                id="email"
-                type="email"
-                required
-                value={email}
-                onChange={(e) => setEmail(e.target.value)}
-                className="w-full px-4 py-4 bg-slate-800/50 border border-slate-600 rounded-2xl text-white placeholder-slate-400 focus:outline-none focus:ring-2 focus:ring-orange-500 focus:border-transparent transition-all duration-300"
-                placeholder="Enter your email"
-              />
-            </div>
+              <div>
+                <label htmlFor="sso-organization" className="block text-sm font-medium text-slate-200 mb-2">
+                  Organization ID
+                </label>
+                <input
+                  id="sso-organization"
+                  type="text"
+                  required
+                  autoFocus
+                  value={organizationSlug}
+                  onChange={(e) => setOrganizationSlug(e.target.value)}
+                  className="w-full px-4 py-4 bg-slate-800/50 border border-slate-600 rounded-2xl text-white placeholder-slate-400 focus:outline-none focus:ring-2 focus:ring-orange-500 focus:border-transparent transition-all duration-300"
+                  placeholder="e.g. acme-corp"
+                />
+              </div>
 
-            <div>
-              <label htmlFor="password" className="block text-sm font-medium text-slate-200 mb-2">
-                Password
-              </label>
-              <div className="relative">
+              <button
+                type="submit"
+                disabled={!organizationSlug.trim()}
+                className="w-full py-4 px-6 bg-gradient-to-r from-orange-600 to-red-600 hover:from-orange-700 hover:to-red-700 text-white font-medium rounded-2xl shadow-lg hover:shadow-xl transition-all duration-300 disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                Continue
+              </button>
+
+              <button
+                type="button"
+                onClick={() => setShowSso(false)}
+                className="w-full text-sm text-slate-400 hover:text-slate-300 transition-colors duration-300 hover:underline"
+              >
+                Sign in with email and password
+              </button>
+            </form>
+          ) : (
+            <form onSubmit={handleSubmit} className="space-y-6">
+              <div>
+                <label htmlFor="role" className="block text-sm font-medium text-slate-200 mb-3">
+                  Select Your Role
+                </label>
+                <div className="grid grid-cols-3 gap-3">
+                  <button
+                    type="button"
+                    onClick={() => setRole('student')}
+                    className={`group p-4 rounded-2xl border-2 transition-all duration-300 transform hover:scale-105 ${
+                      role === 'student' 
+                        ? 'border-blue-400 bg-blue-500/20 text-blue-300 shadow-lg shadow-blue-500/25' 
+                        : 'border-slate-600 hover:border-slate-500 text-slate-400 hover:text-slate-300'
+                    }`}
+                  >
+                    <GraduationCap className="h-8 w-8 mx-auto mb-2 group-hover:animate-bounce" />
+                    <div className="text-sm font-medium">Student</div>
+                  </button>
+                  <button
+                    type="button"
+                    onClick={() => setRole('teacher')}
+                    className={`group p-4 rounded-2xl border-2 transition-all duration-300 transform hover:scale-105 ${
+                      role === 'teacher' 
+                        ? 'border-green-400 bg-green-500/20 text-green-300 shadow-lg shadow-green-500/25' 
+                        : 'border-slate-600 hover:border-slate-500 text-slate-400 hover:text-slate-300'
+                    }`}
+                  >
+                    <Users className="h-8 w-8 mx-auto mb-2 group-hover:animate-bounce" />
+                    <div className="text-sm font-medium">Teacher</div>
+                  </button>
+                  <button
+                    type="button"
+                    onClick={() => setRole('admin')}
+                    className={`group p-4 rounded-2xl border-2 transition-all duration-300 transform hover:scale-105 ${
+                      role === 'admin' 
+                        ? 'border-purple-400 bg-purple-500/20 text-purple-300 shadow-lg shadow-purple-500/25' 
+                        : 'border-slate-600 hover:border-slate-500 text-slate-400 hover:text-slate-300'
+                    }`}
+                  >
+                    <Settings className="h-8 w-8 mx-auto mb-2 group-hover:animate-bounce" />
+                    <div className="text-sm font-medium">Admin</div>
+                  </button>
+                </div>
+              </div>
+
+              <div>
+                <label htmlFor="email" className="block text-sm font-medium text-slate-200 mb-2">
+                  Email Address
+                </label>
                 <input
-                  id="password"
-                  type={showPassword ? 'text' : 'password'}
+                  id="email"
+                  type="email"
                   required
-                  value={password}
-                  onChange={(e) => setPassword(e.target.value)}
-                  className="w-full px-4 py-4 pr-12 bg-slate-800/50 border border-slate-600 rounded-2xl text-white placeholder-slate-400 focus:outline-none focus:ring-2 focus:ring-orange-500 focus:border-transparent transition-all duration-300"
-                  placeholder="Enter your password"
+                  value={email}
+                  onChange={(e) => setEmail(e.target.value)}
+                  className="w-full px-4 py-4 bg-slate-800/50 border border-slate-600 rounded-2xl text-white placeholder-slate-400 focus:outline-none focus:ring-2 focus:ring-orange-500 focus:border-transparent transition-all duration-300"
+                  placeholder="Enter your email"
                 />
-                <button
-                  type="button"
-                  className="absolute inset-y-0 right-0 pr-4 flex items-center text-slate-400 hover:text-slate-300 transition-colors"
-                  onClick={() => setShowPassword(!showPassword)}
-                >
-                  {showPassword ? (
-                    <EyeOff className="h-5 w-5" />
-                  ) : (
-                    <Eye className="h-5 w-5" />
-                  )}
-                </button>
               </div>
-            </div>
 
-            <button
-              type="submit"
-              disabled={isLoading}
-              className="w-full py-4 px-6 bg-gradient-to-r from-orange-600 to-red-600 hover:from-orange-700 hover:to-red-700 text-white font-medium rounded-2xl shadow-lg hover:shadow-xl transform hover:scale-[1.02] transition-all duration-300 disabled:opacity-50 disabled:cursor-not-allowed disabled:transform-none"
-            >
-              {isLoading ? (
-                <div className="flex items-center justify-center space-x-2">
-                  <div className="animate-spin rounded-full h-5 w-5 border-b-2 border-white"></div>
-                  <span>Signing in...</span>
+              <div>
+                <label htmlFor="password" className="block text-sm font-medium text-slate-200 mb-2">
+                  Password
+                </label>
+                <div className="relative">
+                  <input
+                    id="password"
+                    type={showPassword ? 'text' : 'password'}
+                    required
+                    value={password}
+                    onChange={(e) => setPassword(e.target.value)}
+                    className="w-full px-4 py-4 pr-12 bg-slate-800/50 border border-slate-600 rounded-2xl text-white placeholder-slate-400 focus:outline-none focus:ring-2 focus:ring-orange-500 focus:border-transparent transition-all duration-300"
+                    placeholder="Enter your password"
+                  />
+                  <button
+                    type="button"
+                    className="absolute inset-y-0 right-0 pr-4 flex items-center text-slate-400 hover:text-slate-300 transition-colors"
+                    onClick={() => setShowPassword(!showPassword)}
+                  >
+                    {showPassword ? (
+                      <EyeOff className="h-5 w-5" />
+                    ) : (
+                      <Eye className="h-5 w-5" />
+                    )}
+                  </button>
                 </div>
-              ) : (
-                'Sign In'
-              )}
-            </button>
-          </form>
+                <div className="mt-2 text-right">
+                  <button
+                    type="button"
+                    onClick={onForgotPassword}
+                    className="text-sm text-slate-400 hover:text-orange-300 transition-colors duration-300 hover:underline"
+                  >
+                    Forgot password?
+                  </button>
+                </div>
+              </div>
+
+              <button
+                type="submit"
+                disabled={isLoading}
+                className="w-full py-4 px-6 bg-gradient-to-r from-orange-600 to-red-600 hover:from-orange-700 hover:to-red-700 text-white font-medium rounded-2xl shadow-lg hover:shadow-xl transform hover:scale-[1.02] transition-all duration-300 disabled:opacity-50 disabled:cursor-not-allowed disabled:transform-none"
+              >
+                {isLoading ? (
+                  <div className="flex items-center justify-center space-x-2">
+                    <div className="animate-spin rounded-full h-5 w-5 border-b-2 border-white"></div>
+                    <span>Signing in...</span>
+                  </div>
+                ) : (
+                  'Sign In'
+                )}
+              </button>
+
+              <button
+                type="button"
+                onClick={() => {
+                  setShowSso(true);
+                  setError('');
+                }}
+                className="w-full flex items-center justify-center space-x-2 py-3 px-6 bg-slate-800/50 hover:bg-slate-700/50 border border-slate-600 text-slate-200 font-medium rounded-2xl transition-all duration-300"
+              >
+                <Building2 className="h-5 w-5" />
+                <span>Sign in with SSO</span>
+              </button>
+            </form>
+          )}
 
           <div className="text-center">
             <button
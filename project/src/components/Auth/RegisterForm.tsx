@@ -1,6 +1,8 @@
 import React, { useState } from 'react';
 import { Shield, Eye, EyeOff, GraduationCap, Users, Settings } from 'lucide-react';
 import { useAuth } from '../../context/AuthContext';
+import { TwoFactorSetup } from './TwoFactorSetup';
+import { PROFILE_LIMITS } from '../../services/profileService';
 
 interface RegisterFormProps {
   onToggleMode: () => void;
@@ -15,9 +17,12 @@ export const RegisterForm: React.FC<RegisterFormProps> = ({ onToggleMode }) => {
   const [showPassword, setShowPassword] = useState(false);
   const [bio, setBio] = useState('');
   const [specialization, setSpecialization] = useState('');
+  const [inviteCode, setInviteCode] = useState('');
   const [isLoading, setIsLoading] = useState(false);
   const [error, setError] = useState('');
-  const { register } = useAuth();
+  // Enrolment token for staff, who set up 2FA before their first sign-in
+  const [mfaToken, setMfaToken] = useState<string | null>(null);
+  const { register, completeMfaEnrollment } = useAuth();
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
@@ -31,7 +36,12 @@ export const RegisterForm: React.FC<RegisterFormProps> = ({ onToggleMode }) => {
     setIsLoading(true);
     
     try {
-      await register(email, password, name, role, bio, specialization);
+      const result = await register(email, password, name, role, bio, specialization, role === 'student' ? undefined : inviteCode);
+      if (result.status === 'mfa_setup_required') {
+        setMfaToken(result.mfaToken);
+        setPassword('');
+        setConfirmPassword('');
+      }
     } catch (error) {
       setError(error instanceof Error ? error.message : 'Registration failed');
     } finally {
@@ -64,174 +74,205 @@ export const RegisterForm: React.FC<RegisterFormProps> = ({ onToggleMode }) => {
             </div>
           )}
 
-          <form onSubmit={handleSubmit} className="space-y-6">
-            <div>
-              <label htmlFor="role" className="block text-sm font-medium text-slate-200 mb-3">
-                Select Your Role
-              </label>
-              <div className="grid grid-cols-3 gap-3">
-                <button
-                  type="button"
-                  onClick={() => setRole('student')}
-                  className={`group p-4 rounded-2xl border-2 transition-all duration-300 transform hover:scale-105 ${
-                    role === 'student' 
-                      ? 'border-blue-400 bg-blue-500/20 text-blue-300 shadow-lg shadow-blue-500/25' 
-                      : 'border-slate-600 hover:border-slate-500 text-slate-400 hover:text-slate-300'
-                  }`}
-                >
-                  <GraduationCap className="h-8 w-8 mx-auto mb-2 group-hover:animate-bounce" />
-                  <div className="text-sm font-medium">Student</div>
-                </button>
-                <button
-                  type="button"
-                  onClick={() => setRole('teacher')}
-                  className={`group p-4 rounded-2xl border-2 transition-all duration-300 transform hover:scale-105 ${
-                    role === 'teacher' 
-                      ? 'border-green-400 bg-green-500/20 text-green-300 shadow-lg shadow-green-500/25' 
-                      : 'border-slate-600 hover:border-slate-500 text-slate-400 hover:text-slate-300'
-                  }`}
-                >
-                  <Users className="h-8 w-8 mx-auto mb-2 group-hover:animate-bounce" />
-                  <div className="text-sm font-medium">Teacher</div>
-                </button>
-                <button
-                  type="button"
-                  onClick={() => setRole('admin')}
-                  className={`group p-4 rounded-2xl border-2 transition-all duration-300 transform hover:scale-105 ${
-                    role === 'admin' 
-                      ? 'border-purple-400 bg-purple-500/20 text-purple-300 shadow-lg shadow-purple-500/25' 
-                      : 'border-slate-600 hover:border-slate-500 text-slate-400 hover:text-slate-300'
-                  }`}
-                >
-                  <Settings className="h-8 w-8 mx-auto mb-2 group-hover:animate-bounce" />
-                  <div className="text-sm font-medium">Admin</div>
-                </button>
-              </div>
-            </div>
-
-            <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
-              <div>
-                <label htmlFor="name" className="block text-sm font-medium text-slate-200 mb-2">
-                  Full Name
-                </label>
-                <input
-                  id="name"
-                  type="text"
-                  required
-                  value={name}
-                  onChange={(e) => setName(e.target.value)}
-                  className="w-full px-4 py-4 bg-slate-800/50 border border-slate-600 rounded-2xl text-white placeholder-slate-400 focus:outline-none focus:ring-2 focus:ring-orange-500 focus:border-transparent transition-all duration-300"
-                  placeholder="Enter your full name"
-                />
-              </div>
-
+          {mfaToken ? (
+            <>
+              <p className="text-slate-300 text-sm">
+                Your account is ready. Two-factor authentication is required for {role} accounts, so set it up to finish signing in.
+              </p>
+              <TwoFactorSetup mfaToken={mfaToken} onComplete={completeMfaEnrollment} onCancel={onToggleMode} />
+            </>
+          ) : (
+            <form onSubmit={handleSubmit} className="space-y-6">
               <div>
-                <label htmlFor="email" className="block text-sm font-medium text-slate-200 mb-2">
-                  Email Address
+                <label htmlFor="role" className="block text-sm font-medium text-slate-200 mb-3">
+                  Select Your Role
                 </label>
-                <input
-                  id="email"
-                  type="email"
-                  required
-                  value={email}
-                  onChange={(e) => setEmail(e.target.value)}
-                  className="w-full px-4 py-4 bg-slate-800/50 border border-slate-600 rounded-2xl text-white placeholder-slate-400 focus:outline-none focus:ring-2 focus:ring-orange-500 focus:border-transparent transition-all duration-300"
-                  placeholder="Enter your email"
-                />
+                <div className="grid grid-cols-3 gap-3">
+                  <button
+                    type="button"
+                    onClick={() => setRole('student')}
+                    className={`group p-4 rounded-2xl border-2 transition-all duration-300 transform hover:scale-105 ${
+                      role === 'student' 
+                        ? 'border-blue-400 bg-blue-500/20 text-blue-300 shadow-lg shadow-blue-500/25' 
+                        : 'border-slate-600 hover:border-slate-500 text-slate-400 hover:text-slate-300'
+                    }`}
+                  >
+                    <GraduationCap className="h-8 w-8 mx-auto mb-2 group-hover:animate-bounce" />
+                    <div className="text-sm font-medium">Student</div>
+                  </button>
+                  <button
+                    type="button"
+                    onClick={() => setRole('teacher')}
+                    className={`group p-4 rounded-2xl border-2 transition-all duration-300 transform hover:scale-105 ${
+                      role === 'teacher' 
+                        ? 'border-green-400 bg-green-500/20 text-green-300 shadow-lg shadow-green-500/25' 
+                        : 'border-slate-600 hover:border-slate-500 text-slate-400 hover:text-slate-300'
+                    }`}
+                  >
+                    <Users className="h-8 w-8 mx-auto mb-2 group-hover:animate-bounce" />
+                    <div className="text-sm font-medium">Teacher</div>
+                  </button>
+                  <button
+                    type="button"
+                    onClick={() => setRole('admin')}
+                    className={`group p-4 rounded-2xl border-2 transition-all duration-300 transform hover:scale-105 ${
+                      role === 'admin' 
+                        ? 'border-purple-400 bg-purple-500/20 text-purple-300 shadow-lg shadow-purple-500/25' 
+                        : 'border-slate-600 hover:border-slate-500 text-slate-400 hover:text-slate-300'
+                    }`}
+                  >
+                    <Settings className="h-8 w-8 mx-auto mb-2 group-hover:animate-bounce" />
+                    <div className="text-sm font-medium">Admin</div>
+                  </button>
+                </div>
               </div>
-            </div>
 
-            {(role === 'teacher' || role === 'admin') && (
               <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
                 <div>
-                  <label htmlFor="specialization" className="block text-sm font-medium text-slate-200 mb-2">
-                    Specialization
+                  <label htmlFor="name" className="block text-sm font-medium text-slate-200 mb-2">
+                    Full Name
                   </label>
                   <input
-                    id="specialization"
+                    id="name"
                     type="text"
-                    value={specialization}
-                    onChange={(e) => setSpecialization(e.target.value)}
+                    required
+                    value={name}
+                    onChange={(e) => setName(e.target.value)}
                     className="w-full px-4 py-4 bg-slate-800/50 border border-slate-600 rounded-2xl text-white placeholder-slate-400 focus:outline-none focus:ring-2 focus:ring-orange-500 focus:border-transparent transition-all duration-300"
-                    placeholder="e.g., Web Security, Network Security"
+                    placeholder="Enter your full name"
                   />
                 </div>
+
                 <div>
-                  <label htmlFor="bio" className="block text-sm font-medium text-slate-200 mb-2">
-                    Bio
+                  <label htmlFor="email" className="block text-sm font-medium text-slate-200 mb-2">
+                    Email Address
                   </label>
-                  <textarea
-                    id="bio"
-                    value={bio}
-                    onChange={(e) => setBio(e.target.value)}
-                    rows={3}
-                    className="w-full px-4 py-4 bg-slate-800/50 border border-slate-600 rounded-2xl text-white placeholder-slate-400 focus:outline-none focus:ring-2 focus:ring-orange-500 focus:border-transparent transition-all duration-300 resize-none"
-                    placeholder="Brief description about yourself"
+                  <input
+                    id="email"
+                    type="email"
+                    required
+                    value={email}
+                    onChange={(e) => setEmail(e.target.value)}
+                    className="w-full px-4 py-4 bg-slate-800/50 border border-slate-600 rounded-2xl text-white placeholder-slate-400 focus:outline-none focus:ring-2 focus:ring-orange-500 focus:border-transparent transition-all duration-300"
+                    placeholder="Enter your email"
                   />
                 </div>
               </div>
-            )}
 
-            <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
-              <div>
-                <label htmlFor="password" className="block text-sm font-medium text-slate-200 mb-2">
-                  Password
-                </label>
-                <div className="relative">
+              {(role === 'teacher' || role === 'admin') && (
+                <div>
+                  <label htmlFor="inviteCode" className="block text-sm font-medium text-slate-200 mb-2">
+                    Invite Code
+                  </label>
                   <input
-                    id="password"
-                    type={showPassword ? 'text' : 'password'}
+                    id="inviteCode"
+                    type="text"
                     required
-                    value={password}
-                    onChange={(e) => setPassword(e.target.value)}
-                    className="w-full px-4 py-4 pr-12 bg-slate-800/50 border border-slate-600 rounded-2xl text-white placeholder-slate-400 focus:outline-none focus:ring-2 focus:ring-orange-500 focus:border-transparent transition-all duration-300"
-                    placeholder="Enter your password"
+                    value={inviteCode}
+                    onChange={(e) => setInviteCode(e.target.value.toUpperCase())}
+                    className="w-full px-4 py-4 bg-slate-800/50 border border-slate-600 rounded-2xl text-white placeholder-slate-400 font-mono tracking-widest focus:outline-none focus:ring-2 focus:ring-orange-500 focus:border-transparent transition-all duration-300"
+                    placeholder="XXXX-XXXX-XXXX"
                   />
-                  <button
-                    type="button"
-                    className="absolute inset-y-0 right-0 pr-4 flex items-center text-slate-400 hover:text-slate-300 transition-colors"
-                    onClick={() => setShowPassword(!showPassword)}
-                  >
-                    {showPassword ? (
-                      <EyeOff className="h-5 w-5" />
-                    ) : (
-                      <Eye className="h-5 w-5" />
-                    )}
-                  </button>
+                  <p className="mt-2 text-xs text-slate-400">
+                    {role === 'teacher' ? 'Teacher' : 'Admin'} accounts are invite-only. Use the code an administrator sent to this email address.
+                  </p>
                 </div>
-              </div>
-
-              <div>
-                <label htmlFor="confirmPassword" className="block text-sm font-medium text-slate-200 mb-2">
-                  Confirm Password
-                </label>
-                <input
-                  id="confirmPassword"
-                  type="password"
-                  required
-                  value={confirmPassword}
-                  onChange={(e) => setConfirmPassword(e.target.value)}
-                  className="w-full px-4 py-4 bg-slate-800/50 border border-slate-600 rounded-2xl text-white placeholder-slate-400 focus:outline-none focus:ring-2 focus:ring-orange-500 focus:border-transparent transition-all duration-300"
-                  placeholder="Confirm your password"
-                />
-              </div>
-            </div>
+              )}
 
-            <button
-              type="submit"
-              disabled={isLoading}
-              className="w-full py-4 px-6 bg-gradient-to-r from-orange-600 to-red-600 hover:from-orange-700 hover:to-red-700 text-white font-medium rounded-2xl shadow-lg hover:shadow-xl transform hover:scale-[1.02] transition-all duration-300 disabled:opacity-50 disabled:cursor-not-allowed disabled:transform-none"
-            >
-              {isLoading ? (
-                <div className="flex items-center justify-center space-x-2">
-                  <div className="animate-spin rounded-full h-5 w-5 border-b-2 border-white"></div>
-                  <span>Creating account...</span>
+              {(role === 'teacher' || role === 'admin') && (
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+                  <div>
+                    <label htmlFor="specialization" className="block text-sm font-medium text-slate-200 mb-2">
+                      Specialization
+                    </label>
+                    <input
+                      id="specialization"
+                      type="text"
+                      value={specialization}
+                      maxLength={PROFILE_LIMITS.specialization}
+                      onChange={(e) => setSpecialization(e.target.value)}
+                      className="w-full px-4 py-4 bg-slate-800/50 border border-slate-600 rounded-2xl text-white placeholder-slate-400 focus:outline-none focus:ring-2 focus:ring-orange-500 focus:border-transparent transition-all duration-300"
+                      placeholder="e.g., Web Security, Network Security"
+                    />
+                  </div>
+                  <div>
+                    <label htmlFor="bio" className="block text-sm font-medium text-slate-200 mb-2">
+                      Bio
+                    </label>
+                    <textarea
+                      id="bio"
+                      value={bio}
+                      maxLength={PROFILE_LIMITS.bio}
+                      onChange={(e) => setBio(e.target.value)}
+                      rows={3}
+                      className="w-full px-4 py-4 bg-slate-800/50 border border-slate-600 rounded-2xl text-white placeholder-slate-400 focus:outline-none focus:ring-2 focus:ring-orange-500 focus:border-transparent transition-all duration-300 resize-none"
+                      placeholder="Brief description about yourself"
+                    />
+                  </div>
                 </div>
-              ) : (
-                'Create Account'
               )}
-            </button>
-          </form>
+
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+                <div>
+                  <label htmlFor="password" className="block text-sm font-medium text-slate-200 mb-2">
+                    Password
+                  </label>
+                  <div className="relative">
+                    <input
+                      id="password"
+                      type={showPassword ? 'text' : 'password'}
+                      required
+                      value={password}
+                      onChange={(e) => setPassword(e.target.value)}
+                      className="w-full px-4 py-4 pr-12 bg-slate-800/50 border border-slate-600 rounded-2xl text-white placeholder-slate-400 focus:outline-none focus:ring-2 focus:ring-orange-500 focus:border-transparent transition-all duration-300"
+                      placeholder="Enter your password"
+                    />
+                    <button
+                      type="button"
+                      className="absolute inset-y-0 right-0 pr-4 flex items-center text-slate-400 hover:text-slate-300 transition-colors"
+                      onClick={() => setShowPassword(!showPassword)}
+                    >
+                      {showPassword ? (
+                        <EyeOff className="h-5 w-5" />
+                      ) : (
+                        <Eye className="h-5 w-5" />
+                      )}
+                    </button>
+                  </div>
+                </div>
+
+                <div>
+                  <label htmlFor="confirmPassword" className="block text-sm font-medium text-slate-200 mb-2">
+                    Confirm Password
+                  </label>
+                  <input
+                    id="confirmPassword"
+                    type="password"
+                    required
+                    value={confirmPassword}
+                    onChange={(e) => setConfirmPassword(e.target.value)}
+                    className="w-full px-4 py-4 bg-slate-800/50 border border-slate-600 rounded-2xl text-white placeholder-slate-400 focus:outline-none focus:ring-2 focus:ring-orange-500 focus:border-transparent transition-all duration-300"
+                    placeholder="Confirm your password"
+                  />
+                </div>
+              </div>
+
+              <button
+                type="submit"
+                disabled={isLoading}
+                className="w-full py-4 px-6 bg-gradient-to-r from-orange-600 to-red-600 hover:from-orange-700 hover:to-red-700 text-white font-medium rounded-2xl shadow-lg hover:shadow-xl transform hover:scale-[1.02] transition-all duration-300 disabled:opacity-50 disabled:cursor-not-allowed disabled:transform-none"
+              >
+                {isLoading ? (
+                  <div className="flex items-center justify-center space-x-2">
+                    <div className="animate-spin rounded-full h-5 w-5 border-b-2 border-white"></div>
+                    <span>Creating account...</span>
+                  </div>
+                ) : (
+                  'Create Account'
+                )}
+              </button>
+            </form>
+          )}
 
           <div className="text-center">
             <button
@@ -0,0 +1,17 @@
+import React, { ReactNode } from 'react';
+import { usePermission } from '../../hooks/usePermission';
+import type { Permission } from '../../lib/permissions';
+import { AccessDenied } from './AccessDenied';
+
+interface RequirePermissionProps {
+  permission: Permission;
+  children: ReactNode;
+  // Rendered instead of the access-denied screen, e.g. null to hide a button
+  fallback?: ReactNode;
+}
+
+export const RequirePermission: React.FC<RequirePermissionProps> = ({ permission, children, fallback }) => {
+  const can = usePermission();
+  if (can(permission)) return <>{children}</>;
+  return <>{fallback === undefined ? <AccessDenied /> : fallback}</>;
+};
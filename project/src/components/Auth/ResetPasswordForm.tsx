@@ -0,0 +1,128 @@
+import React, { useState } from 'react';
+import { KeyRound, Eye, EyeOff, CheckCircle } from 'lucide-react';
+import { authService } from '../../services/authService';
+
+interface ResetPasswordFormProps {
+  token: string;
+  onDone: () => void;
+}
+
+export const ResetPasswordForm: React.FC<ResetPasswordFormProps> = ({ token, onDone }) => {
+  const [password, setPassword] = useState('');
+  const [confirmPassword, setConfirmPassword] = useState('');
+  const [showPassword, setShowPassword] = useState(false);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState('');
+  const [message, setMessage] = useState('');
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (password !== confirmPassword) {
+      setError('Passwords do not match');
+      return;
+    }
+
+    setError('');
+    setIsLoading(true);
+
+    try {
+      setMessage(await authService.resetPassword(token, password));
+    } catch (error) {
+      setError(error instanceof Error ? error.message : 'Password reset failed');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-slate-900 via-purple-900 to-slate-900 flex items-center justify-center p-4">
+      <div className="max-w-lg w-full space-y-8 animate-fade-in">
+        <div className="text-center">
+          <div className="flex justify-center mb-6">
+            <KeyRound className="h-20 w-20 text-orange-500" />
+          </div>
+          <h2 className="text-4xl font-bold bg-gradient-to-r from-orange-400 to-red-400 bg-clip-text text-transparent mb-3">
+            Choose a new password
+          </h2>
+          <p className="text-xl text-slate-300">You'll be signed out on all other devices</p>
+        </div>
+
+        <div className="bg-white/10 backdrop-blur-lg rounded-3xl shadow-2xl p-8 space-y-6 border border-white/20">
+          {error && (
+            <div className="bg-red-500/20 border border-red-500/50 rounded-xl p-4 animate-scale-in">
+              <p className="text-red-200 text-sm text-center">{error}</p>
+            </div>
+          )}
+
+          {message ? (
+            <div className="text-center space-y-4">
+              <CheckCircle className="h-12 w-12 text-green-400 mx-auto" />
+              <p className="text-slate-200">{message}</p>
+            </div>
+          ) : (
+            <form onSubmit={handleSubmit} className="space-y-6">
+              <div>
+                <label htmlFor="password" className="block text-sm font-medium text-slate-200 mb-2">
+                  New Password
+                </label>
+                <div className="relative">
+                  <input
+                    id="password"
+                    type={showPassword ? 'text' : 'password'}
+                    required
+                    minLength={8}
+                    value={password}
+                    onChange={(e) => setPassword(e.target.value)}
+                    className="w-full px-4 py-4 pr-12 bg-slate-800/50 border border-slate-600 rounded-2xl text-white placeholder-slate-400 focus:outline-none focus:ring-2 focus:ring-orange-500 focus:border-transparent transition-all duration-300"
+                    placeholder="At least 8 characters"
+                  />
+                  <button
+                    type="button"
+                    className="absolute inset-y-0 right-0 pr-4 flex items-center text-slate-400 hover:text-slate-300 transition-colors"
+                    onClick={() => setShowPassword(!showPassword)}
+                  >
+                    {showPassword ? <EyeOff className="h-5 w-5" /> : <Eye className="h-5 w-5" />}
+                  </button>
+                </div>
+              </div>
+
+              <div>
+                <label htmlFor="confirmPassword" className="block text-sm font-medium text-slate-200 mb-2">
+                  Confirm New Password
+                </label>
+                <input
+                  id="confirmPassword"
+                  type="password"
+                  required
+                  value={confirmPassword}
+                  onChange={(e) => setConfirmPassword(e.target.value)}
+                  className="w-full px-4 py-4 bg-slate-800/50 border border-slate-600 rounded-2xl text-white placeholder-slate-400 focus:outline-none focus:ring-2 focus:ring-orange-500 focus:border-transparent transition-all duration-300"
+                  placeholder="Repeat the new password"
+                />
+              </div>
+
+              <button
+                type="submit"
+                disabled={isLoading}
+                className="w-full py-4 px-6 bg-gradient-to-r from-orange-600 to-red-600 hover:from-orange-700 hover:to-red-700 text-white font-medium rounded-2xl shadow-lg hover:shadow-xl transform hover:scale-[1.02] transition-all duration-300 disabled:opacity-50 disabled:cursor-not-allowed disabled:transform-none"
+              >
+                {isLoading ? 'Saving...' : 'Reset Password'}
+              </button>
+            </form>
+          )}
+
+          <div className="text-center">
+            <button
+              type="button"
+              onClick={onDone}
+              className="text-orange-400 hover:text-orange-300 text-sm font-medium transition-colors duration-300 hover:underline"
+            >
+              Back to sign in
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
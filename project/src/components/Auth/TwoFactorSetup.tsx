@@ -0,0 +1,163 @@
+import React, { useState, useEffect } from 'react';
+import { ShieldCheck, Copy, Check } from 'lucide-react';
+import { authService, type MfaSetup } from '../../services/authService';
+
+interface TwoFactorSetupProps {
+  // Enrolment token from login; omit when enrolling from a signed-in session
+  mfaToken?: string;
+  onComplete: () => void | Promise<void>;
+  onCancel?: () => void;
+}
+
+export const TwoFactorSetup: React.FC<TwoFactorSetupProps> = ({ mfaToken, onComplete, onCancel }) => {
+  const [setup, setSetup] = useState<MfaSetup | null>(null);
+  const [code, setCode] = useState('');
+  const [recoveryCodes, setRecoveryCodes] = useState<string[] | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState('');
+  const [copied, setCopied] = useState(false);
+
+  useEffect(() => {
+    authService
+      .setupMfa(mfaToken)
+      .then(setSetup)
+      .catch(err => setError(err instanceof Error ? err.message : 'Failed to start 2FA setup'));
+  }, [mfaToken]);
+
+  const handleEnable = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError('');
+    setIsLoading(true);
+    try {
+      setRecoveryCodes(await authService.enableMfa(code.trim(), mfaToken));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to enable 2FA');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleCopy = async () => {
+    if (!recoveryCodes) return;
+    await navigator.clipboard.writeText(recoveryCodes.join('\n'));
+    setCopied(true);
+  };
+
+  const handleDone = async () => {
+    setIsLoading(true);
+    try {
+      await onComplete();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to sign in');
+      setIsLoading(false);
+    }
+  };
+
+  if (recoveryCodes) {
+    return (
+      <div className="space-y-6">
+        <div className="flex items-center space-x-3">
+          <ShieldCheck className="h-6 w-6 text-green-400" />
+          <h3 className="text-xl font-semibold text-white">Two-factor authentication is on</h3>
+        </div>
+        <p className="text-slate-300 text-sm">
+          Save these recovery codes somewhere safe. Each one can be used once to sign in if you lose access to your
+          authenticator app. They will not be shown again.
+        </p>
+        <div className="grid grid-cols-2 gap-2 bg-slate-900/60 rounded-xl p-4">
+          {recoveryCodes.map(recoveryCode => (
+            <code key={recoveryCode} className="text-white font-mono text-center tracking-wider">{recoveryCode}</code>
+          ))}
+        </div>
+        {error && <p className="text-red-300 text-sm">{error}</p>}
+        <div className="flex space-x-3">
+          <button
+            type="button"
+            onClick={handleCopy}
+            className="flex items-center justify-center space-x-2 px-4 py-3 bg-slate-700 hover:bg-slate-600 text-white rounded-xl transition-colors"
+          >
+            {copied ? <Check className="h-4 w-4 text-green-400" /> : <Copy className="h-4 w-4" />}
+            <span>{copied ? 'Copied' : 'Copy'}</span>
+          </button>
+          <button
+            type="button"
+            onClick={handleDone}
+            disabled={isLoading}
+            className="flex-1 py-3 px-6 bg-gradient-to-r from-orange-600 to-red-600 hover:from-orange-700 hover:to-red-700 text-white font-medium rounded-xl transition-all duration-300 disabled:opacity-50"
+          >
+            I've saved my recovery codes
+          </button>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <form onSubmit={handleEnable} className="space-y-6">
+      <div>
+        <h3 className="text-xl font-semibold text-white mb-2">Set up two-factor authentication</h3>
+        <p className="text-slate-300 text-sm">
+          Scan the QR code with an authenticator app such as Google Authenticator, 1Password or Authy, then enter
+          the 6-digit code it shows.
+        </p>
+      </div>
+
+      {error && (
+        <div className="bg-red-500/20 border border-red-500/50 rounded-xl p-4">
+          <p className="text-red-200 text-sm text-center">{error}</p>
+        </div>
+      )}
+
+      {setup ? (
+        <div className="flex flex-col items-center space-y-3">
+          <img src={setup.qrCode} alt="QR code for your authenticator app" className="w-48 h-48 rounded-xl bg-white p-2" />
+          <p className="text-slate-400 text-xs">Can't scan it? Enter this key instead:</p>
+          <code className="text-white font-mono text-sm tracking-wider break-all text-center">{setup.secret}</code>
+        </div>
+      ) : (
+        !error && (
+          <div className="flex justify-center py-8">
+            <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-orange-500"></div>
+          </div>
+        )
+      )}
+
+      <div>
+        <label htmlFor="mfa-setup-code" className="block text-sm font-medium text-slate-200 mb-2">
+          Verification code
+        </label>
+        <input
+          id="mfa-setup-code"
+          type="text"
+          inputMode="numeric"
+          autoComplete="one-time-code"
+          required
+          maxLength={6}
+          value={code}
+          onChange={(e) => setCode(e.target.value.replace(/\D/g, ''))}
+          className="w-full px-4 py-4 bg-slate-800/50 border border-slate-600 rounded-2xl text-white text-center text-2xl tracking-[0.5em] placeholder-slate-500 focus:outline-none focus:ring-2 focus:ring-orange-500 focus:border-transparent"
+          placeholder="000000"
+        />
+      </div>
+
+      <div className="flex space-x-3">
+        {onCancel && (
+          <button
+            type="button"
+            onClick={onCancel}
+            className="px-6 py-3 bg-slate-700 hover:bg-slate-600 text-white rounded-xl transition-colors"
+          >
+            Cancel
+          </button>
+        )}
+        <button
+          type="submit"
+          disabled={isLoading || !setup || code.length !== 6}
+          className="flex-1 py-3 px-6 bg-gradient-to-r from-orange-600 to-red-600 hover:from-orange-700 hover:to-red-700 text-white font-medium rounded-xl transition-all duration-300 disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          {isLoading ? 'Verifying...' : 'Turn on 2FA'}
+        </button>
+      </div>
+    </form>
+  );
+};
@@ -1,76 +1,66 @@
-import React from 'react';
+import React, { useEffect, useState } from 'react';
+import { useNavigate } from 'react-router-dom';
 import { Award, Download, Star, Calendar, CheckCircle } from 'lucide-react';
 import { useAuth } from '../../context/AuthContext';
+import { useI18n } from '../../context/I18nContext';
+import { useCourses } from '../../hooks/useCourses';
+import { certificateService } from '../../services/certificateService';
+import { paths } from '../../lib/routes';
+import type { EarnedCertificate } from '../../types';
 
 export const Certificates: React.FC = () => {
   const { user } = useAuth();
+  const navigate = useNavigate();
+  const { t, localize, formatDate, formatNumber } = useI18n();
+  const { courses, loading, error: coursesError } = useCourses();
+  const [earnedCertificates, setEarnedCertificates] = useState<EarnedCertificate[]>([]);
+  const [certificatesError, setCertificatesError] = useState('');
 
-  const availableCertificates = [
-    {
-      id: 'owasp-top-10',
-      title: 'OWASP Top 10 Security Risks',
-      description: 'Complete understanding of the most critical web application security risks',
-      requirements: [
-        'Complete all 10 OWASP modules',
-        'Pass module tests with 80% or higher',
-        'Complete at least 5 hands-on labs',
-        'Pass final certification exam'
-      ],
-      progress: 30,
-      earned: false,
-      estimatedHours: 20
-    },
-    {
-      id: 'web-app-security',
-      title: 'Web Application Security Fundamentals',
-      description: 'Comprehensive knowledge of web application security principles and practices',
-      requirements: [
-        'Complete assessment test',
-        'Finish penetration testing modules',
-        'Complete secure coding practices',
-        'Demonstrate practical skills'
-      ],
-      progress: 15,
-      earned: false,
-      estimatedHours: 30
-    },
-    {
-      id: 'ethical-hacking',
-      title: 'Certified Ethical Hacker (Prep)',
-      description: 'Preparation for ethical hacking certification with hands-on experience',
-      requirements: [
-        'Complete advanced security modules',
-        'Master penetration testing tools',
-        'Complete capstone project',
-        'Pass comprehensive exam'
-      ],
-      progress: 5,
-      earned: false,
-      estimatedHours: 50
-    }
-  ];
+  useEffect(() => {
+    if (!user) return;
+    let cancelled = false;
+    certificateService
+      .getCertificates(user.id)
+      .then(certificates => {
+        if (!cancelled) setEarnedCertificates(certificates);
+      })
+      .catch(err => {
+        if (!cancelled) setCertificatesError(err instanceof Error ? err.message : 'Failed to load certificates');
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [user]);
 
-  const earnedCertificates = user?.certificates || [];
+  // Each published course has a certificate, awarded once all of its modules are completed
+  const availableCertificates = courses.map(course => localize(course));
+  const earnedIds = new Set(earnedCertificates.map(certificate => certificate.certificate_id));
+  const error = certificatesError || coursesError;
 
   return (
     <div className="p-6">
       <div className="max-w-6xl mx-auto">
         <div className="mb-8">
-          <h1 className="text-3xl font-bold text-gray-900 mb-4">Certificates</h1>
+          <h1 className="text-3xl font-bold text-gray-900 mb-4">{t('certificates.title')}</h1>
           <p className="text-gray-600">
-            Earn industry-recognized certificates by completing courses and demonstrating your cybersecurity skills
+            {t('certificates.subtitle')}
           </p>
         </div>
 
+        {error && (
+          <div className="bg-red-50 border border-red-200 rounded-lg p-4 mb-8 text-red-700">
+            {t('certificates.loadError', { error })}
+          </div>
+        )}
+
         {/* Earned Certificates */}
         {earnedCertificates.length > 0 && (
           <div className="mb-8">
-            <h2 className="text-2xl font-bold text-gray-900 mb-6">Your Certificates</h2>
+            <h2 className="text-2xl font-bold text-gray-900 mb-6">{t('certificates.yours')}</h2>
             <div className="grid gap-6">
-              {earnedCertificates.map((certificateId) => {
-                const certificate = availableCertificates.find(c => c.id === certificateId);
-                if (!certificate) return null;
-                
+              {earnedCertificates.map((certificate) => {
+                const course = availableCertificates.find(c => c.id === certificate.certificate_id);
+
                 return (
                   <div key={certificate.id} className="bg-gradient-to-r from-green-50 to-emerald-50 border border-green-200 rounded-lg p-6">
                     <div className="flex items-center justify-between">
@@ -79,17 +69,17 @@ export const Certificates: React.FC = () => {
                           <Award className="h-8 w-8 text-green-600" />
                         </div>
                         <div>
-                          <h3 className="text-xl font-bold text-green-800">{certificate.title}</h3>
-                          <p className="text-green-700">{certificate.description}</p>
+                          <h3 className="text-xl font-bold text-green-800">{course?.title ?? certificate.title}</h3>
+                          {course && <p className="text-green-700">{course.description}</p>}
                           <div className="flex items-center space-x-2 mt-2 text-sm text-green-600">
                             <Calendar className="h-4 w-4" />
-                            <span>Earned on March 15, 2024</span>
+                            <span>{t('certificates.earnedOn', { date: formatDate(certificate.earned_at) })}</span>
                           </div>
                         </div>
                       </div>
                       <button className="flex items-center space-x-2 bg-green-600 text-white px-4 py-2 rounded-lg hover:bg-green-700 transition-colors">
                         <Download className="h-4 w-4" />
-                        <span>Download</span>
+                        <span>{t('common.download')}</span>
                       </button>
                     </div>
                   </div>
@@ -101,10 +91,20 @@ export const Certificates: React.FC = () => {
 
         {/* Available Certificates */}
         <div>
-          <h2 className="text-2xl font-bold text-gray-900 mb-6">Available Certificates</h2>
+          <h2 className="text-2xl font-bold text-gray-900 mb-6">{t('certificates.available')}</h2>
+          {loading && (
+            <div className="flex justify-center py-12">
+              <div className="animate-spin rounded-full h-10 w-10 border-b-2 border-cyan-600"></div>
+            </div>
+          )}
+          {!loading && !error && availableCertificates.length === 0 && (
+            <div className="bg-white rounded-lg border border-gray-200 p-8 text-center text-gray-600">
+              {t('certificates.noCourses')}
+            </div>
+          )}
           <div className="grid gap-6">
             {availableCertificates.map((certificate) => {
-              const isEarned = earnedCertificates.includes(certificate.id);
+              const isEarned = earnedIds.has(certificate.id);
               
               return (
                 <div key={certificate.id} className="bg-white rounded-lg shadow-md border border-gray-200 overflow-hidden">
@@ -124,20 +124,22 @@ export const Certificates: React.FC = () => {
                           <div className="flex items-center space-x-6 text-sm text-gray-500 mb-4">
                             <div className="flex items-center space-x-1">
                               <Star className="h-4 w-4" />
-                              <span>Professional Level</span>
-                            </div>
-                            <div className="flex items-center space-x-1">
-                              <Calendar className="h-4 w-4" />
-                              <span>~{certificate.estimatedHours} hours</span>
+                              <span>{t('certificates.professionalLevel')}</span>
                             </div>
+                            {certificate.estimatedHours !== undefined && (
+                              <div className="flex items-center space-x-1">
+                                <Calendar className="h-4 w-4" />
+                                <span>{t('certificates.estimatedHours', { count: certificate.estimatedHours })}</span>
+                              </div>
+                            )}
                           </div>
                         </div>
                       </div>
                       
                       {!isEarned && (
                         <div className="text-right">
-                          <div className="text-2xl font-bold text-cyan-600">{certificate.progress}%</div>
-                          <div className="text-gray-600 text-sm">Complete</div>
+                          <div className="text-2xl font-bold text-cyan-600">{formatNumber(certificate.progress / 100, { style: 'percent' })}</div>
+                          <div className="text-gray-600 text-sm">{t('certificates.complete')}</div>
                         </div>
                       )}
                     </div>
@@ -146,8 +148,8 @@ export const Certificates: React.FC = () => {
                     {!isEarned && (
                       <div className="mb-4">
                         <div className="flex justify-between text-sm text-gray-600 mb-1">
-                          <span>Progress</span>
-                          <span>{certificate.progress}%</span>
+                          <span>{t('common.progress')}</span>
+                          <span>{formatNumber(certificate.progress / 100, { style: 'percent' })}</span>
                         </div>
                         <div className="w-full bg-gray-200 rounded-full h-2">
                           <div 
@@ -160,14 +162,12 @@ export const Certificates: React.FC = () => {
 
                     {/* Requirements */}
                     <div className="border-t pt-4">
-                      <h4 className="font-medium text-gray-900 mb-3">Requirements</h4>
+                      <h4 className="font-medium text-gray-900 mb-3">{t('certificates.requirements')}</h4>
                       <div className="grid grid-cols-1 md:grid-cols-2 gap-2">
-                        {certificate.requirements.map((requirement, index) => (
-                          <div key={index} className="flex items-center space-x-2 text-sm">
-                            <div className="h-2 w-2 bg-gray-300 rounded-full"></div>
-                            <span className="text-gray-700">{requirement}</span>
-                          </div>
-                        ))}
+                        <div className="flex items-center space-x-2 text-sm">
+                          <div className="h-2 w-2 bg-gray-300 rounded-full"></div>
+                          <span className="text-gray-700">{t('certificates.completeModules', { count: certificate.modules.length })}</span>
+                        </div>
                       </div>
                     </div>
 
@@ -176,11 +176,14 @@ export const Certificates: React.FC = () => {
                       {isEarned ? (
                         <button className="w-full bg-green-600 text-white py-3 rounded-lg hover:bg-green-700 transition-colors flex items-center justify-center space-x-2">
                           <Download className="h-4 w-4" />
-                          <span>Download Certificate</span>
+                          <span>{t('certificates.downloadCertificate')}</span>
                         </button>
                       ) : (
-                        <button className="w-full bg-cyan-600 text-white py-3 rounded-lg hover:bg-cyan-700 transition-colors">
-                          Continue Learning
+                        <button
+                          onClick={() => navigate(paths.course(certificate.id))}
+                          className="w-full bg-cyan-600 text-white py-3 rounded-lg hover:bg-cyan-700 transition-colors"
+                        >
+                          {t('certificates.continueLearning')}
                         </button>
                       )}
                     </div>
@@ -193,13 +196,13 @@ export const Certificates: React.FC = () => {
 
         {/* Certificate Info */}
         <div className="mt-8 bg-blue-50 border border-blue-200 rounded-lg p-6">
-          <h3 className="font-bold text-blue-900 mb-2">About Our Certificates</h3>
+          <h3 className="font-bold text-blue-900 mb-2">{t('certificates.aboutTitle')}</h3>
           <div className="text-blue-800 space-y-2">
-            <p>• Industry-recognized certificates that validate your cybersecurity skills</p>
-            <p>• Digital certificates with verification codes for employer validation</p>
-            <p>• Continuing education credits for professional development</p>
-            <p>• LinkedIn integration to showcase your achievements</p>
-            <p>• Regular updates to match current industry standards</p>
+            <p>• {t('certificates.about1')}</p>
+            <p>• {t('certificates.about2')}</p>
+            <p>• {t('certificates.about3')}</p>
+            <p>• {t('certificates.about4')}</p>
+            <p>• {t('certificates.about5')}</p>
           </div>
         </div>
       </div>
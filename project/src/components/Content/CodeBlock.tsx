@@ -0,0 +1,58 @@
+import React, { useMemo, useState } from 'react';
+import { Copy, Check } from 'lucide-react';
+import { tokenize, type CodeTokenType } from '../../lib/highlight';
+
+interface CodeBlockProps {
+  code: string;
+  language: string;
+}
+
+const TOKEN_CLASSES: Record<CodeTokenType, string> = {
+  plain: '',
+  comment: 'text-slate-400 italic',
+  string: 'text-green-300',
+  number: 'text-orange-300',
+  keyword: 'text-cyan-300 font-semibold',
+  tag: 'text-pink-300'
+};
+
+export const CodeBlock: React.FC<CodeBlockProps> = ({ code, language }) => {
+  const [copied, setCopied] = useState(false);
+  const tokens = useMemo(() => tokenize(code, language), [code, language]);
+
+  const handleCopy = async () => {
+    try {
+      await navigator.clipboard.writeText(code);
+      setCopied(true);
+      setTimeout(() => setCopied(false), 2000);
+    } catch (error) {
+      console.error('Copy code failed:', error);
+    }
+  };
+
+  return (
+    <div className="relative my-4 rounded-lg bg-slate-900 text-slate-100">
+      <div className="flex items-center justify-between px-4 pt-2 text-xs text-slate-400">
+        <span>{language || 'code'}</span>
+        <button
+          type="button"
+          onClick={handleCopy}
+          className="flex items-center space-x-1 hover:text-white"
+          aria-label="Copy code"
+        >
+          {copied ? <Check className="h-3 w-3" /> : <Copy className="h-3 w-3" />}
+          <span>{copied ? 'Copied' : 'Copy'}</span>
+        </button>
+      </div>
+      <pre className="overflow-x-auto p-4 pt-2 text-sm leading-relaxed">
+        <code>
+          {tokens.map((token, index) =>
+            token.type === 'plain' ? token.text : (
+              <span key={index} className={TOKEN_CLASSES[token.type]}>{token.text}</span>
+            )
+          )}
+        </code>
+      </pre>
+    </div>
+  );
+};
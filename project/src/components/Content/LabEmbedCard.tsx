@@ -0,0 +1,52 @@
+import React from 'react';
+import { Link } from 'react-router-dom';
+import { FlaskRound as Flask, Clock, AlertTriangle } from 'lucide-react';
+import { labs } from '../../data/labs';
+import { paths } from '../../lib/routes';
+import { useI18n } from '../../context/I18nContext';
+
+interface LabEmbedCardProps {
+  labId: string;
+}
+
+// A `::lab <id>` embed: a card linking to one of the labs in data/labs
+export const LabEmbedCard: React.FC<LabEmbedCardProps> = ({ labId }) => {
+  const { localize } = useI18n();
+  const lab = labs.find(l => l.id === labId);
+
+  if (!lab) {
+    return (
+      <div className="my-6 flex items-center space-x-2 rounded-lg border border-yellow-200 bg-yellow-50 p-4 text-yellow-800">
+        <AlertTriangle className="h-5 w-5" />
+        <span>Unknown lab "{labId}"</span>
+      </div>
+    );
+  }
+
+  const { title, description } = localize(lab);
+
+  return (
+    <div className="my-6 flex items-start justify-between rounded-lg border border-gray-200 bg-white p-5 shadow-sm">
+      <div className="flex items-start space-x-3">
+        <Flask className="h-6 w-6 text-cyan-600 flex-shrink-0" />
+        <div>
+          <p className="font-bold text-gray-900">{title}</p>
+          <p className="text-sm text-gray-600 mt-1">{description}</p>
+          <div className="flex items-center space-x-4 text-xs text-gray-500 mt-2">
+            <span className="capitalize">{lab.difficulty}</span>
+            <span className="flex items-center space-x-1">
+              <Clock className="h-3 w-3" />
+              <span>{lab.estimatedTime}</span>
+            </span>
+          </div>
+        </div>
+      </div>
+      <Link
+        to={paths.lab(lab.id)}
+        className="ml-4 flex-shrink-0 bg-cyan-600 text-white px-4 py-2 rounded-lg hover:bg-cyan-700 transition-colors"
+      >
+        Open lab
+      </Link>
+    </div>
+  );
+};
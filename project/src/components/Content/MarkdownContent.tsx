@@ -0,0 +1,126 @@
+import React, { useMemo } from 'react';
+import { Info, Lightbulb, AlertTriangle, ShieldAlert, type LucideIcon } from 'lucide-react';
+import { parseMarkdown, extractHeadings, type MarkdownBlock, type InlineNode, type CalloutKind } from '../../lib/markdown';
+import { CodeBlock } from './CodeBlock';
+import { QuizBlock } from './QuizBlock';
+import { LabEmbedCard } from './LabEmbedCard';
+import { TableOfContents } from './TableOfContents';
+
+interface MarkdownContentProps {
+  source: string;
+  // Show an "On this page" list beside the content when it has enough headings
+  showToc?: boolean;
+}
+
+const CALLOUTS: Record<CalloutKind, { icon: LucideIcon; label: string; className: string }> = {
+  note: { icon: Info, label: 'Note', className: 'border-blue-400 bg-blue-50 text-blue-900' },
+  tip: { icon: Lightbulb, label: 'Tip', className: 'border-green-400 bg-green-50 text-green-900' },
+  warning: { icon: AlertTriangle, label: 'Warning', className: 'border-yellow-400 bg-yellow-50 text-yellow-900' },
+  danger: { icon: ShieldAlert, label: 'Danger', className: 'border-red-400 bg-red-50 text-red-900' }
+};
+
+const HEADING_CLASSES: Record<number, string> = {
+  1: 'text-2xl font-bold text-gray-900 mb-4',
+  2: 'text-xl font-bold text-gray-900 mb-3 mt-8',
+  3: 'text-lg font-bold text-gray-900 mb-2 mt-6',
+  4: 'font-bold text-gray-900 mb-2 mt-4'
+};
+
+// Tables of contents only help once there is something to jump between
+const MIN_TOC_HEADINGS = 3;
+
+const renderInline = (nodes: InlineNode[]): React.ReactNode[] =>
+  nodes.map((node, index) => {
+    switch (node.type) {
+      case 'text':
+        return node.text;
+      case 'code':
+        return <code key={index} className="bg-gray-100 text-pink-700 px-1 py-0.5 rounded text-sm">{node.text}</code>;
+      case 'strong':
+        return <strong key={index}>{renderInline(node.children)}</strong>;
+      case 'em':
+        return <em key={index}>{renderInline(node.children)}</em>;
+      case 'link':
+        return (
+          <a key={index} href={node.href} target="_blank" rel="noopener noreferrer" className="text-cyan-600 underline hover:text-cyan-700">
+            {renderInline(node.children)}
+          </a>
+        );
+    }
+  });
+
+const renderBlocks = (blocks: MarkdownBlock[]): React.ReactNode[] =>
+  blocks.map((block, index) => {
+    switch (block.type) {
+      case 'heading': {
+        const Tag = `h${block.level}` as 'h1' | 'h2' | 'h3' | 'h4';
+        return (
+          <Tag key={index} id={block.id} className={`${HEADING_CLASSES[block.level]} scroll-mt-20`}>
+            {renderInline(block.children)}
+          </Tag>
+        );
+      }
+      case 'paragraph':
+        return <p key={index} className="text-gray-700 leading-relaxed mb-4">{renderInline(block.children)}</p>;
+      case 'list': {
+        const items = block.items.map((item, i) => <li key={i} className="mb-1">{renderInline(item)}</li>);
+        return block.ordered ? (
+          <ol key={index} start={block.start} className="list-decimal pl-6 mb-4 text-gray-700">{items}</ol>
+        ) : (
+          <ul key={index} className="list-disc pl-6 mb-4 text-gray-700">{items}</ul>
+        );
+      }
+      case 'code':
+        return <CodeBlock key={index} code={block.code} language={block.language} />;
+      case 'quote':
+        return (
+          <blockquote key={index} className="border-l-4 border-gray-300 pl-4 my-4 italic text-gray-600">
+            {renderBlocks(block.blocks)}
+          </blockquote>
+        );
+      case 'callout': {
+        const { icon: Icon, label, className } = CALLOUTS[block.kind];
+        return (
+          <aside key={index} className={`my-6 rounded-r-lg border-l-4 p-4 ${className}`}>
+            <p className="flex items-center space-x-2 font-bold mb-2">
+              <Icon className="h-5 w-5" />
+              <span>{block.title || label}</span>
+            </p>
+            <div className="[&_p:last-child]:mb-0">{renderBlocks(block.blocks)}</div>
+          </aside>
+        );
+      }
+      case 'rule':
+        return <hr key={index} className="my-8 border-gray-200" />;
+      case 'quiz':
+        return <QuizBlock key={index} quiz={block.quiz} />;
+      case 'lab':
+        return <LabEmbedCard key={index} labId={block.labId} />;
+      case 'embed-error':
+        return (
+          <div key={index} className="my-4 rounded-lg border border-red-200 bg-red-50 p-3 text-sm text-red-700">
+            {block.message}
+          </div>
+        );
+    }
+  });
+
+// Renders module markdown as React elements; see lib/markdown for the supported syntax
+export const MarkdownContent: React.FC<MarkdownContentProps> = ({ source, showToc = false }) => {
+  const blocks = useMemo(() => parseMarkdown(source), [source]);
+  const headings = useMemo(() => extractHeadings(blocks).filter(h => h.level <= 3), [blocks]);
+  const content = <div className="min-w-0">{renderBlocks(blocks)}</div>;
+
+  if (!showToc || headings.length < MIN_TOC_HEADINGS) return content;
+
+  return (
+    <div className="lg:grid lg:grid-cols-4 lg:gap-8">
+      <div className="lg:col-span-3">{content}</div>
+      <div className="hidden lg:block">
+        <div className="sticky top-6">
+          <TableOfContents headings={headings} />
+        </div>
+      </div>
+    </div>
+  );
+};
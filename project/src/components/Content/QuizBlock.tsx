@@ -0,0 +1,56 @@
+import React, { useId, useState } from 'react';
+import { CheckCircle, XCircle, HelpCircle } from 'lucide-react';
+import { AnswerOptions } from '../Assessment/AnswerOptions';
+import type { QuizEmbed } from '../../lib/markdown';
+
+interface QuizBlockProps {
+  quiz: QuizEmbed;
+}
+
+// A self-check question inside module content; nothing is scored or saved
+export const QuizBlock: React.FC<QuizBlockProps> = ({ quiz }) => {
+  const [selected, setSelected] = useState<number | null>(null);
+  const [checked, setChecked] = useState(false);
+  const questionId = useId();
+  const correct = selected === quiz.answer;
+
+  return (
+    <div className="my-6 rounded-lg border border-cyan-200 bg-cyan-50/50 p-5">
+      <div className="flex items-start space-x-2 mb-4">
+        <HelpCircle className="h-5 w-5 text-cyan-600 flex-shrink-0 mt-0.5" />
+        <p id={questionId} className="font-medium text-gray-900">{quiz.question}</p>
+      </div>
+
+      <AnswerOptions
+        options={quiz.options}
+        selected={selected}
+        onSelect={index => {
+          setSelected(index);
+          setChecked(false);
+        }}
+        labelledBy={questionId}
+      />
+
+      <div aria-live="polite">
+        {checked ? (
+          <div className={`flex items-start space-x-2 rounded-lg p-3 ${correct ? 'bg-green-50 text-green-800' : 'bg-red-50 text-red-800'}`}>
+            {correct ? <CheckCircle className="h-5 w-5 flex-shrink-0" /> : <XCircle className="h-5 w-5 flex-shrink-0" />}
+            <div>
+              <p className="font-medium">{correct ? 'Correct!' : 'Not quite. Try again.'}</p>
+              {correct && quiz.explanation && <p className="text-sm mt-1">{quiz.explanation}</p>}
+            </div>
+          </div>
+        ) : (
+          <button
+            type="button"
+            onClick={() => setChecked(true)}
+            disabled={selected === null}
+            className="bg-cyan-600 text-white px-4 py-2 rounded-lg hover:bg-cyan-700 disabled:bg-gray-300 disabled:cursor-not-allowed transition-colors"
+          >
+            Check answer
+          </button>
+        )}
+      </div>
+    </div>
+  );
+};
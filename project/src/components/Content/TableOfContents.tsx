@@ -0,0 +1,33 @@
+import React from 'react';
+import type { MarkdownHeading } from '../../lib/markdown';
+
+interface TableOfContentsProps {
+  headings: MarkdownHeading[];
+}
+
+export const TableOfContents: React.FC<TableOfContentsProps> = ({ headings }) => {
+  // Scroll in place: a #hash link would be read as a route change
+  const handleClick = (e: React.MouseEvent, id: string) => {
+    e.preventDefault();
+    document.getElementById(id)?.scrollIntoView({ behavior: 'smooth', block: 'start' });
+  };
+
+  return (
+    <nav aria-label="On this page" className="text-sm">
+      <p className="font-bold text-gray-900 mb-3">On this page</p>
+      <ul className="space-y-2 border-l border-gray-200">
+        {headings.map(heading => (
+          <li key={heading.id} style={{ paddingLeft: `${(heading.level - 1) * 0.75 + 0.75}rem` }}>
+            <a
+              href={`#${heading.id}`}
+              onClick={e => handleClick(e, heading.id)}
+              className="text-gray-600 hover:text-cyan-600"
+            >
+              {heading.text}
+            </a>
+          </li>
+        ))}
+      </ul>
+    </nav>
+  );
+};
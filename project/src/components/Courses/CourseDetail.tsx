@@ -1,49 +1,35 @@
-import React, { useState } from 'react';
+import React from 'react';
 import { ArrowLeft, Play, CheckCircle, Clock, FileText, FlaskRound as Flask, Award } from 'lucide-react';
-import { owaspCourses } from '../../data/owaspCourses';
-import { ModuleViewer } from './ModuleViewer';
 import { useAuth } from '../../context/AuthContext';
+import { useI18n } from '../../context/I18nContext';
+import { usePermission } from '../../hooks/usePermission';
+import { canOpenModule } from '../../lib/courseAccess';
+import type { Course } from '../../types';
 
 interface CourseDetailProps {
-  courseId: string;
+  course: Course;
+  onModuleSelect: (moduleId: string) => void;
   onBack: () => void;
 }
 
-export const CourseDetail: React.FC<CourseDetailProps> = ({ courseId, onBack }) => {
-  const [selectedModuleId, setSelectedModuleId] = useState<string | null>(null);
-  const course = owaspCourses.find(c => c.id === courseId);
+export const CourseDetail: React.FC<CourseDetailProps> = ({ course, onModuleSelect, onBack }) => {
   const { user } = useAuth();
-
-  if (!course) {
-    return <div>Course not found</div>;
-  }
-
-  if (selectedModuleId) {
-    return (
-      <ModuleViewer
-        courseId={courseId}
-        moduleId={selectedModuleId}
-        onBack={() => setSelectedModuleId(null)}
-      />
-    );
-  }
+  const can = usePermission();
+  const { localize } = useI18n();
 
   const completedModules = course.modules.filter(m => m.completed).length;
   const totalModules = course.modules.length;
-  const progressPercentage = (completedModules / totalModules) * 100;
+  const progressPercentage = course.progress;
+  const scores = course.modules.flatMap(m => (m.testScore !== undefined ? [m.testScore] : []));
+  const averageScore = scores.length ? Math.round(scores.reduce((sum, score) => sum + score, 0) / scores.length) : null;
+  // Module titles read "A01:2021 – Broken Access Control"; the part after the dash is the topic
+  const topics = course.modules.slice(0, 5).map(m => {
+    const moduleTitle = localize(m).title;
+    return moduleTitle.split(' – ')[1] || moduleTitle;
+  });
 
-  const allowedModules = (() => {
-    switch (user?.level) {
-      case 'beginner':
-        return 3;
-      case 'intermediate':
-        return 7;
-      case 'advanced':
-        return Number.POSITIVE_INFINITY;
-      default:
-        return 0;
-    }
-  })();
+  const unlockAll = can('course:unlock-all');
+  const { title, description } = localize(course);
 
   return (
     <div className="p-6">
@@ -63,8 +49,8 @@ export const CourseDetail: React.FC<CourseDetailProps> = ({ courseId, onBack })
         <div className="bg-white rounded-lg shadow-md p-8 mb-8">
           <div className="grid grid-cols-1 lg:grid-cols-3 gap-8">
             <div className="lg:col-span-2">
-              <h1 className="text-3xl font-bold text-gray-900 mb-4">{course.title}</h1>
-              <p className="text-gray-600 text-lg mb-6">{course.description}</p>
+              <h1 className="text-3xl font-bold text-gray-900 mb-4">{title}</h1>
+              <p className="text-gray-600 text-lg mb-6">{description}</p>
               
               <div className="flex items-center space-x-6 text-sm text-gray-500 mb-6">
                 <div className="flex items-center space-x-1">
@@ -73,7 +59,7 @@ export const CourseDetail: React.FC<CourseDetailProps> = ({ courseId, onBack })
                 </div>
                 <div className="flex items-center space-x-1">
                   <Clock className="h-4 w-4" />
-                  <span>~{totalModules * 2} hours</span>
+                  <span>~{course.estimatedHours || totalModules * 2} hours</span>
                 </div>
                 <div className="flex items-center space-x-1">
                   <Flask className="h-4 w-4" />
@@ -88,11 +74,9 @@ export const CourseDetail: React.FC<CourseDetailProps> = ({ courseId, onBack })
               <div className="bg-gray-50 rounded-lg p-4">
                 <h3 className="font-bold text-gray-900 mb-2">What You'll Learn</h3>
                 <ul className="text-gray-700 space-y-1">
-                  <li>• Understand the OWASP Top 10 security vulnerabilities</li>
-                  <li>• Learn practical exploitation techniques</li>
-                  <li>• Master vulnerability prevention methods</li>
-                  <li>• Gain hands-on experience with security tools</li>
-                  <li>• Earn industry-recognized certification</li>
+                  {topics.map((topic, index) => (
+                    <li key={index}>• {topic}</li>
+                  ))}
                 </ul>
               </div>
             </div>
@@ -130,7 +114,7 @@ export const CourseDetail: React.FC<CourseDetailProps> = ({ courseId, onBack })
                   </div>
                   <div className="flex justify-between">
                     <span className="text-gray-600">Average Score</span>
-                    <span className="font-medium">85%</span>
+                    <span className="font-medium">{averageScore === null ? '—' : `${averageScore}%`}</span>
                   </div>
                   <div className="flex justify-between">
                     <span className="text-gray-600">Time Spent</span>
@@ -164,8 +148,8 @@ export const CourseDetail: React.FC<CourseDetailProps> = ({ courseId, onBack })
                     </div>
                     
                     <div className="flex-1">
-                      <h3 className="text-lg font-medium text-gray-900 mb-1">{module.title}</h3>
-                      <p className="text-gray-600 mb-3">{module.description}</p>
+                      <h3 className="text-lg font-medium text-gray-900 mb-1">{localize(module).title}</h3>
+                      <p className="text-gray-600 mb-3">{localize(module).description}</p>
                       
                       <div className="flex items-center space-x-4 text-sm text-gray-500">
                         <div className="flex items-center space-x-1">
@@ -201,13 +185,13 @@ export const CourseDetail: React.FC<CourseDetailProps> = ({ courseId, onBack })
                   </div>
                   
                   <button
-                    onClick={() => setSelectedModuleId(module.id)}
-                    disabled={index >= allowedModules && user?.role !== 'admin'}
-                    className={`flex items-center space-x-2 px-4 py-2 rounded-lg transition-colors ${index < allowedModules || user?.role === 'admin' ? 'bg-cyan-600 text-white hover:bg-cyan-700' : 'bg-gray-300 text-gray-500 cursor-not-allowed'}`}
+                    onClick={() => onModuleSelect(module.id)}
+                    disabled={!canOpenModule(user, index, unlockAll)}
+                    className={`flex items-center space-x-2 px-4 py-2 rounded-lg transition-colors ${canOpenModule(user, index, unlockAll) ? 'bg-cyan-600 text-white hover:bg-cyan-700' : 'bg-gray-300 text-gray-500 cursor-not-allowed'}`}
                   >
                     <Play className="h-4 w-4" />
                     <span>
-                      {index < allowedModules || user?.role === 'admin' ? (module.completed ? 'Review' : 'Start') : 'Locked'}
+                      {canOpenModule(user, index, unlockAll) ? (module.completed ? 'Review' : 'Start') : 'Locked'}
                     </span>
                   </button>
                 </div>
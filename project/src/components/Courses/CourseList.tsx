@@ -1,8 +1,10 @@
 import React from 'react';
 import { Lock, Play, CheckCircle, Clock, BookOpen } from 'lucide-react';
-import { owaspCourses } from '../../data/owaspCourses';
 import { useAuth } from '../../context/AuthContext';
-import type { User } from '../../types';
+import { useI18n } from '../../context/I18nContext';
+import { usePermission } from '../../hooks/usePermission';
+import { useCourses } from '../../hooks/useCourses';
+import { canOpenCourses, canOpenModule } from '../../lib/courseAccess';
 
 interface CourseListProps {
   onCourseSelect: (courseId: string) => void;
@@ -10,22 +12,12 @@ interface CourseListProps {
 
 export const CourseList: React.FC<CourseListProps> = ({ onCourseSelect }) => {
   const { user } = useAuth();
+  const can = usePermission();
+  const { localize } = useI18n();
+  const { courses, loading, error } = useCourses();
+  const unlockAll = can('course:unlock-all');
 
-  const levelToAllowedModules = (level?: User['level']): number => {
-    switch (level) {
-      case 'beginner':
-        return 3; // first 3 modules
-      case 'intermediate':
-        return 7; // first 7 modules
-      case 'advanced':
-        return Number.POSITIVE_INFINITY; // all modules
-      default:
-        return 0;
-    }
-  };
-
-  const allowedCount = levelToAllowedModules(user?.level as User['level'] | undefined);
-  const canAccessCourses = Boolean(user?.completedAssessment) || user?.role === 'admin';
+  const canAccessCourses = canOpenCourses(user, unlockAll);
 
   return (
     <div className="p-6">
@@ -53,9 +45,27 @@ export const CourseList: React.FC<CourseListProps> = ({ onCourseSelect }) => {
           </div>
         )}
 
+        {error && (
+          <div className="bg-red-50 border border-red-200 rounded-lg p-4 mb-8 text-red-700">
+            Could not load courses: {error}
+          </div>
+        )}
+
+        {!loading && !error && courses.length === 0 && (
+          <div className="bg-white rounded-lg border border-gray-200 p-8 text-center text-gray-600">
+            No courses have been published yet.
+          </div>
+        )}
+
+        {loading && (
+          <div className="flex justify-center py-12">
+            <div className="animate-spin rounded-full h-10 w-10 border-b-2 border-cyan-600"></div>
+          </div>
+        )}
+
         {/* Course list */}
         <div className="grid gap-6">
-          {owaspCourses.map((course) => {
+          {courses.map((course) => {
             const isUnlocked = canAccessCourses;
             const progress = course.progress ?? 0;
 
@@ -68,7 +78,7 @@ export const CourseList: React.FC<CourseListProps> = ({ onCourseSelect }) => {
                   <div className="flex items-start justify-between mb-4">
                     <div className="flex-1">
                       <div className="flex items-center space-x-3 mb-2">
-                        <h2 className="text-xl font-bold text-gray-900">{course.title}</h2>
+                        <h2 className="text-xl font-bold text-gray-900">{localize(course).title}</h2>
                         {isUnlocked ? (
                           <CheckCircle className="h-5 w-5 text-green-500" />
                         ) : (
@@ -76,7 +86,7 @@ export const CourseList: React.FC<CourseListProps> = ({ onCourseSelect }) => {
                         )}
                       </div>
 
-                      <p className="text-gray-600 mb-4">{course.description}</p>
+                      <p className="text-gray-600 mb-4">{localize(course).description}</p>
 
                       <div className="flex items-center space-x-6 text-sm text-gray-500">
                         <div className="flex items-center space-x-1">
@@ -85,7 +95,7 @@ export const CourseList: React.FC<CourseListProps> = ({ onCourseSelect }) => {
                         </div>
                         <div className="flex items-center space-x-1">
                           <Clock className="h-4 w-4" />
-                          <span>~{(course.modules?.length ?? 0) * 2} hours</span>
+                          <span>~{course.estimatedHours || (course.modules?.length ?? 0) * 2} hours</span>
                         </div>
                       </div>
                     </div>
@@ -125,8 +135,8 @@ export const CourseList: React.FC<CourseListProps> = ({ onCourseSelect }) => {
                     <h3 className="font-medium text-gray-900 mb-3">Course Modules</h3>
                     <div className="grid grid-cols-1 md:grid-cols-2 gap-2">
                       {course.modules?.slice(0, 6).map((module, index) => {
-                        const moduleUnlocked =
-                          (index < allowedCount && canAccessCourses) || user?.role === 'admin';
+                        const moduleUnlocked = canAccessCourses && canOpenModule(user, index, unlockAll);
+                        const moduleTitle = localize(module).title;
                         return (
                           <div key={module.id} className="flex items-center space-x-2 text-sm">
                             {moduleUnlocked ? (
@@ -143,7 +153,7 @@ export const CourseList: React.FC<CourseListProps> = ({ onCourseSelect }) => {
                                 moduleUnlocked ? 'text-gray-700' : 'text-gray-400'
                               }
                             >
-                              {index + 1}. {module.title.split(' – ')[1] || module.title}
+                              {index + 1}. {moduleTitle.split(' – ')[1] || moduleTitle}
                             </span>
                           </div>
                         );
@@ -1,10 +1,12 @@
-import React, { useState } from 'react';
+import React, { useState, useRef, useEffect } from 'react';
 import { CheckCircle, XCircle } from 'lucide-react';
 import { assessmentService } from '../../services/assessmentService';
 import { ragService } from '../../services/ragService';
 import { learningPathService } from '../../services/learningPathService';
 import { learnerMemoryService } from '../../services/learnerMemoryService';
 import { useAuth } from '../../context/AuthContext';
+import { useAccommodations } from '../../hooks/useAccommodations';
+import { AnswerOptions } from '../Assessment/AnswerOptions';
 
 interface FinalExamProps {
   courseId: string;
@@ -18,8 +20,15 @@ export const FinalExam: React.FC<FinalExamProps> = ({ courseId, questions, onDon
   const [answers, setAnswers] = useState<number[]>([]);
   const [selected, setSelected] = useState<number | null>(null);
   const [submitting, setSubmitting] = useState(false);
+  const questionRef = useRef<HTMLParagraphElement>(null);
+  const { reducedMotion } = useAccommodations();
   const q = questions[idx];
 
+  // Move focus to each new question so screen readers read it out
+  useEffect(() => {
+    questionRef.current?.focus();
+  }, [idx]);
+
   const next = async () => {
     if (selected === null) return;
     const newAnswers = [...answers];
@@ -38,9 +47,10 @@ export const FinalExam: React.FC<FinalExamProps> = ({ courseId, questions, onDon
     setSubmitting(true);
     try {
       const attempt = await assessmentService.startAttempt(user.id, 'final_exam');
+      let synced = true;
       for (let i = 0; i < questions.length; i++) {
         const isCorrect = final[i] === questions[i].correctAnswer;
-        await assessmentService.submitAnswer({
+        synced = (await assessmentService.submitAnswer({
           attempt_id: attempt.id,
           user_id: user.id,
           question_id: `final:${questions[i].id}`,
@@ -48,7 +58,12 @@ export const FinalExam: React.FC<FinalExamProps> = ({ courseId, questions, onDon
           confidence_level: 3,
           is_correct: !!isCorrect,
           context: 'final_exam'
-        });
+        })) && synced;
+      }
+      // Analysis reads the answers back from the server; offline they are queued and sent later
+      if (!synced) {
+        onDone([]);
+        return;
       }
       const results = await assessmentService.getAttemptResults(attempt.id);
       const analysis = await ragService.analyzeAssessment(results);
@@ -73,19 +88,29 @@ export const FinalExam: React.FC<FinalExamProps> = ({ courseId, questions, onDon
       <div className="max-w-3xl mx-auto bg-white rounded-lg shadow p-6">
         <div className="flex items-center justify-between mb-4">
           <h2 className="text-xl font-bold">Final Exam</h2>
-          <div className="text-sm text-gray-600">{idx + 1}/{questions.length}</div>
-        </div>
-        <p className="font-medium mb-4">{q.question}</p>
-        <div className="space-y-2 mb-6">
-          {q.options.map((opt, i) => (
-            <button key={i} onClick={() => setSelected(i)} className={`w-full text-left p-3 rounded border ${selected === i ? 'border-cyan-500 bg-cyan-50' : 'border-gray-200'}`}>
-              {opt}
-            </button>
-          ))}
+          <div
+            className="text-sm text-gray-600"
+            role="progressbar"
+            aria-label="Exam progress"
+            aria-valuemin={1}
+            aria-valuemax={questions.length}
+            aria-valuenow={idx + 1}
+            aria-valuetext={`Question ${idx + 1} of ${questions.length}`}
+          >
+            {idx + 1}/{questions.length}
+          </div>
         </div>
+        <p id="final-exam-question" ref={questionRef} tabIndex={-1} className="font-medium mb-4 focus:outline-none">{q.question}</p>
+        <AnswerOptions
+          options={q.options}
+          selected={selected}
+          onSelect={setSelected}
+          labelledBy="final-exam-question"
+          reducedMotion={reducedMotion}
+        />
         <div className="flex justify-between items-center">
           <div className="text-sm text-gray-600 flex items-center space-x-2">
-            <CheckCircle className="h-4 w-4 text-green-500" />
+            <CheckCircle className="h-4 w-4 text-green-500" aria-hidden="true" />
             <span>Correct so far: {score}</span>
           </div>
           <button onClick={next} disabled={selected === null || submitting} className="px-6 py-2 bg-cyan-600 text-white rounded disabled:opacity-50">
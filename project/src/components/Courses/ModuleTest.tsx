@@ -1,115 +1,51 @@
-import React, { useState } from 'react';
-import { ArrowLeft, CheckCircle, XCircle, Clock } from 'lucide-react';
+import React, { useState, useRef, useEffect } from 'react';
+import { ArrowLeft, CheckCircle, XCircle } from 'lucide-react';
+import { useI18n } from '../../context/I18nContext';
+import { useQuizTimer } from '../../hooks/useQuizTimer';
+import { AnswerOptions } from '../Assessment/AnswerOptions';
+import { QuizTimer } from '../Assessment/QuizTimer';
+import { getModuleQuestions, MODULE_PASS_SCORE } from '../../data/moduleQuestions';
+import type { GradedModuleTest, LearnerModuleQuestion, ModuleQuestion } from '../../types';
 
 interface ModuleTestProps {
   moduleId: string;
+  // The module's own questions, which hold no answers and are graded by `onGrade`.
+  // Without both, the built-in set for `moduleId` is used and graded here.
+  questions?: LearnerModuleQuestion[];
+  onGrade?: (answers: number[]) => Promise<GradedModuleTest>;
   moduleTitle: string;
+  // Called for each answer once the test is graded, with the question as the learner saw it
+  onAnswered?: (questionIndex: number, question: ModuleQuestion, answer: number) => void;
   onComplete: (score: number) => void;
   onBack: () => void;
 }
 
-// Sample questions for each module (in a real app, these would come from a database)
-const getModuleQuestions = (moduleId: string) => {
-  const questionSets: Record<string, any[]> = {
-    'module-1': [
-      {
-        question: 'What is the principle of least privilege?',
-        options: [
-          'Giving users maximum access to reduce support tickets',
-          'Giving users only the minimum access necessary for their role',
-          'Removing all user privileges by default',
-          'Sharing privileges among team members'
-        ],
-        correctAnswer: 1,
-        explanation: 'The principle of least privilege means providing users with only the minimum access necessary to perform their job functions.'
-      },
-      {
-        question: 'Which of the following is an example of broken access control?',
-        options: [
-          'Strong password requirements',
-          'Multi-factor authentication',
-          'Direct object reference without authorization checks',
-          'Session timeouts'
-        ],
-        correctAnswer: 2,
-        explanation: 'Direct object references without proper authorization checks allow users to access resources they should not have access to.'
-      },
-      {
-        question: 'How can horizontal privilege escalation be prevented?',
-        options: [
-          'Implementing proper session management',
-          'Using strong encryption',
-          'Validating user authorization for each resource access',
-          'Regular password changes'
-        ],
-        correctAnswer: 2,
-        explanation: 'Validating user authorization for each resource access ensures users can only access their own data.'
-      },
-      {
-        question: 'What is vertical privilege escalation?',
-        options: [
-          'Accessing data of users at the same privilege level',
-          'Gaining higher-level privileges than intended',
-          'Reducing user privileges',
-          'Sharing privileges horizontally'
-        ],
-        correctAnswer: 1,
-        explanation: 'Vertical privilege escalation occurs when a user gains access to higher-level privileges than they should have.'
-      },
-      {
-        question: 'Which HTTP method should require proper authorization checks?',
-        options: [
-          'Only POST requests',
-          'Only GET requests',
-          'Only PUT and DELETE requests',
-          'All HTTP methods'
-        ],
-        correctAnswer: 3,
-        explanation: 'All HTTP methods should have proper authorization checks, not just state-changing methods.'
-      }
-    ],
-    'module-2': [
-      {
-        question: 'Which encryption algorithm is considered secure for current use?',
-        options: ['DES', 'MD5', 'AES-256', 'SHA-1'],
-        correctAnswer: 2,
-        explanation: 'AES-256 is currently considered secure for encryption purposes.'
-      },
-      {
-        question: 'What is the main purpose of TLS?',
-        options: [
-          'Data compression',
-          'Secure communication over networks',
-          'User authentication only',
-          'Database encryption'
-        ],
-        correctAnswer: 1,
-        explanation: 'TLS (Transport Layer Security) provides secure communication over networks.'
-      }
-    ]
-  };
-
-  return questionSets[moduleId] || questionSets['module-1']; // Default to module-1 questions
-};
-
-export const ModuleTest: React.FC<ModuleTestProps> = ({ moduleId, moduleTitle, onComplete, onBack }) => {
+export const ModuleTest: React.FC<ModuleTestProps> = ({ moduleId, questions: moduleQuestions, onGrade, moduleTitle, onAnswered, onComplete, onBack }) => {
   const [currentQuestionIndex, setCurrentQuestionIndex] = useState(0);
   const [answers, setAnswers] = useState<number[]>([]);
   const [selectedAnswer, setSelectedAnswer] = useState<number | null>(null);
-  const [showResults, setShowResults] = useState(false);
-  const [timeLeft, setTimeLeft] = useState(10 * 60); // 10 minutes
+  // The graded questions, answers and explanations included
+  const [results, setResults] = useState<{ score: number; questions: ModuleQuestion[] } | null>(null);
+  const [grading, setGrading] = useState(false);
+  const [gradeError, setGradeError] = useState('');
+  const questionHeadingRef = useRef<HTMLHeadingElement>(null);
 
-  const questions = getModuleQuestions(moduleId);
+  const { localize } = useI18n();
+
+  const gradedOnline = Boolean(moduleQuestions?.length && onGrade);
+  const questions: LearnerModuleQuestion[] = (gradedOnline ? moduleQuestions! : getModuleQuestions(moduleId)).map(question => localize(question));
   const currentQuestion = questions[currentQuestionIndex];
 
-  React.useEffect(() => {
-    if (timeLeft > 0 && !showResults) {
-      const timer = setTimeout(() => setTimeLeft(timeLeft - 1), 1000);
-      return () => clearTimeout(timer);
-    } else if (timeLeft === 0) {
-      handleSubmitTest();
-    }
-  }, [timeLeft, showResults]);
+  // 10 minutes, plus any extra time the learner is granted
+  const { timeLeft, totalSeconds, extraTimePercent, reducedMotion } = useQuizTimer(10 * 60, {
+    running: !results && !grading,
+    onExpire: () => handleSubmitTest()
+  });
+
+  // Move focus to each new question so screen readers read it out
+  useEffect(() => {
+    questionHeadingRef.current?.focus();
+  }, [currentQuestionIndex]);
 
   const handleAnswerSelect = (answerIndex: number) => {
     setSelectedAnswer(answerIndex);
@@ -130,30 +66,39 @@ export const ModuleTest: React.FC<ModuleTestProps> = ({ moduleId, moduleTitle, o
     }
   };
 
-  const handleSubmitTest = (finalAnswers = answers) => {
-    const score = calculateScore(finalAnswers);
-    setShowResults(true);
+  const handleSubmitTest = async (finalAnswers = answers) => {
+    setGrading(true);
+    setGradeError('');
+    try {
+      const graded = gradedOnline ? await gradeOnline(finalAnswers) : gradeBuiltIn(finalAnswers);
+      const reviewed = graded.questions.map(question => localize(question));
+      reviewed.forEach((question, index) => {
+        if (finalAnswers[index] !== undefined) onAnswered?.(index, question, finalAnswers[index]);
+      });
+      setResults({ score: graded.score, questions: reviewed });
+    } catch (error) {
+      console.error('Grade module test error:', error);
+      setGradeError('Your answers could not be checked. Check your connection and submit again.');
+    } finally {
+      setGrading(false);
+    }
   };
 
-  const calculateScore = (userAnswers: number[]) => {
-    let correct = 0;
-    questions.forEach((question, index) => {
-      if (userAnswers[index] === question.correctAnswer) {
-        correct++;
-      }
-    });
-    return Math.round((correct / questions.length) * 100);
+  const gradeOnline = async (userAnswers: number[]) => {
+    const { score, results: graded } = await onGrade!(questions.map((_, index) => userAnswers[index] ?? -1));
+    return { score, questions: graded };
   };
 
-  const formatTime = (seconds: number) => {
-    const minutes = Math.floor(seconds / 60);
-    const remainingSeconds = seconds % 60;
-    return `${minutes}:${remainingSeconds.toString().padStart(2, '0')}`;
+  const gradeBuiltIn = (userAnswers: number[]) => {
+    const builtIn = getModuleQuestions(moduleId);
+    const correct = builtIn.filter((question, index) => userAnswers[index] === question.correctAnswer).length;
+    return { score: Math.round((correct / builtIn.length) * 100), questions: builtIn };
   };
 
-  if (showResults) {
-    const score = calculateScore(answers);
-    const passed = score >= 70;
+  if (results) {
+    const { score, questions: reviewed } = results;
+    const passed = score >= MODULE_PASS_SCORE;
+    const correctCount = reviewed.filter((question, index) => answers[index] === question.correctAnswer).length;
 
     return (
       <div className="p-6">
@@ -170,16 +115,16 @@ export const ModuleTest: React.FC<ModuleTestProps> = ({ moduleId, moduleTitle, o
             <h2 className="text-2xl font-bold text-gray-900 mb-4">Test Complete!</h2>
             <div className="text-4xl font-bold text-cyan-600 mb-2">{score}%</div>
             <p className="text-lg text-gray-600 mb-6">
-              {passed ? 'Congratulations! You passed the test.' : 'You need 70% to pass. Try again!'}
+              {passed ? 'Congratulations! You passed the test.' : `You need ${MODULE_PASS_SCORE}% to pass. Try again!`}
             </p>
 
             <div className="grid grid-cols-1 md:grid-cols-2 gap-6 mb-8">
               <div className="bg-gray-50 p-4 rounded-lg">
-                <div className="text-xl font-bold text-gray-900">{answers.filter((answer, index) => answer === questions[index]?.correctAnswer).length}</div>
+                <div className="text-xl font-bold text-gray-900">{correctCount}</div>
                 <div className="text-gray-600">Correct</div>
               </div>
               <div className="bg-gray-50 p-4 rounded-lg">
-                <div className="text-xl font-bold text-gray-900">{questions.length - answers.filter((answer, index) => answer === questions[index]?.correctAnswer).length}</div>
+                <div className="text-xl font-bold text-gray-900">{reviewed.length - correctCount}</div>
                 <div className="text-gray-600">Incorrect</div>
               </div>
             </div>
@@ -209,7 +154,7 @@ export const ModuleTest: React.FC<ModuleTestProps> = ({ moduleId, moduleTitle, o
           <div className="bg-white rounded-lg shadow-md p-6 mt-6">
             <h3 className="text-xl font-bold text-gray-900 mb-6">Detailed Results</h3>
             <div className="space-y-4">
-              {questions.map((question, index) => {
+              {reviewed.map((question, index) => {
                 const userAnswer = answers[index];
                 const isCorrect = userAnswer === question.correctAnswer;
                 
@@ -259,12 +204,7 @@ export const ModuleTest: React.FC<ModuleTestProps> = ({ moduleId, moduleTitle, o
             </button>
             <h1 className="text-xl font-bold text-gray-900">{moduleTitle} - Test</h1>
           </div>
-          <div className="flex items-center space-x-2 text-lg font-medium">
-            <Clock className="h-5 w-5 text-gray-500" />
-            <span className={timeLeft < 120 ? 'text-red-600' : 'text-gray-900'}>
-              {formatTime(timeLeft)}
-            </span>
-          </div>
+          <QuizTimer timeLeft={timeLeft} totalSeconds={totalSeconds} warnBelow={120} extraTimePercent={extraTimePercent} />
         </div>
 
         {/* Progress */}
@@ -273,9 +213,17 @@ export const ModuleTest: React.FC<ModuleTestProps> = ({ moduleId, moduleTitle, o
             <span className="text-sm text-gray-600">Question {currentQuestionIndex + 1} of {questions.length}</span>
             <span className="text-sm text-gray-600">{Math.round(((currentQuestionIndex + 1) / questions.length) * 100)}% Complete</span>
           </div>
-          <div className="w-full bg-gray-200 rounded-full h-2">
-            <div 
-              className="bg-cyan-600 h-2 rounded-full transition-all duration-300"
+          <div
+            className="w-full bg-gray-200 rounded-full h-2"
+            role="progressbar"
+            aria-label="Test progress"
+            aria-valuemin={1}
+            aria-valuemax={questions.length}
+            aria-valuenow={currentQuestionIndex + 1}
+            aria-valuetext={`Question ${currentQuestionIndex + 1} of ${questions.length}`}
+          >
+            <div
+              className={`bg-cyan-600 h-2 rounded-full ${reducedMotion ? '' : 'transition-all duration-300'}`}
               style={{ width: `${((currentQuestionIndex + 1) / questions.length) * 100}%` }}
             ></div>
           </div>
@@ -283,34 +231,15 @@ export const ModuleTest: React.FC<ModuleTestProps> = ({ moduleId, moduleTitle, o
 
         {/* Question */}
         <div className="bg-white rounded-lg shadow-md p-8">
-          <h2 className="text-xl font-bold text-gray-900 mb-6">{currentQuestion.question}</h2>
+          <h2 id="module-test-question" ref={questionHeadingRef} tabIndex={-1} className="text-xl font-bold text-gray-900 mb-6 focus:outline-none">{currentQuestion.question}</h2>
 
-          <div className="space-y-3 mb-8">
-            {currentQuestion.options.map((option: string, index: number) => (
-              <button
-                key={index}
-                onClick={() => handleAnswerSelect(index)}
-                className={`w-full text-left p-4 rounded-lg border-2 transition-all ${
-                  selectedAnswer === index
-                    ? 'border-cyan-500 bg-cyan-50 text-cyan-900'
-                    : 'border-gray-200 hover:border-gray-300 bg-white'
-                }`}
-              >
-                <div className="flex items-center space-x-3">
-                  <div className={`w-4 h-4 rounded-full border-2 ${
-                    selectedAnswer === index
-                      ? 'border-cyan-500 bg-cyan-500'
-                      : 'border-gray-300'
-                  }`}>
-                    {selectedAnswer === index && (
-                      <div className="w-full h-full rounded-full bg-white scale-50"></div>
-                    )}
-                  </div>
-                  <span className="text-gray-900">{option}</span>
-                </div>
-              </button>
-            ))}
-          </div>
+          <AnswerOptions
+            options={currentQuestion.options}
+            selected={selectedAnswer}
+            onSelect={handleAnswerSelect}
+            labelledBy="module-test-question"
+            reducedMotion={reducedMotion}
+          />
 
           {/* Navigation */}
           <div className="flex justify-between">
@@ -328,13 +257,14 @@ export const ModuleTest: React.FC<ModuleTestProps> = ({ moduleId, moduleTitle, o
             </button>
             
             <button
-              onClick={currentQuestionIndex === questions.length - 1 ? handleSubmitTest : handleNextQuestion}
-              disabled={selectedAnswer === null}
+              onClick={handleNextQuestion}
+              disabled={selectedAnswer === null || grading}
               className="px-6 py-2 bg-cyan-600 text-white rounded-lg hover:bg-cyan-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
             >
-              {currentQuestionIndex === questions.length - 1 ? 'Submit Test' : 'Next Question'}
+              {currentQuestionIndex < questions.length - 1 ? 'Next Question' : grading ? 'Checking...' : 'Submit Test'}
             </button>
           </div>
+          {gradeError && <p className="mt-4 text-sm text-red-600" role="alert">{gradeError}</p>}
         </div>
       </div>
     </div>
@@ -1,52 +1,84 @@
-import React, { useState } from 'react';
+import React, { useState, useEffect } from 'react';
 import { ArrowLeft, Play, FileText, FlaskRound as Flask, CheckCircle, Clock } from 'lucide-react';
-import { owaspCourses } from '../../data/owaspCourses';
 import { ModuleTest } from './ModuleTest';
 import { VideoPlayer } from '../Video/VideoPlayer';
+import { MarkdownContent } from '../Content/MarkdownContent';
 import { learningPathService } from '../../services/learningPathService';
-import { supabase } from '../../lib/supabase';
+import { offlineSyncService } from '../../services/offlineSyncService';
+import { courseRepository } from '../../services/courseRepository';
+import { xapiService } from '../../services/xapiService';
 import { useAuth } from '../../context/AuthContext';
+import { useI18n } from '../../context/I18nContext';
+import type { Course, ModuleQuestion } from '../../types';
 
 interface ModuleViewerProps {
-  courseId: string;
+  course: Course;
   moduleId: string;
   onBack: () => void;
+  // Called once a passed test has been saved (or queued while offline)
+  onModuleCompleted: (moduleId: string, score: number) => void;
 }
 
-export const ModuleViewer: React.FC<ModuleViewerProps> = ({ courseId, moduleId, onBack }) => {
+export const ModuleViewer: React.FC<ModuleViewerProps> = ({ course, moduleId, onBack, onModuleCompleted }) => {
   const [activeTab, setActiveTab] = useState<'content' | 'lab' | 'test'>('content');
   const [showTest, setShowTest] = useState(false);
   const { user } = useAuth();
+  const { localize } = useI18n();
 
-  const course = owaspCourses.find(c => c.id === courseId);
-  const module = course?.modules.find(m => m.id === moduleId);
+  const module = course.modules.find(m => m.id === moduleId);
+  const moduleFound = Boolean(module);
 
-  if (!course || !module) {
+  // Opening a module counts as starting it
+  useEffect(() => {
+    if (!moduleFound) return;
+    xapiService.emit({ type: 'module_started', courseId: course.id, moduleId });
+  }, [course.id, moduleId, moduleFound]);
+
+  if (!module) {
     return <div>Module not found</div>;
   }
 
+  const localizedModule = localize(module);
+  const xapiModule = { courseId: course.id, moduleId };
+
   const handleTestCompletion = async (score: number) => {
-    // Update module completion status
-    module.completed = true;
-    module.testScore = score;
     setShowTest(false);
 
-    // Persist progress and trigger rebalance
+    // Persist progress (queued while offline) and trigger rebalance
     try {
       if (user?.id) {
-        await supabase.from('user_progress').upsert([{ user_id: user.id, course_id: courseId, module_id: moduleId, completed: true, quiz_score: score, source: 'adaptive' }]);
-        await learningPathService.rebalance(user.id, courseId);
+        const synced = await offlineSyncService.saveProgress({ user_id: user.id, course_id: course.id, module_id: moduleId, completed: true, quiz_score: score, source: 'adaptive' });
+        onModuleCompleted(moduleId, score);
+        // The server reports the score it has saved, so a completion queued offline is not reported
+        if (synced) {
+          xapiService.emit({ type: 'module_completed', ...xapiModule });
+          await learningPathService.rebalance(user.id, course.id);
+        }
       }
     } catch (e) {
       console.error('Failed to persist progress or rebalance:', e);
     }
   };
 
+  const handleQuestionAnswered = (questionIndex: number, question: ModuleQuestion, answer: number) => {
+    xapiService.emit({
+      type: 'quiz_answered',
+      ...xapiModule,
+      questionIndex,
+      question: question.question,
+      response: question.options[answer],
+      correct: answer === question.correctAnswer
+    });
+  };
+
   if (showTest) {
     return (
       <ModuleTest
-        moduleId={moduleId}
-        moduleTitle={module.title}
+        moduleId={module.slug ?? module.id}
+        questions={module.quizQuestions}
+        onGrade={answers => courseRepository.gradeModuleTest(module.id, answers)}
+        moduleTitle={localizedModule.title}
+        onAnswered={handleQuestionAnswered}
         onComplete={handleTestCompletion}
         onBack={() => setShowTest(false)}
       />
@@ -76,8 +108,8 @@ export const ModuleViewer: React.FC<ModuleViewerProps> = ({ courseId, moduleId,
 
         {/* Module Info */}
         <div className="bg-white rounded-lg shadow-md p-8 mb-6">
-          <h1 className="text-2xl font-bold text-gray-900 mb-2">{module.title}</h1>
-          <p className="text-gray-600 mb-6">{module.description}</p>
+          <h1 className="text-2xl font-bold text-gray-900 mb-2">{localizedModule.title}</h1>
+          <p className="text-gray-600 mb-6">{localizedModule.description}</p>
           
           <div className="flex items-center space-x-6 text-sm text-gray-500">
             <div className="flex items-center space-x-1">
@@ -149,17 +181,17 @@ export const ModuleViewer: React.FC<ModuleViewerProps> = ({ courseId, moduleId,
 
           <div className="p-6">
             {activeTab === 'content' && (
-              <div className="prose max-w-none">
-                <div dangerouslySetInnerHTML={{ __html: module.content.replace(/\n/g, '<br/>').replace(/```([^`]+)```/g, '<pre class="bg-gray-100 p-4 rounded"><code>$1</code></pre>').replace(/`([^`]+)`/g, '<code class="bg-gray-100 px-1 rounded">$1</code>').replace(/^# (.+)$/gm, '<h1 class="text-2xl font-bold mb-4">$1</h1>').replace(/^## (.+)$/gm, '<h2 class="text-xl font-bold mb-3 mt-6">$1</h2>').replace(/^### (.+)$/gm, '<h3 class="text-lg font-bold mb-2 mt-4">$1</h3>').replace(/^\- (.+)$/gm, '<li class="ml-4">$1</li>').replace(/^(\d+)\. (.+)$/gm, '<li class="ml-4">$2</li>') }} />
+              <div>
+                <MarkdownContent source={localizedModule.content} showToc />
                 
                 {module.videoUrl && (
                   <div className="mt-8">
                     <h3 className="font-bold text-gray-900 mb-4">Video Lecture</h3>
                     <VideoPlayer
                       videoUrl="https://commondatastorage.googleapis.com/gtv-videos-bucket/sample/BigBuckBunny.mp4"
-                      title={`${module.title} - Video Lecture`}
+                      title={`${localizedModule.title} - Video Lecture`}
                       onProgress={(progress) => console.log('Video progress:', progress)}
-                      onComplete={() => console.log('Video completed')}
+                      onComplete={() => module.videoUrl && xapiService.emit({ type: 'video_watched', ...xapiModule, videoUrl: module.videoUrl })}
                     />
                   </div>
                 )}
@@ -1,55 +1,58 @@
 import React from 'react';
 import { BookOpen, Target, Trophy, Clock, TrendingUp, Shield } from 'lucide-react';
 import { useAuth } from '../../context/AuthContext';
+import { useI18n } from '../../context/I18nContext';
 import { LiveStream } from '../Video/LiveStream';
 
 export const Dashboard: React.FC = () => {
   const { user } = useAuth();
+  const { t, formatNumber, formatRelativeTime } = useI18n();
 
   const stats = [
     {
       icon: BookOpen,
-      label: 'Courses Completed',
-      value: '2',
+      label: t('dashboard.coursesCompleted'),
+      value: formatNumber(2),
       color: 'bg-blue-500'
     },
     {
       icon: Target,
-      label: 'Assessment Score',
-      value: user?.completedAssessment ? '85%' : 'Not Taken',
+      label: t('dashboard.assessmentScore'),
+      value: user?.completedAssessment ? formatNumber(0.85, { style: 'percent' }) : t('dashboard.notTaken'),
       color: 'bg-green-500'
     },
     {
       icon: Trophy,
-      label: 'Certificates Earned',
-      value: user?.certificates.length || '0',
+      label: t('dashboard.certificatesEarned'),
+      value: formatNumber(user?.certificates.length || 0),
       color: 'bg-yellow-500'
     },
     {
       icon: Clock,
-      label: 'Study Time',
-      value: '24 hours',
+      label: t('dashboard.studyTime'),
+      value: t('common.hours', { count: 24 }),
       color: 'bg-purple-500'
     }
   ];
 
+  const hour = 60 * 60 * 1000;
   const recentActivity = [
-    { action: 'Completed Live Lab: SQL Injection', time: '2 hours ago', type: 'completion' },
-    { action: 'Started Live Lab: Broken Access Control', time: '1 day ago', type: 'start' },
-    { action: 'Passed Assessment Test', time: '3 days ago', type: 'achievement' },
-    { action: 'Earned Certificate: OWASP Top 10', time: '1 week ago', type: 'certificate' }
+    { action: t('dashboard.activityCompletedLab', { name: 'SQL Injection' }), time: formatRelativeTime(Date.now() - 2 * hour), type: 'completion' },
+    { action: t('dashboard.activityStartedLab', { name: 'Broken Access Control' }), time: formatRelativeTime(Date.now() - 24 * hour), type: 'start' },
+    { action: t('dashboard.activityPassedAssessment'), time: formatRelativeTime(Date.now() - 3 * 24 * hour), type: 'achievement' },
+    { action: t('dashboard.activityEarnedCertificate', { name: 'OWASP Top 10' }), time: formatRelativeTime(Date.now() - 7 * 24 * hour), type: 'certificate' }
   ];
 
   return (
     <div className="p-6 space-y-8 bg-gray-900 dark:bg-gray-900 light:bg-gray-50 min-h-screen">
       <div className="flex items-center justify-between">
         <div>
-          <h1 className="text-3xl font-bold text-white dark:text-white light:text-gray-900">Welcome back, {user?.name}!</h1>
-          <p className="text-gray-300 dark:text-gray-300 light:text-gray-600 mt-2">Continue your cybersecurity learning journey</p>
+          <h1 className="text-3xl font-bold text-white dark:text-white light:text-gray-900">{t('dashboard.welcome', { name: user?.name ?? '' })}</h1>
+          <p className="text-gray-300 dark:text-gray-300 light:text-gray-600 mt-2">{t('dashboard.subtitle')}</p>
         </div>
         <div className="flex items-center space-x-2 bg-gradient-to-r from-orange-500 to-red-600 text-white px-4 py-2 rounded-lg">
           <Shield className="h-5 w-5" />
-          <span className="font-medium">Level: {user?.level}</span>
+          <span className="font-medium">{t('dashboard.level', { level: user ? t(`level.${user.level}`) : '' })}</span>
         </div>
       </div>
 
@@ -77,12 +80,12 @@ export const Dashboard: React.FC = () => {
       <div className="grid grid-cols-1 lg:grid-cols-2 gap-8">
         {/* Current Progress */}
         <div className="bg-white dark:bg-gray-800 light:bg-white rounded-lg shadow-md p-6">
-          <h2 className="text-xl font-bold text-white dark:text-white light:text-gray-900 mb-4">Current Progress</h2>
+          <h2 className="text-xl font-bold text-white dark:text-white light:text-gray-900 mb-4">{t('dashboard.currentProgress')}</h2>
           <div className="space-y-4">
             <div>
               <div className="flex justify-between text-sm text-gray-300 dark:text-gray-300 light:text-gray-600 mb-1">
-                <span>OWASP Top 10 Course</span>
-                <span>3/10 modules</span>
+                <span>{t('dashboard.owaspCourse')}</span>
+                <span>{t('dashboard.modulesProgress', { done: 3, count: 10 })}</span>
               </div>
               <div className="w-full bg-gray-200 dark:bg-gray-700 light:bg-gray-200 rounded-full h-2">
                 <div className="bg-orange-600 h-2 rounded-full" style={{ width: '30%' }}></div>
@@ -90,8 +93,8 @@ export const Dashboard: React.FC = () => {
             </div>
             <div>
               <div className="flex justify-between text-sm text-gray-300 dark:text-gray-300 light:text-gray-600 mb-1">
-                <span>Live Security Labs</span>
-                <span>2/6 completed</span>
+                <span>{t('dashboard.liveLabs')}</span>
+                <span>{t('dashboard.labsProgress', { done: 2, count: 6 })}</span>
               </div>
               <div className="w-full bg-gray-200 dark:bg-gray-700 light:bg-gray-200 rounded-full h-2">
                 <div className="bg-green-600 h-2 rounded-full" style={{ width: '33%' }}></div>
@@ -99,8 +102,8 @@ export const Dashboard: React.FC = () => {
             </div>
             <div>
               <div className="flex justify-between text-sm text-gray-300 dark:text-gray-300 light:text-gray-600 mb-1">
-                <span>Skill Assessment</span>
-                <span>{user?.completedAssessment ? 'Completed' : 'Pending'}</span>
+                <span>{t('dashboard.skillAssessment')}</span>
+                <span>{user?.completedAssessment ? t('common.completed') : t('common.pending')}</span>
               </div>
               <div className="w-full bg-gray-200 dark:bg-gray-700 light:bg-gray-200 rounded-full h-2">
                 <div className="bg-yellow-600 h-2 rounded-full" style={{ width: user?.completedAssessment ? '100%' : '0%' }}></div>
@@ -111,7 +114,7 @@ export const Dashboard: React.FC = () => {
 
         {/* Recent Activity */}
         <div className="bg-white dark:bg-gray-800 light:bg-white rounded-lg shadow-md p-6">
-          <h2 className="text-xl font-bold text-white dark:text-white light:text-gray-900 mb-4">Recent Activity</h2>
+          <h2 className="text-xl font-bold text-white dark:text-white light:text-gray-900 mb-4">{t('dashboard.recentActivity')}</h2>
           <div className="space-y-4">
             {recentActivity.map((activity, index) => (
               <div key={index} className="flex items-start space-x-3">
@@ -133,29 +136,29 @@ export const Dashboard: React.FC = () => {
 
       {/* Quick Actions */}
       <div className="bg-white dark:bg-gray-800 light:bg-white rounded-lg shadow-md p-6">
-        <h2 className="text-xl font-bold text-white dark:text-white light:text-gray-900 mb-4">Quick Actions</h2>
+        <h2 className="text-xl font-bold text-white dark:text-white light:text-gray-900 mb-4">{t('dashboard.quickActions')}</h2>
         <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
           <button className="flex items-center justify-center space-x-2 bg-gradient-to-r from-orange-500 to-red-600 text-white p-4 rounded-lg hover:from-orange-600 hover:to-red-700 transition-all">
             <Target className="h-5 w-5" />
-            <span>Take Assessment</span>
+            <span>{t('dashboard.takeAssessment')}</span>
           </button>
           <button className="flex items-center justify-center space-x-2 bg-gradient-to-r from-gray-700 to-gray-800 text-white p-4 rounded-lg hover:from-gray-800 hover:to-gray-900 transition-all">
             <BookOpen className="h-5 w-5" />
-            <span>Continue Course</span>
+            <span>{t('dashboard.continueCourse')}</span>
           </button>
           <button className="flex items-center justify-center space-x-2 bg-gradient-to-r from-orange-600 to-orange-700 text-white p-4 rounded-lg hover:from-orange-700 hover:to-orange-800 transition-all">
             <TrendingUp className="h-5 w-5" />
-            <span>View Progress</span>
+            <span>{t('dashboard.viewProgress')}</span>
           </button>
         </div>
       </div>
 
       {/* Live Stream Section */}
       <div>
-        <h2 className="text-2xl font-bold text-white dark:text-white light:text-gray-900 mb-6">Live Training Sessions</h2>
+        <h2 className="text-2xl font-bold text-white dark:text-white light:text-gray-900 mb-6">{t('dashboard.liveSessions')}</h2>
         <LiveStream
           streamId="live-owasp-session"
-          title="Live OWASP Top 10 Deep Dive"
+          title={t('dashboard.liveStreamTitle')}
           instructor="Dr. Sarah Chen"
           onJoin={() => console.log('Joined live stream')}
           onLeave={() => console.log('Left live stream')}
@@ -3,10 +3,13 @@ import { ArrowLeft, Clock, User, CheckCircle, ExternalLink, Play } from 'lucide-
 import { labs } from '../../data/labs';
 import { RealTimeLabEnvironment } from './RealTimeLabEnvironment';
 import { VideoPlayer } from '../Video/VideoPlayer';
+import { useI18n } from '../../context/I18nContext';
 
 export const LabViewer = ({ labId, onBack }) => {
   const [showEnvironment, setShowEnvironment] = React.useState(false);
-  const lab = labs.find(l => l.id === labId);
+  const { localize } = useI18n();
+  const found = labs.find(l => l.id === labId);
+  const lab = found && localize(found);
 
   if (!lab) {
     return <div>Lab not found</div>;
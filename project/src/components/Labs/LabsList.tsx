@@ -1,12 +1,15 @@
 import React from 'react';
 import { FlaskRound as Flask, Clock, User, CheckCircle, ArrowRight } from 'lucide-react';
 import { labs } from '../../data/labs';
+import { useI18n } from '../../context/I18nContext';
 
 interface LabsListProps {
   onLabSelect: (labId: string) => void;
 }
 
 export const LabsList: React.FC<LabsListProps> = ({ onLabSelect }) => {
+  const { localize } = useI18n();
+
   const getDifficultyColor = (difficulty: string) => {
     switch (difficulty) {
       case 'beginner': return 'bg-green-100 text-green-800';
@@ -34,12 +37,12 @@ export const LabsList: React.FC<LabsListProps> = ({ onLabSelect }) => {
                   <div className="flex-1">
                     <div className="flex items-center space-x-3 mb-2">
                       <Flask className="h-6 w-6 text-cyan-600" />
-                      <h2 className="text-xl font-bold text-gray-900">{lab.title}</h2>
+                      <h2 className="text-xl font-bold text-gray-900">{localize(lab).title}</h2>
                       {lab.completed && (
                         <CheckCircle className="h-5 w-5 text-green-500" />
                       )}
                     </div>
-                    <p className="text-gray-600 mb-4">{lab.description}</p>
+                    <p className="text-gray-600 mb-4">{localize(lab).description}</p>
                     
                     <div className="flex items-center space-x-6 text-sm text-gray-500 mb-4">
                       <div className="flex items-center space-x-1">
@@ -1,5 +1,6 @@
 import React, { useState, useEffect, useRef } from 'react';
 import { Terminal, RotateCcw, ExternalLink, CheckCircle, AlertTriangle, Shield, Zap, Target } from 'lucide-react';
+import { xapiService } from '../../services/xapiService';
 
 interface LabEnvironmentProps {
   labId: string;
@@ -211,6 +212,10 @@ export const RealTimeLabEnvironment = ({ labId, labTitle, onComplete, onBack }:
     };
 
     const objectiveId = objectiveMap[attackType];
+    const achieved = objectives.find((obj: LabObjective) => obj.id === objectiveId && !obj.completed);
+    if (achieved) {
+      xapiService.emit({ type: 'lab_objective_achieved', labId, labTitle, objectiveId: achieved.id, objective: achieved.description });
+    }
     if (objectiveId) {
       setObjectives((prev: LabObjective[]) => prev.map((obj: LabObjective) => 
         obj.id === objectiveId ? { ...obj, completed: true } : obj
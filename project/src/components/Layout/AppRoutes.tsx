@@ -0,0 +1,163 @@
+import React from 'react';
+import { Routes, Route, Navigate, useNavigate, useParams } from 'react-router-dom';
+import { useAuth } from '../../context/AuthContext';
+import { usePermission } from '../../hooks/usePermission';
+import { useCourse } from '../../hooks/useCourses';
+import { VIEW_PERMISSIONS } from '../../lib/permissions';
+import { VIEW_PATHS, paths } from '../../lib/routes';
+import { canOpenCourses, canOpenModule } from '../../lib/courseAccess';
+import { AccessDenied } from '../Auth/AccessDenied';
+import { EmailVerificationNotice } from '../Auth/EmailVerificationNotice';
+import { Dashboard } from '../Dashboard/Dashboard';
+import { AdminDashboard } from '../Admin/AdminDashboard';
+import { TeacherDashboard } from '../Teacher/TeacherDashboard';
+import { AssessmentTest } from '../Assessment/AssessmentTest';
+import { CourseList } from '../Courses/CourseList';
+import { CourseDetail } from '../Courses/CourseDetail';
+import { ModuleViewer } from '../Courses/ModuleViewer';
+import { AssessmentAnalytics } from '../Admin/AssessmentAnalytics';
+import { LabsList } from '../Labs/LabsList';
+import { LabViewer } from '../Labs/LabViewer';
+import { Certificates } from '../Certificates/Certificates';
+import { Profile } from '../Profile/Profile';
+import { VideoLibrary } from '../Video/VideoLibrary';
+import { TechnicalQuestions } from '../TechnicalInterview/TechnicalQuestions';
+import { NotesTab } from '../Notes/NotesTab';
+
+// Views that record enrollments or progress, which needs a confirmed email
+const VERIFIED_ONLY_VIEWS = ['courses', 'labs', 'assessment', 'certificates'];
+
+interface ViewRouteProps {
+  view: string;
+  children: React.ReactNode;
+}
+
+// Per-route guard: the user's role must grant the view's permission
+const ViewRoute: React.FC<ViewRouteProps> = ({ view, children }) => {
+  const { user } = useAuth();
+  const can = usePermission();
+
+  const requiredPermission = VIEW_PERMISSIONS[view];
+  if (requiredPermission && !can(requiredPermission)) {
+    return <AccessDenied />;
+  }
+  if (user?.email_verified === false && VERIFIED_ONLY_VIEWS.includes(view)) {
+    return <EmailVerificationNotice email={user.email} blocking />;
+  }
+  return <>{children}</>;
+};
+
+const CourseListRoute = () => {
+  const navigate = useNavigate();
+  return <CourseList onCourseSelect={courseId => navigate(paths.course(courseId))} />;
+};
+
+// Links straight to a course or module get the same locks as the course list
+const CourseRoute = () => {
+  const { courseId = '', moduleId } = useParams();
+  const { user } = useAuth();
+  const can = usePermission();
+  const navigate = useNavigate();
+  const { course, loading, error, recordModuleResult } = useCourse(courseId);
+  const unlockAll = can('course:unlock-all');
+
+  if (!canOpenCourses(user, unlockAll)) {
+    return <AccessDenied />;
+  }
+
+  if (loading) {
+    return (
+      <div className="flex justify-center py-12">
+        <div className="animate-spin rounded-full h-10 w-10 border-b-2 border-cyan-600"></div>
+      </div>
+    );
+  }
+
+  if (!course) {
+    return <div className="p-6 text-gray-600">{error ? `Could not load course: ${error}` : 'Course not found'}</div>;
+  }
+
+  if (moduleId) {
+    const moduleIndex = course.modules.findIndex(m => m.id === moduleId);
+    if (moduleIndex >= 0 && !canOpenModule(user, moduleIndex, unlockAll)) {
+      return <AccessDenied />;
+    }
+    return (
+      <ModuleViewer
+        key={moduleId}
+        course={course}
+        moduleId={moduleId}
+        onBack={() => navigate(paths.course(courseId))}
+        onModuleCompleted={recordModuleResult}
+      />
+    );
+  }
+
+  return (
+    <CourseDetail
+      course={course}
+      onModuleSelect={id => navigate(paths.module(courseId, id))}
+      onBack={() => navigate(VIEW_PATHS.courses)}
+    />
+  );
+};
+
+const LabsRoute = () => {
+  const { labId } = useParams();
+  const navigate = useNavigate();
+  return labId ? (
+    <LabViewer labId={labId} onBack={() => navigate(VIEW_PATHS.labs)} />
+  ) : (
+    <LabsList onLabSelect={id => navigate(paths.lab(id))} />
+  );
+};
+
+const VideosRoute = () => {
+  const { videoId } = useParams();
+  const navigate = useNavigate();
+  return <VideoLibrary videoId={videoId} onVideoSelect={id => navigate(id ? paths.video(id) : VIEW_PATHS.videos)} />;
+};
+
+const QuestionsRoute = () => {
+  const { questionId } = useParams();
+  const navigate = useNavigate();
+  return (
+    <TechnicalQuestions
+      questionId={questionId}
+      onQuestionSelect={id => navigate(id ? paths.question(id) : VIEW_PATHS.technical)}
+    />
+  );
+};
+
+const AnalyticsRoute = () => {
+  const can = usePermission();
+  // Admins get platform-wide assessment analytics; teachers the stats for their own courses
+  return can('assessment:analytics') ? <AssessmentAnalytics /> : <TeacherDashboard />;
+};
+
+const view = (id: string, element: React.ReactNode) => <ViewRoute view={id}>{element}</ViewRoute>;
+
+export const AppRoutes: React.FC = () => (
+  <Routes>
+    <Route path={VIEW_PATHS.dashboard} element={view('dashboard', <Dashboard />)} />
+    <Route path={VIEW_PATHS.admin} element={view('admin', <AdminDashboard />)} />
+    <Route path={VIEW_PATHS['my-courses']} element={view('my-courses', <TeacherDashboard />)} />
+    <Route path={VIEW_PATHS['create-course']} element={view('create-course', <TeacherDashboard />)} />
+    <Route path={VIEW_PATHS.students} element={view('students', <TeacherDashboard />)} />
+    <Route path={VIEW_PATHS.courses} element={view('courses', <CourseListRoute />)} />
+    <Route path="/courses/:courseId" element={view('courses', <CourseRoute />)} />
+    <Route path="/courses/:courseId/modules/:moduleId" element={view('courses', <CourseRoute />)} />
+    <Route path={VIEW_PATHS.notes} element={view('notes', <NotesTab />)} />
+    <Route path={VIEW_PATHS.videos} element={view('videos', <VideosRoute />)} />
+    <Route path="/videos/:videoId" element={view('videos', <VideosRoute />)} />
+    <Route path={VIEW_PATHS.assessment} element={view('assessment', <AssessmentTest />)} />
+    <Route path={VIEW_PATHS.labs} element={view('labs', <LabsRoute />)} />
+    <Route path="/labs/:labId" element={view('labs', <LabsRoute />)} />
+    <Route path={VIEW_PATHS.technical} element={view('technical', <QuestionsRoute />)} />
+    <Route path="/jobs/:questionId" element={view('technical', <QuestionsRoute />)} />
+    <Route path={VIEW_PATHS.certificates} element={view('certificates', <Certificates />)} />
+    <Route path={VIEW_PATHS.analytics} element={view('analytics', <AnalyticsRoute />)} />
+    <Route path={VIEW_PATHS.profile} element={view('profile', <Profile />)} />
+    <Route path="*" element={<Navigate to={VIEW_PATHS.dashboard} replace />} />
+  </Routes>
+);
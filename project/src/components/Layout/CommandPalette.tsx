@@ -0,0 +1,328 @@
+import React, { useState, useEffect, useMemo, useRef } from 'react';
+import { useNavigate } from 'react-router-dom';
+import {
+  Search,
+  Zap,
+  BookOpen,
+  FileText,
+  FlaskRound as Flask,
+  Video,
+  Building2,
+  StickyNote,
+  type LucideIcon
+} from 'lucide-react';
+import { useAuth } from '../../context/AuthContext';
+import { useTheme } from '../../context/ThemeContext';
+import { useI18n } from '../../context/I18nContext';
+import { usePermission } from '../../hooks/usePermission';
+import { VIEW_PERMISSIONS, type Permission } from '../../lib/permissions';
+import { VIEW_PATHS, paths } from '../../lib/routes';
+import { buildIndex, search, type SearchItem, type SearchResultType } from '../../lib/search';
+import { labs } from '../../data/labs';
+import { videoLibrary } from '../../data/videos';
+import { technicalQuestions } from '../../data/technicalQuestions';
+import { adminService } from '../../services/adminService';
+import { courseRepository } from '../../services/courseRepository';
+import type { Course } from '../../types';
+import { navItems } from './navItems';
+
+interface CommandPaletteProps {
+  isOpen: boolean;
+  onOpenChange: (open: boolean) => void;
+  onOpenChat: () => void;
+}
+
+interface NoteSummary {
+  id: string;
+  title: string;
+  description?: string;
+  pdf_url?: string;
+}
+
+const TYPE_LABELS: Record<SearchResultType, string> = {
+  action: 'Action',
+  course: 'Course',
+  module: 'Module',
+  lab: 'Lab',
+  video: 'Video',
+  question: 'Interview',
+  note: 'Note'
+};
+
+const TYPE_ICONS: Record<SearchResultType, LucideIcon> = {
+  action: Zap,
+  course: BookOpen,
+  module: FileText,
+  lab: Flask,
+  video: Video,
+  question: Building2,
+  note: StickyNote
+};
+
+// Content only shows up for users who may open the view it lives in
+const TYPE_PERMISSIONS: Record<Exclude<SearchResultType, 'action'>, Permission> = {
+  course: 'course:view',
+  module: 'course:view',
+  lab: 'labs:use',
+  video: 'videos:view',
+  question: 'jobs:view',
+  note: 'notes:view'
+};
+
+const excerpt = (text: string, length = 400) => text.replace(/\s+/g, ' ').slice(0, length);
+
+function courseItems(courses: Course[]): SearchItem[] {
+  const items: SearchItem[] = [];
+  for (const course of courses) {
+    items.push({ id: course.id, type: 'course', title: course.title, keywords: course.description, path: paths.course(course.id) });
+    for (const module of course.modules) {
+      items.push({
+        id: `${course.id}/${module.id}`,
+        type: 'module',
+        title: module.title,
+        subtitle: course.title,
+        keywords: `${module.description} ${excerpt(module.content)}`,
+        path: paths.module(course.id, module.id)
+      });
+    }
+  }
+  return items;
+}
+
+function contentItems(): SearchItem[] {
+  const items: SearchItem[] = [];
+  for (const lab of labs) {
+    items.push({
+      id: lab.id,
+      type: 'lab',
+      title: lab.title,
+      subtitle: `${lab.difficulty} · ${lab.estimatedTime}`,
+      keywords: `${lab.description} ${lab.tools.join(' ')}`,
+      path: paths.lab(lab.id)
+    });
+  }
+  for (const video of videoLibrary) {
+    items.push({
+      id: video.id,
+      type: 'video',
+      title: video.title,
+      subtitle: `${video.instructor} · ${video.category}`,
+      keywords: `${video.description} ${video.difficulty}`,
+      path: paths.video(video.id)
+    });
+  }
+  for (const question of technicalQuestions) {
+    items.push({
+      id: question.id,
+      type: 'question',
+      title: excerpt(question.question.split('\n')[0], 120),
+      subtitle: `${question.company} · ${question.position} · ${question.category}`,
+      keywords: `${question.tags.join(' ')} ${question.difficulty} ${excerpt(question.question)}`,
+      path: paths.question(question.id)
+    });
+  }
+  return items;
+}
+
+// Built once: the bundled content never changes while the app is running
+const CONTENT_ITEMS = contentItems();
+
+export const CommandPalette: React.FC<CommandPaletteProps> = ({ isOpen, onOpenChange, onOpenChat }) => {
+  const { user, logout } = useAuth();
+  const { theme, toggleTheme } = useTheme();
+  const { t } = useI18n();
+  const can = usePermission();
+  const navigate = useNavigate();
+  const [query, setQuery] = useState('');
+  const [activeIndex, setActiveIndex] = useState(0);
+  const [notes, setNotes] = useState<NoteSummary[] | null>(null);
+  const [courses, setCourses] = useState<Course[] | null>(null);
+  const inputRef = useRef<HTMLInputElement>(null);
+  const listRef = useRef<HTMLUListElement>(null);
+  const returnFocusRef = useRef<HTMLElement | null>(null);
+
+  // Ctrl+K (Cmd+K on macOS) opens and closes the palette from anywhere
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if ((e.ctrlKey || e.metaKey) && e.key.toLowerCase() === 'k') {
+        e.preventDefault();
+        onOpenChange(!isOpen);
+      }
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [isOpen, onOpenChange]);
+
+  useEffect(() => {
+    if (!isOpen) return;
+    returnFocusRef.current = document.activeElement as HTMLElement | null;
+    setQuery('');
+    setActiveIndex(0);
+    inputRef.current?.focus();
+    return () => returnFocusRef.current?.focus();
+  }, [isOpen]);
+
+  // Notes live in the database, so they are fetched the first time the palette opens
+  useEffect(() => {
+    if (!isOpen || notes !== null || !can('notes:view')) return;
+    adminService
+      .getAllNotes()
+      .then((rows: NoteSummary[]) => setNotes(rows.filter(note => note.pdf_url)))
+      .catch(error => {
+        console.error('Failed to load notes for search:', error);
+        setNotes([]);
+      });
+  }, [isOpen, notes, can]);
+
+  // Courses come from the database as well; the repository shares its cached catalog
+  useEffect(() => {
+    if (!isOpen || courses !== null || !user || !can('course:view')) return;
+    courseRepository
+      .listCourses(user.id)
+      .then(setCourses)
+      .catch(error => {
+        console.error('Failed to load courses for search:', error);
+        setCourses([]);
+      });
+  }, [isOpen, courses, user, can]);
+
+  const actions = useMemo<SearchItem[]>(() => {
+    const items: SearchItem[] = [];
+    if (can('assessment:take')) {
+      items.push({ id: 'start-assessment', type: 'action', title: 'Start assessment', keywords: 'test placement level', path: VIEW_PATHS.assessment });
+    }
+    items.push(
+      { id: 'open-chat', type: 'action', title: 'Ask the AI assistant', keywords: 'chat tutor help', run: onOpenChat },
+      { id: 'toggle-theme', type: 'action', title: `Switch to ${theme === 'dark' ? 'light' : 'dark'} theme`, keywords: 'theme dark light mode', run: toggleTheme }
+    );
+    for (const item of navItems) {
+      if (can(VIEW_PERMISSIONS[item.id])) {
+        items.push({ id: `go-${item.id}`, type: 'action', title: `Go to ${t(item.labelKey)}`, keywords: 'open page navigate', path: VIEW_PATHS[item.id] });
+      }
+    }
+    items.push({ id: 'sign-out', type: 'action', title: 'Sign out', keywords: 'log out logout', run: logout });
+    return items;
+  }, [can, theme, toggleTheme, onOpenChat, logout, t]);
+
+  const index = useMemo(() => {
+    const noteItems: SearchItem[] = (notes ?? []).map(note => ({
+      id: note.id,
+      type: 'note',
+      title: note.title,
+      subtitle: 'Study note (PDF)',
+      keywords: note.description,
+      url: note.pdf_url
+    }));
+    const content = [...courseItems(courses ?? []), ...CONTENT_ITEMS, ...noteItems].filter(item =>
+      item.type === 'action' || can(TYPE_PERMISSIONS[item.type])
+    );
+    return buildIndex([...actions, ...content]);
+  }, [actions, courses, notes, can]);
+
+  // With no query the palette lists what it can do
+  const results = useMemo(
+    () => (query.trim() ? search(index, query) : actions.map(action => ({ ...action, score: 0 }))),
+    [index, query, actions]
+  );
+
+  useEffect(() => {
+    setActiveIndex(0);
+  }, [query]);
+
+  useEffect(() => {
+    listRef.current?.querySelector(`[data-index="${activeIndex}"]`)?.scrollIntoView({ block: 'nearest' });
+  }, [activeIndex]);
+
+  if (!isOpen) return null;
+
+  const select = (item: SearchItem) => {
+    onOpenChange(false);
+    if (item.run) item.run();
+    else if (item.path) navigate(item.path);
+    else if (item.url) window.open(item.url, '_blank', 'noopener');
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    if (e.key === 'ArrowDown') {
+      e.preventDefault();
+      setActiveIndex(i => Math.min(i + 1, results.length - 1));
+    } else if (e.key === 'ArrowUp') {
+      e.preventDefault();
+      setActiveIndex(i => Math.max(i - 1, 0));
+    } else if (e.key === 'Enter' && results[activeIndex]) {
+      e.preventDefault();
+      select(results[activeIndex]);
+    } else if (e.key === 'Escape') {
+      e.preventDefault();
+      onOpenChange(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 bg-black/60 backdrop-blur-sm flex items-start justify-center p-4 pt-24" onMouseDown={() => onOpenChange(false)}>
+      <div
+        role="dialog"
+        aria-modal="true"
+        aria-label="Search and commands"
+        className="w-full max-w-2xl bg-slate-800 border border-slate-700 rounded-2xl shadow-2xl overflow-hidden"
+        onMouseDown={(e) => e.stopPropagation()}
+      >
+        <div className="flex items-center px-4 border-b border-slate-700">
+          <Search className="h-5 w-5 text-slate-400" />
+          <input
+            ref={inputRef}
+            type="text"
+            role="combobox"
+            aria-expanded="true"
+            aria-controls="command-palette-results"
+            aria-activedescendant={results[activeIndex] ? `command-palette-${activeIndex}` : undefined}
+            value={query}
+            onChange={(e) => setQuery(e.target.value)}
+            onKeyDown={handleKeyDown}
+            placeholder="Search modules, labs, videos, interview questions, notes…"
+            className="flex-1 bg-transparent px-3 py-4 text-white placeholder-slate-400 focus:outline-none"
+          />
+          <kbd className="text-xs text-slate-400 border border-slate-600 rounded px-1.5 py-0.5">Esc</kbd>
+        </div>
+
+        <ul ref={listRef} id="command-palette-results" role="listbox" className="max-h-96 overflow-y-auto py-2">
+          {results.length === 0 ? (
+            <li className="px-4 py-8 text-center text-slate-400">No results for “{query}”</li>
+          ) : (
+            results.map((result, i) => {
+              const Icon = TYPE_ICONS[result.type];
+              return (
+                <li
+                  key={`${result.type}:${result.id}`}
+                  id={`command-palette-${i}`}
+                  data-index={i}
+                  role="option"
+                  aria-selected={i === activeIndex}
+                  onMouseMove={() => setActiveIndex(i)}
+                  onClick={() => select(result)}
+                  className={`flex items-center space-x-3 px-4 py-2.5 cursor-pointer ${
+                    i === activeIndex ? 'bg-gradient-to-r from-orange-500/20 to-red-500/20' : ''
+                  }`}
+                >
+                  <Icon className={`h-5 w-5 flex-shrink-0 ${i === activeIndex ? 'text-orange-400' : 'text-slate-400'}`} />
+                  <div className="flex-1 min-w-0">
+                    <div className="text-white truncate">{result.title}</div>
+                    {result.subtitle && <div className="text-slate-400 text-xs truncate">{result.subtitle}</div>}
+                  </div>
+                  <span className="px-2 py-0.5 rounded-full text-xs font-medium bg-slate-700 text-slate-300">
+                    {TYPE_LABELS[result.type]}
+                  </span>
+                </li>
+              );
+            })
+          )}
+        </ul>
+
+        <div className="flex items-center justify-between px-4 py-2 border-t border-slate-700 text-xs text-slate-400">
+          <span>↑↓ to move · Enter to open</span>
+          <span>Ctrl K to toggle</span>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -1,11 +1,20 @@
 import React from 'react';
-import { Shield, User, LogOut, MessageCircle, Sun, Moon } from 'lucide-react';
+import { Shield, User, LogOut, MessageCircle, Sun, Moon, Search, Globe } from 'lucide-react';
 import { useAuth } from '../../context/AuthContext';
 import { useTheme } from '../../context/ThemeContext';
+import { useI18n } from '../../context/I18nContext';
+import { LOCALES, isLocale } from '../../i18n';
+import { NotificationBell } from './NotificationBell';
 
-export const Header = ({ onChatToggle }) => {
+interface HeaderProps {
+  onChatToggle: () => void;
+  onSearchOpen: () => void;
+}
+
+export const Header: React.FC<HeaderProps> = ({ onChatToggle, onSearchOpen }) => {
   const { user, logout } = useAuth();
   const { theme, toggleTheme } = useTheme();
+  const { locale, setLocale, t } = useI18n();
 
   return (
     <header className="bg-gradient-to-r from-slate-900 via-slate-800 to-slate-900 text-white shadow-2xl border-b border-orange-500/30 backdrop-blur-sm">
@@ -18,6 +27,34 @@ export const Header = ({ onChatToggle }) => {
           
           {user && (
             <div className="flex items-center space-x-4">
+              <button
+                onClick={onSearchOpen}
+                aria-label={t('header.searchLabel')}
+                className="flex items-center space-x-2 px-3 py-2 rounded-xl bg-slate-700/50 hover:bg-slate-600/50 transition-all duration-200 backdrop-blur-sm border border-slate-600/30"
+              >
+                <Search className="h-5 w-5 text-white" />
+                <span className="hidden md:inline text-slate-300">{t('header.search')}</span>
+                <kbd className="hidden md:inline text-xs text-slate-400 border border-slate-600 rounded px-1.5 py-0.5">Ctrl K</kbd>
+              </button>
+
+              <NotificationBell />
+
+              <label className="flex items-center space-x-2 px-3 py-2 rounded-xl bg-slate-700/50 hover:bg-slate-600/50 transition-all duration-200 backdrop-blur-sm border border-slate-600/30">
+                <Globe className="h-5 w-5 text-white" />
+                <span className="sr-only">{t('header.language')}</span>
+                <select
+                  value={locale}
+                  onChange={(e) => isLocale(e.target.value) && setLocale(e.target.value)}
+                  className="bg-transparent text-white text-sm focus:outline-none cursor-pointer"
+                >
+                  {LOCALES.map(option => (
+                    <option key={option.code} value={option.code} className="bg-slate-800">
+                      {option.label}
+                    </option>
+                  ))}
+                </select>
+              </label>
+
               <button
                 onClick={toggleTheme}
                 className="flex items-center space-x-2 px-3 py-2 rounded-xl bg-slate-700/50 hover:bg-slate-600/50 transition-all duration-200 backdrop-blur-sm border border-slate-600/30"
@@ -28,7 +65,7 @@ export const Header = ({ onChatToggle }) => {
                   <Moon className="h-5 w-5 text-gray-600" />
                 )}
                 <span className="hidden sm:inline text-white">
-                  {theme === 'dark' ? 'Light' : 'Dark'}
+                  {theme === 'dark' ? t('header.lightTheme') : t('header.darkTheme')}
                 </span>
               </button>
               
@@ -37,7 +74,7 @@ export const Header = ({ onChatToggle }) => {
                 className="flex items-center space-x-2 px-3 py-2 rounded-xl bg-slate-700/50 hover:bg-slate-600/50 transition-all duration-200 backdrop-blur-sm border border-slate-600/30"
               >
                 <MessageCircle className="h-5 w-5 text-white" />
-                <span className="hidden sm:inline text-white">AI Assistant</span>
+                <span className="hidden sm:inline text-white">{t('header.assistant')}</span>
               </button>
               
               <div className="flex items-center space-x-2 px-3 py-2 rounded-xl bg-slate-700/30 border border-slate-600/30">
@@ -50,7 +87,7 @@ export const Header = ({ onChatToggle }) => {
                 className="flex items-center space-x-2 px-3 py-2 rounded-xl bg-gradient-to-r from-orange-500 to-red-500 hover:from-orange-600 hover:to-red-600 transition-all duration-200 transform hover:scale-105 shadow-lg"
               >
                 <LogOut className="h-5 w-5" />
-                <span className="hidden sm:inline">Logout</span>
+                <span className="hidden sm:inline">{t('header.logout')}</span>
               </button>
             </div>
           )}
@@ -0,0 +1,183 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { Bell, BookOpen, FileText, Award, Info, X, Settings, type LucideIcon } from 'lucide-react';
+import { useAuth } from '../../context/AuthContext';
+import { notificationService } from '../../services/notificationService';
+import { VIEW_PATHS } from '../../lib/routes';
+import type { Notification, NotificationType } from '../../types';
+
+const TYPE_ICONS: Record<NotificationType, LucideIcon> = {
+  course_published: BookOpen,
+  material_posted: FileText,
+  certificate_earned: Award,
+  system: Info
+};
+
+function timeAgo(iso: string) {
+  const minutes = Math.floor((Date.now() - new Date(iso).getTime()) / 60000);
+  if (minutes < 1) return 'just now';
+  if (minutes < 60) return `${minutes}m ago`;
+  const hours = Math.floor(minutes / 60);
+  if (hours < 24) return `${hours}h ago`;
+  return new Date(iso).toLocaleDateString();
+}
+
+export const NotificationBell: React.FC = () => {
+  const { user } = useAuth();
+  const navigate = useNavigate();
+  const [isOpen, setIsOpen] = useState(false);
+  const [notifications, setNotifications] = useState<Notification[]>([]);
+  const [unreadCount, setUnreadCount] = useState(0);
+  const [error, setError] = useState('');
+  const menuRef = useRef<HTMLDivElement>(null);
+  const userId = user?.id;
+
+  useEffect(() => {
+    if (!userId) return;
+    Promise.all([notificationService.getNotifications(userId), notificationService.getUnreadCount(userId)])
+      .then(([rows, count]) => {
+        setNotifications(rows);
+        setUnreadCount(count);
+      })
+      .catch(err => setError(err instanceof Error ? err.message : 'Failed to load notifications'));
+
+    // New notifications arrive over the realtime channel while the app is open
+    return notificationService.subscribe(userId, notification => {
+      setNotifications(current => [notification, ...current.filter(n => n.id !== notification.id)]);
+      setUnreadCount(count => count + 1);
+    });
+  }, [userId]);
+
+  useEffect(() => {
+    if (!isOpen) return;
+    const handleClick = (e: MouseEvent) => {
+      if (!menuRef.current?.contains(e.target as Node)) setIsOpen(false);
+    };
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') setIsOpen(false);
+    };
+    document.addEventListener('mousedown', handleClick);
+    document.addEventListener('keydown', handleKeyDown);
+    return () => {
+      document.removeEventListener('mousedown', handleClick);
+      document.removeEventListener('keydown', handleKeyDown);
+    };
+  }, [isOpen]);
+
+  if (!userId) return null;
+
+  const markRead = (id: string) => {
+    setNotifications(current => current.map(n => (n.id === id && !n.read_at ? { ...n, read_at: new Date().toISOString() } : n)));
+    setUnreadCount(count => Math.max(0, count - 1));
+    notificationService.markRead(id).catch(err => setError(err instanceof Error ? err.message : 'Failed to update notification'));
+  };
+
+  const handleOpen = (notification: Notification) => {
+    if (!notification.read_at) markRead(notification.id);
+    if (notification.link) {
+      setIsOpen(false);
+      navigate(notification.link);
+    }
+  };
+
+  const handleMarkAllRead = async () => {
+    setError('');
+    try {
+      await notificationService.markAllRead(userId);
+      const now = new Date().toISOString();
+      setNotifications(current => current.map(n => (n.read_at ? n : { ...n, read_at: now })));
+      setUnreadCount(0);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to update notifications');
+    }
+  };
+
+  const handleDelete = async (notification: Notification) => {
+    setError('');
+    try {
+      await notificationService.deleteNotification(notification.id);
+      setNotifications(current => current.filter(n => n.id !== notification.id));
+      if (!notification.read_at) setUnreadCount(count => Math.max(0, count - 1));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to delete notification');
+    }
+  };
+
+  return (
+    <div ref={menuRef} className="relative">
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        aria-label={unreadCount > 0 ? `Notifications (${unreadCount} unread)` : 'Notifications'}
+        aria-expanded={isOpen}
+        aria-haspopup="true"
+        className="relative flex items-center px-3 py-2 rounded-xl bg-slate-700/50 hover:bg-slate-600/50 transition-all duration-200 backdrop-blur-sm border border-slate-600/30"
+      >
+        <Bell className="h-5 w-5 text-white" />
+        {unreadCount > 0 && (
+          <span className="absolute -top-1.5 -right-1.5 min-w-[1.25rem] h-5 px-1 rounded-full bg-gradient-to-r from-orange-500 to-red-500 text-white text-xs font-bold flex items-center justify-center">
+            {unreadCount > 99 ? '99+' : unreadCount}
+          </span>
+        )}
+      </button>
+
+      {isOpen && (
+        <div className="absolute right-0 mt-2 w-96 max-w-[calc(100vw-2rem)] bg-slate-800 border border-slate-700 rounded-2xl shadow-2xl z-40 overflow-hidden">
+          <div className="flex items-center justify-between px-4 py-3 border-b border-slate-700">
+            <h2 className="font-semibold text-white">Notifications</h2>
+            <div className="flex items-center space-x-3">
+              {unreadCount > 0 && (
+                <button onClick={handleMarkAllRead} className="text-orange-400 hover:text-orange-300 text-sm">
+                  Mark all read
+                </button>
+              )}
+              <button
+                onClick={() => {
+                  setIsOpen(false);
+                  navigate(VIEW_PATHS.profile);
+                }}
+                aria-label="Notification settings"
+                className="text-slate-400 hover:text-white"
+              >
+                <Settings className="h-4 w-4" />
+              </button>
+            </div>
+          </div>
+
+          {error && <p className="px-4 py-2 text-red-400 text-sm">{error}</p>}
+
+          <ul className="max-h-96 overflow-y-auto divide-y divide-slate-700/60">
+            {notifications.length === 0 ? (
+              <li className="px-4 py-8 text-center text-slate-400">You're all caught up</li>
+            ) : (
+              notifications.map(notification => {
+                const Icon = TYPE_ICONS[notification.type] ?? Info;
+                return (
+                  <li
+                    key={notification.id}
+                    className={`group flex items-start space-x-3 px-4 py-3 ${notification.read_at ? '' : 'bg-orange-500/10'}`}
+                  >
+                    <Icon className={`h-5 w-5 mt-0.5 flex-shrink-0 ${notification.read_at ? 'text-slate-500' : 'text-orange-400'}`} />
+                    <button onClick={() => handleOpen(notification)} className="flex-1 min-w-0 text-left">
+                      <div className={`text-sm ${notification.read_at ? 'text-slate-300' : 'text-white font-medium'}`}>
+                        {notification.title}
+                      </div>
+                      {notification.body && <div className="text-slate-400 text-xs mt-0.5 line-clamp-2">{notification.body}</div>}
+                      <div className="text-slate-500 text-xs mt-1">{timeAgo(notification.created_at)}</div>
+                    </button>
+                    <button
+                      onClick={() => handleDelete(notification)}
+                      aria-label="Dismiss notification"
+                      className="text-slate-500 hover:text-white opacity-0 group-hover:opacity-100 focus:opacity-100"
+                    >
+                      <X className="h-4 w-4" />
+                    </button>
+                  </li>
+                );
+              })
+            )}
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+};
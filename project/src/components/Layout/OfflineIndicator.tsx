@@ -0,0 +1,61 @@
+import React, { useState, useEffect } from 'react';
+import { WifiOff, RefreshCw, AlertTriangle } from 'lucide-react';
+import { offlineSyncService, type SyncStatus } from '../../services/offlineSyncService';
+
+// Shows when the app is offline or has progress waiting to be synced
+export const OfflineIndicator: React.FC = () => {
+  const [status, setStatus] = useState<SyncStatus | null>(null);
+
+  useEffect(() => {
+    offlineSyncService.start();
+    return offlineSyncService.subscribe(setStatus);
+  }, []);
+
+  if (!status) return null;
+
+  const pendingLabel = `${status.pending} ${status.pending === 1 ? 'change' : 'changes'}`;
+
+  if (status.failed > 0) {
+    return (
+      <div role="alert" className="flex items-center justify-between gap-3 px-6 py-3 bg-red-500/10 border-b border-red-500/30 text-red-200 text-sm">
+        <div className="flex items-center space-x-2">
+          <AlertTriangle className="h-4 w-4 flex-shrink-0" />
+          <span>
+            {status.failed} offline {status.failed === 1 ? 'change was' : 'changes were'} rejected by the server and could not be saved.
+          </span>
+        </div>
+        <button onClick={() => offlineSyncService.clearFailed()} className="text-red-100 hover:text-white underline">
+          Dismiss
+        </button>
+      </div>
+    );
+  }
+
+  if (!status.online) {
+    return (
+      <div role="status" className="flex items-center space-x-2 px-6 py-3 bg-slate-800 border-b border-slate-700 text-slate-200 text-sm">
+        <WifiOff className="h-4 w-4 text-orange-400 flex-shrink-0" />
+        <span>
+          You're offline. Course content stays available
+          {status.pending > 0 ? ` and ${pendingLabel} will sync when you reconnect.` : ', and progress is saved on this device until you reconnect.'}
+        </span>
+      </div>
+    );
+  }
+
+  if (status.pending > 0) {
+    return (
+      <div role="status" className="flex items-center space-x-2 px-6 py-3 bg-slate-800 border-b border-slate-700 text-slate-200 text-sm">
+        <RefreshCw className={`h-4 w-4 text-orange-400 flex-shrink-0 ${status.syncing ? 'animate-spin' : ''}`} />
+        <span>{status.syncing ? `Syncing ${pendingLabel}…` : `${pendingLabel} waiting to sync.`}</span>
+        {!status.syncing && (
+          <button onClick={() => offlineSyncService.flush()} className="text-orange-400 hover:text-orange-300 underline">
+            Retry now
+          </button>
+        )}
+      </div>
+    );
+  }
+
+  return null;
+};
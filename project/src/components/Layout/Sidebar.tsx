@@ -1,56 +1,22 @@
 import React from 'react';
-import { Home, BookOpen, FlaskRound as Flask, Trophy, User, BarChart, Video, Building2, FileText, Settings, Users, PlusCircle, BarChart3 } from 'lucide-react';
+import { User, Settings, Users } from 'lucide-react';
+import { Link, useLocation } from 'react-router-dom';
 import { useAuth } from '../../context/AuthContext';
+import { useI18n } from '../../context/I18nContext';
+import { usePermission } from '../../hooks/usePermission';
+import { VIEW_PERMISSIONS } from '../../lib/permissions';
+import { VIEW_PATHS, viewForPath } from '../../lib/routes';
+import { navItems } from './navItems';
 
-interface SidebarProps {
-  activeTab: string;
-  onTabChange: (tab: string) => void;
-}
-
-export const Sidebar = ({ activeTab, onTabChange }) => {
+export const Sidebar = () => {
   const { isAdmin, isTeacher, isStudent } = useAuth();
+  const can = usePermission();
+  const { t, formatNumber } = useI18n();
+  // The highlighted item follows the URL, including deep links such as /courses/:id/modules/:id
+  const activeTab = viewForPath(useLocation().pathname);
 
-  // Admin menu items
-  const adminMenuItems = [
-    { id: 'dashboard', label: 'Dashboard', icon: Home },
-    { id: 'assessment', label: 'Assessment Analytics', icon: BarChart },
-    { id: 'courses', label: 'All Courses', icon: BookOpen },
-    { id: 'analytics', label: 'Analytics', icon: BarChart3 },
-    { id: 'profile', label: 'Profile', icon: User },
-  ];
-
-  // Teacher menu items
-  const teacherMenuItems = [
-    { id: 'dashboard', label: 'Dashboard', icon: Home },
-    { id: 'my-courses', label: 'My Courses', icon: BookOpen },
-    { id: 'create-course', label: 'Create Course', icon: PlusCircle },
-    { id: 'students', label: 'My Students', icon: Users },
-    { id: 'notes', label: 'Study Notes', icon: FileText },
-    { id: 'analytics', label: 'Analytics', icon: BarChart },
-    { id: 'profile', label: 'Profile', icon: User },
-  ];
-
-  // Student menu items
-  const studentMenuItems = [
-    { id: 'dashboard', label: 'Dashboard', icon: Home },
-    { id: 'courses', label: 'Courses', icon: BookOpen },
-    { id: 'notes', label: 'Study Notes', icon: FileText },
-    { id: 'videos', label: 'Video Library', icon: Video },
-    { id: 'assessment', label: 'Assessment Test', icon: BarChart },
-    { id: 'labs', label: 'Labs', icon: Flask },
-    { id: 'technical', label: 'Jobs', icon: Building2 },
-    { id: 'certificates', label: 'Certificates', icon: Trophy },
-    { id: 'profile', label: 'Profile', icon: User },
-  ];
-
-  // Get menu items based on role
-  const getMenuItems = () => {
-    if (isAdmin()) return adminMenuItems;
-    if (isTeacher()) return teacherMenuItems;
-    return studentMenuItems;
-  };
-
-  const menuItems = getMenuItems();
+  // Only show views the user's role is allowed to open
+  const menuItems = navItems.filter(item => can(VIEW_PERMISSIONS[item.id]));
 
   return (
     <div className="bg-gradient-to-b from-slate-900 to-slate-800 text-white w-72 min-h-screen p-6 border-r border-slate-700 shadow-2xl">
@@ -64,17 +30,17 @@ export const Sidebar = ({ activeTab, onTabChange }) => {
           {isAdmin() ? (
             <>
               <Settings className="h-4 w-4 mr-2" />
-              Administrator
+              {t('role.admin')}
             </>
           ) : isTeacher() ? (
             <>
               <Users className="h-4 w-4 mr-2" />
-              Teacher
+              {t('role.teacher')}
             </>
           ) : (
             <>
               <User className="h-4 w-4 mr-2" />
-              Student
+              {t('role.student')}
             </>
           )}
         </div>
@@ -85,9 +51,10 @@ export const Sidebar = ({ activeTab, onTabChange }) => {
         {menuItems.map((item) => {
           const Icon = item.icon;
           return (
-            <button
+            <Link
               key={item.id}
-              onClick={() => onTabChange(item.id)}
+              to={VIEW_PATHS[item.id]}
+              aria-current={activeTab === item.id ? 'page' : undefined}
               className={`w-full flex items-center space-x-3 px-4 py-3 rounded-xl transition-all duration-200 group ${
                 activeTab === item.id
                   ? 'bg-gradient-to-r from-orange-500 to-red-500 text-white shadow-lg transform scale-105'
@@ -97,52 +64,52 @@ export const Sidebar = ({ activeTab, onTabChange }) => {
               <Icon className={`h-5 w-5 transition-transform duration-200 ${
                 activeTab === item.id ? 'scale-110' : 'group-hover:scale-110'
               }`} />
-              <span className="font-medium">{item.label}</span>
+              <span className="font-medium">{t(item.labelKey)}</span>
               {activeTab === item.id && (
                 <div className="ml-auto w-2 h-2 bg-white rounded-full animate-pulse"></div>
               )}
-            </button>
+            </Link>
           );
         })}
       </nav>
 
       {/* Quick Stats */}
       <div className="mt-8 p-4 bg-slate-800/50 rounded-xl border border-slate-700">
-        <h3 className="text-sm font-medium text-slate-400 mb-3">Quick Stats</h3>
+        <h3 className="text-sm font-medium text-slate-400 mb-3">{t('sidebar.quickStats')}</h3>
         <div className="space-y-2">
           {isStudent() && (
             <>
               <div className="flex justify-between text-sm">
-                <span className="text-slate-400">Courses</span>
-                <span className="text-white font-medium">3</span>
+                <span className="text-slate-400">{t('sidebar.courses')}</span>
+                <span className="text-white font-medium">{formatNumber(3)}</span>
               </div>
               <div className="flex justify-between text-sm">
-                <span className="text-slate-400">Progress</span>
-                <span className="text-green-400 font-medium">65%</span>
+                <span className="text-slate-400">{t('common.progress')}</span>
+                <span className="text-green-400 font-medium">{formatNumber(0.65, { style: 'percent' })}</span>
               </div>
             </>
           )}
           {isTeacher() && (
             <>
               <div className="flex justify-between text-sm">
-                <span className="text-slate-400">My Courses</span>
-                <span className="text-white font-medium">5</span>
+                <span className="text-slate-400">{t('sidebar.myCourses')}</span>
+                <span className="text-white font-medium">{formatNumber(5)}</span>
               </div>
               <div className="flex justify-between text-sm">
-                <span className="text-slate-400">Students</span>
-                <span className="text-green-400 font-medium">127</span>
+                <span className="text-slate-400">{t('sidebar.students')}</span>
+                <span className="text-green-400 font-medium">{formatNumber(127)}</span>
               </div>
             </>
           )}
           {isAdmin() && (
             <>
               <div className="flex justify-between text-sm">
-                <span className="text-slate-400">Total Users</span>
-                <span className="text-white font-medium">1,234</span>
+                <span className="text-slate-400">{t('sidebar.totalUsers')}</span>
+                <span className="text-white font-medium">{formatNumber(1234)}</span>
               </div>
               <div className="flex justify-between text-sm">
-                <span className="text-slate-400">Active Courses</span>
-                <span className="text-green-400 font-medium">45</span>
+                <span className="text-slate-400">{t('sidebar.activeCourses')}</span>
+                <span className="text-green-400 font-medium">{formatNumber(45)}</span>
               </div>
             </>
           )}
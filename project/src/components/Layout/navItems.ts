@@ -0,0 +1,20 @@
+import { Home, BookOpen, FlaskRound as Flask, Trophy, User, BarChart, Video, Building2, FileText, Settings, Users, PlusCircle, BarChart3, type LucideIcon } from 'lucide-react';
+import type { MessageKey } from '../../i18n';
+
+// One menu for every role, in display order
+export const navItems: { id: string; labelKey: MessageKey; icon: LucideIcon }[] = [
+  { id: 'dashboard', labelKey: 'nav.dashboard', icon: Home },
+  { id: 'admin', labelKey: 'nav.admin', icon: Settings },
+  { id: 'my-courses', labelKey: 'nav.my-courses', icon: BookOpen },
+  { id: 'create-course', labelKey: 'nav.create-course', icon: PlusCircle },
+  { id: 'students', labelKey: 'nav.students', icon: Users },
+  { id: 'courses', labelKey: 'nav.courses', icon: BookOpen },
+  { id: 'notes', labelKey: 'nav.notes', icon: FileText },
+  { id: 'videos', labelKey: 'nav.videos', icon: Video },
+  { id: 'assessment', labelKey: 'nav.assessment', icon: BarChart },
+  { id: 'labs', labelKey: 'nav.labs', icon: Flask },
+  { id: 'technical', labelKey: 'nav.technical', icon: Building2 },
+  { id: 'certificates', labelKey: 'nav.certificates', icon: Trophy },
+  { id: 'analytics', labelKey: 'nav.analytics', icon: BarChart3 },
+  { id: 'profile', labelKey: 'nav.profile', icon: User },
+];
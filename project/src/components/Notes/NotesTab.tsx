@@ -3,6 +3,8 @@ import { FileText, Download, Search, Filter, Plus, Upload } from 'lucide-react';
 import { adminService } from '../../services/adminService';
 import { Note } from '../../lib/supabase';
 import { useAuth } from '../../context/AuthContext';
+import { usePermission } from '../../hooks/usePermission';
+import { RequirePermission } from '../Auth/RequirePermission';
 
 export const NotesTab: React.FC = () => {
   const [notes, setNotes] = useState<Note[]>([]);
@@ -11,7 +13,7 @@ export const NotesTab: React.FC = () => {
   const [selectedCourse, setSelectedCourse] = useState('all');
   const [loading, setLoading] = useState(true);
   const [showUploadForm, setShowUploadForm] = useState(false);
-  const { user, isAdmin } = useAuth();
+  const can = usePermission();
 
   useEffect(() => {
     loadNotes();
@@ -56,7 +58,7 @@ export const NotesTab: React.FC = () => {
 
   const courses = [...new Set(notes.map(note => note.course_id))];
 
-  if (showUploadForm && isAdmin()) {
+  if (showUploadForm && can('notes:upload')) {
     return (
       <NoteUploadForm
         onSave={(newNote) => {
@@ -78,7 +80,7 @@ export const NotesTab: React.FC = () => {
               Access comprehensive PDF notes for all cybersecurity modules
             </p>
           </div>
-          {isAdmin() && (
+          <RequirePermission permission="notes:upload" fallback={null}>
             <button
               onClick={() => setShowUploadForm(true)}
               className="flex items-center space-x-2 bg-orange-600 text-white px-6 py-3 rounded-lg hover:bg-orange-700 transition-colors"
@@ -86,7 +88,7 @@ export const NotesTab: React.FC = () => {
               <Plus className="h-5 w-5" />
               <span>Upload Note</span>
             </button>
-          )}
+          </RequirePermission>
         </div>
 
         {/* Search and Filters */}
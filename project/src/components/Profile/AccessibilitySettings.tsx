@@ -0,0 +1,77 @@
+import React, { useState, useEffect } from 'react';
+import { Accessibility } from 'lucide-react';
+import { useAuth } from '../../context/AuthContext';
+import { accessibilityService } from '../../services/accessibilityService';
+import type { AccessibilitySettings as Settings } from '../../types';
+
+export const AccessibilitySettings: React.FC = () => {
+  const { user } = useAuth();
+  const [settings, setSettings] = useState<Settings | null>(null);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    if (!user) return;
+    accessibilityService
+      .getSettings(user.id)
+      .then(setSettings)
+      .catch(err => setError(err instanceof Error ? err.message : 'Failed to load accessibility settings'));
+  }, [user]);
+
+  if (!user) return null;
+
+  const handleReducedMotion = async (enabled: boolean) => {
+    setError('');
+    setSaving(true);
+    setSettings(current => current && { ...current, reduced_motion: enabled });
+    try {
+      await accessibilityService.setReducedMotion(user.id, enabled);
+    } catch (err) {
+      setSettings(current => current && { ...current, reduced_motion: !enabled });
+      setError(err instanceof Error ? err.message : 'Failed to save accessibility settings');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="bg-white rounded-lg shadow-md p-6 mt-8">
+      <div className="flex items-center space-x-2 mb-2">
+        <Accessibility className="h-5 w-5 text-cyan-600" aria-hidden="true" />
+        <h3 className="text-xl font-bold text-gray-900">Accessibility</h3>
+      </div>
+      <p className="text-gray-600 mb-6">Accommodations applied to quizzes and assessments.</p>
+
+      {error && <p className="text-red-600 text-sm mb-4" role="alert">{error}</p>}
+
+      {!settings ? (
+        <p className="text-gray-500 text-sm">Loading…</p>
+      ) : (
+        <div className="space-y-3">
+          <label className="flex items-center justify-between p-3 bg-gray-50 rounded-lg cursor-pointer">
+            <div>
+              <div className="text-gray-900 font-medium">Reduce motion</div>
+              <div className="text-gray-600 text-sm">Turn off animations on quiz screens. Always on when your device asks for reduced motion.</div>
+            </div>
+            <input
+              type="checkbox"
+              checked={settings.reduced_motion}
+              disabled={saving}
+              onChange={(e) => handleReducedMotion(e.target.checked)}
+              className="h-5 w-5 accent-cyan-600"
+            />
+          </label>
+          <div className="flex items-center justify-between p-3 bg-gray-50 rounded-lg">
+            <div>
+              <div className="text-gray-900 font-medium">Extended time</div>
+              <div className="text-gray-600 text-sm">Set by your administrator. Ask them if you need an accommodation.</div>
+            </div>
+            <span className="text-gray-900 font-medium">
+              {settings.extra_time_percent > 0 ? `+${settings.extra_time_percent}%` : 'None'}
+            </span>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,223 @@
+import React, { useState, useEffect } from 'react';
+import { Mail, KeyRound, Clock, Building2 } from 'lucide-react';
+import { useAuth } from '../../context/AuthContext';
+import { authService } from '../../services/authService';
+
+const MIN_PASSWORD_LENGTH = 8;
+
+type OpenForm = 'email' | 'password' | null;
+
+export const AccountSecurity: React.FC = () => {
+  const { user } = useAuth();
+  const [openForm, setOpenForm] = useState<OpenForm>(null);
+  const [newEmail, setNewEmail] = useState('');
+  const [currentPassword, setCurrentPassword] = useState('');
+  const [newPassword, setNewPassword] = useState('');
+  const [confirmPassword, setConfirmPassword] = useState('');
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState('');
+  const [message, setMessage] = useState('');
+
+  // Returning from linking single sign-on (see authService.startSsoLink)
+  useEffect(() => {
+    const params = new URLSearchParams(window.location.search);
+    const linked = params.get('sso_link');
+    const linkError = params.get('sso_link_error');
+    if (!linked && !linkError) return;
+
+    window.history.replaceState(null, '', window.location.pathname);
+    if (linked) setMessage('Single sign-on is linked. You can now sign in with your organization\'s identity provider.');
+    if (linkError) setError(linkError);
+  }, []);
+
+  if (!user) return null;
+
+  const closeForm = () => {
+    setOpenForm(null);
+    setNewEmail('');
+    setCurrentPassword('');
+    setNewPassword('');
+    setConfirmPassword('');
+    setError('');
+  };
+
+  const run = async (action: () => Promise<string | void>) => {
+    setError('');
+    setMessage('');
+    setIsLoading(true);
+    try {
+      const result = await action();
+      closeForm();
+      if (result) setMessage(result);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Something went wrong');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleChangeEmail = (e: React.FormEvent) => {
+    e.preventDefault();
+    run(() => authService.changeEmail(newEmail.trim(), currentPassword));
+  };
+
+  const handleChangePassword = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (newPassword.length < MIN_PASSWORD_LENGTH) {
+      setError(`Password must be at least ${MIN_PASSWORD_LENGTH} characters`);
+      return;
+    }
+    if (newPassword !== confirmPassword) {
+      setError('The new passwords do not match');
+      return;
+    }
+    run(() => authService.changePassword(currentPassword, newPassword));
+  };
+
+  const inputClass = 'w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-cyan-500';
+
+  const currentPasswordField = (
+    <div>
+      <label htmlFor="current-password" className="block text-sm font-medium text-gray-700 mb-1">Current password</label>
+      <input
+        id="current-password"
+        type="password"
+        autoComplete="current-password"
+        required
+        value={currentPassword}
+        onChange={(e) => setCurrentPassword(e.target.value)}
+        className={inputClass}
+      />
+    </div>
+  );
+
+  return (
+    <div className="bg-white rounded-lg shadow-md p-6 mt-8">
+      <h3 className="text-xl font-bold text-gray-900 mb-2">Email &amp; Password</h3>
+      <p className="text-gray-600 mb-6">Changing either asks for your current password first.</p>
+
+      {message && <p className="text-green-700 text-sm mb-4">{message}</p>}
+      {error && <p className="text-red-600 text-sm mb-4">{error}</p>}
+
+      <div className="space-y-4">
+        <div className="flex items-center space-x-3 p-3 bg-gray-50 rounded-lg">
+          <Mail className="h-5 w-5 text-cyan-600" />
+          <span className="flex-1 text-gray-900">{user.email}</span>
+          {openForm !== 'email' && (
+            <button onClick={() => setOpenForm('email')} className="text-cyan-700 hover:text-cyan-900 text-sm font-medium">
+              Change
+            </button>
+          )}
+        </div>
+
+        {user.pending_email && (
+          <div className="flex items-center space-x-3 p-3 bg-yellow-50 rounded-lg">
+            <Clock className="h-5 w-5 text-yellow-600" />
+            <span className="flex-1 text-gray-700 text-sm">
+              Waiting for you to confirm <strong>{user.pending_email}</strong> from the link we sent there.
+            </span>
+            <button
+              onClick={() => run(() => authService.cancelEmailChange())}
+              disabled={isLoading}
+              className="text-gray-600 hover:text-gray-900 text-sm disabled:opacity-50"
+            >
+              Cancel change
+            </button>
+          </div>
+        )}
+
+        {openForm === 'email' && (
+          <form onSubmit={handleChangeEmail} className="space-y-3 max-w-md">
+            <div>
+              <label htmlFor="new-email" className="block text-sm font-medium text-gray-700 mb-1">New email</label>
+              <input
+                id="new-email"
+                type="email"
+                autoComplete="email"
+                required
+                value={newEmail}
+                onChange={(e) => setNewEmail(e.target.value)}
+                className={inputClass}
+              />
+            </div>
+            {currentPasswordField}
+            <div className="flex space-x-3">
+              <button
+                type="submit"
+                disabled={isLoading}
+                className="px-4 py-2 bg-cyan-600 hover:bg-cyan-700 text-white rounded-lg transition-colors disabled:opacity-50"
+              >
+                Send confirmation link
+              </button>
+              <button type="button" onClick={closeForm} className="px-4 py-2 text-gray-600 hover:text-gray-900">
+                Cancel
+              </button>
+            </div>
+          </form>
+        )}
+
+        {openForm === 'password' ? (
+          <form onSubmit={handleChangePassword} className="space-y-3 max-w-md">
+            {currentPasswordField}
+            <div>
+              <label htmlFor="new-password" className="block text-sm font-medium text-gray-700 mb-1">New password</label>
+              <input
+                id="new-password"
+                type="password"
+                autoComplete="new-password"
+                required
+                minLength={MIN_PASSWORD_LENGTH}
+                value={newPassword}
+                onChange={(e) => setNewPassword(e.target.value)}
+                className={inputClass}
+              />
+            </div>
+            <div>
+              <label htmlFor="confirm-password" className="block text-sm font-medium text-gray-700 mb-1">Confirm new password</label>
+              <input
+                id="confirm-password"
+                type="password"
+                autoComplete="new-password"
+                required
+                value={confirmPassword}
+                onChange={(e) => setConfirmPassword(e.target.value)}
+                className={inputClass}
+              />
+            </div>
+            <div className="flex space-x-3">
+              <button
+                type="submit"
+                disabled={isLoading}
+                className="px-4 py-2 bg-cyan-600 hover:bg-cyan-700 text-white rounded-lg transition-colors disabled:opacity-50"
+              >
+                Change password
+              </button>
+              <button type="button" onClick={closeForm} className="px-4 py-2 text-gray-600 hover:text-gray-900">
+                Cancel
+              </button>
+            </div>
+          </form>
+        ) : (
+          <button
+            onClick={() => setOpenForm('password')}
+            className="flex items-center space-x-2 px-4 py-2 border border-gray-300 hover:bg-gray-50 text-gray-700 rounded-lg transition-colors"
+          >
+            <KeyRound className="h-4 w-4" />
+            <span>Change password</span>
+          </button>
+        )}
+
+        {!user.is_super_admin && (
+          <button
+            onClick={() => run(() => authService.startSsoLink())}
+            disabled={isLoading}
+            className="flex items-center space-x-2 px-4 py-2 border border-gray-300 hover:bg-gray-50 text-gray-700 rounded-lg transition-colors disabled:opacity-50"
+          >
+            <Building2 className="h-4 w-4" />
+            <span>Link organization single sign-on</span>
+          </button>
+        )}
+      </div>
+    </div>
+  );
+};
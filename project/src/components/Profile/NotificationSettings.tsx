@@ -0,0 +1,70 @@
+import React, { useState, useEffect } from 'react';
+import { Bell } from 'lucide-react';
+import { useAuth } from '../../context/AuthContext';
+import { notificationService, NOTIFICATION_TYPES } from '../../services/notificationService';
+import type { NotificationPreferences, NotificationType } from '../../types';
+
+export const NotificationSettings: React.FC = () => {
+  const { user } = useAuth();
+  const [preferences, setPreferences] = useState<NotificationPreferences | null>(null);
+  const [saving, setSaving] = useState<NotificationType | null>(null);
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    if (!user) return;
+    notificationService
+      .getPreferences(user.id)
+      .then(setPreferences)
+      .catch(err => setError(err instanceof Error ? err.message : 'Failed to load notification settings'));
+  }, [user]);
+
+  if (!user) return null;
+
+  const handleToggle = async (type: NotificationType, enabled: boolean) => {
+    setError('');
+    setSaving(type);
+    setPreferences(current => current && { ...current, [type]: enabled });
+    try {
+      await notificationService.setPreference(user.id, type, enabled);
+    } catch (err) {
+      setPreferences(current => current && { ...current, [type]: !enabled });
+      setError(err instanceof Error ? err.message : 'Failed to save notification settings');
+    } finally {
+      setSaving(null);
+    }
+  };
+
+  return (
+    <div className="bg-white rounded-lg shadow-md p-6 mt-8">
+      <div className="flex items-center space-x-2 mb-2">
+        <Bell className="h-5 w-5 text-cyan-600" />
+        <h3 className="text-xl font-bold text-gray-900">Notifications</h3>
+      </div>
+      <p className="text-gray-600 mb-6">Choose what shows up in the bell menu.</p>
+
+      {error && <p className="text-red-600 text-sm mb-4">{error}</p>}
+
+      {!preferences ? (
+        <p className="text-gray-500 text-sm">Loading…</p>
+      ) : (
+        <div className="space-y-3">
+          {NOTIFICATION_TYPES.map(({ type, label, description }) => (
+            <label key={type} className="flex items-center justify-between p-3 bg-gray-50 rounded-lg cursor-pointer">
+              <div>
+                <div className="text-gray-900 font-medium">{label}</div>
+                <div className="text-gray-600 text-sm">{description}</div>
+              </div>
+              <input
+                type="checkbox"
+                checked={preferences[type]}
+                disabled={saving === type}
+                onChange={(e) => handleToggle(type, e.target.checked)}
+                className="h-5 w-5 accent-cyan-600"
+              />
+            </label>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,165 @@
+import React, { useState, useEffect } from 'react';
+import { Download, FileArchive, Trash2, Undo2 } from 'lucide-react';
+import { authService, type AccountDeletionStatus } from '../../services/authService';
+import { downloadBlob } from '../../lib/download';
+
+interface PrivacySettingsProps {
+  email: string;
+}
+
+export const PrivacySettings: React.FC<PrivacySettingsProps> = ({ email }) => {
+  const [deletion, setDeletion] = useState<AccountDeletionStatus | null>(null);
+  const [exporting, setExporting] = useState<'json' | 'zip' | null>(null);
+  const [confirming, setConfirming] = useState(false);
+  const [confirmEmail, setConfirmEmail] = useState('');
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    loadDeletion();
+  }, []);
+
+  const loadDeletion = async () => {
+    try {
+      setDeletion(await authService.getAccountDeletion());
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load account status');
+    }
+  };
+
+  const handleExport = async (format: 'json' | 'zip') => {
+    setError('');
+    setExporting(format);
+    try {
+      const archive = await authService.exportPersonalData(format);
+      downloadBlob(`career-connect-data-${new Date().toISOString().slice(0, 10)}.${format}`, archive);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to export your data');
+    } finally {
+      setExporting(null);
+    }
+  };
+
+  const handleRequestDeletion = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError('');
+    setIsLoading(true);
+    try {
+      const request = await authService.requestAccountDeletion(confirmEmail);
+      setDeletion(current => ({ graceDays: current?.graceDays ?? 0, request }));
+      setConfirming(false);
+      setConfirmEmail('');
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to request account deletion');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleCancelDeletion = async () => {
+    setError('');
+    setIsLoading(true);
+    try {
+      await authService.cancelAccountDeletion();
+      await loadDeletion();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to cancel account deletion');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  return (
+    <div className="bg-white rounded-lg shadow-md p-6 mt-8">
+      <h3 className="text-xl font-bold text-gray-900 mb-2">Your Data</h3>
+      <p className="text-gray-600 mb-6">
+        Download a copy of everything we store about you, or delete your account.
+      </p>
+
+      {error && <p className="text-red-600 text-sm mb-4">{error}</p>}
+
+      <div className="flex flex-wrap gap-3 mb-8">
+        <button
+          onClick={() => handleExport('json')}
+          disabled={exporting !== null}
+          className="flex items-center space-x-2 px-4 py-2 bg-cyan-600 hover:bg-cyan-700 text-white rounded-lg transition-colors disabled:opacity-50"
+        >
+          <Download className="h-4 w-4" />
+          <span>{exporting === 'json' ? 'Preparing…' : 'Download JSON'}</span>
+        </button>
+        <button
+          onClick={() => handleExport('zip')}
+          disabled={exporting !== null}
+          className="flex items-center space-x-2 px-4 py-2 border border-gray-300 hover:bg-gray-50 text-gray-700 rounded-lg transition-colors disabled:opacity-50"
+        >
+          <FileArchive className="h-4 w-4" />
+          <span>{exporting === 'zip' ? 'Preparing…' : 'Download ZIP'}</span>
+        </button>
+      </div>
+
+      <h4 className="font-semibold text-gray-900 mb-2">Delete account</h4>
+      {!deletion ? (
+        !error && <div className="animate-spin rounded-full h-6 w-6 border-b-2 border-cyan-600"></div>
+      ) : deletion.request ? (
+        <div className="flex flex-col sm:flex-row sm:items-center gap-3 p-3 bg-red-50 rounded-lg">
+          <Trash2 className="h-5 w-5 text-red-600 flex-shrink-0" />
+          <span className="flex-1 text-gray-900">
+            Your account and all of its data will be erased on{' '}
+            <strong>{new Date(deletion.request.scheduled_for).toLocaleString()}</strong>.
+          </span>
+          <button
+            onClick={handleCancelDeletion}
+            disabled={isLoading}
+            className="flex items-center space-x-2 px-4 py-2 border border-gray-300 bg-white hover:bg-gray-50 text-gray-700 rounded-lg transition-colors disabled:opacity-50"
+          >
+            <Undo2 className="h-4 w-4" />
+            <span>Keep my account</span>
+          </button>
+        </div>
+      ) : confirming ? (
+        <form onSubmit={handleRequestDeletion} className="space-y-3">
+          <p className="text-gray-600 text-sm">
+            Your account will be erased in {deletion.graceDays} days, together with your progress, assessment answers,
+            lab sessions and notes. You can cancel until then. Type <strong>{email}</strong> to confirm.
+          </p>
+          <div className="flex flex-wrap items-center gap-3">
+            <input
+              type="email"
+              aria-label="Your email address"
+              required
+              value={confirmEmail}
+              onChange={(e) => setConfirmEmail(e.target.value)}
+              className="w-72 px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-red-500"
+              placeholder={email}
+            />
+            <button
+              type="submit"
+              disabled={isLoading || confirmEmail.trim().toLowerCase() !== email.toLowerCase()}
+              className="px-4 py-2 bg-red-600 hover:bg-red-700 text-white rounded-lg transition-colors disabled:opacity-50"
+            >
+              Delete my account
+            </button>
+            <button
+              type="button"
+              onClick={() => {
+                setConfirming(false);
+                setConfirmEmail('');
+              }}
+              className="px-4 py-2 text-gray-600 hover:text-gray-900"
+            >
+              Cancel
+            </button>
+          </div>
+        </form>
+      ) : (
+        <button
+          onClick={() => setConfirming(true)}
+          className="flex items-center space-x-2 px-4 py-2 border border-red-300 hover:bg-red-50 text-red-600 rounded-lg transition-colors"
+        >
+          <Trash2 className="h-4 w-4" />
+          <span>Delete account</span>
+        </button>
+      )}
+    </div>
+  );
+};
@@ -1,12 +1,22 @@
-import React from 'react';
-import { User, Award, BookOpen, Target, Clock, Star } from 'lucide-react';
+import React, { useState } from 'react';
+import { User, Award, BookOpen, Target, Clock, Star, Pencil } from 'lucide-react';
 import { useAuth } from '../../context/AuthContext';
+import { EXPERIENCE_OPTIONS } from '../../services/profileService';
+import { ProfileEditor } from './ProfileEditor';
+import { AccountSecurity } from './AccountSecurity';
+import { TwoFactorSettings } from './TwoFactorSettings';
+import { PrivacySettings } from './PrivacySettings';
+import { NotificationSettings } from './NotificationSettings';
+import { AccessibilitySettings } from './AccessibilitySettings';
 
 export const Profile: React.FC = () => {
   const { user } = useAuth();
+  const [editing, setEditing] = useState(false);
 
   if (!user) return null;
 
+  const experience = EXPERIENCE_OPTIONS.find(option => option.value === user.experience_years)?.label;
+
   const achievements = [
     { id: 1, title: 'First Steps', description: 'Completed your first assessment', icon: Target, earned: user.completedAssessment },
     { id: 2, title: 'Knowledge Seeker', description: 'Completed 3 course modules', icon: BookOpen, earned: false },
@@ -29,28 +39,51 @@ export const Profile: React.FC = () => {
 
         {/* User Info Card */}
         <div className="bg-white rounded-lg shadow-md p-8 mb-8">
-          <div className="flex items-center space-x-6">
-            <div className="w-24 h-24 bg-gradient-to-br from-cyan-500 to-blue-600 rounded-full flex items-center justify-center">
-              <User className="h-12 w-12 text-white" />
-            </div>
-            <div className="flex-1">
-              <h2 className="text-2xl font-bold text-gray-900">{user.name}</h2>
-              <p className="text-gray-600">{user.email}</p>
-              <div className="mt-2">
-                <span className={`inline-flex items-center px-3 py-1 rounded-full text-sm font-medium ${
-                  user.level === 'advanced' ? 'bg-red-100 text-red-800' :
-                  user.level === 'intermediate' ? 'bg-yellow-100 text-yellow-800' :
-                  'bg-green-100 text-green-800'
-                }`}>
-                  {user.level.charAt(0).toUpperCase() + user.level.slice(1)} Level
-                </span>
+          {editing ? (
+            <ProfileEditor onClose={() => setEditing(false)} />
+          ) : (
+            <>
+              <div className="flex items-center space-x-6">
+                {user.avatar_url ? (
+                  <img src={user.avatar_url} alt="" className="w-24 h-24 rounded-full object-cover" />
+                ) : (
+                  <div className="w-24 h-24 bg-gradient-to-br from-cyan-500 to-blue-600 rounded-full flex items-center justify-center">
+                    <User className="h-12 w-12 text-white" />
+                  </div>
+                )}
+                <div className="flex-1">
+                  <h2 className="text-2xl font-bold text-gray-900">{user.name}</h2>
+                  <p className="text-gray-600">{user.email}</p>
+                  {(user.specialization || experience) && (
+                    <p className="text-gray-500 text-sm">
+                      {[user.specialization, experience && `${experience} of experience`].filter(Boolean).join(' · ')}
+                    </p>
+                  )}
+                  <div className="mt-2">
+                    <span className={`inline-flex items-center px-3 py-1 rounded-full text-sm font-medium ${
+                      user.level === 'advanced' ? 'bg-red-100 text-red-800' :
+                      user.level === 'intermediate' ? 'bg-yellow-100 text-yellow-800' :
+                      'bg-green-100 text-green-800'
+                    }`}>
+                      {user.level.charAt(0).toUpperCase() + user.level.slice(1)} Level
+                    </span>
+                  </div>
+                </div>
+                <div className="text-right">
+                  <div className="text-2xl font-bold text-cyan-600">85%</div>
+                  <div className="text-gray-600">Overall Progress</div>
+                  <button
+                    onClick={() => setEditing(true)}
+                    className="mt-3 inline-flex items-center space-x-2 px-3 py-1.5 border border-gray-300 hover:bg-gray-50 text-gray-700 text-sm rounded-lg transition-colors"
+                  >
+                    <Pencil className="h-4 w-4" />
+                    <span>Edit profile</span>
+                  </button>
+                </div>
               </div>
-            </div>
-            <div className="text-right">
-              <div className="text-2xl font-bold text-cyan-600">85%</div>
-              <div className="text-gray-600">Overall Progress</div>
-            </div>
-          </div>
+              {user.bio && <p className="text-gray-700 mt-6 whitespace-pre-line">{user.bio}</p>}
+            </>
+          )}
         </div>
 
         <div className="grid grid-cols-1 lg:grid-cols-2 gap-8">
@@ -145,6 +178,16 @@ export const Profile: React.FC = () => {
           </div>
         </div>
 
+        <AccountSecurity />
+
+        <TwoFactorSettings />
+
+        <NotificationSettings />
+
+        <AccessibilitySettings />
+
+        <PrivacySettings email={user.email} />
+
         {/* Recent Activity */}
         <div className="bg-white rounded-lg shadow-md p-6 mt-8">
           <h3 className="text-xl font-bold text-gray-900 mb-6">Recent Activity</h3>
@@ -0,0 +1,208 @@
+import React, { useState, useRef } from 'react';
+import { User, Upload, Trash2 } from 'lucide-react';
+import { useAuth } from '../../context/AuthContext';
+import {
+  profileService,
+  EXPERIENCE_OPTIONS,
+  PROFILE_LIMITS,
+  type ProfileErrors,
+  type ProfileUpdate
+} from '../../services/profileService';
+
+interface ProfileEditorProps {
+  onClose: () => void;
+}
+
+export const ProfileEditor: React.FC<ProfileEditorProps> = ({ onClose }) => {
+  const { user, saveProfile, updateUser } = useAuth();
+  const [profile, setProfile] = useState<ProfileUpdate>({
+    name: user?.name ?? '',
+    bio: user?.bio ?? '',
+    specialization: user?.specialization ?? '',
+    experience_years: user?.experience_years ?? null
+  });
+  const [fieldErrors, setFieldErrors] = useState<ProfileErrors>({});
+  const [isSaving, setIsSaving] = useState(false);
+  const [isUploading, setIsUploading] = useState(false);
+  const [error, setError] = useState('');
+  const fileInput = useRef<HTMLInputElement>(null);
+
+  if (!user) return null;
+
+  const setField = <K extends keyof ProfileUpdate>(field: K, value: ProfileUpdate[K]) => {
+    setProfile(current => ({ ...current, [field]: value }));
+    setFieldErrors(current => ({ ...current, [field]: undefined }));
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const errors = profileService.validate(profile);
+    setFieldErrors(errors);
+    if (Object.keys(errors).length > 0) return;
+
+    setError('');
+    setIsSaving(true);
+    try {
+      await saveProfile(profile);
+      onClose();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to save your profile');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleAvatarChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    setError('');
+    setIsUploading(true);
+    try {
+      updateUser({ avatar_url: await profileService.uploadAvatar(user.id, file) });
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to upload your picture');
+    } finally {
+      setIsUploading(false);
+    }
+  };
+
+  const handleAvatarRemove = async () => {
+    setError('');
+    setIsUploading(true);
+    try {
+      await profileService.removeAvatar(user.id);
+      updateUser({ avatar_url: null });
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to remove your picture');
+    } finally {
+      setIsUploading(false);
+    }
+  };
+
+  const inputClass = (field: keyof ProfileUpdate) =>
+    `w-full px-3 py-2 border rounded-lg focus:outline-none focus:ring-2 focus:ring-cyan-500 ${
+      fieldErrors[field] ? 'border-red-400' : 'border-gray-300'
+    }`;
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-5" noValidate>
+      {error && <p className="text-red-600 text-sm">{error}</p>}
+
+      <div className="flex items-center space-x-6">
+        {user.avatar_url ? (
+          <img src={user.avatar_url} alt="" className="w-24 h-24 rounded-full object-cover" />
+        ) : (
+          <div className="w-24 h-24 bg-gradient-to-br from-cyan-500 to-blue-600 rounded-full flex items-center justify-center">
+            <User className="h-12 w-12 text-white" />
+          </div>
+        )}
+        <div className="flex flex-wrap gap-3">
+          <input
+            ref={fileInput}
+            type="file"
+            accept="image/png,image/jpeg,image/webp,image/gif"
+            onChange={handleAvatarChange}
+            className="hidden"
+          />
+          <button
+            type="button"
+            onClick={() => fileInput.current?.click()}
+            disabled={isUploading}
+            className="flex items-center space-x-2 px-4 py-2 border border-gray-300 hover:bg-gray-50 text-gray-700 rounded-lg transition-colors disabled:opacity-50"
+          >
+            <Upload className="h-4 w-4" />
+            <span>{isUploading ? 'Uploading…' : 'Upload picture'}</span>
+          </button>
+          {user.avatar_url && (
+            <button
+              type="button"
+              onClick={handleAvatarRemove}
+              disabled={isUploading}
+              className="flex items-center space-x-2 px-4 py-2 border border-red-300 hover:bg-red-50 text-red-600 rounded-lg transition-colors disabled:opacity-50"
+            >
+              <Trash2 className="h-4 w-4" />
+              <span>Remove</span>
+            </button>
+          )}
+          <p className="w-full text-gray-500 text-xs">PNG, JPEG, WebP or GIF, up to 2 MB</p>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-5">
+        <div>
+          <label htmlFor="profile-name" className="block text-sm font-medium text-gray-700 mb-1">Name</label>
+          <input
+            id="profile-name"
+            type="text"
+            value={profile.name}
+            maxLength={PROFILE_LIMITS.name}
+            onChange={(e) => setField('name', e.target.value)}
+            className={inputClass('name')}
+          />
+          {fieldErrors.name && <p className="text-red-600 text-xs mt-1">{fieldErrors.name}</p>}
+        </div>
+        <div>
+          <label htmlFor="profile-specialization" className="block text-sm font-medium text-gray-700 mb-1">Specialization</label>
+          <input
+            id="profile-specialization"
+            type="text"
+            value={profile.specialization}
+            maxLength={PROFILE_LIMITS.specialization}
+            onChange={(e) => setField('specialization', e.target.value)}
+            className={inputClass('specialization')}
+            placeholder="e.g. Web application security"
+          />
+          {fieldErrors.specialization && <p className="text-red-600 text-xs mt-1">{fieldErrors.specialization}</p>}
+        </div>
+        <div>
+          <label htmlFor="profile-experience" className="block text-sm font-medium text-gray-700 mb-1">Experience</label>
+          <select
+            id="profile-experience"
+            value={profile.experience_years ?? ''}
+            onChange={(e) => setField('experience_years', (e.target.value || null) as ProfileUpdate['experience_years'])}
+            className={inputClass('experience_years')}
+          >
+            <option value="">Prefer not to say</option>
+            {EXPERIENCE_OPTIONS.map(option => (
+              <option key={option.value} value={option.value}>{option.label}</option>
+            ))}
+          </select>
+          {fieldErrors.experience_years && <p className="text-red-600 text-xs mt-1">{fieldErrors.experience_years}</p>}
+        </div>
+      </div>
+
+      <div>
+        <label htmlFor="profile-bio" className="block text-sm font-medium text-gray-700 mb-1">Bio</label>
+        <textarea
+          id="profile-bio"
+          rows={4}
+          value={profile.bio}
+          onChange={(e) => setField('bio', e.target.value)}
+          className={inputClass('bio')}
+          placeholder="Tell others a little about yourself"
+        />
+        <div className="flex justify-between text-xs mt-1">
+          <span className="text-red-600">{fieldErrors.bio}</span>
+          <span className={profile.bio.length > PROFILE_LIMITS.bio ? 'text-red-600' : 'text-gray-500'}>
+            {profile.bio.length}/{PROFILE_LIMITS.bio}
+          </span>
+        </div>
+      </div>
+
+      <div className="flex space-x-3">
+        <button
+          type="submit"
+          disabled={isSaving}
+          className="px-4 py-2 bg-cyan-600 hover:bg-cyan-700 text-white rounded-lg transition-colors disabled:opacity-50"
+        >
+          {isSaving ? 'Saving…' : 'Save profile'}
+        </button>
+        <button type="button" onClick={onClose} className="px-4 py-2 text-gray-600 hover:text-gray-900">
+          Cancel
+        </button>
+      </div>
+    </form>
+  );
+};
@@ -0,0 +1,152 @@
+import React, { useState, useEffect } from 'react';
+import { ShieldCheck, ShieldOff, KeyRound } from 'lucide-react';
+import { authService, type MfaStatus } from '../../services/authService';
+import { TwoFactorSetup } from '../Auth/TwoFactorSetup';
+
+type PendingAction = 'disable' | 'regenerate' | null;
+
+export const TwoFactorSettings: React.FC = () => {
+  const [status, setStatus] = useState<MfaStatus | null>(null);
+  const [enrolling, setEnrolling] = useState(false);
+  const [pendingAction, setPendingAction] = useState<PendingAction>(null);
+  const [code, setCode] = useState('');
+  const [recoveryCodes, setRecoveryCodes] = useState<string[] | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    loadStatus();
+  }, []);
+
+  const loadStatus = async () => {
+    try {
+      setStatus(await authService.getMfaStatus());
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load 2FA status');
+    }
+  };
+
+  const handleEnrolled = async () => {
+    setEnrolling(false);
+    await loadStatus();
+  };
+
+  const handleConfirm = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError('');
+    setIsLoading(true);
+    try {
+      if (pendingAction === 'disable') {
+        await authService.disableMfa(code);
+      } else {
+        setRecoveryCodes(await authService.regenerateRecoveryCodes(code));
+      }
+      setPendingAction(null);
+      setCode('');
+      await loadStatus();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Something went wrong');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  return (
+    <div className="bg-white rounded-lg shadow-md p-6 mt-8">
+      <h3 className="text-xl font-bold text-gray-900 mb-2">Two-Factor Authentication</h3>
+      <p className="text-gray-600 mb-6">
+        Protect your account with a one-time code from an authenticator app when you sign in.
+      </p>
+
+      {error && <p className="text-red-600 text-sm mb-4">{error}</p>}
+
+      {!status ? (
+        !error && <div className="animate-spin rounded-full h-6 w-6 border-b-2 border-cyan-600"></div>
+      ) : enrolling ? (
+        <div className="bg-slate-900 rounded-lg p-6">
+          <TwoFactorSetup onComplete={handleEnrolled} onCancel={() => setEnrolling(false)} />
+        </div>
+      ) : !status.enabled ? (
+        <button
+          onClick={() => setEnrolling(true)}
+          className="flex items-center space-x-2 px-4 py-2 bg-cyan-600 hover:bg-cyan-700 text-white rounded-lg transition-colors"
+        >
+          <ShieldCheck className="h-4 w-4" />
+          <span>Set up 2FA</span>
+        </button>
+      ) : (
+        <div className="space-y-4">
+          <div className="flex items-center space-x-3 p-3 bg-green-50 rounded-lg">
+            <ShieldCheck className="h-5 w-5 text-green-600" />
+            <span className="flex-1 text-gray-900">Two-factor authentication is on</span>
+            <span className="text-gray-500 text-sm">{status.recoveryCodesRemaining} recovery codes left</span>
+          </div>
+
+          {recoveryCodes && (
+            <div className="p-4 bg-gray-50 rounded-lg">
+              <p className="text-gray-700 text-sm mb-3">Your new recovery codes. Save them now; they will not be shown again.</p>
+              <div className="grid grid-cols-2 gap-2">
+                {recoveryCodes.map(recoveryCode => (
+                  <code key={recoveryCode} className="font-mono text-gray-900 text-center">{recoveryCode}</code>
+                ))}
+              </div>
+            </div>
+          )}
+
+          {pendingAction ? (
+            <form onSubmit={handleConfirm} className="flex items-center space-x-3">
+              <input
+                type="text"
+                inputMode="numeric"
+                autoComplete="one-time-code"
+                aria-label="Authentication code"
+                required
+                maxLength={6}
+                value={code}
+                onChange={(e) => setCode(e.target.value.replace(/\D/g, ''))}
+                className="w-40 px-3 py-2 border border-gray-300 rounded-lg text-center tracking-widest focus:outline-none focus:ring-2 focus:ring-cyan-500"
+                placeholder="000000"
+              />
+              <button
+                type="submit"
+                disabled={isLoading || code.length !== 6}
+                className="px-4 py-2 bg-cyan-600 hover:bg-cyan-700 text-white rounded-lg transition-colors disabled:opacity-50"
+              >
+                {pendingAction === 'disable' ? 'Turn off 2FA' : 'Generate new codes'}
+              </button>
+              <button
+                type="button"
+                onClick={() => {
+                  setPendingAction(null);
+                  setCode('');
+                }}
+                className="px-4 py-2 text-gray-600 hover:text-gray-900"
+              >
+                Cancel
+              </button>
+            </form>
+          ) : (
+            <div className="flex space-x-3">
+              <button
+                onClick={() => setPendingAction('regenerate')}
+                className="flex items-center space-x-2 px-4 py-2 border border-gray-300 hover:bg-gray-50 text-gray-700 rounded-lg transition-colors"
+              >
+                <KeyRound className="h-4 w-4" />
+                <span>New recovery codes</span>
+              </button>
+              {!status.required && (
+                <button
+                  onClick={() => setPendingAction('disable')}
+                  className="flex items-center space-x-2 px-4 py-2 border border-red-300 hover:bg-red-50 text-red-600 rounded-lg transition-colors"
+                >
+                  <ShieldOff className="h-4 w-4" />
+                  <span>Turn off</span>
+                </button>
+              )}
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
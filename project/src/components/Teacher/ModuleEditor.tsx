@@ -0,0 +1,394 @@
+import React, { useState, useEffect } from 'react';
+import { GripVertical, PlusCircle, Trash2, ChevronUp, ChevronDown, Video, FlaskRound as Flask, Eye } from 'lucide-react';
+import { courseService } from '../../services/courseService';
+import { RequirePermission } from '../Auth/RequirePermission';
+import { MarkdownContent } from '../Content/MarkdownContent';
+import type { CourseModuleRecord } from '../../types';
+
+interface ModuleEditorProps {
+  course: { id: string; title: string };
+  onClose: () => void;
+}
+
+const NEW_MODULE = 'new';
+
+// Move one item of a list to another position
+const moveItem = <T,>(items: T[], from: number, to: number) => {
+  const next = [...items];
+  const [item] = next.splice(from, 1);
+  next.splice(to, 0, item);
+  return next;
+};
+
+export const ModuleEditor: React.FC<ModuleEditorProps> = ({ course, onClose }) => {
+  const [modules, setModules] = useState<CourseModuleRecord[]>([]);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState('');
+  const [dragIndex, setDragIndex] = useState<number | null>(null);
+  // Order before a drag started, restored if saving the new order fails
+  const [orderBeforeDrag, setOrderBeforeDrag] = useState<CourseModuleRecord[] | null>(null);
+
+  useEffect(() => {
+    const loadModules = async () => {
+      try {
+        setLoading(true);
+        const data = await courseService.getCourseModules(course.id);
+        setModules(data);
+        setSelectedId(data[0]?.id ?? NEW_MODULE);
+      } catch (err) {
+        setError(err instanceof Error ? err.message : 'Failed to load modules');
+      } finally {
+        setLoading(false);
+      }
+    };
+    loadModules();
+  }, [course.id]);
+
+  const saveOrder = async (reordered: CourseModuleRecord[], previous: CourseModuleRecord[]) => {
+    setModules(reordered);
+    try {
+      setError('');
+      setModules(await courseService.reorderModules(reordered));
+    } catch (err) {
+      setModules(previous);
+      setError(err instanceof Error ? err.message : 'Failed to save module order');
+    }
+  };
+
+  const handleMove = (index: number, delta: number) => {
+    const target = index + delta;
+    if (target < 0 || target >= modules.length) return;
+    saveOrder(moveItem(modules, index, target), modules);
+  };
+
+  const handleDragStart = (index: number) => {
+    setDragIndex(index);
+    setOrderBeforeDrag(modules);
+  };
+
+  // The list reorders live while dragging; the order is saved on drop
+  const handleDragOver = (e: React.DragEvent, index: number) => {
+    e.preventDefault();
+    if (dragIndex === null || dragIndex === index) return;
+    setModules(moveItem(modules, dragIndex, index));
+    setDragIndex(index);
+  };
+
+  const handleDragEnd = () => {
+    const previous = orderBeforeDrag;
+    setDragIndex(null);
+    setOrderBeforeDrag(null);
+    if (previous && previous.some((module, index) => module.id !== modules[index]?.id)) {
+      saveOrder(modules, previous);
+    }
+  };
+
+  const handleSaved = (saved: CourseModuleRecord) => {
+    setModules(prev =>
+      prev.some(m => m.id === saved.id) ? prev.map(m => (m.id === saved.id ? saved : m)) : [...prev, saved]
+    );
+    setSelectedId(saved.id);
+  };
+
+  const handleDelete = async (module: CourseModuleRecord) => {
+    if (!window.confirm(`Delete module "${module.title}"?`)) return;
+    try {
+      await courseService.deleteModule(module.id);
+      const remaining = modules.filter(m => m.id !== module.id);
+      setSelectedId(remaining[0]?.id ?? NEW_MODULE);
+      // Close the gap the deleted module left in module_order
+      await saveOrder(remaining, remaining);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to delete module');
+    }
+  };
+
+  const selected = modules.find(m => m.id === selectedId) ?? null;
+
+  return (
+    <div className="fixed inset-0 bg-black/50 backdrop-blur-sm flex items-center justify-center p-4 z-50">
+      <div className="bg-slate-800 rounded-2xl p-8 max-w-7xl w-full max-h-[90vh] overflow-y-auto border border-slate-700">
+        <div className="flex items-center justify-between mb-6">
+          <div>
+            <h2 className="text-2xl font-bold text-white">Modules</h2>
+            <p className="text-slate-400">{course.title}</p>
+          </div>
+          <button
+            onClick={onClose}
+            className="text-slate-400 hover:text-white transition-colors"
+            aria-label="Close"
+          >
+            ✕
+          </button>
+        </div>
+
+        {error && (
+          <div className="mb-4 p-3 bg-red-500/20 border border-red-500/30 rounded-xl text-red-300 text-sm">{error}</div>
+        )}
+
+        {loading ? (
+          <div className="flex justify-center py-12">
+            <div className="animate-spin rounded-full h-10 w-10 border-b-2 border-orange-500"></div>
+          </div>
+        ) : (
+          <div className="grid grid-cols-1 lg:grid-cols-4 gap-6">
+            {/* Module list */}
+            <div className="lg:col-span-1">
+              <ul className="space-y-2" aria-label="Module order">
+                {modules.map((module, index) => (
+                  <li
+                    key={module.id}
+                    draggable
+                    onDragStart={() => handleDragStart(index)}
+                    onDragOver={e => handleDragOver(e, index)}
+                    onDragEnd={handleDragEnd}
+                    className={`flex items-center space-x-2 p-3 rounded-xl border transition-colors ${
+                      module.id === selectedId
+                        ? 'bg-green-500/20 border-green-500/50'
+                        : 'bg-slate-700/30 border-slate-600/30 hover:border-slate-500/50'
+                    } ${dragIndex === index ? 'opacity-50' : ''}`}
+                  >
+                    <GripVertical className="h-4 w-4 text-slate-500 cursor-grab flex-shrink-0" aria-hidden="true" />
+                    <button
+                      onClick={() => setSelectedId(module.id)}
+                      className="flex-1 text-left min-w-0"
+                    >
+                      <span className="block text-sm text-white truncate">
+                        {index + 1}. {module.title}
+                      </span>
+                      {!module.is_published && <span className="text-xs text-yellow-400">Draft</span>}
+                    </button>
+                    <div className="flex flex-col">
+                      <button
+                        onClick={() => handleMove(index, -1)}
+                        disabled={index === 0}
+                        className="text-slate-400 hover:text-white disabled:opacity-30"
+                        aria-label={`Move ${module.title} up`}
+                      >
+                        <ChevronUp className="h-4 w-4" />
+                      </button>
+                      <button
+                        onClick={() => handleMove(index, 1)}
+                        disabled={index === modules.length - 1}
+                        className="text-slate-400 hover:text-white disabled:opacity-30"
+                        aria-label={`Move ${module.title} down`}
+                      >
+                        <ChevronDown className="h-4 w-4" />
+                      </button>
+                    </div>
+                  </li>
+                ))}
+              </ul>
+              <button
+                onClick={() => setSelectedId(NEW_MODULE)}
+                className="mt-4 w-full flex items-center justify-center space-x-2 px-4 py-3 border border-dashed border-slate-600 text-slate-300 rounded-xl hover:bg-slate-700 transition-colors"
+              >
+                <PlusCircle className="h-4 w-4" />
+                <span>Add Module</span>
+              </button>
+            </div>
+
+            {/* Module form */}
+            <div className="lg:col-span-3">
+              {selectedId && (
+                <ModuleForm
+                  key={selectedId}
+                  courseId={course.id}
+                  module={selected}
+                  nextOrder={modules.length + 1}
+                  onSaved={handleSaved}
+                  onDelete={selected ? () => handleDelete(selected) : undefined}
+                />
+              )}
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+interface ModuleFormProps {
+  courseId: string;
+  module: CourseModuleRecord | null;
+  nextOrder: number;
+  onSaved: (module: CourseModuleRecord) => void;
+  onDelete?: () => void;
+}
+
+const ModuleForm: React.FC<ModuleFormProps> = ({ courseId, module, nextOrder, onSaved, onDelete }) => {
+  const [formData, setFormData] = useState({
+    title: module?.title || '',
+    description: module?.description || '',
+    content: module?.content || '',
+    video_url: module?.video_url || '',
+    lab_url: module?.lab_url || '',
+    is_published: module?.is_published || false
+  });
+  const [saving, setSaving] = useState(false);
+  const [saved, setSaved] = useState(false);
+
+  const update = (changes: Partial<typeof formData>) => {
+    setFormData(prev => ({ ...prev, ...changes }));
+    setSaved(false);
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const payload = {
+      ...formData,
+      video_url: formData.video_url.trim() || null,
+      lab_url: formData.lab_url.trim() || null
+    };
+
+    try {
+      setSaving(true);
+      const result = module
+        ? await courseService.updateModule(module.id, payload)
+        : await courseService.createModule({ ...payload, course_id: courseId, module_order: nextOrder });
+      onSaved(result);
+      setSaved(true);
+    } catch (error) {
+      console.error('Save module failed:', error);
+      alert(`Failed to save module: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-6">
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+        <div>
+          <label htmlFor="module-title" className="block text-sm font-medium text-slate-300 mb-2">
+            Module Title
+          </label>
+          <input
+            id="module-title"
+            type="text"
+            value={formData.title}
+            onChange={e => update({ title: e.target.value })}
+            className="w-full px-4 py-3 bg-slate-700 border border-slate-600 rounded-xl text-white focus:outline-none focus:ring-2 focus:ring-green-500"
+            placeholder="e.g., Cross-Site Scripting"
+            required
+          />
+        </div>
+        <div>
+          <label htmlFor="module-description" className="block text-sm font-medium text-slate-300 mb-2">
+            Description
+          </label>
+          <input
+            id="module-description"
+            type="text"
+            value={formData.description}
+            onChange={e => update({ description: e.target.value })}
+            className="w-full px-4 py-3 bg-slate-700 border border-slate-600 rounded-xl text-white focus:outline-none focus:ring-2 focus:ring-green-500"
+            placeholder="One line shown in the course outline"
+          />
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 xl:grid-cols-2 gap-6">
+        <div>
+          <label htmlFor="module-content" className="block text-sm font-medium text-slate-300 mb-2">
+            Content (Markdown)
+          </label>
+          <textarea
+            id="module-content"
+            value={formData.content}
+            onChange={e => update({ content: e.target.value })}
+            rows={20}
+            className="w-full px-4 py-3 bg-slate-700 border border-slate-600 rounded-xl text-white font-mono text-sm focus:outline-none focus:ring-2 focus:ring-green-500"
+            placeholder={'# Heading\n\n> [!TIP]\n> Callouts: NOTE, TIP, WARNING, DANGER\n\n::lab injection\n\n::quiz\nquestion: ...\n- [ ] Wrong\n- [x] Right\nexplanation: ...\n::'}
+          />
+        </div>
+        <div>
+          <div className="flex items-center space-x-2 text-sm font-medium text-slate-300 mb-2">
+            <Eye className="h-4 w-4" />
+            <span>Preview</span>
+          </div>
+          {/* Same rendering and light styling as the student module view */}
+          <div className="h-[30rem] overflow-y-auto bg-white rounded-xl p-6 text-gray-900">
+            {formData.content ? (
+              <MarkdownContent source={formData.content} />
+            ) : (
+              <p className="text-gray-400">Nothing to preview yet.</p>
+            )}
+          </div>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+        <div>
+          <label htmlFor="module-video" className="flex items-center space-x-2 text-sm font-medium text-slate-300 mb-2">
+            <Video className="h-4 w-4" />
+            <span>Video URL</span>
+          </label>
+          <input
+            id="module-video"
+            type="url"
+            value={formData.video_url}
+            onChange={e => update({ video_url: e.target.value })}
+            className="w-full px-4 py-3 bg-slate-700 border border-slate-600 rounded-xl text-white focus:outline-none focus:ring-2 focus:ring-green-500"
+            placeholder="https://..."
+          />
+        </div>
+        <div>
+          <label htmlFor="module-lab" className="flex items-center space-x-2 text-sm font-medium text-slate-300 mb-2">
+            <Flask className="h-4 w-4" />
+            <span>Lab URL</span>
+          </label>
+          <input
+            id="module-lab"
+            type="url"
+            value={formData.lab_url}
+            onChange={e => update({ lab_url: e.target.value })}
+            className="w-full px-4 py-3 bg-slate-700 border border-slate-600 rounded-xl text-white focus:outline-none focus:ring-2 focus:ring-green-500"
+            placeholder="https://..."
+          />
+        </div>
+      </div>
+
+      <RequirePermission permission="course:publish" fallback={null}>
+        <div className="flex items-center">
+          <input
+            type="checkbox"
+            id="module-published"
+            checked={formData.is_published}
+            onChange={e => update({ is_published: e.target.checked })}
+            className="h-4 w-4 text-green-600 focus:ring-green-500 border-slate-600 rounded bg-slate-700"
+          />
+          <label htmlFor="module-published" className="ml-2 block text-sm text-slate-300">
+            Published (visible to students once the course is published)
+          </label>
+        </div>
+      </RequirePermission>
+
+      <div className="flex items-center justify-between">
+        <div>
+          {onDelete && (
+            <button
+              type="button"
+              onClick={onDelete}
+              className="flex items-center space-x-2 px-4 py-3 bg-red-500/20 text-red-400 rounded-xl hover:bg-red-500/30 transition-colors"
+            >
+              <Trash2 className="h-4 w-4" />
+              <span>Delete</span>
+            </button>
+          )}
+        </div>
+        <div className="flex items-center space-x-4">
+          {saved && <span className="text-sm text-green-400">Saved</span>}
+          <button
+            type="submit"
+            disabled={saving}
+            className="px-6 py-3 bg-gradient-to-r from-green-500 to-blue-500 text-white rounded-xl hover:from-green-600 hover:to-blue-600 disabled:opacity-50 transition-all duration-200"
+          >
+            {saving ? 'Saving...' : module ? 'Update Module' : 'Create Module'}
+          </button>
+        </div>
+      </div>
+    </form>
+  );
+};
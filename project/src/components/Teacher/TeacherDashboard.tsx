@@ -1,14 +1,22 @@
 import React, { useState, useEffect } from 'react';
-import { BookOpen, Users, PlusCircle, BarChart, Edit, Trash2, Eye, Upload } from 'lucide-react';
+import { BookOpen, Users, PlusCircle, BarChart, Edit, Trash2, Eye, Upload, Layers, Download } from 'lucide-react';
 import { courseService } from '../../services/courseService';
+import { coursePackageService } from '../../services/coursePackageService';
+import { scormService, type ScormVersion } from '../../services/scormService';
+import { downloadBlob } from '../../lib/download';
 import { Course, CourseModule } from '../../lib/supabase';
 import { useAuth } from '../../context/AuthContext';
+import { RequirePermission } from '../Auth/RequirePermission';
+import { ModuleEditor } from './ModuleEditor';
 
 export const TeacherDashboard: React.FC = () => {
   const [activeView, setActiveView] = useState('overview');
   const [courses, setCourses] = useState<Course[]>([]);
   const [showCreateForm, setShowCreateForm] = useState(false);
   const [editingCourse, setEditingCourse] = useState<Course | null>(null);
+  const [modulesCourse, setModulesCourse] = useState<Course | null>(null);
+  const [exportingId, setExportingId] = useState<string | null>(null);
+  const [exportMenuId, setExportMenuId] = useState<string | null>(null);
   const [loading, setLoading] = useState(true);
   const { user } = useAuth();
 
@@ -52,6 +60,23 @@ export const TeacherDashboard: React.FC = () => {
     }
   };
 
+  // 'package' is the platform's own format; the SCORM versions are for clients' LMSs
+  const handleExportCourse = async (course: Course, format: 'package' | ScormVersion) => {
+    try {
+      setExportMenuId(null);
+      setExportingId(course.id);
+      const { filename, blob } = format === 'package'
+        ? await coursePackageService.exportCourse(course.id)
+        : await scormService.exportCourse(course.id, format);
+      downloadBlob(filename, blob);
+    } catch (error) {
+      console.error('Failed to export course:', error);
+      alert(`Failed to export course: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    } finally {
+      setExportingId(null);
+    }
+  };
+
   if (loading) {
     return (
       <div className="min-h-screen bg-gradient-to-br from-slate-900 via-purple-900 to-slate-900 flex items-center justify-center">
@@ -176,17 +201,56 @@ export const TeacherDashboard: React.FC = () => {
                     </div>
                     
                     <div className="flex items-center space-x-2 ml-6">
+                      <RequirePermission permission="course:publish" fallback={null}>
+                        <button
+                          onClick={() => handleTogglePublish(course)}
+                          className={`p-2 rounded-lg transition-colors ${
+                            course.is_published
+                              ? 'bg-yellow-500/20 text-yellow-400 hover:bg-yellow-500/30'
+                              : 'bg-green-500/20 text-green-400 hover:bg-green-500/30'
+                          }`}
+                          title={course.is_published ? 'Unpublish' : 'Publish'}
+                        >
+                          <Eye className="h-4 w-4" />
+                        </button>
+                      </RequirePermission>
                       <button
-                        onClick={() => handleTogglePublish(course)}
-                        className={`p-2 rounded-lg transition-colors ${
-                          course.is_published
-                            ? 'bg-yellow-500/20 text-yellow-400 hover:bg-yellow-500/30'
-                            : 'bg-green-500/20 text-green-400 hover:bg-green-500/30'
-                        }`}
-                        title={course.is_published ? 'Unpublish' : 'Publish'}
+                        onClick={() => setModulesCourse(course)}
+                        className="p-2 bg-purple-500/20 text-purple-400 rounded-lg hover:bg-purple-500/30 transition-colors"
+                        title="Modules"
                       >
-                        <Eye className="h-4 w-4" />
+                        <Layers className="h-4 w-4" />
                       </button>
+                      <div className="relative">
+                        <button
+                          onClick={() => setExportMenuId(exportMenuId === course.id ? null : course.id)}
+                          disabled={exportingId === course.id}
+                          className="p-2 bg-cyan-500/20 text-cyan-400 rounded-lg hover:bg-cyan-500/30 transition-colors disabled:opacity-50"
+                          title="Export"
+                          aria-haspopup="menu"
+                          aria-expanded={exportMenuId === course.id}
+                        >
+                          <Download className="h-4 w-4" />
+                        </button>
+                        {exportMenuId === course.id && (
+                          <div role="menu" className="absolute right-0 mt-2 w-56 bg-slate-800 border border-slate-600 rounded-xl shadow-xl z-10 py-1">
+                            {([
+                              ['package', 'Course package (.zip)'],
+                              ['1.2', 'SCORM 1.2'],
+                              ['2004', 'SCORM 2004']
+                            ] as const).map(([format, label]) => (
+                              <button
+                                key={format}
+                                role="menuitem"
+                                onClick={() => handleExportCourse(course, format)}
+                                className="block w-full text-left px-4 py-2 text-sm text-slate-200 hover:bg-slate-700 transition-colors"
+                              >
+                                {label}
+                              </button>
+                            ))}
+                          </div>
+                        )}
+                      </div>
                       <button
                         onClick={() => setEditingCourse(course)}
                         className="p-2 bg-blue-500/20 text-blue-400 rounded-lg hover:bg-blue-500/30 transition-colors"
@@ -229,6 +293,10 @@ export const TeacherDashboard: React.FC = () => {
           }}
         />
       )}
+
+      {modulesCourse && (
+        <ModuleEditor course={modulesCourse} onClose={() => setModulesCourse(null)} />
+      )}
     </div>
   );
 };
@@ -373,18 +441,20 @@ const CourseForm: React.FC<CourseFormProps> = ({ course, onSave, onCancel }) =>
             />
           </div>
 
-          <div className="flex items-center">
-            <input
-              type="checkbox"
-              id="is_published"
-              checked={formData.is_published}
-              onChange={(e) => setFormData(prev => ({ ...prev, is_published: e.target.checked }))}
-              className="h-4 w-4 text-green-600 focus:ring-green-500 border-slate-600 rounded bg-slate-700"
-            />
-            <label htmlFor="is_published" className="ml-2 block text-sm text-slate-300">
-              Publish course immediately
-            </label>
-          </div>
+          <RequirePermission permission="course:publish" fallback={null}>
+            <div className="flex items-center">
+              <input
+                type="checkbox"
+                id="is_published"
+                checked={formData.is_published}
+                onChange={(e) => setFormData(prev => ({ ...prev, is_published: e.target.checked }))}
+                className="h-4 w-4 text-green-600 focus:ring-green-500 border-slate-600 rounded bg-slate-700"
+              />
+              <label htmlFor="is_published" className="ml-2 block text-sm text-slate-300">
+                Publish course immediately
+              </label>
+            </div>
+          </RequirePermission>
 
           <div className="flex justify-end space-x-4">
             <button
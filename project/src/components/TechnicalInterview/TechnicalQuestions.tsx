@@ -2,8 +2,13 @@ import React, { useState, useEffect, useRef } from 'react';
 import { Building2, Clock, Star, ChevronRight, Lightbulb, CheckCircle, XCircle, Eye, EyeOff } from 'lucide-react';
 import { technicalQuestions, TechnicalQuestion } from '../../data/technicalQuestions';
 
-export const TechnicalQuestions: React.FC = () => {
-  const [selectedQuestion, setSelectedQuestion] = useState<TechnicalQuestion | null>(null);
+interface TechnicalQuestionsProps {
+  questionId?: string;
+  onQuestionSelect: (questionId: string | null) => void;
+}
+
+export const TechnicalQuestions: React.FC<TechnicalQuestionsProps> = ({ questionId, onQuestionSelect }) => {
+  const selectedQuestion = questionId ? technicalQuestions.find(question => question.id === questionId) ?? null : null;
   const [showSolution, setShowSolution] = useState(false);
   const [showHints, setShowHints] = useState(false);
   const [currentHintIndex, setCurrentHintIndex] = useState(0);
@@ -118,14 +123,18 @@ export const TechnicalQuestions: React.FC = () => {
            (filterCategory === 'all' || question.category === filterCategory);
   });
 
-  const handleQuestionSelect = (question: TechnicalQuestion) => {
-    setSelectedQuestion(question);
+  // Every question starts fresh, however it was opened
+  useEffect(() => {
     setShowSolution(false);
     setShowHints(false);
     setCurrentHintIndex(0);
     setUserAnswer('');
     setTimeLeft(null);
     setIsTimerActive(false);
+  }, [questionId]);
+
+  const handleQuestionSelect = (question: TechnicalQuestion) => {
+    onQuestionSelect(question.id);
   };
 
   const handleShowNextHint = () => {
@@ -134,6 +143,10 @@ export const TechnicalQuestions: React.FC = () => {
     }
   };
 
+  if (questionId && !selectedQuestion) {
+    return <div>Question not found</div>;
+  }
+
   if (selectedQuestion) {
     return (
       <div className="p-6 bg-gray-900 dark:bg-gray-900 light:bg-gray-50 min-h-screen">
@@ -141,7 +154,7 @@ export const TechnicalQuestions: React.FC = () => {
           {/* Header */}
           <div className="flex items-center justify-between mb-6">
             <button
-              onClick={() => setSelectedQuestion(null)}
+              onClick={() => onQuestionSelect(null)}
               className="flex items-center space-x-2 text-gray-400 hover:text-white dark:text-gray-400 dark:hover:text-white light:text-gray-600 light:hover:text-gray-900 transition-colors"
             >
               <span>← Back to Questions</span>
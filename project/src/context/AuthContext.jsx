@@ -1,51 +1,68 @@
 import React, { createContext, useContext, useState, useEffect } from 'react';
 import { authService } from '../services/authService';
+import { profileService } from '../services/profileService';
 
 const AuthContext = createContext(undefined);
 
 export const AuthProvider = ({ children }) => {
   const [user, setUser] = useState(null);
+  const [loading, setLoading] = useState(true);
 
   useEffect(() => {
-    const currentUser = authService.getCurrentUser();
-    setUser(currentUser);
+    // Keep React state in sync when the session is refreshed, revoked or expires
+    const unsubscribe = authService.subscribe(setUser);
+    authService
+      .restoreSession()
+      .catch(error => console.error('Failed to restore session:', error))
+      .finally(() => setLoading(false));
+    return unsubscribe;
   }, []);
 
   const login = async (email, password, role = 'student') => {
     try {
       const credentials = { email, password, role };
-      const loggedInUser = await authService.login(credentials);
-      setUser(loggedInUser);
-      return true;
+      const result = await authService.login(credentials);
+      if (result.status === 'authenticated') setUser(result.user);
+      return result;
     } catch (error) {
       console.error('Login failed:', error);
       throw error;
     }
   };
 
-  const register = async (email, password, name, role = 'student', bio, specialization) => {
+  const verifyMfa = async (mfaToken, credentials) => {
+    setUser(await authService.verifyMfa(mfaToken, credentials));
+  };
+
+  const completeMfaEnrollment = async () => {
+    setUser(await authService.completeMfaEnrollment());
+  };
+
+  const register = async (email, password, name, role = 'student', bio, specialization, inviteCode) => {
     try {
-      const userData = { email, password, name, role, bio, specialization };
-      const registeredUser = await authService.register(userData);
-      setUser(registeredUser);
-      return true;
+      const userData = { email, password, name, role, bio, specialization, inviteCode };
+      const result = await authService.register(userData);
+      if (result.status === 'authenticated') setUser(result.user);
+      return result;
     } catch (error) {
       console.error('Registration failed:', error);
       throw error;
     }
   };
 
-  const logout = () => {
-    authService.logout();
+  const logout = async () => {
+    await authService.logout();
     setUser(null);
   };
 
   const updateUser = (updates) => {
-    if (user) {
-      const updatedUser = { ...user, ...updates };
-      setUser(updatedUser);
-      localStorage.setItem('cyberSecUser', JSON.stringify(updatedUser));
-    }
+    setUser(authService.updateCurrentUser(updates));
+  };
+
+  // Persists the editable profile fields, then updates the signed-in user to match
+  const saveProfile = async (profile) => {
+    if (!user) return;
+    setUser(authService.updateCurrentUser(await profileService.updateProfile(user.id, profile)));
   };
 
   const isAdmin = () => authService.isAdmin();
@@ -53,7 +70,7 @@ export const AuthProvider = ({ children }) => {
   const isStudent = () => authService.isStudent();
 
   return (
-    <AuthContext.Provider value={{ user, login, register, logout, updateUser, isAdmin, isTeacher, isStudent }}>
+    <AuthContext.Provider value={{ user, loading, login, verifyMfa, completeMfaEnrollment, register, logout, updateUser, saveProfile, isAdmin, isTeacher, isStudent }}>
       {children}
     </AuthContext.Provider>
   );
@@ -1,20 +1,26 @@
 import React, { createContext, useContext, useState, useEffect, ReactNode } from 'react';
-import { authService } from '../services/authService';
+import { authService, type LoginResult } from '../services/authService';
+import { profileService, type ProfileUpdate } from '../services/profileService';
 import type { User } from '../types';
 
 interface AuthContextValue {
   user: (User & { role?: 'student' | 'teacher' | 'admin'; created_at?: string | Date }) | null;
-  login: (email: string, password: string, role?: 'student' | 'teacher' | 'admin') => Promise<boolean>;
+  loading: boolean;
+  login: (email: string, password: string, role?: 'student' | 'teacher' | 'admin') => Promise<LoginResult>;
+  verifyMfa: (mfaToken: string, credentials: { code?: string; recoveryCode?: string }) => Promise<void>;
+  completeMfaEnrollment: () => Promise<void>;
   register: (
     email: string,
     password: string,
     name: string,
     role: 'student' | 'teacher' | 'admin',
     bio?: string,
-    specialization?: string
-  ) => Promise<boolean>;
-  logout: () => void;
+    specialization?: string,
+    inviteCode?: string
+  ) => Promise<LoginResult>;
+  logout: () => Promise<void>;
   updateUser: (updates: Partial<User>) => void;
+  saveProfile: (profile: ProfileUpdate) => Promise<void>;
   isAdmin: () => boolean;
   isTeacher: () => boolean;
   isStudent: () => boolean;
@@ -24,54 +30,71 @@ const AuthContext = createContext<AuthContextValue | undefined>(undefined);
 
 export const AuthProvider = ({ children }: { children: ReactNode }) => {
   const [user, setUser] = useState<AuthContextValue['user']>(null);
+  const [loading, setLoading] = useState(true);
 
   useEffect(() => {
-    const currentUser = authService.getCurrentUser();
-    setUser(currentUser);
+    // Keep React state in sync when the session is refreshed, revoked or expires
+    const unsubscribe = authService.subscribe(setUser);
+    authService
+      .restoreSession()
+      .catch(error => console.error('Failed to restore session:', error))
+      .finally(() => setLoading(false));
+    return unsubscribe;
   }, []);
 
   const login = async (email: string, password: string, role: 'student' | 'teacher' | 'admin' = 'student') => {
     try {
       const credentials = { email, password, role };
-      const loggedInUser = await authService.login(credentials);
-      setUser(loggedInUser);
-      return true;
+      const result = await authService.login(credentials);
+      if (result.status === 'authenticated') setUser(result.user);
+      return result;
     } catch (error) {
       console.error('Login failed:', error);
       throw error;
     }
   };
 
+  const verifyMfa = async (mfaToken: string, credentials: { code?: string; recoveryCode?: string }) => {
+    setUser(await authService.verifyMfa(mfaToken, credentials));
+  };
+
+  const completeMfaEnrollment = async () => {
+    setUser(await authService.completeMfaEnrollment());
+  };
+
   const register = async (
     email: string,
     password: string,
     name: string,
     role: 'student' | 'teacher' | 'admin' = 'student',
     bio?: string,
-    specialization?: string
+    specialization?: string,
+    inviteCode?: string
   ) => {
     try {
-      const userData = { email, password, name, role, bio, specialization };
-      const registeredUser = await authService.register(userData);
-      setUser(registeredUser);
-      return true;
+      const userData = { email, password, name, role, bio, specialization, inviteCode };
+      const result = await authService.register(userData);
+      if (result.status === 'authenticated') setUser(result.user);
+      return result;
     } catch (error) {
       console.error('Registration failed:', error);
       throw error;
     }
   };
 
-  const logout = () => {
-    authService.logout();
+  const logout = async () => {
+    await authService.logout();
     setUser(null);
   };
 
   const updateUser = (updates: Partial<User>) => {
-    if (user) {
-      const updatedUser = { ...user, ...updates };
-      setUser(updatedUser);
-      localStorage.setItem('cyberSecUser', JSON.stringify(updatedUser));
-    }
+    setUser(authService.updateCurrentUser(updates));
+  };
+
+  // Persists the editable profile fields, then updates the signed-in user to match
+  const saveProfile = async (profile: ProfileUpdate) => {
+    if (!user) return;
+    setUser(authService.updateCurrentUser(await profileService.updateProfile(user.id, profile)));
   };
 
   const isAdmin = () => {
@@ -87,7 +110,7 @@ export const AuthProvider = ({ children }: { children: ReactNode }) => {
   };
 
   return (
-    <AuthContext.Provider value={{ user, login, register, logout, updateUser, isAdmin, isTeacher, isStudent }}>
+    <AuthContext.Provider value={{ user, loading, login, verifyMfa, completeMfaEnrollment, register, logout, updateUser, saveProfile, isAdmin, isTeacher, isStudent }}>
       {children}
     </AuthContext.Provider>
   );
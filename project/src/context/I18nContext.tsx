@@ -0,0 +1,57 @@
+import { createContext, useContext, useState, useEffect, useMemo, type ReactNode } from 'react';
+import {
+  detectLocale,
+  saveLocale,
+  translate,
+  formatDate,
+  formatNumber,
+  formatRelativeTime,
+  localize,
+  type Locale,
+  type MessageKey,
+  type MessageParams,
+  type Translations
+} from '../i18n';
+
+interface I18nContextValue {
+  locale: Locale;
+  setLocale: (locale: Locale) => void;
+  t: (key: MessageKey, params?: MessageParams) => string;
+  formatDate: (value: Date | string | number, options?: Intl.DateTimeFormatOptions) => string;
+  formatNumber: (value: number, options?: Intl.NumberFormatOptions) => string;
+  formatRelativeTime: (value: Date | string | number) => string;
+  localize: <T extends { translations?: Translations<object> }>(item: T) => T;
+}
+
+const I18nContext = createContext<I18nContextValue | undefined>(undefined);
+
+export const I18nProvider = ({ children }: { children: ReactNode }) => {
+  const [locale, setLocaleState] = useState<Locale>(detectLocale);
+
+  useEffect(() => {
+    document.documentElement.lang = locale;
+  }, [locale]);
+
+  const value = useMemo<I18nContextValue>(() => ({
+    locale,
+    setLocale: (next: Locale) => {
+      saveLocale(next);
+      setLocaleState(next);
+    },
+    t: (key, params) => translate(locale, key, params),
+    formatDate: (date, options) => formatDate(locale, date, options),
+    formatNumber: (number, options) => formatNumber(locale, number, options),
+    formatRelativeTime: date => formatRelativeTime(locale, date),
+    localize: item => localize(item, locale)
+  }), [locale]);
+
+  return <I18nContext.Provider value={value}>{children}</I18nContext.Provider>;
+};
+
+export const useI18n = () => {
+  const context = useContext(I18nContext);
+  if (context === undefined) {
+    throw new Error('useI18n must be used within an I18nProvider');
+  }
+  return context;
+};
@@ -59,7 +59,13 @@ You have been given access to a vulnerable web application that contains several
 ## Remediation
 After completing the exercises, review the secure code examples and implement proper access controls.
     `,
-    completed: false
+    completed: false,
+    translations: {
+      es: {
+        title: 'Laboratorio de pérdida de control de acceso',
+        description: 'Practica cómo identificar y explotar vulnerabilidades de control de acceso'
+      }
+    }
   },
   {
     id: 'cryptographic-failures',
@@ -0,0 +1,146 @@
+export interface Video {
+  id: string;
+  title: string;
+  description: string;
+  instructor: string;
+  duration: string;
+  thumbnail: string;
+  category: string;
+  difficulty: 'beginner' | 'intermediate' | 'advanced';
+  views: number;
+  uploadDate: string;
+  videoUrl: string;
+}
+
+export const videoLibrary: Video[] = [
+  {
+    id: '1',
+    title: 'SQL Injection Explained',
+    description: 'Complete guide to SQL injection attacks, prevention, and real-world examples.',
+    instructor: 'PwnFunction',
+    duration: '12:45',
+    thumbnail: 'https://img.youtube.com/vi/ciNHn38EyRc/maxresdefault.jpg',
+    category: 'OWASP Top 10',
+    difficulty: 'beginner',
+    views: 125000,
+    uploadDate: '2023-08-15',
+    videoUrl: 'https://www.youtube.com/watch?v=ciNHn38EyRc'
+  },
+  {
+    id: '2',
+    title: 'Cross-Site Scripting (XSS) Explained',
+    description: 'Understanding XSS vulnerabilities, types, and prevention techniques.',
+    instructor: 'PortSwigger Web Security',
+    duration: '18:32',
+    thumbnail: 'https://img.youtube.com/vi/EoaDgUgS6QA/maxresdefault.jpg',
+    category: 'OWASP Top 10',
+    difficulty: 'intermediate',
+    views: 89000,
+    uploadDate: '2023-07-22',
+    videoUrl: 'https://www.youtube.com/watch?v=EoaDgUgS6QA'
+  },
+  {
+    id: '3',
+    title: 'Broken Access Control - OWASP Top 10',
+    description: 'Learn about access control vulnerabilities and how to prevent them.',
+    instructor: 'The Cyber Mentor',
+    duration: '25:18',
+    thumbnail: 'https://img.youtube.com/vi/2O4ZdTGkBtI/maxresdefault.jpg',
+    category: 'OWASP Top 10',
+    difficulty: 'intermediate',
+    views: 156000,
+    uploadDate: '2023-09-10',
+    videoUrl: 'https://www.youtube.com/watch?v=2O4ZdTGkBtI'
+  },
+  {
+    id: '4',
+    title: 'Cryptography Explained - Hash Functions',
+    description: 'Understanding cryptographic failures and secure implementation practices.',
+    instructor: 'Computerphile',
+    duration: '14:27',
+    thumbnail: 'https://img.youtube.com/vi/b4b8ktEV4Bg/maxresdefault.jpg',
+    category: 'Cryptography',
+    difficulty: 'advanced',
+    views: 234000,
+    uploadDate: '2023-06-18',
+    videoUrl: 'https://www.youtube.com/watch?v=b4b8ktEV4Bg'
+  },
+  {
+    id: '5',
+    title: 'Security Misconfigurations - Common Mistakes',
+    description: 'Identifying and preventing common security misconfigurations in applications.',
+    instructor: 'OWASP Foundation',
+    duration: '16:42',
+    thumbnail: 'https://img.youtube.com/vi/rloqMGcPMkI/maxresdefault.jpg',
+    category: 'OWASP Top 10',
+    difficulty: 'beginner',
+    views: 78000,
+    uploadDate: '2023-05-30',
+    videoUrl: 'https://www.youtube.com/watch?v=rloqMGcPMkI'
+  },
+  {
+    id: '6',
+    title: 'Penetration Testing Full Course',
+    description: 'Complete penetration testing methodology and practical demonstrations.',
+    instructor: 'NetworkChuck',
+    duration: '45:23',
+    thumbnail: 'https://img.youtube.com/vi/3Kq1MIfTWCE/maxresdefault.jpg',
+    category: 'Penetration Testing',
+    difficulty: 'advanced',
+    views: 567000,
+    uploadDate: '2023-04-12',
+    videoUrl: 'https://www.youtube.com/watch?v=3Kq1MIfTWCE'
+  },
+  {
+    id: '7',
+    title: 'Burp Suite Tutorial for Beginners',
+    description: 'Complete guide to using Burp Suite for web application security testing.',
+    instructor: 'InsiderPhD',
+    duration: '28:15',
+    thumbnail: 'https://img.youtube.com/vi/G3hpAeoZ4ek/maxresdefault.jpg',
+    category: 'Tools',
+    difficulty: 'beginner',
+    views: 189000,
+    uploadDate: '2023-03-25',
+    videoUrl: 'https://www.youtube.com/watch?v=G3hpAeoZ4ek'
+  },
+  {
+    id: '8',
+    title: 'CSRF Attacks Explained',
+    description: 'Understanding Cross-Site Request Forgery attacks and prevention methods.',
+    instructor: 'LiveOverflow',
+    duration: '19:08',
+    thumbnail: 'https://img.youtube.com/vi/vRBihr41JTo/maxresdefault.jpg',
+    category: 'OWASP Top 10',
+    difficulty: 'intermediate',
+    views: 145000,
+    uploadDate: '2023-02-14',
+    videoUrl: 'https://www.youtube.com/watch?v=vRBihr41JTo'
+  },
+  {
+    id: '9',
+    title: 'Ethical Hacking Full Course',
+    description: 'Complete ethical hacking course covering all major security concepts.',
+    instructor: 'freeCodeCamp.org',
+    duration: '15:32:18',
+    thumbnail: 'https://img.youtube.com/vi/fNzpcB7ODxQ/maxresdefault.jpg',
+    category: 'Ethical Hacking',
+    difficulty: 'advanced',
+    views: 1200000,
+    uploadDate: '2023-01-20',
+    videoUrl: 'https://www.youtube.com/watch?v=fNzpcB7ODxQ'
+  },
+  {
+    id: '10',
+    title: 'Web Application Security Testing',
+    description: 'Practical guide to testing web applications for security vulnerabilities.',
+    instructor: 'Null Byte',
+    duration: '22:47',
+    thumbnail: 'https://img.youtube.com/vi/2_lswM1S264/maxresdefault.jpg',
+    category: 'Web Security',
+    difficulty: 'intermediate',
+    views: 98000,
+    uploadDate: '2023-11-08',
+    videoUrl: 'https://www.youtube.com/watch?v=2_lswM1S264'
+  }
+];
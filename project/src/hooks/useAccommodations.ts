@@ -0,0 +1,47 @@
+import { useCallback, useEffect, useState } from 'react';
+import { useAuth } from '../context/AuthContext';
+import { accessibilityService, DEFAULT_ACCESSIBILITY_SETTINGS } from '../services/accessibilityService';
+import type { AccessibilitySettings } from '../types';
+
+const REDUCED_MOTION_QUERY = '(prefers-reduced-motion: reduce)';
+
+// The signed-in user's quiz accommodations. Reduced motion is also on when the OS asks for it.
+export const useAccommodations = () => {
+  const { user } = useAuth();
+  const [settings, setSettings] = useState<AccessibilitySettings | null>(null);
+  const [systemReducedMotion, setSystemReducedMotion] = useState(() => window.matchMedia(REDUCED_MOTION_QUERY).matches);
+
+  useEffect(() => {
+    if (!user) return;
+    let cancelled = false;
+    accessibilityService
+      .getSettings(user.id)
+      .catch(() => DEFAULT_ACCESSIBILITY_SETTINGS)
+      .then(loaded => {
+        if (!cancelled) setSettings(loaded);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [user]);
+
+  useEffect(() => {
+    const query = window.matchMedia(REDUCED_MOTION_QUERY);
+    const onChange = (event: MediaQueryListEvent) => setSystemReducedMotion(event.matches);
+    query.addEventListener('change', onChange);
+    return () => query.removeEventListener('change', onChange);
+  }, []);
+
+  const extraTimePercent = settings?.extra_time_percent ?? 0;
+  const scaleTime = useCallback(
+    (seconds: number) => Math.round(seconds * (1 + extraTimePercent / 100)),
+    [extraTimePercent]
+  );
+
+  return {
+    loaded: settings !== null || !user,
+    extraTimePercent,
+    reducedMotion: systemReducedMotion || Boolean(settings?.reduced_motion),
+    scaleTime
+  };
+};
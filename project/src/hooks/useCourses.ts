@@ -0,0 +1,67 @@
+import { useCallback, useEffect, useState } from 'react';
+import { useAuth } from '../context/AuthContext';
+import { courseRepository } from '../services/courseRepository';
+import type { Course } from '../types';
+
+// Published courses with the signed-in learner's progress
+export const useCourses = () => {
+  const { user } = useAuth();
+  const [courses, setCourses] = useState<Course[] | null>(null);
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    if (!user) return;
+    let cancelled = false;
+    courseRepository
+      .listCourses(user.id)
+      .then(loaded => {
+        if (!cancelled) setCourses(loaded);
+      })
+      .catch(err => {
+        if (!cancelled) setError(err instanceof Error ? err.message : 'Failed to load courses');
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [user]);
+
+  return { courses: courses ?? [], loading: courses === null && !error, error };
+};
+
+// One course; `recordModuleResult` marks a module done locally once its test is passed
+export const useCourse = (courseId: string) => {
+  const { user } = useAuth();
+  const [course, setCourse] = useState<Course | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    if (!user) return;
+    let cancelled = false;
+    setLoading(true);
+    courseRepository
+      .getCourse(user.id, courseId)
+      .then(loaded => {
+        if (!cancelled) setCourse(loaded);
+      })
+      .catch(err => {
+        if (!cancelled) setError(err instanceof Error ? err.message : 'Failed to load course');
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [user, courseId]);
+
+  const recordModuleResult = useCallback(
+    async (moduleId: string, score: number) => {
+      if (!user) return;
+      setCourse(await courseRepository.recordModuleResult(user.id, courseId, moduleId, score));
+    },
+    [user, courseId]
+  );
+
+  return { course, loading, error, recordModuleResult };
+};
@@ -0,0 +1,14 @@
+import { useCallback } from 'react';
+import { useAuth } from '../context/AuthContext';
+import { hasPermission, type Permission } from '../lib/permissions';
+
+// Returns a `can(permission)` check for the signed-in user.
+export const usePermission = () => {
+  const { user } = useAuth();
+  const role = user?.role;
+  const superAdmin = user?.is_super_admin;
+  return useCallback(
+    (permission: Permission) => hasPermission({ role, is_super_admin: superAdmin }, permission),
+    [role, superAdmin]
+  );
+};
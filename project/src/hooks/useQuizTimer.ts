@@ -0,0 +1,38 @@
+import { useEffect, useRef, useState } from 'react';
+import { useAccommodations } from './useAccommodations';
+
+interface QuizTimerOptions {
+  running: boolean;
+  onExpire: () => void;
+}
+
+// Counts down from the base time lengthened by the learner's extra time.
+// The clock waits for the accommodations to load so the limit never changes mid-quiz.
+export const useQuizTimer = (baseSeconds: number, { running, onExpire }: QuizTimerOptions) => {
+  const { loaded, extraTimePercent, reducedMotion, scaleTime } = useAccommodations();
+  const totalSeconds = scaleTime(baseSeconds);
+  const [timeLeft, setTimeLeft] = useState<number | null>(null);
+  const onExpireRef = useRef(onExpire);
+  onExpireRef.current = onExpire;
+
+  useEffect(() => {
+    if (loaded && timeLeft === null) setTimeLeft(totalSeconds);
+  }, [loaded, timeLeft, totalSeconds]);
+
+  useEffect(() => {
+    if (!running || timeLeft === null) return;
+    if (timeLeft === 0) {
+      onExpireRef.current();
+      return;
+    }
+    const timer = setTimeout(() => setTimeLeft(timeLeft - 1), 1000);
+    return () => clearTimeout(timer);
+  }, [running, timeLeft]);
+
+  return {
+    timeLeft: timeLeft ?? totalSeconds,
+    totalSeconds,
+    extraTimePercent,
+    reducedMotion
+  };
+};
@@ -0,0 +1,98 @@
+import { en, type MessageKey } from './messages/en';
+import { es } from './messages/es';
+import type { Locale, Message, MessageParams, PluralMessage, Translations } from './types';
+
+export type { Locale, Message, MessageParams, Translations, MessageKey };
+
+export const DEFAULT_LOCALE: Locale = 'en';
+
+export const LOCALES: { code: Locale; label: string }[] = [
+  { code: 'en', label: 'English' },
+  { code: 'es', label: 'Español' }
+];
+
+const LOCALE_KEY = 'locale';
+
+// English is complete; other catalogs may leave keys out and fall back to it
+const CATALOGS: Record<Locale, Partial<Record<MessageKey, Message>>> = { en, es };
+
+export function isLocale(value: unknown): value is Locale {
+  return LOCALES.some(locale => locale.code === value);
+}
+
+// The saved choice wins, then the browser's preferred languages (matching "es-MX" to "es")
+export function detectLocale(): Locale {
+  const saved = localStorage.getItem(LOCALE_KEY);
+  if (isLocale(saved)) return saved;
+
+  for (const language of navigator.languages ?? [navigator.language]) {
+    const base = language.toLowerCase().split('-')[0];
+    if (isLocale(base)) return base;
+  }
+  return DEFAULT_LOCALE;
+}
+
+export function saveLocale(locale: Locale) {
+  localStorage.setItem(LOCALE_KEY, locale);
+}
+
+const pluralRules = new Map<Locale, Intl.PluralRules>();
+
+function pluralCategory(locale: Locale, count: number) {
+  if (!pluralRules.has(locale)) pluralRules.set(locale, new Intl.PluralRules(locale));
+  return pluralRules.get(locale)!.select(count);
+}
+
+// Looks up a message and fills in {placeholders}. Plural messages choose their form from params.count.
+export function translate(locale: Locale, key: MessageKey, params: MessageParams = {}) {
+  const message = CATALOGS[locale][key] ?? en[key];
+
+  let text: string;
+  if (typeof message === 'string') {
+    text = message;
+  } else {
+    const forms: PluralMessage = message;
+    text = forms[pluralCategory(locale, Number(params.count ?? 0))] ?? forms.other;
+  }
+
+  return text.replace(/\{(\w+)\}/g, (placeholder, name) => {
+    const value = params[name];
+    if (value === undefined) return placeholder;
+    return typeof value === 'number' ? formatNumber(locale, value) : value;
+  });
+}
+
+export function formatNumber(locale: Locale, value: number, options?: Intl.NumberFormatOptions) {
+  return new Intl.NumberFormat(locale, options).format(value);
+}
+
+export function formatDate(locale: Locale, value: Date | string | number, options: Intl.DateTimeFormatOptions = { dateStyle: 'medium' }) {
+  return new Intl.DateTimeFormat(locale, options).format(new Date(value));
+}
+
+// "2 hours ago", "in 3 days": picks the largest unit that fits
+export function formatRelativeTime(locale: Locale, value: Date | string | number) {
+  const seconds = Math.round((new Date(value).getTime() - Date.now()) / 1000);
+  const units: [Intl.RelativeTimeFormatUnit, number][] = [
+    ['year', 365 * 24 * 3600],
+    ['month', 30 * 24 * 3600],
+    ['week', 7 * 24 * 3600],
+    ['day', 24 * 3600],
+    ['hour', 3600],
+    ['minute', 60]
+  ];
+  const formatter = new Intl.RelativeTimeFormat(locale, { numeric: 'auto' });
+  for (const [unit, size] of units) {
+    if (Math.abs(seconds) >= size) return formatter.format(Math.round(seconds / size), unit);
+  }
+  return formatter.format(seconds, 'second');
+}
+
+// Overlays an item's translated fields for the locale onto the English original
+export function localize<T extends { translations?: Translations<object> }>(item: T, locale: Locale): T {
+  const translated = item.translations?.[locale];
+  if (!translated) return item;
+
+  const overrides = Object.fromEntries(Object.entries(translated).filter(([, value]) => value !== undefined && value !== ''));
+  return { ...item, ...overrides };
+}
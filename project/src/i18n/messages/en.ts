@@ -0,0 +1,157 @@
+import type { Message } from '../types';
+
+// The reference catalog: every key lives here, and other locales fall back to it
+export const en = {
+  // Shared
+  'common.completed': 'Completed',
+  'common.pending': 'Pending',
+  'common.progress': 'Progress',
+  'common.download': 'Download',
+  'common.previous': 'Previous',
+  'common.hours': { one: '{count} hour', other: '{count} hours' },
+  'level.beginner': 'Beginner',
+  'level.intermediate': 'Intermediate',
+  'level.advanced': 'Advanced',
+  'difficulty.easy': 'Easy',
+  'difficulty.medium': 'Medium',
+  'difficulty.hard': 'Hard',
+  'role.admin': 'Administrator',
+  'role.teacher': 'Teacher',
+  'role.student': 'Student',
+
+  // Header
+  'header.search': 'Search…',
+  'header.searchLabel': 'Search (Ctrl+K)',
+  'header.lightTheme': 'Light',
+  'header.darkTheme': 'Dark',
+  'header.assistant': 'AI Assistant',
+  'header.logout': 'Logout',
+  'header.language': 'Language',
+
+  // Sidebar
+  'nav.dashboard': 'Dashboard',
+  'nav.admin': 'Admin Console',
+  'nav.my-courses': 'My Courses',
+  'nav.create-course': 'Create Course',
+  'nav.students': 'My Students',
+  'nav.courses': 'Courses',
+  'nav.notes': 'Study Notes',
+  'nav.videos': 'Video Library',
+  'nav.assessment': 'Assessment Test',
+  'nav.labs': 'Labs',
+  'nav.technical': 'Jobs',
+  'nav.certificates': 'Certificates',
+  'nav.analytics': 'Analytics',
+  'nav.profile': 'Profile',
+  'sidebar.quickStats': 'Quick Stats',
+  'sidebar.courses': 'Courses',
+  'sidebar.myCourses': 'My Courses',
+  'sidebar.students': 'Students',
+  'sidebar.totalUsers': 'Total Users',
+  'sidebar.activeCourses': 'Active Courses',
+
+  // Dashboard
+  'dashboard.welcome': 'Welcome back, {name}!',
+  'dashboard.subtitle': 'Continue your cybersecurity learning journey',
+  'dashboard.level': 'Level: {level}',
+  'dashboard.coursesCompleted': 'Courses Completed',
+  'dashboard.assessmentScore': 'Assessment Score',
+  'dashboard.notTaken': 'Not Taken',
+  'dashboard.certificatesEarned': 'Certificates Earned',
+  'dashboard.studyTime': 'Study Time',
+  'dashboard.currentProgress': 'Current Progress',
+  'dashboard.owaspCourse': 'OWASP Top 10 Course',
+  'dashboard.modulesProgress': { one: '{done}/{count} module', other: '{done}/{count} modules' },
+  'dashboard.liveLabs': 'Live Security Labs',
+  'dashboard.labsProgress': '{done}/{count} completed',
+  'dashboard.skillAssessment': 'Skill Assessment',
+  'dashboard.recentActivity': 'Recent Activity',
+  'dashboard.activityCompletedLab': 'Completed Live Lab: {name}',
+  'dashboard.activityStartedLab': 'Started Live Lab: {name}',
+  'dashboard.activityPassedAssessment': 'Passed Assessment Test',
+  'dashboard.activityEarnedCertificate': 'Earned Certificate: {name}',
+  'dashboard.quickActions': 'Quick Actions',
+  'dashboard.takeAssessment': 'Take Assessment',
+  'dashboard.continueCourse': 'Continue Course',
+  'dashboard.viewProgress': 'View Progress',
+  'dashboard.liveSessions': 'Live Training Sessions',
+  'dashboard.liveStreamTitle': 'Live OWASP Top 10 Deep Dive',
+
+  // Certificates
+  'certificates.title': 'Certificates',
+  'certificates.subtitle': 'Earn industry-recognized certificates by completing courses and demonstrating your cybersecurity skills',
+  'certificates.yours': 'Your Certificates',
+  'certificates.earnedOn': 'Earned on {date}',
+  'certificates.available': 'Available Certificates',
+  'certificates.professionalLevel': 'Professional Level',
+  'certificates.estimatedHours': { one: '~{count} hour', other: '~{count} hours' },
+  'certificates.complete': 'Complete',
+  'certificates.requirements': 'Requirements',
+  'certificates.downloadCertificate': 'Download Certificate',
+  'certificates.continueLearning': 'Continue Learning',
+  'certificates.completeModules': { one: 'Complete its module', other: 'Complete all {count} modules' },
+  'certificates.noCourses': 'No courses with certificates have been published yet.',
+  'certificates.loadError': 'Could not load certificates: {error}',
+  'certificates.aboutTitle': 'About Our Certificates',
+  'certificates.about1': 'Industry-recognized certificates that validate your cybersecurity skills',
+  'certificates.about2': 'Digital certificates with verification codes for employer validation',
+  'certificates.about3': 'Continuing education credits for professional development',
+  'certificates.about4': 'LinkedIn integration to showcase your achievements',
+  'certificates.about5': 'Regular updates to match current industry standards',
+
+  // Timed quizzes
+  'quiz.timeRemaining': 'Time remaining: {time}',
+  'quiz.minutesLeft': { one: '{count} minute remaining', other: '{count} minutes remaining' },
+  'quiz.secondsLeft': { one: '{count} second remaining', other: '{count} seconds remaining' },
+  'quiz.timeUp': 'Time is up. Your answers are being submitted.',
+  'quiz.extraTime': '+{percent} time',
+  'quiz.progress': 'Quiz progress',
+
+  // Assessment test
+  'assessment.title': 'Cybersecurity Assessment',
+  'assessment.permissionTitle': 'Camera and Microphone Access Required',
+  'assessment.permissionIntro': 'To ensure the integrity of the assessment, we require access to your camera and microphone during the test. This helps us maintain a secure testing environment.',
+  'assessment.monitorTitle': 'What we monitor:',
+  'assessment.monitorVideo': 'Your video feed to ensure you remain present during the assessment',
+  'assessment.monitorAudio': 'Audio monitoring to maintain test security',
+  'assessment.privacyLabel': 'Privacy Notice:',
+  'assessment.privacyNotice': 'Your video and audio are monitored in real-time but are not recorded or stored. This monitoring is solely for maintaining assessment integrity.',
+  'assessment.requestingAccess': 'Requesting Access...',
+  'assessment.grantAccess': 'Grant Camera & Microphone Access',
+  'assessment.errorAttempt': 'Could not start assessment attempt. Please retry.',
+  'assessment.errorDenied': 'Camera and microphone access denied. Please allow access to continue with the assessment.',
+  'assessment.errorNotFound': 'No camera or microphone found. Please ensure your devices are connected.',
+  'assessment.errorMedia': 'Failed to access camera and microphone. Please check your device settings.',
+  'assessment.alreadyCompleted': 'Assessment Already Completed',
+  'assessment.alreadyCompletedBody': 'You have already completed the assessment test. Your current level is:',
+  'assessment.viewResults': 'View Results',
+  'assessment.complete': 'Assessment Complete!',
+  'assessment.yourLevel': 'Your cybersecurity level:',
+  'assessment.correctAnswers': 'Correct Answers',
+  'assessment.incorrectAnswers': 'Incorrect Answers',
+  'assessment.totalQuestions': 'Total Questions',
+  'assessment.nextTitle': "What's Next?",
+  'assessment.nextBody': "Based on your performance, we've unlocked the appropriate OWASP Top 10 course for your level. Start learning with hands-on labs and practical exercises!",
+  'assessment.submitFailed': 'Submission failed.',
+  'assessment.finalizing': 'Finalizing…',
+  'assessment.continueToDashboard': 'Continue to Dashboard',
+  'assessment.detailedResults': 'Detailed Results',
+  'assessment.yourAnswer': 'Your answer:',
+  'assessment.correctAnswer': 'Correct answer:',
+  'assessment.videoMonitoring': 'Video Monitoring',
+  'assessment.live': 'LIVE',
+  'assessment.proctoringNotice': 'Your camera and microphone are active for proctoring purposes. Please remain visible throughout the assessment.',
+  'assessment.questionProgress': 'Question {current} of {count}',
+  'assessment.confidenceQuestion': 'How confident are you about this answer?',
+  'assessment.notConfident': 'Not Confident',
+  'assessment.veryConfident': 'Very Confident',
+  'assessment.confidence1': 'Very Low',
+  'assessment.confidence2': 'Low',
+  'assessment.confidence3': 'Medium',
+  'assessment.confidence4': 'High',
+  'assessment.confidence5': 'Very High',
+  'assessment.submit': 'Submit Test',
+  'assessment.nextQuestion': 'Next Question'
+} satisfies Record<string, Message>;
+
+export type MessageKey = keyof typeof en;
@@ -0,0 +1,155 @@
+import type { Message } from '../types';
+import type { MessageKey } from './en';
+
+export const es: Partial<Record<MessageKey, Message>> = {
+  // Shared
+  'common.completed': 'Completado',
+  'common.pending': 'Pendiente',
+  'common.progress': 'Progreso',
+  'common.download': 'Descargar',
+  'common.previous': 'Anterior',
+  'common.hours': { one: '{count} hora', other: '{count} horas' },
+  'level.beginner': 'Principiante',
+  'level.intermediate': 'Intermedio',
+  'level.advanced': 'Avanzado',
+  'difficulty.easy': 'Fácil',
+  'difficulty.medium': 'Media',
+  'difficulty.hard': 'Difícil',
+  'role.admin': 'Administrador',
+  'role.teacher': 'Docente',
+  'role.student': 'Estudiante',
+
+  // Header
+  'header.search': 'Buscar…',
+  'header.searchLabel': 'Buscar (Ctrl+K)',
+  'header.lightTheme': 'Claro',
+  'header.darkTheme': 'Oscuro',
+  'header.assistant': 'Asistente IA',
+  'header.logout': 'Cerrar sesión',
+  'header.language': 'Idioma',
+
+  // Sidebar
+  'nav.dashboard': 'Inicio',
+  'nav.admin': 'Consola de administración',
+  'nav.my-courses': 'Mis cursos',
+  'nav.create-course': 'Crear curso',
+  'nav.students': 'Mis estudiantes',
+  'nav.courses': 'Cursos',
+  'nav.notes': 'Apuntes',
+  'nav.videos': 'Videoteca',
+  'nav.assessment': 'Evaluación',
+  'nav.labs': 'Laboratorios',
+  'nav.technical': 'Empleos',
+  'nav.certificates': 'Certificados',
+  'nav.analytics': 'Analíticas',
+  'nav.profile': 'Perfil',
+  'sidebar.quickStats': 'Resumen',
+  'sidebar.courses': 'Cursos',
+  'sidebar.myCourses': 'Mis cursos',
+  'sidebar.students': 'Estudiantes',
+  'sidebar.totalUsers': 'Usuarios',
+  'sidebar.activeCourses': 'Cursos activos',
+
+  // Dashboard
+  'dashboard.welcome': '¡Hola de nuevo, {name}!',
+  'dashboard.subtitle': 'Continúa tu formación en ciberseguridad',
+  'dashboard.level': 'Nivel: {level}',
+  'dashboard.coursesCompleted': 'Cursos completados',
+  'dashboard.assessmentScore': 'Puntuación de la evaluación',
+  'dashboard.notTaken': 'Sin realizar',
+  'dashboard.certificatesEarned': 'Certificados obtenidos',
+  'dashboard.studyTime': 'Tiempo de estudio',
+  'dashboard.currentProgress': 'Progreso actual',
+  'dashboard.owaspCourse': 'Curso OWASP Top 10',
+  'dashboard.modulesProgress': { one: '{done}/{count} módulo', other: '{done}/{count} módulos' },
+  'dashboard.liveLabs': 'Laboratorios en vivo',
+  'dashboard.labsProgress': '{done}/{count} completados',
+  'dashboard.skillAssessment': 'Evaluación de habilidades',
+  'dashboard.recentActivity': 'Actividad reciente',
+  'dashboard.activityCompletedLab': 'Laboratorio completado: {name}',
+  'dashboard.activityStartedLab': 'Laboratorio iniciado: {name}',
+  'dashboard.activityPassedAssessment': 'Evaluación superada',
+  'dashboard.activityEarnedCertificate': 'Certificado obtenido: {name}',
+  'dashboard.quickActions': 'Acciones rápidas',
+  'dashboard.takeAssessment': 'Hacer la evaluación',
+  'dashboard.continueCourse': 'Continuar el curso',
+  'dashboard.viewProgress': 'Ver progreso',
+  'dashboard.liveSessions': 'Sesiones de formación en vivo',
+  'dashboard.liveStreamTitle': 'OWASP Top 10 en profundidad, en vivo',
+
+  // Certificates
+  'certificates.title': 'Certificados',
+  'certificates.subtitle': 'Obtén certificados reconocidos por la industria completando cursos y demostrando tus habilidades en ciberseguridad',
+  'certificates.yours': 'Tus certificados',
+  'certificates.earnedOn': 'Obtenido el {date}',
+  'certificates.available': 'Certificados disponibles',
+  'certificates.professionalLevel': 'Nivel profesional',
+  'certificates.estimatedHours': { one: '~{count} hora', other: '~{count} horas' },
+  'certificates.complete': 'Completado',
+  'certificates.requirements': 'Requisitos',
+  'certificates.downloadCertificate': 'Descargar certificado',
+  'certificates.continueLearning': 'Seguir aprendiendo',
+  'certificates.completeModules': { one: 'Completar su módulo', other: 'Completar los {count} módulos' },
+  'certificates.noCourses': 'Todavía no se ha publicado ningún curso con certificado.',
+  'certificates.loadError': 'No se pudieron cargar los certificados: {error}',
+  'certificates.aboutTitle': 'Sobre nuestros certificados',
+  'certificates.about1': 'Certificados reconocidos por la industria que validan tus habilidades en ciberseguridad',
+  'certificates.about2': 'Certificados digitales con códigos de verificación para las empresas',
+  'certificates.about3': 'Créditos de formación continua para tu desarrollo profesional',
+  'certificates.about4': 'Integración con LinkedIn para mostrar tus logros',
+  'certificates.about5': 'Actualizaciones periódicas según los estándares actuales del sector',
+
+  // Timed quizzes
+  'quiz.timeRemaining': 'Tiempo restante: {time}',
+  'quiz.minutesLeft': { one: 'Queda {count} minuto', other: 'Quedan {count} minutos' },
+  'quiz.secondsLeft': { one: 'Queda {count} segundo', other: 'Quedan {count} segundos' },
+  'quiz.timeUp': 'Se acabó el tiempo. Se están enviando tus respuestas.',
+  'quiz.extraTime': '+{percent} de tiempo',
+  'quiz.progress': 'Progreso del cuestionario',
+
+  // Assessment test
+  'assessment.title': 'Evaluación de ciberseguridad',
+  'assessment.permissionTitle': 'Se necesita acceso a la cámara y al micrófono',
+  'assessment.permissionIntro': 'Para garantizar la integridad de la evaluación, necesitamos acceder a tu cámara y micrófono durante la prueba. Así mantenemos un entorno de evaluación seguro.',
+  'assessment.monitorTitle': 'Qué supervisamos:',
+  'assessment.monitorVideo': 'Tu vídeo, para comprobar que sigues presente durante la evaluación',
+  'assessment.monitorAudio': 'El audio, para mantener la seguridad de la prueba',
+  'assessment.privacyLabel': 'Aviso de privacidad:',
+  'assessment.privacyNotice': 'Tu vídeo y audio se supervisan en tiempo real, pero no se graban ni se guardan. Esta supervisión solo sirve para mantener la integridad de la evaluación.',
+  'assessment.requestingAccess': 'Solicitando acceso...',
+  'assessment.grantAccess': 'Permitir cámara y micrófono',
+  'assessment.errorAttempt': 'No se pudo iniciar la evaluación. Inténtalo de nuevo.',
+  'assessment.errorDenied': 'Se denegó el acceso a la cámara y al micrófono. Permite el acceso para continuar con la evaluación.',
+  'assessment.errorNotFound': 'No se encontró cámara ni micrófono. Comprueba que tus dispositivos estén conectados.',
+  'assessment.errorMedia': 'No se pudo acceder a la cámara y al micrófono. Revisa la configuración de tu dispositivo.',
+  'assessment.alreadyCompleted': 'Evaluación ya completada',
+  'assessment.alreadyCompletedBody': 'Ya has completado la evaluación. Tu nivel actual es:',
+  'assessment.viewResults': 'Ver resultados',
+  'assessment.complete': '¡Evaluación completada!',
+  'assessment.yourLevel': 'Tu nivel de ciberseguridad:',
+  'assessment.correctAnswers': 'Respuestas correctas',
+  'assessment.incorrectAnswers': 'Respuestas incorrectas',
+  'assessment.totalQuestions': 'Total de preguntas',
+  'assessment.nextTitle': '¿Y ahora qué?',
+  'assessment.nextBody': 'Según tus resultados, hemos desbloqueado el curso OWASP Top 10 adecuado para tu nivel. ¡Empieza a aprender con laboratorios y ejercicios prácticos!',
+  'assessment.submitFailed': 'No se pudo enviar.',
+  'assessment.finalizing': 'Finalizando…',
+  'assessment.continueToDashboard': 'Ir al inicio',
+  'assessment.detailedResults': 'Resultados detallados',
+  'assessment.yourAnswer': 'Tu respuesta:',
+  'assessment.correctAnswer': 'Respuesta correcta:',
+  'assessment.videoMonitoring': 'Supervisión por vídeo',
+  'assessment.live': 'EN VIVO',
+  'assessment.proctoringNotice': 'Tu cámara y micrófono están activos para la supervisión. Mantente visible durante toda la evaluación.',
+  'assessment.questionProgress': 'Pregunta {current} de {count}',
+  'assessment.confidenceQuestion': '¿Qué seguridad tienes en esta respuesta?',
+  'assessment.notConfident': 'Poca seguridad',
+  'assessment.veryConfident': 'Mucha seguridad',
+  'assessment.confidence1': 'Muy baja',
+  'assessment.confidence2': 'Baja',
+  'assessment.confidence3': 'Media',
+  'assessment.confidence4': 'Alta',
+  'assessment.confidence5': 'Muy alta',
+  'assessment.submit': 'Enviar evaluación',
+  'assessment.nextQuestion': 'Siguiente pregunta'
+};
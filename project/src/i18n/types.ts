@@ -0,0 +1,11 @@
+export type Locale = 'en' | 'es';
+
+// Plural forms are picked with Intl.PluralRules; `other` is required because every language has it
+export type PluralMessage = Partial<Record<Intl.LDMLPluralRule, string>> & { other: string };
+
+export type Message = string | PluralMessage;
+
+export type MessageParams = Record<string, string | number>;
+
+// Per-locale overrides for translatable fields of a content item; missing fields fall back to English
+export type Translations<T> = Partial<Record<Locale, Partial<T>>>;
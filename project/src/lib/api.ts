@@ -0,0 +1,53 @@
+// Thin client for the Express API in server.mjs (auth and other server-side endpoints).
+
+const API_URL = (import.meta.env.VITE_API_URL || 'http://localhost:5174').trim().replace(/\/$/, '');
+
+export class ApiError extends Error {
+  status: number;
+
+  constructor(message: string, status: number) {
+    super(message);
+    this.name = 'ApiError';
+    this.status = status;
+  }
+}
+
+interface ApiRequestOptions {
+  method?: 'GET' | 'POST' | 'PUT' | 'PATCH' | 'DELETE';
+  body?: unknown;
+  token?: string | null;
+  // 'blob' for file downloads
+  responseType?: 'json' | 'blob';
+}
+
+// Absolute URL of an API endpoint, for full-page navigations such as the SSO redirect
+export function apiUrl(path: string) {
+  return `${API_URL}${path}`;
+}
+
+export async function apiRequest<T>(path: string, { method = 'GET', body, token, responseType = 'json' }: ApiRequestOptions = {}): Promise<T> {
+  let resp: Response;
+  try {
+    resp = await fetch(apiUrl(path), {
+      method,
+      headers: {
+        ...(body !== undefined ? { 'Content-Type': 'application/json' } : {}),
+        ...(token ? { Authorization: `Bearer ${token}` } : {})
+      },
+      body: body !== undefined ? JSON.stringify(body) : undefined
+    });
+  } catch (err) {
+    const hint = 'Make sure the API server is running (npm run proxy) and VITE_API_URL is correct.';
+    throw new ApiError(`Unable to reach the API server: ${err instanceof Error ? err.message : err}. ${hint}`, 0);
+  }
+
+  if (resp.ok && responseType === 'blob') {
+    return (await resp.blob()) as T;
+  }
+
+  const data = await resp.json().catch(() => ({}));
+  if (!resp.ok) {
+    throw new ApiError(data?.error || `Request failed with status ${resp.status}`, resp.status);
+  }
+  return data as T;
+}
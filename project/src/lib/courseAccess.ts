@@ -0,0 +1,24 @@
+import type { User } from '../types';
+
+// How far into a course each assessed level may go; the rest of the modules stay locked
+export function allowedModuleCount(level?: User['level']): number {
+  switch (level) {
+    case 'beginner':
+      return 3; // first 3 modules
+    case 'intermediate':
+      return 7; // first 7 modules
+    case 'advanced':
+      return Number.POSITIVE_INFINITY; // all modules
+    default:
+      return 0;
+  }
+}
+
+// Courses open up once the placement assessment is done
+export function canOpenCourses(user: Pick<User, 'completedAssessment'> | null | undefined, unlockAll: boolean) {
+  return Boolean(user?.completedAssessment) || unlockAll;
+}
+
+export function canOpenModule(user: Pick<User, 'level'> | null | undefined, moduleIndex: number, unlockAll: boolean) {
+  return unlockAll || moduleIndex < allowedModuleCount(user?.level);
+}
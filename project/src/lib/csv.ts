@@ -0,0 +1,26 @@
+import { downloadBlob } from './download';
+
+// CSV export helpers for admin reports.
+
+export interface CsvColumn<T> {
+  header: string;
+  value: (row: T) => unknown;
+}
+
+function escapeCell(value: unknown) {
+  if (value === null || value === undefined) return '';
+  let text = typeof value === 'object' ? JSON.stringify(value) : String(value);
+  // Keep spreadsheet apps from evaluating cells as formulas
+  if (/^[=+\-@\t\r]/.test(text)) text = `'${text}`;
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+export function toCsv<T>(rows: T[], columns: CsvColumn<T>[]) {
+  const lines = [columns.map(column => escapeCell(column.header)).join(',')];
+  rows.forEach(row => lines.push(columns.map(column => escapeCell(column.value(row))).join(',')));
+  return lines.join('\r\n');
+}
+
+export function downloadCsv(filename: string, csv: string) {
+  downloadBlob(filename, new Blob([csv], { type: 'text/csv;charset=utf-8' }));
+}
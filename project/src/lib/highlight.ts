@@ -0,0 +1,135 @@
+// A small tokenizer for the languages module code samples use. It only
+// classifies text; rendering (and escaping) is left to React.
+
+export type CodeTokenType = 'plain' | 'comment' | 'string' | 'number' | 'keyword' | 'tag';
+
+export interface CodeToken {
+  type: CodeTokenType;
+  text: string;
+}
+
+interface LanguageDefinition {
+  keywords: string[];
+  lineComment?: string;
+  blockComment?: [string, string];
+  caseInsensitive?: boolean;
+}
+
+const LANGUAGES: Record<string, LanguageDefinition> = {
+  javascript: {
+    keywords: ['async', 'await', 'break', 'case', 'catch', 'class', 'const', 'continue', 'default', 'delete', 'do', 'else', 'export', 'extends', 'false', 'finally', 'for', 'from', 'function', 'if', 'import', 'in', 'instanceof', 'interface', 'let', 'new', 'null', 'of', 'return', 'super', 'switch', 'this', 'throw', 'true', 'try', 'type', 'typeof', 'undefined', 'var', 'void', 'while', 'yield'],
+    lineComment: '//',
+    blockComment: ['/*', '*/']
+  },
+  python: {
+    keywords: ['and', 'as', 'assert', 'async', 'await', 'break', 'class', 'continue', 'def', 'del', 'elif', 'else', 'except', 'False', 'finally', 'for', 'from', 'global', 'if', 'import', 'in', 'is', 'lambda', 'None', 'not', 'or', 'pass', 'raise', 'return', 'True', 'try', 'while', 'with', 'yield'],
+    lineComment: '#'
+  },
+  sql: {
+    keywords: ['and', 'as', 'by', 'create', 'delete', 'drop', 'from', 'grant', 'group', 'having', 'insert', 'into', 'join', 'left', 'like', 'limit', 'not', 'null', 'on', 'or', 'order', 'select', 'set', 'table', 'union', 'update', 'values', 'where'],
+    lineComment: '--',
+    blockComment: ['/*', '*/'],
+    caseInsensitive: true
+  },
+  bash: {
+    keywords: ['case', 'do', 'done', 'echo', 'elif', 'else', 'esac', 'export', 'fi', 'for', 'function', 'if', 'in', 'then', 'while', 'sudo', 'curl'],
+    lineComment: '#'
+  },
+  java: {
+    keywords: ['boolean', 'catch', 'class', 'extends', 'false', 'final', 'finally', 'for', 'if', 'implements', 'import', 'int', 'new', 'null', 'package', 'private', 'protected', 'public', 'return', 'static', 'String', 'this', 'throw', 'throws', 'true', 'try', 'void', 'while'],
+    lineComment: '//',
+    blockComment: ['/*', '*/']
+  },
+  php: {
+    keywords: ['array', 'as', 'echo', 'else', 'false', 'foreach', 'function', 'if', 'isset', 'new', 'null', 'return', 'true'],
+    lineComment: '//',
+    blockComment: ['/*', '*/']
+  }
+};
+
+const ALIASES: Record<string, string> = {
+  js: 'javascript',
+  jsx: 'javascript',
+  ts: 'javascript',
+  tsx: 'javascript',
+  typescript: 'javascript',
+  node: 'javascript',
+  json: 'javascript',
+  py: 'python',
+  sh: 'bash',
+  shell: 'bash',
+  zsh: 'bash'
+};
+
+const MARKUP = new Set(['html', 'xml', 'svg']);
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\/]/g, '\\$&');
+
+const compiled = new Map<string, RegExp>();
+
+function tokenPattern(name: string, language: LanguageDefinition) {
+  let pattern = compiled.get(name);
+  if (!pattern) {
+    const comments = [
+      language.lineComment && `${escapeRegExp(language.lineComment)}[^\\n]*`,
+      language.blockComment && `${escapeRegExp(language.blockComment[0])}[\\s\\S]*?(?:${escapeRegExp(language.blockComment[1])}|$)`
+    ].filter(Boolean);
+    pattern = new RegExp(
+      [
+        comments.length ? `(${comments.join('|')})` : '(?!)', // 1: comment
+        /("(?:\\.|[^"\\\n])*"|'(?:\\.|[^'\\\n])*'|`(?:\\.|[^`\\])*`)/.source, // 2: string
+        /(\b\d+(?:\.\d+)?\b)/.source, // 3: number
+        /([A-Za-z_$][\w$]*)/.source // 4: word
+      ].join('|'),
+      'g'
+    );
+    compiled.set(name, pattern);
+  }
+  pattern.lastIndex = 0;
+  return pattern;
+}
+
+function push(tokens: CodeToken[], type: CodeTokenType, text: string) {
+  if (!text) return;
+  const last = tokens[tokens.length - 1];
+  if (last?.type === type) last.text += text;
+  else tokens.push({ type, text });
+}
+
+function tokenizeMarkup(code: string): CodeToken[] {
+  const tokens: CodeToken[] = [];
+  let cursor = 0;
+  for (const match of code.matchAll(/<!--[\s\S]*?-->|<\/?[^>]*>/g)) {
+    push(tokens, 'plain', code.slice(cursor, match.index));
+    push(tokens, match[0].startsWith('<!--') ? 'comment' : 'tag', match[0]);
+    cursor = match.index! + match[0].length;
+  }
+  push(tokens, 'plain', code.slice(cursor));
+  return tokens;
+}
+
+export function tokenize(code: string, language: string): CodeToken[] {
+  const name = ALIASES[language] ?? language;
+  if (MARKUP.has(name)) return tokenizeMarkup(code);
+
+  const definition = LANGUAGES[name];
+  if (!definition) return [{ type: 'plain', text: code }];
+
+  const keywords = new Set(definition.caseInsensitive ? definition.keywords.map(k => k.toLowerCase()) : definition.keywords);
+  const tokens: CodeToken[] = [];
+  const pattern = tokenPattern(name, definition);
+  let cursor = 0;
+  let match: RegExpExecArray | null;
+
+  while ((match = pattern.exec(code))) {
+    push(tokens, 'plain', code.slice(cursor, match.index));
+    const [text, comment, string, number, word] = match;
+    if (comment) push(tokens, 'comment', text);
+    else if (string) push(tokens, 'string', text);
+    else if (number) push(tokens, 'number', text);
+    else if (word) push(tokens, keywords.has(definition.caseInsensitive ? word.toLowerCase() : word) ? 'keyword' : 'plain', text);
+    cursor = match.index + text.length;
+  }
+  push(tokens, 'plain', code.slice(cursor));
+  return tokens;
+}
@@ -0,0 +1,105 @@
+import { describe, expect, it } from 'vitest';
+import { extractHeadings, parseInline, parseMarkdown, safeUrl, slugify } from './markdown';
+
+describe('safeUrl', () => {
+  it('keeps web, mail and relative links', () => {
+    expect(safeUrl('https://owasp.org')).toBe('https://owasp.org');
+    expect(safeUrl(' mailto:security@example.com ')).toBe('mailto:security@example.com');
+    expect(safeUrl('/labs/sql-injection')).toBe('/labs/sql-injection');
+  });
+
+  it('drops script and data links, however they are disguised', () => {
+    expect(safeUrl('javascript:alert(1)')).toBeNull();
+    expect(safeUrl('JavaScript:alert(1)')).toBeNull();
+    expect(safeUrl('java\tscript:alert(1)')).toBeNull();
+    expect(safeUrl('data:text/html,<script>alert(1)</script>')).toBeNull();
+  });
+});
+
+describe('slugify', () => {
+  it('makes anchors from heading text', () => {
+    expect(slugify('A01: Broken Access Control')).toBe('a01-broken-access-control');
+    expect(slugify('Café résumé')).toBe('cafe-resume');
+    expect(slugify('***')).toBe('section');
+  });
+});
+
+describe('parseInline', () => {
+  it('parses code, emphasis and links', () => {
+    expect(parseInline('Use `SELECT *` **carefully**, see [docs](https://owasp.org)')).toEqual([
+      { type: 'text', text: 'Use ' },
+      { type: 'code', text: 'SELECT *' },
+      { type: 'text', text: ' ' },
+      { type: 'strong', children: [{ type: 'text', text: 'carefully' }] },
+      { type: 'text', text: ', see ' },
+      { type: 'link', href: 'https://owasp.org', children: [{ type: 'text', text: 'docs' }] }
+    ]);
+  });
+
+  it('keeps raw HTML as text', () => {
+    expect(parseInline('<img src=x onerror=alert(1)>')).toEqual([{ type: 'text', text: '<img src=x onerror=alert(1)>' }]);
+  });
+
+  it('turns unsafe links into plain text', () => {
+    expect(parseInline('[click](javascript:alert(1))')).toEqual([{ type: 'text', text: 'click' }]);
+  });
+
+  it('leaves escaped characters alone', () => {
+    expect(parseInline('\\*not emphasis\\*')).toEqual([{ type: 'text', text: '*not emphasis*' }]);
+  });
+});
+
+describe('parseMarkdown', () => {
+  it('parses headings, lists, code and rules', () => {
+    const blocks = parseMarkdown('# Title\n\n- one\n- two\n\n```sql\nSELECT 1;\n```\n\n---\n\n3. three\n4. four');
+
+    expect(blocks.map(block => block.type)).toEqual(['heading', 'list', 'code', 'rule', 'list']);
+    expect(blocks[2]).toEqual({ type: 'code', language: 'sql', code: 'SELECT 1;' });
+    expect(blocks[4]).toMatchObject({ type: 'list', ordered: true, start: 3 });
+  });
+
+  it('gives repeated headings unique ids', () => {
+    const headings = extractHeadings(parseMarkdown('## Example\n\n## Example\n\n> [!tip] Hint\n> ## Example'));
+
+    expect(headings.map(heading => heading.id)).toEqual(['example', 'example-2', 'example-3']);
+  });
+
+  it('parses callouts and quotes', () => {
+    const [callout, quote] = parseMarkdown('> [!WARNING] Careful\n> Body text\n\n> Just a quote');
+
+    expect(callout).toMatchObject({ type: 'callout', kind: 'warning', title: 'Careful', blocks: [{ type: 'paragraph' }] });
+    expect(quote).toMatchObject({ type: 'quote', blocks: [{ type: 'paragraph' }] });
+  });
+
+  it('parses quiz and lab embeds', () => {
+    const blocks = parseMarkdown([
+      '::quiz',
+      'question: Which header blocks framing?',
+      '- [ ] Content-Type',
+      '- [x] X-Frame-Options',
+      'explanation: It tells browsers not to render the page in a frame.',
+      '::',
+      '',
+      '::lab xss-basics'
+    ].join('\n'));
+
+    expect(blocks).toEqual([
+      {
+        type: 'quiz',
+        quiz: {
+          question: 'Which header blocks framing?',
+          options: ['Content-Type', 'X-Frame-Options'],
+          answer: 1,
+          explanation: 'It tells browsers not to render the page in a frame.'
+        }
+      },
+      { type: 'lab', labId: 'xss-basics' }
+    ]);
+  });
+
+  it('reports quizzes without exactly one correct option', () => {
+    expect(parseMarkdown('::quiz\nquestion: Pick one\n- [x] A\n- [x] B\n::')).toEqual([
+      { type: 'embed-error', message: 'Quiz needs exactly one "- [x]" correct option' }
+    ]);
+  });
+});
@@ -0,0 +1,269 @@
+// Markdown for module content, parsed into a tree that React renders as
+// elements. Raw HTML is never interpreted, it stays text, so teacher-authored
+// content cannot inject markup or scripts.
+
+export type InlineNode =
+  | { type: 'text'; text: string }
+  | { type: 'code'; text: string }
+  | { type: 'strong'; children: InlineNode[] }
+  | { type: 'em'; children: InlineNode[] }
+  | { type: 'link'; href: string; children: InlineNode[] };
+
+export type CalloutKind = 'note' | 'tip' | 'warning' | 'danger';
+
+export interface QuizEmbed {
+  question: string;
+  options: string[];
+  answer: number;
+  explanation?: string;
+}
+
+export type MarkdownBlock =
+  | { type: 'heading'; level: number; id: string; text: string; children: InlineNode[] }
+  | { type: 'paragraph'; children: InlineNode[] }
+  | { type: 'list'; ordered: boolean; start: number; items: InlineNode[][] }
+  | { type: 'code'; language: string; code: string }
+  | { type: 'quote'; blocks: MarkdownBlock[] }
+  | { type: 'callout'; kind: CalloutKind; title: string; blocks: MarkdownBlock[] }
+  | { type: 'rule' }
+  | { type: 'quiz'; quiz: QuizEmbed }
+  | { type: 'lab'; labId: string }
+  | { type: 'embed-error'; message: string };
+
+export interface MarkdownHeading {
+  id: string;
+  level: number;
+  text: string;
+}
+
+const FENCE = /^\s*(```|~~~)\s*([\w+#-]*)\s*$/;
+const HEADING = /^(#{1,4})\s+(.+?)\s*#*\s*$/;
+const RULE = /^\s*([-*_])(\s*\1){2,}\s*$/;
+const QUOTE = /^\s*>\s?(.*)$/;
+const BULLET = /^\s*[-*+]\s+(.*)$/;
+const NUMBERED = /^\s*(\d+)[.)]\s+(.*)$/;
+const QUIZ_START = /^::quiz\s*$/;
+const EMBED_END = /^::\s*$/;
+const LAB = /^::lab\s+(\S+)\s*$/;
+const CALLOUT = /^\[!(note|tip|warning|danger)\]\s*(.*)$/i;
+
+const isBlockStart = (line: string) =>
+  FENCE.test(line) || HEADING.test(line) || RULE.test(line) || QUOTE.test(line) ||
+  BULLET.test(line) || NUMBERED.test(line) || QUIZ_START.test(line.trim()) || LAB.test(line.trim());
+
+// Only web and mail links survive; javascript:, data: and friends are dropped
+export function safeUrl(url: string): string | null {
+  const trimmed = url.trim();
+  // Browsers ignore control characters and whitespace in schemes, e.g. "java\tscript:"
+  if ([...trimmed].some(ch => ch.charCodeAt(0) <= 32 || ch.charCodeAt(0) === 127)) return null;
+  const scheme = /^([a-z][a-z0-9+.-]*):/i.exec(trimmed);
+  if (!scheme) return trimmed;
+  return ['http', 'https', 'mailto'].includes(scheme[1].toLowerCase()) ? trimmed : null;
+}
+
+export function slugify(text: string) {
+  return text
+    .toLowerCase()
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '') || 'section';
+}
+
+const INLINE = new RegExp(
+  [
+    /\\([\\`*_[\]()#+\-.!>])/.source, // 1: escaped character
+    /(`+)([^`]|[^`][\s\S]*?[^`])\2(?!`)/.source, // 2, 3: code span
+    /\*\*([\s\S]+?)\*\*/.source, // 4: strong
+    /(?<!\w)__([\s\S]+?)__(?!\w)/.source, // 5: strong
+    /\*(?!\s)([\s\S]+?)\*/.source, // 6: emphasis
+    /(?<!\w)_(?!\s)([\s\S]+?)_(?!\w)/.source, // 7: emphasis
+    /\[([^\]]+)\]\(((?:[^()\s]|\([^()\s]*\))+)\)/.source // 8, 9: link, allowing one level of parentheses in the URL
+  ].join('|')
+);
+
+export function parseInline(text: string): InlineNode[] {
+  const nodes: InlineNode[] = [];
+  const pushText = (value: string) => {
+    if (!value) return;
+    const last = nodes[nodes.length - 1];
+    if (last?.type === 'text') last.text += value;
+    else nodes.push({ type: 'text', text: value });
+  };
+
+  let rest = text;
+  while (rest) {
+    const match = INLINE.exec(rest);
+    if (!match) {
+      pushText(rest);
+      break;
+    }
+    pushText(rest.slice(0, match.index));
+    const [whole, escaped, , code, strong, strongAlt, em, emAlt, label, href] = match;
+
+    if (escaped !== undefined) {
+      pushText(escaped);
+    } else if (code !== undefined) {
+      nodes.push({ type: 'code', text: code.trim() || code });
+    } else if (strong !== undefined || strongAlt !== undefined) {
+      nodes.push({ type: 'strong', children: parseInline(strong ?? strongAlt) });
+    } else if (em !== undefined || emAlt !== undefined) {
+      nodes.push({ type: 'em', children: parseInline(em ?? emAlt) });
+    } else if (label !== undefined) {
+      const url = safeUrl(href);
+      if (url) nodes.push({ type: 'link', href: url, children: parseInline(label) });
+      else pushText(label);
+    }
+    rest = rest.slice(match.index + whole.length);
+  }
+  return nodes;
+}
+
+export function inlineText(nodes: InlineNode[]): string {
+  return nodes.map(node => ('children' in node ? inlineText(node.children) : node.text)).join('');
+}
+
+function parseQuiz(lines: string[]): MarkdownBlock {
+  let question = '';
+  let explanation: string | undefined;
+  const options: string[] = [];
+  const correct: number[] = [];
+
+  for (const line of lines) {
+    const field = /^\s*(question|explanation):\s*(.+)$/i.exec(line);
+    const option = /^\s*[-*]\s+\[([ xX])\]\s+(.+)$/.exec(line);
+    if (field && field[1].toLowerCase() === 'question') question = field[2].trim();
+    else if (field) explanation = field[2].trim();
+    else if (option) {
+      if (option[1] !== ' ') correct.push(options.length);
+      options.push(option[2].trim());
+    }
+  }
+
+  if (!question) return { type: 'embed-error', message: 'Quiz is missing a "question:" line' };
+  if (options.length < 2) return { type: 'embed-error', message: 'Quiz needs at least two "- [ ]" options' };
+  if (correct.length !== 1) return { type: 'embed-error', message: 'Quiz needs exactly one "- [x]" correct option' };
+  return { type: 'quiz', quiz: { question, options, answer: correct[0], explanation } };
+}
+
+function parseBlocks(lines: string[], slugs: Map<string, number>): MarkdownBlock[] {
+  const blocks: MarkdownBlock[] = [];
+  let i = 0;
+
+  while (i < lines.length) {
+    const line = lines[i];
+
+    if (!line.trim()) {
+      i++;
+      continue;
+    }
+
+    const fence = FENCE.exec(line);
+    if (fence) {
+      const code: string[] = [];
+      i++;
+      while (i < lines.length && !lines[i].trim().startsWith(fence[1])) code.push(lines[i++]);
+      i++;
+      blocks.push({ type: 'code', language: fence[2].toLowerCase(), code: code.join('\n') });
+      continue;
+    }
+
+    if (QUIZ_START.test(line.trim())) {
+      const body: string[] = [];
+      i++;
+      while (i < lines.length && !EMBED_END.test(lines[i].trim())) body.push(lines[i++]);
+      i++;
+      blocks.push(parseQuiz(body));
+      continue;
+    }
+
+    const lab = LAB.exec(line.trim());
+    if (lab) {
+      blocks.push({ type: 'lab', labId: lab[1] });
+      i++;
+      continue;
+    }
+
+    const heading = HEADING.exec(line);
+    if (heading) {
+      const children = parseInline(heading[2]);
+      const text = inlineText(children);
+      // Repeated headings get -2, -3... so every anchor stays unique
+      const base = slugify(text);
+      const count = (slugs.get(base) ?? 0) + 1;
+      slugs.set(base, count);
+      blocks.push({ type: 'heading', level: heading[1].length, id: count > 1 ? `${base}-${count}` : base, text, children });
+      i++;
+      continue;
+    }
+
+    if (RULE.test(line)) {
+      blocks.push({ type: 'rule' });
+      i++;
+      continue;
+    }
+
+    if (QUOTE.test(line)) {
+      const quoted: string[] = [];
+      while (i < lines.length && QUOTE.test(lines[i])) quoted.push(QUOTE.exec(lines[i++])![1]);
+      const callout = CALLOUT.exec(quoted[0].trim());
+      if (callout) {
+        blocks.push({
+          type: 'callout',
+          kind: callout[1].toLowerCase() as CalloutKind,
+          title: callout[2],
+          blocks: parseBlocks(quoted.slice(1), slugs)
+        });
+      } else {
+        blocks.push({ type: 'quote', blocks: parseBlocks(quoted, slugs) });
+      }
+      continue;
+    }
+
+    const listItem = BULLET.exec(line) || NUMBERED.exec(line);
+    if (listItem) {
+      const ordered = NUMBERED.test(line);
+      const items: string[] = [];
+      while (i < lines.length) {
+        const item = ordered ? NUMBERED.exec(lines[i]) : BULLET.exec(lines[i]);
+        if (item) {
+          items.push(item[item.length - 1]);
+        } else if (lines[i].trim() && /^\s+/.test(lines[i]) && !isBlockStart(lines[i])) {
+          // Indented lines continue the previous item
+          items[items.length - 1] += ` ${lines[i].trim()}`;
+        } else {
+          break;
+        }
+        i++;
+      }
+      blocks.push({
+        type: 'list',
+        ordered,
+        start: ordered ? parseInt(NUMBERED.exec(line)![1], 10) : 1,
+        items: items.map(item => parseInline(item))
+      });
+      continue;
+    }
+
+    const paragraph: string[] = [];
+    while (i < lines.length && lines[i].trim() && (paragraph.length === 0 || !isBlockStart(lines[i]))) {
+      paragraph.push(lines[i++].trim());
+    }
+    blocks.push({ type: 'paragraph', children: parseInline(paragraph.join(' ')) });
+  }
+
+  return blocks;
+}
+
+export function parseMarkdown(source: string): MarkdownBlock[] {
+  return parseBlocks(source.replace(/\r\n?/g, '\n').split('\n'), new Map());
+}
+
+// Headings in document order, callouts and quotes included, for a table of contents
+export function extractHeadings(blocks: MarkdownBlock[]): MarkdownHeading[] {
+  return blocks.flatMap(block => {
+    if (block.type === 'heading') return [{ id: block.id, level: block.level, text: block.text }];
+    if (block.type === 'quote' || block.type === 'callout') return extractHeadings(block.blocks);
+    return [];
+  });
+}
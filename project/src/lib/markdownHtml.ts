@@ -0,0 +1,88 @@
+// Renders parsed module markdown to an HTML string, for pages that run outside
+// the app (SCORM exports). Every piece of text is escaped, so the same content
+// guarantees as the React renderer hold.
+import { parseMarkdown, type InlineNode, type MarkdownBlock } from './markdown';
+import { tokenize } from './highlight';
+
+export interface MarkdownHtmlOptions {
+  // Resolves a `::lab <id>` embed to a link; unknown labs render as a notice
+  labLink?: (labId: string) => { title: string; href: string } | null;
+}
+
+const CALLOUT_LABELS = { note: 'Note', tip: 'Tip', warning: 'Warning', danger: 'Danger' };
+
+export function escapeHtml(text: string) {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
+
+const renderInline = (nodes: InlineNode[]): string =>
+  nodes
+    .map(node => {
+      switch (node.type) {
+        case 'text':
+          return escapeHtml(node.text);
+        case 'code':
+          return `<code>${escapeHtml(node.text)}</code>`;
+        case 'strong':
+          return `<strong>${renderInline(node.children)}</strong>`;
+        case 'em':
+          return `<em>${renderInline(node.children)}</em>`;
+        case 'link':
+          return `<a href="${escapeHtml(node.href)}" target="_blank" rel="noopener noreferrer">${renderInline(node.children)}</a>`;
+      }
+    })
+    .join('');
+
+const renderCode = (code: string, language: string) =>
+  tokenize(code, language)
+    .map(token => (token.type === 'plain' ? escapeHtml(token.text) : `<span class="tok-${token.type}">${escapeHtml(token.text)}</span>`))
+    .join('');
+
+const renderBlocks = (blocks: MarkdownBlock[], options: MarkdownHtmlOptions): string =>
+  blocks
+    .map(block => {
+      switch (block.type) {
+        case 'heading':
+          return `<h${block.level} id="${escapeHtml(block.id)}">${renderInline(block.children)}</h${block.level}>`;
+        case 'paragraph':
+          return `<p>${renderInline(block.children)}</p>`;
+        case 'list': {
+          const items = block.items.map(item => `<li>${renderInline(item)}</li>`).join('');
+          return block.ordered ? `<ol start="${block.start}">${items}</ol>` : `<ul>${items}</ul>`;
+        }
+        case 'code':
+          return `<pre class="code"><code>${renderCode(block.code, block.language)}</code></pre>`;
+        case 'quote':
+          return `<blockquote>${renderBlocks(block.blocks, options)}</blockquote>`;
+        case 'callout':
+          return `<aside class="callout callout-${block.kind}"><p class="callout-title">${escapeHtml(block.title || CALLOUT_LABELS[block.kind])}</p>${renderBlocks(block.blocks, options)}</aside>`;
+        case 'rule':
+          return '<hr>';
+        case 'quiz': {
+          const { question, options: answers, answer, explanation } = block.quiz;
+          return `<div class="practice"><p class="practice-question">${escapeHtml(question)}</p><ol type="A">${answers
+            .map(option => `<li>${escapeHtml(option)}</li>`)
+            .join('')}</ol><details><summary>Show answer</summary><p>${escapeHtml(answers[answer])}</p>${
+            explanation ? `<p>${escapeHtml(explanation)}</p>` : ''
+          }</details></div>`;
+        }
+        case 'lab': {
+          const lab = options.labLink?.(block.labId);
+          return lab
+            ? `<p class="lab"><a href="${escapeHtml(lab.href)}" target="_blank" rel="noopener noreferrer">Open lab: ${escapeHtml(lab.title)}</a></p>`
+            : `<p class="notice">Unknown lab "${escapeHtml(block.labId)}"</p>`;
+        }
+        case 'embed-error':
+          return `<p class="notice">${escapeHtml(block.message)}</p>`;
+      }
+    })
+    .join('\n');
+
+export function renderMarkdownHtml(source: string, options: MarkdownHtmlOptions = {}) {
+  return renderBlocks(parseMarkdown(source), options);
+}
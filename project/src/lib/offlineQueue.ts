@@ -0,0 +1,71 @@
+// IndexedDB-backed queue of writes made while offline. Entries keep their insertion order
+// (an auto-increment key) so they can be replayed in the order they happened.
+
+const DB_NAME = 'career-connect-offline';
+const DB_VERSION = 1;
+const STORE = 'writes';
+
+export type QueuedWriteKind = 'progress' | 'assessment_response' | 'assessment_result';
+
+export interface QueuedWrite {
+  id?: number;
+  kind: QueuedWriteKind;
+  userId: string;
+  payload: Record<string, unknown>;
+  queuedAt: string;
+  // Set once the server has rejected the write; it is kept for the user to see but not retried
+  failedAt?: string;
+  error?: string;
+}
+
+function promisify<T>(request: IDBRequest<T>) {
+  return new Promise<T>((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+class OfflineQueue {
+  private db: Promise<IDBDatabase> | null = null;
+
+  private open() {
+    if (!this.db) {
+      this.db = new Promise((resolve, reject) => {
+        const request = indexedDB.open(DB_NAME, DB_VERSION);
+        request.onupgradeneeded = () => {
+          request.result.createObjectStore(STORE, { keyPath: 'id', autoIncrement: true });
+        };
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+      });
+      this.db.catch(() => {
+        this.db = null;
+      });
+    }
+    return this.db;
+  }
+
+  private async store(mode: IDBTransactionMode) {
+    const db = await this.open();
+    return db.transaction(STORE, mode).objectStore(STORE);
+  }
+
+  async add(write: Omit<QueuedWrite, 'id'>) {
+    return promisify((await this.store('readwrite')).add(write)) as Promise<number>;
+  }
+
+  // Oldest first
+  async list(): Promise<QueuedWrite[]> {
+    return promisify((await this.store('readonly')).getAll());
+  }
+
+  async update(write: QueuedWrite) {
+    await promisify((await this.store('readwrite')).put(write));
+  }
+
+  async remove(id: number) {
+    await promisify((await this.store('readwrite')).delete(id));
+  }
+}
+
+export const offlineQueue = new OfflineQueue();
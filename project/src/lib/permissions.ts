@@ -0,0 +1,91 @@
+import type { User } from '../types';
+
+// What each role may do in the app. Components ask for a capability (via usePermission or
+// <RequirePermission>) rather than checking the role. The API server and RLS still enforce the real rules.
+
+export type Role = NonNullable<User['role']>;
+
+export type Permission =
+  | 'dashboard:view'
+  | 'profile:view'
+  | 'course:view'
+  | 'course:unlock-all'
+  | 'course:manage'
+  | 'course:publish'
+  | 'students:view'
+  | 'assessment:take'
+  | 'assessment:analytics'
+  | 'analytics:view'
+  | 'labs:use'
+  | 'videos:view'
+  | 'jobs:view'
+  | 'certificates:view'
+  | 'notes:view'
+  | 'notes:upload'
+  | 'admin:console'
+  | 'cohorts:manage'
+  | 'organizations:manage';
+
+export const ROLE_PERMISSIONS: Record<Role, readonly Permission[]> = {
+  student: [
+    'dashboard:view',
+    'profile:view',
+    'course:view',
+    'assessment:take',
+    'labs:use',
+    'videos:view',
+    'jobs:view',
+    'certificates:view',
+    'notes:view'
+  ],
+  teacher: [
+    'dashboard:view',
+    'profile:view',
+    'course:manage',
+    'course:publish',
+    'students:view',
+    'analytics:view',
+    'notes:view',
+    'notes:upload'
+  ],
+  admin: [
+    'dashboard:view',
+    'profile:view',
+    'course:view',
+    'course:unlock-all',
+    'course:publish',
+    'assessment:analytics',
+    'analytics:view',
+    'notes:view',
+    'notes:upload',
+    'admin:console',
+    'cohorts:manage'
+  ]
+};
+
+// Granted on top of the admin role to super-admins, who manage every organization
+const SUPER_ADMIN_PERMISSIONS: readonly Permission[] = ['organizations:manage'];
+
+export function hasPermission(user: Pick<User, 'role' | 'is_super_admin'> | null | undefined, permission: Permission) {
+  if (!user?.role) return false;
+  if (user.is_super_admin && user.role === 'admin' && SUPER_ADMIN_PERMISSIONS.includes(permission)) return true;
+  return ROLE_PERMISSIONS[user.role].includes(permission);
+}
+
+// Permission needed to open each app view (the `activeTab` ids used by App and Sidebar)
+export const VIEW_PERMISSIONS: Record<string, Permission> = {
+  dashboard: 'dashboard:view',
+  profile: 'profile:view',
+  admin: 'admin:console',
+  'my-courses': 'course:manage',
+  'create-course': 'course:manage',
+  students: 'students:view',
+  courses: 'course:view',
+  notes: 'notes:view',
+  videos: 'videos:view',
+  assessment: 'assessment:take',
+  labs: 'labs:use',
+  technical: 'jobs:view',
+  certificates: 'certificates:view',
+  analytics: 'analytics:view'
+};
@@ -0,0 +1,11 @@
+// Registers public/sw.js in production builds. The dev server serves modules that the worker
+// doesn't cache, so it is left out there to avoid stale code during development.
+export function registerServiceWorker() {
+  if (!import.meta.env.PROD || !('serviceWorker' in navigator)) return;
+
+  window.addEventListener('load', () => {
+    navigator.serviceWorker
+      .register('/sw.js')
+      .catch(error => console.error('Service worker registration failed:', error));
+  });
+}
@@ -0,0 +1,41 @@
+// URL of every app view, keyed by the view ids used in VIEW_PERMISSIONS and the Sidebar.
+export const VIEW_PATHS: Record<string, string> = {
+  dashboard: '/',
+  admin: '/admin',
+  'my-courses': '/teaching',
+  'create-course': '/teaching/new',
+  students: '/teaching/students',
+  courses: '/courses',
+  notes: '/notes',
+  videos: '/videos',
+  assessment: '/assessment',
+  labs: '/labs',
+  technical: '/jobs',
+  certificates: '/certificates',
+  analytics: '/analytics',
+  profile: '/profile'
+};
+
+// Deep links inside a view
+export const paths = {
+  course: (courseId: string) => `/courses/${encodeURIComponent(courseId)}`,
+  module: (courseId: string, moduleId: string) =>
+    `/courses/${encodeURIComponent(courseId)}/modules/${encodeURIComponent(moduleId)}`,
+  lab: (labId: string) => `/labs/${encodeURIComponent(labId)}`,
+  video: (videoId: string) => `/videos/${encodeURIComponent(videoId)}`,
+  question: (questionId: string) => `/jobs/${encodeURIComponent(questionId)}`
+};
+
+// The view a URL belongs to, by its longest matching path, so /courses/x/modules/y is "courses"
+export function viewForPath(pathname: string) {
+  let match: string | null = null;
+  let matchLength = -1;
+  for (const [view, path] of Object.entries(VIEW_PATHS)) {
+    const matches = path === '/' ? pathname === '/' : pathname === path || pathname.startsWith(`${path}/`);
+    if (matches && path.length > matchLength) {
+      match = view;
+      matchLength = path.length;
+    }
+  }
+  return match;
+}
@@ -0,0 +1,240 @@
+// The script every exported SCORM page loads (shared/scorm.js). It finds the
+// LMS API, reports the module as viewed, runs the module test and reports its
+// score, mirroring how the app's ModuleViewer and ModuleTest record progress:
+//
+//   SCORM 1.2                          SCORM 2004
+//   cmi.core.lesson_status             cmi.completion_status / cmi.success_status
+//   cmi.core.score.raw (0-100)         cmi.score.raw (0-100) and cmi.score.scaled
+//
+// Each page sets window.SCORM_MODULE = { version, passScore, hasQuiz } before
+// loading it, and ships its questions as JSON in #quiz-data. Kept as ES5 so it
+// runs in the older browsers some LMS deployments still use.
+export const SCORM_RUNTIME_JS = String.raw`(function () {
+  'use strict';
+
+  var config = window.SCORM_MODULE || {};
+  var is2004 = config.version === '2004';
+  var startedAt = new Date();
+  var api = null;
+  var finished = false;
+
+  function findApi(win) {
+    var name = is2004 ? 'API_1484_11' : 'API';
+    for (var depth = 0; win && depth < 10; depth++) {
+      try {
+        if (win[name]) return win[name];
+      } catch (e) {
+        return null;
+      }
+      if (win.parent === win) break;
+      win = win.parent;
+    }
+    return null;
+  }
+
+  function call(method2004, method12, args) {
+    if (!api) return '';
+    var fn = api[is2004 ? method2004 : method12];
+    return fn ? String(fn.apply(api, args || [''])) : '';
+  }
+
+  var lms = {
+    init: function () { return call('Initialize', 'LMSInitialize') === 'true'; },
+    get: function (key) { return call('GetValue', 'LMSGetValue', [key]); },
+    set: function (key, value) { return call('SetValue', 'LMSSetValue', [key, String(value)]); },
+    commit: function () { return call('Commit', 'LMSCommit'); },
+    finish: function () { return call('Terminate', 'LMSFinish'); }
+  };
+
+  function pad(value) {
+    return (value < 10 ? '0' : '') + value;
+  }
+
+  function sessionTime() {
+    var seconds = Math.round((new Date() - startedAt) / 1000);
+    var h = Math.floor(seconds / 3600);
+    var m = Math.floor((seconds % 3600) / 60);
+    var s = seconds % 60;
+    return is2004 ? 'PT' + h + 'H' + m + 'M' + s + 'S' : pad(h) + ':' + pad(m) + ':' + pad(s);
+  }
+
+  function isDone() {
+    if (is2004) return lms.get('cmi.completion_status') === 'completed';
+    var status = lms.get('cmi.core.lesson_status');
+    return status === 'completed' || status === 'passed';
+  }
+
+  // The LMS may set its own mastery score; otherwise the platform's pass mark applies
+  function passScore() {
+    var value = is2004 ? parseFloat(lms.get('cmi.scaled_passing_score')) * 100 : parseFloat(lms.get('cmi.student_data.mastery_score'));
+    return isNaN(value) ? config.passScore : value;
+  }
+
+  // Opening a module counts as viewing it. Modules without a test are complete once
+  // viewed; the rest stay incomplete until the test is passed.
+  function recordView() {
+    if (isDone()) return;
+    var status = config.hasQuiz ? 'incomplete' : 'completed';
+    lms.set(is2004 ? 'cmi.completion_status' : 'cmi.core.lesson_status', status);
+    lms.commit();
+  }
+
+  function recordScore(score) {
+    var previous = parseFloat(lms.get(is2004 ? 'cmi.score.raw' : 'cmi.core.score.raw'));
+    // Retakes never lower a recorded result
+    if (!isNaN(previous) && previous > score) return;
+
+    var passed = score >= passScore();
+    if (is2004) {
+      lms.set('cmi.score.min', 0);
+      lms.set('cmi.score.max', 100);
+      lms.set('cmi.score.raw', score);
+      lms.set('cmi.score.scaled', score / 100);
+      lms.set('cmi.success_status', passed ? 'passed' : 'failed');
+      if (passed) lms.set('cmi.completion_status', 'completed');
+    } else {
+      lms.set('cmi.core.score.min', 0);
+      lms.set('cmi.core.score.max', 100);
+      lms.set('cmi.core.score.raw', score);
+      lms.set('cmi.core.lesson_status', passed ? 'passed' : 'failed');
+    }
+    lms.commit();
+  }
+
+  function finish() {
+    if (finished || !api) return;
+    finished = true;
+    var done = isDone();
+    if (is2004) {
+      lms.set('cmi.session_time', sessionTime());
+      lms.set('cmi.exit', done ? 'normal' : 'suspend');
+    } else {
+      lms.set('cmi.core.session_time', sessionTime());
+      lms.set('cmi.core.exit', done ? '' : 'suspend');
+    }
+    lms.commit();
+    lms.finish();
+  }
+
+  function element(tag, className, text) {
+    var node = document.createElement(tag);
+    if (className) node.className = className;
+    if (text !== undefined) node.textContent = text;
+    return node;
+  }
+
+  function renderQuiz(root, questions) {
+    root.innerHTML = '';
+    var form = element('form');
+    questions.forEach(function (question, index) {
+      var fieldset = element('fieldset', 'question');
+      fieldset.appendChild(element('legend', null, (index + 1) + '. ' + question.question));
+      question.options.forEach(function (option, optionIndex) {
+        var label = element('label', 'option');
+        var input = element('input');
+        input.type = 'radio';
+        input.name = 'q' + index;
+        input.value = String(optionIndex);
+        input.required = true;
+        label.appendChild(input);
+        label.appendChild(document.createTextNode(' ' + option));
+        fieldset.appendChild(label);
+      });
+      form.appendChild(fieldset);
+    });
+    var submit = element('button', 'button', 'Submit test');
+    submit.type = 'submit';
+    form.appendChild(submit);
+
+    form.addEventListener('submit', function (event) {
+      event.preventDefault();
+      var correct = 0;
+      var answers = questions.map(function (question, index) {
+        var checked = form.querySelector('input[name="q' + index + '"]:checked');
+        var answer = checked ? Number(checked.value) : -1;
+        if (answer === question.correctAnswer) correct++;
+        return answer;
+      });
+      var score = Math.round((correct / questions.length) * 100);
+      recordScore(score);
+      renderResults(root, questions, answers, score);
+    });
+
+    root.appendChild(form);
+  }
+
+  function renderResults(root, questions, answers, score) {
+    root.innerHTML = '';
+    var passed = score >= passScore();
+    var summary = element('div', 'result ' + (passed ? 'result-passed' : 'result-failed'));
+    summary.appendChild(element('p', 'result-score', score + '%'));
+    summary.appendChild(element('p', null, passed ? 'You passed the test.' : 'You need ' + passScore() + '% to pass. Try again!'));
+    root.appendChild(summary);
+
+    questions.forEach(function (question, index) {
+      var ok = answers[index] === question.correctAnswer;
+      var item = element('div', 'review ' + (ok ? 'review-correct' : 'review-incorrect'));
+      item.appendChild(element('p', 'review-question', (index + 1) + '. ' + question.question));
+      if (!ok) item.appendChild(element('p', null, 'Correct answer: ' + question.options[question.correctAnswer]));
+      if (question.explanation) item.appendChild(element('p', 'review-explanation', question.explanation));
+      root.appendChild(item);
+    });
+
+    var retake = element('button', 'button', 'Retake test');
+    retake.type = 'button';
+    retake.addEventListener('click', function () { renderQuiz(root, questions); });
+    root.appendChild(retake);
+  }
+
+  api = findApi(window) || (window.opener ? findApi(window.opener) : null);
+  if (api && lms.init()) {
+    recordView();
+  } else {
+    api = null;
+    var notice = document.getElementById('lms-notice');
+    if (notice) notice.hidden = false;
+  }
+
+  var quizRoot = document.getElementById('quiz');
+  var quizData = document.getElementById('quiz-data');
+  if (quizRoot && quizData) renderQuiz(quizRoot, JSON.parse(quizData.textContent || '[]'));
+
+  window.addEventListener('pagehide', finish);
+  window.addEventListener('beforeunload', finish);
+})();
+`;
+
+export const SCORM_STYLES_CSS = String.raw`body { margin: 0; font-family: system-ui, -apple-system, 'Segoe UI', Roboto, sans-serif; color: #374151; background: #f9fafb; line-height: 1.6; }
+main { max-width: 48rem; margin: 0 auto; padding: 2rem 1.5rem 4rem; }
+h1, h2, h3, h4 { color: #111827; line-height: 1.3; }
+a { color: #0891b2; }
+code { background: #f3f4f6; color: #be185d; padding: 0.1rem 0.3rem; border-radius: 0.25rem; font-size: 0.9em; }
+pre.code { background: #0f172a; color: #f1f5f9; padding: 1rem; border-radius: 0.5rem; overflow-x: auto; }
+pre.code code { background: none; color: inherit; padding: 0; }
+.tok-comment { color: #94a3b8; font-style: italic; }
+.tok-string { color: #86efac; }
+.tok-number { color: #fdba74; }
+.tok-keyword { color: #67e8f9; font-weight: 600; }
+.tok-tag { color: #f9a8d4; }
+blockquote { border-left: 4px solid #d1d5db; margin: 1rem 0; padding-left: 1rem; color: #4b5563; font-style: italic; }
+.callout { border-left: 4px solid; border-radius: 0 0.5rem 0.5rem 0; padding: 0.75rem 1rem; margin: 1.5rem 0; }
+.callout-title { font-weight: 700; margin-top: 0; }
+.callout-note { border-color: #60a5fa; background: #eff6ff; }
+.callout-tip { border-color: #4ade80; background: #f0fdf4; }
+.callout-warning { border-color: #facc15; background: #fefce8; }
+.callout-danger { border-color: #f87171; background: #fef2f2; }
+.notice { border: 1px solid #fde68a; background: #fffbeb; color: #92400e; padding: 0.75rem 1rem; border-radius: 0.5rem; }
+.practice, .question, .review { border: 1px solid #e5e7eb; background: #fff; border-radius: 0.5rem; padding: 1rem; margin: 1rem 0; }
+.practice-question, .review-question, legend { font-weight: 600; color: #111827; }
+.option { display: block; padding: 0.25rem 0; cursor: pointer; }
+.button { background: #0891b2; color: #fff; border: 0; border-radius: 0.5rem; padding: 0.75rem 1.5rem; font-size: 1rem; cursor: pointer; }
+.button:hover { background: #0e7490; }
+.result { text-align: center; border-radius: 0.5rem; padding: 1.5rem; margin-bottom: 1rem; }
+.result-score { font-size: 2.5rem; font-weight: 700; margin: 0; }
+.result-passed { background: #f0fdf4; color: #166534; }
+.result-failed { background: #fef2f2; color: #991b1b; }
+.review-correct { border-color: #bbf7d0; background: #f0fdf4; }
+.review-incorrect { border-color: #fecaca; background: #fef2f2; }
+.review-explanation { color: #4b5563; font-size: 0.9rem; }
+video { width: 100%; border-radius: 0.5rem; background: #000; }
+`;
@@ -0,0 +1,96 @@
+// Client-side index behind the command palette (Ctrl+K). Everything is searched in memory;
+// the content is small enough that a linear scan per keystroke is instant.
+
+export type SearchResultType = 'action' | 'course' | 'module' | 'lab' | 'video' | 'question' | 'note';
+
+export interface SearchItem {
+  id: string;
+  type: SearchResultType;
+  title: string;
+  subtitle?: string;
+  // Extra text that should match but is not shown (tags, categories, body excerpts)
+  keywords?: string;
+  // Where selecting the item goes, or what it does
+  path?: string;
+  url?: string;
+  run?: () => void;
+}
+
+export interface SearchResult extends SearchItem {
+  score: number;
+}
+
+// Ties are broken by type, so actions and structured content come before long-tail notes
+const TYPE_WEIGHT: Record<SearchResultType, number> = {
+  action: 6,
+  module: 5,
+  course: 4,
+  lab: 4,
+  video: 3,
+  question: 3,
+  note: 2
+};
+
+export function normalize(text: string) {
+  return text
+    .toLowerCase()
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .replace(/[^a-z0-9]+/g, ' ')
+    .trim();
+}
+
+interface IndexedItem {
+  item: SearchItem;
+  title: string;
+  titleWords: string[];
+  rest: string;
+}
+
+export function buildIndex(items: SearchItem[]): IndexedItem[] {
+  return items.map(item => {
+    const title = normalize(item.title);
+    return {
+      item,
+      title,
+      titleWords: title.split(' '),
+      rest: normalize(`${item.subtitle ?? ''} ${item.keywords ?? ''}`)
+    };
+  });
+}
+
+// Score of one query word against one item, or 0 if it doesn't match at all
+function scoreTerm(entry: IndexedItem, term: string) {
+  if (entry.titleWords.includes(term)) return 10;
+  if (entry.titleWords.some(word => word.startsWith(term))) return 7;
+  if (entry.title.includes(term)) return 4;
+  if (entry.rest.includes(term)) return 2;
+  return 0;
+}
+
+// Every query word has to match somewhere; title matches rank above body matches
+export function search(index: IndexedItem[], query: string, limit = 30): SearchResult[] {
+  const terms = normalize(query).split(' ').filter(Boolean);
+  if (terms.length === 0) return [];
+
+  const phrase = terms.join(' ');
+  const results: SearchResult[] = [];
+  for (const entry of index) {
+    let score = 0;
+    for (const term of terms) {
+      const termScore = scoreTerm(entry, term);
+      if (termScore === 0) {
+        score = 0;
+        break;
+      }
+      score += termScore;
+    }
+    if (score === 0) continue;
+
+    if (entry.title === phrase) score += 20;
+    else if (entry.title.startsWith(phrase)) score += 10;
+    results.push({ ...entry.item, score: score * 10 + TYPE_WEIGHT[entry.item.type] });
+  }
+
+  return results.sort((a, b) => b.score - a.score || a.title.localeCompare(b.title)).slice(0, limit);
+}
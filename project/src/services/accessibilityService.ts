@@ -0,0 +1,72 @@
+import { supabase } from '../lib/supabase';
+import type { AccessibilitySettings, ExtraTimePercent } from '../types';
+
+export const EXTRA_TIME_OPTIONS: ExtraTimePercent[] = [0, 25, 50, 100];
+
+export const DEFAULT_ACCESSIBILITY_SETTINGS: AccessibilitySettings = {
+  extra_time_percent: 0,
+  reduced_motion: false
+};
+
+class AccessibilityService {
+  async getSettings(userId: string): Promise<AccessibilitySettings> {
+    try {
+      const { data, error } = await supabase
+        .from('accessibility_settings')
+        .select('extra_time_percent, reduced_motion')
+        .eq('user_id', userId)
+        .maybeSingle();
+
+      if (error) throw new Error(`Failed to fetch accessibility settings: ${error.message}`);
+      return data ?? DEFAULT_ACCESSIBILITY_SETTINGS;
+    } catch (error) {
+      console.error('Get accessibility settings error:', error);
+      throw error;
+    }
+  }
+
+  // Extra time per user for the admin user table; users without a row are left out
+  async getExtraTimeByUser(): Promise<Record<string, ExtraTimePercent>> {
+    try {
+      const { data, error } = await supabase
+        .from('accessibility_settings')
+        .select('user_id, extra_time_percent')
+        .gt('extra_time_percent', 0);
+
+      if (error) throw new Error(`Failed to fetch accommodations: ${error.message}`);
+      return Object.fromEntries((data || []).map(row => [row.user_id, row.extra_time_percent]));
+    } catch (error) {
+      console.error('Get accommodations error:', error);
+      throw error;
+    }
+  }
+
+  async setReducedMotion(userId: string, reducedMotion: boolean) {
+    try {
+      const { error } = await supabase
+        .from('accessibility_settings')
+        .upsert({ user_id: userId, reduced_motion: reducedMotion }, { onConflict: 'user_id' });
+
+      if (error) throw new Error(`Failed to update accessibility settings: ${error.message}`);
+    } catch (error) {
+      console.error('Set reduced motion error:', error);
+      throw error;
+    }
+  }
+
+  // Admins only; the database rejects the change from anyone else
+  async setExtraTime(userId: string, percent: ExtraTimePercent) {
+    try {
+      const { error } = await supabase
+        .from('accessibility_settings')
+        .upsert({ user_id: userId, extra_time_percent: percent }, { onConflict: 'user_id' });
+
+      if (error) throw new Error(`Failed to update extra time: ${error.message}`);
+    } catch (error) {
+      console.error('Set extra time error:', error);
+      throw error;
+    }
+  }
+}
+
+export const accessibilityService = new AccessibilityService();
@@ -1,14 +1,35 @@
 import { supabase } from '../lib/supabase';
-
+import { authService } from './authService';
+import { courseRepository } from './courseRepository';
+import type {
+  UserInvite,
+  AuthEvent,
+  AuditEvent,
+  AuditEventFilters,
+  Organization,
+  Cohort,
+  SsoConfig,
+  SsoConfigInput
+} from '../types';
+
+// Most recent audit events fetched per query; narrow the filters to see older ones
+const AUDIT_EVENT_LIMIT = 500;
+
+// Row-level security already limits org admins to their own organization. The optional
+// organizationId lets super-admins (who can see every tenant) narrow a query to one of them.
 class AdminService {
   // User Management
-  async getAllUsers() {
+  async getAllUsers(organizationId?: string) {
     try {
-      const { data, error } = await supabase
+      let query = supabase
         .from('users')
         .select('*')
         .order('created_at', { ascending: false });
 
+      if (organizationId) query = query.eq('organization_id', organizationId);
+
+      const { data, error } = await query;
+
       if (error) throw new Error(`Failed to fetch users: ${error.message}`);
       return data;
     } catch (error) {
@@ -17,14 +38,18 @@ class AdminService {
     }
   }
 
-  async getUsersByRole(role) {
+  async getUsersByRole(role, organizationId?: string) {
     try {
-      const { data, error } = await supabase
+      let query = supabase
         .from('users')
         .select('*')
         .eq('role', role)
         .order('created_at', { ascending: false });
 
+      if (organizationId) query = query.eq('organization_id', organizationId);
+
+      const { data, error } = await query;
+
       if (error) throw new Error(`Failed to fetch users by role: ${error.message}`);
       return data;
     } catch (error) {
@@ -65,15 +90,253 @@ class AdminService {
     }
   }
 
+  async assignUserCohort(userId: string, cohortId: string | null) {
+    try {
+      const { data, error } = await supabase
+        .from('users')
+        .update({ cohort_id: cohortId })
+        .eq('id', userId)
+        .select()
+        .single();
+
+      if (error) throw new Error(`Failed to assign cohort: ${error.message}`);
+      return data;
+    } catch (error) {
+      console.error('Assign cohort error:', error);
+      throw error;
+    }
+  }
+
+  // Super-admins only. The user's cohort belongs to the old organization, so it is cleared.
+  async moveUserToOrganization(userId: string, organizationId: string) {
+    try {
+      const { data, error } = await supabase
+        .from('users')
+        .update({ organization_id: organizationId, cohort_id: null })
+        .eq('id', userId)
+        .select()
+        .single();
+
+      if (error) throw new Error(`Failed to move user: ${error.message}`);
+      return data;
+    } catch (error) {
+      console.error('Move user error:', error);
+      throw error;
+    }
+  }
+
+  // Organizations and Cohorts
+  async getOrganizations() {
+    try {
+      const { data, error } = await supabase
+        .from('organizations')
+        .select('*')
+        .order('name');
+
+      if (error) throw new Error(`Failed to fetch organizations: ${error.message}`);
+      return data as Organization[];
+    } catch (error) {
+      console.error('Get organizations error:', error);
+      throw error;
+    }
+  }
+
+  async createOrganization(name: string, slug: string) {
+    try {
+      const { data, error } = await supabase
+        .from('organizations')
+        .insert([{ name, slug }])
+        .select()
+        .single();
+
+      if (error) throw new Error(`Failed to create organization: ${error.message}`);
+      return data as Organization;
+    } catch (error) {
+      console.error('Create organization error:', error);
+      throw error;
+    }
+  }
+
+  async getCohorts(organizationId?: string) {
+    try {
+      let query = supabase
+        .from('cohorts')
+        .select('*')
+        .order('created_at', { ascending: false });
+
+      if (organizationId) query = query.eq('organization_id', organizationId);
+
+      const { data, error } = await query;
+      if (error) throw new Error(`Failed to fetch cohorts: ${error.message}`);
+      return data as Cohort[];
+    } catch (error) {
+      console.error('Get cohorts error:', error);
+      throw error;
+    }
+  }
+
+  async createCohort(cohort: Pick<Cohort, 'organization_id' | 'name' | 'starts_on' | 'ends_on'>) {
+    try {
+      const { data, error } = await supabase
+        .from('cohorts')
+        .insert([cohort])
+        .select()
+        .single();
+
+      if (error) throw new Error(`Failed to create cohort: ${error.message}`);
+      return data as Cohort;
+    } catch (error) {
+      console.error('Create cohort error:', error);
+      throw error;
+    }
+  }
+
+  async deleteCohort(cohortId: string) {
+    try {
+      const { error } = await supabase
+        .from('cohorts')
+        .delete()
+        .eq('id', cohortId);
+
+      if (error) throw new Error(`Failed to delete cohort: ${error.message}`);
+      return true;
+    } catch (error) {
+      console.error('Delete cohort error:', error);
+      throw error;
+    }
+  }
+
+  // Clears a user's 2FA so they can enrol again, e.g. after losing their device and recovery codes
+  async resetUserMfa(userId: string) {
+    try {
+      await authService.request(`/api/auth/mfa/reset/${userId}`, { method: 'POST' });
+      return true;
+    } catch (error) {
+      console.error('Reset 2FA error:', error);
+      throw error;
+    }
+  }
+
+  // Staff Invitations (stored server-side; codes are only shown once, on creation)
+  async getInvites(organizationId?: string) {
+    try {
+      const query = organizationId ? `?organizationId=${encodeURIComponent(organizationId)}` : '';
+      const { invites } = await authService.request<{ invites: UserInvite[] }>(`/api/invites${query}`);
+      return invites;
+    } catch (error) {
+      console.error('Get invites error:', error);
+      throw error;
+    }
+  }
+
+  // Without organizationId the invite is for the admin's own organization
+  async createInvite(email: string, role: UserInvite['role'], expiresInDays = 7, organizationId?: string) {
+    try {
+      return await authService.request<{ invite: UserInvite; code: string }>('/api/invites', {
+        method: 'POST',
+        body: { email, role, expiresInDays, organizationId }
+      });
+    } catch (error) {
+      console.error('Create invite error:', error);
+      throw error;
+    }
+  }
+
+  async revokeInvite(inviteId: string) {
+    try {
+      const { invite } = await authService.request<{ invite: UserInvite }>(`/api/invites/${inviteId}/revoke`, {
+        method: 'POST'
+      });
+      return invite;
+    } catch (error) {
+      console.error('Revoke invite error:', error);
+      throw error;
+    }
+  }
+
+  // Sign-in activity recorded by the API server (failures, lockouts, successes)
+  async getAuthEvents(filters: { type?: AuthEvent['event_type']; email?: string; organizationId?: string } = {}) {
+    try {
+      const params = new URLSearchParams();
+      if (filters.type) params.set('type', filters.type);
+      if (filters.email) params.set('email', filters.email);
+      if (filters.organizationId) params.set('organizationId', filters.organizationId);
+      const query = params.toString();
+      const { events } = await authService.request<{ events: AuthEvent[] }>(`/api/auth-events${query ? `?${query}` : ''}`);
+      return events;
+    } catch (error) {
+      console.error('Get auth events error:', error);
+      throw error;
+    }
+  }
+
+  // Audit log of administrative changes (written by database triggers and the API server)
+  async getAuditEvents(filters: AuditEventFilters = {}) {
+    try {
+      let query = supabase
+        .from('audit_events')
+        .select('*')
+        .order('created_at', { ascending: false })
+        .limit(AUDIT_EVENT_LIMIT);
+
+      if (filters.organizationId) query = query.eq('organization_id', filters.organizationId);
+      if (filters.action) query = query.eq('action', filters.action);
+      if (filters.from) query = query.gte('created_at', new Date(`${filters.from}T00:00:00`).toISOString());
+      if (filters.to) query = query.lte('created_at', new Date(`${filters.to}T23:59:59.999`).toISOString());
+
+      // Characters with a meaning in PostgREST filter syntax are dropped from the search text
+      const search = filters.search?.replace(/[,()*%\\]/g, ' ').trim();
+      if (search) {
+        query = query.or(`actor_email.ilike.*${search}*,target_label.ilike.*${search}*,target_id.eq.${search}`);
+      }
+
+      const { data, error } = await query;
+
+      if (error) throw new Error(`Failed to fetch audit log: ${error.message}`);
+      return (data || []) as AuditEvent[];
+    } catch (error) {
+      console.error('Get audit events error:', error);
+      throw error;
+    }
+  }
+
+  // Single sign-on (OpenID Connect) settings for an organization, stored server-side
+  async getSsoConfig(organizationId?: string) {
+    try {
+      const query = organizationId ? `?organizationId=${encodeURIComponent(organizationId)}` : '';
+      return await authService.request<{ config: SsoConfig | null; callbackUrl: string }>(`/api/auth/sso/config${query}`);
+    } catch (error) {
+      console.error('Get SSO config error:', error);
+      throw error;
+    }
+  }
+
+  async saveSsoConfig(input: SsoConfigInput, organizationId?: string) {
+    try {
+      const { config } = await authService.request<{ config: SsoConfig }>('/api/auth/sso/config', {
+        method: 'PUT',
+        body: { ...input, organizationId }
+      });
+      return config;
+    } catch (error) {
+      console.error('Save SSO config error:', error);
+      throw error;
+    }
+  }
+
   // Course Management (Admin can manage all courses)
-  async getAllCourses() {
+  async getAllCourses(organizationId?: string) {
     try {
       // Avoid relationship join to prevent errors if FK/relationship isn't configured
-      const { data, error } = await supabase
+      let query = supabase
         .from('courses')
         .select('*')
         .order('created_at', { ascending: false });
 
+      if (organizationId) query = query.eq('organization_id', organizationId);
+
+      const { data, error } = await query;
+
       if (error) throw new Error(`Failed to fetch all courses: ${error.message}`);
       return data;
     } catch (error) {
@@ -147,6 +410,7 @@ class AdminService {
         .single();
 
       if (error) throw new Error(`Failed to update course status: ${error.message}`);
+      courseRepository.invalidate();
       return data;
     } catch (error) {
       console.error('Update course status error:', error);
@@ -155,27 +419,36 @@ class AdminService {
   }
 
   // Analytics and Reports
-  async getDashboardStats() {
+  async getDashboardStats(organizationId?: string) {
     try {
       // Get user counts by role
-      const { data: userStats, error: userError } = await supabase
+      let userQuery = supabase
         .from('users')
         .select('role')
         .neq('role', 'admin');
+      if (organizationId) userQuery = userQuery.eq('organization_id', organizationId);
+
+      const { data: userStats, error: userError } = await userQuery;
 
       if (userError) throw new Error(`Failed to fetch user stats: ${userError.message}`);
 
       // Get course stats
-      const { data: courseStats, error: courseError } = await supabase
+      let courseQuery = supabase
         .from('courses')
         .select('is_published, enrollment_count');
+      if (organizationId) courseQuery = courseQuery.eq('organization_id', organizationId);
+
+      const { data: courseStats, error: courseError } = await courseQuery;
 
       if (courseError) throw new Error(`Failed to fetch course stats: ${courseError.message}`);
 
       // Get enrollment stats
-      const { data: enrollmentStats, error: enrollmentError } = await supabase
+      let enrollmentQuery = supabase
         .from('course_enrollments')
         .select('enrolled_at');
+      if (organizationId) enrollmentQuery = enrollmentQuery.eq('organization_id', organizationId);
+
+      const { data: enrollmentStats, error: enrollmentError } = await enrollmentQuery;
 
       if (enrollmentError) throw new Error(`Failed to fetch enrollment stats: ${enrollmentError.message}`);
 
@@ -1,4 +1,5 @@
 import { supabase } from '../lib/supabase';
+import { offlineSyncService } from './offlineSyncService';
 
 export interface AssessmentAttempt {
   id: string;
@@ -31,8 +32,10 @@ class AssessmentService {
     }
   }
 
+  // Returns false when the answer was queued to be sent once back online
   async submitAnswer(answer: AssessmentAnswerInput) {
     const payload = {
+      id: crypto.randomUUID(),
       attempt_id: answer.attempt_id ?? crypto.randomUUID(),
       user_id: answer.user_id,
       question_id: answer.question_id,
@@ -41,9 +44,11 @@ class AssessmentService {
       is_correct: answer.is_correct,
       context: answer.context ?? 'initial'
     };
-    const { error } = await supabase.from('assessment_responses').insert([payload]);
-    if (error) throw new Error(`Failed to submit answer: ${error.message}`);
-    return true;
+    try {
+      return await offlineSyncService.saveAssessmentResponse(payload);
+    } catch (error) {
+      throw new Error(`Failed to submit answer: ${(error as Error).message}`);
+    }
   }
 
   async getAttemptResults(attemptId: string) {
@@ -1,118 +1,497 @@
-import { supabase, testSupabaseConnection } from '../lib/supabase';
-import bcrypt from 'bcryptjs';
+import { apiRequest, apiUrl, ApiError } from '../lib/api';
+import { supabase } from '../lib/supabase';
+import { courseRepository } from './courseRepository';
+import type { User } from '../types';
+
+const REFRESH_TOKEN_KEY = 'cyberSecRefreshToken';
+// Pre-session builds cached the whole user object here; it is no longer trusted or written
+const LEGACY_USER_KEY = 'cyberSecUser';
+// Last signed-in user, only used to keep studying offline after a reload. It grants nothing on its
+// own: the API and RLS still need the tokens, the session is re-checked once back online, and the
+// role stored here is ignored (see readOfflineUser).
+const OFFLINE_USER_KEY = 'cyberSecOfflineUser';
+// Web Lock held while rotating the refresh token
+const REFRESH_LOCK_NAME = 'cyberSecRefresh';
+
+// Refresh a little before the access token actually expires
+const EXPIRY_SKEW_MS = 30 * 1000;
+
+interface SessionResponse {
+  accessToken: string;
+  refreshToken: string;
+  expiresIn: number;
+  user: User;
+  // Supabase Auth tokens for RLS-scoped queries; only returned on login and registration
+  supabaseSession?: { access_token: string; refresh_token: string } | null;
+}
+
+// Returned by login instead of a session when a second factor is needed
+interface MfaChallengeResponse {
+  mfaRequired?: boolean;
+  mfaSetupRequired?: boolean;
+  mfaToken: string;
+}
+
+export type LoginResult =
+  | { status: 'authenticated'; user: User }
+  | { status: 'mfa_required'; mfaToken: string }
+  | { status: 'mfa_setup_required'; mfaToken: string };
+
+export interface MfaSetup {
+  secret: string;
+  otpauthUrl: string;
+  qrCode: string;
+}
+
+export interface MfaStatus {
+  enabled: boolean;
+  required: boolean;
+  recoveryCodesRemaining: number;
+}
+
+export interface AccountDeletionRequest {
+  id: string;
+  requested_at: string;
+  scheduled_for: string;
+}
+
+export interface AccountDeletionStatus {
+  request: AccountDeletionRequest | null;
+  graceDays: number;
+}
+
+interface ActiveSession {
+  accessToken: string;
+  expiresAt: number;
+  user: User;
+}
+
+type SessionListener = (user: User | null) => void;
+
+interface AuthorizedRequestOptions {
+  method?: 'GET' | 'POST' | 'PUT' | 'PATCH' | 'DELETE';
+  body?: unknown;
+  responseType?: 'json' | 'blob';
+}
 
 class AuthService {
-  async login(credentials) {
-    try {
-      // Proactively test connectivity for clearer errors (helps diagnose CORS/env issues)
-      await testSupabaseConnection();
-
-      // Check if user exists with the specified role
-      const { data: user, error } = await supabase
-        .from('users')
-        .select('*')
-        .eq('email', credentials.email)
-        .eq('role', credentials.role)
-        .maybeSingle();
-
-      if (error && error.code !== 'PGRST116') {
-        console.error('Login error:', error);
-        throw new Error(`Database error during login: ${error.message}`);
-      }
+  // The verified session lives in memory only; the user and role always come from the server
+  private session: ActiveSession | null = null;
+  private refreshInFlight: Promise<User | null> | null = null;
+  private listeners = new Set<SessionListener>();
+  // Session issued by finishing 2FA enrolment at sign-in, held back until the recovery codes have been shown
+  private pendingSession: SessionResponse | null = null;
+  // Set when the session could not be restored because the API server was unreachable
+  private offlineUser: User | null = null;
 
-      if (!user) {
-        throw new Error(`No ${credentials.role} account found with email: ${credentials.email}`);
-      }
+  constructor() {
+    localStorage.removeItem(LEGACY_USER_KEY);
+  }
 
-      // Verify password
-      const isValidPassword = await bcrypt.compare(credentials.password, user.password_hash);
-      
-      if (!isValidPassword) {
-        throw new Error('Incorrect password. Please try again.');
-      }
+  async login(credentials): Promise<LoginResult> {
+    try {
+      // Credentials are verified by the API server; password hashes never reach the browser
+      const response = await apiRequest<SessionResponse | MfaChallengeResponse>('/api/auth/login', {
+        method: 'POST',
+        body: credentials
+      });
 
-      // Remove password from user object
-      const { password_hash, ...userWithoutPassword } = user;
+      if ('mfaToken' in response) {
+        return {
+          status: response.mfaSetupRequired ? 'mfa_setup_required' : 'mfa_required',
+          mfaToken: response.mfaToken
+        };
+      }
 
-      // Store user in localStorage
-      localStorage.setItem('cyberSecUser', JSON.stringify(userWithoutPassword));
-      
-      return userWithoutPassword;
+      return { status: 'authenticated', user: await this.acceptSession(response) };
     } catch (error) {
       console.error('Login error:', error);
       throw error;
     }
   }
 
-  async register(userData) {
+  // Teachers and admins must set up 2FA before they get a session, so their result carries an enrolment token
+  async register(userData): Promise<LoginResult> {
     try {
-      // Check if user already exists
-      const { data: existingUser, error: checkError } = await supabase
-        .from('users')
-        .select('email')
-        .eq('email', userData.email)
-        .maybeSingle();
-
-      if (checkError && checkError.code !== 'PGRST116') {
-        console.error('Error checking existing user:', checkError);
-        throw new Error(`Failed to check existing user: ${checkError.message}`);
-      }
+      const response = await apiRequest<SessionResponse | MfaChallengeResponse>('/api/auth/register', {
+        method: 'POST',
+        body: userData
+      });
 
-      if (existingUser) {
-        throw new Error('User already exists with this email');
+      if ('mfaToken' in response) {
+        return { status: 'mfa_setup_required', mfaToken: response.mfaToken };
       }
 
-      // Hash password
-      const passwordHash = await bcrypt.hash(userData.password, 10);
-
-      // Generate a UUID for the new user
-      const userId = crypto.randomUUID();
-
-      // Create new user
-      const { data: newUser, error } = await supabase
-        .from('users')
-        .insert([
-          {
-            id: userId,
-            email: userData.email,
-            name: userData.name,
-            role: userData.role,
-            password_hash: passwordHash,
-            level: 'beginner',
-            completed_assessment: userData.role === 'admin',
-            bio: userData.bio || '',
-            specialization: userData.specialization || '',
-            experience_years: userData.role === 'student' ? null : '0-1'
-          }
-        ])
-        .select()
-        .single();
-
-      if (error) {
-        console.error('Registration error:', error);
-        throw new Error(`Failed to create user: ${error.message}`);
+      return { status: 'authenticated', user: await this.acceptSession(response) };
+    } catch (error) {
+      console.error('Registration error:', error);
+      throw error;
+    }
+  }
+
+  // Restores the session after a page load using the stored refresh token. Without a connection
+  // the last user is restored for offline study until the server can confirm the session.
+  async restoreSession() {
+    if (!localStorage.getItem(REFRESH_TOKEN_KEY)) return null;
+    try {
+      return await this.refresh();
+    } catch (error) {
+      const offlineUser = this.readOfflineUser();
+      if (!(error instanceof ApiError && error.status === 0) || !offlineUser) throw error;
+
+      this.offlineUser = offlineUser;
+      window.addEventListener(
+        'online',
+        () => this.refresh().catch(refreshError => console.error('Session refresh error:', refreshError)),
+        { once: true }
+      );
+      this.notify();
+      return offlineUser;
+    }
+  }
+
+  // True while the user is signed in from the offline copy, without a verified session
+  isOfflineSession() {
+    return this.session === null && this.offlineUser !== null;
+  }
+
+  async refresh(): Promise<User | null> {
+    if (!this.refreshInFlight) {
+      this.refreshInFlight = this.doRefresh().finally(() => {
+        this.refreshInFlight = null;
+      });
+    }
+    return this.refreshInFlight;
+  }
+
+  // Tabs share the stored refresh token, so they take turns rotating it
+  private async doRefresh(): Promise<User | null> {
+    if (typeof navigator !== 'undefined' && navigator.locks) {
+      return navigator.locks.request(REFRESH_LOCK_NAME, () => this.refreshWithStoredToken());
+    }
+    return this.refreshWithStoredToken();
+  }
+
+  private async refreshWithStoredToken(retried = false): Promise<User | null> {
+    const refreshToken = localStorage.getItem(REFRESH_TOKEN_KEY);
+    if (!refreshToken) {
+      this.clearSession();
+      return null;
+    }
+
+    try {
+      const session = await apiRequest<SessionResponse>('/api/auth/refresh', {
+        method: 'POST',
+        body: { refreshToken }
+      });
+      return this.setSession(session);
+    } catch (error) {
+      if (error instanceof ApiError && error.status === 401) {
+        // Another tab rotated the token while this request was in flight; its token is still good
+        if (!retried && localStorage.getItem(REFRESH_TOKEN_KEY) !== refreshToken) {
+          return this.refreshWithStoredToken(true);
+        }
+        this.clearSession();
+        return null;
       }
+      console.error('Session refresh error:', error);
+      throw error;
+    }
+  }
 
-      // Remove password from user object
-      const { password_hash, ...userWithoutPassword } = newUser;
+  // Second login step for accounts with 2FA: a code from the authenticator app or a recovery code
+  async verifyMfa(mfaToken: string, { code, recoveryCode }: { code?: string; recoveryCode?: string }) {
+    try {
+      const session = await apiRequest<SessionResponse>('/api/auth/mfa/verify', {
+        method: 'POST',
+        body: { mfaToken, code, recoveryCode }
+      });
+      return this.acceptSession(session);
+    } catch (error) {
+      console.error('2FA verification error:', error);
+      throw error;
+    }
+  }
+
+  // 2FA enrolment. mfaToken is the enrolment token from login; without it the current session is used.
+  async setupMfa(mfaToken?: string) {
+    return mfaToken
+      ? apiRequest<MfaSetup>('/api/auth/mfa/setup', { method: 'POST', body: { mfaToken } })
+      : this.request<MfaSetup>('/api/auth/mfa/setup', { method: 'POST' });
+  }
+
+  async enableMfa(code: string, mfaToken?: string) {
+    if (!mfaToken) {
+      const { recoveryCodes } = await this.request<{ recoveryCodes: string[] }>('/api/auth/mfa/enable', {
+        method: 'POST',
+        body: { code }
+      });
+      return recoveryCodes;
+    }
+
+    const { recoveryCodes, ...session } = await apiRequest<SessionResponse & { recoveryCodes: string[] }>(
+      '/api/auth/mfa/enable',
+      { method: 'POST', body: { code, mfaToken } }
+    );
+    this.pendingSession = session;
+    return recoveryCodes;
+  }
+
+  // Signs in with the session from enrolment once the user has saved their recovery codes
+  async completeMfaEnrollment() {
+    if (!this.pendingSession) return null;
+    const session = this.pendingSession;
+    this.pendingSession = null;
+    return this.acceptSession(session);
+  }
+
+  async getMfaStatus() {
+    return this.request<MfaStatus>('/api/auth/mfa/status');
+  }
 
-      // Store user in localStorage
-      localStorage.setItem('cyberSecUser', JSON.stringify(userWithoutPassword));
-      
-      return userWithoutPassword;
+  async regenerateRecoveryCodes(code: string) {
+    const { recoveryCodes } = await this.request<{ recoveryCodes: string[] }>('/api/auth/mfa/recovery-codes', {
+      method: 'POST',
+      body: { code }
+    });
+    return recoveryCodes;
+  }
+
+  async disableMfa(code: string) {
+    await this.request('/api/auth/mfa/disable', { method: 'POST', body: { code } });
+  }
+
+  // Single sign-on: the browser leaves for the organization's identity provider and comes back
+  // to the app with a one-time token (?sso_login=...), which completeSsoLogin trades for a session.
+  // Teachers and admins still get the 2FA step afterwards, as with a password.
+  startSsoLogin(organizationSlug: string) {
+    window.location.assign(apiUrl(`/api/auth/sso/start?organization=${encodeURIComponent(organizationSlug)}`));
+  }
+
+  async completeSsoLogin(token: string): Promise<LoginResult> {
+    try {
+      const response = await apiRequest<SessionResponse | MfaChallengeResponse>('/api/auth/sso/exchange', {
+        method: 'POST',
+        body: { token }
+      });
+
+      if ('mfaToken' in response) {
+        return {
+          status: response.mfaSetupRequired ? 'mfa_setup_required' : 'mfa_required',
+          mfaToken: response.mfaToken
+        };
+      }
+
+      return { status: 'authenticated', user: await this.acceptSession(response) };
     } catch (error) {
-      console.error('Registration error:', error);
+      console.error('SSO login error:', error);
       throw error;
     }
   }
 
+  // Links the organization's identity provider to the signed-in account. The browser leaves for the
+  // provider and returns to the profile with ?sso_link=linked or ?sso_link_error=<message>.
+  async startSsoLink() {
+    const { url } = await this.request<{ url: string }>('/api/auth/sso/link', { method: 'POST' });
+    window.location.assign(url);
+  }
+
+  // Password reset and email verification. Links in emails carry a one-time token.
+  async requestPasswordReset(email: string) {
+    const { message } = await apiRequest<{ message: string }>('/api/auth/forgot-password', {
+      method: 'POST',
+      body: { email }
+    });
+    return message;
+  }
+
+  async resetPassword(token: string, password: string) {
+    const { message } = await apiRequest<{ message: string }>('/api/auth/reset-password', {
+      method: 'POST',
+      body: { token, password }
+    });
+    return message;
+  }
+
+  async verifyEmail(token: string) {
+    const { message } = await apiRequest<{ message: string }>('/api/auth/verify-email', {
+      method: 'POST',
+      body: { token }
+    });
+    // Pick up the verified flag if this browser is signed in
+    if (this.session) await this.refresh();
+    return message;
+  }
+
+  async resendVerificationEmail() {
+    const { message } = await this.request<{ message: string }>('/api/auth/resend-verification', { method: 'POST' });
+    return message;
+  }
+
+  // The new address takes over once its owner follows the link emailed to it
+  async changeEmail(newEmail: string, currentPassword: string) {
+    const { pendingEmail, message } = await this.request<{ pendingEmail: string; message: string }>('/api/auth/change-email', {
+      method: 'POST',
+      body: { newEmail, currentPassword }
+    });
+    this.updateCurrentUser({ pending_email: pendingEmail });
+    return message;
+  }
+
+  async cancelEmailChange() {
+    await this.request('/api/auth/change-email', { method: 'DELETE' });
+    this.updateCurrentUser({ pending_email: null });
+  }
+
+  async confirmEmailChange(token: string) {
+    const { message } = await apiRequest<{ message: string }>('/api/auth/confirm-email-change', {
+      method: 'POST',
+      body: { token }
+    });
+    // Pick up the new address if this browser is signed in
+    if (this.session) await this.refresh();
+    return message;
+  }
+
+  async changePassword(currentPassword: string, newPassword: string) {
+    const { message } = await this.request<{ message: string }>('/api/auth/change-password', {
+      method: 'POST',
+      body: { currentPassword, newPassword }
+    });
+    return message;
+  }
+
+  // Everything stored about the signed-in user, as one JSON file or a ZIP with a file per kind of record
+  async exportPersonalData(format: 'json' | 'zip') {
+    return this.request<Blob>(`/api/account/export?format=${format}`, { responseType: 'blob' });
+  }
+
+  async getAccountDeletion() {
+    return this.request<AccountDeletionStatus>('/api/account/deletion');
+  }
+
+  // The account is erased once the grace period has passed, unless cancelled before then
+  async requestAccountDeletion(confirmEmail: string) {
+    const { request } = await this.request<{ request: AccountDeletionRequest }>('/api/account/deletion', {
+      method: 'POST',
+      body: { confirmEmail }
+    });
+    return request;
+  }
+
+  async cancelAccountDeletion() {
+    await this.request('/api/account/deletion', { method: 'DELETE' });
+  }
+
+  async getAccessToken(): Promise<string | null> {
+    if (this.session && this.session.expiresAt - EXPIRY_SKEW_MS > Date.now()) {
+      return this.session.accessToken;
+    }
+    const user = await this.refresh();
+    return user ? this.session?.accessToken ?? null : null;
+  }
+
+  // Calls an authenticated API endpoint, refreshing the access token once if it was rejected
+  async request<T>(path: string, options: AuthorizedRequestOptions = {}): Promise<T> {
+    const token = await this.getAccessToken();
+    if (!token) throw new ApiError('You are not signed in.', 401);
+
+    try {
+      return await apiRequest<T>(path, { ...options, token });
+    } catch (error) {
+      if (!(error instanceof ApiError) || error.status !== 401) throw error;
+      const user = await this.refresh();
+      if (!user || !this.session) throw error;
+      return apiRequest<T>(path, { ...options, token: this.session.accessToken });
+    }
+  }
+
+  subscribe(listener: SessionListener) {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  private async acceptSession(session: SessionResponse) {
+    await this.linkSupabaseSession(session);
+    return this.setSession(session);
+  }
+
+  // supabase-js persists and refreshes this session itself, so auth.uid() works in RLS policies
+  private async linkSupabaseSession({ supabaseSession }: SessionResponse) {
+    if (!supabaseSession) return;
+    const { error } = await supabase.auth.setSession(supabaseSession);
+    if (error) throw new Error(`Failed to start Supabase session: ${error.message}`);
+  }
+
+  private setSession({ accessToken, refreshToken, expiresIn, user }: SessionResponse) {
+    localStorage.setItem(REFRESH_TOKEN_KEY, refreshToken);
+    localStorage.setItem(OFFLINE_USER_KEY, JSON.stringify(user));
+    this.session = { accessToken, expiresAt: Date.now() + expiresIn * 1000, user };
+    this.offlineUser = null;
+    this.notify();
+    return user;
+  }
+
+  // Also runs when the refresh token is refused, which is how a browser learns its account was erased
+  private clearSession() {
+    localStorage.removeItem(REFRESH_TOKEN_KEY);
+    localStorage.removeItem(OFFLINE_USER_KEY);
+    courseRepository.clearCache();
+    this.pendingSession = null;
+    supabase.auth.signOut({ scope: 'local' }).catch(error => console.error('Supabase sign-out error:', error));
+    const hadSession = this.session !== null || this.offlineUser !== null;
+    this.session = null;
+    this.offlineUser = null;
+    if (hadSession) this.notify();
+  }
+
+  private notify() {
+    const user = this.getCurrentUser();
+    this.listeners.forEach(listener => listener(user));
+  }
+
   async logout() {
-    localStorage.removeItem('cyberSecUser');
+    try {
+      if (this.session) {
+        // Ends the Supabase session on the server too; clearSession then drops the local copy
+        await apiRequest('/api/auth/logout', { method: 'POST', token: this.session.accessToken });
+      }
+    } catch (error) {
+      // The local session is cleared regardless; the server session expires on its own
+      console.error('Logout error:', error);
+    } finally {
+      this.clearSession();
+    }
+  }
+
+  getCurrentUser(): User | null {
+    return this.session?.user ?? this.offlineUser;
+  }
+
+  // Any script on the page can rewrite the stored copy, so it only ever opens the student views.
+  // Staff views wait for a session the server has confirmed, which brings the real role back.
+  private readOfflineUser(): User | null {
+    try {
+      const user: User | null = JSON.parse(localStorage.getItem(OFFLINE_USER_KEY) || 'null');
+      return user && { ...user, role: 'student', is_super_admin: false };
+    } catch {
+      return null;
+    }
   }
 
-  getCurrentUser() {
-    const userStr = localStorage.getItem('cyberSecUser');
-    return userStr ? JSON.parse(userStr) : null;
+  // Merges display-only changes into the session user. Identity fields stay as the server issued them.
+  updateCurrentUser(updates: Partial<User>) {
+    if (!this.session) return null;
+    const { user } = this.session;
+    this.session = {
+      ...this.session,
+      user: { ...user, ...updates, id: user.id, email: user.email, role: user.role }
+    };
+    localStorage.setItem(OFFLINE_USER_KEY, JSON.stringify(this.session.user));
+    this.notify();
+    return this.session.user;
   }
 
   isAdmin() {
@@ -136,4 +515,4 @@ class AuthService {
   }
 }
 
-export const authService = new AuthService();
\ No newline at end of file
+export const authService = new AuthService();
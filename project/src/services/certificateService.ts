@@ -0,0 +1,23 @@
+import { supabase } from '../lib/supabase';
+import type { EarnedCertificate } from '../types';
+
+// Certificates are awarded by the database when a course is completed; the browser only reads them
+class CertificateService {
+  async getCertificates(userId: string): Promise<EarnedCertificate[]> {
+    try {
+      const { data, error } = await supabase
+        .from('user_certificates')
+        .select('id, certificate_id, title, earned_at')
+        .eq('user_id', userId)
+        .order('earned_at', { ascending: false });
+
+      if (error) throw new Error(`Failed to fetch certificates: ${error.message}`);
+      return data || [];
+    } catch (error) {
+      console.error('Get certificates error:', error);
+      throw error;
+    }
+  }
+}
+
+export const certificateService = new CertificateService();
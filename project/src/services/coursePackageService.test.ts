@@ -0,0 +1,170 @@
+import { describe, expect, it, vi } from 'vitest';
+import { createZip } from '../lib/zip';
+import { labs } from '../data/labs';
+import { COURSE_PACKAGE_FORMAT, COURSE_PACKAGE_VERSION, coursePackageService } from './coursePackageService';
+
+// Rows written by importPackage, by table
+const db = vi.hoisted(() => ({ inserted: {} as Record<string, Record<string, unknown>[]> }));
+
+// Reading a package never touches the database; importing one only needs the inserts to succeed
+vi.mock('../lib/supabase', () => ({
+  supabase: {
+    from: (table: string) => {
+      const query = {
+        select: () => query,
+        like: () => query,
+        eq: () => query,
+        insert: (rows: Record<string, unknown>[]) => {
+          db.inserted[table] = rows;
+          return query;
+        },
+        single: async () => ({ data: { organization_id: 'org-1' }, error: null }),
+        then: (resolve: (result: { data: unknown[]; error: null }) => void) => resolve({ data: [], error: null })
+      };
+      return query;
+    }
+  }
+}));
+
+const courseId = '6f1c2a9e-3b0d-4c8e-9a51-2d7f4e8b1c30';
+const moduleId = 'a4e2d7c1-5f3b-4e09-8d6a-9c1b2e3f4a50';
+
+const questions = [{ question: 'What does XSS stand for?', options: ['Cross-site scripting', 'XML style sheets'], correctAnswer: 0 }];
+
+const manifest = (overrides: Record<string, unknown> = {}) => ({
+  format: COURSE_PACKAGE_FORMAT,
+  version: COURSE_PACKAGE_VERSION,
+  exportedAt: '2026-10-19T12:00:00.000Z',
+  course: { id: courseId, slug: 'web-basics', title: 'Web Basics', description: '', category: null, difficulty: 'beginner', estimatedHours: 2 },
+  modules: [{
+    id: moduleId,
+    slug: 'module-1',
+    title: 'Cross-site scripting',
+    description: '',
+    contentFile: 'modules/01-module-1.md',
+    quizFile: 'quizzes/01-module-1.json',
+    videoUrl: 'media/intro.mp4',
+    labUrl: `/labs/${labs[0].id}`,
+    published: true
+  }],
+  labs: [{ id: labs[0].id, file: `labs/${labs[0].id}.json` }],
+  media: [{ path: 'media/intro.mp4', contentType: 'video/mp4' }],
+  ...overrides
+});
+
+const packageFiles = (overrides: Record<string, string | null> = {}) =>
+  Object.entries({
+    'manifest.json': JSON.stringify(manifest()),
+    'modules/01-module-1.md': '# Cross-site scripting',
+    'quizzes/01-module-1.json': JSON.stringify(questions),
+    'media/intro.mp4': 'video',
+    ...overrides
+  })
+    .filter((entry): entry is [string, string] => entry[1] !== null)
+    .map(([name, data]) => ({ name, data }));
+
+const read = (overrides?: Record<string, string | null>) => coursePackageService.readPackage(createZip(packageFiles(overrides)));
+
+describe('coursePackageService.readPackage', () => {
+  it('accepts a complete package', async () => {
+    const pkg = await read();
+
+    expect(pkg.errors).toEqual([]);
+    expect(pkg.warnings).toEqual([]);
+    expect(pkg.manifest?.course.title).toBe('Web Basics');
+    expect([...pkg.files.keys()]).toContain('media/intro.mp4');
+  });
+
+  it('rejects files that are not zip archives', async () => {
+    const pkg = await coursePackageService.readPackage(new Blob(['not a zip']));
+
+    expect(pkg.manifest).toBeNull();
+    expect(pkg.errors).toHaveLength(1);
+  });
+
+  it('requires a readable manifest of the right format and version', async () => {
+    expect((await read({ 'manifest.json': null })).errors).toEqual(['manifest.json is missing']);
+    expect((await read({ 'manifest.json': '{' })).errors).toEqual(['manifest.json is not valid JSON']);
+    expect((await read({ 'manifest.json': JSON.stringify(manifest({ format: 'scorm' })) })).errors).toEqual(['Not a course package (format "scorm")']);
+    expect((await read({ 'manifest.json': JSON.stringify(manifest({ version: COURSE_PACKAGE_VERSION + 1 })) })).errors[0]).toMatch(/newer release/);
+  });
+
+  it('reports missing files and media', async () => {
+    const pkg = await read({ 'modules/01-module-1.md': null, 'media/intro.mp4': null });
+
+    expect(pkg.manifest).toBeNull();
+    expect(pkg.errors).toEqual([
+      'Module 1 content file modules/01-module-1.md is missing',
+      'Module 1 video points to media/intro.mp4, which is not in the package'
+    ]);
+  });
+
+  it('checks quiz questions', async () => {
+    const pkg = await read({
+      'quizzes/01-module-1.json': JSON.stringify([
+        { question: 'Only one option', options: ['A'], correctAnswer: 0 },
+        { question: 'Answer out of range', options: ['A', 'B'], correctAnswer: 2 }
+      ])
+    });
+
+    expect(pkg.errors).toEqual([
+      'quizzes/01-module-1.json question 1 needs at least two text options',
+      'quizzes/01-module-1.json question 2 has no valid correctAnswer'
+    ]);
+  });
+
+  it('rejects repeated module slugs', async () => {
+    const [module] = manifest().modules;
+    const pkg = await read({ 'manifest.json': JSON.stringify(manifest({ modules: [module, { ...module, id: '0c9d8e7f-6a5b-4c3d-8e2f-1a0b9c8d7e60' }] })) });
+
+    expect(pkg.errors).toEqual(['Module 2 repeats the slug "module-1"']);
+  });
+
+  it('requires UUID course and module ids', async () => {
+    const [module] = manifest().modules;
+    const pkg = await read({
+      'manifest.json': JSON.stringify(manifest({ course: { ...manifest().course, id: 'e' }, modules: [{ ...module, id: '1' }] }))
+    });
+
+    expect(pkg.manifest).toBeNull();
+    expect(pkg.errors).toEqual(['The course id "e" is not a UUID', 'Module 1 id "1" is not a UUID']);
+  });
+
+  it('rejects repeated module ids', async () => {
+    const [module] = manifest().modules;
+    const pkg = await read({ 'manifest.json': JSON.stringify(manifest({ modules: [module, { ...module, slug: 'module-2' }] })) });
+
+    expect(pkg.errors).toEqual([`Module 2 repeats the id "${moduleId}"`]);
+  });
+
+  it('warns about labs this platform does not have', async () => {
+    const pkg = await read({ 'manifest.json': JSON.stringify(manifest({ labs: [{ id: 'quantum-lab', file: 'labs/quantum-lab.json' }] })) });
+
+    expect(pkg.errors).toEqual([]);
+    expect(pkg.warnings).toEqual(['Lab "quantum-lab" is not available on this platform; links to it will show as unknown']);
+  });
+});
+
+describe('coursePackageService.importPackage', () => {
+  it('rewrites whole course and module ids only', async () => {
+    const longerId = `${moduleId}ff`;
+    const content = [
+      `[Next](/courses/${courseId}/modules/${moduleId.toUpperCase()})`,
+      `Unrelated id ${longerId} and version 1e-3 stay as they are`
+    ].join('\n');
+    const pkg = await read({
+      'manifest.json': JSON.stringify(manifest({ media: [], modules: [{ ...manifest().modules[0], videoUrl: null }] })),
+      'modules/01-module-1.md': content
+    });
+
+    const { courseId: newCourseId, idMap } = await coursePackageService.importPackage(pkg, { teacherId: 'teacher-1' });
+
+    const [row] = db.inserted.course_modules;
+    expect(row.id).toBe(idMap[moduleId]);
+    expect(row.course_id).toBe(newCourseId);
+    expect(row.content).toBe([
+      `[Next](/courses/${newCourseId}/modules/${idMap[moduleId]})`,
+      `Unrelated id ${longerId} and version 1e-3 stay as they are`
+    ].join('\n'));
+  });
+});
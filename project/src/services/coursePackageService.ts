@@ -0,0 +1,468 @@
+import { supabase } from '../lib/supabase';
+import { createZip, readZip } from '../lib/zip';
+import { slugify } from '../lib/markdown';
+import { labs } from '../data/labs';
+import { getStoredModuleQuestions } from '../data/moduleQuestions';
+import { courseService } from './courseService';
+import { courseRepository } from './courseRepository';
+import type { Course, Module, ModuleQuestion } from '../types';
+
+// A course package is a ZIP holding manifest.json plus the files it points to:
+//   modules/NN-<slug>.md     module content (markdown)
+//   quizzes/NN-<slug>.json   module test questions
+//   labs/<id>.json           definitions of the labs the course links to
+//   media/<file>             videos and other files uploaded to this instance's storage
+// Bump COURSE_PACKAGE_VERSION when the layout changes; older versions must keep importing.
+export const COURSE_PACKAGE_FORMAT = 'career-connect-course';
+export const COURSE_PACKAGE_VERSION = 1;
+
+const MANIFEST_FILE = 'manifest.json';
+const MEDIA_DIR = 'media/';
+const STORAGE_URL = /\/storage\/v1\/object\/public\/uploads\//;
+const LAB_PATH = /^\/labs\/([^/?#]+)/;
+const LAB_EMBED = /^\s*::lab\s+(\S+)\s*$/gm;
+
+export interface PackageCourse {
+  id: string;
+  slug: string | null;
+  title: string;
+  description: string;
+  category: string | null;
+  difficulty: Course['difficulty'] | null;
+  estimatedHours: number;
+  translations?: Course['translations'];
+}
+
+export interface PackageModule {
+  id: string;
+  slug: string | null;
+  title: string;
+  description: string;
+  contentFile: string;
+  quizFile?: string;
+  // A URL, or a path under media/ for files shipped in the package
+  videoUrl: string | null;
+  labUrl: string | null;
+  published: boolean;
+  translations?: Module['translations'];
+}
+
+export interface CoursePackageManifest {
+  format: string;
+  version: number;
+  exportedAt: string;
+  course: PackageCourse;
+  modules: PackageModule[];
+  labs: { id: string; file: string }[];
+  media: { path: string; contentType: string }[];
+}
+
+export interface CoursePackage {
+  manifest: CoursePackageManifest | null;
+  files: Map<string, Uint8Array>;
+  // Problems that block the import
+  errors: string[];
+  // Things that import but may not work as they did at the source
+  warnings: string[];
+}
+
+export interface CoursePackageImportResult {
+  courseId: string;
+  // Source id -> id in this instance, for the course and each module
+  idMap: Record<string, string>;
+}
+
+interface CourseRow {
+  id: string;
+  slug: string | null;
+  title: string;
+  description: string | null;
+  category: string | null;
+  difficulty: Course['difficulty'] | null;
+  estimated_hours: number | null;
+  translations: Course['translations'] | null;
+}
+
+const decoder = new TextDecoder();
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isString = (value: unknown): value is string => typeof value === 'string';
+// Course and module ids are rewritten wherever they appear, so they must be UUIDs that cannot occur by accident
+const isUuid = (value: unknown): value is string =>
+  isString(value) && /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i.test(value);
+
+const fileBase = (index: number, module: { slug?: string | null; title: string }) =>
+  `${String(index + 1).padStart(2, '0')}-${slugify(module.slug || module.title)}`;
+
+// Lab ids a module points at, through its lab link or ::lab embeds
+function referencedLabs(content: string, labUrl: string | null) {
+  const ids = new Set<string>();
+  const linked = labUrl ? LAB_PATH.exec(labUrl) : null;
+  if (linked) ids.add(decodeURIComponent(linked[1]));
+  for (const match of content.matchAll(LAB_EMBED)) ids.add(match[1]);
+  return ids;
+}
+
+// Questions keep only the fields the app reads, in the shape ModuleTest expects
+function validateQuestions(value: unknown, file: string, errors: string[]): ModuleQuestion[] {
+  if (!Array.isArray(value)) {
+    errors.push(`${file} must be a list of questions`);
+    return [];
+  }
+  return value.flatMap((item, index) => {
+    const label = `${file} question ${index + 1}`;
+    if (!isObject(item) || !isString(item.question) || !item.question.trim()) {
+      errors.push(`${label} has no question text`);
+      return [];
+    }
+    if (!Array.isArray(item.options) || item.options.length < 2 || !item.options.every(isString)) {
+      errors.push(`${label} needs at least two text options`);
+      return [];
+    }
+    if (!Number.isInteger(item.correctAnswer) || (item.correctAnswer as number) < 0 || (item.correctAnswer as number) >= item.options.length) {
+      errors.push(`${label} has no valid correctAnswer`);
+      return [];
+    }
+    return [{
+      question: item.question,
+      options: item.options,
+      correctAnswer: item.correctAnswer as number,
+      explanation: isString(item.explanation) ? item.explanation : undefined,
+      translations: isObject(item.translations) ? (item.translations as ModuleQuestion['translations']) : undefined
+    }];
+  });
+}
+
+function validateManifest(value: unknown, files: Map<string, Uint8Array>, errors: string[], warnings: string[]) {
+  if (!isObject(value)) {
+    errors.push(`${MANIFEST_FILE} is not a JSON object`);
+    return null;
+  }
+  if (value.format !== COURSE_PACKAGE_FORMAT) {
+    errors.push(`Not a course package (format "${String(value.format)}")`);
+    return null;
+  }
+  if (!Number.isInteger(value.version) || (value.version as number) < 1) {
+    errors.push('Package version is missing');
+    return null;
+  }
+  if ((value.version as number) > COURSE_PACKAGE_VERSION) {
+    errors.push(`Package version ${value.version} was made by a newer release; this one reads up to version ${COURSE_PACKAGE_VERSION}`);
+    return null;
+  }
+
+  const { course, modules } = value;
+  if (!isObject(course) || !isString(course.title) || !course.title.trim()) {
+    errors.push('The course has no title');
+  } else if (!isString(course.id)) {
+    errors.push('The course has no id');
+  } else if (!isUuid(course.id)) {
+    errors.push(`The course id "${course.id}" is not a UUID`);
+  }
+  if (!Array.isArray(modules)) {
+    errors.push('The manifest has no module list');
+    return null;
+  }
+
+  const mediaPaths = new Set(Array.isArray(value.media) ? value.media.filter(isObject).map(m => m.path) : []);
+  const checkMedia = (url: unknown, label: string) => {
+    if (isString(url) && url.startsWith(MEDIA_DIR) && (!mediaPaths.has(url) || !files.has(url))) {
+      errors.push(`${label} points to ${url}, which is not in the package`);
+    }
+  };
+
+  const slugs = new Set<string>();
+  const ids = new Set(isObject(course) && isUuid(course.id) ? [course.id.toLowerCase()] : []);
+  modules.forEach((module, index) => {
+    const label = `Module ${index + 1}`;
+    if (!isObject(module) || !isString(module.title) || !module.title.trim()) {
+      errors.push(`${label} has no title`);
+      return;
+    }
+    if (!isString(module.id)) {
+      errors.push(`${label} has no id`);
+    } else if (!isUuid(module.id)) {
+      errors.push(`${label} id "${module.id}" is not a UUID`);
+    } else {
+      if (ids.has(module.id.toLowerCase())) errors.push(`${label} repeats the id "${module.id}"`);
+      ids.add(module.id.toLowerCase());
+    }
+    if (!isString(module.contentFile) || !files.has(module.contentFile)) {
+      errors.push(`${label} content file ${String(module.contentFile)} is missing`);
+    }
+    if (isString(module.slug)) {
+      if (slugs.has(module.slug)) errors.push(`${label} repeats the slug "${module.slug}"`);
+      slugs.add(module.slug);
+    }
+    if (module.quizFile !== undefined) {
+      const quiz = isString(module.quizFile) ? files.get(module.quizFile) : undefined;
+      if (!quiz) {
+        errors.push(`${label} quiz file ${String(module.quizFile)} is missing`);
+      } else {
+        try {
+          validateQuestions(JSON.parse(decoder.decode(quiz)), module.quizFile as string, errors);
+        } catch {
+          errors.push(`${module.quizFile} is not valid JSON`);
+        }
+      }
+    }
+    checkMedia(module.videoUrl, `${label} video`);
+    checkMedia(module.labUrl, `${label} lab link`);
+  });
+
+  // Labs ship with the app, so a package can only link to labs this instance already has
+  const packagedLabs = Array.isArray(value.labs) ? value.labs.filter(isObject) : [];
+  for (const lab of packagedLabs) {
+    if (!isString(lab.id)) continue;
+    if (!labs.some(l => l.id === lab.id)) {
+      warnings.push(`Lab "${lab.id}" is not available on this platform; links to it will show as unknown`);
+    }
+  }
+
+  return errors.length ? null : (value as unknown as CoursePackageManifest);
+}
+
+class CoursePackageService {
+  async exportCourse(courseId: string): Promise<{ filename: string; blob: Blob }> {
+    try {
+      const { data: course, error } = await supabase
+        .from('courses')
+        .select('id, slug, title, description, category, difficulty, estimated_hours, translations')
+        .eq('id', courseId)
+        .single();
+
+      if (error) throw new Error(`Failed to fetch course: ${error.message}`);
+      const source = course as CourseRow;
+      const modules = await courseService.getCourseModules(courseId);
+
+      const files: { name: string; data: Uint8Array | string }[] = [];
+      const media: CoursePackageManifest['media'] = [];
+      const packedMedia = new Map<string, string>();
+      const labIds = new Set<string>();
+
+      // Files in this instance's storage travel inside the package; other URLs are kept as they are
+      const packMedia = async (url: string | null) => {
+        if (!url || !STORAGE_URL.test(url)) return url;
+        const existing = packedMedia.get(url);
+        if (existing) return existing;
+
+        const response = await fetch(url);
+        if (!response.ok) throw new Error(`Failed to download ${url}: ${response.status}`);
+        const blob = await response.blob();
+        const name = decodeURIComponent(new URL(url).pathname.split('/').pop() || 'file');
+        const path = `${MEDIA_DIR}${media.length + 1}-${name}`;
+        files.push({ name: path, data: new Uint8Array(await blob.arrayBuffer()) });
+        media.push({ path, contentType: blob.type || 'application/octet-stream' });
+        packedMedia.set(url, path);
+        return path;
+      };
+
+      const packageModules: PackageModule[] = [];
+      for (const [index, module] of modules.entries()) {
+        const base = fileBase(index, module);
+        const content = module.content ?? '';
+        const contentFile = `modules/${base}.md`;
+        files.push({ name: contentFile, data: content });
+
+        const questions = getStoredModuleQuestions(module);
+        let quizFile: string | undefined;
+        if (questions.length) {
+          quizFile = `quizzes/${base}.json`;
+          files.push({ name: quizFile, data: JSON.stringify(questions, null, 2) });
+        }
+
+        referencedLabs(content, module.lab_url).forEach(id => labIds.add(id));
+        packageModules.push({
+          id: module.id,
+          slug: module.slug ?? null,
+          title: module.title,
+          description: module.description ?? '',
+          contentFile,
+          quizFile,
+          videoUrl: await packMedia(module.video_url),
+          labUrl: await packMedia(module.lab_url),
+          published: module.is_published,
+          translations: module.translations ?? undefined
+        });
+      }
+
+      const packageLabs = labs
+        .filter(lab => labIds.has(lab.id))
+        .map(lab => {
+          const file = `labs/${lab.id}.json`;
+          // Completion is the exporting user's progress, not part of the lab
+          files.push({ name: file, data: JSON.stringify({ ...lab, completed: undefined }, null, 2) });
+          return { id: lab.id, file };
+        });
+
+      const manifest: CoursePackageManifest = {
+        format: COURSE_PACKAGE_FORMAT,
+        version: COURSE_PACKAGE_VERSION,
+        exportedAt: new Date().toISOString(),
+        course: {
+          id: source.id,
+          slug: source.slug,
+          title: source.title,
+          description: source.description ?? '',
+          category: source.category,
+          difficulty: source.difficulty,
+          estimatedHours: source.estimated_hours ?? 0,
+          translations: source.translations ?? undefined
+        },
+        modules: packageModules,
+        labs: packageLabs,
+        media
+      };
+
+      return {
+        filename: `${slugify(source.slug || source.title)}.course.zip`,
+        blob: createZip([{ name: MANIFEST_FILE, data: JSON.stringify(manifest, null, 2) }, ...files])
+      };
+    } catch (error) {
+      console.error('Export course package error:', error);
+      throw error;
+    }
+  }
+
+  // Reads and validates a package without touching the database
+  async readPackage(file: Blob): Promise<CoursePackage> {
+    const errors: string[] = [];
+    const warnings: string[] = [];
+    let files = new Map<string, Uint8Array>();
+
+    try {
+      files = new Map((await readZip(await file.arrayBuffer())).map(entry => [entry.name, entry.data]));
+    } catch (error) {
+      errors.push(error instanceof Error ? error.message : 'Could not read the archive');
+      return { manifest: null, files, errors, warnings };
+    }
+
+    const manifestData = files.get(MANIFEST_FILE);
+    if (!manifestData) {
+      errors.push(`${MANIFEST_FILE} is missing`);
+      return { manifest: null, files, errors, warnings };
+    }
+
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(decoder.decode(manifestData));
+    } catch {
+      errors.push(`${MANIFEST_FILE} is not valid JSON`);
+      return { manifest: null, files, errors, warnings };
+    }
+
+    return { manifest: validateManifest(parsed, files, errors, warnings), files, errors, warnings };
+  }
+
+  // Creates the course as a draft owned by `teacherId`. Every course and module gets a new id;
+  // references to the old ids inside module content and links are rewritten to match.
+  async importPackage(pkg: CoursePackage, options: { teacherId: string; organizationId?: string }): Promise<CoursePackageImportResult> {
+    const { manifest, files } = pkg;
+    if (!manifest || pkg.errors.length) throw new Error('The package has errors and cannot be imported');
+
+    const courseId = crypto.randomUUID();
+    // Keyed by lowercase id; only whole UUIDs are replaced, never a match inside a longer one
+    const idMap: Record<string, string> = { [manifest.course.id.toLowerCase()]: courseId };
+    manifest.modules.forEach(module => {
+      idMap[module.id.toLowerCase()] = crypto.randomUUID();
+    });
+    const idPattern = new RegExp(`(?<![0-9a-f-])(?:${Object.keys(idMap).join('|')})(?![0-9a-f-])`, 'gi');
+    const remap = (text: string) => text.replace(idPattern, id => idMap[id.toLowerCase()]);
+    const remapJson = <T,>(value: T): T => (value === undefined ? value : JSON.parse(remap(JSON.stringify(value))));
+
+    // Media is stored under the organization the course ended up in
+    let organizationId: string;
+    try {
+      const { data, error } = await supabase.from('courses').insert([{
+        id: courseId,
+        slug: await this.availableSlug(manifest.course.slug || slugify(manifest.course.title), options.organizationId),
+        title: manifest.course.title,
+        description: manifest.course.description,
+        category: manifest.course.category,
+        difficulty: manifest.course.difficulty || 'beginner',
+        estimated_hours: manifest.course.estimatedHours || 0,
+        translations: manifest.course.translations ?? {},
+        teacher_id: options.teacherId,
+        is_published: false,
+        enrollment_count: 0,
+        rating: 0,
+        ...(options.organizationId ? { organization_id: options.organizationId } : {})
+      }]).select('organization_id').single();
+      if (error) throw new Error(`Failed to create course: ${error.message}`);
+      organizationId = data.organization_id;
+    } catch (error) {
+      console.error('Import course package error:', error);
+      throw error;
+    }
+
+    try {
+      const mediaUrls = new Map<string, string>();
+      const resolveUrl = async (url: string | null) => {
+        if (!url) return null;
+        if (!url.startsWith(MEDIA_DIR)) return remap(url);
+        if (!mediaUrls.has(url)) mediaUrls.set(url, await this.uploadMedia(organizationId, courseId, url, files.get(url)!, manifest));
+        return mediaUrls.get(url)!;
+      };
+
+      const rows = [];
+      for (const [index, module] of manifest.modules.entries()) {
+        const quiz = module.quizFile ? files.get(module.quizFile) : undefined;
+        rows.push({
+          id: idMap[module.id.toLowerCase()],
+          course_id: courseId,
+          slug: module.slug,
+          title: module.title,
+          description: module.description ?? '',
+          content: remap(decoder.decode(files.get(module.contentFile))),
+          video_url: await resolveUrl(module.videoUrl),
+          lab_url: await resolveUrl(module.labUrl),
+          is_published: Boolean(module.published),
+          module_order: index + 1,
+          quiz_questions: quiz ? validateQuestions(JSON.parse(decoder.decode(quiz)), module.quizFile!, []) : [],
+          translations: remapJson(module.translations) ?? {}
+        });
+      }
+
+      if (rows.length) {
+        const { error } = await supabase.from('course_modules').insert(rows);
+        if (error) throw new Error(`Failed to create modules: ${error.message}`);
+      }
+
+      courseRepository.invalidate();
+      return { courseId, idMap };
+    } catch (error) {
+      // Leave nothing half-imported behind; modules go with the course
+      await supabase.from('courses').delete().eq('id', courseId);
+      console.error('Import course package error:', error);
+      throw error;
+    }
+  }
+
+  // The package's slug, or slug-2, slug-3... when the organization already has a course with it
+  private async availableSlug(base: string, organizationId?: string) {
+    let query = supabase.from('courses').select('slug').like('slug', `${base}%`);
+    if (organizationId) query = query.eq('organization_id', organizationId);
+    const { data, error } = await query;
+    if (error) throw new Error(`Failed to check course slugs: ${error.message}`);
+
+    const taken = new Set((data || []).map(row => row.slug));
+    let slug = base;
+    for (let n = 2; taken.has(slug); n++) slug = `${base}-${n}`;
+    return slug;
+  }
+
+  private async uploadMedia(organizationId: string, courseId: string, path: string, data: Uint8Array, manifest: CoursePackageManifest) {
+    const contentType = manifest.media.find(m => m.path === path)?.contentType || 'application/octet-stream';
+    const filePath = `courses/${organizationId}/${courseId}/${path.slice(MEDIA_DIR.length)}`;
+    const { error } = await supabase.storage
+      .from('uploads')
+      .upload(filePath, new Blob([data], { type: contentType }), { contentType });
+
+    if (error) throw new Error(`Failed to upload ${path}: ${error.message}`);
+    return supabase.storage.from('uploads').getPublicUrl(filePath).data.publicUrl;
+  }
+}
+
+export const coursePackageService = new CoursePackageService();
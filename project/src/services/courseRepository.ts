@@ -0,0 +1,218 @@
+import { supabase } from '../lib/supabase';
+import type { Course, GradedModuleTest, Module } from '../types';
+
+// The OWASP Top 10 course every organization is seeded with
+export const OWASP_COURSE_SLUG = 'owasp-top-10';
+
+const CACHE_PREFIX = 'course-catalog:';
+
+interface CourseRow {
+  id: string;
+  slug: string | null;
+  title: string;
+  description: string | null;
+  difficulty: Course['difficulty'];
+  estimated_hours: number | null;
+  translations: Course['translations'] | null;
+}
+
+interface ModuleRow {
+  id: string;
+  course_id: string;
+  slug: string | null;
+  title: string;
+  description: string | null;
+  content: string | null;
+  video_url: string | null;
+  lab_url: string | null;
+  quiz_questions: Module['quizQuestions'] | null;
+  translations: Module['translations'] | null;
+}
+
+interface ProgressRow {
+  module_id: string | null;
+  completed: boolean | null;
+  quiz_score: number | null;
+}
+
+const percentComplete = (modules: Module[]) =>
+  modules.length ? Math.round((modules.filter(m => m.completed).length / modules.length) * 100) : 0;
+
+// Published courses and modules as the student views render them, with the learner's progress merged in
+class CourseRepository {
+  private catalogs = new Map<string, Promise<Course[]>>();
+
+  async listCourses(userId: string): Promise<Course[]> {
+    if (!this.catalogs.has(userId)) {
+      const loading = this.fetchCourses(userId).catch(error => {
+        this.catalogs.delete(userId);
+        // Offline, the last catalog this browser saw still opens
+        const cached = this.readCache(userId);
+        if (cached) return cached;
+        throw error;
+      });
+      this.catalogs.set(userId, loading);
+    }
+    return this.catalogs.get(userId)!;
+  }
+
+  async getCourse(userId: string, courseId: string): Promise<Course | null> {
+    const courses = await this.listCourses(userId);
+    return courses.find(course => course.id === courseId) ?? null;
+  }
+
+  async findBySlug(userId: string, slug: string): Promise<Course | null> {
+    const courses = await this.listCourses(userId);
+    return courses.find(course => course.slug === slug) ?? null;
+  }
+
+  // Applies a module result locally so every view shows it before (or without) a refetch.
+  // The write itself goes through offlineSyncService.
+  async recordModuleResult(userId: string, courseId: string, moduleId: string, score: number) {
+    const courses = await this.listCourses(userId);
+    const updated = courses.map(course => {
+      if (course.id !== courseId) return course;
+      const modules = course.modules.map(module =>
+        module.id === moduleId
+          ? { ...module, completed: true, testScore: Math.max(module.testScore ?? 0, score) }
+          : module
+      );
+      return { ...course, modules, progress: percentComplete(modules) };
+    });
+    this.catalogs.set(userId, Promise.resolve(updated));
+    this.writeCache(userId, updated);
+    return updated.find(course => course.id === courseId) ?? null;
+  }
+
+  // Module rows hold no answers, so tests on a module's own questions are graded in the database
+  async gradeModuleTest(moduleId: string, answers: number[]): Promise<GradedModuleTest> {
+    try {
+      const { data, error } = await supabase.rpc('grade_module_test', { p_module_id: moduleId, p_answers: answers });
+      if (error) throw new Error(`Failed to grade test: ${error.message}`);
+      return data as GradedModuleTest;
+    } catch (error) {
+      console.error('Grade module test error:', error);
+      throw error;
+    }
+  }
+
+  // Drops cached catalogs, e.g. after a teacher publishes a course
+  invalidate() {
+    this.catalogs.clear();
+  }
+
+  private async fetchCourses(userId: string): Promise<Course[]> {
+    try {
+      const { data: courses, error } = await supabase
+        .from('courses')
+        .select('id, slug, title, description, difficulty, estimated_hours, translations')
+        .eq('is_published', true)
+        .order('created_at', { ascending: true });
+
+      if (error) throw new Error(`Failed to fetch courses: ${error.message}`);
+      if (!courses?.length) return [];
+
+      const courseIds = courses.map(course => course.id);
+      const [{ data: modules, error: modulesError }, { data: progress, error: progressError }] = await Promise.all([
+        supabase
+          .from('course_modules')
+          .select('id, course_id, slug, title, description, content, video_url, lab_url, quiz_questions, translations')
+          .in('course_id', courseIds)
+          .eq('is_published', true)
+          .order('module_order', { ascending: true }),
+        supabase
+          .from('user_progress')
+          .select('module_id, completed, quiz_score')
+          .eq('user_id', userId)
+          .in('course_id', courseIds)
+      ]);
+
+      if (modulesError) throw new Error(`Failed to fetch modules: ${modulesError.message}`);
+      if (progressError) throw new Error(`Failed to fetch progress: ${progressError.message}`);
+
+      const catalog = this.assemble(courses as CourseRow[], (modules || []) as ModuleRow[], (progress || []) as ProgressRow[]);
+      this.writeCache(userId, catalog);
+      return catalog;
+    } catch (error) {
+      console.error('Get courses error:', error);
+      throw error;
+    }
+  }
+
+  private assemble(courses: CourseRow[], modules: ModuleRow[], progress: ProgressRow[]): Course[] {
+    // A module can have several progress rows (path allocation, retakes); completion sticks and the best score counts
+    const results = new Map<string, { completed: boolean; score: number }>();
+    for (const row of progress) {
+      if (!row.module_id) continue;
+      const current = results.get(row.module_id) ?? { completed: false, score: 0 };
+      results.set(row.module_id, {
+        completed: current.completed || Boolean(row.completed),
+        score: Math.max(current.score, row.quiz_score ?? 0)
+      });
+    }
+
+    return courses.map(course => {
+      const courseModules: Module[] = modules
+        .filter(module => module.course_id === course.id)
+        .map(module => {
+          const result = results.get(module.id);
+          return {
+            id: module.id,
+            slug: module.slug,
+            title: module.title,
+            description: module.description ?? '',
+            content: module.content ?? '',
+            videoUrl: module.video_url ?? undefined,
+            labUrl: module.lab_url ?? undefined,
+            completed: result?.completed ?? false,
+            testScore: result?.completed ? result.score : undefined,
+            quizQuestions: module.quiz_questions ?? undefined,
+            translations: module.translations ?? undefined
+          };
+        });
+
+      return {
+        id: course.id,
+        slug: course.slug,
+        title: course.title,
+        description: course.description ?? '',
+        difficulty: course.difficulty,
+        estimatedHours: course.estimated_hours ?? undefined,
+        modules: courseModules,
+        progress: percentComplete(courseModules),
+        translations: course.translations ?? undefined
+      };
+    });
+  }
+
+  // Forgets every cached catalog on this browser, e.g. on sign-out or account erasure
+  clearCache() {
+    try {
+      Object.keys(localStorage)
+        .filter(key => key.startsWith(CACHE_PREFIX))
+        .forEach(key => localStorage.removeItem(key));
+    } catch (error) {
+      console.error('Clear course catalog cache error:', error);
+    }
+  }
+
+  private readCache(userId: string): Course[] | null {
+    try {
+      const raw = localStorage.getItem(CACHE_PREFIX + userId);
+      return raw ? JSON.parse(raw) : null;
+    } catch {
+      return null;
+    }
+  }
+
+  private writeCache(userId: string, courses: Course[]) {
+    try {
+      localStorage.setItem(CACHE_PREFIX + userId, JSON.stringify(courses));
+    } catch (error) {
+      // Storage full or disabled: the catalog just won't be available offline
+      console.error('Cache course catalog error:', error);
+    }
+  }
+}
+
+export const courseRepository = new CourseRepository();
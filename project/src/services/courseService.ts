@@ -1,4 +1,6 @@
 import { supabase } from '../lib/supabase';
+import { courseRepository } from './courseRepository';
+import type { CourseModuleRecord } from '../types';
 
 class CourseService {
   // Course Management
@@ -28,6 +30,7 @@ class CourseService {
       }
       
       console.log('Course created successfully:', data);
+      courseRepository.invalidate();
       return data;
     } catch (error) {
       console.error('Create course error:', error);
@@ -45,6 +48,7 @@ class CourseService {
         .single();
 
       if (error) throw new Error(`Failed to update course: ${error.message}`);
+      courseRepository.invalidate();
       return data;
     } catch (error) {
       console.error('Update course error:', error);
@@ -60,6 +64,7 @@ class CourseService {
         .eq('id', id);
 
       if (error) throw new Error(`Failed to delete course: ${error.message}`);
+      courseRepository.invalidate();
       return true;
     } catch (error) {
       console.error('Delete course error:', error);
@@ -133,6 +138,7 @@ class CourseService {
         .single();
 
       if (error) throw new Error(`Failed to create module: ${error.message}`);
+      courseRepository.invalidate();
       return data;
     } catch (error) {
       console.error('Create module error:', error);
@@ -150,6 +156,7 @@ class CourseService {
         .single();
 
       if (error) throw new Error(`Failed to update module: ${error.message}`);
+      courseRepository.invalidate();
       return data;
     } catch (error) {
       console.error('Update module error:', error);
@@ -157,6 +164,66 @@ class CourseService {
     }
   }
 
+  // Every module of a course, drafts included, for the authoring editor.
+  // Test questions come with their answers, which are kept apart from the rows learners read.
+  async getCourseModules(courseId: string): Promise<CourseModuleRecord[]> {
+    try {
+      const { data, error } = await supabase
+        .from('course_modules')
+        .select('*, answers:course_module_quiz_answers(quiz_questions)')
+        .eq('course_id', courseId)
+        .order('module_order', { ascending: true });
+
+      if (error) throw new Error(`Failed to fetch modules: ${error.message}`);
+      return (data || []).map(({ answers, ...module }) => ({ ...module, quiz_questions: answers?.quiz_questions ?? module.quiz_questions }));
+    } catch (error) {
+      console.error('Get course modules error:', error);
+      throw error;
+    }
+  }
+
+  async deleteModule(id: string) {
+    try {
+      const { error } = await supabase
+        .from('course_modules')
+        .delete()
+        .eq('id', id);
+
+      if (error) throw new Error(`Failed to delete module: ${error.message}`);
+      courseRepository.invalidate();
+      return true;
+    } catch (error) {
+      console.error('Delete module error:', error);
+      throw error;
+    }
+  }
+
+  // Saves the list order as module_order 1..n, touching only the modules that moved
+  async reorderModules<T extends Pick<CourseModuleRecord, 'id' | 'module_order'>>(modules: T[]): Promise<T[]> {
+    try {
+      const moved = modules
+        .map((module, index) => ({ id: module.id, from: module.module_order, to: index + 1 }))
+        .filter(module => module.from !== module.to);
+
+      const results = await Promise.all(
+        moved.map(module =>
+          supabase
+            .from('course_modules')
+            .update({ module_order: module.to })
+            .eq('id', module.id)
+        )
+      );
+
+      const failed = results.find(result => result.error);
+      if (failed?.error) throw new Error(`Failed to reorder modules: ${failed.error.message}`);
+      courseRepository.invalidate();
+      return modules.map((module, index) => ({ ...module, module_order: index + 1 }));
+    } catch (error) {
+      console.error('Reorder modules error:', error);
+      throw error;
+    }
+  }
+
   async getModulesByCourse(courseId) {
     try {
       const { data, error } = await supabase
@@ -0,0 +1,141 @@
+import { supabase } from '../lib/supabase';
+import type { Notification, NotificationPreferences, NotificationType } from '../types';
+
+export const NOTIFICATION_TYPES: { type: NotificationType; label: string; description: string }[] = [
+  { type: 'course_published', label: 'New courses', description: 'A course is published in your organization' },
+  { type: 'material_posted', label: 'New material', description: 'A teacher posts notes or a new module in one of your courses' },
+  { type: 'certificate_earned', label: 'Certificates', description: 'You earn a certificate' },
+  { type: 'system', label: 'Announcements', description: 'Platform news and account notices' }
+];
+
+const PAGE_SIZE = 30;
+
+class NotificationService {
+  async getNotifications(userId: string): Promise<Notification[]> {
+    try {
+      const { data, error } = await supabase
+        .from('notifications')
+        .select('*')
+        .eq('user_id', userId)
+        .order('created_at', { ascending: false })
+        .limit(PAGE_SIZE);
+
+      if (error) throw new Error(`Failed to fetch notifications: ${error.message}`);
+      return data || [];
+    } catch (error) {
+      console.error('Get notifications error:', error);
+      throw error;
+    }
+  }
+
+  async getUnreadCount(userId: string): Promise<number> {
+    try {
+      const { count, error } = await supabase
+        .from('notifications')
+        .select('id', { count: 'exact', head: true })
+        .eq('user_id', userId)
+        .is('read_at', null);
+
+      if (error) throw new Error(`Failed to count notifications: ${error.message}`);
+      return count || 0;
+    } catch (error) {
+      console.error('Count notifications error:', error);
+      throw error;
+    }
+  }
+
+  async markRead(notificationId: string) {
+    try {
+      const { error } = await supabase
+        .from('notifications')
+        .update({ read_at: new Date().toISOString() })
+        .eq('id', notificationId)
+        .is('read_at', null);
+
+      if (error) throw new Error(`Failed to mark notification as read: ${error.message}`);
+    } catch (error) {
+      console.error('Mark notification read error:', error);
+      throw error;
+    }
+  }
+
+  async markAllRead(userId: string) {
+    try {
+      const { error } = await supabase
+        .from('notifications')
+        .update({ read_at: new Date().toISOString() })
+        .eq('user_id', userId)
+        .is('read_at', null);
+
+      if (error) throw new Error(`Failed to mark notifications as read: ${error.message}`);
+    } catch (error) {
+      console.error('Mark all notifications read error:', error);
+      throw error;
+    }
+  }
+
+  async deleteNotification(notificationId: string) {
+    try {
+      const { error } = await supabase
+        .from('notifications')
+        .delete()
+        .eq('id', notificationId);
+
+      if (error) throw new Error(`Failed to delete notification: ${error.message}`);
+    } catch (error) {
+      console.error('Delete notification error:', error);
+      throw error;
+    }
+  }
+
+  async getPreferences(userId: string): Promise<NotificationPreferences> {
+    try {
+      const { data, error } = await supabase
+        .from('notification_preferences')
+        .select('type, in_app')
+        .eq('user_id', userId);
+
+      if (error) throw new Error(`Failed to fetch notification preferences: ${error.message}`);
+
+      const preferences = Object.fromEntries(NOTIFICATION_TYPES.map(({ type }) => [type, true])) as NotificationPreferences;
+      for (const row of data || []) {
+        preferences[row.type as NotificationType] = row.in_app;
+      }
+      return preferences;
+    } catch (error) {
+      console.error('Get notification preferences error:', error);
+      throw error;
+    }
+  }
+
+  async setPreference(userId: string, type: NotificationType, enabled: boolean) {
+    try {
+      const { error } = await supabase
+        .from('notification_preferences')
+        .upsert({ user_id: userId, type, in_app: enabled, updated_at: new Date().toISOString() });
+
+      if (error) throw new Error(`Failed to update notification preferences: ${error.message}`);
+    } catch (error) {
+      console.error('Set notification preference error:', error);
+      throw error;
+    }
+  }
+
+  // Calls back with each notification inserted for the user; returns the unsubscribe function
+  subscribe(userId: string, onInsert: (notification: Notification) => void) {
+    const channel = supabase
+      .channel(`notifications:${userId}`)
+      .on(
+        'postgres_changes',
+        { event: 'INSERT', schema: 'public', table: 'notifications', filter: `user_id=eq.${userId}` },
+        payload => onInsert(payload.new as Notification)
+      )
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }
+}
+
+export const notificationService = new NotificationService();
@@ -0,0 +1,240 @@
+import { supabase } from '../lib/supabase';
+import { offlineQueue, type QueuedWrite } from '../lib/offlineQueue';
+import { authService } from './authService';
+
+export interface ProgressWrite {
+  user_id: string;
+  course_id: string;
+  module_id: string;
+  completed: boolean;
+  quiz_score: number;
+  source?: string;
+}
+
+export interface AssessmentResponseWrite {
+  // Generated on the client so a replay can tell whether the row already made it to the server
+  id: string;
+  attempt_id?: string;
+  user_id: string;
+  question_id: string;
+  selected_answer: number;
+  confidence_level: number;
+  is_correct: boolean;
+  time_taken_seconds?: number;
+  context?: string;
+}
+
+export interface AssessmentResultWrite {
+  user_id: string;
+  level: 'beginner' | 'intermediate' | 'advanced';
+}
+
+export interface SyncStatus {
+  online: boolean;
+  syncing: boolean;
+  // Writes waiting to be sent for the signed-in user
+  pending: number;
+  // Writes the server rejected
+  failed: number;
+}
+
+type StatusListener = (status: SyncStatus) => void;
+
+interface WriteError {
+  code?: string;
+  message?: string;
+}
+
+const UNIQUE_VIOLATION = '23505';
+
+// PostgREST rejections carry a Postgres or PGRST code. Failed fetches and gateway errors don't,
+// so those are retried once the connection is back.
+function isTransient(error: WriteError | null) {
+  return !navigator.onLine || !error?.code;
+}
+
+class OfflineSyncService {
+  private status: SyncStatus = { online: navigator.onLine, syncing: false, pending: 0, failed: 0 };
+  private listeners = new Set<StatusListener>();
+  private flushing: Promise<void> | null = null;
+  private started = false;
+
+  // Replays queued writes now, whenever the browser comes back online and whenever the session
+  // changes (signing in, or an offline session being confirmed by the server)
+  start() {
+    if (this.started) return;
+    this.started = true;
+    window.addEventListener('online', () => {
+      this.setStatus({ online: true });
+      this.flush();
+    });
+    window.addEventListener('offline', () => this.setStatus({ online: false }));
+    authService.subscribe(() => this.flush());
+    this.flush();
+  }
+
+  subscribe(listener: StatusListener) {
+    this.listeners.add(listener);
+    listener(this.status);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  // Records module completion and quiz score. Returns false if the write was queued for later.
+  async saveProgress(write: ProgressWrite) {
+    return this.save('progress', write.user_id, { ...write });
+  }
+
+  async saveAssessmentResponse(write: AssessmentResponseWrite) {
+    return this.save('assessment_response', write.user_id, { ...write });
+  }
+
+  // Marks the placement assessment as done and stores the resulting level
+  async saveAssessmentResult(write: AssessmentResultWrite) {
+    return this.save('assessment_result', write.user_id, { ...write });
+  }
+
+  async flush() {
+    if (!this.flushing) {
+      this.flushing = this.replay().finally(() => {
+        this.flushing = null;
+      });
+    }
+    return this.flushing;
+  }
+
+  // Drops writes the server rejected, once the user has seen them
+  async clearFailed() {
+    const writes = await offlineQueue.list();
+    await Promise.all(writes.filter(write => write.failedAt).map(write => offlineQueue.remove(write.id!)));
+    await this.refreshCounts();
+  }
+
+  private async save(kind: QueuedWrite['kind'], userId: string, payload: Record<string, unknown>) {
+    // Anything already queued goes first so writes reach the server in order
+    if (navigator.onLine && this.status.pending === 0) {
+      try {
+        await this.apply({ kind, userId, payload, queuedAt: new Date().toISOString() });
+        return true;
+      } catch (error) {
+        if (!isTransient(error as WriteError)) throw error;
+      }
+    }
+
+    await offlineQueue.add({ kind, userId, payload, queuedAt: new Date().toISOString() });
+    await this.refreshCounts();
+    this.flush();
+    return false;
+  }
+
+  private async replay() {
+    const userId = authService.getCurrentUser()?.id;
+    if (!userId || !navigator.onLine || authService.isOfflineSession()) {
+      await this.refreshCounts();
+      return;
+    }
+
+    this.setStatus({ syncing: true });
+    try {
+      // Re-read after every write so entries queued during the replay are sent too
+      let write: QueuedWrite | undefined;
+      while ((write = await this.nextWrite(userId))) {
+        try {
+          await this.apply(write);
+          await offlineQueue.remove(write.id!);
+        } catch (error) {
+          if (isTransient(error as WriteError)) break;
+          console.error('Queued write rejected:', error);
+          await offlineQueue.update({
+            ...write,
+            failedAt: new Date().toISOString(),
+            error: (error as WriteError).message || 'Rejected by the server'
+          });
+        }
+      }
+    } catch (error) {
+      console.error('Offline sync error:', error);
+    } finally {
+      this.setStatus({ syncing: false });
+      await this.refreshCounts();
+    }
+  }
+
+  // Other accounts' writes stay queued until that user signs in again (RLS would reject them)
+  private async nextWrite(userId: string) {
+    return (await offlineQueue.list()).find(write => write.userId === userId && !write.failedAt);
+  }
+
+  private async apply(write: Omit<QueuedWrite, 'id'>) {
+    if (write.kind === 'progress') {
+      await this.applyProgress(write.payload as unknown as ProgressWrite);
+    } else if (write.kind === 'assessment_response') {
+      await this.applyAssessmentResponse(write.payload as unknown as AssessmentResponseWrite);
+    } else {
+      await this.applyAssessmentResult(write.payload as unknown as AssessmentResultWrite);
+    }
+  }
+
+  // Conflicts with progress saved meanwhile (another device, or an earlier replay) are merged
+  // rather than overwritten: completion is never undone and the best quiz score is kept.
+  private async applyProgress(write: ProgressWrite) {
+    const { data: existing, error } = await supabase
+      .from('user_progress')
+      .select('id, completed, quiz_score')
+      .eq('user_id', write.user_id)
+      .eq('course_id', write.course_id)
+      .eq('module_id', write.module_id)
+      .order('updated_at', { ascending: false })
+      .limit(1);
+    if (error) throw error;
+
+    const current = existing?.[0];
+    const { error: writeError } = current
+      ? await supabase
+          .from('user_progress')
+          .update({
+            completed: current.completed || write.completed,
+            quiz_score: Math.max(current.quiz_score ?? 0, write.quiz_score),
+            updated_at: new Date().toISOString()
+          })
+          .eq('id', current.id)
+      : await supabase.from('user_progress').insert([write]);
+    if (writeError) throw writeError;
+  }
+
+  // Answers are append-only; one that is already stored was sent before the connection dropped
+  private async applyAssessmentResponse(write: AssessmentResponseWrite) {
+    const { error } = await supabase.from('assessment_responses').insert([write]);
+    if (error && error.code !== UNIQUE_VIOLATION) throw error;
+  }
+
+  // Replayed in order, so the latest attempt's level is the one that sticks
+  private async applyAssessmentResult(write: AssessmentResultWrite) {
+    const { error } = await supabase
+      .from('users')
+      .update({ level: write.level, completed_assessment: true })
+      .eq('id', write.user_id);
+    if (error) throw error;
+  }
+
+  private async refreshCounts() {
+    try {
+      const userId = authService.getCurrentUser()?.id;
+      const writes = (await offlineQueue.list()).filter(write => write.userId === userId);
+      this.setStatus({
+        pending: writes.filter(write => !write.failedAt).length,
+        failed: writes.filter(write => write.failedAt).length
+      });
+    } catch (error) {
+      console.error('Offline queue error:', error);
+    }
+  }
+
+  private setStatus(update: Partial<SyncStatus>) {
+    this.status = { ...this.status, ...update };
+    this.listeners.forEach(listener => listener(this.status));
+  }
+}
+
+export const offlineSyncService = new OfflineSyncService();
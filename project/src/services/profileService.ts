@@ -0,0 +1,136 @@
+import { supabase } from '../lib/supabase';
+import type { ExperienceYears, User } from '../types';
+
+export interface ProfileUpdate {
+  name: string;
+  bio: string;
+  specialization: string;
+  experience_years: ExperienceYears | null;
+}
+
+export type ProfileErrors = Partial<Record<keyof ProfileUpdate, string>>;
+
+export const EXPERIENCE_OPTIONS: { value: ExperienceYears; label: string }[] = [
+  { value: '0-1', label: 'Less than a year' },
+  { value: '2-5', label: '2–5 years' },
+  { value: '6-10', label: '6–10 years' },
+  { value: '10+', label: 'More than 10 years' }
+];
+
+// Kept in step with the check constraints on `users` (migration 20261019001300_user_profiles)
+export const PROFILE_LIMITS = { name: 100, bio: 1000, specialization: 100 };
+
+const AVATAR_TYPES = ['image/png', 'image/jpeg', 'image/webp', 'image/gif'];
+const MAX_AVATAR_BYTES = 2 * 1024 * 1024;
+
+class ProfileService {
+  validate(profile: ProfileUpdate): ProfileErrors {
+    const errors: ProfileErrors = {};
+    if (!profile.name.trim()) {
+      errors.name = 'Name is required';
+    } else if (profile.name.trim().length > PROFILE_LIMITS.name) {
+      errors.name = `Name must be at most ${PROFILE_LIMITS.name} characters`;
+    }
+    if (profile.bio.length > PROFILE_LIMITS.bio) {
+      errors.bio = `Bio must be at most ${PROFILE_LIMITS.bio} characters`;
+    }
+    if (profile.specialization.length > PROFILE_LIMITS.specialization) {
+      errors.specialization = `Specialization must be at most ${PROFILE_LIMITS.specialization} characters`;
+    }
+    if (profile.experience_years && !EXPERIENCE_OPTIONS.some(option => option.value === profile.experience_years)) {
+      errors.experience_years = 'Choose one of the listed ranges';
+    }
+    return errors;
+  }
+
+  async updateProfile(userId: string, profile: ProfileUpdate): Promise<Partial<User>> {
+    try {
+      const errors = this.validate(profile);
+      const firstError = Object.values(errors)[0];
+      if (firstError) throw new Error(firstError);
+
+      const { data, error } = await supabase
+        .from('users')
+        .update({
+          name: profile.name.trim(),
+          bio: profile.bio.trim(),
+          specialization: profile.specialization.trim(),
+          experience_years: profile.experience_years
+        })
+        .eq('id', userId)
+        .select('name, bio, specialization, experience_years')
+        .single();
+
+      if (error) throw new Error(`Failed to update profile: ${error.message}`);
+      return data;
+    } catch (error) {
+      console.error('Update profile error:', error);
+      throw error;
+    }
+  }
+
+  // Avatars live in the `uploads` bucket under avatars/<user id>/, which only that user can write to
+  async uploadAvatar(userId: string, file: File) {
+    try {
+      if (!AVATAR_TYPES.includes(file.type)) throw new Error('Choose a PNG, JPEG, WebP or GIF image');
+      if (file.size > MAX_AVATAR_BYTES) throw new Error('Choose an image smaller than 2 MB');
+
+      const fileExt = file.name.split('.').pop();
+      const filePath = `avatars/${userId}/${Date.now()}.${fileExt}`;
+
+      const { error: uploadError } = await supabase.storage
+        .from('uploads')
+        .upload(filePath, file, { contentType: file.type });
+
+      if (uploadError) throw new Error(`Failed to upload avatar: ${uploadError.message}`);
+
+      const { data: { publicUrl } } = supabase.storage
+        .from('uploads')
+        .getPublicUrl(filePath);
+
+      await this.setAvatarUrl(userId, publicUrl);
+      await this.removeOtherAvatars(userId, filePath);
+      return publicUrl;
+    } catch (error) {
+      console.error('Upload avatar error:', error);
+      throw error;
+    }
+  }
+
+  async removeAvatar(userId: string) {
+    try {
+      await this.setAvatarUrl(userId, null);
+      await this.removeOtherAvatars(userId);
+    } catch (error) {
+      console.error('Remove avatar error:', error);
+      throw error;
+    }
+  }
+
+  private async setAvatarUrl(userId: string, avatarUrl: string | null) {
+    const { error } = await supabase
+      .from('users')
+      .update({ avatar_url: avatarUrl })
+      .eq('id', userId);
+
+    if (error) throw new Error(`Failed to update avatar: ${error.message}`);
+  }
+
+  // Old pictures are only clean-up; failing to delete one doesn't undo the change
+  private async removeOtherAvatars(userId: string, keepPath?: string) {
+    const folder = `avatars/${userId}`;
+    const { data: files, error } = await supabase.storage.from('uploads').list(folder);
+    if (error) {
+      console.error('List avatars error:', error);
+      return;
+    }
+
+    const stale = files.map(file => `${folder}/${file.name}`).filter(path => path !== keepPath);
+    if (stale.length === 0) return;
+
+    const { error: removeError } = await supabase.storage.from('uploads').remove(stale);
+    if (removeError) console.error('Remove old avatars error:', removeError);
+  }
+}
+
+export const profileService = new ProfileService();
@@ -0,0 +1,211 @@
+import { supabase } from '../lib/supabase';
+import { createZip } from '../lib/zip';
+import { slugify } from '../lib/markdown';
+import { escapeHtml, renderMarkdownHtml } from '../lib/markdownHtml';
+import { SCORM_RUNTIME_JS, SCORM_STYLES_CSS } from '../lib/scormRuntime';
+import { paths } from '../lib/routes';
+import { labs } from '../data/labs';
+import { getStoredModuleQuestions, MODULE_PASS_SCORE } from '../data/moduleQuestions';
+import { courseService } from './courseService';
+import type { CourseModuleRecord, ModuleQuestion } from '../types';
+
+// A SCORM export turns each published module into its own SCO (an HTML page the
+// LMS launches and tracks), with shared/scorm.js reporting views and test scores.
+// Content is rendered at export time, so the package runs without the app;
+// labs stay on the platform and are linked to.
+export type ScormVersion = '1.2' | '2004';
+
+const RUNTIME_FILE = 'shared/scorm.js';
+const STYLES_FILE = 'shared/style.css';
+
+interface ScormModule {
+  identifier: string;
+  title: string;
+  href: string;
+  hasQuiz: boolean;
+}
+
+// JSON inside a <script> element must not be able to close it
+const scriptJson = (value: unknown) => JSON.stringify(value).replace(/</g, '\\u003c');
+
+// Lab links and other app paths point back at the platform that made the export
+const absoluteUrl = (url: string) => new URL(url, window.location.origin).toString();
+
+function modulePage(module: CourseModuleRecord, questions: ModuleQuestion[], version: ScormVersion) {
+  const content = renderMarkdownHtml(module.content ?? '', {
+    labLink: labId => {
+      const lab = labs.find(l => l.id === labId);
+      return lab ? { title: lab.title, href: absoluteUrl(paths.lab(lab.id)) } : null;
+    }
+  });
+  const config = { version, passScore: MODULE_PASS_SCORE, hasQuiz: questions.length > 0 };
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<title>${escapeHtml(module.title)}</title>
+<link rel="stylesheet" href="../${STYLES_FILE}">
+</head>
+<body>
+<main>
+<p id="lms-notice" class="notice" hidden>No LMS connection was found, so progress on this page is not being recorded.</p>
+<h1>${escapeHtml(module.title)}</h1>
+${module.description ? `<p>${escapeHtml(module.description)}</p>` : ''}
+${module.video_url ? `<video controls preload="metadata" src="${escapeHtml(absoluteUrl(module.video_url))}"></video>` : ''}
+${content}
+${module.lab_url ? `<p class="lab"><a href="${escapeHtml(absoluteUrl(module.lab_url))}" target="_blank" rel="noopener noreferrer">Open the hands-on lab</a></p>` : ''}
+${questions.length ? `<section>
+<h2>Module Test</h2>
+<div id="quiz"></div>
+<script type="application/json" id="quiz-data">${scriptJson(questions)}</script>
+</section>` : ''}
+</main>
+<script>window.SCORM_MODULE = ${scriptJson(config)};</script>
+<script src="../${RUNTIME_FILE}"></script>
+</body>
+</html>
+`;
+}
+
+function manifest12(identifier: string, title: string, modules: ScormModule[]) {
+  const items = modules
+    .map(m => `      <item identifier="item-${m.identifier}" identifierref="res-${m.identifier}" isvisible="true">
+        <title>${escapeHtml(m.title)}</title>${m.hasQuiz ? `
+        <adlcp:masteryscore>${MODULE_PASS_SCORE}</adlcp:masteryscore>` : ''}
+      </item>`)
+    .join('\n');
+  const resources = modules
+    .map(m => `    <resource identifier="res-${m.identifier}" type="webcontent" adlcp:scormtype="sco" href="${m.href}">
+      <file href="${m.href}"/>
+      <dependency identifierref="shared"/>
+    </resource>`)
+    .join('\n');
+
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<manifest identifier="${identifier}" version="1"
+  xmlns="http://www.imsproject.org/xsd/imscp_rootv1p1p2"
+  xmlns:adlcp="http://www.adlnet.org/xsd/adlcp_rootv1p2"
+  xmlns:xsi="http://www.w3.org/2001/XMLSchema-instance"
+  xsi:schemaLocation="http://www.imsproject.org/xsd/imscp_rootv1p1p2 imscp_rootv1p1p2.xsd http://www.imsglobal.org/xsd/imsmd_rootv1p2p1 imsmd_rootv1p2p1.xsd http://www.adlnet.org/xsd/adlcp_rootv1p2 adlcp_rootv1p2.xsd">
+  <metadata>
+    <schema>ADL SCORM</schema>
+    <schemaversion>1.2</schemaversion>
+  </metadata>
+  <organizations default="org">
+    <organization identifier="org">
+      <title>${escapeHtml(title)}</title>
+${items}
+    </organization>
+  </organizations>
+  <resources>
+${resources}
+    <resource identifier="shared" type="webcontent" adlcp:scormtype="asset">
+      <file href="${RUNTIME_FILE}"/>
+      <file href="${STYLES_FILE}"/>
+    </resource>
+  </resources>
+</manifest>
+`;
+}
+
+function manifest2004(identifier: string, title: string, modules: ScormModule[]) {
+  // Tests are satisfied by score, so LMS rollup agrees with the runtime's pass mark
+  const items = modules
+    .map(m => `      <item identifier="item-${m.identifier}" identifierref="res-${m.identifier}">
+        <title>${escapeHtml(m.title)}</title>${m.hasQuiz ? `
+        <imsss:sequencing>
+          <imsss:objectives>
+            <imsss:primaryObjective objectiveID="${m.identifier}-test" satisfiedByMeasure="true">
+              <imsss:minNormalizedMeasure>${MODULE_PASS_SCORE / 100}</imsss:minNormalizedMeasure>
+            </imsss:primaryObjective>
+          </imsss:objectives>
+        </imsss:sequencing>` : ''}
+      </item>`)
+    .join('\n');
+  const resources = modules
+    .map(m => `    <resource identifier="res-${m.identifier}" type="webcontent" adlcp:scormType="sco" href="${m.href}">
+      <file href="${m.href}"/>
+      <dependency identifierref="shared"/>
+    </resource>`)
+    .join('\n');
+
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<manifest identifier="${identifier}" version="1"
+  xmlns="http://www.imsglobal.org/xsd/imscp_v1p1"
+  xmlns:adlcp="http://www.adlnet.org/xsd/adlcp_v1p3"
+  xmlns:adlseq="http://www.adlnet.org/xsd/adlseq_v1p3"
+  xmlns:adlnav="http://www.adlnet.org/xsd/adlnav_v1p3"
+  xmlns:imsss="http://www.imsglobal.org/xsd/imsss"
+  xmlns:xsi="http://www.w3.org/2001/XMLSchema-instance"
+  xsi:schemaLocation="http://www.imsglobal.org/xsd/imscp_v1p1 imscp_v1p1.xsd http://www.adlnet.org/xsd/adlcp_v1p3 adlcp_v1p3.xsd http://www.adlnet.org/xsd/adlseq_v1p3 adlseq_v1p3.xsd http://www.adlnet.org/xsd/adlnav_v1p3 adlnav_v1p3.xsd http://www.imsglobal.org/xsd/imsss imsss_v1p0.xsd">
+  <metadata>
+    <schema>ADL SCORM</schema>
+    <schemaversion>2004 4th Edition</schemaversion>
+  </metadata>
+  <organizations default="org">
+    <organization identifier="org">
+      <title>${escapeHtml(title)}</title>
+${items}
+      <imsss:sequencing>
+        <imsss:controlMode choice="true" flow="true"/>
+      </imsss:sequencing>
+    </organization>
+  </organizations>
+  <resources>
+${resources}
+    <resource identifier="shared" type="webcontent" adlcp:scormType="asset">
+      <file href="${RUNTIME_FILE}"/>
+      <file href="${STYLES_FILE}"/>
+    </resource>
+  </resources>
+</manifest>
+`;
+}
+
+class ScormService {
+  async exportCourse(courseId: string, version: ScormVersion): Promise<{ filename: string; blob: Blob }> {
+    try {
+      const { data: course, error } = await supabase
+        .from('courses')
+        .select('id, slug, title')
+        .eq('id', courseId)
+        .single();
+
+      if (error) throw new Error(`Failed to fetch course: ${error.message}`);
+
+      // Only what learners can see in the app goes to the LMS
+      const modules = (await courseService.getCourseModules(courseId)).filter(m => m.is_published);
+      if (modules.length === 0) throw new Error('The course has no published modules to export');
+
+      const files: { name: string; data: string }[] = [];
+      const scos: ScormModule[] = modules.map((module, index) => {
+        const questions = getStoredModuleQuestions(module);
+        const base = `${String(index + 1).padStart(2, '0')}-${slugify(module.slug || module.title)}`;
+        const href = `modules/${base}.html`;
+        files.push({ name: href, data: modulePage(module, questions, version) });
+        return { identifier: `m${String(index + 1).padStart(2, '0')}`, title: module.title, href, hasQuiz: questions.length > 0 };
+      });
+
+      const slug = slugify(course.slug || course.title);
+      const identifier = `career-connect-${slug}`;
+      const manifest = version === '2004' ? manifest2004(identifier, course.title, scos) : manifest12(identifier, course.title, scos);
+
+      return {
+        filename: `${slug}.scorm-${version}.zip`,
+        blob: createZip([
+          { name: 'imsmanifest.xml', data: manifest },
+          { name: RUNTIME_FILE, data: SCORM_RUNTIME_JS },
+          { name: STYLES_FILE, data: SCORM_STYLES_CSS },
+          ...files
+        ])
+      };
+    } catch (error) {
+      console.error('Export SCORM package error:', error);
+      throw error;
+    }
+  }
+}
+
+export const scormService = new ScormService();
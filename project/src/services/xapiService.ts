@@ -0,0 +1,29 @@
+import { authService } from './authService';
+
+// Learning events the API server turns into xAPI statements for the configured LRS
+// (see server/xapi.mjs). Certificates are reported by the server when it issues them.
+// Titles and completion scores are filled in by the server from the database.
+interface ModuleEventFields {
+  courseId: string;
+  moduleId: string;
+}
+
+export type XapiEvent =
+  | ({ type: 'module_started' } & ModuleEventFields)
+  | ({ type: 'module_completed' } & ModuleEventFields)
+  | ({ type: 'quiz_answered'; questionIndex: number; question: string; response: string; correct: boolean } & ModuleEventFields)
+  | ({ type: 'video_watched'; videoUrl: string } & ModuleEventFields)
+  | { type: 'lab_objective_achieved'; labId: string; labTitle: string; objectiveId: string; objective: string };
+
+class XapiService {
+  // Tracking must never get in the way of learning, so failures are only logged
+  async emit(event: XapiEvent) {
+    try {
+      await authService.request('/api/xapi/events', { method: 'POST', body: event });
+    } catch (error) {
+      console.error('xAPI event error:', error);
+    }
+  }
+}
+
+export const xapiService = new XapiService();
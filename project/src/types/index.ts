@@ -1,10 +1,25 @@
+import type { Translations } from '../i18n/types';
+
+export type ExperienceYears = '0-1' | '2-5' | '6-10' | '10+';
+
 export interface User {
   id: string;
   email: string;
   name: string;
   level: 'beginner' | 'intermediate' | 'advanced';
   role?: 'student' | 'teacher' | 'admin';
+  organization_id?: string;
+  cohort_id?: string | null;
+  // Platform operators who manage every organization
+  is_super_admin?: boolean;
   completedAssessment: boolean;
+  email_verified?: boolean;
+  // New address waiting for its owner to confirm it
+  pending_email?: string | null;
+  bio?: string;
+  specialization?: string;
+  experience_years?: ExperienceYears | null;
+  avatar_url?: string | null;
   courseProgress: Record<string, number>;
   certificates: string[];
   created_at?: string | Date;
@@ -17,26 +32,54 @@ export interface Question {
   correctAnswer: number;
   explanation: string;
   difficulty: 'easy' | 'medium' | 'hard';
+  translations?: Translations<Pick<Question, 'question' | 'options' | 'explanation'>>;
+}
+
+// A module test question, stored in course_modules.quiz_questions
+export interface ModuleQuestion {
+  question: string;
+  options: string[];
+  correctAnswer: number;
+  explanation?: string;
+  translations?: Translations<Pick<ModuleQuestion, 'question' | 'options' | 'explanation'>>;
+}
+
+// A question as learners load it: answers and explanations only come back once the test is graded
+export type LearnerModuleQuestion = Omit<ModuleQuestion, 'correctAnswer' | 'explanation'>;
+
+// The result of grade_module_test; `results` are the full questions, in order
+export interface GradedModuleTest {
+  score: number;
+  results: (ModuleQuestion & { correct: boolean })[];
 }
 
 export interface Module {
   id: string;
+  // Stable name within the course, e.g. "module-1"
+  slug?: string | null;
   title: string;
   description: string;
   content: string;
   videoUrl?: string;
   labUrl?: string;
+  // From the learner's user_progress row
   completed: boolean;
   testScore?: number;
+  quizQuestions?: LearnerModuleQuestion[];
+  translations?: Translations<Pick<Module, 'title' | 'description' | 'content'>>;
 }
 
 export interface Course {
   id: string;
+  slug?: string | null;
   title: string;
   description: string;
+  difficulty?: 'beginner' | 'intermediate' | 'advanced';
+  estimatedHours?: number;
   modules: Module[];
-  unlocked: boolean;
+  // Percentage of modules the learner has completed
   progress: number;
+  translations?: Translations<Pick<Course, 'title' | 'description'>>;
 }
 
 export interface Lab {
@@ -48,6 +91,7 @@ export interface Lab {
   tools: string[];
   instructions: string;
   completed: boolean;
+  translations?: Translations<Pick<Lab, 'title' | 'description' | 'instructions'>>;
 }
 
 export interface ChatMessage {
@@ -55,4 +99,164 @@ export interface ChatMessage {
   message: string;
   isUser: boolean;
   timestamp: Date;
-}
\ No newline at end of file
+}
+
+export interface Organization {
+  id: string;
+  name: string;
+  slug: string;
+  created_at: string;
+}
+
+export interface Cohort {
+  id: string;
+  organization_id: string;
+  name: string;
+  starts_on: string | null;
+  ends_on: string | null;
+  created_at: string;
+}
+
+// An organization's OpenID Connect identity provider. The client secret stays on the server.
+export interface SsoConfig {
+  organization_id: string;
+  enabled: boolean;
+  issuer: string;
+  client_id: string;
+  has_client_secret: boolean;
+  scopes: string;
+  groups_claim: string;
+  default_role: 'student' | 'teacher' | 'admin';
+  // IdP group names that grant each role
+  role_mappings: Record<'student' | 'teacher' | 'admin', string[]>;
+  updated_at: string;
+}
+
+export interface SsoConfigInput {
+  enabled: boolean;
+  issuer: string;
+  clientId: string;
+  // Leave blank to keep the stored secret
+  clientSecret?: string;
+  clearSecret?: boolean;
+  scopes: string;
+  groupsClaim: string;
+  defaultRole: SsoConfig['default_role'];
+  roleMappings: SsoConfig['role_mappings'];
+}
+
+export interface UserInvite {
+  id: string;
+  organization_id: string;
+  email: string;
+  role: 'teacher' | 'admin';
+  status: 'pending' | 'used' | 'expired' | 'revoked';
+  created_at: string;
+  expires_at: string;
+  used_at?: string | null;
+  revoked_at?: string | null;
+}
+
+export interface AuthEvent {
+  id: string;
+  event_type: 'login_succeeded' | 'login_failed' | 'login_blocked' | 'account_locked' | 'mfa_failed';
+  user_id: string | null;
+  email: string | null;
+  ip_address: string;
+  user_agent: string;
+  reason: string | null;
+  created_at: string;
+}
+
+export type AuditAction =
+  | 'user.role_changed'
+  | 'user.organization_changed'
+  | 'user.cohort_changed'
+  | 'user.super_admin_changed'
+  | 'user.deleted'
+  | 'user.mfa_reset'
+  | 'course.created'
+  | 'course.published'
+  | 'course.unpublished'
+  | 'course.deleted'
+  | 'organization.created'
+  | 'organization.deleted'
+  | 'cohort.created'
+  | 'cohort.deleted'
+  | 'invite.created'
+  | 'invite.revoked'
+  | 'sso.updated';
+
+// Append-only record of an administrative change. actor_id is null for changes made by the system.
+export interface AuditEvent {
+  id: string;
+  organization_id: string | null;
+  actor_id: string | null;
+  actor_email: string | null;
+  action: AuditAction;
+  target_type: string;
+  target_id: string | null;
+  target_label: string | null;
+  before: Record<string, unknown> | null;
+  after: Record<string, unknown> | null;
+  created_at: string;
+}
+
+export interface AuditEventFilters {
+  action?: AuditAction;
+  // Matches the actor's email or the target's label or id
+  search?: string;
+  from?: string;
+  to?: string;
+  organizationId?: string;
+}
+
+export type NotificationType = 'course_published' | 'material_posted' | 'certificate_earned' | 'system';
+
+export interface Notification {
+  id: string;
+  user_id: string;
+  type: NotificationType;
+  title: string;
+  body: string;
+  // In-app path to open when the notification is clicked
+  link: string | null;
+  read_at: string | null;
+  created_at: string;
+}
+
+// Per-type opt-outs; a type missing from the map is enabled
+export type NotificationPreferences = Record<NotificationType, boolean>;
+
+// A user_certificates row; for course certificates `certificate_id` is the course id
+export interface EarnedCertificate {
+  id: string;
+  certificate_id: string;
+  title: string;
+  earned_at: string;
+}
+
+export type ExtraTimePercent = 0 | 25 | 50 | 100;
+
+// Quiz accommodations; extra time is granted by an admin, reduced motion is the learner's choice
+export interface AccessibilitySettings {
+  extra_time_percent: ExtraTimePercent;
+  reduced_motion: boolean;
+}
+
+// A course_modules row as teachers author it, drafts included
+export interface CourseModuleRecord {
+  id: string;
+  course_id: string;
+  slug?: string | null;
+  title: string;
+  description: string | null;
+  content: string | null;
+  video_url: string | null;
+  lab_url: string | null;
+  is_published: boolean;
+  module_order: number;
+  quiz_questions?: ModuleQuestion[];
+  translations?: Module['translations'] | null;
+  created_at?: string;
+}
@@ -0,0 +1,43 @@
+/*
+  # Server-side sessions
+
+  Refresh tokens issued by the API server (server.mjs). Only a SHA-256 hash
+  of each refresh token is stored. Rows are read and written with the
+  service role only, so RLS is enabled without any client policies.
+
+  Each session remembers the Supabase Auth session handed to the browser
+  with it, so signing out ends both on the server (`end_auth_sessions`).
+*/
+
+create table if not exists user_sessions (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references users(id) on delete cascade,
+  refresh_token_hash text not null unique,
+  user_agent text default '',
+  ip_address text default '',
+  created_at timestamptz default now(),
+  last_used_at timestamptz default now(),
+  expires_at timestamptz not null,
+  revoked_at timestamptz,
+  supabase_session_id uuid
+);
+
+alter table user_sessions enable row level security;
+
+create index if not exists idx_sessions_user on user_sessions(user_id);
+
+-- Ends Supabase Auth sessions, and with them their refresh tokens: one session of the user,
+-- or all of them but `keep_session_id`. Called by the API server only.
+create or replace function public.end_auth_sessions(target_user_id uuid, only_session_id uuid default null, keep_session_id uuid default null)
+returns void
+language sql
+security definer
+set search_path = public
+as $$
+  delete from auth.sessions
+  where user_id = target_user_id
+    and (only_session_id is null or id = only_session_id)
+    and (keep_session_id is null or id <> keep_session_id)
+$$;
+
+revoke execute on function public.end_auth_sessions(uuid, uuid, uuid) from public, anon, authenticated;
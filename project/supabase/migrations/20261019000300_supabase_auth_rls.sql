@@ -0,0 +1,235 @@
+/*
+  # Supabase Auth linkage and per-role RLS
+
+  Every row in `users` is now backed by a Supabase Auth user with the same
+  id, so `auth.uid()` identifies the signed-in user inside policies.
+  Accounts created before this migration still carry a bcrypt
+  `password_hash`; the API server moves them into Supabase Auth (reusing
+  the hash) on their next successful login and then clears the column.
+
+  Replaces the permissive `*_demo` policies from 20251005_init_schema.sql
+  and the leftover policies from the July 2025 migrations with role-aware
+  rules. The API server uses the service role and bypasses RLS.
+*/
+
+alter table users alter column password_hash drop not null;
+
+-- Role of the signed-in user. security definer so policies on `users`
+-- can call it without recursing into themselves.
+create or replace function public.current_user_role()
+returns text
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select role from users where id = auth.uid()
+$$;
+
+-- Users may edit their own profile, but only admins (or the server) may change a role.
+create or replace function public.prevent_role_self_change()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if new.role is distinct from old.role
+     and coalesce(auth.role(), '') <> 'service_role'
+     and coalesce(current_user_role(), '') <> 'admin' then
+    raise exception 'Only admins can change user roles';
+  end if;
+  return new;
+end;
+$$;
+
+drop trigger if exists users_prevent_role_self_change on users;
+create trigger users_prevent_role_self_change
+  before update on users
+  for each row
+  execute function prevent_role_self_change();
+
+-- USERS
+drop policy if exists "users_select_demo" on users;
+drop policy if exists "users_insert_demo" on users;
+drop policy if exists "users_update_self_demo" on users;
+drop policy if exists "Allow anonymous user registration" on users;
+drop policy if exists "Users can read own data" on users;
+drop policy if exists "Users can update own data" on users;
+drop policy if exists "Service role can read all users" on users;
+drop policy if exists "Service role can manage all users" on users;
+drop policy if exists "Enable insert for anonymous users during registration" on users;
+drop policy if exists "Users can read own profile" on users;
+drop policy if exists "Users can update own profile" on users;
+drop policy if exists "Service role has full access" on users;
+drop policy if exists "Public can read basic user info for authentication" on users;
+
+-- Registration goes through the API server, so there is no client insert policy.
+-- Teacher profiles are visible to everyone signed in (course listings show them);
+-- teachers can also see students enrolled in their courses.
+create policy "users_select_self_staff"
+  on users for select
+  to authenticated
+  using (
+    id = auth.uid()
+    or role = 'teacher'
+    or current_user_role() = 'admin'
+    or (
+      current_user_role() = 'teacher'
+      and exists (
+        select 1
+        from course_enrollments e
+        join courses c on c.id = e.course_id
+        where e.user_id = users.id and c.teacher_id = auth.uid()
+      )
+    )
+  );
+
+create policy "users_update_self"
+  on users for update
+  to authenticated
+  using (id = auth.uid())
+  with check (id = auth.uid());
+
+create policy "users_admin_update"
+  on users for update
+  to authenticated
+  using (current_user_role() = 'admin')
+  with check (current_user_role() = 'admin');
+
+create policy "users_admin_delete"
+  on users for delete
+  to authenticated
+  using (current_user_role() = 'admin');
+
+-- COURSES
+drop policy if exists "courses_select_demo" on courses;
+drop policy if exists "courses_insert_demo" on courses;
+drop policy if exists "courses_update_demo" on courses;
+
+create policy "courses_select_published_or_owned"
+  on courses for select
+  to authenticated
+  using (is_published or teacher_id = auth.uid() or current_user_role() = 'admin');
+
+create policy "courses_insert_staff"
+  on courses for insert
+  to authenticated
+  with check (
+    (current_user_role() = 'teacher' and teacher_id = auth.uid())
+    or current_user_role() = 'admin'
+  );
+
+create policy "courses_update_owner_or_admin"
+  on courses for update
+  to authenticated
+  using (teacher_id = auth.uid() or current_user_role() = 'admin')
+  with check (teacher_id = auth.uid() or current_user_role() = 'admin');
+
+create policy "courses_delete_owner_or_admin"
+  on courses for delete
+  to authenticated
+  using (teacher_id = auth.uid() or current_user_role() = 'admin');
+
+-- COURSE MODULES
+drop policy if exists "course_modules_select_demo" on course_modules;
+drop policy if exists "course_modules_cud_demo" on course_modules;
+
+create policy "course_modules_select_visible"
+  on course_modules for select
+  to authenticated
+  using (
+    exists (
+      select 1 from courses c
+      where c.id = course_modules.course_id
+        and (
+          (c.is_published and course_modules.is_published)
+          or c.teacher_id = auth.uid()
+          or current_user_role() = 'admin'
+        )
+    )
+  );
+
+create policy "course_modules_cud_owner_or_admin"
+  on course_modules for all
+  to authenticated
+  using (
+    current_user_role() = 'admin'
+    or exists (select 1 from courses c where c.id = course_modules.course_id and c.teacher_id = auth.uid())
+  )
+  with check (
+    current_user_role() = 'admin'
+    or exists (select 1 from courses c where c.id = course_modules.course_id and c.teacher_id = auth.uid())
+  );
+
+-- ENROLLMENTS
+drop policy if exists "course_enrollments_select_demo" on course_enrollments;
+drop policy if exists "course_enrollments_insert_demo" on course_enrollments;
+
+create policy "course_enrollments_select_own_or_staff"
+  on course_enrollments for select
+  to authenticated
+  using (
+    user_id = auth.uid()
+    or current_user_role() = 'admin'
+    or exists (select 1 from courses c where c.id = course_enrollments.course_id and c.teacher_id = auth.uid())
+  );
+
+create policy "course_enrollments_insert_self"
+  on course_enrollments for insert
+  to authenticated
+  with check (user_id = auth.uid());
+
+create policy "course_enrollments_delete_self_or_admin"
+  on course_enrollments for delete
+  to authenticated
+  using (user_id = auth.uid() or current_user_role() = 'admin');
+
+-- USER PROGRESS
+drop policy if exists "user_progress_select_demo" on user_progress;
+drop policy if exists "user_progress_upsert_demo" on user_progress;
+
+create policy "user_progress_select_own_or_staff"
+  on user_progress for select
+  to authenticated
+  using (
+    user_id = auth.uid()
+    or current_user_role() = 'admin'
+    or exists (select 1 from courses c where c.id = user_progress.course_id and c.teacher_id = auth.uid())
+  );
+
+create policy "user_progress_write_own"
+  on user_progress for all
+  to authenticated
+  using (user_id = auth.uid())
+  with check (user_id = auth.uid());
+
+-- NOTES
+-- Notes written by teachers/admins are shared study material. Rows written by
+-- students are private tutor memory (see learnerMemoryService) and stay private.
+drop policy if exists "notes_select_demo" on notes;
+drop policy if exists "notes_cud_demo" on notes;
+drop policy if exists "Anyone can read notes" on notes;
+drop policy if exists "Note creators can manage notes" on notes;
+drop policy if exists "Service role can manage all notes" on notes;
+
+create policy "notes_select_own_or_staff_authored"
+  on notes for select
+  to authenticated
+  using (
+    admin_id = auth.uid()
+    or current_user_role() = 'admin'
+    or exists (select 1 from users u where u.id = notes.admin_id and u.role in ('teacher', 'admin'))
+  );
+
+create policy "notes_write_own"
+  on notes for all
+  to authenticated
+  using (admin_id = auth.uid())
+  with check (admin_id = auth.uid());
+
+create policy "notes_admin_manage"
+  on notes for all
+  to authenticated
+  using (current_user_role() = 'admin')
+  with check (current_user_role() = 'admin');
@@ -0,0 +1,27 @@
+/*
+  # Invite-only staff registration
+
+  Teacher and admin accounts can only be registered with an invite issued
+  by an admin. Each invite is bound to one email and one role, expires, and
+  can be redeemed once. Only a SHA-256 hash of the code is stored; the code
+  itself is shown to the admin once, when it is created.
+
+  Accessed through the API server (service role) only.
+*/
+
+create table if not exists user_invites (
+  id uuid primary key default gen_random_uuid(),
+  email text not null, -- stored lowercased
+  role text not null check (role in ('teacher','admin')),
+  code_hash text not null unique,
+  created_by uuid references users(id) on delete set null,
+  created_at timestamptz default now(),
+  expires_at timestamptz not null,
+  used_at timestamptz,
+  used_by uuid references users(id) on delete set null,
+  revoked_at timestamptz
+);
+
+alter table user_invites enable row level security;
+
+create index if not exists idx_invites_email on user_invites(email);
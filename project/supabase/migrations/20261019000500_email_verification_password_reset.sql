@@ -0,0 +1,73 @@
+/*
+  # Email verification and password reset
+
+  1. `users.email_verified`. Accounts that existed before this migration are
+     treated as verified. Invited staff are verified on registration because
+     their invite was bound to their email.
+  2. `auth_tokens` records every one-time link the API server emails out.
+     The link carries a signed token whose id is the row id; a token is only
+     accepted while its row is unused and unexpired.
+  3. Unverified accounts can browse but cannot enroll or record progress.
+  4. Only the API server (service role) may change `email_verified`; users
+     otherwise update their own row, so they could verify themselves.
+*/
+
+alter table users add column if not exists email_verified boolean default false;
+update users set email_verified = true where email_verified is distinct from true;
+
+create or replace function public.prevent_identity_self_change()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if new.email_verified is distinct from old.email_verified
+     and coalesce(auth.role(), '') <> 'service_role' then
+    raise exception 'Email addresses can only be verified through the link sent to them';
+  end if;
+  return new;
+end;
+$$;
+
+drop trigger if exists users_prevent_identity_self_change on users;
+create trigger users_prevent_identity_self_change
+  before update on users
+  for each row
+  execute function prevent_identity_self_change();
+
+create table if not exists auth_tokens (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references users(id) on delete cascade,
+  purpose text not null check (purpose in ('password_reset','email_verification')),
+  created_at timestamptz default now(),
+  expires_at timestamptz not null,
+  used_at timestamptz
+);
+
+alter table auth_tokens enable row level security;
+
+create index if not exists idx_auth_tokens_user_purpose on auth_tokens(user_id, purpose);
+
+create or replace function public.current_user_verified()
+returns boolean
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select coalesce((select email_verified from users where id = auth.uid()), false)
+$$;
+
+drop policy if exists "course_enrollments_insert_self" on course_enrollments;
+create policy "course_enrollments_insert_self"
+  on course_enrollments for insert
+  to authenticated
+  with check (user_id = auth.uid() and current_user_verified());
+
+drop policy if exists "user_progress_write_own" on user_progress;
+create policy "user_progress_write_own"
+  on user_progress for all
+  to authenticated
+  using (user_id = auth.uid())
+  with check (user_id = auth.uid() and current_user_verified());
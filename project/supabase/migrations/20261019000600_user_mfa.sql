@@ -0,0 +1,101 @@
+/*
+  # TOTP two-factor authentication
+
+  1. `user_mfa` holds one authenticator secret per user, encrypted by the API
+     server before it is stored. `enabled_at` stays null until the user has
+     confirmed a code, and `last_used_step` stops a code being replayed.
+  2. `mfa_recovery_codes` stores SHA-256 hashes of single-use backup codes.
+  3. `mfa_verified_sessions` lists the Supabase Auth sessions the API server
+     created after a completed second step. Teacher and admin rights in RLS
+     only apply inside those sessions, so a plain password sign-in against
+     Supabase Auth leaves staff with no more than any signed-in user.
+     Ending sessions (sign-out, password changes, 2FA resets) removes their
+     rows as well.
+
+  Optional for students; the API server requires it for teachers and admins.
+  Accessed through the API server (service role) only.
+*/
+
+create table if not exists user_mfa (
+  user_id uuid primary key references users(id) on delete cascade,
+  secret_encrypted text not null,
+  enabled_at timestamptz,
+  last_used_step bigint default 0,
+  created_at timestamptz default now()
+);
+
+alter table user_mfa enable row level security;
+
+create table if not exists mfa_recovery_codes (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references users(id) on delete cascade,
+  code_hash text not null,
+  used_at timestamptz,
+  created_at timestamptz default now()
+);
+
+alter table mfa_recovery_codes enable row level security;
+
+create index if not exists idx_recovery_codes_user on mfa_recovery_codes(user_id);
+
+create table if not exists mfa_verified_sessions (
+  session_id uuid primary key references auth.sessions(id) on delete cascade,
+  user_id uuid not null references users(id) on delete cascade,
+  verified_at timestamptz default now()
+);
+
+alter table mfa_verified_sessions enable row level security;
+
+create index if not exists idx_mfa_verified_sessions_user on mfa_verified_sessions(user_id);
+
+-- Whether the caller's Supabase session was opened by the API server after 2FA
+create or replace function public.current_session_mfa_verified()
+returns boolean
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select exists (
+    select 1 from mfa_verified_sessions
+    where session_id = nullif(auth.jwt() ->> 'session_id', '')::uuid
+      and user_id = auth.uid()
+  )
+$$;
+
+-- Staff roles only count inside a 2FA-verified session; elsewhere the role is unknown,
+-- so every teacher and admin policy denies
+create or replace function public.current_user_role()
+returns text
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select case
+    when role in ('teacher', 'admin') and not current_session_mfa_verified() then null
+    else role
+  end
+  from users where id = auth.uid()
+$$;
+
+-- Same as in 20261019000200_auth_sessions.sql, and the ended sessions lose their 2FA verification too.
+-- The foreign key would remove those rows anyway; deleting them first does not rely on it.
+create or replace function public.end_auth_sessions(target_user_id uuid, only_session_id uuid default null, keep_session_id uuid default null)
+returns void
+language sql
+security definer
+set search_path = public
+as $$
+  delete from mfa_verified_sessions
+  where user_id = target_user_id
+    and (only_session_id is null or session_id = only_session_id)
+    and (keep_session_id is null or session_id <> keep_session_id);
+
+  delete from auth.sessions
+  where user_id = target_user_id
+    and (only_session_id is null or id = only_session_id)
+    and (keep_session_id is null or id <> keep_session_id);
+$$;
+
+revoke execute on function public.end_auth_sessions(uuid, uuid, uuid) from public, anon, authenticated;
@@ -0,0 +1,72 @@
+/*
+  # Login brute-force protection and auth event log
+
+  1. `login_throttles` counts recent failed sign-ins per account (email) and
+     per client IP. The API server derives an exponential backoff from the
+     count and locks the key out for a while once it passes a threshold.
+     Failures are counted by `record_login_failure`, which increments in a
+     single statement so parallel attempts can't overwrite each other.
+  2. `auth_events` records sign-in activity (failures, lockouts, successes)
+     for admins to review. Rows are only ever inserted.
+  3. Emails in `users` are stored in lowercase, as Supabase Auth stores them,
+     so sign-in lookups and per-account counters match however the email is typed.
+
+  Written by the API server (service role); admins can read the event log.
+*/
+
+-- Skips the rare account whose lowercase email another account already has
+update users set email = lower(email)
+where email <> lower(email)
+  and not exists (select 1 from users other where other.email = lower(users.email));
+
+create table if not exists login_throttles (
+  key text primary key, -- 'account:<email>' or 'ip:<address>'
+  failure_count integer not null default 0,
+  last_failure_at timestamptz,
+  blocked_until timestamptz
+);
+
+alter table login_throttles enable row level security;
+
+-- Counts one failed attempt against a key and returns the new count. Failures
+-- older than the window no longer count, so the count starts over.
+create or replace function public.record_login_failure(throttle_key text, window_seconds integer)
+returns integer
+language sql
+security definer
+set search_path = public
+as $$
+  insert into login_throttles as t (key, failure_count, last_failure_at)
+  values (throttle_key, 1, now())
+  on conflict (key) do update set
+    failure_count = case
+      when t.last_failure_at > now() - make_interval(secs => window_seconds) then t.failure_count + 1
+      else 1
+    end,
+    last_failure_at = now()
+  returning failure_count
+$$;
+
+revoke execute on function public.record_login_failure(text, integer) from public, anon, authenticated;
+
+create table if not exists auth_events (
+  id uuid primary key default gen_random_uuid(),
+  event_type text not null check (event_type in ('login_succeeded','login_failed','login_blocked','account_locked','mfa_failed')),
+  user_id uuid references users(id) on delete set null,
+  email text,
+  ip_address text default '',
+  user_agent text default '',
+  reason text,
+  created_at timestamptz default now()
+);
+
+alter table auth_events enable row level security;
+
+create index if not exists idx_auth_events_created on auth_events(created_at desc);
+create index if not exists idx_auth_events_email on auth_events(email);
+
+drop policy if exists "auth_events_admin_select" on auth_events;
+create policy "auth_events_admin_select"
+  on auth_events for select
+  to authenticated
+  using (current_user_role() = 'admin');
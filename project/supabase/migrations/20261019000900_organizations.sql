@@ -0,0 +1,381 @@
+/*
+  # Organizations (tenants) and cohorts
+
+  1. `organizations` are the client organizations we run training for, and
+     `cohorts` group a tenant's learners (e.g. "Spring 2026 intake").
+  2. Users, courses, enrollments, notes and invites now carry an
+     `organization_id`. Everything that existed before this migration is
+     moved into a "Default Organization" (slug `default`), which is also
+     where open student sign-ups land.
+  3. `users.is_super_admin` marks platform operators who manage every
+     tenant. Nobody is promoted here: every admin, existing or new, is
+     scoped to their own organization until an operator is granted the
+     flag explicitly with `npm run promote-super-admin -- <email>`.
+  4. RLS keeps every signed-in user inside their organization. Client
+     inserts pick up the caller's organization from a column default.
+*/
+
+create table if not exists organizations (
+  id uuid primary key default gen_random_uuid(),
+  name text not null,
+  slug text not null unique,
+  created_at timestamptz default now()
+);
+
+alter table organizations enable row level security;
+
+create table if not exists cohorts (
+  id uuid primary key default gen_random_uuid(),
+  organization_id uuid not null references organizations(id) on delete cascade,
+  name text not null,
+  starts_on date,
+  ends_on date,
+  created_at timestamptz default now(),
+  unique (id, organization_id)
+);
+
+alter table cohorts enable row level security;
+
+create index if not exists idx_cohorts_org on cohorts(organization_id);
+
+insert into organizations (name, slug)
+values ('Default Organization', 'default')
+on conflict (slug) do nothing;
+
+-- Tenant of the signed-in user, and whether they manage all tenants
+create or replace function public.current_user_organization_id()
+returns uuid
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select organization_id from users where id = auth.uid()
+$$;
+
+create or replace function public.current_user_is_super_admin()
+returns boolean
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select coalesce((select is_super_admin from users where id = auth.uid()), false)
+    and current_session_mfa_verified()
+$$;
+
+-- USERS
+alter table users add column if not exists organization_id uuid references organizations(id);
+alter table users add column if not exists cohort_id uuid;
+alter table users add column if not exists is_super_admin boolean not null default false;
+
+update users set organization_id = (select id from organizations where slug = 'default') where organization_id is null;
+
+alter table users alter column organization_id set not null;
+
+-- A user's cohort must belong to their own organization
+alter table users drop constraint if exists users_cohort_same_org;
+alter table users
+  add constraint users_cohort_same_org
+  foreign key (cohort_id, organization_id) references cohorts(id, organization_id) on delete set null (cohort_id);
+
+create index if not exists idx_users_org on users(organization_id);
+
+-- Only the server or a super-admin may move a user between tenants or grant super-admin
+create or replace function public.prevent_tenant_change()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if (new.organization_id is distinct from old.organization_id or new.is_super_admin is distinct from old.is_super_admin)
+     and coalesce(auth.role(), '') <> 'service_role'
+     and not current_user_is_super_admin() then
+    raise exception 'Only super-admins can change a user''s organization';
+  end if;
+  return new;
+end;
+$$;
+
+drop trigger if exists users_prevent_tenant_change on users;
+create trigger users_prevent_tenant_change
+  before update on users
+  for each row
+  execute function prevent_tenant_change();
+
+-- COURSES
+alter table courses add column if not exists organization_id uuid references organizations(id) on delete cascade;
+update courses c
+  set organization_id = coalesce(
+    (select u.organization_id from users u where u.id = c.teacher_id),
+    (select id from organizations where slug = 'default')
+  )
+  where organization_id is null;
+alter table courses alter column organization_id set default public.current_user_organization_id();
+alter table courses alter column organization_id set not null;
+
+alter table courses drop constraint if exists courses_id_org_key;
+alter table courses add constraint courses_id_org_key unique (id, organization_id);
+
+create index if not exists idx_courses_org on courses(organization_id);
+
+-- ENROLLMENTS (always in the course's organization)
+alter table course_enrollments add column if not exists organization_id uuid;
+update course_enrollments e
+  set organization_id = (select c.organization_id from courses c where c.id = e.course_id)
+  where organization_id is null;
+alter table course_enrollments alter column organization_id set default public.current_user_organization_id();
+alter table course_enrollments alter column organization_id set not null;
+
+alter table course_enrollments drop constraint if exists course_enrollments_course_same_org;
+alter table course_enrollments
+  add constraint course_enrollments_course_same_org
+  foreign key (course_id, organization_id) references courses(id, organization_id) on delete cascade;
+
+create index if not exists idx_enroll_org on course_enrollments(organization_id);
+
+-- NOTES
+alter table notes add column if not exists organization_id uuid references organizations(id) on delete cascade;
+update notes n
+  set organization_id = coalesce(
+    (select u.organization_id from users u where u.id = n.admin_id),
+    (select id from organizations where slug = 'default')
+  )
+  where organization_id is null;
+alter table notes alter column organization_id set default public.current_user_organization_id();
+alter table notes alter column organization_id set not null;
+
+-- INVITES (staff are invited into a specific organization)
+alter table user_invites add column if not exists organization_id uuid references organizations(id) on delete cascade;
+update user_invites set organization_id = (select id from organizations where slug = 'default') where organization_id is null;
+alter table user_invites alter column organization_id set not null;
+
+-- POLICIES
+
+drop policy if exists "organizations_select_own" on organizations;
+create policy "organizations_select_own"
+  on organizations for select
+  to authenticated
+  using (id = current_user_organization_id() or current_user_is_super_admin());
+
+drop policy if exists "organizations_super_admin_manage" on organizations;
+create policy "organizations_super_admin_manage"
+  on organizations for all
+  to authenticated
+  using (current_user_is_super_admin())
+  with check (current_user_is_super_admin());
+
+drop policy if exists "cohorts_select_own_org" on cohorts;
+create policy "cohorts_select_own_org"
+  on cohorts for select
+  to authenticated
+  using (organization_id = current_user_organization_id() or current_user_is_super_admin());
+
+drop policy if exists "cohorts_admin_manage" on cohorts;
+create policy "cohorts_admin_manage"
+  on cohorts for all
+  to authenticated
+  using (
+    current_user_is_super_admin()
+    or (current_user_role() = 'admin' and organization_id = current_user_organization_id())
+  )
+  with check (
+    current_user_is_super_admin()
+    or (current_user_role() = 'admin' and organization_id = current_user_organization_id())
+  );
+
+-- Users: same rules as before, but only inside the caller's organization
+drop policy if exists "users_select_self_staff" on users;
+create policy "users_select_self_staff"
+  on users for select
+  to authenticated
+  using (
+    id = auth.uid()
+    or current_user_is_super_admin()
+    or (
+      organization_id = current_user_organization_id()
+      and (
+        role = 'teacher'
+        or current_user_role() = 'admin'
+        or (
+          current_user_role() = 'teacher'
+          and exists (
+            select 1
+            from course_enrollments e
+            join courses c on c.id = e.course_id
+            where e.user_id = users.id and c.teacher_id = auth.uid()
+          )
+        )
+      )
+    )
+  );
+
+drop policy if exists "users_admin_update" on users;
+create policy "users_admin_update"
+  on users for update
+  to authenticated
+  using (
+    current_user_is_super_admin()
+    or (current_user_role() = 'admin' and organization_id = current_user_organization_id())
+  )
+  with check (
+    current_user_is_super_admin()
+    or (current_user_role() = 'admin' and organization_id = current_user_organization_id())
+  );
+
+drop policy if exists "users_admin_delete" on users;
+create policy "users_admin_delete"
+  on users for delete
+  to authenticated
+  using (
+    current_user_is_super_admin()
+    or (current_user_role() = 'admin' and organization_id = current_user_organization_id())
+  );
+
+-- Courses (modules follow their course, since their policies look courses up under RLS)
+drop policy if exists "courses_select_published_or_owned" on courses;
+create policy "courses_select_published_or_owned"
+  on courses for select
+  to authenticated
+  using (
+    current_user_is_super_admin()
+    or (
+      organization_id = current_user_organization_id()
+      and (is_published or teacher_id = auth.uid() or current_user_role() = 'admin')
+    )
+  );
+
+drop policy if exists "courses_insert_staff" on courses;
+create policy "courses_insert_staff"
+  on courses for insert
+  to authenticated
+  with check (
+    current_user_is_super_admin()
+    or (
+      organization_id = current_user_organization_id()
+      and (
+        (current_user_role() = 'teacher' and teacher_id = auth.uid())
+        or current_user_role() = 'admin'
+      )
+    )
+  );
+
+drop policy if exists "courses_update_owner_or_admin" on courses;
+create policy "courses_update_owner_or_admin"
+  on courses for update
+  to authenticated
+  using (
+    current_user_is_super_admin()
+    or (organization_id = current_user_organization_id() and (teacher_id = auth.uid() or current_user_role() = 'admin'))
+  )
+  with check (
+    current_user_is_super_admin()
+    or (organization_id = current_user_organization_id() and (teacher_id = auth.uid() or current_user_role() = 'admin'))
+  );
+
+drop policy if exists "courses_delete_owner_or_admin" on courses;
+create policy "courses_delete_owner_or_admin"
+  on courses for delete
+  to authenticated
+  using (
+    current_user_is_super_admin()
+    or (organization_id = current_user_organization_id() and (teacher_id = auth.uid() or current_user_role() = 'admin'))
+  );
+
+-- Enrollments
+drop policy if exists "course_enrollments_select_own_or_staff" on course_enrollments;
+create policy "course_enrollments_select_own_or_staff"
+  on course_enrollments for select
+  to authenticated
+  using (
+    user_id = auth.uid()
+    or current_user_is_super_admin()
+    or (current_user_role() = 'admin' and organization_id = current_user_organization_id())
+    or exists (select 1 from courses c where c.id = course_enrollments.course_id and c.teacher_id = auth.uid())
+  );
+
+drop policy if exists "course_enrollments_insert_self" on course_enrollments;
+create policy "course_enrollments_insert_self"
+  on course_enrollments for insert
+  to authenticated
+  with check (
+    user_id = auth.uid()
+    and current_user_verified()
+    and organization_id = current_user_organization_id()
+  );
+
+drop policy if exists "course_enrollments_delete_self_or_admin" on course_enrollments;
+create policy "course_enrollments_delete_self_or_admin"
+  on course_enrollments for delete
+  to authenticated
+  using (
+    user_id = auth.uid()
+    or current_user_is_super_admin()
+    or (current_user_role() = 'admin' and organization_id = current_user_organization_id())
+  );
+
+-- Progress (rows are the learner's own; admins see their tenant's learners)
+drop policy if exists "user_progress_select_own_or_staff" on user_progress;
+create policy "user_progress_select_own_or_staff"
+  on user_progress for select
+  to authenticated
+  using (
+    user_id = auth.uid()
+    or current_user_is_super_admin()
+    or (
+      current_user_role() = 'admin'
+      and exists (select 1 from users u where u.id = user_progress.user_id and u.organization_id = current_user_organization_id())
+    )
+    or exists (select 1 from courses c where c.id = user_progress.course_id and c.teacher_id = auth.uid())
+  );
+
+-- Notes
+drop policy if exists "notes_select_own_or_staff_authored" on notes;
+create policy "notes_select_own_or_staff_authored"
+  on notes for select
+  to authenticated
+  using (
+    admin_id = auth.uid()
+    or current_user_is_super_admin()
+    or (
+      organization_id = current_user_organization_id()
+      and (
+        current_user_role() = 'admin'
+        or exists (select 1 from users u where u.id = notes.admin_id and u.role in ('teacher', 'admin'))
+      )
+    )
+  );
+
+drop policy if exists "notes_write_own" on notes;
+create policy "notes_write_own"
+  on notes for all
+  to authenticated
+  using (admin_id = auth.uid())
+  with check (admin_id = auth.uid() and organization_id = current_user_organization_id());
+
+drop policy if exists "notes_admin_manage" on notes;
+create policy "notes_admin_manage"
+  on notes for all
+  to authenticated
+  using (
+    current_user_is_super_admin()
+    or (current_user_role() = 'admin' and organization_id = current_user_organization_id())
+  )
+  with check (
+    current_user_is_super_admin()
+    or (current_user_role() = 'admin' and organization_id = current_user_organization_id())
+  );
+
+-- Sign-in activity: org admins see events for their own users
+drop policy if exists "auth_events_admin_select" on auth_events;
+create policy "auth_events_admin_select"
+  on auth_events for select
+  to authenticated
+  using (
+    current_user_is_super_admin()
+    or (
+      current_user_role() = 'admin'
+      and exists (select 1 from users u where u.id = auth_events.user_id and u.organization_id = current_user_organization_id())
+    )
+  );
@@ -0,0 +1,52 @@
+/*
+  # OpenID Connect single sign-on
+
+  1. `organization_sso` holds one OIDC identity provider per organization.
+     The client secret is encrypted by the API server before it is stored,
+     and the table has no RLS policies: only the service role reads it.
+  2. `role_mappings` maps IdP group names to roles, e.g.
+     `{"admin": ["lms-admins"], "teacher": ["trainers"], "student": []}`.
+     Users in no mapped group get `default_role`.
+  3. `user_identities` links an IdP subject (issuer + `sub`) to a user, so
+     later sign-ins find the account even if the email changes at the IdP.
+     An existing account is only linked from its own signed-in session,
+     never by matching the IdP's email.
+  4. `auth_tokens` gains the `sso_login` purpose: the short-lived, one-time
+     token the API server hands the web app after a successful callback,
+     and `sso_link`, which starts linking an identity to a signed-in user.
+*/
+
+create table if not exists organization_sso (
+  organization_id uuid primary key references organizations(id) on delete cascade,
+  enabled boolean not null default false,
+  issuer text not null,
+  client_id text not null,
+  client_secret_encrypted text,
+  scopes text not null default 'openid email profile',
+  groups_claim text not null default 'groups',
+  default_role text not null default 'student' check (default_role in ('student','teacher','admin')),
+  role_mappings jsonb not null default '{}'::jsonb,
+  created_at timestamptz default now(),
+  updated_at timestamptz default now()
+);
+
+alter table organization_sso enable row level security;
+
+create table if not exists user_identities (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references users(id) on delete cascade,
+  organization_id uuid not null references organizations(id) on delete cascade,
+  issuer text not null,
+  subject text not null,
+  created_at timestamptz default now(),
+  last_login_at timestamptz,
+  unique (issuer, subject)
+);
+
+alter table user_identities enable row level security;
+
+create index if not exists idx_user_identities_user on user_identities(user_id);
+
+alter table auth_tokens drop constraint if exists auth_tokens_purpose_check;
+alter table auth_tokens add constraint auth_tokens_purpose_check
+  check (purpose in ('password_reset','email_verification','sso_login','sso_link'));
@@ -0,0 +1,229 @@
+/*
+  # Audit log of administrative actions
+
+  1. `audit_events` records who did what to which record, with before/after
+     snapshots. It is append-only: nobody (not even the service role) can
+     update or delete a row, and it has no foreign keys so entries outlive
+     the users, courses and organizations they describe.
+  2. Changes made from the browser (through RLS) are captured by triggers,
+     so they cannot be skipped by calling Supabase directly:
+     role/tenant/cohort changes and deletion of users (including admins
+     changing their own), creation (e.g. package imports), publishing and
+     deletion of courses, and creation/deletion of organizations and
+     cohorts. Self-service profile edits touch none of the audited user
+     columns and are not logged.
+  3. Admin actions that go through the API server with the service role
+     (invites, 2FA resets, SSO settings) are written by the server itself,
+     with the signed-in admin as the actor.
+  4. Admins read their organization's events; super-admins read all.
+*/
+
+create table if not exists audit_events (
+  id uuid primary key default gen_random_uuid(),
+  organization_id uuid,
+  actor_id uuid,
+  actor_email text,
+  action text not null,
+  target_type text not null,
+  target_id text,
+  target_label text,
+  before jsonb,
+  after jsonb,
+  created_at timestamptz not null default now()
+);
+
+alter table audit_events enable row level security;
+
+create index if not exists idx_audit_events_org_created on audit_events(organization_id, created_at desc);
+create index if not exists idx_audit_events_action on audit_events(action);
+
+drop policy if exists "audit_events_admin_select" on audit_events;
+create policy "audit_events_admin_select"
+  on audit_events for select
+  to authenticated
+  using (
+    current_user_is_super_admin()
+    or (current_user_role() = 'admin' and organization_id = current_user_organization_id())
+  );
+
+revoke insert, update, delete, truncate on audit_events from anon, authenticated;
+
+create or replace function public.prevent_audit_event_change()
+returns trigger
+language plpgsql
+as $$
+begin
+  raise exception 'audit_events is append-only';
+end;
+$$;
+
+drop trigger if exists audit_events_append_only on audit_events;
+create trigger audit_events_append_only
+  before update or delete on audit_events
+  for each row
+  execute function prevent_audit_event_change();
+
+-- Records an event on behalf of the signed-in user. Changes without a signed-in user
+-- (the API server's service role, migrations) are skipped: the server logs its own actions.
+create or replace function public.record_audit_event(
+  p_action text,
+  p_target_type text,
+  p_target_id text,
+  p_target_label text,
+  p_organization_id uuid,
+  p_before jsonb,
+  p_after jsonb
+)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if auth.uid() is null then
+    return;
+  end if;
+
+  insert into audit_events (organization_id, actor_id, actor_email, action, target_type, target_id, target_label, before, after)
+  values (
+    p_organization_id,
+    auth.uid(),
+    (select email from users where id = auth.uid()),
+    p_action,
+    p_target_type,
+    p_target_id,
+    p_target_label,
+    p_before,
+    p_after
+  );
+end;
+$$;
+
+revoke execute on function public.record_audit_event(text, text, text, text, uuid, jsonb, jsonb) from public, anon, authenticated;
+
+-- USERS
+create or replace function public.audit_users_change()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  before_row jsonb;
+  after_row jsonb;
+begin
+  if tg_op = 'DELETE' then
+    perform record_audit_event('user.deleted', 'user', old.id::text, old.email, old.organization_id,
+      to_jsonb(old) - 'password_hash', null);
+    return old;
+  end if;
+
+  -- Only these columns are audited, so users editing their own profile fields log nothing,
+  -- while an admin changing their own role or organization still does
+  before_row := jsonb_build_object('role', old.role, 'organization_id', old.organization_id,
+    'cohort_id', old.cohort_id, 'is_super_admin', old.is_super_admin);
+  after_row := jsonb_build_object('role', new.role, 'organization_id', new.organization_id,
+    'cohort_id', new.cohort_id, 'is_super_admin', new.is_super_admin);
+
+  if new.role is distinct from old.role then
+    perform record_audit_event('user.role_changed', 'user', new.id::text, new.email, new.organization_id, before_row, after_row);
+  end if;
+  if new.organization_id is distinct from old.organization_id then
+    perform record_audit_event('user.organization_changed', 'user', new.id::text, new.email, new.organization_id, before_row, after_row);
+  end if;
+  if new.cohort_id is distinct from old.cohort_id then
+    perform record_audit_event('user.cohort_changed', 'user', new.id::text, new.email, new.organization_id, before_row, after_row);
+  end if;
+  if new.is_super_admin is distinct from old.is_super_admin then
+    perform record_audit_event('user.super_admin_changed', 'user', new.id::text, new.email, new.organization_id, before_row, after_row);
+  end if;
+  return new;
+end;
+$$;
+
+drop trigger if exists users_audit on users;
+create trigger users_audit
+  after update or delete on users
+  for each row
+  execute function audit_users_change();
+
+-- COURSES
+create or replace function public.audit_courses_change()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if tg_op = 'DELETE' then
+    perform record_audit_event('course.deleted', 'course', old.id::text, old.title, old.organization_id, to_jsonb(old), null);
+    return old;
+  end if;
+  if tg_op = 'INSERT' then
+    perform record_audit_event('course.created', 'course', new.id::text, new.title, new.organization_id, null,
+      jsonb_build_object('title', new.title, 'is_published', new.is_published));
+    return new;
+  end if;
+
+  if new.is_published is distinct from old.is_published then
+    perform record_audit_event(
+      case when new.is_published then 'course.published' else 'course.unpublished' end,
+      'course', new.id::text, new.title, new.organization_id,
+      jsonb_build_object('is_published', old.is_published),
+      jsonb_build_object('is_published', new.is_published)
+    );
+  end if;
+  return new;
+end;
+$$;
+
+drop trigger if exists courses_audit on courses;
+create trigger courses_audit
+  after insert or update or delete on courses
+  for each row
+  execute function audit_courses_change();
+
+-- ORGANIZATIONS AND COHORTS
+create or replace function public.audit_organizations_change()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if tg_op = 'INSERT' then
+    perform record_audit_event('organization.created', 'organization', new.id::text, new.name, new.id, null, to_jsonb(new));
+    return new;
+  end if;
+  perform record_audit_event('organization.deleted', 'organization', old.id::text, old.name, old.id, to_jsonb(old), null);
+  return old;
+end;
+$$;
+
+drop trigger if exists organizations_audit on organizations;
+create trigger organizations_audit
+  after insert or delete on organizations
+  for each row
+  execute function audit_organizations_change();
+
+create or replace function public.audit_cohorts_change()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if tg_op = 'INSERT' then
+    perform record_audit_event('cohort.created', 'cohort', new.id::text, new.name, new.organization_id, null, to_jsonb(new));
+    return new;
+  end if;
+  perform record_audit_event('cohort.deleted', 'cohort', old.id::text, old.name, old.organization_id, to_jsonb(old), null);
+  return old;
+end;
+$$;
+
+drop trigger if exists cohorts_audit on cohorts;
+create trigger cohorts_audit
+  after insert or delete on cohorts
+  for each row
+  execute function audit_cohorts_change();
@@ -0,0 +1,30 @@
+/*
+  # Self-service account deletion
+
+  1. `account_deletion_requests` holds a user's request to erase their
+     account. The API server erases the account once `scheduled_for` has
+     passed; until then the user can sign in and cancel.
+  2. There is deliberately no foreign key to `users`: the row outlives the
+     account as the record that the erasure happened, and keeps no email.
+  3. At most one open (not cancelled, not completed) request per user.
+  4. Only the API server (service role) reads or writes this table.
+*/
+
+create table if not exists account_deletion_requests (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null,
+  requested_at timestamptz not null default now(),
+  scheduled_for timestamptz not null,
+  cancelled_at timestamptz,
+  completed_at timestamptz
+);
+
+alter table account_deletion_requests enable row level security;
+
+create unique index if not exists idx_account_deletion_open
+  on account_deletion_requests(user_id)
+  where cancelled_at is null and completed_at is null;
+
+create index if not exists idx_account_deletion_due
+  on account_deletion_requests(scheduled_for)
+  where cancelled_at is null and completed_at is null;
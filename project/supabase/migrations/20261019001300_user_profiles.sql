@@ -0,0 +1,97 @@
+/*
+  # Editable user profiles
+
+  1. `users.avatar_url` points at the user's picture in the `uploads` storage
+     bucket, under `avatars/<user id>/`. Users can only list, write and
+     delete files in their own folder (Storage looks an object up before
+     deleting it, so removal needs the select policy too). Pictures are
+     still served to everyone through the bucket's public URLs.
+  2. Profile fields get the same limits the app validates against. They are
+     added `not valid` so existing rows are left alone; every new write is
+     checked.
+  3. `email`, `email_verified` and `pending_email` can only be changed by the
+     API server. The email is shared with the Supabase Auth user, and a new
+     address only takes effect once its owner follows the link sent to it
+     (`auth_tokens` gains the `email_change` purpose for that link).
+*/
+
+alter table users add column if not exists avatar_url text;
+alter table users add column if not exists pending_email text;
+
+alter table users drop constraint if exists users_name_length;
+alter table users add constraint users_name_length
+  check (char_length(btrim(name)) between 1 and 100) not valid;
+
+alter table users drop constraint if exists users_bio_length;
+alter table users add constraint users_bio_length
+  check (char_length(bio) <= 1000) not valid;
+
+alter table users drop constraint if exists users_specialization_length;
+alter table users add constraint users_specialization_length
+  check (char_length(specialization) <= 100) not valid;
+
+alter table users drop constraint if exists users_experience_years_check;
+alter table users add constraint users_experience_years_check
+  check (experience_years is null or experience_years in ('0-1','2-5','6-10','10+')) not valid;
+
+alter table auth_tokens drop constraint if exists auth_tokens_purpose_check;
+alter table auth_tokens add constraint auth_tokens_purpose_check
+  check (purpose in ('password_reset','email_verification','sso_login','sso_link','email_change'));
+
+create or replace function public.prevent_identity_self_change()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if (new.email is distinct from old.email
+      or new.email_verified is distinct from old.email_verified
+      or new.pending_email is distinct from old.pending_email)
+     and coalesce(auth.role(), '') <> 'service_role' then
+    raise exception 'Email addresses can only be changed through the account settings';
+  end if;
+  return new;
+end;
+$$;
+
+drop trigger if exists users_prevent_identity_self_change on users;
+create trigger users_prevent_identity_self_change
+  before update on users
+  for each row
+  execute function prevent_identity_self_change();
+
+-- AVATARS
+insert into storage.buckets (id, name, public)
+values ('uploads', 'uploads', true)
+on conflict (id) do nothing;
+
+drop policy if exists "avatars_select_own" on storage.objects;
+create policy "avatars_select_own"
+  on storage.objects for select
+  to authenticated
+  using (
+    bucket_id = 'uploads'
+    and (storage.foldername(name))[1] = 'avatars'
+    and (storage.foldername(name))[2] = auth.uid()::text
+  );
+
+drop policy if exists "avatars_insert_own" on storage.objects;
+create policy "avatars_insert_own"
+  on storage.objects for insert
+  to authenticated
+  with check (
+    bucket_id = 'uploads'
+    and (storage.foldername(name))[1] = 'avatars'
+    and (storage.foldername(name))[2] = auth.uid()::text
+  );
+
+drop policy if exists "avatars_delete_own" on storage.objects;
+create policy "avatars_delete_own"
+  on storage.objects for delete
+  to authenticated
+  using (
+    bucket_id = 'uploads'
+    and (storage.foldername(name))[1] = 'avatars'
+    and (storage.foldername(name))[2] = auth.uid()::text
+  );
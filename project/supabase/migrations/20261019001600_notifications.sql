@@ -0,0 +1,309 @@
+/*
+  # In-app notifications
+
+  1. `notifications` holds one row per message to one user. Users read their
+     own, mark them read and delete them; nobody inserts from the browser.
+     Rows are created by the triggers below or by the API server.
+  2. `notification_preferences` stores a user's per-type opt-outs. A missing
+     row means the type is enabled.
+  3. Triggers notify:
+     - the students of an organization when one of its courses is published,
+     - students enrolled in a course when a module of it is published,
+     - the students of an organization when a teacher or admin posts a note,
+     - a user when a row is added to `user_certificates`.
+  4. `user_certificates` records certificates a user has earned; users can
+     read their own and nobody writes them from the browser. A course's
+     certificate (`certificate_id` is the course id) is awarded by a trigger
+     on `user_progress` once the user has completed every published module
+     of a published course in their organization.
+  5. `notifications` is added to the realtime publication so the bell menu
+     receives new rows as they are inserted (RLS still applies).
+*/
+
+create table if not exists notifications (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references users(id) on delete cascade,
+  type text not null check (type in ('course_published', 'material_posted', 'certificate_earned', 'system')),
+  title text not null,
+  body text not null default '',
+  link text,
+  read_at timestamptz,
+  created_at timestamptz not null default now()
+);
+
+alter table notifications enable row level security;
+
+create index if not exists idx_notifications_user_created on notifications(user_id, created_at desc);
+create index if not exists idx_notifications_user_unread on notifications(user_id) where read_at is null;
+
+drop policy if exists "notifications_select_own" on notifications;
+create policy "notifications_select_own"
+  on notifications for select
+  to authenticated
+  using (user_id = auth.uid());
+
+drop policy if exists "notifications_update_own" on notifications;
+create policy "notifications_update_own"
+  on notifications for update
+  to authenticated
+  using (user_id = auth.uid())
+  with check (user_id = auth.uid());
+
+drop policy if exists "notifications_delete_own" on notifications;
+create policy "notifications_delete_own"
+  on notifications for delete
+  to authenticated
+  using (user_id = auth.uid());
+
+-- Marking as read is the only change a user can make to a notification
+revoke insert, update on notifications from anon, authenticated;
+grant update (read_at) on notifications to authenticated;
+
+create table if not exists notification_preferences (
+  user_id uuid not null references users(id) on delete cascade,
+  type text not null check (type in ('course_published', 'material_posted', 'certificate_earned', 'system')),
+  in_app boolean not null default true,
+  updated_at timestamptz not null default now(),
+  primary key (user_id, type)
+);
+
+alter table notification_preferences enable row level security;
+
+drop policy if exists "notification_preferences_own" on notification_preferences;
+create policy "notification_preferences_own"
+  on notification_preferences for all
+  to authenticated
+  using (user_id = auth.uid())
+  with check (user_id = auth.uid());
+
+create table if not exists user_certificates (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references users(id) on delete cascade,
+  certificate_id text not null,
+  title text not null,
+  earned_at timestamptz not null default now(),
+  unique (user_id, certificate_id)
+);
+
+alter table user_certificates enable row level security;
+
+drop policy if exists "user_certificates_select_own" on user_certificates;
+create policy "user_certificates_select_own"
+  on user_certificates for select
+  to authenticated
+  using (user_id = auth.uid());
+
+revoke insert, update, delete on user_certificates from anon, authenticated;
+
+-- Sends one notification unless the user has switched that type off
+create or replace function public.notify_user(
+  p_user_id uuid,
+  p_type text,
+  p_title text,
+  p_body text,
+  p_link text
+)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if exists (
+    select 1 from notification_preferences
+    where user_id = p_user_id and type = p_type and not in_app
+  ) then
+    return;
+  end if;
+
+  insert into notifications (user_id, type, title, body, link)
+  values (p_user_id, p_type, p_title, coalesce(p_body, ''), p_link);
+end;
+$$;
+
+revoke execute on function public.notify_user(uuid, text, text, text, text) from public, anon, authenticated;
+
+-- COURSES
+create or replace function public.notify_course_published()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  student record;
+begin
+  if not coalesce(new.is_published, false) then
+    return new;
+  end if;
+  if tg_op = 'UPDATE' and coalesce(old.is_published, false) then
+    return new;
+  end if;
+
+  for student in
+    select id from users where organization_id = new.organization_id and role = 'student'
+  loop
+    perform notify_user(student.id, 'course_published', 'New course: ' || new.title,
+      coalesce(new.description, ''), '/courses');
+  end loop;
+  return new;
+end;
+$$;
+
+drop trigger if exists courses_notify_published on courses;
+create trigger courses_notify_published
+  after insert or update of is_published on courses
+  for each row
+  execute function notify_course_published();
+
+-- COURSE MODULES
+create or replace function public.notify_module_published()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  course_title text;
+  enrollment record;
+begin
+  if not coalesce(new.is_published, false) then
+    return new;
+  end if;
+  if tg_op = 'UPDATE' and coalesce(old.is_published, false) then
+    return new;
+  end if;
+
+  select title into course_title from courses where id = new.course_id;
+  for enrollment in
+    select distinct user_id from course_enrollments where course_id = new.course_id
+  loop
+    perform notify_user(enrollment.user_id, 'material_posted', 'New module in ' || coalesce(course_title, 'your course'),
+      new.title, '/courses');
+  end loop;
+  return new;
+end;
+$$;
+
+drop trigger if exists course_modules_notify_published on course_modules;
+create trigger course_modules_notify_published
+  after insert or update of is_published on course_modules
+  for each row
+  execute function notify_module_published();
+
+-- NOTES
+-- Learners' own notes (and the AI tutor's memory, which is stored as notes) are not announced
+create or replace function public.notify_note_posted()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  author_role text;
+  note_title text;
+  student record;
+begin
+  select role into author_role from users where id = new.admin_id;
+  if author_role is null or author_role not in ('teacher', 'admin') then
+    return new;
+  end if;
+
+  note_title := coalesce(to_jsonb(new)->>'title', 'Study material');
+  for student in
+    select id from users where organization_id = new.organization_id and role = 'student'
+  loop
+    perform notify_user(student.id, 'material_posted', 'New study material: ' || note_title,
+      coalesce(to_jsonb(new)->>'description', ''), '/notes');
+  end loop;
+  return new;
+end;
+$$;
+
+drop trigger if exists notes_notify_posted on notes;
+create trigger notes_notify_posted
+  after insert on notes
+  for each row
+  execute function notify_note_posted();
+
+-- CERTIFICATES
+create or replace function public.notify_certificate_earned()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  perform notify_user(new.user_id, 'certificate_earned', 'Certificate earned: ' || new.title,
+    'Congratulations! It is now listed on your certificates page.', '/certificates');
+  return new;
+end;
+$$;
+
+drop trigger if exists user_certificates_notify on user_certificates;
+create trigger user_certificates_notify
+  after insert on user_certificates
+  for each row
+  execute function notify_certificate_earned();
+
+create or replace function public.award_course_certificate()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_title text;
+begin
+  if not coalesce(new.completed, false) or new.module_id is null then
+    return new;
+  end if;
+
+  select c.title into v_title
+  from courses c
+  join users u on u.id = new.user_id and u.organization_id = c.organization_id
+  where c.id = new.course_id and coalesce(c.is_published, false);
+  if v_title is null then
+    return new;
+  end if;
+
+  -- Every published module needs a completed row; a course with none earns nothing
+  if not exists (
+    select 1 from course_modules m where m.course_id = new.course_id and coalesce(m.is_published, false)
+  ) or exists (
+    select 1 from course_modules m
+    where m.course_id = new.course_id
+      and coalesce(m.is_published, false)
+      and not exists (
+        select 1 from user_progress p
+        where p.user_id = new.user_id and p.module_id = m.id and coalesce(p.completed, false)
+      )
+  ) then
+    return new;
+  end if;
+
+  insert into user_certificates (user_id, certificate_id, title)
+  values (new.user_id, new.course_id::text, v_title)
+  on conflict (user_id, certificate_id) do nothing;
+  return new;
+end;
+$$;
+
+drop trigger if exists user_progress_award_certificate on user_progress;
+create trigger user_progress_award_certificate
+  after insert or update of completed on user_progress
+  for each row
+  execute function award_course_certificate();
+
+-- REALTIME
+do $$
+begin
+  if exists (select 1 from pg_publication where pubname = 'supabase_realtime')
+     and not exists (
+       select 1 from pg_publication_tables
+       where pubname = 'supabase_realtime' and schemaname = 'public' and tablename = 'notifications'
+     ) then
+    alter publication supabase_realtime add table notifications;
+  end if;
+end;
+$$;
@@ -0,0 +1,109 @@
+/*
+  # Accessibility accommodations
+
+  1. `accessibility_settings` stores one row per user. A missing row means no
+     accommodations.
+     - `extra_time_percent` lengthens every timed quiz and assessment.
+     - `reduced_motion` turns off animations in the quiz screens.
+  2. Users read and write their own row. Admins read and write the rows of
+     users in their organization.
+  3. Only admins, super-admins or the API server may change extra time, so a
+     learner cannot grant it to themselves. Learners still manage reduced motion.
+*/
+
+create table if not exists accessibility_settings (
+  user_id uuid primary key references users(id) on delete cascade,
+  extra_time_percent integer not null default 0 check (extra_time_percent in (0, 25, 50, 100)),
+  reduced_motion boolean not null default false,
+  updated_at timestamptz not null default now()
+);
+
+alter table accessibility_settings enable row level security;
+
+drop policy if exists "accessibility_settings_select" on accessibility_settings;
+create policy "accessibility_settings_select"
+  on accessibility_settings for select
+  to authenticated
+  using (
+    user_id = auth.uid()
+    or current_user_is_super_admin()
+    or (
+      current_user_role() = 'admin'
+      and exists (
+        select 1 from users u
+        where u.id = accessibility_settings.user_id
+          and u.organization_id = current_user_organization_id()
+      )
+    )
+  );
+
+drop policy if exists "accessibility_settings_insert" on accessibility_settings;
+create policy "accessibility_settings_insert"
+  on accessibility_settings for insert
+  to authenticated
+  with check (
+    user_id = auth.uid()
+    or current_user_is_super_admin()
+    or (
+      current_user_role() = 'admin'
+      and exists (
+        select 1 from users u
+        where u.id = accessibility_settings.user_id
+          and u.organization_id = current_user_organization_id()
+      )
+    )
+  );
+
+drop policy if exists "accessibility_settings_update" on accessibility_settings;
+create policy "accessibility_settings_update"
+  on accessibility_settings for update
+  to authenticated
+  using (
+    user_id = auth.uid()
+    or current_user_is_super_admin()
+    or (
+      current_user_role() = 'admin'
+      and exists (
+        select 1 from users u
+        where u.id = accessibility_settings.user_id
+          and u.organization_id = current_user_organization_id()
+      )
+    )
+  )
+  with check (
+    user_id = auth.uid()
+    or current_user_is_super_admin()
+    or (
+      current_user_role() = 'admin'
+      and exists (
+        select 1 from users u
+        where u.id = accessibility_settings.user_id
+          and u.organization_id = current_user_organization_id()
+      )
+    )
+  );
+
+-- Extra time is an accommodation granted by staff, never by the learner
+create or replace function public.guard_extra_time()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if new.extra_time_percent is distinct from (case when tg_op = 'UPDATE' then old.extra_time_percent else 0 end)
+     and coalesce(auth.role(), '') <> 'service_role'
+     and not current_user_is_super_admin()
+     and coalesce(current_user_role(), '') <> 'admin' then
+    raise exception 'Only an administrator can change extra time';
+  end if;
+  new.updated_at := now();
+  return new;
+end;
+$$;
+
+drop trigger if exists accessibility_settings_guard_extra_time on accessibility_settings;
+create trigger accessibility_settings_guard_extra_time
+  before insert or update on accessibility_settings
+  for each row
+  execute function guard_extra_time();
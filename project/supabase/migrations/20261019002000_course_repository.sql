@@ -1,18 +1,58 @@
-import { Course } from '../types';
-
-export const owaspCourses: Course[] = [
-  {
-    id: 'owasp-course-1',
-    title: 'OWASP Top 10 Web Application Security Risks',
-    description: 'Master the most critical web application security risks as defined by OWASP',
-    unlocked: false,
-    progress: 0,
-    modules: [
-      {
-        id: 'module-1',
-        title: 'A01:2021 – Broken Access Control',
-        description: 'Learn about access control failures and how to prevent them',
-        content: `# Broken Access Control
+/*
+  # Course repository
+
+  1. Courses and modules get a `slug`, unique within their organization or
+     course, and `translations` with per-locale overrides of their text.
+  2. Student views read courses and modules from the database. A module's
+     completion and score come from `user_progress`; the legacy
+     `course_modules.completed` and `test_score` columns are no longer read.
+  3. `seed_owasp_course(organization)` creates the OWASP Top 10 course that
+     used to ship as static data. It is a regular published course and
+     nothing is created if the organization already has it.
+     - It runs for every existing organization now.
+     - It runs for each new organization from a trigger.
+*/
+
+alter table courses add column if not exists slug text;
+alter table courses add column if not exists translations jsonb not null default '{}'::jsonb;
+create unique index if not exists courses_org_slug_key on courses(organization_id, slug);
+
+alter table course_modules add column if not exists slug text;
+alter table course_modules add column if not exists translations jsonb not null default '{}'::jsonb;
+create unique index if not exists course_modules_course_slug_key on course_modules(course_id, slug);
+
+create or replace function public.seed_owasp_course(p_organization_id uuid)
+returns uuid
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_course_id uuid;
+begin
+  select id into v_course_id
+  from courses
+  where organization_id = p_organization_id and slug = 'owasp-top-10';
+
+  if v_course_id is not null then
+    return v_course_id;
+  end if;
+
+  insert into courses (organization_id, slug, title, description, category, difficulty, estimated_hours, is_published, translations)
+  values (p_organization_id, 'owasp-top-10', 'OWASP Top 10 Web Application Security Risks',
+    'Master the most critical web application security risks as defined by OWASP',
+    'web-security', 'beginner', 20, true,
+    jsonb_build_object(
+      'es', jsonb_build_object(
+        'title', 'Los 10 riesgos de seguridad en aplicaciones web de OWASP',
+        'description', 'Domina los riesgos de seguridad más críticos en aplicaciones web según OWASP'
+      )
+    ))
+  returning id into v_course_id;
+
+  insert into course_modules (course_id, slug, module_order, title, description, content, video_url, lab_url, is_published, translations) values
+    (v_course_id, 'module-1', 1, 'A01:2021 – Broken Access Control', 'Learn about access control failures and how to prevent them',
+     $md$# Broken Access Control
 
 ## Overview
 Access control enforces policy such that users cannot act outside of their intended permissions. Failures typically lead to unauthorized information disclosure, modification, or destruction of all data or performing a business function outside the user's limits.
@@ -37,16 +77,41 @@ Access control enforces policy such that users cannot act outside of their inten
 - Unauthorized admin panel access
 
 ## Lab Exercise
-Practice identifying and exploiting broken access control vulnerabilities in a simulated environment.`,
-        videoUrl: 'https://example.com/video1',
-        labUrl: '/labs/broken-access-control',
-        completed: false
-      },
-      {
-        id: 'module-2',
-        title: 'A02:2021 – Cryptographic Failures',
-        description: 'Understanding cryptographic failures and secure implementation',
-        content: `# Cryptographic Failures
+Practice identifying and exploiting broken access control vulnerabilities in a simulated environment.$md$,
+     'https://example.com/video1', '/labs/broken-access-control', true, jsonb_build_object(
+       'es', jsonb_build_object(
+         'title', 'A01:2021 – Pérdida de control de acceso',
+         'description', 'Aprende qué son los fallos de control de acceso y cómo evitarlos',
+         'content', $md$# Pérdida de control de acceso
+
+## Descripción general
+El control de acceso aplica políticas para que los usuarios no puedan actuar fuera de los permisos previstos. Sus fallos suelen provocar la divulgación, modificación o destrucción no autorizada de datos, o la ejecución de funciones de negocio fuera de los límites del usuario.
+
+## Debilidades comunes
+- Incumplir el principio de mínimo privilegio
+- Saltarse los controles de acceso modificando la URL
+- Ataques de elevación de privilegios
+- Manipulación de metadatos
+- Configuración incorrecta de CORS
+
+## Estrategias de prevención
+1. Implementar mecanismos de control de acceso adecuados
+2. Aplicar el principio de mínimo privilegio
+3. Denegar el acceso por defecto
+4. Gestionar las sesiones correctamente
+5. Limitar la frecuencia de las llamadas a la API
+
+## Ejemplos reales
+- Fallo de Instagram que permitía ver cuentas privadas
+- Evasión de la configuración de privacidad de Facebook
+- Acceso no autorizado a paneles de administración
+
+## Ejercicio de laboratorio
+Practica cómo identificar y explotar vulnerabilidades de control de acceso en un entorno simulado.$md$
+       )
+     )),
+    (v_course_id, 'module-2', 2, 'A02:2021 – Cryptographic Failures', 'Understanding cryptographic failures and secure implementation',
+     $md$# Cryptographic Failures
 
 ## Overview
 Previously known as Sensitive Data Exposure, this category focuses on failures related to cryptography which often leads to sensitive data exposure or system compromise.
@@ -72,16 +137,10 @@ Previously known as Sensitive Data Exposure, this category focuses on failures r
 - Apply proper certificate management
 
 ## Hands-on Lab
-Implement secure encryption and identify weak cryptographic implementations.`,
-        videoUrl: 'https://example.com/video2',
-        labUrl: '/labs/cryptographic-failures',
-        completed: false
-      },
-      {
-        id: 'module-3',
-        title: 'A03:2021 – Injection',
-        description: 'Master injection vulnerabilities and prevention techniques',
-        content: `# Injection Vulnerabilities
+Implement secure encryption and identify weak cryptographic implementations.$md$,
+     'https://example.com/video2', '/labs/cryptographic-failures', true, '{}'::jsonb),
+    (v_course_id, 'module-3', 3, 'A03:2021 – Injection', 'Master injection vulnerabilities and prevention techniques',
+     $md$# Injection Vulnerabilities
 
 ## Overview
 Injection flaws occur when untrusted data is sent to an interpreter as part of a command or query. The attacker's hostile data can trick the interpreter into executing unintended commands.
@@ -97,15 +156,15 @@ Injection flaws occur when untrusted data is sent to an interpreter as part of a
 SQL injection remains one of the most common and dangerous vulnerabilities:
 
 ### Union-based Injection
-\`\`\`sql
+```sql
 ' UNION SELECT username, password FROM users--
-\`\`\`
+```
 
 ### Boolean-based Blind Injection
-\`\`\`sql
+```sql
 ' AND 1=1--  (True condition)
 ' AND 1=2--  (False condition)
-\`\`\`
+```
 
 ## Prevention Strategies
 1. Use parameterized queries (prepared statements)
@@ -116,24 +175,18 @@ SQL injection remains one of the most common and dangerous vulnerabilities:
 
 ## Code Examples
 ### Vulnerable Code:
-\`\`\`javascript
+```javascript
 const query = "SELECT * FROM users WHERE id = " + userId;
-\`\`\`
+```
 
 ### Secure Code:
-\`\`\`javascript
+```javascript
 const query = "SELECT * FROM users WHERE id = ?";
 db.query(query, [userId]);
-\`\`\``,
-        videoUrl: 'https://example.com/video3',
-        labUrl: '/labs/injection',
-        completed: false
-      },
-      {
-        id: 'module-4',
-        title: 'A04:2021 – Insecure Design',
-        description: 'Learn about secure design principles and threat modeling',
-        content: `# Insecure Design
+```$md$,
+     'https://example.com/video3', '/labs/injection', true, '{}'::jsonb),
+    (v_course_id, 'module-4', 4, 'A04:2021 – Insecure Design', 'Learn about secure design principles and threat modeling',
+     $md$# Insecure Design
 
 ## Overview
 Insecure design is a broad category representing different weaknesses, expressed as "missing or ineffective control design." It focuses on risks related to design and architectural flaws.
@@ -172,16 +225,10 @@ Insecure design is a broad category representing different weaknesses, expressed
 - Authentication and authorization patterns
 - Secure communication patterns
 - Input validation patterns
-- Logging and monitoring patterns`,
-        videoUrl: 'https://example.com/video4',
-        labUrl: '/labs/insecure-design',
-        completed: false
-      },
-      {
-        id: 'module-5',
-        title: 'A05:2021 – Security Misconfiguration',
-        description: 'Identify and fix common security misconfigurations',
-        content: `# Security Misconfiguration
+- Logging and monitoring patterns$md$,
+     'https://example.com/video4', '/labs/insecure-design', true, '{}'::jsonb),
+    (v_course_id, 'module-5', 5, 'A05:2021 – Security Misconfiguration', 'Identify and fix common security misconfigurations',
+     $md$# Security Misconfiguration
 
 ## Overview
 Security misconfiguration is the most commonly seen issue, often resulting from insecure default configurations, incomplete configurations, open cloud storage, and verbose error messages.
@@ -221,16 +268,10 @@ Essential security headers to implement:
 2. Regular security scanning
 3. Automate configuration management
 4. Remove unused features
-5. Keep software updated`,
-        videoUrl: 'https://example.com/video5',
-        labUrl: '/labs/security-misconfiguration',
-        completed: false
-      },
-      {
-        id: 'module-6',
-        title: 'A06:2021 – Vulnerable and Outdated Components',
-        description: 'Manage component vulnerabilities and dependencies',
-        content: `# Vulnerable and Outdated Components
+5. Keep software updated$md$,
+     'https://example.com/video5', '/labs/security-misconfiguration', true, '{}'::jsonb),
+    (v_course_id, 'module-6', 6, 'A06:2021 – Vulnerable and Outdated Components', 'Manage component vulnerabilities and dependencies',
+     $md$# Vulnerable and Outdated Components
 
 ## Overview
 You are likely vulnerable if you do not know the versions of all components you use, including nested dependencies. This includes components you directly use and nested dependencies.
@@ -274,16 +315,10 @@ You are likely vulnerable if you do not know the versions of all components you
 - Verify component integrity
 - Use package managers with security features
 - Implement software composition analysis
-- Monitor third-party services`,
-        videoUrl: 'https://example.com/video6',
-        labUrl: '/labs/vulnerable-components',
-        completed: false
-      },
-      {
-        id: 'module-7',
-        title: 'A07:2021 – Identification and Authentication Failures',
-        description: 'Secure authentication and session management',
-        content: `# Identification and Authentication Failures
+- Monitor third-party services$md$,
+     'https://example.com/video6', '/labs/vulnerable-components', true, '{}'::jsonb),
+    (v_course_id, 'module-7', 7, 'A07:2021 – Identification and Authentication Failures', 'Secure authentication and session management',
+     $md$# Identification and Authentication Failures
 
 ## Overview
 Confirmation of the user's identity, authentication, and session management is critical to protect against authentication-related attacks.
@@ -328,16 +363,10 @@ Confirmation of the user's identity, authentication, and session management is c
 - Password spraying
 - Session hijacking
 - Man-in-the-middle attacks
-- Phishing attacks`,
-        videoUrl: 'https://example.com/video7',
-        labUrl: '/labs/authentication-failures',
-        completed: false
-      },
-      {
-        id: 'module-8',
-        title: 'A08:2021 – Software and Data Integrity Failures',
-        description: 'Ensure software and data integrity throughout the pipeline',
-        content: `# Software and Data Integrity Failures
+- Phishing attacks$md$,
+     'https://example.com/video7', '/labs/authentication-failures', true, '{}'::jsonb),
+    (v_course_id, 'module-8', 8, 'A08:2021 – Software and Data Integrity Failures', 'Ensure software and data integrity throughout the pipeline',
+     $md$# Software and Data Integrity Failures
 
 ## Overview
 Software and data integrity failures relate to code and infrastructure that does not protect against integrity violations. This includes insecure CI/CD pipelines and auto-update mechanisms.
@@ -385,16 +414,10 @@ Software and data integrity failures relate to code and infrastructure that does
 - Malicious packages
 - Build system compromise
 - Update mechanism attacks
-- Third-party service compromise`,
-        videoUrl: 'https://example.com/video8',
-        labUrl: '/labs/integrity-failures',
-        completed: false
-      },
-      {
-        id: 'module-9',
-        title: 'A09:2021 – Security Logging and Monitoring Failures',
-        description: 'Implement effective security logging and monitoring',
-        content: `# Security Logging and Monitoring Failures
+- Third-party service compromise$md$,
+     'https://example.com/video8', '/labs/integrity-failures', true, '{}'::jsonb),
+    (v_course_id, 'module-9', 9, 'A09:2021 – Security Logging and Monitoring Failures', 'Implement effective security logging and monitoring',
+     $md$# Security Logging and Monitoring Failures
 
 ## Overview
 Logging and monitoring are critical for detecting, escalating, and responding to active breaches. Without proper logging and monitoring, breaches cannot be detected.
@@ -451,16 +474,10 @@ Logging and monitoring are critical for detecting, escalating, and responding to
 - PCI DSS logging standards
 - SOX compliance
 - HIPAA audit trails
-- Industry-specific requirements`,
-        videoUrl: 'https://example.com/video9',
-        labUrl: '/labs/logging-monitoring',
-        completed: false
-      },
-      {
-        id: 'module-10',
-        title: 'A10:2021 – Server-Side Request Forgery (SSRF)',
-        description: 'Understand and prevent server-side request forgery attacks',
-        content: `# Server-Side Request Forgery (SSRF)
+- Industry-specific requirements$md$,
+     'https://example.com/video9', '/labs/logging-monitoring', true, '{}'::jsonb),
+    (v_course_id, 'module-10', 10, 'A10:2021 – Server-Side Request Forgery (SSRF)', 'Understand and prevent server-side request forgery attacks',
+     $md$# Server-Side Request Forgery (SSRF)
 
 ## Overview
 SSRF flaws occur whenever a web application is fetching a remote resource without validating the user-supplied URL. It allows an attacker to coerce the application to send requests to unexpected destinations.
@@ -482,7 +499,7 @@ SSRF flaws occur whenever a web application is fetching a remote resource withou
 
 ## Attack Techniques
 ### URL Manipulation
-\`\`\`
+```
 # Accessing cloud metadata
 http://169.254.169.254/latest/meta-data/
 
@@ -490,7 +507,7 @@ http://169.254.169.254/latest/meta-data/
 http://localhost:8080/admin
 http://127.0.0.1:8080/admin
 http://0.0.0.0:8080/admin
-\`\`\`
+```
 
 ### Protocol Exploitation
 - file:// protocol for local files
@@ -515,15 +532,15 @@ http://0.0.0.0:8080/admin
 
 ## Code Examples
 ### Vulnerable Code:
-\`\`\`python
+```python
 import requests
 url = request.form['url']
 response = requests.get(url)
 return response.content
-\`\`\`
+```
 
 ### Secure Code:
-\`\`\`python
+```python
 import requests
 from urllib.parse import urlparse
 
@@ -534,11 +551,31 @@ def is_safe_url(url):
 if is_safe_url(url):
     response = requests.get(url)
     return response.content
-\`\`\``,
-        videoUrl: 'https://example.com/video10',
-        labUrl: '/labs/ssrf',
-        completed: false
-      }
-    ]
-  }
-];
\ No newline at end of file
+```$md$,
+     'https://example.com/video10', '/labs/ssrf', true, '{}'::jsonb);
+
+  return v_course_id;
+end;
+$$;
+
+revoke execute on function public.seed_owasp_course(uuid) from public, anon, authenticated;
+
+create or replace function public.seed_organization_courses()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  perform seed_owasp_course(new.id);
+  return new;
+end;
+$$;
+
+drop trigger if exists organizations_seed_courses on organizations;
+create trigger organizations_seed_courses
+  after insert on organizations
+  for each row
+  execute function seed_organization_courses();
+
+select seed_owasp_course(id) from organizations;
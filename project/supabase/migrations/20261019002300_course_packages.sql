@@ -0,0 +1,152 @@
+/*
+  # Course packages
+
+  1. `course_modules.quiz_questions` holds a module's test questions, so
+     imported and authored courses bring their own. Each item is written as
+     { question, options, correctAnswer, explanation, translations }. The seeded
+     OWASP modules leave it empty and use the questions built into the app.
+  2. Learners can read course_modules, so the answers must not stay there. A
+     trigger moves every written question set, answers included, into
+     `course_module_quiz_answers`, which only the course's editors can read,
+     and leaves `quiz_questions` without `correctAnswer` or explanations.
+     `grade_module_test` scores a learner's answers and only then reveals
+     the answers and explanations.
+  3. Teachers and admins may upload course media under
+     `uploads/courses/<organization id>/`, for their own organization only.
+     Importing a course package stores its media there.
+*/
+
+alter table course_modules add column if not exists quiz_questions jsonb not null default '[]'::jsonb;
+
+alter table course_modules drop constraint if exists course_modules_quiz_questions_array;
+alter table course_modules add constraint course_modules_quiz_questions_array
+  check (jsonb_typeof(quiz_questions) = 'array');
+
+-- ANSWER KEYS
+-- Deferred, because the trigger below writes here before a new module row exists
+create table if not exists course_module_quiz_answers (
+  module_id uuid primary key references course_modules(id) on delete cascade deferrable initially deferred,
+  quiz_questions jsonb not null default '[]'::jsonb
+);
+
+alter table course_module_quiz_answers enable row level security;
+
+drop policy if exists "course_module_quiz_answers_select_editors" on course_module_quiz_answers;
+create policy "course_module_quiz_answers_select_editors"
+  on course_module_quiz_answers for select
+  to authenticated
+  using (
+    exists (
+      select 1 from course_modules m
+      join courses c on c.id = m.course_id
+      where m.id = module_id
+        and (
+          current_user_is_super_admin()
+          or (c.organization_id = current_user_organization_id() and (c.teacher_id = auth.uid() or current_user_role() = 'admin'))
+        )
+    )
+  );
+
+-- Questions as learners see them: no answer, and no explanation in any language
+create or replace function public.strip_quiz_answers(questions jsonb)
+returns jsonb
+language sql
+immutable
+as $$
+  select coalesce(jsonb_agg(
+    (q - 'correctAnswer' - 'explanation')
+      || case when jsonb_typeof(q -> 'translations') = 'object' then jsonb_build_object('translations',
+           (select coalesce(jsonb_object_agg(locale, t - 'explanation'), '{}'::jsonb) from jsonb_each(q -> 'translations') as tr(locale, t)))
+         else '{}'::jsonb end
+    order by i), '[]'::jsonb)
+  from jsonb_array_elements(questions) with ordinality as item(q, i)
+$$;
+
+-- Question sets written without answers (e.g. saved back as a learner loaded them) keep the stored answers;
+-- an empty set removes them
+create or replace function public.store_quiz_answers()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if jsonb_path_exists(new.quiz_questions, '$[*] ? (exists (@.correctAnswer))') then
+    insert into course_module_quiz_answers (module_id, quiz_questions)
+    values (new.id, new.quiz_questions)
+    on conflict (module_id) do update set quiz_questions = excluded.quiz_questions;
+    new.quiz_questions := strip_quiz_answers(new.quiz_questions);
+  elsif jsonb_array_length(new.quiz_questions) = 0 then
+    delete from course_module_quiz_answers where module_id = new.id;
+  end if;
+  return new;
+end;
+$$;
+
+drop trigger if exists course_modules_store_quiz_answers on course_modules;
+create trigger course_modules_store_quiz_answers
+  before insert or update of quiz_questions on course_modules
+  for each row
+  execute function store_quiz_answers();
+
+-- Moves the answers of modules written before this trigger existed
+update course_modules set quiz_questions = quiz_questions where jsonb_array_length(quiz_questions) > 0;
+
+-- Scores a learner's answers (option indexes, in question order) against the stored answers.
+-- Returns { score, results }, where results[i] is the full question i plus whether it was answered correctly.
+create or replace function public.grade_module_test(p_module_id uuid, p_answers integer[])
+returns jsonb
+language plpgsql
+stable
+security definer
+set search_path = public
+as $$
+declare
+  questions jsonb;
+  results jsonb;
+  correct_count integer;
+begin
+  -- Same visibility as the courses select policy
+  select a.quiz_questions into questions
+  from course_modules m
+  join courses c on c.id = m.course_id
+  join course_module_quiz_answers a on a.module_id = m.id
+  where m.id = p_module_id
+    and (
+      current_user_is_super_admin()
+      or (c.organization_id = current_user_organization_id() and (c.is_published or c.teacher_id = auth.uid() or current_user_role() = 'admin'))
+    );
+
+  if questions is null or jsonb_array_length(questions) = 0 then
+    raise exception 'This module has no test';
+  end if;
+
+  select
+    jsonb_agg(q || jsonb_build_object('correct', (q ->> 'correctAnswer')::integer is not distinct from p_answers[i::integer]) order by i),
+    count(*) filter (where (q ->> 'correctAnswer')::integer is not distinct from p_answers[i::integer])
+  into results, correct_count
+  from jsonb_array_elements(questions) with ordinality as item(q, i);
+
+  return jsonb_build_object('score', round(100.0 * correct_count / jsonb_array_length(questions)), 'results', results);
+end;
+$$;
+
+revoke execute on function public.grade_module_test(uuid, integer[]) from public, anon;
+grant execute on function public.grade_module_test(uuid, integer[]) to authenticated;
+
+-- COURSE MEDIA
+drop policy if exists "course_media_insert_staff" on storage.objects;
+create policy "course_media_insert_staff"
+  on storage.objects for insert
+  to authenticated
+  with check (
+    bucket_id = 'uploads'
+    and (storage.foldername(name))[1] = 'courses'
+    and (
+      current_user_is_super_admin()
+      or (
+        current_user_role() in ('teacher', 'admin')
+        and (storage.foldername(name))[2] = current_user_organization_id()::text
+      )
+    )
+  );
@@ -0,0 +1,62 @@
+/*
+  # xAPI event queue
+
+  1. `xapi_events` queues learning events (modules started and completed,
+     quiz answers, lab objectives, videos watched, certificates earned) for
+     delivery to the configured Learning Record Store as xAPI statements.
+     The row id doubles as the statement id, so redelivery is idempotent.
+  2. Failed deliveries are retried with backoff until `status` becomes
+     'sent', or 'failed' once the attempts run out.
+  3. Earning a certificate queues an event from the database itself: course
+     certificates are inserted by the `award_course_certificate` trigger when
+     a learner completes a course, never by the API server or the browser.
+     The event carries the course id so the statement can point at it.
+
+  Written and read by the API server (service role) only.
+*/
+
+create table if not exists xapi_events (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references users(id) on delete cascade,
+  event_type text not null check (event_type in (
+    'module_started', 'module_completed', 'quiz_answered',
+    'lab_objective_achieved', 'video_watched', 'certificate_earned'
+  )),
+  payload jsonb not null default '{}'::jsonb,
+  occurred_at timestamptz not null default now(),
+  status text not null default 'pending' check (status in ('pending', 'sent', 'failed')),
+  attempts integer not null default 0,
+  next_attempt_at timestamptz not null default now(),
+  last_error text,
+  sent_at timestamptz
+);
+
+alter table xapi_events enable row level security;
+
+create index if not exists idx_xapi_events_due on xapi_events(next_attempt_at) where status = 'pending';
+create index if not exists idx_xapi_events_user on xapi_events(user_id);
+
+-- CERTIFICATES
+create or replace function public.queue_certificate_xapi_event()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  insert into xapi_events (user_id, event_type, payload, occurred_at)
+  values (new.user_id, 'certificate_earned',
+    jsonb_strip_nulls(jsonb_build_object(
+      'certificateId', new.certificate_id,
+      'title', new.title,
+      'courseId', (select c.id from courses c where c.id::text = new.certificate_id)
+    )), new.earned_at);
+  return new;
+end;
+$$;
+
+drop trigger if exists user_certificates_xapi on user_certificates;
+create trigger user_certificates_xapi
+  after insert on user_certificates
+  for each row
+  execute function queue_certificate_xapi_event();